@@ -22,10 +22,13 @@ class RecorderProcessor extends AudioWorkletProcessor {
         const duration = currentTime - this.startTime;
 
         // Send recorded data back to main thread
+        // startTime is the AudioContext time of the first captured sample,
+        // used by latency calibration to line up input with scheduled output
         this.port.postMessage({
           samples: this.recordedSamples,
           sampleRate: this.sampleRate,
-          duration: duration
+          duration: duration,
+          startTime: this.startTime
         });
       }
     };
@@ -2,17 +2,29 @@ import { TopBar } from './components/TopBar';
 import { MetronomeControl } from './components/MetronomeControl';
 import { MetronomeFlasher } from './components/MetronomeFlasher';
 import { MicrophoneSelector } from './components/MicrophoneSelector';
-import { ToneGenerator } from './components/ToneGenerator';
+import { ToneGenerator, type ToneGeneratorHandle } from './components/ToneGenerator';
 import { PlaybackControls, type PlaybackControlsHandle } from './components/PlaybackControls';
 import { ErrorNotification } from './components/ErrorNotification';
 import { VoicePartSection } from './components/VoicePartSection';
-import { RecordButton } from './components/RecordButton';
+import { BarRuler } from './components/BarRuler';
+import { RecordButton, type LoopRecordingResult, type PunchRecordingResult } from './components/RecordButton';
 import { TrackRow } from './components/TrackRow';
+import { ChordTuning } from './components/ChordTuning';
+import { SeatingPresets } from './components/SeatingPresets';
+import type { WaveformSelection } from './components/Waveform';
 import { useProjectStore } from './store/useProjectStore';
 import { useErrorStore } from './store/useErrorStore';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useTempoMap } from './hooks/useTempoMap';
 import { Visualizer } from './audio/visualizer';
-import type { VoicePartType } from './store/types';
+import { PunchSplicer } from './audio/punchSplicer';
+import { CompRenderer } from './audio/compRenderer';
+import { TempoDetector } from './audio/tempoDetector';
+import { TimingAnalyzer } from './audio/timingAnalyzer';
+import { TrackAligner } from './audio/trackAligner';
+import { formatPitch } from './audio/pitch';
+import type { LoopRegion } from './audio/mixer';
+import type { CompSegment, PitchContour, PunchRegion, VoicePartType } from './store/types';
 import { useMemo, useState, useEffect, useRef } from 'react';
 
 function App() {
@@ -24,27 +36,52 @@ function App() {
   const setTrackMute = useProjectStore((state) => state.setTrackMute);
   const setTrackVolume = useProjectStore((state) => state.setTrackVolume);
   const setTrackName = useProjectStore((state) => state.setTrackName);
+  const setTrackStartOffset = useProjectStore((state) => state.setTrackStartOffset);
+  const setTrackPan = useProjectStore((state) => state.setTrackPan);
+  const applySeatingPreset = useProjectStore((state) => state.applySeatingPreset);
+  const setVoicePartVolume = useProjectStore((state) => state.setVoicePartVolume);
+  const setVoicePartMute = useProjectStore((state) => state.setVoicePartMute);
+  const setVoicePartSolo = useProjectStore((state) => state.setVoicePartSolo);
+  const replaceTrackAudio = useProjectStore((state) => state.replaceTrackAudio);
+  const setTrackComp = useProjectStore((state) => state.setTrackComp);
+  const setTrackPitchContour = useProjectStore((state) => state.setTrackPitchContour);
+  const setTrackOnsets = useProjectStore((state) => state.setTrackOnsets);
   const loadProject = useProjectStore((state) => state.loadProject);
 
   // Error handling [EARS: ERR-001, ERR-002, ERR-003]
   const error = useErrorStore((state) => state.error);
   const clearError = useErrorStore((state) => state.clearError);
+  const setError = useErrorStore((state) => state.setError);
 
   // [EARS: SEEK-001, SEEK-002, SEEK-003] Playback time state for seeking integration
   const [currentTime, setCurrentTime] = useState(0);
 
+  // [EARS: TONE-009] Voice part last put into recording (sets the tone generator octave)
+  const [recordingVoicePart, setRecordingVoicePart] = useState<VoicePartType | null>(null);
+
+  // [EARS: PUNCH-001] Selected punch-in region (one track at a time)
+  const [punchRegion, setPunchRegion] = useState<PunchRegion | null>(null);
+
+  // [EARS: TEMPO-004, TEMPO-005] Tempo map shared by the readout, ruler and count-in
+  const tempoMap = useTempoMap();
+
   // Ref for PlaybackControls to enable keyboard shortcuts
   const playbackControlsRef = useRef<PlaybackControlsHandle>(null);
 
-  // Calculate maximum duration across all tracks for waveform alignment
+  // [EARS: CHORD-003] Ref for ToneGenerator so voice part headers can give each part its note
+  const toneGeneratorRef = useRef<ToneGeneratorHandle>(null);
+
+  // Calculate where the last track ends on the timeline for waveform alignment
+  // [EARS: POS-001] Tracks end at startOffset + duration
   const maxDuration = useMemo(() => {
     if (!currentProject) return 0;
 
     let max = 0;
     for (const voicePart of currentProject.voiceParts) {
       for (const track of voicePart.tracks) {
-        if (track.duration > max) {
-          max = track.duration;
+        const end = (track.startOffset ?? 0) + track.duration;
+        if (end > max) {
+          max = end;
         }
       }
     }
@@ -57,6 +94,13 @@ function App() {
 
     const tracks = [];
     for (const voicePart of currentProject.voiceParts) {
+      // [EARS: BUS-004, BUS-005] Every track in a part plays through the part's bus
+      const bus = {
+        id: voicePart.type,
+        volume: voicePart.volume ?? 100,
+        muted: voicePart.muted ?? false,
+        soloed: voicePart.soloed ?? false,
+      };
       for (const track of voicePart.tracks) {
         tracks.push({
           id: track.id,
@@ -64,22 +108,240 @@ function App() {
           volume: track.volume,
           muted: track.muted,
           soloed: track.soloed,
+          startOffset: track.startOffset ?? 0,
+          pan: track.pan ?? 0,
+          bus,
         });
       }
     }
     return tracks;
   }, [currentProject]);
 
+  // [EARS: ALIGN-001] Every track can be a reference for lining up another
+  const alignReferences = useMemo(
+    () => currentProject?.voiceParts.flatMap((vp) => vp.tracks.map((t) => ({ id: t.id, name: t.name }))) ?? [],
+    [currentProject]
+  );
+
   // [EARS: SEEK-001, SEEK-002, SEEK-003] Handle seek from waveform
   const handleSeek = (trackId: string, time: number) => {
     setCurrentTime(time);
   };
 
+  // [EARS: LOOP-001] Loop the selected region, or the whole song when nothing is selected
+  const loopRange = useMemo<LoopRegion>(
+    () => (punchRegion ? { start: punchRegion.punchIn, end: punchRegion.punchOut } : { start: 0, end: maxDuration }),
+    [punchRegion, maxDuration]
+  );
+
+  // [EARS: VIS-001, REC-008, PUNCH-004, LOOP-006, TAP-002, TIMING-001, ALIGN-001] Offline audio helpers share one AudioContext
+  const offlineAudioContext = useMemo(() => new AudioContext(), []);
+
   // [EARS: VIS-001, REC-008] Waveform visualizer for generating sparkline data
-  const visualizer = useMemo(() => {
-    const audioContext = new AudioContext();
-    return new Visualizer(audioContext);
-  }, []);
+  const visualizer = useMemo(() => new Visualizer(offlineAudioContext), [offlineAudioContext]);
+
+  // [EARS: PUNCH-004] Splices punch-in takes into existing tracks
+  const punchSplicer = useMemo(() => new PunchSplicer(offlineAudioContext), [offlineAudioContext]);
+
+  // [EARS: LOOP-006] Renders comps from loop-recorded takes
+  const compRenderer = useMemo(() => new CompRenderer(offlineAudioContext), [offlineAudioContext]);
+
+  // [EARS: TAP-002] Estimates tempo and first beat of recorded tracks
+  const tempoDetector = useMemo(() => new TempoDetector(offlineAudioContext), [offlineAudioContext]);
+
+  // [EARS: TIMING-001] Finds note onsets for timing reports
+  const timingAnalyzer = useMemo(() => new TimingAnalyzer(offlineAudioContext), [offlineAudioContext]);
+
+  // [EARS: ALIGN-001] Lines tracks up with a reference track or the mix
+  const trackAligner = useMemo(() => new TrackAligner(offlineAudioContext), [offlineAudioContext]);
+
+  /**
+   * Analyze the sung pitch of new track audio
+   * [EARS: CONTOUR-001] Non-critical: a track without a contour is analyzed when its contour is shown
+   */
+  const generatePitchContour = async (audioBlob: Blob): Promise<PitchContour | undefined> => {
+    try {
+      return await visualizer.generatePitchContour(audioBlob);
+    } catch (error) {
+      console.error('Failed to generate pitch contour:', error);
+      return undefined;
+    }
+  };
+
+  /**
+   * Analyze a track recorded without a pitch contour
+   * [EARS: CONTOUR-003]
+   */
+  const handleAnalyzePitch = async (trackId: string) => {
+    let track = null;
+    for (const voicePart of currentProject?.voiceParts ?? []) {
+      track = voicePart.tracks.find(t => t.id === trackId);
+      if (track) break;
+    }
+    if (!track) return;
+
+    try {
+      const pitchContour = await visualizer.generatePitchContour(track.audioBlob);
+      await setTrackPitchContour(track.id, pitchContour);
+    } catch (error) {
+      console.error('Pitch analysis failed:', error);
+      setError('Pitch analysis failed. Please try again.');
+    }
+  };
+
+  /**
+   * Find the note onsets of a track for its timing report
+   * [EARS: TIMING-001, TIMING-003]
+   */
+  const handleAnalyzeTiming = async (trackId: string) => {
+    let track = null;
+    for (const voicePart of currentProject?.voiceParts ?? []) {
+      track = voicePart.tracks.find(t => t.id === trackId);
+      if (track) break;
+    }
+    if (!track) return;
+
+    try {
+      const onsets = await timingAnalyzer.detectOnsets(track.audioBlob);
+      await setTrackOnsets(track.id, onsets);
+    } catch (error) {
+      console.error('Timing analysis failed:', error);
+      setError('Timing analysis failed. Please try again.');
+    }
+  };
+
+  /**
+   * Propose a start offset lining a track up with a reference
+   * [EARS: ALIGN-001] The reference is another track, or the mix of every other track
+   */
+  const handleFindAlignment = async (trackId: string, referenceId: string | null) => {
+    const track = allTracks.find(t => t.id === trackId);
+    if (!track) {
+      throw new Error('Track not found');
+    }
+
+    if (referenceId === null) {
+      return trackAligner.alignToMix(track, allTracks.filter(t => t.id !== trackId));
+    }
+
+    const reference = allTracks.find(t => t.id === referenceId);
+    if (!reference) {
+      throw new Error('Track not found');
+    }
+    return trackAligner.alignToTrack(track, reference);
+  };
+
+  // [EARS: PUNCH-001] Handle shift+drag selection on a track waveform
+  const handleSelectionChange = (trackId: string, selection: WaveformSelection | null) => {
+    setPunchRegion(selection ? { trackId, punchIn: selection.start, punchOut: selection.end } : null);
+  };
+
+  /**
+   * Splice a punch-in take into its track
+   * [EARS: PUNCH-004] Crossfade the take into the punch region
+   * [EARS: PUNCH-005] Regenerate waveform data and save the new audio
+   */
+  const handlePunchComplete = async (result: PunchRecordingResult) => {
+    let track = null;
+    for (const voicePart of currentProject?.voiceParts ?? []) {
+      track = voicePart.tracks.find(t => t.id === result.trackId);
+      if (track) break;
+    }
+    if (!track) return;
+
+    // Punch points are on the timeline; the splice works from the track's start
+    const trackStart = track.startOffset ?? 0;
+
+    try {
+      const spliced = await punchSplicer.splice(track.audioBlob, result.blob, {
+        punchIn: result.punchIn - trackStart,
+        punchOut: result.punchOut - trackStart,
+        takeStart: result.takeStart - trackStart,
+      });
+
+      let waveformData: number[] = [];
+      try {
+        waveformData = await visualizer.generateWaveform(spliced.audioBlob);
+      } catch (error) {
+        console.error('Failed to generate waveform:', error);
+        // Continue with empty waveform - non-critical feature
+      }
+
+      // [EARS: CONTOUR-001] Re-analyze the spliced audio
+      const pitchContour = await generatePitchContour(spliced.audioBlob);
+
+      await replaceTrackAudio(track.id, { ...spliced, waveformData, pitchContour });
+      setPunchRegion(null);
+    } catch (error) {
+      console.error('Punch-in failed:', error);
+      setError('Punch-in failed. Please try again.');
+    }
+  };
+
+  /**
+   * Add a loop recording as one track with a take lane per pass
+   * [EARS: LOOP-004] The last take is the initial comp and the track's audio
+   */
+  const handleLoopRecordingComplete = async (voicePartType: VoicePartType, result: LoopRecordingResult) => {
+    const takes = [];
+    for (const take of result.takes) {
+      let waveformData: number[] = [];
+      try {
+        waveformData = await visualizer.generateWaveform(take.blob);
+      } catch (error) {
+        console.error('Failed to generate waveform:', error);
+        // Continue with empty waveform - non-critical feature
+      }
+      takes.push({ audioBlob: take.blob, duration: take.duration, waveformData });
+    }
+
+    const lastTake = takes[takes.length - 1];
+    if (!lastTake) return;
+
+    // [EARS: CONTOUR-001] The last take is the track's audio
+    const pitchContour = await generatePitchContour(lastTake.audioBlob);
+
+    await addTrack(voicePartType, {
+      ...lastTake,
+      pitchContour,
+      latencyCompensation: result.latencyCompensation,
+      startOffset: result.startOffset,
+      takes,
+    });
+  };
+
+  /**
+   * Render a new comp into its track
+   * [EARS: LOOP-005, LOOP-006] Render the chosen segments and save them with the comp
+   */
+  const handleCompChange = async (trackId: string, comp: CompSegment[]) => {
+    let track = null;
+    for (const voicePart of currentProject?.voiceParts ?? []) {
+      track = voicePart.tracks.find(t => t.id === trackId);
+      if (track) break;
+    }
+    if (!track?.takes) return;
+
+    try {
+      const rendered = await compRenderer.render(track.takes, comp);
+
+      let waveformData: number[] = [];
+      try {
+        waveformData = await visualizer.generateWaveform(rendered.audioBlob);
+      } catch (error) {
+        console.error('Failed to generate waveform:', error);
+        // Continue with empty waveform - non-critical feature
+      }
+
+      // [EARS: CONTOUR-001] Re-analyze the rendered comp
+      const pitchContour = await generatePitchContour(rendered.audioBlob);
+
+      await setTrackComp(track.id, comp, { ...rendered, waveformData, pitchContour });
+    } catch (error) {
+      console.error('Comping failed:', error);
+      setError('Comping failed. Please try again.');
+    }
+  };
 
   /**
    * Initialize project from URL on mount
@@ -194,18 +456,42 @@ function App() {
                     currentTime={currentTime}
                     onCurrentTimeChange={setCurrentTime}
                     onSeek={setCurrentTime}
+                    tempoMap={tempoMap}
                   />
 
                   {/* Metronome and Tone Generator on same row */}
                   <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
-                    <MetronomeControl />
-                    <ToneGenerator />
+                    <MetronomeControl tempoDetector={tempoDetector} />
+                    <ToneGenerator ref={toneGeneratorRef} voicePart={recordingVoicePart} />
                   </div>
 
                   <MicrophoneSelector />
                 </div>
               </div>
 
+              {/* [EARS: BAR-002, BAR-003, BAR-004, TEMPO-005] Bar/beat ruler on the waveform timeline */}
+              {maxDuration > 0 && (
+                <BarRuler
+                  duration={maxDuration}
+                  tempoMap={tempoMap}
+                  currentTime={currentTime}
+                  onSeek={setCurrentTime}
+                />
+              )}
+
+              {/* [EARS: INTON-001, INTON-002, INTON-003] Tuning between the voices at the playhead */}
+              {maxDuration > 0 && (
+                <ChordTuning
+                  tracks={currentProject.voiceParts.flatMap((vp) => vp.tracks)}
+                  voiceParts={currentProject.voiceParts}
+                  currentTime={currentTime}
+                  tuning={currentProject.tuning}
+                />
+              )}
+
+              {/* [EARS: PAN-004] Seat the voice parts across the stereo field */}
+              {maxDuration > 0 && <SeatingPresets onApply={applySeatingPreset} />}
+
               <div className="space-y-2">
                 {currentProject.voiceParts.map((voicePart) => {
                   // Map voice part type to color
@@ -216,6 +502,9 @@ function App() {
                     B: 'purple' as const,
                   };
 
+                  // [EARS: CHORD-003] This part's starting chord pitch, if set
+                  const startingPitch = currentProject.startingChord?.[voicePart.type];
+
                   return (
                     <VoicePartSection
                       key={voicePart.type}
@@ -223,14 +512,36 @@ function App() {
                       name={voicePart.label}
                       color={colorMap[voicePart.type]}
                       trackCount={voicePart.tracks.length}
+                      startingNote={startingPitch ? formatPitch(startingPitch) : undefined}
+                      onGiveNote={() => toneGeneratorRef.current?.toggleVoiceNote(voicePart.type)}
+                      busVolume={voicePart.volume ?? 100}
+                      busMuted={voicePart.muted ?? false}
+                      busSoloed={voicePart.soloed ?? false}
+                      onBusVolumeChange={(volume) => setVoicePartVolume(voicePart.type, volume)}
+                      onBusMuteToggle={() => setVoicePartMute(voicePart.type, !voicePart.muted)}
+                      onBusSoloToggle={() => setVoicePartSolo(voicePart.type, !voicePart.soloed)}
                     >
                       {/* RecordButton for adding new tracks */}
                       {/* [EARS: REC-005, OVER-002, REC-009] Recording with overdub support and auto-save */}
                       <RecordButton
                         voicePartId={voicePart.type}
                         bpm={currentProject.bpm}
+                        countInBars={currentProject.countInBars}
+                        beatsPerBar={currentProject.timeSignature?.beatsPerBar}
+                        tempoMap={tempoMap}
+                        onRecordStart={() => setRecordingVoicePart(voicePart.type)}
+                        tuning={currentProject.tuning}
+                        skipCountInFromPosition={currentProject.skipCountInFromPosition}
                         overdubEnabled={currentProject.overdubEnabled}
                         tracks={allTracks}
+                        punchRegion={
+                          punchRegion && voicePart.tracks.some(t => t.id === punchRegion.trackId)
+                            ? punchRegion
+                            : null
+                        }
+                        onPunchComplete={handlePunchComplete}
+                        loopRange={loopRange}
+                        onLoopRecordingComplete={(result) => handleLoopRecordingComplete(voicePart.type, result)}
                         onRecordingComplete={async (result) => {
                           // [EARS: VIS-001, REC-008] Generate waveform data from recording
                           let waveformData: number[] = [];
@@ -241,11 +552,17 @@ function App() {
                             // Continue with empty waveform - non-critical feature
                           }
 
+                          // [EARS: CONTOUR-001] Analyze the sung pitch alongside the waveform
+                          const pitchContour = await generatePitchContour(result.blob);
+
                           // [EARS: REC-009] Add track to project via store (auto-saves to IndexedDB)
                           await addTrack(voicePart.type as VoicePartType, {
                             audioBlob: result.blob,
                             duration: result.duration,
                             waveformData,
+                            pitchContour,
+                            latencyCompensation: result.latencyCompensation,
+                            startOffset: result.startOffset,
                           });
                         }}
                       />
@@ -260,9 +577,24 @@ function App() {
                           onSoloToggle={handleToggleSolo}
                           onMuteToggle={handleToggleMute}
                           onVolumeChange={setTrackVolume}
+                          onPanChange={setTrackPan}
                           onNameChange={setTrackName}
                           currentTime={currentTime}
                           onSeek={handleSeek}
+                          onStartOffsetChange={setTrackStartOffset}
+                          selection={
+                            punchRegion?.trackId === track.id
+                              ? { start: punchRegion.punchIn, end: punchRegion.punchOut }
+                              : null
+                          }
+                          onSelectionChange={handleSelectionChange}
+                          onCompChange={handleCompChange}
+                          onAnalyzePitch={handleAnalyzePitch}
+                          referenceFrequency={currentProject.tuning?.referenceFrequency}
+                          tempoMap={tempoMap}
+                          onAnalyzeTiming={handleAnalyzeTiming}
+                          alignReferences={alignReferences}
+                          onFindAlignment={handleFindAlignment}
                           maxDuration={maxDuration}
                         />
                       ))}
@@ -0,0 +1,160 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CompRenderer, assignCompRange, renderCompSamples } from './compRenderer';
+import type { CompSegment, Take } from '@/store/types';
+
+const SAMPLE_RATE = 100;
+
+/**
+ * Build a take for the renderer
+ */
+function makeTake(id: string): Take {
+  return { id, audioBlob: new Blob([id]), duration: 1, waveformData: [], createdAt: new Date() };
+}
+
+describe('LOOP-005: Assigning comp ranges', () => {
+  const whole: CompSegment[] = [{ start: 0, end: 4, takeId: 't2' }];
+
+  // ✅ Happy path
+  test('splits a segment around the assigned range', () => {
+    expect(assignCompRange(whole, 't1', 1, 2)).toEqual([
+      { start: 0, end: 1, takeId: 't2' },
+      { start: 1, end: 2, takeId: 't1' },
+      { start: 2, end: 4, takeId: 't2' },
+    ]);
+  });
+
+  test('replaces the whole comp when the range covers it', () => {
+    expect(assignCompRange(whole, 't1', 0, 4)).toEqual([{ start: 0, end: 4, takeId: 't1' }]);
+  });
+
+  test('merges neighbours that use the same take', () => {
+    const comp = assignCompRange(whole, 't1', 1, 2);
+
+    expect(assignCompRange(comp, 't2', 1, 2)).toEqual([{ start: 0, end: 4, takeId: 't2' }]);
+  });
+
+  // ⚠️ Negative cases
+  test('throws when the range is empty', () => {
+    expect(() => assignCompRange(whole, 't1', 2, 2)).toThrow('Comp range end must be after start');
+  });
+
+  // 🔥 Edge cases
+  test('trims segments that partially overlap the range', () => {
+    const comp: CompSegment[] = [
+      { start: 0, end: 2, takeId: 't1' },
+      { start: 2, end: 4, takeId: 't2' },
+    ];
+
+    expect(assignCompRange(comp, 't3', 1, 3)).toEqual([
+      { start: 0, end: 1, takeId: 't1' },
+      { start: 1, end: 3, takeId: 't3' },
+      { start: 3, end: 4, takeId: 't2' },
+    ]);
+  });
+
+  test('does not modify the input comp', () => {
+    assignCompRange(whole, 't1', 1, 2);
+
+    expect(whole).toEqual([{ start: 0, end: 4, takeId: 't2' }]);
+  });
+});
+
+describe('LOOP-006: Rendering comp samples', () => {
+  const takes = new Map([
+    ['a', new Float32Array(400).fill(1)],
+    ['b', new Float32Array(400).fill(-1)],
+  ]);
+
+  // ✅ Happy path
+  test('plays each take in its segment', () => {
+    const result = renderCompSamples(
+      takes,
+      [
+        { start: 0, end: 2, takeId: 'a' },
+        { start: 2, end: 4, takeId: 'b' },
+      ],
+      SAMPLE_RATE,
+      0
+    );
+
+    expect(result).toHaveLength(400);
+    expect(result[199]).toBeCloseTo(1);
+    expect(result[200]).toBeCloseTo(-1);
+  });
+
+  test('crossfades around segment boundaries', () => {
+    const result = renderCompSamples(
+      takes,
+      [
+        { start: 0, end: 2, takeId: 'a' },
+        { start: 2, end: 4, takeId: 'b' },
+      ],
+      SAMPLE_RATE,
+      0.1
+    );
+
+    // 10-sample fade centred on sample 200
+    expect(result[194]).toBeCloseTo(1);
+    expect(result[200]).toBeCloseTo(0);
+    expect(result[205]).toBeCloseTo(-1);
+  });
+
+  // 🔥 Edge cases
+  test('leaves silence for segments whose take is missing', () => {
+    const result = renderCompSamples(takes, [{ start: 0, end: 1, takeId: 'gone' }], SAMPLE_RATE);
+
+    expect(Array.from(result).every(s => s === 0)).toBe(true);
+  });
+
+  test('does not fade the outer edges of the comp', () => {
+    const result = renderCompSamples(takes, [{ start: 0, end: 4, takeId: 'a' }], SAMPLE_RATE, 0.1);
+
+    expect(result[0]).toBe(1);
+    expect(result[399]).toBe(1);
+  });
+});
+
+describe('LOOP-006: CompRenderer', () => {
+  let audioContext: AudioContext;
+  let renderer: CompRenderer;
+
+  beforeEach(() => {
+    audioContext = new AudioContext();
+    renderer = new CompRenderer(audioContext);
+  });
+
+  afterEach(() => {
+    audioContext.close();
+    vi.restoreAllMocks();
+  });
+
+  // ✅ Happy path
+  test('decodes each used take once and returns a mono WAV', async () => {
+    const decodeSpy = vi.spyOn(audioContext, 'decodeAudioData');
+
+    const result = await renderer.render(
+      [makeTake('t1'), makeTake('t2'), makeTake('t3')],
+      [
+        { start: 0, end: 0.25, takeId: 't1' },
+        { start: 0.25, end: 0.5, takeId: 't2' },
+        { start: 0.5, end: 1, takeId: 't1' },
+      ]
+    );
+
+    expect(decodeSpy).toHaveBeenCalledTimes(2);
+    expect(result.audioBlob.type).toBe('audio/wav');
+    expect(result.audioBlob.size).toBe(44 + 44100 * 2);
+    expect(result.duration).toBeCloseTo(1);
+  });
+
+  // ⚠️ Negative cases
+  test('rejects an empty comp', async () => {
+    await expect(renderer.render([makeTake('t1')], [])).rejects.toThrow('Comp has no segments');
+  });
+
+  test('rejects a comp referencing an unknown take', async () => {
+    await expect(
+      renderer.render([makeTake('t1')], [{ start: 0, end: 1, takeId: 'missing' }])
+    ).rejects.toThrow('Take not found');
+  });
+});
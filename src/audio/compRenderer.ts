@@ -0,0 +1,167 @@
+// [EARS: LOOP-005, LOOP-006] Build and render a comp from loop-recorded takes
+
+import type { CompSegment, Take } from '@/store/types';
+import { encodeMonoWav } from './punchSplicer';
+
+const DEFAULT_CROSSFADE = 0.01; // Seconds across each segment boundary
+
+export interface CompRenderResult {
+  audioBlob: Blob;
+  duration: number;
+}
+
+/**
+ * Assign a time range of the comp to one take
+ * [EARS: LOOP-005] Overlapping parts of other segments are cut away; neighbours
+ * using the same take are merged so the comp stays sorted and non-overlapping
+ *
+ * @param comp - Current comp segments
+ * @param takeId - Take to use in the range
+ * @param start - Range start in seconds from track start
+ * @param end - Range end in seconds from track start
+ * @returns New comp segments (input is not modified)
+ * @throws Error if end is not after start
+ */
+export function assignCompRange(
+  comp: CompSegment[],
+  takeId: string,
+  start: number,
+  end: number
+): CompSegment[] {
+  if (end <= start) {
+    throw new Error('Comp range end must be after start');
+  }
+
+  const segments: CompSegment[] = [];
+  for (const segment of comp) {
+    // Keep the parts of each segment outside the new range
+    if (segment.start < start) {
+      segments.push({ ...segment, end: Math.min(segment.end, start) });
+    }
+    if (segment.end > end) {
+      segments.push({ ...segment, start: Math.max(segment.start, end) });
+    }
+  }
+  segments.push({ start, end, takeId });
+  segments.sort((a, b) => a.start - b.start);
+
+  const merged: CompSegment[] = [];
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.takeId === segment.takeId && previous.end >= segment.start) {
+      previous.end = Math.max(previous.end, segment.end);
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Mix take samples according to the comp
+ * [EARS: LOOP-006] Adjacent segments are crossfaded symmetrically around their boundary
+ *
+ * @param takes - Mono samples per take ID
+ * @param comp - Comp segments, sorted by start
+ * @param sampleRate - Sample rate shared by all takes
+ * @param crossfade - Crossfade length in seconds (default 10ms)
+ * @returns Comp samples, as long as the last segment end
+ */
+export function renderCompSamples(
+  takes: Map<string, Float32Array>,
+  comp: CompSegment[],
+  sampleRate: number,
+  crossfade: number = DEFAULT_CROSSFADE
+): Float32Array {
+  const toSample = (seconds: number) => Math.max(0, Math.round(seconds * sampleRate));
+  const length = comp.reduce((max, segment) => Math.max(max, toSample(segment.end)), 0);
+  const result = new Float32Array(length);
+
+  // Half the fade sits on each side of a boundary; never longer than half a segment
+  const shortest = comp.reduce((min, segment) => Math.min(min, toSample(segment.end) - toSample(segment.start)), Infinity);
+  const half = Math.max(0, Math.min(Math.round((crossfade * sampleRate) / 2), Math.floor(shortest / 2)));
+
+  comp.forEach((segment, i) => {
+    const take = takes.get(segment.takeId);
+    if (!take) return;
+    const start = toSample(segment.start);
+    const end = toSample(segment.end);
+
+    const fadeIn = comp[i - 1]?.end === segment.start ? half : 0;
+    const fadeOut = comp[i + 1]?.start === segment.end ? half : 0;
+
+    for (let j = Math.max(0, start - fadeIn); j < Math.min(length, end + fadeOut); j++) {
+      let gain = 1;
+      if (fadeIn > 0 && j < start + fadeIn) {
+        gain = (j - (start - fadeIn)) / (2 * fadeIn);
+      }
+      if (fadeOut > 0 && j >= end - fadeOut) {
+        gain = Math.min(gain, (end + fadeOut - j) / (2 * fadeOut));
+      }
+      result[j] = (result[j] ?? 0) + (take[j] ?? 0) * gain;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * CompRenderer decodes the takes used by a comp and renders them to one WAV
+ * [EARS: LOOP-006]
+ */
+export class CompRenderer {
+  private audioContext: AudioContext;
+
+  /**
+   * Create a new CompRenderer
+   *
+   * @param audioContext - AudioContext used for decoding
+   */
+  constructor(audioContext: AudioContext) {
+    this.audioContext = audioContext;
+  }
+
+  /**
+   * Render a comp into a single take
+   * [EARS: LOOP-006] Render the comp into the track's audio
+   *
+   * @param takes - All takes of the track
+   * @param comp - Comp segments
+   * @returns WAV audio and its duration
+   * @throws Error if the comp is empty or references a missing take
+   */
+  async render(takes: Take[], comp: CompSegment[]): Promise<CompRenderResult> {
+    if (comp.length === 0) {
+      throw new Error('Comp has no segments');
+    }
+
+    const decoded = new Map<string, Float32Array>();
+    let sampleRate = this.audioContext.sampleRate;
+    for (const segment of comp) {
+      if (decoded.has(segment.takeId)) continue;
+
+      const take = takes.find(t => t.id === segment.takeId);
+      if (!take) {
+        throw new Error('Take not found');
+      }
+      const buffer = await this.decode(take.audioBlob);
+      sampleRate = buffer.sampleRate;
+      decoded.set(take.id, buffer.getChannelData(0));
+    }
+
+    const samples = renderCompSamples(decoded, comp, sampleRate);
+
+    return {
+      audioBlob: encodeMonoWav(samples, sampleRate),
+      duration: samples.length / sampleRate,
+    };
+  }
+
+  /**
+   * Decode an audio blob
+   */
+  private async decode(blob: Blob): Promise<AudioBuffer> {
+    const arrayBuffer = await blob.arrayBuffer();
+    return await this.audioContext.decodeAudioData(arrayBuffer);
+  }
+}
@@ -0,0 +1,47 @@
+// [EARS: FMT-001, FMT-002, FMT-003, FMT-004, OPUS-001] Export format settings: WAV bit depth, sample rate, MP3 and Opus encoding, channels
+
+export type WavBitDepth = 16 | 24 | 32;
+
+// [EARS: FMT-001] 16 and 24-bit are integer PCM (dithered), 32-bit is IEEE float
+export const WAV_BIT_DEPTHS: Array<{ value: WavBitDepth; label: string }> = [
+  { value: 16, label: '16-bit' },
+  { value: 24, label: '24-bit' },
+  { value: 32, label: '32-bit float' },
+];
+
+// [EARS: FMT-002] Sample rates to resample to, in Hz
+export const EXPORT_SAMPLE_RATES = [44100, 48000];
+
+export type Mp3Settings =
+  | { mode: 'cbr'; bitrate: number } // Constant bitrate in kbps
+  | { mode: 'vbr'; quality: number }; // Variable bitrate, 0 (best) to 6 (smallest)
+
+// [EARS: FMT-003] Constant bitrates in kbps
+export const MP3_BITRATES = [96, 128, 160, 192, 256, 320];
+
+// [EARS: FMT-003] Variable bitrate qualities, best first
+export const MP3_VBR_QUALITIES: Array<{ value: number; label: string }> = [
+  { value: 0, label: 'VBR best' },
+  { value: 2, label: 'VBR high' },
+  { value: 4, label: 'VBR medium' },
+  { value: 6, label: 'VBR small' },
+];
+
+// [EARS: OPUS-001] Opus bitrates in kbps
+export const OPUS_BITRATES = [64, 96, 128, 160];
+
+export interface ExportFormat {
+  bitDepth: WavBitDepth; // WAV, FLAC (32-bit float as 24-bit) and stems
+  sampleRate: number | null; // null = the audio context's rate
+  mp3: Mp3Settings;
+  opusBitrate: number; // kbps
+  mono: boolean; // [EARS: FMT-004] Fold the stereo mix down to one channel
+}
+
+export const DEFAULT_EXPORT_FORMAT: ExportFormat = {
+  bitDepth: 16,
+  sampleRate: null,
+  mp3: { mode: 'cbr', bitrate: 128 },
+  opusBitrate: 96,
+  mono: false,
+};
@@ -1,13 +1,22 @@
 import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
-import { Exporter } from './exporter';
+import { Exporter, panFrame } from './exporter';
+import { encodeOggOpus } from './opus';
+
+vi.mock('./opus', () => ({
+  encodeOggOpus: vi.fn(async () => new Uint8Array([0x4f, 0x67, 0x67, 0x53])),
+}));
 
 // Mock track data for testing
 interface MockTrack {
   id: string;
+  name?: string;
   audioBlob: Blob;
   volume: number;
   muted: boolean;
   soloed: boolean;
+  startOffset?: number;
+  pan?: number;
+  bus?: { id: string; volume: number; muted: boolean; soloed: boolean };
 }
 
 describe('Exporter initialization', () => {
@@ -236,6 +245,688 @@ describe('EXP-001, EXP-004: Track mixing algorithm', () => {
   });
 });
 
+describe('POS-004: Start offset in mix', () => {
+  let exporter: Exporter;
+  let audioContext: AudioContext;
+
+  beforeEach(() => {
+    audioContext = new AudioContext();
+    exporter = new Exporter(audioContext);
+  });
+
+  afterEach(() => {
+    exporter.dispose();
+    audioContext.close();
+  });
+
+  const makeTrack = (id: string, startOffset?: number): MockTrack => ({
+    id,
+    audioBlob: new Blob([id], { type: 'audio/wav' }),
+    volume: 100,
+    muted: false,
+    soloed: false,
+    startOffset,
+  });
+
+  // ✅ Happy path
+  test('extends mix length to cover offset track', async () => {
+    // Mock decode returns 1 second at 44100 Hz
+    const mixedBuffer = await exporter.mixTracks([makeTrack('track-1'), makeTrack('track-2', 2)]);
+
+    expect(mixedBuffer.length).toBe(3 * 44100);
+  });
+
+  test('leaves silence before offset track starts', async () => {
+    const mixedBuffer = await exporter.mixTracks([makeTrack('track-1', 1)]);
+    const data = mixedBuffer.getChannelData(0);
+
+    expect(data[500]).toBe(0);
+    expect(data[44100 + 500]).not.toBe(0);
+  });
+
+  // ⚠️ Negative cases
+  test('treats negative offset as 0', async () => {
+    const mixedBuffer = await exporter.mixTracks([makeTrack('track-1', -1)]);
+
+    expect(mixedBuffer.length).toBe(44100);
+  });
+
+  // 🔥 Edge cases
+  test('missing offset behaves like 0', async () => {
+    const mixedBuffer = await exporter.mixTracks([makeTrack('track-1')]);
+
+    expect(mixedBuffer.length).toBe(44100);
+  });
+});
+
+describe('PAN-003: Pan in mix', () => {
+  let exporter: Exporter;
+  let audioContext: AudioContext;
+
+  beforeEach(() => {
+    audioContext = new AudioContext();
+    exporter = new Exporter(audioContext);
+  });
+
+  afterEach(() => {
+    exporter.dispose();
+    audioContext.close();
+    vi.restoreAllMocks();
+  });
+
+  const makeTrack = (id: string, pan?: number): MockTrack => ({
+    id,
+    audioBlob: new Blob([id], { type: 'audio/wav' }),
+    volume: 100,
+    muted: false,
+    soloed: false,
+    pan,
+  });
+
+  // One second of constant-level mono audio
+  const mockMonoDecode = (level: number) =>
+    vi.spyOn(audioContext, 'decodeAudioData').mockResolvedValue({
+      length: 44100,
+      numberOfChannels: 1,
+      sampleRate: 44100,
+      getChannelData: () => new Float32Array(44100).fill(level),
+    } as unknown as AudioBuffer);
+
+  // ✅ Happy path
+  test('places a hard-left track in the left channel only', async () => {
+    mockMonoDecode(0.5);
+
+    const mixedBuffer = await exporter.mixTracks([makeTrack('track-1', -1)]);
+
+    expect(mixedBuffer.getChannelData(0)[100]).toBeCloseTo(0.5, 5);
+    expect(mixedBuffer.getChannelData(1)[100]).toBeCloseTo(0, 5);
+  });
+
+  test('pans each track separately', async () => {
+    mockMonoDecode(0.5);
+
+    const mixedBuffer = await exporter.mixTracks([makeTrack('track-1', -1), makeTrack('track-2', 1)]);
+
+    expect(mixedBuffer.getChannelData(0)[100]).toBeCloseTo(0.5, 5);
+    expect(mixedBuffer.getChannelData(1)[100]).toBeCloseTo(0.5, 5);
+  });
+
+  test('keeps the stereo balance when normalizing', async () => {
+    mockMonoDecode(0.9);
+
+    const mixedBuffer = await exporter.mixTracks([makeTrack('track-1', -1), makeTrack('track-2', -1), makeTrack('track-3', 1)]);
+
+    expect(mixedBuffer.getChannelData(0)[100]).toBeCloseTo(1, 5);
+    expect(mixedBuffer.getChannelData(1)[100]).toBeCloseTo(0.5, 5);
+  });
+
+  // 🔥 Edge cases
+  test('missing pan places a mono track in the centre at equal power', async () => {
+    mockMonoDecode(0.5);
+
+    const mixedBuffer = await exporter.mixTracks([makeTrack('track-1')]);
+
+    expect(mixedBuffer.getChannelData(0)[100]).toBeCloseTo(0.5 * Math.SQRT1_2, 5);
+    expect(mixedBuffer.getChannelData(1)[100]).toBeCloseTo(0.5 * Math.SQRT1_2, 5);
+  });
+});
+
+describe('BUS-005: Voice part buses in mix', () => {
+  let exporter: Exporter;
+  let audioContext: AudioContext;
+
+  beforeEach(() => {
+    audioContext = new AudioContext();
+    exporter = new Exporter(audioContext);
+    // One second of constant-level mono audio, one value per track
+    let level = 0;
+    vi.spyOn(audioContext, 'decodeAudioData').mockImplementation(async () => {
+      level += 0.1;
+      const data = new Float32Array(44100).fill(level);
+      return { length: 44100, numberOfChannels: 1, sampleRate: 44100, getChannelData: () => data } as unknown as AudioBuffer;
+    });
+  });
+
+  afterEach(() => {
+    exporter.dispose();
+    audioContext.close();
+    vi.restoreAllMocks();
+  });
+
+  const bus = (id: string, overrides: Partial<NonNullable<MockTrack['bus']>> = {}) => ({
+    id,
+    volume: 100,
+    muted: false,
+    soloed: false,
+    ...overrides,
+  });
+
+  const makeTrack = (id: string, trackBus?: MockTrack['bus']): MockTrack => ({
+    id,
+    audioBlob: new Blob([id], { type: 'audio/wav' }),
+    volume: 100,
+    muted: false,
+    soloed: false,
+    pan: -1,
+    bus: trackBus,
+  });
+
+  const leftLevel = async (tracks: MockTrack[]) => (await exporter.mixTracks(tracks)).getChannelData(0)[100];
+
+  // ✅ Happy path
+  test('scales each track by its part fader', async () => {
+    expect(await leftLevel([makeTrack('s1', bus('S', { volume: 50 }))])).toBeCloseTo(0.05, 5);
+  });
+
+  test('leaves out the tracks of a muted part', async () => {
+    const level = await leftLevel([makeTrack('s1', bus('S', { muted: true })), makeTrack('b1', bus('B'))]);
+
+    expect(level).toBeCloseTo(0.1, 5); // Only the bass track, decoded first
+  });
+
+  test('mixes only the soloed parts while any part is soloed', async () => {
+    const level = await leftLevel([
+      makeTrack('s1', bus('S')),
+      makeTrack('b1', bus('B', { soloed: true })),
+      makeTrack('b2', bus('B', { soloed: true })),
+    ]);
+
+    expect(level).toBeCloseTo(0.1 + 0.2, 5);
+  });
+
+  // ⚠️ Negative cases
+  test('throws when every part is muted', async () => {
+    await expect(exporter.mixTracks([makeTrack('s1', bus('S', { muted: true }))])).rejects.toThrow(
+      'No audible tracks to export'
+    );
+  });
+
+  // 🔥 Edge cases
+  test('tracks without a bus are mixed as before', async () => {
+    expect(await leftLevel([makeTrack('s1'), makeTrack('b1', bus('B', { muted: true }))])).toBeCloseTo(0.1, 5);
+  });
+});
+
+describe('LEARN-001, LEARN-002, LEARN-003: Learning tracks', () => {
+  let exporter: Exporter;
+  let audioContext: AudioContext;
+
+  beforeEach(() => {
+    audioContext = new AudioContext();
+    exporter = new Exporter(audioContext);
+    // One second of constant-level mono audio, one value per decode
+    let level = 0;
+    vi.spyOn(audioContext, 'decodeAudioData').mockImplementation(async () => {
+      level += 0.1;
+      const data = new Float32Array(44100).fill(level);
+      return { length: 44100, numberOfChannels: 1, sampleRate: 44100, getChannelData: () => data } as unknown as AudioBuffer;
+    });
+  });
+
+  afterEach(() => {
+    exporter.dispose();
+    audioContext.close();
+    vi.restoreAllMocks();
+  });
+
+  const makeTrack = (id: string, part?: string, busOverrides: { muted?: boolean } = {}): MockTrack => ({
+    id,
+    audioBlob: new Blob([id], { type: 'audio/wav' }),
+    volume: 100,
+    muted: false,
+    soloed: false,
+    pan: -1,
+    bus: part ? { id: part, volume: 100, muted: false, soloed: false, ...busOverrides } : undefined,
+  });
+
+  // ✅ Happy path
+  test('raises the featured part and lowers the others in the mix', async () => {
+    const mix = await exporter.mixTracks([makeTrack('s1', 'S'), makeTrack('b1', 'B')], { mode: 'featured', part: 'S' });
+
+    expect(mix.getChannelData(0)[100]).toBeCloseTo(0.1 * 1.9953 + 0.2 * 0.5012, 3);
+  });
+
+  test('leaves a part out of the mix', async () => {
+    const mix = await exporter.mixTracks([makeTrack('s1', 'S'), makeTrack('b1', 'B')], { mode: 'minus-one', part: 'S' });
+
+    expect(mix.getChannelData(0)[100]).toBeCloseTo(0.1, 5); // Only the bass track, decoded first
+  });
+
+  test('renders one file per part, then the full mix', async () => {
+    const files = await exporter.exportLearningTracks(
+      [makeTrack('b1', 'B'), makeTrack('s1', 'S'), makeTrack('s2', 'S')],
+      'Song'
+    );
+
+    expect(files.map(file => file.name)).toEqual(['Song-S.mp3', 'Song-B.mp3', 'Song-Full.mp3']);
+    expect(files.every(file => file.data.type === 'audio/mp3')).toBe(true);
+  });
+
+  test('centres the featured part', async () => {
+    const mixTracks = vi.spyOn(exporter, 'mixTracks');
+
+    await exporter.exportLearningTracks([makeTrack('s1', 'S'), makeTrack('b1', 'B')], 'Song');
+
+    const [tracks, practiceMix] = mixTracks.mock.calls[0]!;
+    expect(practiceMix).toEqual({ mode: 'featured', part: 'S' });
+    expect(tracks.map((track: MockTrack) => track.pan)).toEqual([0, -1]);
+  });
+
+  test('downloads every file in one ZIP', async () => {
+    const mockLink = { href: '', download: '', click: vi.fn() };
+    vi.spyOn(document, 'createElement').mockReturnValue(mockLink as unknown as HTMLElement);
+
+    await exporter.downloadLearningTracks([makeTrack('s1', 'S')], 'Song');
+
+    expect(mockLink.download).toBe('Song-learning-tracks.zip');
+    expect(mockLink.click).toHaveBeenCalled();
+    expect(vi.mocked(URL.createObjectURL)).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'application/zip' }));
+  });
+
+  // ⚠️ Negative cases
+  test('fails when every track is muted', async () => {
+    const track = { ...makeTrack('s1', 'S'), muted: true };
+
+    await expect(exporter.exportLearningTracks([track], 'Song')).rejects.toThrow('No audible tracks to export');
+  });
+
+  // 🔥 Edge cases
+  test('skips parts that are not heard', async () => {
+    const files = await exporter.exportLearningTracks([makeTrack('s1', 'S'), makeTrack('a1', 'A', { muted: true })], 'Song');
+
+    expect(files.map(file => file.name)).toEqual(['Song-S.mp3', 'Song-Full.mp3']);
+  });
+
+  test('renders only the full mix for tracks without a part', async () => {
+    const files = await exporter.exportLearningTracks([makeTrack('t1')], 'Song');
+
+    expect(files.map(file => file.name)).toEqual(['Song-Full.mp3']);
+  });
+
+  test('keeps file system characters out of the file names', async () => {
+    const files = await exporter.exportLearningTracks([makeTrack('s1', 'S')], 'AC/DC: Live');
+
+    expect(files.map(file => file.name)).toEqual(['AC_DC_ Live-S.mp3', 'AC_DC_ Live-Full.mp3']);
+  });
+});
+
+describe('STEM-001, STEM-002, STEM-003, STEM-004: Stem export', () => {
+  let exporter: Exporter;
+  let audioContext: AudioContext;
+
+  beforeEach(() => {
+    audioContext = new AudioContext();
+    exporter = new Exporter(audioContext);
+    // Constant-level mono audio, one value per decode; later tracks are shorter
+    let level = 0;
+    vi.spyOn(audioContext, 'decodeAudioData').mockImplementation(async () => {
+      level += 0.1;
+      const length = Math.round(44100 * (1 - level));
+      const data = new Float32Array(length).fill(level);
+      return { length, numberOfChannels: 1, sampleRate: 44100, getChannelData: () => data } as unknown as AudioBuffer;
+    });
+  });
+
+  afterEach(() => {
+    exporter.dispose();
+    audioContext.close();
+    vi.restoreAllMocks();
+  });
+
+  const makeTrack = (id: string, part?: string, overrides: Partial<MockTrack> = {}): MockTrack => ({
+    id,
+    name: `Track ${id}`,
+    audioBlob: new Blob([id], { type: 'audio/wav' }),
+    volume: 100,
+    muted: false,
+    soloed: false,
+    pan: -1,
+    bus: part ? { id: part, volume: 100, muted: false, soloed: false } : undefined,
+    ...overrides,
+  });
+
+  const readManifest = async (files: { name: string; data: Blob }[]) =>
+    JSON.parse(await files.find(file => file.name === 'manifest.json')!.data.text());
+
+  // Sample count of a 16-bit stereo WAV from its data chunk size
+  const wavLength = async (blob: Blob) => new DataView(await blob.arrayBuffer()).getUint32(40, true) / 4;
+
+  // ✅ Happy path
+  test('renders one stem per track, then the manifest', async () => {
+    const files = await exporter.exportStems([makeTrack('s1', 'S'), makeTrack('b1', 'B')], 'Song', 'track');
+
+    expect(files.map(file => file.name)).toEqual(['01 Track s1.wav', '02 Track b1.wav', 'manifest.json']);
+    expect(files[0]!.data.type).toBe('audio/wav');
+  });
+
+  test('renders one stem per voice part in score order', async () => {
+    const files = await exporter.exportStems(
+      [makeTrack('b1', 'B'), makeTrack('s1', 'S'), makeTrack('s2', 'S')],
+      'Song',
+      'part'
+    );
+
+    expect(files.map(file => file.name)).toEqual(['01 Soprano.wav', '02 Bass.wav', 'manifest.json']);
+    const manifest = await readManifest(files);
+    expect(manifest.stems[0].tracks.map((track: { id: string }) => track.id)).toEqual(['s1', 's2']);
+  });
+
+  test('aligns every stem to time zero at the same length', async () => {
+    const files = await exporter.exportStems(
+      [makeTrack('s1', 'S', { startOffset: 0.5 }), makeTrack('b1', 'B')],
+      'Song',
+      'track'
+    );
+
+    // s1: 0.9s starting at 0.5s; b1: 0.8s starting at 0
+    const length = Math.round(0.5 * 44100) + Math.round(44100 * 0.9);
+    expect(await wavLength(files[0]!.data)).toBe(length);
+    expect(await wavLength(files[1]!.data)).toBe(length);
+  });
+
+  test('describes the stems in the manifest', async () => {
+    const files = await exporter.exportStems([makeTrack('s1', 'S', { volume: 80, startOffset: 0.25 })], 'Song', 'track');
+
+    const manifest = await readManifest(files);
+    expect(manifest).toMatchObject({
+      project: 'Song',
+      grouping: 'track',
+      sampleRate: 44100,
+      channels: 2,
+      bitsPerSample: 16,
+      gain: 1,
+      stems: [
+        {
+          file: '01 Track s1.wav',
+          name: 'Track s1',
+          part: 'S',
+          tracks: [{ id: 's1', name: 'Track s1', volume: 80, partVolume: 100, pan: -1, startOffset: 0.25 }],
+        },
+      ],
+    });
+    expect(manifest.length).toBe(Math.round(0.25 * 44100) + Math.round(44100 * 0.9));
+  });
+
+  test('downloads the stems in one ZIP', async () => {
+    const mockLink = { href: '', download: '', click: vi.fn() };
+    vi.spyOn(document, 'createElement').mockReturnValue(mockLink as unknown as HTMLElement);
+
+    await exporter.downloadStems([makeTrack('s1', 'S')], 'Song', 'part');
+
+    expect(mockLink.download).toBe('Song-stems.zip');
+    expect(vi.mocked(URL.createObjectURL)).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'application/zip' }));
+  });
+
+  // ⚠️ Negative cases
+  test('fails without tracks', async () => {
+    await expect(exporter.exportStems([], 'Song', 'track')).rejects.toThrow('No tracks to export');
+  });
+
+  test('fails when every track is muted', async () => {
+    await expect(exporter.exportStems([makeTrack('s1', 'S', { muted: true })], 'Song', 'track')).rejects.toThrow(
+      'No audible tracks to export'
+    );
+  });
+
+  // 🔥 Edge cases
+  test('leaves out muted tracks', async () => {
+    const files = await exporter.exportStems([makeTrack('s1', 'S', { muted: true }), makeTrack('b1', 'B')], 'Song', 'track');
+
+    expect(files.map(file => file.name)).toEqual(['01 Track b1.wav', 'manifest.json']);
+  });
+
+  test('gives tracks outside the voice parts a stem of their own', async () => {
+    const files = await exporter.exportStems([makeTrack('x1'), makeTrack('a1', 'A')], 'Song', 'part');
+
+    expect(files.map(file => file.name)).toEqual(['01 Alto.wav', '02 Track x1.wav', 'manifest.json']);
+  });
+
+  test('scales every stem by the same gain when one would clip', async () => {
+    const files = await exporter.exportStems(
+      ['s1', 's2', 's3', 's4', 's5'].map(id => makeTrack(id, 'S')),
+      'Song',
+      'part'
+    );
+
+    // Soprano peaks at 0.1 + 0.2 + 0.3 + 0.4 + 0.5 = 1.5 on the left
+    const manifest = await readManifest(files);
+    expect(manifest.gain).toBeCloseTo(1 / 1.5, 5);
+  });
+
+  test('makes file names safe', async () => {
+    const files = await exporter.exportStems([makeTrack('s1', 'S', { name: 'Solo: take 2/3' })], 'Song', 'track');
+
+    expect(files[0]!.name).toBe('01 Solo_ take 2_3.wav');
+  });
+});
+
+describe('LOUD-003, LOUD-004: Loudness target', () => {
+  let audioContext: AudioContext;
+
+  beforeEach(() => {
+    audioContext = new AudioContext();
+    // Two seconds of a quiet 1 kHz tone
+    vi.spyOn(audioContext, 'decodeAudioData').mockImplementation(async () => {
+      const data = new Float32Array(88200);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = 0.05 * Math.sin((2 * Math.PI * 1000 * i) / 44100);
+      }
+      return { length: data.length, numberOfChannels: 1, sampleRate: 44100, getChannelData: () => data } as unknown as AudioBuffer;
+    });
+  });
+
+  afterEach(() => {
+    audioContext.close();
+    vi.restoreAllMocks();
+  });
+
+  const makeTrack = (): MockTrack => ({
+    id: 'track-1',
+    audioBlob: new Blob(['audio'], { type: 'audio/wav' }),
+    volume: 100,
+    muted: false,
+    soloed: false,
+  });
+
+  // ✅ Happy path
+  test('normalizes the mix to the loudness target', async () => {
+    const exporter = new Exporter(audioContext, { loudnessTarget: -16 });
+    const mockLink = { href: '', download: '', click: vi.fn() };
+    vi.spyOn(document, 'createElement').mockReturnValue(mockLink as unknown as HTMLElement);
+
+    const report = await exporter.downloadWAV([makeTrack()], 'Song');
+
+    expect(report!.inputLufs).toBeLessThan(-25);
+    expect(report!.outputLufs).toBeCloseTo(-16, 1);
+    expect(report!.gainDb).toBeCloseTo(-16 - report!.inputLufs, 5);
+    expect(report!.truePeakDbtp).toBeLessThanOrEqual(-1 + 1e-3);
+  });
+
+  test('reports the full mix of the learning tracks', async () => {
+    const exporter = new Exporter(audioContext, { loudnessTarget: -14 });
+    vi.spyOn(document, 'createElement').mockReturnValue({ click: vi.fn() } as unknown as HTMLElement);
+
+    const report = await exporter.downloadLearningTracks([makeTrack()], 'Song');
+
+    expect(report!.outputLufs).toBeCloseTo(-14, 1);
+  });
+
+  // 🔥 Edge cases
+  test('only scales down a clipping mix without a target', async () => {
+    const exporter = new Exporter(audioContext);
+    vi.spyOn(document, 'createElement').mockReturnValue({ click: vi.fn() } as unknown as HTMLElement);
+
+    const report = await exporter.downloadMP3([makeTrack()], 'Song');
+    const mix = await exporter.mixTracks([makeTrack()]);
+
+    expect(report).toBeNull();
+    expect(Math.max(...mix.getChannelData(0))).toBeCloseTo(0.05 * Math.SQRT1_2, 3);
+  });
+});
+
+describe('FMT-001, FMT-002, FMT-003, FMT-004: Export format', () => {
+  let audioContext: AudioContext;
+
+  beforeEach(() => {
+    audioContext = new AudioContext();
+    // Half a second of constant mono audio
+    vi.spyOn(audioContext, 'decodeAudioData').mockImplementation(async () => {
+      const data = new Float32Array(22050).fill(0.25);
+      return { length: data.length, numberOfChannels: 1, sampleRate: 44100, getChannelData: () => data } as unknown as AudioBuffer;
+    });
+  });
+
+  afterEach(() => {
+    audioContext.close();
+    vi.restoreAllMocks();
+  });
+
+  const makeTrack = (pan = 0): MockTrack => ({
+    id: 'track-1',
+    name: 'Tenor',
+    audioBlob: new Blob(['audio'], { type: 'audio/wav' }),
+    volume: 100,
+    muted: false,
+    soloed: false,
+    pan,
+    bus: { id: 'T', volume: 100, muted: false, soloed: false },
+  });
+
+  const readWAV = async (blob: Blob) => new DataView(await blob.arrayBuffer());
+
+  // ✅ Happy path
+  test('writes 24-bit PCM', async () => {
+    const view = await readWAV(await new Exporter(audioContext, { bitDepth: 24 }).exportWAV([makeTrack(-1)]));
+
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(32, true)).toBe(6); // Block align
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.getUint32(40, true)).toBe(22050 * 6);
+    // First left sample, little-endian: 0.25 of full scale, within the dither
+    const left = view.getUint8(44) | (view.getInt16(45, true) << 8);
+    expect(Math.abs(left - 0.25 * 8388608)).toBeLessThanOrEqual(1);
+  });
+
+  test('writes 32-bit float with a fact chunk', async () => {
+    const view = await readWAV(await new Exporter(audioContext, { bitDepth: 32 }).exportWAV([makeTrack(-1)]));
+
+    expect(view.getUint32(16, true)).toBe(18); // Format chunk size
+    expect(view.getUint16(20, true)).toBe(3); // IEEE float
+    expect(view.getUint16(34, true)).toBe(32);
+    expect(view.getUint32(38, false)).toBe(0x66616374); // "fact"
+    expect(view.getUint32(46, true)).toBe(22050);
+    expect(view.getUint32(50, false)).toBe(0x64617461); // "data"
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+    expect(view.getFloat32(58, true)).toBe(0.25);
+    expect(view.getFloat32(62, true)).toBe(0);
+  });
+
+  test('resamples to the export sample rate', async () => {
+    const exporter = new Exporter(audioContext, { sampleRate: 48000 });
+
+    const mix = await exporter.mixTracks([makeTrack()]);
+    const view = await readWAV(await exporter.exportWAV([makeTrack()]));
+
+    expect(mix.sampleRate).toBe(48000);
+    expect(mix.length).toBe(24000);
+    expect(mix.getChannelData(0)[12000]).toBeCloseTo(0.25 * Math.SQRT1_2, 3);
+    expect(view.getUint32(24, true)).toBe(48000);
+  });
+
+  test('folds the mix down to mono', async () => {
+    const exporter = new Exporter(audioContext, { mono: true });
+
+    const mix = await exporter.mixTracks([makeTrack(-1)]);
+    const view = await readWAV(await exporter.exportWAV([makeTrack(-1)]));
+
+    expect(mix.numberOfChannels).toBe(1);
+    expect(mix.getChannelData(0)[0]).toBeCloseTo(0.125, 5);
+    expect(view.getUint16(22, true)).toBe(1);
+  });
+
+  test('encodes MP3 at the chosen constant bitrate', async () => {
+    await new Exporter(audioContext, { mp3: { mode: 'cbr', bitrate: 320 }, mono: true }).exportMP3([makeTrack()]);
+
+    expect(window.lamejs.Mp3Encoder).toHaveBeenCalledWith(1, 44100, 320);
+  });
+
+  test('encodes variable-bitrate MP3 from the quality\'s bitrates', async () => {
+    // One silent encoder per bitrate of the quality
+    const silentEncoder = function () {
+      return { encodeBuffer: () => new Int8Array(0), flush: () => new Int8Array(0) };
+    } as unknown as typeof window.lamejs.Mp3Encoder;
+    vi.mocked(window.lamejs.Mp3Encoder).mockImplementationOnce(silentEncoder).mockImplementationOnce(silentEncoder);
+
+    const blob = await new Exporter(audioContext, { mp3: { mode: 'vbr', quality: 6 } }).exportMP3([makeTrack()]);
+
+    expect(blob.type).toBe('audio/mp3');
+    expect(window.lamejs.Mp3Encoder).toHaveBeenCalledWith(2, 44100, 128);
+    expect(window.lamejs.Mp3Encoder).toHaveBeenCalledWith(2, 44100, 160);
+  });
+
+  test('writes stems and the manifest in the export format', async () => {
+    const exporter = new Exporter(audioContext, { bitDepth: 24, sampleRate: 48000, mono: true });
+
+    const files = await exporter.exportStems([makeTrack()], 'Song', 'part');
+    const view = await readWAV(files[0]!.data);
+    const manifest = JSON.parse(await files[1]!.data.text());
+
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(manifest).toMatchObject({
+      sampleRate: 48000,
+      channels: 1,
+      bitsPerSample: 24,
+      sampleFormat: 'int',
+      length: 24000,
+      duration: 0.5,
+    });
+  });
+
+  // 🔥 Edge cases
+  test('keeps the audio context\'s rate, stereo and 128 kbps by default', async () => {
+    const exporter = new Exporter(audioContext);
+
+    const mix = await exporter.mixTracks([makeTrack()]);
+    await exporter.exportMP3([makeTrack()]);
+
+    expect(mix.sampleRate).toBe(44100);
+    expect(mix.numberOfChannels).toBe(2);
+    expect(window.lamejs.Mp3Encoder).toHaveBeenLastCalledWith(2, 44100, 128);
+  });
+});
+
+describe('PAN-003: Panning algorithm', () => {
+  // ✅ Happy path
+  test('pans mono equal-power', () => {
+    const [left, right] = panFrame(1, 1, 0.5, true);
+
+    expect(left).toBeCloseTo(Math.cos((3 * Math.PI) / 8), 5);
+    expect(right).toBeCloseTo(Math.sin((3 * Math.PI) / 8), 5);
+    expect(left * left + right * right).toBeCloseTo(1, 5);
+  });
+
+  test('leaves centred stereo unchanged', () => {
+    const [left, right] = panFrame(0.2, 0.7, 0, false);
+
+    expect(left).toBeCloseTo(0.2, 5);
+    expect(right).toBeCloseTo(0.7, 5);
+  });
+
+  test('folds stereo into the left channel when panned hard left', () => {
+    const [left, right] = panFrame(0.2, 0.7, -1, false);
+
+    expect(left).toBeCloseTo(0.9, 5);
+    expect(right).toBeCloseTo(0, 5);
+  });
+
+  // 🔥 Edge cases
+  test('clamps pan beyond hard right', () => {
+    expect(panFrame(1, 1, 5, true)).toEqual(panFrame(1, 1, 1, true));
+  });
+});
+
 describe('EXP-002, EXP-003: WAV export', () => {
   let exporter: Exporter;
   let audioContext: AudioContext;
@@ -418,6 +1109,113 @@ describe('EXP-005, EXP-006: MP3 export', () => {
   });
 });
 
+describe('FLAC-001, FLAC-002, FLAC-003, OPUS-001, OPUS-003: FLAC and Opus export', () => {
+  let audioContext: AudioContext;
+
+  beforeEach(() => {
+    audioContext = new AudioContext();
+    // Half a second of constant mono audio
+    vi.spyOn(audioContext, 'decodeAudioData').mockImplementation(async () => {
+      const data = new Float32Array(22050).fill(0.25);
+      return { length: data.length, numberOfChannels: 1, sampleRate: 44100, getChannelData: () => data } as unknown as AudioBuffer;
+    });
+    vi.mocked(encodeOggOpus).mockClear();
+  });
+
+  afterEach(() => {
+    audioContext.close();
+    vi.restoreAllMocks();
+  });
+
+  const makeTrack = (): MockTrack => ({
+    id: 'track-1',
+    audioBlob: new Blob(['audio'], { type: 'audio/wav' }),
+    volume: 100,
+    muted: false,
+    soloed: false,
+  });
+
+  // STREAMINFO fields after the "fLaC" marker and the block header
+  const readStreamInfo = async (blob: Blob) => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const packed = view.getUint32(18); // Sample rate (20 bits), channels - 1 (3), bits - 1 (5), ...
+    return {
+      marker: new TextDecoder().decode(bytes.subarray(0, 4)),
+      sampleRate: packed >>> 12,
+      channels: ((packed >>> 9) & 0x07) + 1,
+      bitsPerSample: ((packed >>> 4) & 0x1f) + 1,
+      text: new TextDecoder().decode(bytes),
+    };
+  };
+
+  // ✅ Happy path
+  test('writes FLAC at the export bit depth, titled with the project', async () => {
+    const blob = await new Exporter(audioContext, { bitDepth: 24 }).exportFLAC([makeTrack()], 'Ave Verum');
+    const info = await readStreamInfo(blob);
+
+    expect(blob.type).toBe('audio/flac');
+    expect(info).toMatchObject({ marker: 'fLaC', sampleRate: 44100, channels: 2, bitsPerSample: 24 });
+    expect(info.text).toContain('TITLE=Ave Verum');
+  });
+
+  test('downloads FLAC as <project-name>.flac', async () => {
+    const mockLink = { href: '', download: '', click: vi.fn() };
+    vi.spyOn(document, 'createElement').mockReturnValue(mockLink as unknown as HTMLElement);
+
+    await new Exporter(audioContext).downloadFLAC([makeTrack()], 'My Project');
+
+    expect(mockLink.download).toBe('My Project.flac');
+    expect(mockLink.click).toHaveBeenCalled();
+  });
+
+  test('encodes Opus at the export bitrate, titled with the project', async () => {
+    const blob = await new Exporter(audioContext, { opusBitrate: 128, mono: true }).exportOpus([makeTrack()], 'Ave Verum');
+
+    expect(blob.type).toBe('audio/ogg');
+    const [channels, sampleRate, bitrate, tags] = vi.mocked(encodeOggOpus).mock.calls[0]!;
+    expect(channels).toHaveLength(1);
+    expect(sampleRate).toBe(44100);
+    expect(bitrate).toBe(128);
+    expect(tags).toEqual({ TITLE: 'Ave Verum' });
+  });
+
+  test('downloads Opus as <project-name>.opus', async () => {
+    const mockLink = { href: '', download: '', click: vi.fn() };
+    vi.spyOn(document, 'createElement').mockReturnValue(mockLink as unknown as HTMLElement);
+
+    await new Exporter(audioContext).downloadOpus([makeTrack()], 'My Project');
+
+    expect(mockLink.download).toBe('My Project.opus');
+    expect(vi.mocked(encodeOggOpus).mock.calls[0]![2]).toBe(96); // Default bitrate
+  });
+
+  // ⚠️ Negative cases
+  test('passes on Opus encoder errors without downloading', async () => {
+    vi.mocked(encodeOggOpus).mockRejectedValueOnce(new Error('This browser cannot encode Opus'));
+    const mockLink = { href: '', download: '', click: vi.fn() };
+    vi.spyOn(document, 'createElement').mockReturnValue(mockLink as unknown as HTMLElement);
+
+    await expect(new Exporter(audioContext).downloadOpus([makeTrack()], 'Song')).rejects.toThrow(
+      'This browser cannot encode Opus'
+    );
+    expect(mockLink.click).not.toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('stores 32-bit float as 24-bit FLAC', async () => {
+    const blob = await new Exporter(audioContext, { bitDepth: 32 }).exportFLAC([makeTrack()], 'Song');
+
+    expect((await readStreamInfo(blob)).bitsPerSample).toBe(24);
+  });
+
+  test('writes mono FLAC at the export sample rate', async () => {
+    const blob = await new Exporter(audioContext, { mono: true, sampleRate: 48000 }).exportFLAC([makeTrack()], 'Song');
+
+    expect(await readStreamInfo(blob)).toMatchObject({ sampleRate: 48000, channels: 1, bitsPerSample: 16 });
+  });
+});
+
 describe('Exporter cleanup', () => {
   let audioContext: AudioContext;
 
@@ -1,4 +1,15 @@
-// [EARS: EXP-001, EXP-002, EXP-003, EXP-004, EXP-005, EXP-006] Audio export to WAV and MP3
+// [EARS: EXP-001, EXP-002, EXP-003, EXP-004, EXP-005, EXP-006, POS-004, PAN-003, BUS-005, LEARN-001, LEARN-002, LEARN-003, STEM-001, STEM-002, STEM-003, STEM-004, LOUD-003, LOUD-004, FMT-001, FMT-002, FMT-003, FMT-004, FMT-005, FLAC-001, FLAC-002, FLAC-003, OPUS-001, OPUS-002, OPUS-003] Audio export to WAV, FLAC, MP3 and Ogg/Opus
+
+import type { BusSettings } from './mixer';
+import type { VoicePartType } from '@/store/types';
+import { getPracticeGain, type PracticeMix } from './practiceMix';
+import { createZip, type ZipEntry } from './zip';
+import { normalizeLoudness, type LoudnessReport } from './loudness';
+import { DEFAULT_EXPORT_FORMAT, type ExportFormat, type WavBitDepth } from './exportFormat';
+import { quantize, resample } from './pcm';
+import { encodeVbrMp3 } from './mp3Vbr';
+import { encodeFlac } from './flac';
+import { encodeOggOpus } from './opus';
 
 // Declare global lamejs (loaded via script tag in index.html)
 declare global {
@@ -14,116 +25,314 @@ declare global {
 
 export interface ExportTrack {
   id: string;
+  name?: string; // [EARS: STEM-001] Stem file name (default the id)
   audioBlob: Blob;
   volume: number; // 0-100
   muted: boolean;
   soloed: boolean;
+  startOffset?: number; // [EARS: POS-004] Seconds from timeline start (default 0)
+  pan?: number; // [EARS: PAN-003] -1 (left) to 1 (right) (default centre)
+  bus?: BusSettings; // [EARS: BUS-005] Voice part bus the track plays through (none = straight to the mix)
+}
+
+export interface ExportOptions extends Partial<ExportFormat> {
+  loudnessTarget?: number | null; // [EARS: LOUD-003] Integrated loudness in LUFS (none = scale down only if the mix clips)
+}
+
+export type StemGrouping = 'track' | 'part';
+
+// [EARS: LEARN-001, STEM-002] Voice parts in score order
+const VOICE_PARTS: Array<{ type: VoicePartType; name: string }> = [
+  { type: 'S', name: 'Soprano' },
+  { type: 'A', name: 'Alto' },
+  { type: 'T', name: 'Tenor' },
+  { type: 'B', name: 'Bass' },
+];
+
+interface DecodedTrack {
+  track: ExportTrack;
+  buffer: AudioBuffer;
+  volume: number; // 0-1: track and part fader, then the practice mix
+  offset: number; // Samples from timeline start
+}
+
+interface StemGroup {
+  name: string;
+  part: string | null; // Bus id, if the stem belongs to a voice part
+  tracks: DecodedTrack[];
+}
+
+/**
+ * File name without characters that are not allowed on common file systems
+ *
+ * @param name - Display name
+ * @returns Safe file name
+ */
+function toFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'Untitled';
+}
+
+/**
+ * Left and right output of one input frame, following the StereoPannerNode panning algorithm
+ * [EARS: PAN-003] Export places each track exactly where playback does:
+ * equal-power for mono sources, balance for stereo sources
+ *
+ * @param left - Left (or mono) input sample
+ * @param right - Right input sample (same as left for mono)
+ * @param pan - Stereo position (-1 to 1)
+ * @param mono - Whether the source is mono
+ * @returns Left and right output samples
+ */
+export function panFrame(left: number, right: number, pan: number, mono: boolean): [number, number] {
+  const p = Math.max(-1, Math.min(1, pan));
+
+  if (mono) {
+    const x = ((p + 1) / 2) * (Math.PI / 2);
+    return [left * Math.cos(x), left * Math.sin(x)];
+  }
+
+  if (p <= 0) {
+    const x = (p + 1) * (Math.PI / 2);
+    return [left + right * Math.cos(x), right * Math.sin(x)];
+  }
+
+  const x = p * (Math.PI / 2);
+  return [left * Math.cos(x), right + left * Math.sin(x)];
 }
 
 /**
- * Exporter for mixing and exporting audio to WAV/MP3
- * [EARS: EXP-001, EXP-002, EXP-003, EXP-004, EXP-005, EXP-006]
+ * Exporter for mixing and exporting audio to WAV/FLAC/MP3/Opus
+ * [EARS: EXP-001, EXP-002, EXP-003, EXP-004, EXP-005, EXP-006, FLAC-003, OPUS-003]
  */
 export class Exporter {
   private audioContext: AudioContext;
+  private loudnessTarget: number | null;
+  private loudnessReport: LoudnessReport | null = null;
+  private format: ExportFormat;
 
   /**
    * Create a new Exporter
    * [EARS: EXP-001] Initialize exporter for audio mixing and export
    *
    * @param audioContext - Web Audio API AudioContext
+   * @param options - Export settings (format defaults to 16-bit, the context's sample rate, 128 kbps stereo)
    */
-  constructor(audioContext: AudioContext) {
+  constructor(audioContext: AudioContext, options: ExportOptions = {}) {
     this.audioContext = audioContext;
+    this.loudnessTarget = options.loudnessTarget ?? null;
+    this.format = {
+      bitDepth: options.bitDepth ?? DEFAULT_EXPORT_FORMAT.bitDepth,
+      sampleRate: options.sampleRate ?? DEFAULT_EXPORT_FORMAT.sampleRate,
+      mp3: options.mp3 ?? DEFAULT_EXPORT_FORMAT.mp3,
+      opusBitrate: options.opusBitrate ?? DEFAULT_EXPORT_FORMAT.opusBitrate,
+      mono: options.mono ?? DEFAULT_EXPORT_FORMAT.mono,
+    };
   }
 
   /**
    * Mix multiple tracks into a single audio buffer
    * [EARS: EXP-001, EXP-004] Mix all non-muted tracks with volume levels
+   * [EARS: POS-004] Place each track at its start offset
+   * [EARS: PAN-003] Place each track at its pan in the stereo field
+   * [EARS: BUS-005] Apply each voice part bus's fader, mute and solo
+   * [EARS: LEARN-001] Apply a practice mix, matching tracks to parts by their bus
+   * [EARS: FMT-002, FMT-004] Fold down to mono and resample, if the format asks for it
+   * [EARS: LOUD-003] Normalize to the loudness target with a true-peak limiter, if there is one
    *
    * @param tracks - Tracks to mix
+   * @param practiceMix - Practice mix on top of the track settings (default none)
    * @returns Mixed audio buffer
    * @throws Error if no tracks to export or all tracks muted
    */
-  async mixTracks(tracks: ExportTrack[]): Promise<AudioBuffer> {
+  async mixTracks(tracks: ExportTrack[], practiceMix: PracticeMix | null = null): Promise<AudioBuffer> {
     if (tracks.length === 0) {
       throw new Error('No tracks to export');
     }
 
-    // Check if any tracks are soloed
-    const hasSolo = tracks.some(track => track.soloed);
-
-    // Filter tracks to mix (respecting solo/mute)
-    const tracksToMix = tracks.filter(track => {
-      if (hasSolo) {
-        // Only mix soloed tracks
-        return track.soloed;
-      } else {
-        // Mix all non-muted tracks
-        return !track.muted;
-      }
-    });
+    const tracksToMix = this.getAudibleTracks(tracks).filter(
+      track => getPracticeGain(practiceMix, track.bus?.id ?? null) > 0
+    );
 
     if (tracksToMix.length === 0) {
       throw new Error('No audible tracks to export');
     }
 
-    // Decode all audio blobs
-    const audioBuffers: { buffer: AudioBuffer; volume: number }[] = [];
-    for (const track of tracksToMix) {
+    const decodedTracks = await this.decodeTracks(tracksToMix, practiceMix);
+
+    // Find where the last track ends on the timeline
+    const maxLength = Math.max(...decodedTracks.map(track => track.offset + track.buffer.length));
+
+    const mixedBuffer = this.toOutputFormat(this.renderTracks(decodedTracks, maxLength));
+    if (this.loudnessTarget === null) {
+      this.normalizeTogether([mixedBuffer]);
+      this.loudnessReport = null;
+    } else {
+      this.loudnessReport = normalizeLoudness(mixedBuffer, this.loudnessTarget);
+    }
+    return mixedBuffer;
+  }
+
+  /**
+   * Decode tracks for mixing
+   * [EARS: EXP-001, POS-004, BUS-005]
+   *
+   * @param tracks - Tracks to decode
+   * @param practiceMix - Practice mix on top of the track settings (default none)
+   * @returns Decoded audio with the gain and start of each track
+   */
+  private async decodeTracks(tracks: ExportTrack[], practiceMix: PracticeMix | null = null): Promise<DecodedTrack[]> {
+    const sampleRate = this.audioContext.sampleRate;
+
+    const decodedTracks: DecodedTrack[] = [];
+    for (const track of tracks) {
       const arrayBuffer = await track.audioBlob.arrayBuffer();
       const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
-      audioBuffers.push({
+      decodedTracks.push({
+        track,
         buffer: audioBuffer,
-        volume: track.volume / 100, // Convert 0-100 to 0-1
+        // Track and part fader (0-100 to 0-1), then the practice mix
+        volume:
+          (track.volume / 100) *
+          ((track.bus?.volume ?? 100) / 100) *
+          getPracticeGain(practiceMix, track.bus?.id ?? null),
+        offset: Math.round(Math.max(0, track.startOffset ?? 0) * sampleRate), // In samples
       });
     }
+    return decodedTracks;
+  }
 
-    // Find the longest track duration
-    const maxLength = Math.max(...audioBuffers.map(ab => ab.buffer.length));
-    const sampleRate = this.audioContext.sampleRate;
+  /**
+   * Sum decoded tracks into a stereo buffer starting at time zero
+   * [EARS: POS-004, PAN-003]
+   *
+   * @param decodedTracks - Tracks to sum
+   * @param length - Buffer length in samples
+   * @returns Stereo buffer (not normalized)
+   */
+  private renderTracks(decodedTracks: DecodedTrack[], length: number): AudioBuffer {
     const numberOfChannels = 2; // Stereo output
+    const mixedBuffer = this.audioContext.createBuffer(numberOfChannels, length, this.audioContext.sampleRate);
+    const leftData = mixedBuffer.getChannelData(0);
+    const rightData = mixedBuffer.getChannelData(1);
+
+    for (const { track, buffer, volume, offset } of decodedTracks) {
+      // [EARS: PAN-003] Mono sources are panned equal-power, stereo sources by balance
+      const pan = track.pan ?? 0;
+      const mono = buffer.numberOfChannels < 2;
+      const sourceLeft = buffer.getChannelData(0);
+      const sourceRight = mono ? sourceLeft : buffer.getChannelData(1);
+
+      // Mix with volume and pan, shifted to the track's start offset
+      for (let i = 0; i < sourceLeft.length; i++) {
+        const [left, right] = panFrame(sourceLeft[i] ?? 0, sourceRight[i] ?? 0, pan, mono);
+        leftData[offset + i] = (leftData[offset + i] ?? 0) + left * volume;
+        rightData[offset + i] = (rightData[offset + i] ?? 0) + right * volume;
+      }
+    }
 
-    // Create mixed buffer
-    const mixedBuffer = this.audioContext.createBuffer(
-      numberOfChannels,
-      maxLength,
-      sampleRate
-    );
-
-    // Mix all tracks
-    for (let channel = 0; channel < numberOfChannels; channel++) {
-      const mixedData = mixedBuffer.getChannelData(channel);
+    return mixedBuffer;
+  }
 
-      for (const { buffer, volume } of audioBuffers) {
-        // Get source channel data (use channel 0 if mono)
-        const sourceChannel = Math.min(channel, buffer.numberOfChannels - 1);
-        const sourceData = buffer.getChannelData(sourceChannel);
+  /**
+   * Channels and sample rate of the export format
+   * [EARS: FMT-004] Mono is the average of left and right
+   * [EARS: FMT-002] Resampled to the export sample rate
+   *
+   * @param buffer - Stereo buffer at the audio context's rate
+   * @returns The same buffer if nothing changes, otherwise a new one
+   */
+  private toOutputFormat(buffer: AudioBuffer): AudioBuffer {
+    const sampleRate = this.format.sampleRate ?? buffer.sampleRate;
+    if (!this.format.mono && sampleRate === buffer.sampleRate) {
+      return buffer;
+    }
 
-        // Mix with volume
-        for (let i = 0; i < sourceData.length; i++) {
-          mixedData[i] = (mixedData[i] ?? 0) + (sourceData[i] ?? 0) * volume;
+    let channels: Float32Array[] = [];
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      channels.push(buffer.getChannelData(channel));
+    }
+    if (this.format.mono && channels.length > 1) {
+      const mono = new Float32Array(buffer.length);
+      for (let i = 0; i < mono.length; i++) {
+        let sum = 0;
+        for (const data of channels) {
+          sum += data[i] ?? 0;
         }
+        mono[i] = sum / channels.length;
       }
+      channels = [mono];
+    }
+    channels = channels.map(data => resample(data, buffer.sampleRate, sampleRate));
+
+    const output = this.audioContext.createBuffer(channels.length, channels[0]?.length ?? 0, sampleRate);
+    channels.forEach((data, channel) => output.getChannelData(channel).set(data));
+    return output;
+  }
 
-      // Normalize to prevent clipping
-      let max = 0;
-      for (let i = 0; i < mixedData.length; i++) {
-        const absValue = Math.abs(mixedData[i] ?? 0);
-        if (absValue > max) {
-          max = absValue;
+  /**
+   * Scale buffers by one common factor so none of them clips
+   * Shared scaling keeps the stereo balance, and the balance between stems
+   *
+   * @param buffers - Buffers to scale in place
+   * @returns Gain applied (1 if nothing clipped)
+   */
+  private normalizeTogether(buffers: AudioBuffer[]): number {
+    let max = 0;
+    for (const buffer of buffers) {
+      for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < data.length; i++) {
+          const absValue = Math.abs(data[i] ?? 0);
+          if (absValue > max) {
+            max = absValue;
+          }
         }
       }
+    }
 
-      if (max > 1.0) {
-        // Normalize to prevent clipping
-        for (let i = 0; i < mixedData.length; i++) {
-          mixedData[i] = (mixedData[i] ?? 0) / max;
+    if (max <= 1.0) {
+      return 1;
+    }
+
+    for (const buffer of buffers) {
+      for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < data.length; i++) {
+          data[i] = (data[i] ?? 0) / max;
         }
       }
     }
+    return 1 / max;
+  }
 
-    return mixedBuffer;
+  /**
+   * Tracks heard in the mix, by the same solo/mute rules as playback
+   * [EARS: EXP-001, BUS-005]
+   *
+   * @param tracks - Tracks to filter
+   * @returns Audible tracks
+   */
+  private getAudibleTracks(tracks: ExportTrack[]): ExportTrack[] {
+    // Check if any tracks are soloed
+    const hasSolo = tracks.some(track => track.soloed);
+
+    // [EARS: BUS-005] Buses follow the same rule one level up: while any bus is soloed only soloed buses are heard
+    const hasBusSolo = tracks.some(track => track.bus?.soloed);
+    const isBusAudible = (bus: BusSettings | undefined) => !bus || (hasBusSolo ? bus.soloed : !bus.muted);
+
+    // Filter tracks to mix (respecting solo/mute)
+    return tracks.filter(track => {
+      if (!isBusAudible(track.bus)) {
+        return false;
+      }
+      if (hasSolo) {
+        // Only mix soloed tracks
+        return track.soloed;
+      } else {
+        // Mix all non-muted tracks
+        return !track.muted;
+      }
+    });
   }
 
   /**
@@ -144,15 +353,17 @@ export class Exporter {
    *
    * @param tracks - Tracks to export
    * @param projectName - Name of the project for filename
+   * @returns [EARS: LOUD-004] Measured loudness, if normalized to a target
    */
-  async downloadWAV(tracks: ExportTrack[], projectName: string): Promise<void> {
+  async downloadWAV(tracks: ExportTrack[], projectName: string): Promise<LoudnessReport | null> {
     const wavBlob = await this.exportWAV(tracks);
     this.triggerDownload(wavBlob, `${projectName}.wav`);
+    return this.loudnessReport;
   }
 
   /**
    * Export tracks to MP3 format
-   * [EARS: EXP-005] Encode to MP3 at 128kbps
+   * [EARS: EXP-005] Encode to MP3 in the export format (128kbps by default)
    *
    * @param tracks - Tracks to export
    * @returns MP3 audio blob
@@ -168,55 +379,275 @@ export class Exporter {
    *
    * @param tracks - Tracks to export
    * @param projectName - Name of the project for filename
+   * @returns [EARS: LOUD-004] Measured loudness, if normalized to a target
    */
-  async downloadMP3(tracks: ExportTrack[], projectName: string): Promise<void> {
+  async downloadMP3(tracks: ExportTrack[], projectName: string): Promise<LoudnessReport | null> {
     const mp3Blob = await this.exportMP3(tracks);
     this.triggerDownload(mp3Blob, `${projectName}.mp3`);
+    return this.loudnessReport;
+  }
+
+  /**
+   * Export tracks to FLAC format
+   * [EARS: FLAC-001, FLAC-002] Lossless, at the export bit depth, titled with the project name
+   *
+   * @param tracks - Tracks to export
+   * @param projectName - Name of the project for the title tag
+   * @returns FLAC audio blob
+   */
+  async exportFLAC(tracks: ExportTrack[], projectName: string): Promise<Blob> {
+    const mixedBuffer = await this.mixTracks(tracks);
+    return this.audioBufferToFLAC(mixedBuffer, projectName);
+  }
+
+  /**
+   * Download FLAC file
+   * [EARS: FLAC-003] Download as <project-name>.flac
+   *
+   * @param tracks - Tracks to export
+   * @param projectName - Name of the project for filename
+   * @returns [EARS: LOUD-004] Measured loudness, if normalized to a target
+   */
+  async downloadFLAC(tracks: ExportTrack[], projectName: string): Promise<LoudnessReport | null> {
+    const flacBlob = await this.exportFLAC(tracks, projectName);
+    this.triggerDownload(flacBlob, `${projectName}.flac`);
+    return this.loudnessReport;
+  }
+
+  /**
+   * Export tracks to Ogg/Opus format
+   * [EARS: OPUS-001, OPUS-002] Encode at the export's Opus bitrate, titled with the project name
+   *
+   * @param tracks - Tracks to export
+   * @param projectName - Name of the project for the title tag
+   * @returns Ogg/Opus audio blob
+   * @throws Error if the browser cannot encode Opus
+   */
+  async exportOpus(tracks: ExportTrack[], projectName: string): Promise<Blob> {
+    const mixedBuffer = await this.mixTracks(tracks);
+    return this.audioBufferToOpus(mixedBuffer, projectName);
+  }
+
+  /**
+   * Download Ogg/Opus file
+   * [EARS: OPUS-003] Download as <project-name>.opus
+   *
+   * @param tracks - Tracks to export
+   * @param projectName - Name of the project for filename
+   * @returns [EARS: LOUD-004] Measured loudness, if normalized to a target
+   * @throws Error if the browser cannot encode Opus
+   */
+  async downloadOpus(tracks: ExportTrack[], projectName: string): Promise<LoudnessReport | null> {
+    const opusBlob = await this.exportOpus(tracks, projectName);
+    this.triggerDownload(opusBlob, `${projectName}.opus`);
+    return this.loudnessReport;
+  }
+
+  /**
+   * Render learning tracks as MP3 files
+   * [EARS: LEARN-001] One file per audible voice part: the part centred and 6 dB up, every other track 6 dB down
+   * [EARS: LEARN-002] Plus the full mix
+   *
+   * @param tracks - Tracks to export (parts come from their buses)
+   * @param projectName - Name of the project for the file names
+   * @returns Files named <project>-<part>.mp3, then <project>-Full.mp3
+   * @throws Error if no tracks to export or all tracks muted
+   */
+  async exportLearningTracks(tracks: ExportTrack[], projectName: string): Promise<ZipEntry[]> {
+    const audibleTracks = this.getAudibleTracks(tracks);
+    const parts = VOICE_PARTS.map(({ type }) => type).filter(part =>
+      audibleTracks.some(track => track.bus?.id === part)
+    );
+
+    const baseName = toFileName(projectName);
+    const files: ZipEntry[] = [];
+    for (const part of parts) {
+      const featuredTracks = tracks.map(track => (track.bus?.id === part ? { ...track, pan: 0 } : track));
+      const buffer = await this.mixTracks(featuredTracks, { mode: 'featured', part });
+      files.push({ name: `${baseName}-${part}.mp3`, data: this.audioBufferToMP3(buffer) });
+    }
+
+    const fullMix = await this.mixTracks(tracks);
+    files.push({ name: `${baseName}-Full.mp3`, data: this.audioBufferToMP3(fullMix) });
+
+    return files;
+  }
+
+  /**
+   * Download learning tracks
+   * [EARS: LEARN-003] Bundled into <project-name>-learning-tracks.zip
+   *
+   * @param tracks - Tracks to export
+   * @param projectName - Name of the project for filenames
+   * @returns [EARS: LOUD-004] Measured loudness of the full mix, if normalized to a target
+   */
+  async downloadLearningTracks(tracks: ExportTrack[], projectName: string): Promise<LoudnessReport | null> {
+    const files = await this.exportLearningTracks(tracks, projectName);
+    const zipBlob = await createZip(files);
+    this.triggerDownload(zipBlob, `${projectName}-learning-tracks.zip`);
+    return this.loudnessReport;
+  }
+
+  /**
+   * Render stems as WAV files with a manifest
+   * [EARS: STEM-001] One stem per audible track, or
+   * [EARS: STEM-002] one stem per voice part (tracks outside the parts keep a stem of their own)
+   * [EARS: STEM-003] Every stem starts at time zero, has the same length and the same gain, so they sum to the mix
+   * (stems are not loudness-normalized: a limiter on each stem would break the sum)
+   * [EARS: STEM-004] manifest.json describes the stems and the tracks in each
+   * [EARS: FMT-001, FMT-002, FMT-004] Stems follow the WAV bit depth, sample rate and channels
+   *
+   * @param tracks - Tracks to export
+   * @param projectName - Name of the project for the manifest
+   * @param grouping - One stem per track or per voice part
+   * @returns Stem files named "<NN> <name>.wav", then manifest.json
+   * @throws Error if no tracks to export or all tracks muted
+   */
+  async exportStems(tracks: ExportTrack[], projectName: string, grouping: StemGrouping): Promise<ZipEntry[]> {
+    if (tracks.length === 0) {
+      throw new Error('No tracks to export');
+    }
+
+    const audibleTracks = this.getAudibleTracks(tracks);
+    if (audibleTracks.length === 0) {
+      throw new Error('No audible tracks to export');
+    }
+
+    const decodedTracks = await this.decodeTracks(audibleTracks);
+    const length = Math.max(...decodedTracks.map(track => track.offset + track.buffer.length));
+
+    const ownStem = (decoded: DecodedTrack): StemGroup => ({
+      name: decoded.track.name ?? decoded.track.id,
+      part: decoded.track.bus?.id ?? null,
+      tracks: [decoded],
+    });
+
+    const groups: StemGroup[] = [];
+    if (grouping === 'track') {
+      groups.push(...decodedTracks.map(ownStem));
+    } else {
+      for (const { type, name } of VOICE_PARTS) {
+        const partTracks = decodedTracks.filter(decoded => decoded.track.bus?.id === type);
+        if (partTracks.length > 0) {
+          groups.push({ name, part: type, tracks: partTracks });
+        }
+      }
+      groups.push(
+        ...decodedTracks.filter(decoded => !VOICE_PARTS.some(({ type }) => type === decoded.track.bus?.id)).map(ownStem)
+      );
+    }
+
+    const stems = groups.map((group, index) => ({
+      group,
+      file: `${String(index + 1).padStart(2, '0')} ${toFileName(group.name)}.wav`,
+      buffer: this.toOutputFormat(this.renderTracks(group.tracks, length)),
+    }));
+    const gain = this.normalizeTogether(stems.map(stem => stem.buffer));
+
+    const files: ZipEntry[] = stems.map(({ file, buffer }) => ({
+      name: file,
+      data: this.audioBufferToWAV(buffer),
+    }));
+
+    const firstStem = stems[0];
+    if (!firstStem) {
+      throw new Error('No audible tracks to export');
+    }
+    const { sampleRate, numberOfChannels, length: outputLength } = firstStem.buffer;
+    const manifest = {
+      project: projectName,
+      grouping,
+      sampleRate,
+      channels: numberOfChannels,
+      bitsPerSample: this.format.bitDepth,
+      sampleFormat: this.format.bitDepth === 32 ? 'float' : 'int',
+      length: outputLength, // Samples, the same for every stem
+      duration: outputLength / sampleRate,
+      gain, // Applied to every stem to keep the loudest one from clipping
+      stems: stems.map(({ group, file }) => ({
+        file,
+        name: group.name,
+        part: group.part,
+        tracks: group.tracks.map(({ track }) => ({
+          id: track.id,
+          name: track.name ?? track.id,
+          volume: track.volume,
+          partVolume: track.bus?.volume ?? 100,
+          pan: track.pan ?? 0,
+          startOffset: track.startOffset ?? 0,
+        })),
+      })),
+    };
+    files.push({
+      name: 'manifest.json',
+      data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }),
+    });
+
+    return files;
+  }
+
+  /**
+   * Download stems
+   * [EARS: STEM-004] Bundled into <project-name>-stems.zip
+   *
+   * @param tracks - Tracks to export
+   * @param projectName - Name of the project for filenames
+   * @param grouping - One stem per track or per voice part
+   */
+  async downloadStems(tracks: ExportTrack[], projectName: string, grouping: StemGrouping): Promise<void> {
+    const files = await this.exportStems(tracks, projectName, grouping);
+    const zipBlob = await createZip(files);
+    this.triggerDownload(zipBlob, `${projectName}-stems.zip`);
   }
 
   /**
    * Convert AudioBuffer to WAV blob
    * [EARS: EXP-002] Create RIFF/WAVE formatted file
+   * [EARS: FMT-001] At the export bit depth
    *
    * @param buffer - Audio buffer to convert
    * @returns WAV blob
    */
   private audioBufferToWAV(buffer: AudioBuffer): Blob {
-    const numberOfChannels = buffer.numberOfChannels;
-    const sampleRate = buffer.sampleRate;
-    const bitsPerSample = 16;
-    const bytesPerSample = bitsPerSample / 8;
-
     // Interleave channels
     const interleaved = this.interleaveChannels(buffer);
 
-    // Convert to 16-bit PCM
-    const pcmData = this.floatTo16BitPCM(interleaved);
-
     // Create WAV file
-    const wavData = this.encodeWAV(pcmData, numberOfChannels, sampleRate, bitsPerSample);
+    const wavData = this.encodeWAV(interleaved, buffer.numberOfChannels, buffer.sampleRate, this.format.bitDepth);
 
     return new Blob([wavData], { type: 'audio/wav' });
   }
 
   /**
    * Convert AudioBuffer to MP3 blob
-   * [EARS: EXP-005] Encode to MP3 at 128kbps
+   * [EARS: EXP-005] Encode to MP3 (128kbps by default)
+   * [EARS: FMT-003] At the export's constant bitrate or variable-bitrate quality
    *
    * @param buffer - Audio buffer to convert
    * @returns MP3 blob
    */
   private audioBufferToMP3(buffer: AudioBuffer): Blob {
     const sampleRate = buffer.sampleRate;
-    const kbps = 128;
-    const mp3encoder = new window.lamejs.Mp3Encoder(buffer.numberOfChannels, sampleRate, kbps);
+    const mp3Settings = this.format.mp3;
+
+    // [EARS: FMT-005] lamejs takes 16-bit samples
+    const channels: Int16Array[] = [];
+    for (let channel = 0; channel < Math.min(2, buffer.numberOfChannels); channel++) {
+      channels.push(Int16Array.from(quantize(buffer.getChannelData(channel), 16)));
+    }
+
+    if (mp3Settings.mode === 'vbr') {
+      return new Blob([encodeVbrMp3(channels, sampleRate, mp3Settings.quality)], { type: 'audio/mp3' });
+    }
+
+    const mp3encoder = new window.lamejs.Mp3Encoder(channels.length, sampleRate, mp3Settings.bitrate);
 
     const mp3Data: Int8Array[] = [];
     const sampleBlockSize = 1152; // LAME encoding block size
 
-    if (buffer.numberOfChannels === 1) {
+    if (channels.length === 1) {
       // Mono
-      const samples = this.floatTo16BitPCM(buffer.getChannelData(0));
+      const samples = channels[0] ?? new Int16Array(0);
       for (let i = 0; i < samples.length; i += sampleBlockSize) {
         const sampleChunk = samples.subarray(i, i + sampleBlockSize);
         const mp3buf = mp3encoder.encodeBuffer(sampleChunk);
@@ -226,8 +657,8 @@ export class Exporter {
       }
     } else {
       // Stereo
-      const left = this.floatTo16BitPCM(buffer.getChannelData(0));
-      const right = this.floatTo16BitPCM(buffer.getChannelData(1));
+      const left = channels[0] ?? new Int16Array(0);
+      const right = channels[1] ?? left;
 
       for (let i = 0; i < left.length; i += sampleBlockSize) {
         const leftChunk = left.subarray(i, i + sampleBlockSize);
@@ -248,6 +679,42 @@ export class Exporter {
     return new Blob(mp3Data, { type: 'audio/mp3' });
   }
 
+  /**
+   * Convert AudioBuffer to FLAC blob
+   * [EARS: FLAC-001] Dithered to 16 or 24-bit (32-bit float is stored as 24-bit)
+   * [EARS: FLAC-002] Tagged with the title
+   *
+   * @param buffer - Audio buffer to convert
+   * @param title - Title tag
+   * @returns FLAC blob
+   */
+  private audioBufferToFLAC(buffer: AudioBuffer, title: string): Blob {
+    const bitsPerSample = this.format.bitDepth === 16 ? 16 : 24;
+    const channels: Int32Array[] = [];
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      channels.push(quantize(buffer.getChannelData(channel), bitsPerSample));
+    }
+    return new Blob([encodeFlac(channels, buffer.sampleRate, bitsPerSample, { TITLE: title })], { type: 'audio/flac' });
+  }
+
+  /**
+   * Convert AudioBuffer to Ogg/Opus blob
+   * [EARS: OPUS-001, OPUS-002] At the export's Opus bitrate, tagged with the title
+   *
+   * @param buffer - Audio buffer to convert
+   * @param title - Title tag
+   * @returns Ogg/Opus blob
+   * @throws Error if the browser cannot encode Opus
+   */
+  private async audioBufferToOpus(buffer: AudioBuffer, title: string): Promise<Blob> {
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < Math.min(2, buffer.numberOfChannels); channel++) {
+      channels.push(buffer.getChannelData(channel));
+    }
+    const opusData = await encodeOggOpus(channels, buffer.sampleRate, this.format.opusBitrate, { TITLE: title });
+    return new Blob([opusData], { type: 'audio/ogg' });
+  }
+
   /**
    * Interleave multi-channel audio data
    *
@@ -270,55 +737,46 @@ export class Exporter {
   }
 
   /**
-   * Convert float samples to 16-bit PCM
-   *
-   * @param samples - Float samples (-1 to 1)
-   * @returns 16-bit PCM data
-   */
-  private floatTo16BitPCM(samples: Float32Array): Int16Array {
-    const pcm = new Int16Array(samples.length);
-    for (let i = 0; i < samples.length; i++) {
-      const s = Math.max(-1, Math.min(1, samples[i] ?? 0));
-      pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
-    }
-    return pcm;
-  }
-
-  /**
-   * Encode PCM data as WAV file
+   * Encode samples as WAV file
    * [EARS: EXP-002] Create RIFF/WAVE format with proper headers
+   * [EARS: FMT-001, FMT-005] 16/24-bit integer PCM with TPDF dither, or 32-bit IEEE float
+   * (float files carry the extended format chunk and the fact chunk they require)
    *
-   * @param pcmData - PCM audio data
+   * @param samples - Interleaved float samples
    * @param numberOfChannels - Number of audio channels
    * @param sampleRate - Sample rate in Hz
    * @param bitsPerSample - Bits per sample
    * @returns WAV file as ArrayBuffer
    */
   private encodeWAV(
-    pcmData: Int16Array,
+    samples: Float32Array,
     numberOfChannels: number,
     sampleRate: number,
-    bitsPerSample: number
+    bitsPerSample: WavBitDepth
   ): ArrayBuffer {
+    const float = bitsPerSample === 32;
     const bytesPerSample = bitsPerSample / 8;
     const blockAlign = numberOfChannels * bytesPerSample;
     const byteRate = sampleRate * blockAlign;
-    const dataSize = pcmData.length * bytesPerSample;
-    const buffer = new ArrayBuffer(44 + dataSize);
+    const dataSize = samples.length * bytesPerSample;
+    const formatSize = float ? 18 : 16;
+    const factSize = float ? 12 : 0;
+    const dataOffset = 20 + formatSize + factSize + 8;
+    const buffer = new ArrayBuffer(dataOffset + dataSize);
     const view = new DataView(buffer);
 
     // RIFF identifier 'RIFF'
     this.writeString(view, 0, 'RIFF');
     // File size
-    view.setUint32(4, 36 + dataSize, true);
+    view.setUint32(4, dataOffset - 8 + dataSize, true);
     // RIFF type 'WAVE'
     this.writeString(view, 8, 'WAVE');
     // Format chunk identifier 'fmt '
     this.writeString(view, 12, 'fmt ');
     // Format chunk length
-    view.setUint32(16, 16, true);
-    // Sample format (1 = PCM)
-    view.setUint16(20, 1, true);
+    view.setUint32(16, formatSize, true);
+    // Sample format (1 = PCM, 3 = IEEE float)
+    view.setUint16(20, float ? 3 : 1, true);
     // Channel count
     view.setUint16(22, numberOfChannels, true);
     // Sample rate
@@ -329,15 +787,36 @@ export class Exporter {
     view.setUint16(32, blockAlign, true);
     // Bits per sample
     view.setUint16(34, bitsPerSample, true);
+    if (float) {
+      // Extension size
+      view.setUint16(36, 0, true);
+      // Fact chunk: sample frames per channel
+      this.writeString(view, 38, 'fact');
+      view.setUint32(42, 4, true);
+      view.setUint32(46, samples.length / numberOfChannels, true);
+    }
     // Data chunk identifier 'data'
-    this.writeString(view, 36, 'data');
+    this.writeString(view, dataOffset - 8, 'data');
     // Data chunk length
-    view.setUint32(40, dataSize, true);
+    view.setUint32(dataOffset - 4, dataSize, true);
 
-    // Write PCM data
-    const offset = 44;
-    for (let i = 0; i < pcmData.length; i++) {
-      view.setInt16(offset + i * 2, pcmData[i] ?? 0, true);
+    // Write sample data
+    if (float) {
+      for (let i = 0; i < samples.length; i++) {
+        view.setFloat32(dataOffset + i * 4, samples[i] ?? 0, true);
+      }
+    } else if (bitsPerSample === 24) {
+      const pcmData = quantize(samples, 24);
+      for (let i = 0; i < pcmData.length; i++) {
+        const value = pcmData[i] ?? 0;
+        view.setUint8(dataOffset + i * 3, value & 0xff);
+        view.setInt16(dataOffset + i * 3 + 1, value >> 8, true);
+      }
+    } else {
+      const pcmData = quantize(samples, 16);
+      for (let i = 0; i < pcmData.length; i++) {
+        view.setInt16(dataOffset + i * 2, pcmData[i] ?? 0, true);
+      }
     }
 
     return buffer;
@@ -0,0 +1,269 @@
+import { describe, test, expect } from 'vitest';
+import { encodeFlac, md5 } from './flac';
+
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+class BitReader {
+  position = 0; // In bits
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const byte = this.bytes[this.position >> 3] ?? 0;
+      value = value * 2 + ((byte >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  readSigned(bits: number): number {
+    const value = this.read(bits);
+    return value >= Math.pow(2, bits - 1) ? value - Math.pow(2, bits) : value;
+  }
+
+  readRice(parameter: number): number {
+    let quotient = 0;
+    while (this.read(1) === 0) {
+      quotient++;
+    }
+    const folded = quotient * Math.pow(2, parameter) + this.read(parameter);
+    return folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2;
+  }
+
+  alignToByte(): void {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+}
+
+interface Decoded {
+  sampleRate: number;
+  bitsPerSample: number;
+  totalSamples: number;
+  md5: Uint8Array;
+  comments: string[];
+  vendor: string;
+  channels: number[][];
+}
+
+// Minimal decoder for what the encoder writes: fixed block size, constant, verbatim and fixed subframes
+function decodeFlac(file: Uint8Array): Decoded {
+  expect(new TextDecoder().decode(file.subarray(0, 4))).toBe('fLaC');
+  const reader = new BitReader(file);
+  reader.position = 32;
+
+  const decoded: Decoded = {
+    sampleRate: 0,
+    bitsPerSample: 0,
+    totalSamples: 0,
+    md5: new Uint8Array(0),
+    comments: [],
+    vendor: '',
+    channels: [],
+  };
+  let channelCount = 0;
+  let last = false;
+  while (!last) {
+    last = reader.read(1) === 1;
+    const type = reader.read(7);
+    const length = reader.read(24);
+    const start = reader.position / 8;
+    if (type === 0) {
+      reader.read(16 + 16 + 24 + 24);
+      decoded.sampleRate = reader.read(20);
+      channelCount = reader.read(3) + 1;
+      decoded.bitsPerSample = reader.read(5) + 1;
+      decoded.totalSamples = reader.read(36);
+      decoded.md5 = file.slice(start + 18, start + 34);
+    } else if (type === 4) {
+      const view = new DataView(file.buffer, file.byteOffset + start, length);
+      let offset = 0;
+      const field = () => {
+        const size = view.getUint32(offset, true);
+        const text = new TextDecoder().decode(file.subarray(start + offset + 4, start + offset + 4 + size));
+        offset += 4 + size;
+        return text;
+      };
+      decoded.vendor = field();
+      const count = view.getUint32(offset, true);
+      offset += 4;
+      for (let i = 0; i < count; i++) {
+        decoded.comments.push(field());
+      }
+    }
+    reader.position = (start + length) * 8;
+  }
+
+  decoded.channels = Array.from({ length: channelCount }, () => []);
+  let frameNumber = 0;
+  while (reader.position / 8 < file.length) {
+    expect(reader.read(14)).toBe(0b11111111111110);
+    reader.read(2);
+    const sizeCode = reader.read(4);
+    reader.read(4);
+    const assignment = reader.read(4);
+    reader.read(4);
+    expect(reader.read(8)).toBe(frameNumber); // Short frame numbers only
+    const blockSize = sizeCode === 0b1100 ? 4096 : reader.read(16) + 1;
+    reader.read(8);
+
+    const subframes: number[][] = [];
+    for (let c = 0; c < channelCount; c++) {
+      const isSide = (assignment === 0b1000 && c === 1) || (assignment === 0b1001 && c === 0) || (assignment === 0b1010 && c === 1);
+      const bits = decoded.bitsPerSample + (isSide ? 1 : 0);
+      reader.read(1);
+      const type = reader.read(6);
+      reader.read(1);
+      const samples: number[] = [];
+      if (type === 0) {
+        const value = reader.readSigned(bits);
+        for (let i = 0; i < blockSize; i++) samples.push(value);
+      } else if (type === 1) {
+        for (let i = 0; i < blockSize; i++) samples.push(reader.readSigned(bits));
+      } else {
+        const order = type & 0x07;
+        for (let i = 0; i < order; i++) samples.push(reader.readSigned(bits));
+        const method = reader.read(2);
+        const partitionOrder = reader.read(4);
+        const residual: number[] = [];
+        for (let p = 0; p < 1 << partitionOrder; p++) {
+          const parameter = reader.read(method === 1 ? 5 : 4);
+          const count = (blockSize >> partitionOrder) - (p === 0 ? order : 0);
+          for (let i = 0; i < count; i++) residual.push(reader.readRice(parameter));
+        }
+        const coefficients = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]][order]!;
+        for (const value of residual) {
+          const n = samples.length;
+          samples.push(value + coefficients.reduce((sum, k, j) => sum + k * samples[n - 1 - j]!, 0));
+        }
+      }
+      subframes.push(samples);
+    }
+    reader.alignToByte();
+    reader.read(16);
+
+    const [a = [], b = []] = subframes;
+    for (let i = 0; i < blockSize; i++) {
+      let left = a[i]!;
+      let right = b[i]!;
+      if (assignment === 0b1000) right = left - right;
+      if (assignment === 0b1001) left = left + right;
+      if (assignment === 0b1010) {
+        const mid = left * 2 + (right & 1);
+        left = (mid + right) / 2;
+        right = (mid - right) / 2;
+      }
+      decoded.channels[0]!.push(left);
+      if (channelCount > 1) decoded.channels[1]!.push(right);
+    }
+    frameNumber++;
+  }
+  return decoded;
+}
+
+function toneChannel(length: number, amplitude: number, period: number, phase = 0): Int32Array {
+  const data = new Int32Array(length);
+  for (let i = 0; i < length; i++) {
+    data[i] = Math.round(amplitude * Math.sin((2 * Math.PI * i) / period + phase));
+  }
+  return data;
+}
+
+describe('FLAC-001: FLAC encoding', () => {
+  // ✅ Happy path
+  test('decodes back to the same 16-bit stereo samples', () => {
+    const left = toneChannel(10000, 20000, 100);
+    const right = toneChannel(10000, 15000, 77, 1);
+    const decoded = decodeFlac(encodeFlac([left, right], 44100, 16));
+
+    expect(decoded.channels[0]).toEqual(Array.from(left));
+    expect(decoded.channels[1]).toEqual(Array.from(right));
+  });
+
+  test('decodes back to the same 24-bit samples', () => {
+    const mono = toneChannel(5000, 8000000, 50);
+    const decoded = decodeFlac(encodeFlac([mono], 48000, 24));
+
+    expect(decoded.bitsPerSample).toBe(24);
+    expect(decoded.channels[0]).toEqual(Array.from(mono));
+  });
+
+  test('is much smaller than the raw samples for tonal audio', () => {
+    const left = toneChannel(44100, 20000, 100);
+    const file = encodeFlac([left, left], 44100, 16);
+
+    expect(file.length).toBeLessThan(44100 * 2 * 2 * 0.3);
+  });
+
+  test('keeps noise lossless', () => {
+    const noise = new Int32Array(6000).map(() => Math.floor(Math.random() * 65536) - 32768);
+    const quiet = new Int32Array(6000).map(() => Math.floor(Math.random() * 5) - 2);
+    const decoded = decodeFlac(encodeFlac([noise, quiet], 44100, 16));
+
+    expect(decoded.channels[0]).toEqual(Array.from(noise));
+    expect(decoded.channels[1]).toEqual(Array.from(quiet));
+  });
+
+  // ⚠️ Negative cases
+  test('writes a valid file for no audio', () => {
+    const decoded = decodeFlac(encodeFlac([new Int32Array(0), new Int32Array(0)], 44100, 16));
+
+    expect(decoded.totalSamples).toBe(0);
+    expect(decoded.channels[0]).toEqual([]);
+  });
+
+  // 🔥 Edge cases
+  test('codes silence and full-scale extremes', () => {
+    const silence = new Int32Array(4096);
+    const extremes = new Int32Array(4096).map((_, i) => (i % 2 === 0 ? 32767 : -32768));
+    const decoded = decodeFlac(encodeFlac([silence, extremes], 44100, 16));
+
+    expect(decoded.channels[0]).toEqual(Array.from(silence));
+    expect(decoded.channels[1]).toEqual(Array.from(extremes));
+  });
+
+  test('writes the size of a short last block into its header', () => {
+    const mono = toneChannel(4096 + 100, 1000, 30);
+    const decoded = decodeFlac(encodeFlac([mono], 44100, 16));
+
+    expect(decoded.channels[0]).toHaveLength(4196);
+    expect(decoded.channels[0]).toEqual(Array.from(mono));
+  });
+});
+
+describe('FLAC-002: FLAC metadata', () => {
+  // ✅ Happy path
+  test('writes the stream info', () => {
+    const decoded = decodeFlac(encodeFlac([toneChannel(1000, 100, 10), toneChannel(1000, 100, 20)], 48000, 24));
+
+    expect(decoded.sampleRate).toBe(48000);
+    expect(decoded.bitsPerSample).toBe(24);
+    expect(decoded.channels).toHaveLength(2);
+    expect(decoded.totalSamples).toBe(1000);
+  });
+
+  test('writes the MD5 of the interleaved little-endian samples', () => {
+    const file = encodeFlac([new Int32Array([1, -2]), new Int32Array([256, 0])], 44100, 16);
+    const pcm = new Uint8Array([1, 0, 0, 1, 0xfe, 0xff, 0, 0]);
+
+    expect(hex(decodeFlac(file).md5)).toBe(hex(md5(pcm)));
+  });
+
+  test('writes the tags as Vorbis comments', () => {
+    const decoded = decodeFlac(encodeFlac([new Int32Array(100)], 44100, 16, { title: 'Ave Verum', ARTIST: 'Alto' }));
+
+    expect(decoded.vendor).toBeTruthy();
+    expect(decoded.comments).toEqual(['TITLE=Ave Verum', 'ARTIST=Alto']);
+  });
+
+  // 🔥 Edge cases
+  test('computes MD5 digests', () => {
+    expect(hex(md5(new Uint8Array(0)))).toBe('d41d8cd98f00b204e9800998ecf8427e');
+    expect(hex(md5(new TextEncoder().encode('abc')))).toBe('900150983cd24fb0d6963f7d28e17f72');
+    // Crosses a 64-byte block boundary with the padding
+    expect(hex(md5(new TextEncoder().encode('a'.repeat(60))))).toBe('cc7ed669cf88f201c3297c6a91e1d18d');
+  });
+});
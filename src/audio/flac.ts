@@ -0,0 +1,635 @@
+// [EARS: FLAC-001, FLAC-002] FLAC encoder: fixed linear prediction with Rice-coded residuals
+
+const BLOCK_SIZE = 4096; // Samples per channel in each frame
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+
+export const FLAC_VENDOR = 'recorder FLAC encoder';
+
+// Frame header codes for common sample rates (others are read from STREAMINFO)
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001,
+  176400: 0b0010,
+  192000: 0b0011,
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011,
+};
+
+const SAMPLE_SIZE_CODES: Record<number, number> = { 16: 0b100, 24: 0b110 };
+
+// Stereo channel assignments
+const INDEPENDENT = 0b0001; // Left, right
+const LEFT_SIDE = 0b1000; // Left, left - right
+const RIGHT_SIDE = 0b1001; // Left - right, right
+const MID_SIDE = 0b1010; // (left + right) >> 1, left - right
+
+/**
+ * Writes big-endian bit fields into a growing byte array
+ */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private accumulator = 0; // Pending bits, fewer than 8 between writes
+  private pendingBits = 0;
+
+  /**
+   * Append the low bits of an unsigned value
+   *
+   * @param value - Value to write (non-negative)
+   * @param bits - Number of bits (0 to 32)
+   */
+  write(value: number, bits: number): void {
+    if (bits > 24) {
+      this.write(Math.floor(value / 0x1000000), bits - 24);
+      this.write(value % 0x1000000, 24);
+      return;
+    }
+    // At most 7 pending bits plus 24 new ones: fits a 32-bit integer
+    this.accumulator = (this.accumulator << bits) | value;
+    this.pendingBits += bits;
+    while (this.pendingBits >= 8) {
+      this.pendingBits -= 8;
+      this.pushByte((this.accumulator >>> this.pendingBits) & 0xff);
+    }
+    this.accumulator &= (1 << this.pendingBits) - 1;
+  }
+
+  /**
+   * Append a two's complement value
+   *
+   * @param value - Signed value
+   * @param bits - Number of bits
+   */
+  writeSigned(value: number, bits: number): void {
+    this.write(value < 0 ? value + Math.pow(2, bits) : value, bits);
+  }
+
+  /**
+   * Append a Rice code: the zigzag-folded value's quotient in unary, then its low bits
+   *
+   * @param value - Signed value
+   * @param parameter - Rice parameter
+   */
+  writeRice(value: number, parameter: number): void {
+    const folded = value >= 0 ? value * 2 : -value * 2 - 1;
+    let quotient = folded >>> parameter;
+    const remainder = folded & ((1 << parameter) - 1);
+    while (quotient >= 24) {
+      this.write(0, 24);
+      quotient -= 24;
+    }
+    this.write(1, quotient + 1);
+    this.write(remainder, parameter);
+  }
+
+  /**
+   * Pad with zero bits to the next byte boundary
+   */
+  alignToByte(): void {
+    if (this.pendingBits > 0) {
+      this.write(0, 8 - this.pendingBits);
+    }
+  }
+
+  /**
+   * Bytes written so far (after aligning)
+   */
+  toBytes(): Uint8Array {
+    return this.bytes.subarray(0, this.length);
+  }
+
+  private pushByte(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+/**
+ * CRC-8 of a frame header (polynomial x^8 + x^2 + x + 1)
+ *
+ * @param bytes - Header bytes
+ * @returns Checksum
+ */
+function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+let crc16Table: Uint16Array | null = null;
+
+/**
+ * CRC-16 of a whole frame (polynomial x^16 + x^15 + x^2 + 1)
+ *
+ * @param bytes - Frame bytes
+ * @returns Checksum
+ */
+function crc16(bytes: Uint8Array): number {
+  if (!crc16Table) {
+    crc16Table = new Uint16Array(256);
+    for (let n = 0; n < 256; n++) {
+      let crc = n << 8;
+      for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+      }
+      crc16Table[n] = crc;
+    }
+  }
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = ((crc << 8) & 0xffff) ^ (crc16Table[(crc >> 8) ^ byte] ?? 0);
+  }
+  return crc;
+}
+
+/**
+ * MD5 digest (RFC 1321)
+ *
+ * @param bytes - Message
+ * @returns 16-byte digest
+ */
+export function md5(bytes: Uint8Array): Uint8Array {
+  const shifts = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+  const constants = new Uint32Array(64);
+  for (let i = 0; i < 64; i++) {
+    constants[i] = Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000);
+  }
+
+  // Message, a 1 bit, zeros, then the bit length: a whole number of 64-byte blocks
+  const padded = new Uint8Array((((bytes.length + 8) >> 6) + 1) << 6);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, (bytes.length * 8) >>> 0, true);
+  view.setUint32(padded.length - 4, Math.floor(bytes.length / 0x20000000), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+  const words = new Uint32Array(16);
+  for (let block = 0; block < padded.length; block += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getUint32(block + i * 4, true);
+    }
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const sum = (a + f + (constants[i] ?? 0) + (words[g] ?? 0)) >>> 0;
+      const shift = shifts[(i >> 4) * 4 + (i % 4)] ?? 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) >>> 0;
+    }
+    a0 = (a0 + a) >>> 0;
+    b0 = (b0 + b) >>> 0;
+    c0 = (c0 + c) >>> 0;
+    d0 = (d0 + d) >>> 0;
+  }
+
+  const digest = new Uint8Array(16);
+  const digestView = new DataView(digest.buffer);
+  [a0, b0, c0, d0].forEach((word, i) => digestView.setUint32(i * 4, word, true));
+  return digest;
+}
+
+/**
+ * Fixed predictor order with the smallest residual, which is close to the one that codes smallest
+ *
+ * @param samples - Channel samples
+ * @returns Predictor order (0 to 4)
+ */
+function chooseFixedOrder(samples: Int32Array): number {
+  const maxOrder = Math.min(MAX_FIXED_ORDER, samples.length - 1);
+  let t0 = 0;
+  let t1 = 0;
+  let t2 = 0;
+  let t3 = 0;
+  let t4 = 0;
+  for (let i = MAX_FIXED_ORDER; i < samples.length; i++) {
+    const s1 = samples[i - 1] ?? 0;
+    const s2 = samples[i - 2] ?? 0;
+    const s3 = samples[i - 3] ?? 0;
+    const e0 = samples[i] ?? 0;
+    const e1 = e0 - s1;
+    const e2 = e1 - (s1 - s2);
+    const e3 = e2 - (s1 - 2 * s2 + s3);
+    const e4 = e3 - (s1 - 3 * s2 + 3 * s3 - (samples[i - 4] ?? 0));
+    t0 += Math.abs(e0);
+    t1 += Math.abs(e1);
+    t2 += Math.abs(e2);
+    t3 += Math.abs(e3);
+    t4 += Math.abs(e4);
+  }
+  const totals = [t0, t1, t2, t3, t4];
+  let best = 0;
+  for (let order = 1; order <= maxOrder; order++) {
+    if ((totals[order] ?? Infinity) < (totals[best] ?? Infinity)) {
+      best = order;
+    }
+  }
+  return best;
+}
+
+/**
+ * Residual of a fixed polynomial predictor
+ *
+ * @param samples - Channel samples
+ * @param order - Predictor order (0 to 4)
+ * @returns Residual for every sample after the warm-up
+ */
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+  let residual = samples;
+  for (let o = 1; o <= order; o++) {
+    const next = new Int32Array(samples.length);
+    for (let i = o; i < samples.length; i++) {
+      next[i] = (residual[i] ?? 0) - (residual[i - 1] ?? 0);
+    }
+    residual = next;
+  }
+  return residual.subarray(order);
+}
+
+interface RicePlan {
+  partitionOrder: number;
+  parameters: number[];
+  bits: number;
+}
+
+/**
+ * Cheapest partitioning and Rice parameters for a residual
+ *
+ * @param residual - Residual after the warm-up samples
+ * @param blockSize - Samples in the block
+ * @param order - Predictor order (the first partition is shorter by this much)
+ * @param maxParameter - Highest Rice parameter the coding method allows
+ * @param parameterBits - Bits per Rice parameter (4 or 5)
+ * @returns Partition order, parameter per partition and estimated size in bits
+ */
+function planRice(
+  residual: Int32Array,
+  blockSize: number,
+  order: number,
+  maxParameter: number,
+  parameterBits: number
+): RicePlan {
+  // Finest partitioning the block allows: every partition must be longer than the warm-up
+  let maxOrder = 0;
+  while (
+    maxOrder < MAX_PARTITION_ORDER &&
+    blockSize % (1 << (maxOrder + 1)) === 0 &&
+    blockSize >> (maxOrder + 1) > order
+  ) {
+    maxOrder++;
+  }
+
+  // Folded residual sums of the finest partitions; coarser ones add up neighbouring pairs
+  let sums: number[] = new Array<number>(1 << maxOrder).fill(0);
+  const finestSize = blockSize >> maxOrder;
+  for (let i = 0; i < residual.length; i++) {
+    const value = residual[i] ?? 0;
+    const partition = Math.floor((i + order) / finestSize);
+    sums[partition] = (sums[partition] ?? 0) + (value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+
+  let best: RicePlan = { partitionOrder: 0, parameters: [], bits: Infinity };
+  for (let partitionOrder = maxOrder; partitionOrder >= 0; partitionOrder--) {
+    const partitionSize = blockSize >> partitionOrder;
+    const parameters: number[] = [];
+    let bits = 0;
+    sums.forEach((sum, p) => {
+      const count = p === 0 ? partitionSize - order : partitionSize;
+
+      // Size is about count * (k + 1) + sum / 2^k bits: try the parameters around the mean
+      const mean = count > 0 ? sum / count : 0;
+      const guess = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+      let bestParameter = 0;
+      let bestBits = Infinity;
+      for (let k = Math.max(0, guess - 1); k <= Math.min(maxParameter, guess + 1); k++) {
+        const estimate = count * (k + 1) + Math.floor(sum / Math.pow(2, k));
+        if (estimate < bestBits) {
+          bestBits = estimate;
+          bestParameter = k;
+        }
+      }
+      parameters.push(bestParameter);
+      bits += parameterBits + bestBits;
+    });
+
+    if (bits < best.bits) {
+      best = { partitionOrder, parameters, bits };
+    }
+    sums = sums.filter((_, p) => p % 2 === 0).map((sum, p) => sum + (sums[2 * p + 1] ?? 0));
+  }
+  return best;
+}
+
+interface SubframePlan {
+  kind: 'constant' | 'verbatim' | 'fixed';
+  order: number;
+  rice: RicePlan | null;
+  residual: Int32Array | null;
+  bits: number;
+}
+
+/**
+ * Cheapest subframe for one channel of a block
+ *
+ * @param samples - Channel samples
+ * @param bitsPerSample - Sample size of this channel (one more for a side channel)
+ * @returns Encoding plan with its estimated size
+ */
+function planSubframe(samples: Int32Array, bitsPerSample: number): SubframePlan {
+  const header = 8;
+  if (samples.every(sample => sample === samples[0])) {
+    return { kind: 'constant', order: 0, rice: null, residual: null, bits: header + bitsPerSample };
+  }
+
+  const verbatimBits = header + bitsPerSample * samples.length;
+  const verbatim: SubframePlan = { kind: 'verbatim', order: 0, rice: null, residual: null, bits: verbatimBits };
+
+  // Rice2 allows the larger parameters that 24-bit audio can need
+  const rice2 = bitsPerSample > 16;
+  const order = chooseFixedOrder(samples);
+  const residual = fixedResidual(samples, order);
+  const rice = planRice(residual, samples.length, order, rice2 ? 30 : 14, rice2 ? 5 : 4);
+  const bits = header + order * bitsPerSample + 6 + rice.bits;
+  return bits < verbatimBits ? { kind: 'fixed', order, rice, residual, bits } : verbatim;
+}
+
+/**
+ * Write a planned subframe
+ *
+ * @param writer - Frame being written
+ * @param samples - Channel samples
+ * @param bitsPerSample - Sample size of this channel
+ * @param plan - Encoding chosen by planSubframe
+ */
+function writeSubframe(writer: BitWriter, samples: Int32Array, bitsPerSample: number, plan: SubframePlan): void {
+  if (plan.kind === 'constant') {
+    writer.write(0b00000000, 8); // Zero bit, type 000000, no wasted bits
+    writer.writeSigned(samples[0] ?? 0, bitsPerSample);
+    return;
+  }
+
+  const { rice, residual } = plan;
+  if (plan.kind === 'verbatim' || !rice || !residual) {
+    writer.write(0b00000010, 8); // Type 000001
+    for (const sample of samples) {
+      writer.writeSigned(sample, bitsPerSample);
+    }
+    return;
+  }
+
+  writer.write((0b001000 | plan.order) << 1, 8); // Type 001xxx: fixed predictor of order xxx
+  for (let i = 0; i < plan.order; i++) {
+    writer.writeSigned(samples[i] ?? 0, bitsPerSample);
+  }
+
+  const rice2 = bitsPerSample > 16;
+  writer.write(rice2 ? 0b01 : 0b00, 2);
+  writer.write(rice.partitionOrder, 4);
+  const partitionSize = samples.length >> rice.partitionOrder;
+  let start = 0;
+  rice.parameters.forEach((parameter, p) => {
+    writer.write(parameter, rice2 ? 5 : 4);
+    const count = p === 0 ? partitionSize - plan.order : partitionSize;
+    for (let i = start; i < start + count; i++) {
+      writer.writeRice(residual[i] ?? 0, parameter);
+    }
+    start += count;
+  });
+}
+
+/**
+ * Write a frame number in the UTF-8-like coding of frame headers
+ *
+ * @param writer - Frame being written
+ * @param value - Frame number
+ */
+function writeCodedNumber(writer: BitWriter, value: number): void {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  // Lead byte of n ones, then continuation bytes of 10xxxxxx
+  let continuationBytes = 1;
+  while (value >= Math.pow(2, 6 * continuationBytes + (6 - continuationBytes))) {
+    continuationBytes++;
+  }
+  const lead = (0xff << (7 - continuationBytes)) & 0xff;
+  writer.write(lead | Math.floor(value / Math.pow(2, 6 * continuationBytes)), 8);
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / Math.pow(2, 6 * i)) & 0x3f), 8);
+  }
+}
+
+/**
+ * Encode one frame
+ *
+ * @param channels - Block samples per channel
+ * @param frameNumber - Index of the frame
+ * @param sampleRate - Sample rate in Hz
+ * @param bitsPerSample - Sample size
+ * @returns Frame bytes
+ */
+function encodeFrame(channels: Int32Array[], frameNumber: number, sampleRate: number, bitsPerSample: number): Uint8Array {
+  const blockSize = channels[0]?.length ?? 0;
+
+  // Channel layout: try the stereo decorrelations and keep the smallest
+  let assignment = channels.length - 1;
+  let subframes = channels.map(samples => ({ samples, bits: bitsPerSample, plan: planSubframe(samples, bitsPerSample) }));
+  if (channels.length === 2) {
+    const [left, right] = channels as [Int32Array, Int32Array];
+    const side = new Int32Array(blockSize);
+    const mid = new Int32Array(blockSize);
+    for (let i = 0; i < blockSize; i++) {
+      const l = left[i] ?? 0;
+      const r = right[i] ?? 0;
+      side[i] = l - r;
+      mid[i] = (l + r) >> 1;
+    }
+    const [leftSub, rightSub] = subframes as [(typeof subframes)[number], (typeof subframes)[number]];
+    const sideSub = { samples: side, bits: bitsPerSample + 1, plan: planSubframe(side, bitsPerSample + 1) };
+    const midSub = { samples: mid, bits: bitsPerSample, plan: planSubframe(mid, bitsPerSample) };
+    const options = [
+      { assignment: INDEPENDENT, subframes: [leftSub, rightSub] },
+      { assignment: LEFT_SIDE, subframes: [leftSub, sideSub] },
+      { assignment: RIGHT_SIDE, subframes: [sideSub, rightSub] },
+      { assignment: MID_SIDE, subframes: [midSub, sideSub] },
+    ];
+    const size = (option: (typeof options)[number]) => option.subframes.reduce((bits, sub) => bits + sub.plan.bits, 0);
+    const best = options.reduce((a, b) => (size(b) < size(a) ? b : a));
+    assignment = best.assignment;
+    subframes = best.subframes;
+  }
+
+  const writer = new BitWriter();
+  writer.write(0b11111111111110, 14); // Sync code
+  writer.write(0, 1); // Reserved
+  writer.write(0, 1); // Fixed block size
+  const sizeCode = blockSize === BLOCK_SIZE ? 0b1100 : 0b0111; // 4096, or 16-bit size - 1 at the end of the header
+  writer.write(sizeCode, 4);
+  writer.write(SAMPLE_RATE_CODES[sampleRate] ?? 0b0000, 4);
+  writer.write(assignment, 4);
+  writer.write(SAMPLE_SIZE_CODES[bitsPerSample] ?? 0b000, 3);
+  writer.write(0, 1); // Reserved
+  writeCodedNumber(writer, frameNumber);
+  if (sizeCode === 0b0111) {
+    writer.write(blockSize - 1, 16);
+  }
+  writer.write(crc8(writer.toBytes()), 8);
+
+  for (const { samples, bits, plan } of subframes) {
+    writeSubframe(writer, samples, bits, plan);
+  }
+  writer.alignToByte();
+  writer.write(crc16(writer.toBytes()), 16);
+
+  return writer.toBytes();
+}
+
+/**
+ * Metadata block header
+ *
+ * @param type - Block type (0 = STREAMINFO, 4 = VORBIS_COMMENT)
+ * @param length - Block length in bytes
+ * @param last - Whether it is the last metadata block
+ * @returns Four header bytes
+ */
+function metadataHeader(type: number, length: number, last: boolean): Uint8Array {
+  return new Uint8Array([(last ? 0x80 : 0) | type, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]);
+}
+
+/**
+ * Vorbis comment block: vendor string, then KEY=value comments, with little-endian lengths
+ * (shared by FLAC and the OpusTags header)
+ *
+ * @param vendor - Name of the encoder
+ * @param tags - Comments by field name
+ * @returns Block body
+ */
+export function vorbisComment(vendor: string, tags: Record<string, string>): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const vendorBytes = encoder.encode(vendor);
+  const comments = Object.entries(tags).map(([key, value]) => encoder.encode(`${key.toUpperCase()}=${value}`));
+
+  const body = new Uint8Array(8 + vendorBytes.length + comments.reduce((size, field) => size + 4 + field.length, 0));
+  const view = new DataView(body.buffer);
+  view.setUint32(0, vendorBytes.length, true);
+  body.set(vendorBytes, 4);
+  let offset = 4 + vendorBytes.length;
+  view.setUint32(offset, comments.length, true);
+  offset += 4;
+  for (const field of comments) {
+    view.setUint32(offset, field.length, true);
+    body.set(field, offset + 4);
+    offset += 4 + field.length;
+  }
+  return body;
+}
+
+/**
+ * Encode integer PCM as a FLAC file
+ * [EARS: FLAC-001] Lossless: fixed predictors, partitioned Rice residuals, stereo decorrelation
+ * [EARS: FLAC-002] STREAMINFO with the MD5 of the audio, and a Vorbis comment block with the tags
+ *
+ * @param channels - Samples per channel (signed, within the sample size)
+ * @param sampleRate - Sample rate in Hz
+ * @param bitsPerSample - Sample size (16 or 24)
+ * @param tags - Vorbis comments, e.g. { TITLE: 'Ave Verum' }
+ * @returns FLAC file
+ */
+export function encodeFlac(
+  channels: Int32Array[],
+  sampleRate: number,
+  bitsPerSample: 16 | 24,
+  tags: Record<string, string> = {}
+): Uint8Array<ArrayBuffer> {
+  const totalSamples = channels[0]?.length ?? 0;
+  const bytesPerSample = bitsPerSample / 8;
+
+  // MD5 of the samples, interleaved little-endian
+  const pcm = new Uint8Array(totalSamples * channels.length * bytesPerSample);
+  let offset = 0;
+  for (let i = 0; i < totalSamples; i++) {
+    for (const data of channels) {
+      const sample = data[i] ?? 0;
+      for (let byte = 0; byte < bytesPerSample; byte++) {
+        pcm[offset++] = (sample >> (8 * byte)) & 0xff;
+      }
+    }
+  }
+  const digest = md5(pcm);
+
+  const frames: Uint8Array[] = [];
+  for (let start = 0, frameNumber = 0; start < totalSamples; start += BLOCK_SIZE, frameNumber++) {
+    const block = channels.map(data => data.subarray(start, start + BLOCK_SIZE));
+    frames.push(encodeFrame(block, frameNumber, sampleRate, bitsPerSample));
+  }
+
+  // STREAMINFO
+  const streamInfo = new BitWriter();
+  const blockSize = Math.max(16, Math.min(BLOCK_SIZE, totalSamples));
+  streamInfo.write(blockSize, 16); // Minimum block size
+  streamInfo.write(blockSize, 16); // Maximum block size
+  streamInfo.write(frames.length > 0 ? Math.min(...frames.map(frame => frame.length)) : 0, 24);
+  streamInfo.write(frames.length > 0 ? Math.max(...frames.map(frame => frame.length)) : 0, 24);
+  streamInfo.write(sampleRate, 20);
+  streamInfo.write(channels.length - 1, 3);
+  streamInfo.write(bitsPerSample - 1, 5);
+  streamInfo.write(totalSamples, 36);
+  const streamInfoBytes = streamInfo.toBytes();
+
+  const comment = vorbisComment(FLAC_VENDOR, tags);
+  const parts = [
+    new TextEncoder().encode('fLaC'),
+    metadataHeader(0, streamInfoBytes.length + digest.length, false),
+    streamInfoBytes,
+    digest,
+    metadataHeader(4, comment.length, true),
+    comment,
+    ...frames,
+  ];
+
+  const file = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    file.set(part, position);
+    position += part.length;
+  }
+  return file;
+}
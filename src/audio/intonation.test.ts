@@ -0,0 +1,142 @@
+import { describe, test, expect } from 'vitest';
+import { getPitchAtTime, getAudibleTracks, getVoicePitches, compareIntervals } from './intonation';
+import type { Track, VoicePart } from '@/store/types';
+
+function makeTrack(id: string, overrides: Partial<Track> = {}): Track {
+  return {
+    id,
+    voicePartType: 'S',
+    name: id,
+    audioBlob: new Blob(),
+    duration: 1,
+    volume: 100,
+    muted: false,
+    soloed: false,
+    waveformData: [],
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function makePart(type: VoicePart['type'], overrides: Partial<VoicePart> = {}): VoicePart {
+  return { type, label: type, expanded: true, tracks: [], ...overrides };
+}
+
+const cents = (frequency: number, offset: number) => frequency * Math.pow(2, offset / 1200);
+
+describe('INTON-001: Sung pitches at the playhead', () => {
+  const pitchContour = { frameDuration: 0.02, frequencies: [220, 221, null, 222] };
+
+  // ✅ Happy path
+  test('reads the contour frame nearest the time', () => {
+    expect(getPitchAtTime(pitchContour, 0)).toBe(220);
+    expect(getPitchAtTime(pitchContour, 0.021)).toBe(221);
+    expect(getPitchAtTime(pitchContour, 0.055)).toBe(222);
+  });
+
+  test('reads each audible track at its own start offset, lowest first', () => {
+    const tracks = [
+      makeTrack('S1', { pitchContour: { frameDuration: 0.02, frequencies: [440, 440, 440] } }),
+      makeTrack('B1', { startOffset: 1, pitchContour: { frameDuration: 0.02, frequencies: [110, 111] } }),
+    ];
+
+    expect(getVoicePitches(tracks, 0.02)).toEqual([{ trackId: 'S1', frequency: 440 }]);
+    expect(getVoicePitches(tracks, 1.02)).toEqual([{ trackId: 'B1', frequency: 111 }]);
+  });
+
+  test('only hears soloed tracks when any track is soloed', () => {
+    const tracks = [makeTrack('S1', { soloed: true }), makeTrack('A1', { muted: true, soloed: true }), makeTrack('T1')];
+
+    expect(getAudibleTracks(tracks).map(track => track.id)).toEqual(['S1', 'A1']);
+  });
+
+  // ⚠️ Negative cases
+  test('leaves out muted, silent and unanalyzed tracks', () => {
+    const tracks = [
+      makeTrack('S1', { muted: true, pitchContour: { frameDuration: 0.02, frequencies: [440] } }),
+      makeTrack('A1', { pitchContour: { frameDuration: 0.02, frequencies: [null] } }),
+      makeTrack('T1'),
+    ];
+
+    expect(getVoicePitches(tracks, 0)).toEqual([]);
+  });
+
+  test('leaves out tracks of a muted voice part', () => {
+    const tracks = [
+      makeTrack('S1', { pitchContour: { frameDuration: 0.02, frequencies: [440] } }),
+      makeTrack('B1', { voicePartType: 'B', pitchContour: { frameDuration: 0.02, frequencies: [110] } }),
+    ];
+    const voiceParts = [makePart('S', { muted: true }), makePart('B')];
+
+    expect(getVoicePitches(tracks, 0, voiceParts)).toEqual([{ trackId: 'B1', frequency: 110 }]);
+  });
+
+  // 🔥 Edge cases
+  test('only hears soloed voice parts when any part is soloed', () => {
+    const tracks = [makeTrack('S1'), makeTrack('A1', { voicePartType: 'A' }), makeTrack('B1', { voicePartType: 'B' })];
+    const voiceParts = [makePart('S'), makePart('A', { soloed: true }), makePart('B', { muted: true, soloed: true })];
+
+    expect(getAudibleTracks(tracks, voiceParts).map(track => track.id)).toEqual(['A1', 'B1']);
+  });
+
+  test('has no pitch before or after the recording', () => {
+    expect(getPitchAtTime(pitchContour, -0.1)).toBeNull();
+    expect(getPitchAtTime(pitchContour, 5)).toBeNull();
+  });
+});
+
+describe('INTON-002: Intervals against pure', () => {
+  // ✅ Happy path
+  test('measures a pure major third as in tune', () => {
+    const [reading] = compareIntervals([
+      { trackId: 'A1', frequency: 400 },
+      { trackId: 'S1', frequency: 500 },
+    ]);
+
+    expect(reading).toMatchObject({ lowerTrackId: 'A1', upperTrackId: 'S1', name: 'M3', flagged: false });
+    expect(reading!.cents).toBeCloseTo(386.31, 2);
+    expect(reading!.deviation).toBeCloseTo(0, 5);
+  });
+
+  test('flags an equal-tempered major third as wide', () => {
+    const [reading] = compareIntervals([
+      { trackId: 'A1', frequency: 400 },
+      { trackId: 'S1', frequency: cents(400, 400) },
+    ]);
+
+    expect(reading!.deviation).toBeCloseTo(13.69, 2);
+    expect(reading!.flagged).toBe(true);
+  });
+
+  test('compares every pair of voices', () => {
+    const readings = compareIntervals([
+      { trackId: 'B1', frequency: 100 },
+      { trackId: 'T1', frequency: 150 },
+      { trackId: 'S1', frequency: 250 },
+    ]);
+
+    expect(readings.map(r => `${r.lowerTrackId}-${r.upperTrackId} ${r.name}`)).toEqual([
+      'B1-T1 P5',
+      'B1-S1 M3', // Compound major third (major tenth)
+      'T1-S1 M6',
+    ]);
+    expect(readings.every(r => !r.flagged)).toBe(true);
+  });
+
+  // ⚠️ Negative cases
+  test('has no intervals for a single voice', () => {
+    expect(compareIntervals([{ trackId: 'S1', frequency: 440 }])).toEqual([]);
+  });
+
+  // 🔥 Edge cases
+  test('uses the given threshold', () => {
+    const pitches = [
+      { trackId: 'B1', frequency: 100 },
+      { trackId: 'T1', frequency: cents(150, -8) },
+    ];
+
+    expect(compareIntervals(pitches)[0]!.flagged).toBe(false);
+    expect(compareIntervals(pitches, 5)[0]!.flagged).toBe(true);
+    expect(compareIntervals(pitches)[0]!.deviation).toBeCloseTo(-8, 5);
+  });
+});
@@ -0,0 +1,115 @@
+// [EARS: INTON-001, INTON-002] Tuning between voice parts from their pitch contours
+
+import { JUST_RATIOS } from './pitch';
+import type { PitchContour, Track, VoicePart } from '@/store/types';
+
+// [EARS: INTON-002] Intervals further than this from pure are flagged by default
+export const DEFAULT_INTONATION_THRESHOLD = 10; // Cents
+
+// Interval names within an octave, by semitones
+export const INTERVAL_NAMES = ['P1', 'm2', 'M2', 'm3', 'M3', 'P4', 'TT', 'P5', 'm6', 'M6', 'm7', 'M7'];
+
+export interface VoicePitch {
+  trackId: string;
+  frequency: number; // Hz
+}
+
+export interface IntervalReading {
+  lowerTrackId: string;
+  upperTrackId: string;
+  cents: number; // Sung interval, lower to upper
+  name: string; // Nearest interval, e.g. 'M3' (compound intervals are named within the octave)
+  deviation: number; // Cents from the pure interval (positive = wide)
+  flagged: boolean; // Deviation beyond the threshold
+}
+
+/**
+ * Get the sung pitch at a point in a recording
+ * [EARS: INTON-001] The contour frame nearest the time
+ *
+ * @param pitchContour - Pitch contour of the track audio
+ * @param time - Seconds from the start of the track audio
+ * @returns Frequency in Hz, or null when nothing pitched is sung there
+ */
+export function getPitchAtTime(pitchContour: PitchContour, time: number): number | null {
+  if (time < 0) return null;
+  return pitchContour.frequencies[Math.round(time / pitchContour.frameDuration)] ?? null;
+}
+
+/**
+ * Get the tracks that would be heard on playback
+ * [EARS: INTON-001] Same rule as the mixer: soloed tracks only, otherwise every unmuted track
+ * [EARS: BUS-005] Voice parts follow the same rule one level up
+ *
+ * @param tracks - All project tracks
+ * @param voiceParts - Voice parts with their mute and solo (none = every part heard)
+ * @returns Audible tracks
+ */
+export function getAudibleTracks(tracks: Track[], voiceParts: VoicePart[] = []): Track[] {
+  const hasSolo = tracks.some(track => track.soloed);
+  const hasPartSolo = voiceParts.some(voicePart => voicePart.soloed);
+  const isPartAudible = (track: Track) => {
+    const voicePart = voiceParts.find(vp => vp.type === track.voicePartType);
+    return !voicePart || (hasPartSolo ? !!voicePart.soloed : !voicePart.muted);
+  };
+  return tracks.filter(track => isPartAudible(track) && (hasSolo ? track.soloed : !track.muted));
+}
+
+/**
+ * Get the pitch each audible track is singing at a timeline position
+ * [EARS: INTON-001] Tracks without a contour, or silent at that point, are left out
+ *
+ * @param tracks - All project tracks
+ * @param time - Seconds from timeline start
+ * @param voiceParts - Voice parts with their mute and solo
+ * @returns Voice pitches, lowest first
+ */
+export function getVoicePitches(tracks: Track[], time: number, voiceParts: VoicePart[] = []): VoicePitch[] {
+  const pitches: VoicePitch[] = [];
+  for (const track of getAudibleTracks(tracks, voiceParts)) {
+    if (!track.pitchContour) continue;
+    const frequency = getPitchAtTime(track.pitchContour, time - (track.startOffset ?? 0));
+    if (frequency !== null) {
+      pitches.push({ trackId: track.id, frequency });
+    }
+  }
+  return pitches.sort((a, b) => a.frequency - b.frequency);
+}
+
+/**
+ * Measure every interval between sung pitches against pure intervals
+ * [EARS: INTON-002]
+ *
+ * @param pitches - Voice pitches, lowest first
+ * @param threshold - Cents from pure beyond which an interval is flagged
+ * @returns One reading per pair of voices
+ */
+export function compareIntervals(
+  pitches: VoicePitch[],
+  threshold: number = DEFAULT_INTONATION_THRESHOLD
+): IntervalReading[] {
+  const readings: IntervalReading[] = [];
+
+  pitches.forEach((lower, i) => {
+    for (const upper of pitches.slice(i + 1)) {
+      const cents = 1200 * Math.log2(upper.frequency / lower.frequency);
+      const semitones = Math.round(cents / 100);
+      const octaves = Math.floor(semitones / 12);
+      const interval = semitones - 12 * octaves;
+      // [EARS: INTON-002] Pure means the 5-limit just ratio
+      const pureCents = 1200 * (octaves + Math.log2(JUST_RATIOS[interval] ?? 1));
+      const deviation = cents - pureCents;
+
+      readings.push({
+        lowerTrackId: lower.trackId,
+        upperTrackId: upper.trackId,
+        cents,
+        name: INTERVAL_NAMES[interval] ?? '?',
+        deviation,
+        flagged: Math.abs(deviation) > threshold,
+      });
+    }
+  });
+
+  return readings;
+}
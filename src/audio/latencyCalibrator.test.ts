@@ -0,0 +1,146 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LatencyCalibrator, detectClickOnsets, matchClicksToOnsets } from './latencyCalibrator';
+
+const SAMPLE_RATE = 1000;
+const CONTEXT_START = 10;
+
+/**
+ * Build a recording with short clicks at the given times (seconds from start)
+ */
+function buildRecording(clickOffsets: number[], length: number): Float32Array {
+  const samples = new Float32Array(length);
+  for (const offset of clickOffsets) {
+    const start = Math.round(offset * SAMPLE_RATE);
+    for (let i = start; i < start + 5 && i < length; i++) {
+      samples[i] = 0.8;
+    }
+  }
+  return samples;
+}
+
+describe('LAT-002: Click onset detection', () => {
+  // ✅ Happy path
+  test('detects one onset per click', () => {
+    const samples = buildRecording([0.1, 0.3, 0.5], 1000);
+
+    const onsets = detectClickOnsets(samples, SAMPLE_RATE, 0.05);
+
+    expect(onsets).toEqual([0.1, 0.3, 0.5]);
+  });
+
+  test('ignores low-level noise relative to the click peak', () => {
+    const samples = buildRecording([0.2], 1000);
+    samples[50] = 0.1;
+
+    const onsets = detectClickOnsets(samples, SAMPLE_RATE, 0.05);
+
+    expect(onsets).toEqual([0.2]);
+  });
+
+  // 🔥 Edge cases
+  test('returns no onsets for a silent recording', () => {
+    const onsets = detectClickOnsets(new Float32Array(1000), SAMPLE_RATE, 0.05);
+
+    expect(onsets).toEqual([]);
+  });
+
+  test('matches each click to the first onset after it', () => {
+    const latencies = matchClicksToOnsets([1, 2, 3], [1.03, 2.031, 3.029]);
+
+    expect(latencies).toHaveLength(3);
+    expect(latencies[0]).toBeCloseTo(0.03);
+    expect(latencies[1]).toBeCloseTo(0.031);
+    expect(latencies[2]).toBeCloseTo(0.029);
+  });
+
+  test('skips clicks with no onset inside the latency window', () => {
+    const latencies = matchClicksToOnsets([1, 2], [1.04, 2.9]);
+
+    expect(latencies).toHaveLength(1);
+    expect(latencies[0]).toBeCloseTo(0.04);
+  });
+});
+
+describe('LAT-001, LAT-006: Loopback measurement', () => {
+  let recordedSamples: Float32Array;
+  let audioContext: any;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    recordedSamples = new Float32Array(0);
+
+    audioContext = {
+      state: 'running',
+      sampleRate: SAMPLE_RATE,
+      currentTime: CONTEXT_START,
+      destination: {},
+      audioWorklet: { addModule: vi.fn().mockResolvedValue(undefined) },
+      resume: vi.fn(),
+      createMediaStreamSource: vi.fn(() => ({ connect: vi.fn(), disconnect: vi.fn() })),
+      createOscillator: vi.fn(() => ({
+        frequency: { value: 0 },
+        connect: vi.fn(),
+        start: vi.fn(),
+        stop: vi.fn(),
+      })),
+      createGain: vi.fn(() => ({
+        gain: { setValueAtTime: vi.fn(), linearRampToValueAtTime: vi.fn() },
+        connect: vi.fn(),
+      })),
+    };
+
+    global.AudioWorkletNode = function(this: any) {
+      const port: any = {
+        onmessage: null,
+        postMessage: (data: any) => {
+          if (data.command === 'stop') {
+            port.onmessage?.({
+              data: { samples: [recordedSamples], sampleRate: SAMPLE_RATE, startTime: CONTEXT_START },
+            });
+          }
+        },
+      };
+      return { port, connect: vi.fn(), disconnect: vi.fn() };
+    } as any;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // ✅ Happy path
+  test('reports the median round-trip latency', async () => {
+    // Clicks are scheduled at 0.5s, 0.6s, 0.7s after start; heard 30-32ms later
+    recordedSamples = buildRecording([0.53, 0.632, 0.73], 1500);
+    const calibrator = new LatencyCalibrator(audioContext, { clickCount: 3, clickInterval: 0.1 });
+
+    const promise = calibrator.measure({} as MediaStream);
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(result.measurements).toHaveLength(3);
+    expect(result.latency).toBeCloseTo(0.03, 3);
+  });
+
+  test('schedules one click per requested count', async () => {
+    recordedSamples = buildRecording([0.53, 0.63, 0.73], 1500);
+    const calibrator = new LatencyCalibrator(audioContext, { clickCount: 3, clickInterval: 0.1 });
+
+    const promise = calibrator.measure({} as MediaStream);
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(audioContext.createOscillator).toHaveBeenCalledTimes(3);
+  });
+
+  // ⚠️ Negative cases
+  test('throws when the clicks are not heard', async () => {
+    recordedSamples = new Float32Array(1500);
+    const calibrator = new LatencyCalibrator(audioContext, { clickCount: 3, clickInterval: 0.1 });
+
+    const promise = calibrator.measure({} as MediaStream);
+    const assertion = expect(promise).rejects.toThrow('Calibration clicks not detected');
+    await vi.runAllTimersAsync();
+    await assertion;
+  });
+});
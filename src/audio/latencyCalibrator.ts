@@ -0,0 +1,224 @@
+// [EARS: LAT-001, LAT-002, LAT-006] Round-trip latency calibration via loopback click
+
+import { flattenSamples } from './recorder';
+
+const DEFAULT_CLICK_COUNT = 6;
+const DEFAULT_CLICK_INTERVAL = 0.5; // Seconds between clicks
+const LEAD_IN = 0.5; // Seconds of silence before the first click
+const CLICK_DURATION = 0.01; // Seconds
+const CLICK_FREQUENCY = 1000; // Hz
+const MAX_LATENCY = 0.5; // Seconds - anything later is not our click
+const MIN_PEAK_LEVEL = 0.02; // Below this the mic did not hear the speakers
+const ONSET_THRESHOLD_RATIO = 0.5; // Onset threshold relative to peak level
+const MIN_VALID_CLICKS = 3;
+
+export interface CalibrationOptions {
+  clickCount?: number;
+  clickInterval?: number; // Seconds
+}
+
+export interface CalibrationResult {
+  latency: number; // Median round-trip latency in seconds
+  measurements: number[]; // Per-click latency in seconds
+}
+
+/**
+ * Detect click onsets in a recorded signal
+ * [EARS: LAT-002] Find where each loopback click arrives at the microphone
+ *
+ * @param samples - Recorded mono samples
+ * @param sampleRate - Sample rate in Hz
+ * @param minGap - Minimum time between onsets in seconds
+ * @returns Onset times in seconds from the start of the recording
+ */
+export function detectClickOnsets(samples: Float32Array, sampleRate: number, minGap: number): number[] {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i] ?? 0);
+    if (value > peak) {
+      peak = value;
+    }
+  }
+
+  if (peak < MIN_PEAK_LEVEL) {
+    return [];
+  }
+
+  const threshold = peak * ONSET_THRESHOLD_RATIO;
+  const gapSamples = Math.max(1, Math.floor(minGap * sampleRate));
+  const onsets: number[] = [];
+
+  let i = 0;
+  while (i < samples.length) {
+    if (Math.abs(samples[i] ?? 0) >= threshold) {
+      onsets.push(i / sampleRate);
+      i += gapSamples;
+    } else {
+      i++;
+    }
+  }
+
+  return onsets;
+}
+
+/**
+ * Match scheduled clicks to detected onsets
+ * [EARS: LAT-002] Per-click latency is the delay to the first onset after each click
+ *
+ * @param clickTimes - Times the clicks were scheduled (seconds)
+ * @param onsetTimes - Times the clicks were heard (seconds, same clock)
+ * @returns Latency for every click that was heard within MAX_LATENCY
+ */
+export function matchClicksToOnsets(clickTimes: number[], onsetTimes: number[]): number[] {
+  const latencies: number[] = [];
+
+  for (const clickTime of clickTimes) {
+    const onset = onsetTimes.find(t => t >= clickTime && t - clickTime <= MAX_LATENCY);
+    if (onset !== undefined) {
+      latencies.push(onset - clickTime);
+    }
+  }
+
+  return latencies;
+}
+
+/**
+ * Median of a list of numbers (robust against a stray onset)
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  if (sorted.length % 2 === 0) {
+    return ((sorted[mid - 1] ?? 0) + (sorted[mid] ?? 0)) / 2;
+  }
+  return sorted[mid] ?? 0;
+}
+
+/**
+ * Measures output+input latency by playing clicks through the speakers and
+ * recording them back through the microphone on the same AudioContext clock
+ * [EARS: LAT-001, LAT-002, LAT-006]
+ */
+export class LatencyCalibrator {
+  private audioContext: AudioContext;
+  private clickCount: number;
+  private clickInterval: number;
+  private recorderNode: AudioWorkletNode | null = null;
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+
+  /**
+   * Create a new LatencyCalibrator
+   *
+   * @param audioContext - AudioContext used for both click output and capture
+   * @param options - Optional click count and spacing
+   */
+  constructor(audioContext: AudioContext, options?: CalibrationOptions) {
+    this.audioContext = audioContext;
+    this.clickCount = options?.clickCount ?? DEFAULT_CLICK_COUNT;
+    this.clickInterval = options?.clickInterval ?? DEFAULT_CLICK_INTERVAL;
+  }
+
+  /**
+   * Run a calibration pass
+   * [EARS: LAT-001, LAT-002] Play clicks, capture the loopback, compute median latency
+   * [EARS: LAT-006] Fail when the clicks are not heard reliably
+   *
+   * @param stream - MediaStream from the microphone being calibrated
+   * @returns Measured latency
+   * @throws Error if too few clicks were detected
+   */
+  async measure(stream: MediaStream): Promise<CalibrationResult> {
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+
+    try {
+      await this.audioContext.audioWorklet.addModule('/recorder-processor.js');
+    } catch {
+      // Module might already be loaded, ignore error
+    }
+
+    const recorderNode = new AudioWorkletNode(this.audioContext, 'recorder-processor');
+    this.recorderNode = recorderNode;
+    this.sourceNode = this.audioContext.createMediaStreamSource(stream);
+    this.sourceNode.connect(recorderNode);
+
+    const recorded = new Promise<{ samples: Float32Array[]; sampleRate: number; startTime: number }>(resolve => {
+      recorderNode.port.onmessage = (event) => resolve(event.data);
+    });
+
+    recorderNode.port.postMessage({
+      command: 'start',
+      sampleRate: this.audioContext.sampleRate,
+    });
+
+    // Schedule clicks on the AudioContext clock
+    const firstClick = this.audioContext.currentTime + LEAD_IN;
+    const clickTimes: number[] = [];
+    for (let i = 0; i < this.clickCount; i++) {
+      const time = firstClick + i * this.clickInterval;
+      this.scheduleClick(time);
+      clickTimes.push(time);
+    }
+
+    // Wait for the last click to make the round trip
+    const totalSeconds = LEAD_IN + this.clickCount * this.clickInterval + MAX_LATENCY;
+    await new Promise(resolve => setTimeout(resolve, totalSeconds * 1000));
+
+    recorderNode.port.postMessage({ command: 'stop' });
+    const { samples, sampleRate, startTime } = await recorded;
+    this.disconnect();
+
+    const allSamples = flattenSamples(samples);
+    const onsets = detectClickOnsets(allSamples, sampleRate, this.clickInterval / 2)
+      .map(t => t + startTime);
+    const measurements = matchClicksToOnsets(clickTimes, onsets);
+
+    if (measurements.length < Math.min(MIN_VALID_CLICKS, this.clickCount)) {
+      throw new Error('Calibration clicks not detected');
+    }
+
+    return {
+      latency: median(measurements),
+      measurements,
+    };
+  }
+
+  /**
+   * Schedule a short sine click at an exact AudioContext time
+   */
+  private scheduleClick(time: number): void {
+    const oscillator = this.audioContext.createOscillator();
+    const gain = this.audioContext.createGain();
+
+    oscillator.frequency.value = CLICK_FREQUENCY;
+    gain.gain.setValueAtTime(1, time);
+    gain.gain.linearRampToValueAtTime(0, time + CLICK_DURATION);
+
+    oscillator.connect(gain);
+    gain.connect(this.audioContext.destination);
+    oscillator.start(time);
+    oscillator.stop(time + CLICK_DURATION);
+  }
+
+  /**
+   * Disconnect capture nodes
+   */
+  private disconnect(): void {
+    if (this.sourceNode) {
+      this.sourceNode.disconnect();
+      this.sourceNode = null;
+    }
+    if (this.recorderNode) {
+      this.recorderNode.disconnect();
+      this.recorderNode = null;
+    }
+  }
+
+  /**
+   * Dispose of resources
+   */
+  dispose(): void {
+    this.disconnect();
+  }
+}
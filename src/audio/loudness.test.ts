@@ -0,0 +1,144 @@
+import { describe, test, expect } from 'vitest';
+import { limitTruePeak, measureIntegratedLoudness, measureTruePeak, normalizeLoudness } from './loudness';
+
+const SAMPLE_RATE = 48000;
+
+function sine(amplitude: number, seconds: number, frequency = 1000): Float32Array {
+  const data = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < data.length; i++) {
+    data[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return data;
+}
+
+function makeBuffer(channels: Float32Array[]): AudioBuffer {
+  return {
+    numberOfChannels: channels.length,
+    length: channels[0]!.length,
+    sampleRate: SAMPLE_RATE,
+    getChannelData: (channel: number) => channels[channel]!,
+  } as unknown as AudioBuffer;
+}
+
+describe('LOUD-001: Integrated loudness', () => {
+  // ✅ Happy path
+  test('reads a -20 dBFS stereo 1 kHz tone as -20 LUFS', () => {
+    expect(measureIntegratedLoudness([sine(0.1, 3), sine(0.1, 3)], SAMPLE_RATE)).toBeCloseTo(-20, 1);
+  });
+
+  test('reads a full-scale 1 kHz tone in one channel as -3 LUFS', () => {
+    expect(measureIntegratedLoudness([sine(1, 3)], SAMPLE_RATE)).toBeCloseTo(-3.01, 1);
+  });
+
+  test('weights low frequencies down', () => {
+    expect(measureIntegratedLoudness([sine(0.1, 3, 30)], SAMPLE_RATE)).toBeLessThan(
+      measureIntegratedLoudness([sine(0.1, 3)], SAMPLE_RATE) - 1
+    );
+  });
+
+  // 🔥 Edge cases
+  test('gates out silence', () => {
+    const tone = sine(0.1, 2);
+    const withSilence = new Float32Array(tone.length * 2);
+    withSilence.set(tone);
+
+    // Averaging the silence in would read 3 LU lower; only the blocks straddling the end of the tone count
+    expect(measureIntegratedLoudness([withSilence], SAMPLE_RATE)).toBeCloseTo(
+      measureIntegratedLoudness([tone], SAMPLE_RATE),
+      0
+    );
+  });
+
+  test('reads silence as -Infinity', () => {
+    expect(measureIntegratedLoudness([new Float32Array(SAMPLE_RATE)], SAMPLE_RATE)).toBe(-Infinity);
+  });
+
+  test('reads audio shorter than one block as -Infinity', () => {
+    expect(measureIntegratedLoudness([sine(0.5, 0.3)], SAMPLE_RATE)).toBe(-Infinity);
+  });
+});
+
+describe('LOUD-002: True peak and limiter', () => {
+  // A quarter-rate tone sampled 45° off its crests: samples reach 0.707, the waveform reaches 1
+  const interSamplePeaks = () => {
+    const data = new Float32Array(SAMPLE_RATE);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.sin((Math.PI / 2) * i + Math.PI / 4);
+    }
+    return data;
+  };
+
+  // ✅ Happy path
+  test('finds peaks between samples', () => {
+    expect(measureTruePeak([interSamplePeaks()])).toBeCloseTo(0, 0);
+  });
+
+  test('matches the sample peak of a slow tone', () => {
+    expect(measureTruePeak([sine(0.5, 1, 100)])).toBeCloseTo(20 * Math.log10(0.5), 1);
+  });
+
+  test('limits the true peak to the ceiling', () => {
+    const channels = [sine(2, 1), interSamplePeaks()];
+
+    limitTruePeak(channels, SAMPLE_RATE, -1);
+
+    expect(measureTruePeak(channels)).toBeLessThanOrEqual(-1 + 1e-3);
+  });
+
+  test('reports the true peak it left', () => {
+    const limited = [sine(2, 1), interSamplePeaks()];
+    const quiet = [sine(0.5, 1)];
+
+    expect(limitTruePeak(limited, SAMPLE_RATE, -1)).toBeCloseTo(measureTruePeak(limited), 3);
+    expect(limitTruePeak(quiet, SAMPLE_RATE, -1)).toBeCloseTo(measureTruePeak(quiet), 3);
+  });
+
+  // 🔥 Edge cases
+  test('leaves audio under the ceiling alone', () => {
+    const data = sine(0.5, 1);
+    const original = data.slice();
+
+    limitTruePeak([data], SAMPLE_RATE, -1);
+
+    expect(data).toEqual(original);
+  });
+
+  test('reads silence as -Infinity dBTP', () => {
+    expect(measureTruePeak([new Float32Array(100)])).toBe(-Infinity);
+  });
+});
+
+describe('LOUD-003: Loudness normalization', () => {
+  // ✅ Happy path
+  test('brings a quiet mix to the target', () => {
+    const buffer = makeBuffer([sine(0.01, 3), sine(0.01, 3)]);
+
+    const report = normalizeLoudness(buffer, -16);
+
+    expect(report.inputLufs).toBeCloseTo(-40, 1);
+    expect(report.gainDb).toBeCloseTo(24, 1);
+    expect(report.outputLufs).toBeCloseTo(-16, 1);
+    expect(report.truePeakDbtp).toBeCloseTo(-16, 0);
+  });
+
+  test('limits when the target would push peaks over the ceiling', () => {
+    const buffer = makeBuffer([sine(0.1, 3), sine(0.1, 3)]);
+
+    const report = normalizeLoudness(buffer, 0);
+
+    expect(report.truePeakDbtp).toBeLessThanOrEqual(-1 + 1e-3);
+    expect(report.outputLufs).toBeLessThan(0);
+    expect(report.outputLufs).toBeGreaterThan(-2);
+  });
+
+  // 🔥 Edge cases
+  test('leaves silence alone', () => {
+    const buffer = makeBuffer([new Float32Array(SAMPLE_RATE)]);
+
+    const report = normalizeLoudness(buffer, -16);
+
+    expect(report.inputLufs).toBe(-Infinity);
+    expect(report.gainDb).toBe(0);
+    expect(buffer.getChannelData(0).every((sample) => sample === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,315 @@
+// [EARS: LOUD-001, LOUD-002, LOUD-003] Integrated loudness (ITU-R BS.1770-4), true peak and a true-peak limiter
+
+export interface LoudnessReport {
+  inputLufs: number; // Integrated loudness before normalization (-Infinity for silence)
+  outputLufs: number; // Integrated loudness of the exported audio
+  truePeakDbtp: number; // True peak of the exported audio
+  gainDb: number; // Gain applied before limiting
+}
+
+// Export loudness targets in LUFS, quietest first
+export const LOUDNESS_TARGETS = [-23, -16, -14];
+
+export const DEFAULT_TRUE_PEAK_CEILING = -1; // dBTP
+
+const BLOCK_SECONDS = 0.4; // Gating block
+const BLOCK_STEP_SECONDS = 0.1; // 75% overlap
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU below the absolute-gated loudness
+
+const OVERSAMPLING = 4;
+const INTERPOLATION_RADIUS = 6; // Input samples either side of an interpolated point
+
+const LIMITER_ATTACK_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.1;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * K-weighting filter stages for a sample rate (pre-filter shelf, then RLB high-pass)
+ * Coefficients are derived from the analog prototypes so every sample rate matches the 48 kHz reference
+ *
+ * @param sampleRate - Sample rate in Hz
+ * @returns The two filter stages
+ */
+function kWeightingStages(sampleRate: number): [Biquad, Biquad] {
+  // Stage 1: high shelf, about +4 dB above 1.5 kHz (head diffraction)
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+  const shelf: Biquad = {
+    b0: (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+    b1: (2 * (shelfK * shelfK - vh)) / shelfA0,
+    b2: (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+    a1: (2 * (shelfK * shelfK - 1)) / shelfA0,
+    a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+  };
+
+  // Stage 2: high-pass around 38 Hz (revised low-frequency B-curve)
+  const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (passK * passK - 1)) / passA0,
+    a2: (1 - passK / passQ + passK * passK) / passA0,
+  };
+
+  return [shelf, highPass];
+}
+
+/**
+ * Run a biquad over a signal (direct form I)
+ *
+ * @param input - Input samples
+ * @param filter - Filter coefficients
+ * @returns Filtered samples
+ */
+function applyBiquad(input: Float32Array, filter: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i] ?? 0;
+    const y = filter.b0 * x + filter.b1 * x1 + filter.b2 * x2 - filter.a1 * y1 - filter.a2 * y2;
+    output[i] = y;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+  }
+  return output;
+}
+
+/**
+ * Integrated loudness of a programme
+ * [EARS: LOUD-001] K-weighted mean square over 400ms blocks, gated at -70 LUFS and then 10 LU below the gated loudness
+ *
+ * @param channels - Sample data per channel (left and right weigh the same)
+ * @param sampleRate - Sample rate in Hz
+ * @returns Loudness in LUFS, or -Infinity if nothing passes the gates (silence, or shorter than one block)
+ */
+export function measureIntegratedLoudness(channels: Float32Array[], sampleRate: number): number {
+  const [shelf, highPass] = kWeightingStages(sampleRate);
+  const weighted = channels.map((data) => applyBiquad(applyBiquad(data, shelf), highPass));
+
+  const blockLength = Math.round(BLOCK_SECONDS * sampleRate);
+  const step = Math.round(BLOCK_STEP_SECONDS * sampleRate);
+  const length = weighted[0]?.length ?? 0;
+
+  // Mean square of each block, summed over channels
+  const blockPowers: number[] = [];
+  for (let start = 0; start + blockLength <= length; start += step) {
+    let power = 0;
+    for (const data of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockLength; i++) {
+        const sample = data[i] ?? 0;
+        sum += sample * sample;
+      }
+      power += sum / blockLength;
+    }
+    blockPowers.push(power);
+  }
+
+  const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const aboveAbsolute = blockPowers.filter((power) => toLufs(power) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) {
+    return -Infinity;
+  }
+
+  const relativeGate = toLufs(mean(aboveAbsolute)) + RELATIVE_GATE;
+  const gated = aboveAbsolute.filter((power) => toLufs(power) > relativeGate);
+  return toLufs(mean(gated));
+}
+
+// Windowed-sinc interpolation taps for each fractional position between two samples
+let interpolationTaps: Float32Array[] | null = null;
+
+function getInterpolationTaps(): Float32Array[] {
+  if (!interpolationTaps) {
+    interpolationTaps = [];
+    for (let phase = 1; phase < OVERSAMPLING; phase++) {
+      const fraction = phase / OVERSAMPLING;
+      const taps = new Float32Array(2 * INTERPOLATION_RADIUS);
+      for (let k = 0; k < taps.length; k++) {
+        const t = k - (INTERPOLATION_RADIUS - 1) - fraction; // Distance from sample i + 1 - radius + k
+        const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+        const window = 0.5 + 0.5 * Math.cos((Math.PI * t) / INTERPOLATION_RADIUS); // Hann
+        taps[k] = sinc * window;
+      }
+      interpolationTaps.push(taps);
+    }
+  }
+  return interpolationTaps;
+}
+
+/**
+ * Highest absolute level of each sample and the reconstructed waveform just after it (4x oversampled)
+ *
+ * @param channels - Sample data per channel
+ * @returns Peak per sample across all channels (linear)
+ */
+function truePeakEnvelope(channels: Float32Array[]): Float32Array {
+  const taps = getInterpolationTaps();
+  const length = channels[0]?.length ?? 0;
+  const envelope = new Float32Array(length);
+
+  for (const data of channels) {
+    for (let i = 0; i < length; i++) {
+      let peak = Math.abs(data[i] ?? 0);
+      for (const phaseTaps of taps) {
+        let value = 0;
+        const first = i + 1 - INTERPOLATION_RADIUS;
+        for (let k = 0; k < phaseTaps.length; k++) {
+          value += (data[first + k] ?? 0) * (phaseTaps[k] ?? 0);
+        }
+        peak = Math.max(peak, Math.abs(value));
+      }
+      envelope[i] = Math.max(envelope[i] ?? 0, peak);
+    }
+  }
+
+  return envelope;
+}
+
+/**
+ * True peak of a programme
+ * [EARS: LOUD-002] Peak of the 4x oversampled waveform, catching inter-sample peaks
+ *
+ * @param channels - Sample data per channel
+ * @returns True peak in dBTP (-Infinity for silence)
+ */
+export function measureTruePeak(channels: Float32Array[]): number {
+  const envelope = truePeakEnvelope(channels);
+  let peak = 0;
+  for (let i = 0; i < envelope.length; i++) {
+    peak = Math.max(peak, envelope[i] ?? 0);
+  }
+  return 20 * Math.log10(peak);
+}
+
+/**
+ * Keep the true peak under a ceiling
+ * [EARS: LOUD-002] Look-ahead limiter: gain ramps down before a peak and recovers after it
+ *
+ * @param channels - Sample data per channel, limited in place
+ * @param sampleRate - Sample rate in Hz
+ * @param ceilingDbtp - Highest true peak allowed
+ * @returns True peak after limiting in dBTP (-Infinity for silence)
+ */
+export function limitTruePeak(channels: Float32Array[], sampleRate: number, ceilingDbtp: number): number {
+  const ceiling = Math.pow(10, ceilingDbtp / 20);
+  const envelope = truePeakEnvelope(channels);
+  const length = envelope.length;
+
+  // Already under the ceiling: nothing to limit, and the envelope is the true peak
+  let inputPeak = 0;
+  for (let i = 0; i < length; i++) {
+    inputPeak = Math.max(inputPeak, envelope[i] ?? 0);
+  }
+  if (inputPeak <= ceiling) {
+    return 20 * Math.log10(inputPeak);
+  }
+
+  // Gain each sample needs, widened to every sample the interpolation reads
+  const needed = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const peak = envelope[i] ?? 0;
+    needed[i] = peak > ceiling ? ceiling / peak : 1;
+  }
+  const gain = new Float32Array(length).fill(1);
+  for (let i = 0; i < length; i++) {
+    const from = Math.max(0, i - INTERPOLATION_RADIUS);
+    const to = Math.min(length - 1, i + INTERPOLATION_RADIUS);
+    let min = 1;
+    for (let j = from; j <= to; j++) {
+      min = Math.min(min, needed[j] ?? 1);
+    }
+    gain[i] = min;
+  }
+
+  // Both passes only lower the gain, so it never exceeds what a sample needs
+  const attackStep = 1 / Math.max(1, Math.round(LIMITER_ATTACK_SECONDS * sampleRate));
+  for (let i = length - 2; i >= 0; i--) {
+    gain[i] = Math.min(gain[i] ?? 1, (gain[i + 1] ?? 1) + attackStep);
+  }
+  const releaseStep = 1 / Math.max(1, Math.round(LIMITER_RELEASE_SECONDS * sampleRate));
+  for (let i = 1; i < length; i++) {
+    gain[i] = Math.min(gain[i] ?? 1, (gain[i - 1] ?? 1) + releaseStep);
+  }
+
+  for (const data of channels) {
+    for (let i = 0; i < length; i++) {
+      data[i] = (data[i] ?? 0) * (gain[i] ?? 1);
+    }
+  }
+
+  // Gain changes between neighbouring samples can leave a trace over the ceiling; trim it.
+  // The true peak scales with the trim, so it ends exactly on the ceiling.
+  const remaining = measureTruePeak(channels);
+  if (remaining > ceilingDbtp) {
+    const trim = Math.pow(10, (ceilingDbtp - remaining) / 20);
+    for (const data of channels) {
+      for (let i = 0; i < data.length; i++) {
+        data[i] = (data[i] ?? 0) * trim;
+      }
+    }
+    return ceilingDbtp;
+  }
+  return remaining;
+}
+
+/**
+ * Bring a buffer to a loudness target without exceeding the true-peak ceiling
+ * [EARS: LOUD-001, LOUD-002, LOUD-003] Gain to the target, then the limiter; the result is measured again
+ *
+ * @param buffer - Audio to normalize in place
+ * @param targetLufs - Integrated loudness target
+ * @param ceilingDbtp - True-peak ceiling (default -1 dBTP)
+ * @returns Measured loudness before and after, true peak and gain
+ */
+export function normalizeLoudness(
+  buffer: AudioBuffer,
+  targetLufs: number,
+  ceilingDbtp: number = DEFAULT_TRUE_PEAK_CEILING
+): LoudnessReport {
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    channels.push(buffer.getChannelData(channel));
+  }
+
+  const inputLufs = measureIntegratedLoudness(channels, buffer.sampleRate);
+
+  // Silence (or audio too short to measure) is left at its level
+  const gainDb = Number.isFinite(inputLufs) ? targetLufs - inputLufs : 0;
+  const gain = Math.pow(10, gainDb / 20);
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      data[i] = (data[i] ?? 0) * gain;
+    }
+  }
+
+  const truePeakDbtp = limitTruePeak(channels, buffer.sampleRate, ceilingDbtp);
+
+  return {
+    inputLufs,
+    outputLufs: measureIntegratedLoudness(channels, buffer.sampleRate),
+    truePeakDbtp,
+    gainDb,
+  };
+}
@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Metronome } from './metronome';
 import * as Tone from 'tone';
+import { TempoMap } from './tempoMap';
 
 describe('MET-001: Metronome initialization', () => {
   let metronome: Metronome;
@@ -229,6 +230,306 @@ describe('MET-006, MET-007: Start, stop, and sync', () => {
   });
 });
 
+describe('CNT-003: Audible click', () => {
+  let metronome: Metronome;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(Tone.getTransport().scheduleRepeat).mockClear();
+    metronome = new Metronome();
+  });
+
+  afterEach(() => {
+    metronome.dispose();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Fire the most recently scheduled click callback
+   */
+  const fireBeat = () => {
+    const calls = vi.mocked(Tone.getTransport().scheduleRepeat).mock.calls;
+    calls[calls.length - 1]![0](1.5);
+  };
+
+  // ✅ Happy path
+  test('schedules a click on every beat when enabled', () => {
+    metronome.setClickEnabled(true);
+    metronome.start();
+
+    // One quarter note in transport ticks
+    expect(Tone.getTransport().scheduleRepeat).toHaveBeenCalledWith(expect.any(Function), '192i');
+  });
+
+  test('accents the first beat of each bar', () => {
+    const trigger = vi.spyOn(Tone.Synth.prototype, 'triggerAttackRelease');
+    metronome.setBeatsPerBar(3);
+    metronome.setClickEnabled(true);
+    metronome.start();
+
+    for (let i = 0; i < 4; i++) fireBeat();
+
+    const notes = trigger.mock.calls.map((call: unknown[]) => call[0]);
+    expect(notes).toEqual(['C6', 'G5', 'G5', 'C6']);
+    expect(trigger.mock.calls[0]?.[2]).toBe(1.5);
+  });
+
+  test('clears the click when disabled while playing', () => {
+    metronome.setClickEnabled(true);
+    metronome.start();
+
+    metronome.setClickEnabled(false);
+
+    expect(Tone.getTransport().clear).toHaveBeenCalled();
+    expect(metronome.isClickEnabled()).toBe(false);
+    expect(metronome.isPlaying()).toBe(true);
+  });
+
+  // ⚠️ Negative cases
+  test('does not click by default', () => {
+    metronome.start();
+
+    expect(Tone.getTransport().scheduleRepeat).not.toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('restarts the bar count on each start', () => {
+    const trigger = vi.spyOn(Tone.Synth.prototype, 'triggerAttackRelease');
+    metronome.setClickEnabled(true);
+    metronome.start();
+    fireBeat();
+    metronome.stop();
+
+    metronome.start();
+    fireBeat();
+
+    expect(trigger.mock.calls.map((call: unknown[]) => call[0])).toEqual(['C6', 'C6']);
+  });
+
+  test('keeps at least one beat per bar', () => {
+    metronome.setBeatsPerBar(0);
+
+    expect(metronome.getBeatsPerBar()).toBe(1);
+  });
+});
+
+describe('CLICK-001 through CLICK-004: Click track', () => {
+  let metronome: Metronome;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(Tone.getTransport().scheduleRepeat).mockClear();
+    vi.mocked(Tone.getTransport().start).mockClear();
+    vi.mocked(Tone.getTransport().stop).mockClear();
+    metronome = new Metronome(120);
+    metronome.setClickEnabled(true);
+  });
+
+  afterEach(() => {
+    metronome.dispose();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Fire the most recently scheduled click callback
+   */
+  const fireClick = () => {
+    const calls = vi.mocked(Tone.getTransport().scheduleRepeat).mock.calls;
+    calls[calls.length - 1]![0](0);
+  };
+
+  // ✅ Happy path
+  test('schedules subdivisions on the transport grid', () => {
+    metronome.setSubdivision(2);
+    metronome.start();
+
+    expect(Tone.getTransport().scheduleRepeat).toHaveBeenCalledWith(expect.any(Function), '96i');
+  });
+
+  test('plays softer clicks between beats', () => {
+    const trigger = vi.spyOn(Tone.Synth.prototype, 'triggerAttackRelease');
+    metronome.setBeatsPerBar(2);
+    metronome.setSubdivision(2);
+    metronome.start();
+
+    for (let i = 0; i < 5; i++) fireClick();
+
+    expect(trigger.mock.calls.map((call: unknown[]) => [call[0], call[3]])).toEqual([
+      ['C6', 1],
+      ['G5', 0.5],
+      ['G5', 1],
+      ['G5', 0.5],
+      ['C6', 1],
+    ]);
+  });
+
+  test('applies the click volume to the synth', () => {
+    const trigger = vi.spyOn(Tone.Synth.prototype, 'triggerAttackRelease');
+    metronome.setClickVolume(50);
+    metronome.start();
+    fireClick();
+
+    const synth = trigger.mock.contexts[0] as Tone.Synth;
+    expect(synth.volume.value).toBeCloseTo(-6.02);
+
+    metronome.setClickVolume(0);
+    expect(synth.volume.value).toBe(-Infinity);
+  });
+
+  test('starts the transport at the mixer position and time', () => {
+    metronome.syncTo(1.5, 10);
+
+    // 1.5s at 120 BPM = 3 beats of 192 ticks
+    expect(Tone.getTransport().start).toHaveBeenCalledWith(10, '576i');
+    expect(metronome.isPlaying()).toBe(true);
+  });
+
+  test('phase-locks the bar count to the sync position', () => {
+    const trigger = vi.spyOn(Tone.Synth.prototype, 'triggerAttackRelease');
+    metronome.setBeatsPerBar(4);
+
+    // 120 BPM: beat 4 of bar 1 is at 1.5s, so the next clicks are beat 4 then beat 1
+    metronome.syncTo(1.5, 10);
+    fireClick();
+    fireClick();
+
+    expect(trigger.mock.calls.map((call: unknown[]) => call[0])).toEqual(['G5', 'C6']);
+  });
+
+  test('re-syncs after a seek while running', () => {
+    const trigger = vi.spyOn(Tone.Synth.prototype, 'triggerAttackRelease');
+    metronome.syncTo(0, 10);
+    fireClick();
+
+    // Seek to just after bar 2 starts: the next click is beat 2
+    metronome.syncTo(2.1, 12);
+    fireClick();
+
+    expect(Tone.getTransport().stop).toHaveBeenCalledWith(12);
+    expect(Tone.getTransport().start).toHaveBeenLastCalledWith(12, '806i');
+    expect(trigger.mock.calls.map((call: unknown[]) => call[0])).toEqual(['C6', 'G5']);
+  });
+
+  // ⚠️ Negative cases
+  test('does not schedule a click on sync when the click is disabled', () => {
+    metronome.setClickEnabled(false);
+
+    metronome.syncTo(0, 10);
+
+    expect(Tone.getTransport().scheduleRepeat).not.toHaveBeenCalled();
+    expect(metronome.isPlaying()).toBe(true);
+  });
+
+  // 🔥 Edge cases
+  test('clamps click volume and subdivision', () => {
+    metronome.setClickVolume(150);
+    metronome.setSubdivision(9);
+
+    expect(metronome.getClickVolume()).toBe(100);
+    expect(metronome.getSubdivision()).toBe(4);
+
+    metronome.setClickVolume(-5);
+    metronome.setSubdivision(0);
+
+    expect(metronome.getClickVolume()).toBe(0);
+    expect(metronome.getSubdivision()).toBe(1);
+  });
+
+  test('reschedules on the new grid when the subdivision changes while playing', () => {
+    metronome.start();
+
+    metronome.setSubdivision(3);
+
+    expect(Tone.getTransport().clear).toHaveBeenCalled();
+    expect(Tone.getTransport().scheduleRepeat).toHaveBeenLastCalledWith(expect.any(Function), '64i');
+  });
+});
+
+describe('TEMPO-003, TEMPO-004: Click follows the tempo map', () => {
+  let metronome: Metronome;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(Tone.getTransport().scheduleRepeat).mockClear();
+    vi.mocked(Tone.getTransport().start).mockClear();
+    vi.mocked(Tone.getTransport().bpm.setValueAtTime).mockClear();
+    vi.mocked(Tone.getTransport().bpm.linearRampToValueAtTime).mockClear();
+    metronome = new Metronome(120);
+    metronome.setClickEnabled(true);
+  });
+
+  afterEach(() => {
+    metronome.dispose();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const fireClick = () => {
+    const calls = vi.mocked(Tone.getTransport().scheduleRepeat).mock.calls;
+    calls[calls.length - 1]![0](0);
+  };
+
+  // ✅ Happy path
+  test('automates the transport tempo from the sync point', () => {
+    // Bar 1 at 120 BPM (2s), ramp to 60 BPM arriving at bar 3, then 60 BPM
+    metronome.setTempoMap(
+      new TempoMap(120, { beatsPerBar: 4, beatUnit: 4 }, [
+        { bar: 2, bpm: 120 },
+        { bar: 3, bpm: 60, ramp: true },
+      ])
+    );
+
+    metronome.syncTo(1, 10);
+
+    const bpm = Tone.getTransport().bpm;
+    expect(bpm.setValueAtTime).toHaveBeenCalledWith(120, 10);
+    expect(bpm.setValueAtTime).toHaveBeenCalledWith(120, 11);
+    // Ramp bar lasts 120 * 4 / 180 = 2.667s
+    expect(vi.mocked(bpm.linearRampToValueAtTime).mock.calls[0]![0]).toBe(60);
+    expect(vi.mocked(bpm.linearRampToValueAtTime).mock.calls[0]![1]).toBeCloseTo(11 + 8 / 3);
+  });
+
+  test('accents downbeats across a meter change', () => {
+    const trigger = vi.spyOn(Tone.Synth.prototype, 'triggerAttackRelease');
+    metronome.setTempoMap(
+      new TempoMap(120, { beatsPerBar: 2, beatUnit: 4 }, [
+        { bar: 2, bpm: 120, timeSignature: { beatsPerBar: 3, beatUnit: 4 } },
+      ])
+    );
+
+    metronome.syncTo(0, 0);
+    for (let i = 0; i < 6; i++) fireClick();
+
+    expect(trigger.mock.calls.map((call: unknown[]) => call[0])).toEqual(['C6', 'G5', 'C6', 'G5', 'G5', 'C6']);
+  });
+
+  test('starts the transport at the beat position of the map', () => {
+    // Bar 1 at 60 BPM (4s), then 120 BPM: 5s is beat 6
+    metronome.setTempoMap(new TempoMap(60, { beatsPerBar: 4, beatUnit: 4 }, [{ bar: 2, bpm: 120 }]));
+
+    metronome.syncTo(5, 3);
+
+    expect(Tone.getTransport().start).toHaveBeenCalledWith(3, `${6 * 192}i`);
+  });
+
+  test('count-in runs at the given tempo', () => {
+    metronome.start(80);
+
+    expect(Tone.getTransport().bpm.value).toBe(80);
+    expect(metronome.getBpm()).toBe(120);
+  });
+
+  // 🔥 Edge cases
+  test('uses a constant tempo at the metronome BPM without a tempo map', () => {
+    metronome.syncTo(0, 5);
+
+    expect(Tone.getTransport().bpm.setValueAtTime).toHaveBeenCalledWith(120, 5);
+    expect(Tone.getTransport().bpm.linearRampToValueAtTime).not.toHaveBeenCalled();
+  });
+});
+
 describe('Metronome cleanup', () => {
   // ✅ Happy path
   test('disposes resources properly', () => {
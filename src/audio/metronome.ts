@@ -1,10 +1,19 @@
-// [EARS: MET-001 through MET-007] Metronome module using Tone.js Transport
+// [EARS: MET-001 through MET-007, CNT-003, CLICK-001 through CLICK-004, TEMPO-003] Metronome module using Tone.js Transport
 
 import * as Tone from 'tone';
+import { TempoMap } from './tempoMap';
 
 const MIN_BPM = 40;
 const MAX_BPM = 240;
 const DEFAULT_BPM = 120;
+const DEFAULT_BEATS_PER_BAR = 4;
+const ACCENT_NOTE = 'C6'; // First beat of each bar
+const CLICK_NOTE = 'G5';
+const CLICK_LENGTH = '32n';
+const SUBDIVISION_VELOCITY = 0.5; // Clicks between beats are softer
+const DEFAULT_CLICK_VOLUME = 80;
+const MAX_SUBDIVISION = 4;
+const SYNC_EPSILON = 1e-6; // Clicks; a click this close to the sync position still sounds
 
 /**
  * Clamp BPM to valid range
@@ -13,6 +22,13 @@ function clampBpm(bpm: number): number {
   return Math.max(MIN_BPM, Math.min(MAX_BPM, bpm));
 }
 
+/**
+ * Convert a 0-100 volume to decibels for the click synth
+ */
+function volumeToDb(volume: number): number {
+  return volume > 0 ? 20 * Math.log10(volume / 100) : -Infinity;
+}
+
 /**
  * Metronome for precise timing using Tone.js Transport
  * [EARS: MET-001, MET-002, MET-003, MET-004, MET-005, MET-006, MET-007]
@@ -23,6 +39,14 @@ export class Metronome {
   private visualCallback: (() => void) | null = null;
   private scheduleId: number | null = null;
   private visualIntervalId: number | null = null;
+  private beatsPerBar: number = DEFAULT_BEATS_PER_BAR;
+  private clickEnabled: boolean = false;
+  private clickSynth: Tone.Synth | null = null;
+  private clickIndex: number = 0;
+  private clickVolume: number = DEFAULT_CLICK_VOLUME;
+  private subdivision: number = 1;
+  private tempoMap: TempoMap | null = null;
+  private activeMap: TempoMap | null = null; // Map the running click follows
 
   /**
    * Create a new Metronome
@@ -75,6 +99,156 @@ export class Metronome {
     this.setBpm(this.bpm - 1);
   }
 
+  /**
+   * Get beats per bar
+   */
+  getBeatsPerBar(): number {
+    return this.beatsPerBar;
+  }
+
+  /**
+   * Set beats per bar
+   * [EARS: CNT-003] Accent the first beat of each bar
+   *
+   * @param beatsPerBar - Beats per bar (at least 1)
+   */
+  setBeatsPerBar(beatsPerBar: number): void {
+    this.beatsPerBar = Math.max(1, Math.round(beatsPerBar));
+  }
+
+  /**
+   * Check if the audible click is enabled
+   */
+  isClickEnabled(): boolean {
+    return this.clickEnabled;
+  }
+
+  /**
+   * Enable or disable the audible click
+   * [EARS: CNT-003] Click through the speakers, e.g. during count-in
+   *
+   * @param enabled - Whether to play a click on each beat
+   */
+  setClickEnabled(enabled: boolean): void {
+    this.clickEnabled = enabled;
+
+    if (!this.playing) {
+      return;
+    }
+
+    if (enabled) {
+      if (this.scheduleId === null) {
+        this.clickIndex = this.clickIndexAt(Tone.getTransport().ticks);
+      }
+      this.scheduleClick();
+    } else {
+      this.clearClick();
+    }
+  }
+
+  /**
+   * Get click volume
+   */
+  getClickVolume(): number {
+    return this.clickVolume;
+  }
+
+  /**
+   * Set click volume
+   * [EARS: CLICK-002] Adjust click loudness independently of the tracks
+   *
+   * @param volume - Volume 0-100 (clamped)
+   */
+  setClickVolume(volume: number): void {
+    this.clickVolume = Math.max(0, Math.min(100, volume));
+    if (this.clickSynth) {
+      this.clickSynth.volume.value = volumeToDb(this.clickVolume);
+    }
+  }
+
+  /**
+   * Get clicks per beat
+   */
+  getSubdivision(): number {
+    return this.subdivision;
+  }
+
+  /**
+   * Set clicks per beat
+   * [EARS: CLICK-003] 1 = quarter notes, 2 = eighths, 3 = triplets, 4 = sixteenths
+   *
+   * @param subdivision - Clicks per beat (clamped to 1-4)
+   */
+  setSubdivision(subdivision: number): void {
+    this.subdivision = Math.max(1, Math.min(MAX_SUBDIVISION, Math.round(subdivision)));
+
+    // Reschedule on the new grid, continuing from the current transport position
+    if (this.playing && this.scheduleId !== null) {
+      this.clearClick();
+      this.clickIndex = this.clickIndexAt(Tone.getTransport().ticks);
+      this.scheduleClick();
+    }
+  }
+
+  /**
+   * Set the tempo map followed while synced to playback
+   * [EARS: TEMPO-003] Click follows tempo changes, ramps and meter changes
+   *
+   * @param tempoMap - Project tempo map, or null for a constant tempo at the metronome BPM
+   */
+  setTempoMap(tempoMap: TempoMap | null): void {
+    this.tempoMap = tempoMap;
+  }
+
+  /**
+   * Phase-lock the metronome to a playback position
+   * [EARS: CLICK-004] Restart the transport so beat 1 falls on timeline position 0,
+   * starting the metronome if it is not already running
+   *
+   * @param position - Timeline position in seconds
+   * @param time - AudioContext time at which playback is at `position`
+   */
+  syncTo(position: number, time: number): void {
+    const transport = Tone.getTransport();
+    const map = this.tempoMap ?? new TempoMap(this.bpm, { beatsPerBar: this.beatsPerBar, beatUnit: 4 });
+    this.activeMap = map;
+
+    // The transport ignores start() while started, so stop it at the same instant
+    if (transport.state === 'started') {
+      transport.stop(time);
+    }
+
+    // [EARS: TEMPO-003] Automate the transport tempo from the sync point on
+    transport.bpm.cancelScheduledValues(time);
+    transport.bpm.setValueAtTime(map.tempoAt(position), time);
+    for (const segment of map.getSegments()) {
+      const end = segment.time + segment.duration;
+      if (end <= position) continue;
+
+      if (segment.time > position) {
+        transport.bpm.setValueAtTime(segment.startBpm, time + segment.time - position);
+      }
+      if (segment.endBpm !== segment.startBpm) {
+        transport.bpm.linearRampToValueAtTime(segment.endBpm, time + end - position);
+      }
+    }
+
+    // One beat is one quarter note on the transport, so ticks count beats from 0:00
+    const ticks = Math.round(map.secondsToBeats(position) * transport.PPQ);
+    this.clickIndex = this.clickIndexAt(ticks);
+    if (this.clickEnabled) {
+      this.scheduleClick();
+    }
+    transport.start(time, `${ticks}i`);
+
+    if (!this.playing) {
+      this.playing = true;
+      if (this.visualCallback) {
+        this.startVisualInterval();
+      }
+    }
+  }
+
   /**
    * Check if metronome is playing
    */
@@ -92,6 +266,62 @@ export class Metronome {
     this.visualCallback = callback;
   }
 
+  /**
+   * Index of the first click at or after a transport position
+   * [EARS: CLICK-004] Clicks sit on a grid starting at position 0
+   *
+   * @param ticks - Transport position in ticks
+   */
+  private clickIndexAt(ticks: number): number {
+    const clickTicks = Tone.getTransport().PPQ / this.subdivision;
+    return Math.max(0, Math.ceil(ticks / clickTicks - SYNC_EPSILON));
+  }
+
+  /**
+   * Schedule a click on every subdivision of the Transport
+   * [EARS: CNT-003, CLICK-001, CLICK-003] Accented click on beat 1, plain click on
+   * the other beats, softer click between beats
+   */
+  private scheduleClick(): void {
+    if (this.scheduleId !== null) {
+      return;
+    }
+
+    const transport = Tone.getTransport();
+    this.scheduleId = transport.scheduleRepeat((time) => {
+      const index = this.clickIndex++;
+      const onBeat = index % this.subdivision === 0;
+      // [EARS: TEMPO-003] Accent the downbeats of the map the click follows
+      const accent = this.activeMap
+        ? onBeat && this.activeMap.beatsToBarBeatTick(index / this.subdivision).beat === 1
+        : index % (this.beatsPerBar * this.subdivision) === 0;
+
+      if (!this.clickSynth) {
+        this.clickSynth = new Tone.Synth({
+          oscillator: { type: 'square' },
+          envelope: { attack: 0.001, decay: 0.05, sustain: 0, release: 0.01 },
+        }).toDestination();
+        this.clickSynth.volume.value = volumeToDb(this.clickVolume);
+      }
+      this.clickSynth.triggerAttackRelease(
+        accent ? ACCENT_NOTE : CLICK_NOTE,
+        CLICK_LENGTH,
+        time,
+        onBeat ? 1 : SUBDIVISION_VELOCITY
+      );
+    }, `${transport.PPQ / this.subdivision}i`);
+  }
+
+  /**
+   * Remove the scheduled click
+   */
+  private clearClick(): void {
+    if (this.scheduleId !== null) {
+      Tone.getTransport().clear(this.scheduleId);
+      this.scheduleId = null;
+    }
+  }
+
   /**
    * Start visual interval for metronome flasher
    */
@@ -122,20 +352,30 @@ export class Metronome {
   }
 
   /**
-   * Start metronome
+   * Start metronome at a constant tempo
    * [EARS: MET-006, MET-007] Sync during recording and playback
+   * [EARS: TEMPO-004] The count-in runs at the tempo of the recording start position
+   *
+   * @param bpm - Tempo to run at until stopped (default: metronome BPM)
    */
-  start(): void {
+  start(bpm?: number): void {
     if (this.playing) {
       return;
     }
 
     this.playing = true;
+    this.clickIndex = 0;
+    this.activeMap = null;
 
     // Reset transport position to ensure consistent timing
+    Tone.getTransport().bpm.value = bpm ?? this.bpm;
     Tone.getTransport().position = 0;
 
-    // Start Tone.Transport for future audio features (click track, etc.)
+    // [EARS: CNT-003] Schedule before starting so the first click lands on beat 1
+    if (this.clickEnabled) {
+      this.scheduleClick();
+    }
+
     Tone.getTransport().start();
 
     // Start visual callback interval (independent of Transport)
@@ -157,10 +397,7 @@ export class Metronome {
     // Stop visual interval
     this.stopVisualInterval();
 
-    if (this.scheduleId !== null) {
-      Tone.getTransport().clear(this.scheduleId);
-      this.scheduleId = null;
-    }
+    this.clearClick();
 
     Tone.getTransport().stop();
     // Reset position for next start
@@ -174,5 +411,9 @@ export class Metronome {
     this.stop();
     this.stopVisualInterval();
     this.visualCallback = null;
+    if (this.clickSynth) {
+      this.clickSynth.dispose();
+      this.clickSynth = null;
+    }
   }
 }
@@ -186,6 +186,237 @@ describe('TRACK-008: Volume control', () => {
   });
 });
 
+describe('PAN-002: Pan control', () => {
+  let mixer: Mixer;
+  let audioContext: AudioContext;
+
+  beforeEach(() => {
+    audioContext = new AudioContext();
+    mixer = new Mixer(audioContext);
+  });
+
+  afterEach(() => {
+    mixer.dispose();
+    audioContext.close();
+  });
+
+  // ✅ Happy path
+  test('routes each track through its own stereo panner', async () => {
+    const createGainSpy = vi.spyOn(audioContext, 'createGain');
+    const createStereoPannerSpy = vi.spyOn(audioContext, 'createStereoPanner');
+
+    await mixer.loadTrack('track-1', new Blob(['audio 1']));
+    await mixer.loadTrack('track-2', new Blob(['audio 2']));
+
+    expect(createStereoPannerSpy).toHaveBeenCalledTimes(2);
+    const gainNode = createGainSpy.mock.results[0]!.value as GainNode;
+    const pannerNode = createStereoPannerSpy.mock.results[0]!.value as StereoPannerNode;
+    expect(gainNode.connect).toHaveBeenCalledWith(pannerNode);
+  });
+
+  test('sets pan per track', async () => {
+    await mixer.loadTrack('track-1', new Blob(['audio 1']));
+    await mixer.loadTrack('track-2', new Blob(['audio 2']));
+
+    mixer.setPan('track-1', -0.5);
+
+    expect(mixer.getPan('track-1')).toBe(-0.5);
+    expect(mixer.getPan('track-2')).toBe(0);
+  });
+
+  test('disconnects the panner when a track is unloaded', async () => {
+    const createStereoPannerSpy = vi.spyOn(audioContext, 'createStereoPanner');
+    await mixer.loadTrack('track-1', new Blob(['audio 1']));
+
+    mixer.unloadTrack('track-1');
+
+    const pannerNode = createStereoPannerSpy.mock.results[0]!.value as StereoPannerNode;
+    expect(pannerNode.disconnect).toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('clamps pan to -1..1', async () => {
+    await mixer.loadTrack('track-1', new Blob(['audio 1']));
+
+    mixer.setPan('track-1', 3);
+    expect(mixer.getPan('track-1')).toBe(1);
+
+    mixer.setPan('track-1', -3);
+    expect(mixer.getPan('track-1')).toBe(-1);
+  });
+
+  test('panning a non-existent track does not throw and reads as centre', () => {
+    expect(() => mixer.setPan('non-existent', 0.5)).not.toThrow();
+    expect(mixer.getPan('non-existent')).toBe(0);
+  });
+});
+
+describe('BUS-001, BUS-002, BUS-003, BUS-004: Voice part buses', () => {
+  let mixer: Mixer;
+  let audioContext: AudioContext;
+  let gainNodes: GainNode[];
+
+  beforeEach(async () => {
+    audioContext = new AudioContext();
+    // Separate gain nodes so track, bus and master gains can be told apart
+    gainNodes = [];
+    vi.spyOn(audioContext, 'createGain').mockImplementation(() => {
+      const node = { gain: { value: 1 }, connect: vi.fn(), disconnect: vi.fn() } as unknown as GainNode;
+      gainNodes.push(node);
+      return node;
+    });
+    mixer = new Mixer(audioContext);
+    await mixer.loadTrack('s1', new Blob(['s1']));
+    await mixer.loadTrack('s2', new Blob(['s2']));
+    await mixer.loadTrack('b1', new Blob(['b1']));
+    mixer.setTrackBus('s1', 'S');
+    mixer.setTrackBus('s2', 'S');
+    mixer.setTrackBus('b1', 'B');
+  });
+
+  afterEach(() => {
+    mixer.dispose();
+    audioContext.close();
+  });
+
+  // Bus gains are created after the master and the three track gains, in order of first use
+  const sopranoBus = () => gainNodes[4]!;
+  const bassBus = () => gainNodes[5]!;
+  const masterGain = () => gainNodes[0]!;
+
+  // ✅ Happy path
+  test('routes tracks through their bus to the master', () => {
+    const pannerNode = vi.mocked(audioContext.createStereoPanner).mock.results[0]!.value as StereoPannerNode;
+
+    expect(mixer.getTrackBus('s1')).toBe('S');
+    expect(pannerNode.connect).toHaveBeenLastCalledWith(sopranoBus());
+    expect(sopranoBus().connect).toHaveBeenCalledWith(masterGain());
+  });
+
+  test('part fader sets the bus gain', () => {
+    mixer.setBusVolume('S', 50);
+
+    expect(mixer.getBusVolume('S')).toBe(50);
+    expect(sopranoBus().gain.value).toBe(0.5);
+    expect(bassBus().gain.value).toBe(1);
+  });
+
+  test('part mute silences the bus without muting its tracks', () => {
+    mixer.setBusMuted('S', true);
+
+    expect(mixer.isBusMuted('S')).toBe(true);
+    expect(sopranoBus().gain.value).toBe(0);
+    expect(mixer.isMuted('s1')).toBe(false);
+    expect(masterGain().gain.value).toBe(1); // Only the bass track is active
+  });
+
+  test('part solo silences the other buses', () => {
+    mixer.setBusSoloed('B', true);
+
+    expect(mixer.isBusSoloed('B')).toBe(true);
+    expect(bassBus().gain.value).toBe(1);
+    expect(sopranoBus().gain.value).toBe(0);
+  });
+
+  // 🔥 Edge cases
+  test('a soloed bus is heard even when muted', () => {
+    mixer.setBusMuted('B', true);
+    mixer.setBusSoloed('B', true);
+
+    expect(bassBus().gain.value).toBe(1);
+  });
+
+  test('routes a track back to the master', () => {
+    mixer.setTrackBus('b1', null);
+
+    expect(mixer.getTrackBus('b1')).toBeNull();
+  });
+
+  test('unknown buses read as unity, unmuted and unsoloed', () => {
+    expect(mixer.getBusVolume('X')).toBe(100);
+    expect(mixer.isBusMuted('X')).toBe(false);
+    expect(mixer.isBusSoloed('X')).toBe(false);
+  });
+
+  test('disconnects buses on dispose', () => {
+    mixer.dispose();
+
+    expect(sopranoBus().disconnect).toHaveBeenCalled();
+    expect(bassBus().disconnect).toHaveBeenCalled();
+  });
+});
+
+describe('PRAC-003: Practice mix', () => {
+  let mixer: Mixer;
+  let audioContext: AudioContext;
+  let gainNodes: GainNode[];
+
+  beforeEach(async () => {
+    audioContext = new AudioContext();
+    gainNodes = [];
+    vi.spyOn(audioContext, 'createGain').mockImplementation(() => {
+      const node = { gain: { value: 1 }, connect: vi.fn(), disconnect: vi.fn() } as unknown as GainNode;
+      gainNodes.push(node);
+      return node;
+    });
+    mixer = new Mixer(audioContext);
+    await mixer.loadTrack('s1', new Blob(['s1']));
+    await mixer.loadTrack('a1', new Blob(['a1']));
+    mixer.setTrackBus('s1', 'S');
+    mixer.setTrackBus('a1', 'A');
+    mixer.setVolume('s1', 50);
+  });
+
+  afterEach(() => {
+    mixer.dispose();
+    audioContext.close();
+  });
+
+  // Master first, then the track gains in load order
+  const masterGain = () => gainNodes[0]!;
+  const sopranoGain = () => gainNodes[1]!;
+  const altoGain = () => gainNodes[2]!;
+
+  // ✅ Happy path
+  test('raises the featured part and lowers the others', () => {
+    mixer.setPracticeMix({ mode: 'featured', part: 'S' });
+
+    expect(mixer.getPracticeMix()).toEqual({ mode: 'featured', part: 'S' });
+    expect(sopranoGain().gain.value).toBeCloseTo(0.5 * 1.995, 3);
+    expect(altoGain().gain.value).toBeCloseTo(0.501, 3);
+  });
+
+  test('leaves the chosen part out in minus one', () => {
+    mixer.setPracticeMix({ mode: 'minus-one', part: 'A' });
+
+    expect(altoGain().gain.value).toBe(0);
+    expect(sopranoGain().gain.value).toBe(0.5);
+    expect(masterGain().gain.value).toBe(1); // Only the soprano track is active
+  });
+
+  test('keeps the saved track settings', () => {
+    mixer.setPracticeMix({ mode: 'minus-one', part: 'S' });
+    mixer.setPracticeMix(null);
+
+    expect(mixer.getVolume('s1')).toBe(50);
+    expect(mixer.isMuted('s1')).toBe(false);
+    expect(sopranoGain().gain.value).toBe(0.5);
+    expect(masterGain().gain.value).toBeCloseTo(1 / Math.sqrt(2));
+  });
+
+  // 🔥 Edge cases
+  test('a muted track stays silent in its featured part', () => {
+    mixer.setMuted('s1', true);
+    mixer.setPracticeMix({ mode: 'featured', part: 'S' });
+
+    expect(sopranoGain().gain.value).toBe(0);
+  });
+
+  test('defaults to the full mix', () => {
+    expect(mixer.getPracticeMix()).toBeNull();
+  });
+});
+
 describe('TRACK-006, TRACK-007, PLAY-006: Mute control', () => {
   let mixer: Mixer;
   let audioContext: AudioContext;
@@ -408,6 +639,287 @@ describe('PLAY-002, PLAY-003, PLAY-004, PLAY-005: Playback control', () => {
   });
 });
 
+describe('POS-001, POS-003: Track start offset', () => {
+  let mixer: Mixer;
+  let audioContext: AudioContext;
+  let sources: { start: ReturnType<typeof vi.fn> }[];
+
+  beforeEach(async () => {
+    audioContext = new AudioContext();
+    sources = [];
+    vi.spyOn(audioContext, 'createBufferSource').mockImplementation(() => {
+      const source = {
+        buffer: null,
+        start: vi.fn(),
+        stop: vi.fn(),
+        connect: vi.fn(),
+        disconnect: vi.fn(),
+      };
+      sources.push(source);
+      return source as any;
+    });
+    mixer = new Mixer(audioContext);
+    await mixer.loadTrack('track-1', new Blob(['audio 1'], { type: 'audio/wav' }));
+    await mixer.loadTrack('track-2', new Blob(['audio 2'], { type: 'audio/wav' }));
+  });
+
+  afterEach(() => {
+    mixer.dispose();
+    audioContext.close();
+  });
+
+  // ✅ Happy path
+  test('defaults start offset to 0', () => {
+    expect(mixer.getStartOffset('track-1')).toBe(0);
+  });
+
+  test('sets and gets start offset', () => {
+    mixer.setStartOffset('track-1', 2.5);
+    expect(mixer.getStartOffset('track-1')).toBe(2.5);
+  });
+
+  test('schedules offset track to start later on the timeline', () => {
+    mixer.setStartOffset('track-2', 2);
+
+    mixer.play();
+
+    expect(sources[0]?.start).toHaveBeenCalledWith(0, 0);
+    expect(sources[1]?.start).toHaveBeenCalledWith(2, 0);
+  });
+
+  test('starts offset track partway through when seeking past its start', () => {
+    mixer.setStartOffset('track-2', 2);
+    mixer.seek(3);
+
+    mixer.play();
+
+    expect(sources[0]?.start).toHaveBeenCalledWith(0, 3);
+    expect(sources[1]?.start).toHaveBeenCalledWith(0, 1);
+  });
+
+  test('schedules relative to the AudioContext clock', () => {
+    (audioContext as any).currentTime = 10;
+    mixer.setStartOffset('track-1', 1.5);
+
+    mixer.play();
+
+    expect(sources[0]?.start).toHaveBeenCalledWith(11.5, 0);
+  });
+
+  test('reschedules sources when offset changes during playback', () => {
+    mixer.play();
+    expect(sources).toHaveLength(2);
+
+    mixer.setStartOffset('track-1', 1);
+
+    expect(sources).toHaveLength(4);
+    expect(sources[2]?.start).toHaveBeenCalledWith(1, 0);
+  });
+
+  // ⚠️ Negative cases
+  test('clamps negative offset to 0', () => {
+    mixer.setStartOffset('track-1', -1);
+    expect(mixer.getStartOffset('track-1')).toBe(0);
+  });
+
+  test('ignores offset for unknown track', () => {
+    expect(() => mixer.setStartOffset('missing', 1)).not.toThrow();
+    expect(mixer.getStartOffset('missing')).toBe(0);
+  });
+
+  // 🔥 Edge cases
+  test('does not reschedule when offset is unchanged', () => {
+    mixer.setStartOffset('track-1', 1);
+    mixer.play();
+
+    mixer.setStartOffset('track-1', 1);
+
+    expect(sources).toHaveLength(2);
+  });
+});
+
+describe('LOOP-002: Loop playback', () => {
+  let mixer: Mixer;
+  let audioContext: AudioContext;
+  let sources: { start: ReturnType<typeof vi.fn>; stop: ReturnType<typeof vi.fn> }[];
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    audioContext = new AudioContext();
+    sources = [];
+    vi.spyOn(audioContext, 'createBufferSource').mockImplementation(() => {
+      const source = {
+        buffer: null,
+        start: vi.fn(),
+        stop: vi.fn(),
+        connect: vi.fn(),
+        disconnect: vi.fn(),
+      };
+      sources.push(source);
+      return source as any;
+    });
+    mixer = new Mixer(audioContext);
+    await mixer.loadTrack('track-1', new Blob(['audio 1'], { type: 'audio/wav' }));
+  });
+
+  afterEach(() => {
+    mixer.dispose();
+    audioContext.close();
+    vi.useRealTimers();
+  });
+
+  // ✅ Happy path
+  test('plays the first pass from the playhead to the loop end', () => {
+    mixer.setLoop({ start: 2, end: 6 });
+    mixer.seek(3);
+
+    mixer.play();
+
+    expect(sources[0]?.start).toHaveBeenCalledWith(0, 3, 3);
+  });
+
+  test('queues the next pass at the loop end on the audio clock', () => {
+    mixer.setLoop({ start: 2, end: 6 });
+    mixer.seek(2);
+    mixer.play();
+
+    vi.advanceTimersByTime(4000);
+
+    expect(sources).toHaveLength(2);
+    expect(sources[1]?.start).toHaveBeenCalledWith(4, 2, 4);
+  });
+
+  test('keeps looping until stopped', () => {
+    mixer.setLoop({ start: 0, end: 1 });
+    mixer.play();
+
+    vi.advanceTimersByTime(3000);
+    expect(sources.length).toBeGreaterThanOrEqual(3);
+
+    mixer.stop();
+    const count = sources.length;
+    vi.advanceTimersByTime(3000);
+    expect(sources).toHaveLength(count);
+  });
+
+  test('wraps current time inside the loop', () => {
+    mixer.setLoop({ start: 2, end: 6 });
+    mixer.seek(2);
+    mixer.play();
+
+    (audioContext as any).currentTime = 5;
+
+    // 5s after starting at 2s = 7s, which wraps to 3s
+    expect(mixer.getCurrentTime()).toBeCloseTo(3);
+  });
+
+  test('clears the loop', () => {
+    mixer.setLoop({ start: 2, end: 6 });
+    mixer.setLoop(null);
+
+    expect(mixer.getLoop()).toBeNull();
+  });
+
+  // ⚠️ Negative cases
+  test('throws when loop end is not after loop start', () => {
+    expect(() => mixer.setLoop({ start: 4, end: 4 })).toThrow('Loop end must be after loop start');
+  });
+
+  // 🔥 Edge cases
+  test('plays through normally when starting after the loop end', () => {
+    mixer.setLoop({ start: 0, end: 1 });
+    mixer.seek(2);
+
+    mixer.play();
+    vi.advanceTimersByTime(3000);
+
+    expect(sources).toHaveLength(1);
+    expect(sources[0]?.start).toHaveBeenCalledWith(0, 2);
+  });
+
+  test('skips tracks that start after the loop end', () => {
+    mixer.setStartOffset('track-1', 8);
+    mixer.setLoop({ start: 0, end: 4 });
+
+    mixer.play();
+
+    expect(sources).toHaveLength(0);
+  });
+});
+
+describe('CLICK-004: Playback start notifications', () => {
+  let mixer: Mixer;
+  let audioContext: AudioContext;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    audioContext = new AudioContext();
+    mixer = new Mixer(audioContext);
+    await mixer.loadTrack('track-1', new Blob(['audio 1'], { type: 'audio/wav' }));
+  });
+
+  afterEach(() => {
+    mixer.dispose();
+    audioContext.close();
+    vi.useRealTimers();
+  });
+
+  // ✅ Happy path
+  test('reports the position and audio time playback starts from', () => {
+    const listener = vi.fn();
+    mixer.onPlaybackStart(listener);
+    (audioContext as any).currentTime = 7;
+    mixer.seek(3);
+
+    mixer.play();
+
+    expect(listener).toHaveBeenCalledWith({ position: 3, time: 7 });
+  });
+
+  test('reports the new position when seeking during playback', () => {
+    const listener = vi.fn();
+    mixer.onPlaybackStart(listener);
+    mixer.play();
+
+    mixer.seek(5);
+
+    expect(listener).toHaveBeenLastCalledWith({ position: 5, time: 0 });
+  });
+
+  test('reports each loop pass', () => {
+    const listener = vi.fn();
+    mixer.onPlaybackStart(listener);
+    mixer.setLoop({ start: 2, end: 6 });
+    mixer.seek(2);
+    mixer.play();
+
+    vi.advanceTimersByTime(4000);
+
+    expect(listener).toHaveBeenLastCalledWith({ position: 2, time: 4 });
+  });
+
+  // ⚠️ Negative cases
+  test('stops reporting after unsubscribing', () => {
+    const listener = vi.fn();
+    const unsubscribe = mixer.onPlaybackStart(listener);
+
+    unsubscribe();
+    mixer.play();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('does not report seeks while stopped', () => {
+    const listener = vi.fn();
+    mixer.onPlaybackStart(listener);
+
+    mixer.seek(4);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
 describe('Mixer cleanup', () => {
   let audioContext: AudioContext;
 
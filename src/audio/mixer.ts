@@ -1,12 +1,24 @@
-// [EARS: TRACK-005, TRACK-006, TRACK-007, TRACK-008, PLAY-002, PLAY-003, PLAY-004, PLAY-005, PLAY-006, PLAY-007] Mixer for multi-track playback
+// [EARS: TRACK-005, TRACK-006, TRACK-007, TRACK-008, PLAY-002, PLAY-003, PLAY-004, PLAY-005, PLAY-006, PLAY-007, POS-003, LOOP-002, CLICK-004, PAN-002, BUS-004, PRAC-003] Mixer for multi-track playback
+
+import { getPracticeGain, type PracticeMix } from './practiceMix';
 
 interface TrackState {
   audioBuffer: AudioBuffer;
   gainNode: GainNode;
+  pannerNode: StereoPannerNode; // [EARS: PAN-002] gainNode -> pannerNode -> bus (or masterGain)
+  busId: string | null; // [EARS: BUS-004] Bus the track is routed through, if any
+  volume: number; // 0-100
+  muted: boolean;
+  soloed: boolean;
+  startOffset: number; // Seconds from timeline start
+  bufferSources: AudioBufferSourceNode[]; // More than one while a loop pass is queued
+}
+
+interface BusState {
+  gainNode: GainNode; // [EARS: BUS-004] Between the track panners and masterGain
   volume: number; // 0-100
   muted: boolean;
   soloed: boolean;
-  bufferSource: AudioBufferSourceNode | null;
 }
 
 interface PlaybackState {
@@ -14,6 +26,25 @@ interface PlaybackState {
   offsetTime: number; // Offset into the audio buffer
 }
 
+export interface LoopRegion {
+  start: number; // Seconds from timeline start
+  end: number; // Seconds from timeline start
+}
+
+export interface BusSettings {
+  id: string;
+  volume: number; // 0-100
+  muted: boolean;
+  soloed: boolean;
+}
+
+export interface PlaybackSync {
+  position: number; // Timeline position in seconds
+  time: number; // AudioContext time at which playback is at `position`
+}
+
+const LOOP_LOOKAHEAD = 0.1; // Seconds before a pass ends to schedule the next one
+
 /**
  * Mixer for multi-track audio playback
  * [EARS: TRACK-005, TRACK-006, TRACK-007, TRACK-008, PLAY-002, PLAY-003, PLAY-004, PLAY-005, PLAY-006, PLAY-007, SEEK-001, SEEK-002, SEEK-003]
@@ -21,9 +52,14 @@ interface PlaybackState {
 export class Mixer {
   private audioContext: AudioContext;
   private tracks: Map<string, TrackState> = new Map();
+  private buses: Map<string, BusState> = new Map();
   private playing: boolean = false;
   private playbackState: PlaybackState | null = null;
   private masterGain: GainNode;
+  private loop: LoopRegion | null = null;
+  private loopTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncListeners: Set<(sync: PlaybackSync) => void> = new Set();
+  private practiceMix: PracticeMix | null = null;
 
   /**
    * Create a new Mixer
@@ -61,18 +97,23 @@ export class Mixer {
       // Decode audio data
       const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
 
-      // Create GainNode for this track
+      // Create GainNode for this track, panned into the stereo mix
       const gainNode = this.audioContext.createGain();
-      gainNode.connect(this.masterGain);
+      const pannerNode = this.audioContext.createStereoPanner();
+      gainNode.connect(pannerNode);
+      pannerNode.connect(this.masterGain);
 
       // Create track state
       const trackState: TrackState = {
         audioBuffer,
         gainNode,
+        pannerNode,
+        busId: null,
         volume: 100,
         muted: false,
         soloed: false,
-        bufferSource: null,
+        startOffset: 0,
+        bufferSources: [],
       };
 
       // Update gain based on initial state
@@ -101,14 +142,11 @@ export class Mixer {
     }
 
     // Stop if playing
-    if (track.bufferSource) {
-      track.bufferSource.stop();
-      track.bufferSource.disconnect();
-      track.bufferSource = null;
-    }
+    this.stopSources(track);
 
-    // Disconnect gain node
+    // Disconnect gain and panner nodes
     track.gainNode.disconnect();
+    track.pannerNode.disconnect();
 
     // Remove from tracks
     this.tracks.delete(trackId);
@@ -225,9 +263,231 @@ export class Mixer {
     return track ? track.soloed : false;
   }
 
+  /**
+   * Set track pan
+   * [EARS: PAN-002] Pan is heard immediately, without restarting playback
+   *
+   * @param trackId - Track identifier
+   * @param pan - Stereo position (-1 left to 1 right, clamped)
+   */
+  setPan(trackId: string, pan: number): void {
+    const track = this.tracks.get(trackId);
+    if (!track) {
+      return;
+    }
+
+    track.pannerNode.pan.value = Math.max(-1, Math.min(1, pan));
+  }
+
+  /**
+   * Get track pan
+   * [EARS: PAN-002] Query stereo position
+   *
+   * @param trackId - Track identifier
+   * @returns Pan (-1 to 1), or 0 if track not found
+   */
+  getPan(trackId: string): number {
+    const track = this.tracks.get(trackId);
+    return track ? track.pannerNode.pan.value : 0;
+  }
+
+  /**
+   * Route a track through a bus
+   * [EARS: BUS-004] Track panner -> bus gain -> masterGain; the bus is created on first use
+   *
+   * @param trackId - Track identifier
+   * @param busId - Bus identifier, or null to route straight to the master
+   */
+  setTrackBus(trackId: string, busId: string | null): void {
+    const track = this.tracks.get(trackId);
+    if (!track || track.busId === busId) {
+      return;
+    }
+
+    track.busId = busId;
+    track.pannerNode.disconnect();
+    track.pannerNode.connect(busId === null ? this.masterGain : this.getBus(busId).gainNode);
+
+    this.updateMasterGain();
+  }
+
+  /**
+   * Get the bus a track is routed through
+   * [EARS: BUS-004] Query routing
+   *
+   * @param trackId - Track identifier
+   * @returns Bus identifier, or null if routed straight to the master or not found
+   */
+  getTrackBus(trackId: string): string | null {
+    return this.tracks.get(trackId)?.busId ?? null;
+  }
+
+  /**
+   * Set bus volume
+   * [EARS: BUS-001] Part fader scales every track on the bus
+   *
+   * @param busId - Bus identifier
+   * @param volume - Volume level (0-100)
+   */
+  setBusVolume(busId: string, volume: number): void {
+    const bus = this.getBus(busId);
+    bus.volume = Math.max(0, Math.min(100, volume));
+    this.updateBusGains();
+  }
+
+  /**
+   * Get bus volume
+   * [EARS: BUS-001] Query part fader
+   *
+   * @param busId - Bus identifier
+   * @returns Volume level (0-100), or 100 if bus not found
+   */
+  getBusVolume(busId: string): number {
+    return this.buses.get(busId)?.volume ?? 100;
+  }
+
+  /**
+   * Set bus mute state
+   * [EARS: BUS-002] Silence every track on the bus, leaving their own mute flags alone
+   *
+   * @param busId - Bus identifier
+   * @param muted - Mute state
+   */
+  setBusMuted(busId: string, muted: boolean): void {
+    this.getBus(busId).muted = muted;
+    this.updateBusGains();
+  }
+
+  /**
+   * Get bus mute state
+   * [EARS: BUS-002] Query part mute
+   *
+   * @param busId - Bus identifier
+   * @returns Mute state, or false if bus not found
+   */
+  isBusMuted(busId: string): boolean {
+    return this.buses.get(busId)?.muted ?? false;
+  }
+
+  /**
+   * Set bus solo state
+   * [EARS: BUS-003] While any bus is soloed, only soloed buses are heard
+   *
+   * @param busId - Bus identifier
+   * @param soloed - Solo state
+   */
+  setBusSoloed(busId: string, soloed: boolean): void {
+    this.getBus(busId).soloed = soloed;
+    this.updateBusGains();
+  }
+
+  /**
+   * Get bus solo state
+   * [EARS: BUS-003] Query part solo
+   *
+   * @param busId - Bus identifier
+   * @returns Solo state, or false if bus not found
+   */
+  isBusSoloed(busId: string): boolean {
+    return this.buses.get(busId)?.soloed ?? false;
+  }
+
+  /**
+   * Set the practice mix
+   * [EARS: PRAC-003] Layered on top of the track and bus settings without changing them;
+   * tracks belong to the voice part whose id their bus carries
+   *
+   * @param mix - Practice mix, or null for the full mix
+   */
+  setPracticeMix(mix: PracticeMix | null): void {
+    this.practiceMix = mix;
+    this.updateAllGains();
+  }
+
+  /**
+   * Get the practice mix
+   * [EARS: PRAC-003] Query practice mix
+   *
+   * @returns Practice mix, or null for the full mix
+   */
+  getPracticeMix(): PracticeMix | null {
+    return this.practiceMix;
+  }
+
+  /**
+   * Set track start offset on the timeline
+   * [EARS: POS-001, POS-003] Track begins playing this many seconds after time zero
+   *
+   * @param trackId - Track identifier
+   * @param startOffset - Offset in seconds (clamped to >= 0)
+   */
+  setStartOffset(trackId: string, startOffset: number): void {
+    const track = this.tracks.get(trackId);
+    if (!track) {
+      return;
+    }
+
+    const clamped = Math.max(0, startOffset);
+    if (clamped === track.startOffset) {
+      return;
+    }
+
+    track.startOffset = clamped;
+
+    // Reschedule running sources so the change is heard immediately
+    if (this.playing) {
+      this.seek(this.getCurrentTime());
+    }
+  }
+
+  /**
+   * Get track start offset
+   * [EARS: POS-001] Query timeline position
+   *
+   * @param trackId - Track identifier
+   * @returns Offset in seconds, or 0 if track not found
+   */
+  getStartOffset(trackId: string): number {
+    const track = this.tracks.get(trackId);
+    return track ? track.startOffset : 0;
+  }
+
+  /**
+   * Set a loop region
+   * [EARS: LOOP-002] Playback repeats the region until stopped
+   *
+   * @param region - Loop start and end in seconds, or null to stop looping
+   * @throws Error if loop end is not after loop start
+   */
+  setLoop(region: LoopRegion | null): void {
+    if (region && region.end <= region.start) {
+      throw new Error('Loop end must be after loop start');
+    }
+
+    const position = this.getCurrentTime();
+    this.loop = region ? { start: Math.max(0, region.start), end: region.end } : null;
+
+    // Reschedule running sources with the new loop
+    if (this.playing) {
+      this.seek(position);
+    }
+  }
+
+  /**
+   * Get the loop region
+   * [EARS: LOOP-002] Query loop state
+   *
+   * @returns Loop region, or null if not looping
+   */
+  getLoop(): LoopRegion | null {
+    return this.loop;
+  }
+
   /**
    * Start playback of all tracks
    * [EARS: PLAY-002, PLAY-003, PLAY-006, PLAY-007, SEEK-002] Play all tracks, use gain for mute/solo
+   * [EARS: POS-003] Honor each track's start offset on the timeline
+   * [EARS: LOOP-002] Jump back to the loop start at the loop end
    */
   play(): void {
     if (this.playing) {
@@ -241,9 +501,71 @@ export class Mixer {
     // Update master gain before starting playback
     this.updateMasterGain();
 
+    const now = this.audioContext.currentTime;
+
+    // [EARS: LOOP-002] Only loop when starting before the loop end
+    const loop = this.loop && offset < this.loop.end ? this.loop : null;
+    this.startSources(0, now, offset, loop ? loop.end : null);
+
+    if (loop) {
+      this.scheduleLoopPass(now + (loop.end - offset), loop);
+    }
+
+    // Update playback state
+    this.playbackState = {
+      startTime: now,
+      offsetTime: offset,
+    };
+
+    this.playing = true;
+    this.notifySync({ position: offset, time: now });
+  }
+
+  /**
+   * Subscribe to playback (re)starts
+   * [EARS: CLICK-004] Lets the click phase-lock to the playback position after play, seek and loop passes
+   *
+   * @param listener - Called with the position and AudioContext time playback starts from
+   * @returns Function that removes the listener
+   */
+  onPlaybackStart(listener: (sync: PlaybackSync) => void): () => void {
+    this.syncListeners.add(listener);
+    return () => {
+      this.syncListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notify playback start listeners
+   */
+  private notifySync(sync: PlaybackSync): void {
+    for (const listener of this.syncListeners) {
+      listener(sync);
+    }
+  }
+
+  /**
+   * Create and start buffer sources for every track
+   * [EARS: POS-003] Position within each track = timeline position - track start
+   *
+   * @param when - Time to start (0 = immediately)
+   * @param now - AudioContext time corresponding to `when`
+   * @param from - Timeline position to start from (seconds)
+   * @param until - Timeline position to stop at, or null to play to the end
+   */
+  private startSources(when: number, now: number, from: number, until: number | null): void {
     // Create buffer sources for ALL tracks
     // Gain nodes will control which ones are actually audible
-    for (const [trackId, track] of this.tracks.entries()) {
+    for (const track of this.tracks.values()) {
+      const trackPosition = from - track.startOffset;
+      const delay = Math.max(0, -trackPosition);
+      const duration = until !== null ? until - from - delay : null;
+
+      // Track does not start before the loop wraps
+      if (duration !== null && duration <= 0) {
+        continue;
+      }
+
       // Create buffer source
       const bufferSource = this.audioContext.createBufferSource();
       bufferSource.buffer = track.audioBuffer;
@@ -251,21 +573,62 @@ export class Mixer {
       // Connect to gain node
       bufferSource.connect(track.gainNode);
 
-      // Start playback from the current offset
       // [EARS: SEEK-002] Resume playback from seek position
-      bufferSource.start(0, offset);
+      // Tracks that start later on the timeline are scheduled ahead
+      const startAt = trackPosition >= 0 ? when : now + delay;
+      const bufferOffset = Math.max(0, trackPosition);
+      if (duration !== null) {
+        bufferSource.start(startAt, bufferOffset, duration);
+      } else {
+        bufferSource.start(startAt, bufferOffset);
+      }
 
-      // Store reference
-      track.bufferSource = bufferSource;
+      track.bufferSources.push(bufferSource);
     }
+  }
 
-    // Update playback state
-    this.playbackState = {
-      startTime: this.audioContext.currentTime,
-      offsetTime: offset,
-    };
+  /**
+   * Queue the next loop pass shortly before the current one ends
+   * [EARS: LOOP-002] Passes are scheduled on the AudioContext clock for gapless looping
+   *
+   * @param passStart - AudioContext time the next pass begins
+   * @param loop - Loop region
+   */
+  private scheduleLoopPass(passStart: number, loop: LoopRegion): void {
+    const delay = Math.max(0, passStart - this.audioContext.currentTime - LOOP_LOOKAHEAD);
 
-    this.playing = true;
+    this.loopTimer = setTimeout(() => {
+      this.loopTimer = null;
+      if (!this.playing) {
+        return;
+      }
+
+      // Drop sources from passes that have finished
+      for (const track of this.tracks.values()) {
+        if (track.bufferSources.length > 1) {
+          track.bufferSources.splice(0, track.bufferSources.length - 1);
+        }
+      }
+
+      this.startSources(passStart, passStart, loop.start, loop.end);
+      this.notifySync({ position: loop.start, time: passStart });
+      this.scheduleLoopPass(passStart + (loop.end - loop.start), loop);
+    }, delay * 1000);
+  }
+
+  /**
+   * Stop and disconnect all buffer sources of a track
+   */
+  private stopSources(track: TrackState): void {
+    for (const bufferSource of track.bufferSources) {
+      try {
+        bufferSource.stop();
+        bufferSource.disconnect();
+      } catch (e) {
+        // Ignore errors from stopping already-stopped sources
+      }
+    }
+    track.bufferSources = [];
   }
 
   /**
@@ -280,21 +643,17 @@ export class Mixer {
     // Calculate current playback position before stopping
     // [EARS: SEEK-002] Preserve playback position when pausing
     if (this.playbackState) {
-      const elapsed = this.audioContext.currentTime - this.playbackState.startTime;
-      this.playbackState.offsetTime += elapsed;
+      this.playbackState.offsetTime = this.getCurrentTime();
+    }
+
+    if (this.loopTimer) {
+      clearTimeout(this.loopTimer);
+      this.loopTimer = null;
     }
 
     // Stop all buffer sources
     for (const track of this.tracks.values()) {
-      if (track.bufferSource) {
-        try {
-          track.bufferSource.stop();
-          track.bufferSource.disconnect();
-        } catch (e) {
-          // Ignore errors from stopping already-stopped sources
-        }
-        track.bufferSource = null;
-      }
+      this.stopSources(track);
     }
 
     this.playing = false;
@@ -350,7 +709,15 @@ export class Mixer {
     if (this.playing) {
       // Calculate current position based on elapsed time
       const elapsed = this.audioContext.currentTime - this.playbackState.startTime;
-      return this.playbackState.offsetTime + elapsed;
+      const position = this.playbackState.offsetTime + elapsed;
+
+      // [EARS: LOOP-002] Wrap around inside the loop region
+      const loop = this.loop;
+      if (loop && this.playbackState.offsetTime < loop.end && position >= loop.end) {
+        return loop.start + ((position - loop.end) % (loop.end - loop.start));
+      }
+
+      return position;
     } else {
       // Return the stored offset when paused/stopped
       return this.playbackState.offsetTime;
@@ -387,7 +754,45 @@ export class Mixer {
       }
     }
 
-    track.gainNode.gain.value = gain;
+    // [EARS: PRAC-003] Practice mix on top of the saved settings
+    track.gainNode.gain.value = gain * getPracticeGain(this.practiceMix, track.busId);
+  }
+
+  /**
+   * Get a bus, creating it on first use
+   * [EARS: BUS-004] Bus gain connects to masterGain
+   */
+  private getBus(busId: string): BusState {
+    let bus = this.buses.get(busId);
+    if (!bus) {
+      const gainNode = this.audioContext.createGain();
+      gainNode.connect(this.masterGain);
+      bus = { gainNode, volume: 100, muted: false, soloed: false };
+      this.buses.set(busId, bus);
+      this.updateBusGains();
+    }
+    return bus;
+  }
+
+  /**
+   * Whether a bus is heard, by the same solo/mute rule as tracks
+   * [EARS: BUS-002, BUS-003] Soloed buses ignore their mute
+   */
+  private isBusAudible(bus: BusState): boolean {
+    const hasSolo = Array.from(this.buses.values()).some(b => b.soloed);
+    return hasSolo ? bus.soloed : !bus.muted;
+  }
+
+  /**
+   * Update gain for all buses (bus solo affects every bus)
+   * [EARS: BUS-001, BUS-002, BUS-003]
+   */
+  private updateBusGains(): void {
+    for (const bus of this.buses.values()) {
+      bus.gainNode.gain.value = this.isBusAudible(bus) ? bus.volume / 100 : 0;
+    }
+    // Update master gain for the new active track count
+    this.updateMasterGain();
   }
 
   /**
@@ -412,6 +817,17 @@ export class Mixer {
 
     let activeTrackCount = 0;
     for (const track of this.tracks.values()) {
+      // [EARS: BUS-002, BUS-003] Tracks on a silenced bus are not active
+      const bus = track.busId === null ? undefined : this.buses.get(track.busId);
+      if (bus && !this.isBusAudible(bus)) {
+        continue;
+      }
+
+      // [EARS: PRAC-002] Tracks left out of the practice mix are not active
+      if (getPracticeGain(this.practiceMix, track.busId) === 0) {
+        continue;
+      }
+
       if (hasSolo) {
         // Only soloed tracks are active
         if (track.soloed) {
@@ -449,5 +865,11 @@ export class Mixer {
     for (const trackId of trackIds) {
       this.unloadTrack(trackId);
     }
+
+    // Disconnect buses
+    for (const bus of this.buses.values()) {
+      bus.gainNode.disconnect();
+    }
+    this.buses.clear();
   }
 }
@@ -0,0 +1,114 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { encodeVbrMp3 } from './mp3Vbr';
+
+const BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+
+// Stand-in for the lamejs encoder: one frame per 1152 samples, one call behind, like the real one
+function fakeEncoder(channels: number, sampleRate: number, kbps: number) {
+  let pending = 0;
+  const frames = (count: number) => {
+    const length = Math.floor((144000 * kbps) / sampleRate);
+    const bytes = new Int8Array(length * count);
+    for (let i = 0; i < count; i++) {
+      bytes[i * length] = -1; // 0xff
+      bytes[i * length + 1] = -5; // 0xfb
+      bytes[i * length + 2] = (BITRATES.indexOf(kbps) << 4) | ((sampleRate === 48000 ? 1 : 0) << 2);
+      bytes[i * length + 3] = channels === 1 ? 0xc0 : 0x00;
+    }
+    return bytes;
+  };
+  return {
+    encodeBuffer: (left: Int16Array) => {
+      const ready = pending;
+      pending = left.length > 0 ? 1 : 0;
+      return frames(ready);
+    },
+    flush: () => frames(pending + 1),
+  };
+}
+
+// Frames of an MPEG-1 Layer III file, by their header sizes
+function splitFrames(file: Uint8Array): Uint8Array[] {
+  const frames: Uint8Array[] = [];
+  for (let offset = 0; offset < file.length; ) {
+    const header = file[offset + 2] ?? 0;
+    const sampleRate = (header >> 2) & 0x03 ? 48000 : 44100;
+    const length = Math.floor((144000 * (BITRATES[header >> 4] ?? 0)) / sampleRate) + ((header >> 1) & 0x01);
+    frames.push(file.subarray(offset, offset + length));
+    offset += length;
+  }
+  return frames;
+}
+
+function bitrateOf(frame: Uint8Array): number {
+  return BITRATES[(frame[2] ?? 0) >> 4] ?? 0;
+}
+
+function tagAt(file: Uint8Array, offset: number): string {
+  return String.fromCharCode(...file.subarray(offset, offset + 4));
+}
+
+// Silent first half, loud and bright second half
+function signal(frames: number): Int16Array {
+  const data = new Int16Array(frames * 1152);
+  for (let i = data.length / 2; i < data.length; i++) {
+    data[i] = Math.round(16000 * Math.sin(i * 2) + 4000 * (Math.random() - 0.5));
+  }
+  return data;
+}
+
+describe('FMT-003: Variable-bitrate MP3', () => {
+  beforeEach(() => {
+    vi.mocked(window.lamejs.Mp3Encoder).mockImplementation(function (channels: number, sampleRate: number, kbps: number) {
+      return fakeEncoder(channels, sampleRate, kbps);
+    } as unknown as typeof window.lamejs.Mp3Encoder);
+  });
+
+  // ✅ Happy path
+  test('spends more bits on loud frames than on silence', () => {
+    const data = signal(20);
+    const rates = splitFrames(encodeVbrMp3([data, data], 44100, 0)).slice(1).map(bitrateOf);
+
+    expect(rates[3]).toBe(192);
+    expect(rates[rates.length - 3]).toBe(320);
+  });
+
+  test('starts with a Xing header counting the frames and bytes', () => {
+    const data = signal(10);
+    const file = encodeVbrMp3([data, data], 48000, 2);
+    const view = new DataView(file.buffer);
+    const tag = 4 + 32; // Stereo side information
+
+    expect(tagAt(file, tag)).toBe('Xing');
+    expect(view.getUint32(tag + 8)).toBe(splitFrames(file).length - 1);
+    expect(view.getUint32(tag + 12)).toBe(file.length);
+  });
+
+  test('encodes every frame once', () => {
+    const data = signal(10);
+
+    // Ten frames of audio, plus the encoder delay flushed at the end
+    expect(splitFrames(encodeVbrMp3([data], 44100, 4))).toHaveLength(1 + 11);
+  });
+
+  test('uses the mono range for one channel', () => {
+    const data = signal(10);
+    const file = encodeVbrMp3([data], 44100, 6);
+
+    expect(new Set(splitFrames(file).slice(1).map(bitrateOf))).toEqual(new Set([64, 80]));
+    expect(tagAt(file, 4 + 17)).toBe('Xing');
+  });
+
+  // ⚠️ Negative cases
+  test('rejects an unsupported quality', () => {
+    expect(() => encodeVbrMp3([new Int16Array(1152)], 44100, 9)).toThrow('Unsupported VBR quality: 9');
+  });
+
+  // 🔥 Edge cases
+  test('gives silence the lowest bitrate', () => {
+    const data = new Int16Array(5 * 1152);
+    const rates = splitFrames(encodeVbrMp3([data, data], 44100, 2)).slice(1).map(bitrateOf);
+
+    expect(rates.every(rate => rate === 160)).toBe(true);
+  });
+});
@@ -0,0 +1,187 @@
+// [EARS: FMT-003] Variable-bitrate MP3 built from lamejs constant-bitrate encoders
+
+// lamejs only exposes a constant-bitrate encoder. It runs without a bit reservoir, so every frame
+// stands alone: encoding the same audio at several bitrates and picking each frame from one of them
+// yields a valid variable-bitrate stream.
+
+const SAMPLES_PER_FRAME = 1152; // MPEG-1 Layer III
+const ENCODER_DELAY = 1105; // Input samples before the first decoded sample (576 + 529 filter delay)
+
+// Bitrates (kbps) to choose from per quality, lowest first. Lower rates would make lamejs switch
+// to a lower sample rate, and frames at different rates cannot be mixed.
+const STEREO_LADDERS: Record<number, number[]> = {
+  0: [192, 224, 256, 320],
+  2: [160, 192, 224, 256],
+  4: [128, 160, 192],
+  6: [128, 160],
+};
+const MONO_LADDERS: Record<number, number[]> = {
+  0: [96, 112, 128, 160],
+  2: [80, 96, 112, 128],
+  4: [64, 80, 96],
+  6: [64, 80],
+};
+
+// MPEG-1 Layer III header tables
+const BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const SAMPLE_RATES = [44100, 48000, 32000];
+
+const QUIET_DB = -60; // Frames this quiet get the lowest bitrate
+const LOUD_DB = -15; // Frames this loud (and bright) get the highest
+
+/**
+ * Split encoder output into whole frames
+ *
+ * @param bytes - MPEG-1 Layer III frames, back to back
+ * @returns One array per frame
+ * @throws Error if the data is not MPEG-1 Layer III
+ */
+function splitFrames(bytes: Uint8Array): Uint8Array[] {
+  const frames: Uint8Array[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const b1 = bytes[offset + 1] ?? 0;
+    const b2 = bytes[offset + 2] ?? 0;
+    // Sync word, MPEG-1, Layer III
+    if (bytes[offset] !== 0xff || (b1 & 0xfe) !== 0xfa) {
+      throw new Error('Unexpected MP3 frame');
+    }
+    const bitrate = BITRATES[b2 >> 4] ?? 0;
+    const sampleRate = SAMPLE_RATES[(b2 >> 2) & 0x03] ?? 0;
+    if (bitrate === 0 || sampleRate === 0) {
+      throw new Error('Unexpected MP3 frame');
+    }
+    const length = Math.floor((144000 * bitrate) / sampleRate) + ((b2 >> 1) & 0x01);
+    frames.push(bytes.subarray(offset, offset + length));
+    offset += length;
+  }
+  return frames;
+}
+
+/**
+ * How many bits a frame deserves, from 0 (fewest) to 1 (most)
+ * Quiet and dull frames (low level, little high-frequency energy) need fewer bits
+ *
+ * @param channels - Input samples per channel
+ * @param start - First input sample of the frame
+ * @param end - Input sample after the frame
+ * @returns Demand between 0 and 1
+ */
+function frameDemand(channels: Int16Array[], start: number, end: number): number {
+  let energy = 0;
+  let slope = 0;
+  let count = 0;
+  for (const data of channels) {
+    for (let i = Math.max(1, start); i < Math.min(data.length, end); i++) {
+      const sample = (data[i] ?? 0) / 32768;
+      const previous = (data[i - 1] ?? 0) / 32768;
+      energy += sample * sample;
+      slope += (sample - previous) * (sample - previous);
+      count++;
+    }
+  }
+  if (count === 0 || energy === 0) {
+    return 0;
+  }
+
+  const levelDb = 10 * Math.log10(energy / count);
+  const level = Math.max(0, Math.min(1, (levelDb - QUIET_DB) / (LOUD_DB - QUIET_DB)));
+  // Slope energy is twice the signal energy for white noise and near zero for low tones
+  const brightness = Math.min(1, Math.sqrt(slope / energy));
+  return level * (0.5 + 0.5 * brightness);
+}
+
+/**
+ * Xing header frame: tells players the stream is variable bitrate, with its frame count and size
+ *
+ * @param firstFrame - First audio frame (for the sample rate and channel mode)
+ * @param frameCount - Number of audio frames
+ * @param audioBytes - Size of the audio frames in bytes
+ * @returns Silent frame carrying the Xing tag
+ */
+function xingFrame(firstFrame: Uint8Array, frameCount: number, audioBytes: number): Uint8Array {
+  const sampleRateIndex = ((firstFrame[2] ?? 0) >> 2) & 0x03;
+  const sampleRate = SAMPLE_RATES[sampleRateIndex] ?? 44100;
+  const bitrateIndex = BITRATES.indexOf(128);
+  const length = Math.floor((144000 * 128) / sampleRate);
+  const mono = (((firstFrame[3] ?? 0) >> 6) & 0x03) === 3;
+  const tagOffset = 4 + (mono ? 17 : 32); // After the header and side information
+
+  const frame = new Uint8Array(length);
+  const view = new DataView(frame.buffer);
+  frame[0] = 0xff;
+  frame[1] = 0xfb; // MPEG-1 Layer III, no CRC
+  frame[2] = (bitrateIndex << 4) | (sampleRateIndex << 2);
+  frame[3] = firstFrame[3] ?? 0;
+  frame.set([0x58, 0x69, 0x6e, 0x67], tagOffset); // "Xing"
+  view.setUint32(tagOffset + 4, 0x03); // Frame count and byte count present
+  view.setUint32(tagOffset + 8, frameCount);
+  view.setUint32(tagOffset + 12, length + audioBytes);
+  return frame;
+}
+
+/**
+ * Encode 16-bit PCM as a variable-bitrate MP3
+ * [EARS: FMT-003] Each frame gets a bitrate from the quality's range, by how much the audio in it needs
+ *
+ * @param channels - One (mono) or two (stereo) channels of samples
+ * @param sampleRate - Sample rate in Hz (32, 44.1 or 48 kHz)
+ * @param quality - 0 (best) to 6 (smallest), in steps of 2
+ * @returns MP3 file: a Xing header frame, then the audio frames
+ * @throws Error if the quality is not supported
+ */
+export function encodeVbrMp3(channels: Int16Array[], sampleRate: number, quality: number): Uint8Array<ArrayBuffer> {
+  const mono = channels.length === 1;
+  const ladder = (mono ? MONO_LADDERS : STEREO_LADDERS)[quality];
+  if (!ladder) {
+    throw new Error(`Unsupported VBR quality: ${quality}`);
+  }
+
+  const left = channels[0] ?? new Int16Array(0);
+  const right = channels[1] ?? left;
+
+  // Every encoder sees the same audio, so frame n covers the same time in each
+  const encoders = ladder.map(kbps => new window.lamejs.Mp3Encoder(channels.length, sampleRate, kbps));
+  const framesByEncoder: Uint8Array[][] = ladder.map(() => []);
+  const collect = (index: number, chunk: Int8Array) => {
+    framesByEncoder[index]?.push(...splitFrames(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.length)));
+  };
+
+  for (let i = 0; i < left.length; i += SAMPLES_PER_FRAME) {
+    const leftChunk = left.subarray(i, i + SAMPLES_PER_FRAME);
+    const rightChunk = right.subarray(i, i + SAMPLES_PER_FRAME);
+    encoders.forEach((encoder, index) => {
+      collect(index, mono ? encoder.encodeBuffer(leftChunk) : encoder.encodeBuffer(leftChunk, rightChunk));
+    });
+  }
+  encoders.forEach((encoder, index) => collect(index, encoder.flush()));
+
+  const frameCount = framesByEncoder[0]?.length ?? 0;
+  if (framesByEncoder.some(frames => frames.length !== frameCount)) {
+    throw new Error('MP3 encoders went out of step');
+  }
+
+  const frames: Uint8Array[] = [];
+  for (let n = 0; n < frameCount; n++) {
+    // Input behind frame n, widened by half a frame for the MDCT overlap
+    const start = n * SAMPLES_PER_FRAME - ENCODER_DELAY - SAMPLES_PER_FRAME / 2;
+    const demand = frameDemand(channels, start, start + 2 * SAMPLES_PER_FRAME);
+    const choice = Math.round(demand * (ladder.length - 1));
+    frames.push(framesByEncoder[choice]?.[n] ?? new Uint8Array(0));
+  }
+
+  const firstFrame = frames[0];
+  if (!firstFrame) {
+    return new Uint8Array(0);
+  }
+  const audioBytes = frames.reduce((size, frame) => size + frame.length, 0);
+  const header = xingFrame(firstFrame, frameCount, audioBytes);
+  const file = new Uint8Array(header.length + audioBytes);
+  file.set(header);
+  let offset = header.length;
+  for (const frame of frames) {
+    file.set(frame, offset);
+    offset += frame.length;
+  }
+  return file;
+}
@@ -0,0 +1,14 @@
+import { describe, test, expect } from 'vitest';
+import { formatBarBeatTick } from './musicalTime';
+
+describe('BAR-001: Bar:beat:tick formatting', () => {
+  // ✅ Happy path
+  test('formats as bar:beat:tick', () => {
+    expect(formatBarBeatTick({ bar: 17, beat: 3, tick: 5 })).toBe('17:3:005');
+  });
+
+  // 🔥 Edge cases
+  test('keeps three tick digits at the top of a beat', () => {
+    expect(formatBarBeatTick({ bar: 1, beat: 1, tick: 0 })).toBe('1:1:000');
+  });
+});
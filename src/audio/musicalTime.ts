@@ -0,0 +1,20 @@
+// [EARS: BAR-001] Musical position types and formatting
+
+import type { TimeSignature } from '@/store/types';
+
+export const TICKS_PER_BEAT = 480;
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { beatsPerBar: 4, beatUnit: 4 };
+
+export interface BarBeatTick {
+  bar: number; // 1-based
+  beat: number; // 1-based within the bar
+  tick: number; // 0 to TICKS_PER_BEAT - 1
+}
+
+/**
+ * Format a musical position as "bar:beat:tick", e.g. "17:1:000"
+ * [EARS: BAR-001]
+ */
+export function formatBarBeatTick({ bar, beat, tick }: BarBeatTick): string {
+  return `${bar}:${beat}:${tick.toString().padStart(3, '0')}`;
+}
@@ -0,0 +1,132 @@
+import { describe, test, expect } from 'vitest';
+import { createOggStream, oggCrc32 } from './ogg';
+
+interface Page {
+  flags: number;
+  granulePosition: bigint;
+  serialNumber: number;
+  sequence: number;
+  segments: number[];
+  body: Uint8Array;
+  crcValid: boolean;
+}
+
+function parsePages(stream: Uint8Array): Page[] {
+  const pages: Page[] = [];
+  let offset = 0;
+  while (offset < stream.length) {
+    const view = new DataView(stream.buffer, stream.byteOffset + offset);
+    expect(new TextDecoder().decode(stream.subarray(offset, offset + 4))).toBe('OggS');
+    const segmentCount = stream[offset + 26]!;
+    const segments = Array.from(stream.subarray(offset + 27, offset + 27 + segmentCount));
+    const size = 27 + segmentCount + segments.reduce((a, b) => a + b, 0);
+
+    const copy = stream.slice(offset, offset + size);
+    copy.fill(0, 22, 26);
+    pages.push({
+      flags: stream[offset + 5]!,
+      granulePosition: view.getBigInt64(6, true),
+      serialNumber: view.getUint32(14, true),
+      sequence: view.getUint32(18, true),
+      segments,
+      body: stream.subarray(offset + 27 + segmentCount, offset + size),
+      crcValid: oggCrc32(copy) === view.getUint32(22, true),
+    });
+    offset += size;
+  }
+  return pages;
+}
+
+function joinPackets(pages: Page[]): number[][] {
+  const packets: number[][] = [];
+  let current: number[] = [];
+  for (const page of pages) {
+    let offset = 0;
+    for (const size of page.segments) {
+      current.push(...page.body.subarray(offset, offset + size));
+      offset += size;
+      if (size < 255) {
+        packets.push(current);
+        current = [];
+      }
+    }
+  }
+  return packets;
+}
+
+function bytes(length: number, fill: number): Uint8Array {
+  return new Uint8Array(length).fill(fill);
+}
+
+describe('OPUS-002: Ogg pages', () => {
+  // ✅ Happy path
+  test('puts each header on its own page, then the audio', () => {
+    const pages = parsePages(
+      createOggStream(
+        [bytes(19, 1), bytes(30, 2)],
+        [
+          { data: bytes(100, 3), granulePosition: 960 },
+          { data: bytes(100, 4), granulePosition: 1920 },
+        ],
+        1234
+      )
+    );
+
+    expect(pages).toHaveLength(3);
+    expect(pages.map(page => page.granulePosition)).toEqual([0n, 0n, 1920n]);
+    expect(pages.map(page => page.sequence)).toEqual([0, 1, 2]);
+    expect(pages.every(page => page.serialNumber === 1234 && page.crcValid)).toBe(true);
+  });
+
+  test('flags the first page as the beginning and the last as the end', () => {
+    const pages = parsePages(createOggStream([bytes(19, 1), bytes(30, 2)], [{ data: bytes(10, 3), granulePosition: 960 }], 1));
+
+    expect(pages.map(page => page.flags)).toEqual([0x02, 0x00, 0x04]);
+  });
+
+  test('reassembles into the same packets', () => {
+    const audio = [bytes(254, 5), bytes(255, 6), bytes(510, 7), bytes(0, 0), bytes(3, 8)];
+    const stream = createOggStream(
+      [bytes(19, 1)],
+      audio.map((data, i) => ({ data, granulePosition: (i + 1) * 960 })),
+      1
+    );
+
+    expect(joinPackets(parsePages(stream))).toEqual([bytes(19, 1), ...audio].map(packet => Array.from(packet)));
+  });
+
+  test('computes the Ogg CRC', () => {
+    // Unreflected CRC-32 with polynomial 0x04c11db7, no initial or final inversion
+    expect(oggCrc32(new TextEncoder().encode('123456789'))).toBe(0x89a1897f);
+  });
+
+  // ⚠️ Negative cases
+  test('ends the stream on the last header when there is no audio', () => {
+    const pages = parsePages(createOggStream([bytes(19, 1), bytes(30, 2)], [], 1));
+
+    expect(pages.map(page => page.flags)).toEqual([0x02, 0x04]);
+  });
+
+  // 🔥 Edge cases
+  test('continues a packet too long for one page on the next', () => {
+    const big = new Uint8Array(300 * 255).map((_, i) => i % 251);
+    const pages = parsePages(createOggStream([bytes(19, 1)], [{ data: big, granulePosition: 960 }], 1));
+
+    expect(pages).toHaveLength(3);
+    expect(pages[1]!.segments).toHaveLength(255);
+    expect(pages[1]!.granulePosition).toBe(-1n); // No packet finishes on it
+    expect(pages[2]!.flags).toBe(0x01 | 0x04);
+    expect(pages[2]!.granulePosition).toBe(960n);
+    expect(joinPackets(pages)[1]).toEqual(Array.from(big));
+  });
+
+  test('starts a new page after 255 segments', () => {
+    const audio = Array.from({ length: 300 }, (_, i) => ({ data: bytes(10, 1), granulePosition: (i + 1) * 960 }));
+    const pages = parsePages(createOggStream([bytes(19, 1)], audio, 1));
+
+    expect(pages).toHaveLength(3);
+    expect(pages[1]!.flags).toBe(0);
+    expect(pages[1]!.granulePosition).toBe(BigInt(255 * 960));
+    expect(pages[2]!.granulePosition).toBe(BigInt(300 * 960));
+  });
+});
@@ -0,0 +1,138 @@
+// [EARS: OPUS-002] Ogg container pages
+
+export interface OggPacket {
+  data: Uint8Array;
+  granulePosition: number; // Stream position at the end of the packet (codec-defined units)
+}
+
+const FLAG_CONTINUED = 0x01; // Page starts inside a packet
+const FLAG_FIRST = 0x02; // Beginning of stream
+const FLAG_LAST = 0x04; // End of stream
+const MAX_SEGMENTS = 255; // Lacing values per page
+const NO_PACKET_ENDS = -1; // Granule position of a page on which no packet finishes
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 of an Ogg page (polynomial 0x04c11db7, unreflected, no final inversion)
+ *
+ * @param bytes - Page with its checksum field zeroed
+ * @returns Unsigned 32-bit checksum
+ */
+export function oggCrc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n << 24;
+      for (let k = 0; k < 8; k++) {
+        c = c & 0x80000000 ? (c << 1) ^ 0x04c11db7 : c << 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) ^ (crcTable[((crc >>> 24) ^ (bytes[i] ?? 0)) & 0xff] ?? 0)) >>> 0;
+  }
+  return crc;
+}
+
+/**
+ * Build one page
+ *
+ * @param segments - Lacing values
+ * @param body - Page data
+ * @param flags - Header type flags
+ * @param granulePosition - Granule position of the last packet finishing on the page
+ * @param serialNumber - Logical stream serial number
+ * @param sequence - Page sequence number
+ * @returns Page bytes
+ */
+function buildPage(
+  segments: number[],
+  body: Uint8Array,
+  flags: number,
+  granulePosition: number,
+  serialNumber: number,
+  sequence: number
+): Uint8Array {
+  const page = new Uint8Array(27 + segments.length + body.length);
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  page[4] = 0; // Version
+  page[5] = flags;
+  view.setBigInt64(6, BigInt(granulePosition), true);
+  view.setUint32(14, serialNumber, true);
+  view.setUint32(18, sequence, true);
+  page[26] = segments.length;
+  page.set(segments, 27);
+  page.set(body, 27 + segments.length);
+  view.setUint32(22, oggCrc32(page), true);
+  return page;
+}
+
+/**
+ * Lay packets out as an Ogg logical stream
+ * [EARS: OPUS-002] Header packets each finish their own page; audio packets share pages,
+ * and every page carries the granule position of the last packet finishing on it
+ *
+ * @param headers - Codec header packets (granule position 0)
+ * @param packets - Audio packets
+ * @param serialNumber - Logical stream serial number
+ * @returns Ogg stream, first page flagged as the beginning and last page as the end
+ */
+export function createOggStream(headers: Uint8Array[], packets: OggPacket[], serialNumber: number): Uint8Array<ArrayBuffer> {
+  const pages: Uint8Array[] = [];
+  let segments: number[] = [];
+  let body: number[] = [];
+  let granulePosition = NO_PACKET_ENDS;
+  let continued = false;
+
+  const flushPage = (last: boolean) => {
+    const flags = (pages.length === 0 ? FLAG_FIRST : 0) | (continued ? FLAG_CONTINUED : 0) | (last ? FLAG_LAST : 0);
+    pages.push(buildPage(segments, new Uint8Array(body), flags, granulePosition, serialNumber, pages.length));
+    segments = [];
+    body = [];
+    granulePosition = NO_PACKET_ENDS;
+    continued = false;
+  };
+
+  const addPacket = (data: Uint8Array, packetGranule: number) => {
+    // Lacing: 255 for every full segment, then the remainder (0 when the size is a multiple of 255)
+    let offset = 0;
+    for (;;) {
+      if (segments.length === MAX_SEGMENTS) {
+        flushPage(false);
+        continued = offset > 0;
+      }
+      const size = Math.min(255, data.length - offset);
+      segments.push(size);
+      body.push(...data.subarray(offset, offset + size));
+      offset += size;
+      if (size < 255) {
+        break;
+      }
+    }
+    granulePosition = packetGranule;
+  };
+
+  headers.forEach((header, index) => {
+    addPacket(header, 0);
+    flushPage(packets.length === 0 && index === headers.length - 1);
+  });
+  packets.forEach((packet, index) => {
+    addPacket(packet.data, packet.granulePosition);
+    if (index === packets.length - 1) {
+      flushPage(true);
+    }
+  });
+
+  const stream = new Uint8Array(pages.reduce((size, page) => size + page.length, 0));
+  let offset = 0;
+  for (const page of pages) {
+    stream.set(page, offset);
+    offset += page.length;
+  }
+  return stream;
+}
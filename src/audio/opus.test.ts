@@ -0,0 +1,197 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { encodeOggOpus, opusPacketSamples } from './opus';
+
+const PACKET_SAMPLES = 960; // 20 ms at 48 kHz
+const LOOKAHEAD = 312;
+
+// Fake WebCodecs encoder: one 20 ms CELT packet per 960 samples, plus a packet of padding at the end
+class FakeAudioEncoder {
+  static supported = true;
+  static configs: AudioEncoderConfig[] = [];
+  static failWith: string | null = null;
+  static inputFrames: number[] = [];
+  static inputChannels: number[] = [];
+
+  state: CodecState = 'unconfigured';
+  private frames = 0;
+  private readonly init: AudioEncoderInit;
+
+  constructor(init: AudioEncoderInit) {
+    this.init = init;
+  }
+
+  static isConfigSupported(config: AudioEncoderConfig): Promise<AudioEncoderSupport> {
+    return Promise.resolve({ supported: FakeAudioEncoder.supported, config });
+  }
+
+  configure(config: AudioEncoderConfig): void {
+    FakeAudioEncoder.configs.push(config);
+    this.state = 'configured';
+  }
+
+  encode(data: { numberOfFrames: number; numberOfChannels: number }): void {
+    this.frames += data.numberOfFrames;
+    FakeAudioEncoder.inputFrames.push(data.numberOfFrames);
+    FakeAudioEncoder.inputChannels.push(data.numberOfChannels);
+  }
+
+  flush(): Promise<void> {
+    if (FakeAudioEncoder.failWith) {
+      this.init.error(new DOMException(FakeAudioEncoder.failWith));
+      return Promise.resolve();
+    }
+    const packets = Math.ceil((this.frames + LOOKAHEAD) / PACKET_SAMPLES) + 1;
+    for (let i = 0; i < packets; i++) {
+      const chunk = { byteLength: 3, copyTo: (target: Uint8Array) => target.set([0xf8, i & 0xff, 0x55]) };
+      const head = new Uint8Array(19);
+      head.set(new TextEncoder().encode('OpusHead'));
+      head[10] = LOOKAHEAD & 0xff;
+      head[11] = LOOKAHEAD >> 8;
+      const metadata = i === 0 ? { decoderConfig: { codec: 'opus', sampleRate: 48000, numberOfChannels: 2, description: head } } : {};
+      this.init.output(chunk as unknown as EncodedAudioChunk, metadata as EncodedAudioChunkMetadata);
+    }
+    return Promise.resolve();
+  }
+
+  close(): void {
+    this.state = 'closed';
+  }
+}
+
+class FakeAudioData {
+  numberOfFrames: number;
+  numberOfChannels: number;
+
+  constructor(init: AudioDataInit) {
+    this.numberOfFrames = init.numberOfFrames;
+    this.numberOfChannels = init.numberOfChannels;
+  }
+
+  close(): void {}
+}
+
+interface Page {
+  flags: number;
+  granulePosition: bigint;
+  body: Uint8Array;
+}
+
+function parsePages(stream: Uint8Array): Page[] {
+  const pages: Page[] = [];
+  let offset = 0;
+  while (offset < stream.length) {
+    const segmentCount = stream[offset + 26]!;
+    const bodySize = Array.from(stream.subarray(offset + 27, offset + 27 + segmentCount)).reduce((a, b) => a + b, 0);
+    pages.push({
+      flags: stream[offset + 5]!,
+      granulePosition: new DataView(stream.buffer, stream.byteOffset + offset).getBigInt64(6, true),
+      body: stream.subarray(offset + 27 + segmentCount, offset + 27 + segmentCount + bodySize),
+    });
+    offset += 27 + segmentCount + bodySize;
+  }
+  return pages;
+}
+
+describe('OPUS-001, OPUS-002: Ogg/Opus encoding', () => {
+  beforeEach(() => {
+    FakeAudioEncoder.supported = true;
+    FakeAudioEncoder.configs = [];
+    FakeAudioEncoder.failWith = null;
+    FakeAudioEncoder.inputFrames = [];
+    FakeAudioEncoder.inputChannels = [];
+    vi.stubGlobal('AudioEncoder', FakeAudioEncoder);
+    vi.stubGlobal('AudioData', FakeAudioData);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // ✅ Happy path
+  test('configures the encoder for 48 kHz Opus at the bitrate', async () => {
+    await encodeOggOpus([new Float32Array(4800), new Float32Array(4800)], 48000, 96);
+
+    expect(FakeAudioEncoder.configs[0]).toMatchObject({
+      codec: 'opus',
+      sampleRate: 48000,
+      numberOfChannels: 2,
+      bitrate: 96000,
+    });
+  });
+
+  test('resamples the input to 48 kHz', async () => {
+    await encodeOggOpus([new Float32Array(44100)], 44100, 64);
+
+    expect(FakeAudioEncoder.inputFrames.reduce((a, b) => a + b, 0)).toBe(48000);
+    expect(FakeAudioEncoder.inputChannels).toEqual([1]);
+  });
+
+  test('writes the OpusHead header', async () => {
+    const pages = parsePages(await encodeOggOpus([new Float32Array(4410), new Float32Array(4410)], 44100, 96));
+    const head = pages[0]!.body;
+    const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+
+    expect(new TextDecoder().decode(head.subarray(0, 8))).toBe('OpusHead');
+    expect(head[8]).toBe(1); // Version
+    expect(head[9]).toBe(2); // Channels
+    expect(view.getUint16(10, true)).toBe(LOOKAHEAD); // Pre-skip
+    expect(view.getUint32(12, true)).toBe(44100); // Input sample rate
+    expect(view.getInt16(16, true)).toBe(0); // Output gain
+    expect(head[18]).toBe(0); // Mapping family
+    expect(pages[0]!.flags).toBe(0x02);
+  });
+
+  test('writes the OpusTags header with the tags', async () => {
+    const pages = parsePages(await encodeOggOpus([new Float32Array(960)], 48000, 96, { TITLE: 'Ave Verum' }));
+    const tags = new TextDecoder().decode(pages[1]!.body);
+
+    expect(tags.startsWith('OpusTags')).toBe(true);
+    expect(tags).toContain('TITLE=Ave Verum');
+    expect(pages[1]!.granulePosition).toBe(0n);
+  });
+
+  test('ends the last page at the end of the input, after the pre-skip', async () => {
+    const pages = parsePages(await encodeOggOpus([new Float32Array(10000)], 48000, 96));
+    const last = pages[pages.length - 1]!;
+
+    expect(last.flags & 0x04).toBe(0x04);
+    expect(last.granulePosition).toBe(BigInt(LOOKAHEAD + 10000));
+  });
+
+  // ⚠️ Negative cases
+  test('throws when the browser has no audio encoder', async () => {
+    vi.stubGlobal('AudioEncoder', undefined);
+
+    await expect(encodeOggOpus([new Float32Array(960)], 48000, 96)).rejects.toThrow('This browser cannot encode Opus');
+  });
+
+  test('throws when the browser cannot encode Opus', async () => {
+    FakeAudioEncoder.supported = false;
+
+    await expect(encodeOggOpus([new Float32Array(960)], 48000, 96)).rejects.toThrow('This browser cannot encode Opus');
+  });
+
+  test('throws when the encoder fails', async () => {
+    FakeAudioEncoder.failWith = 'Encoder crashed';
+
+    await expect(encodeOggOpus([new Float32Array(960)], 48000, 96)).rejects.toThrow('Opus encoding failed: Encoder crashed');
+  });
+
+  // 🔥 Edge cases
+  test('drops packets that hold only padding', async () => {
+    // 2880 samples + 312 lookahead need four packets; the fake encoder adds a fifth
+    const pages = parsePages(await encodeOggOpus([new Float32Array(960 * 3)], 48000, 96));
+    const audioBytes = pages.slice(2).reduce((size, page) => size + page.body.length, 0);
+
+    expect(audioBytes).toBe(3 * Math.ceil((960 * 3 + LOOKAHEAD) / PACKET_SAMPLES));
+  });
+
+  test('counts the samples in each packet from its TOC byte', () => {
+    expect(opusPacketSamples(new Uint8Array([0xf8]))).toBe(960); // CELT 20 ms, one frame
+    expect(opusPacketSamples(new Uint8Array([0xf9]))).toBe(1920); // Two frames
+    expect(opusPacketSamples(new Uint8Array([0xfb, 0x03]))).toBe(2880); // Three frames (code 3)
+    expect(opusPacketSamples(new Uint8Array([0x18]))).toBe(2880); // SILK 60 ms
+    expect(opusPacketSamples(new Uint8Array([0x68]))).toBe(960); // Hybrid 20 ms
+    expect(opusPacketSamples(new Uint8Array([0x80]))).toBe(120); // CELT 2.5 ms
+  });
+});
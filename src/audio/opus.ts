@@ -0,0 +1,183 @@
+// [EARS: OPUS-001, OPUS-002, OPUS-004] Ogg/Opus encoding with the browser's WebCodecs Opus encoder
+
+import { createOggStream, type OggPacket } from './ogg';
+import { resample } from './pcm';
+import { vorbisComment } from './flac';
+
+const OPUS_RATE = 48000; // Opus always runs at 48 kHz; the granule position counts 48 kHz samples
+const DEFAULT_PRE_SKIP = 312; // libopus lookahead at 48 kHz, if the encoder does not report its own
+const CHUNK_FRAMES = OPUS_RATE; // Samples per channel handed to the encoder at a time
+
+export const OPUS_VENDOR = 'recorder Ogg/Opus encoder (WebCodecs)';
+
+/**
+ * Samples (at 48 kHz) in an Opus packet, from its TOC byte (RFC 6716 section 3.1)
+ *
+ * @param packet - Opus packet
+ * @returns Samples per channel
+ */
+export function opusPacketSamples(packet: Uint8Array): number {
+  const toc = packet[0] ?? 0;
+  const config = toc >> 3;
+  let frameSize: number;
+  if (config < 12) {
+    frameSize = [480, 960, 1920, 2880][config % 4] ?? 960; // SILK: 10, 20, 40, 60 ms
+  } else if (config < 16) {
+    frameSize = [480, 960][config % 2] ?? 960; // Hybrid: 10, 20 ms
+  } else {
+    frameSize = [120, 240, 480, 960][config % 4] ?? 960; // CELT: 2.5, 5, 10, 20 ms
+  }
+  const code = toc & 0x03;
+  const frames = code === 0 ? 1 : code === 3 ? (packet[1] ?? 0) & 0x3f : 2;
+  return frameSize * frames;
+}
+
+/**
+ * OpusHead identification header (RFC 7845 section 5.1)
+ *
+ * @param channels - Channel count (1 or 2)
+ * @param preSkip - Samples to drop from the start of the decoded audio
+ * @param inputSampleRate - Sample rate of the audio before encoding
+ * @returns Header packet
+ */
+function opusHead(channels: number, preSkip: number, inputSampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1; // Version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // Output gain
+  head[18] = 0; // Channel mapping family: mono or stereo
+  return head;
+}
+
+/**
+ * OpusTags comment header (RFC 7845 section 5.2)
+ *
+ * @param tags - Comments by field name
+ * @returns Header packet
+ */
+function opusTags(tags: Record<string, string>): Uint8Array {
+  const comment = vorbisComment(OPUS_VENDOR, tags);
+  const packet = new Uint8Array(8 + comment.length);
+  packet.set(new TextEncoder().encode('OpusTags'));
+  packet.set(comment, 8);
+  return packet;
+}
+
+/**
+ * Encode audio as an Ogg/Opus file
+ * [EARS: OPUS-001] Opus at the given bitrate, resampled to 48 kHz
+ * [EARS: OPUS-002] OpusHead and OpusTags headers; the last granule position trims the encoder's padding
+ * [EARS: OPUS-004] Needs the browser's WebCodecs Opus encoder
+ *
+ * @param channels - One (mono) or two (stereo) channels of float samples
+ * @param sampleRate - Sample rate of the input in Hz
+ * @param bitrate - Target bitrate in kbps
+ * @param tags - Vorbis comments, e.g. { TITLE: 'Ave Verum' }
+ * @returns Ogg/Opus file
+ * @throws Error if the browser cannot encode Opus, or the encoder fails
+ */
+export async function encodeOggOpus(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitrate: number,
+  tags: Record<string, string> = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error('This browser cannot encode Opus');
+  }
+
+  const config: AudioEncoderConfig = {
+    codec: 'opus',
+    sampleRate: OPUS_RATE,
+    numberOfChannels: channels.length,
+    bitrate: bitrate * 1000,
+    opus: { format: 'opus' },
+  };
+  const { supported } = await AudioEncoder.isConfigSupported(config);
+  if (!supported) {
+    throw new Error('This browser cannot encode Opus');
+  }
+
+  const input = channels.map(data => resample(data, sampleRate, OPUS_RATE));
+  const length = input[0]?.length ?? 0;
+
+  const chunks: Uint8Array[] = [];
+  let preSkip = DEFAULT_PRE_SKIP;
+  let encoderError: DOMException | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      chunks.push(data);
+
+      // The decoder config carries an OpusHead with the encoder's real lookahead
+      const description = metadata?.decoderConfig?.description;
+      if (description) {
+        const head = ArrayBuffer.isView(description)
+          ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+          : new Uint8Array(description);
+        if (head.length >= 12 && new TextDecoder().decode(head.subarray(0, 8)) === 'OpusHead') {
+          preSkip = (head[10] ?? 0) | ((head[11] ?? 0) << 8);
+        }
+      }
+    },
+    error: error => {
+      encoderError = error;
+    },
+  });
+
+  try {
+    encoder.configure(config);
+    for (let start = 0; start < length; start += CHUNK_FRAMES) {
+      const frames = Math.min(CHUNK_FRAMES, length - start);
+      const planar = new Float32Array(frames * input.length);
+      input.forEach((data, channel) => planar.set(data.subarray(start, start + frames), channel * frames));
+      const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate: OPUS_RATE,
+        numberOfChannels: input.length,
+        numberOfFrames: frames,
+        timestamp: Math.round((start / OPUS_RATE) * 1_000_000), // Microseconds
+        data: planar,
+      });
+      encoder.encode(audioData);
+      audioData.close();
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') {
+      encoder.close();
+    }
+  }
+  if (encoderError) {
+    throw new Error(`Opus encoding failed: ${(encoderError as DOMException).message}`);
+  }
+
+  // Granule positions count decoded samples including the pre-skip. Packets that start past the
+  // input's end hold only padding; the last one kept ends at the input's end.
+  const end = preSkip + length;
+  const packets: OggPacket[] = [];
+  let position = 0;
+  for (const data of chunks) {
+    if (position >= end && packets.length > 0) {
+      break;
+    }
+    position += opusPacketSamples(data);
+    packets.push({ data, granulePosition: position });
+  }
+  const lastPacket = packets[packets.length - 1];
+  if (lastPacket) {
+    lastPacket.granulePosition = Math.min(lastPacket.granulePosition, end);
+  }
+
+  const serialNumber = Math.floor(Math.random() * 0x100000000);
+  return createOggStream(
+    [opusHead(channels.length, preSkip, sampleRate), opusTags(tags)],
+    packets,
+    serialNumber
+  );
+}
@@ -0,0 +1,90 @@
+import { describe, test, expect } from 'vitest';
+import { quantize, resample } from './pcm';
+
+function sine(frequency: number, sampleRate: number, seconds: number): Float32Array {
+  const data = new Float32Array(Math.round(sampleRate * seconds));
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return data;
+}
+
+// Peak level away from the edges, where the filter has no input on one side
+function innerPeak(data: Float32Array): number {
+  let peak = 0;
+  for (let i = Math.floor(data.length / 4); i < Math.floor((data.length * 3) / 4); i++) {
+    peak = Math.max(peak, Math.abs(data[i] ?? 0));
+  }
+  return peak;
+}
+
+describe('FMT-002: Resampling', () => {
+  // ✅ Happy path
+  test('scales the length by the rate ratio', () => {
+    expect(resample(new Float32Array(44100), 44100, 48000)).toHaveLength(48000);
+    expect(resample(new Float32Array(48000), 48000, 44100)).toHaveLength(44100);
+  });
+
+  test('keeps a tone at its pitch and level', () => {
+    const output = resample(sine(1000, 44100, 0.5), 44100, 48000);
+    const expected = sine(1000, 48000, 0.5);
+
+    expect(innerPeak(output)).toBeCloseTo(0.5, 2);
+    for (let i = 12000; i < 12100; i++) {
+      expect(output[i]).toBeCloseTo(expected[i]!, 2);
+    }
+  });
+
+  test('filters out what the lower rate cannot hold', () => {
+    // 23 kHz fits under 24 kHz but not under 22.05 kHz: left alone it would fold back to 21.1 kHz
+    const output = resample(sine(23000, 48000, 0.5), 48000, 44100);
+
+    expect(innerPeak(output)).toBeLessThan(0.01);
+  });
+
+  // 🔥 Edge cases
+  test('copies audio already at the rate', () => {
+    const data = sine(1000, 48000, 0.01);
+    const output = resample(data, 48000, 48000);
+
+    expect(output).toEqual(data);
+    expect(output).not.toBe(data);
+  });
+});
+
+describe('FMT-005: Dithered quantization', () => {
+  // ✅ Happy path
+  test('stays within one step of the exact value', () => {
+    const samples = sine(1000, 48000, 0.1);
+    const output = quantize(samples, 16);
+
+    for (let i = 0; i < samples.length; i++) {
+      expect(Math.abs(output[i]! - samples[i]! * 32768)).toBeLessThanOrEqual(1.5);
+    }
+  });
+
+  test('averages to the exact value below one step', () => {
+    const samples = new Float32Array(20000).fill(0.25 / 32768);
+    const output = quantize(samples, 16);
+    const mean = output.reduce((sum, value) => sum + value, 0) / output.length;
+
+    expect(mean).toBeCloseTo(0.25, 1);
+  });
+
+  test('scales 24-bit samples to 24 bits', () => {
+    expect(Math.abs(quantize(new Float32Array([0.5]), 24)[0]! - 4194304)).toBeLessThanOrEqual(1);
+  });
+
+  // 🔥 Edge cases
+  test('clips at full scale', () => {
+    expect(Array.from(quantize(new Float32Array([2, -2]), 16))).toEqual([32767, -32768]);
+    expect(Array.from(quantize(new Float32Array([2, -2]), 24))).toEqual([8388607, -8388608]);
+  });
+
+  test('turns silence into noise of at most one step', () => {
+    const output = quantize(new Float32Array(1000), 16);
+
+    expect(output.every(value => Math.abs(value) <= 1)).toBe(true);
+    expect(output.some(value => value !== 0)).toBe(true);
+  });
+});
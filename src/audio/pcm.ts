@@ -0,0 +1,85 @@
+// [EARS: FMT-002, FMT-005] Sample-rate conversion and dithered bit-depth reduction
+
+const ZERO_CROSSINGS = 32; // Sinc lobes either side of each output sample
+const PASSBAND = 0.9; // Cutoff as a fraction of the lower Nyquist frequency, so the filter slope ends below it
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+/**
+ * Resample audio with a windowed-sinc low-pass filter
+ * [EARS: FMT-002] Band-limited to the lower of the two rates, so downsampling does not alias
+ *
+ * @param data - Input samples
+ * @param fromRate - Input sample rate in Hz (whole number)
+ * @param toRate - Output sample rate in Hz (whole number)
+ * @returns Resampled data (a copy when the rates match)
+ */
+export function resample(data: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) {
+    return data.slice();
+  }
+
+  // Output sample n sits at input position n * step / phases: 44.1 to 48 kHz repeats every 160 outputs
+  const divisor = greatestCommonDivisor(fromRate, toRate);
+  const step = fromRate / divisor;
+  const phases = toRate / divisor;
+
+  const cutoff = PASSBAND * Math.min(1, toRate / fromRate); // Fraction of the input Nyquist frequency
+  const radius = Math.ceil(ZERO_CROSSINGS / cutoff); // Input samples either side
+
+  // Filter weights for each phase: scaled sinc under a Blackman window
+  const weights: Float32Array[] = [];
+  for (let phase = 0; phase < phases; phase++) {
+    const fraction = phase / phases;
+    const taps = new Float32Array(2 * radius);
+    for (let k = 0; k < taps.length; k++) {
+      const distance = fraction - (k - radius + 1); // From input sample floor(position) - radius + 1 + k
+      if (Math.abs(distance) >= radius) {
+        continue;
+      }
+      const x = Math.PI * cutoff * distance;
+      const sinc = distance === 0 ? 1 : Math.sin(x) / x;
+      const angle = Math.PI * (distance / radius + 1); // 0 to 2π across the window
+      const window = 0.42 - 0.5 * Math.cos(angle) + 0.08 * Math.cos(2 * angle);
+      taps[k] = cutoff * sinc * window;
+    }
+    weights.push(taps);
+  }
+
+  const output = new Float32Array(Math.round((data.length * phases) / step));
+  for (let n = 0; n < output.length; n++) {
+    const base = Math.floor((n * step) / phases);
+    const taps = weights[(n * step) % phases] ?? new Float32Array(0);
+    const first = base - radius + 1;
+    const end = Math.min(taps.length, data.length - first);
+    let sum = 0;
+    for (let k = Math.max(0, -first); k < end; k++) {
+      sum += (data[first + k] ?? 0) * (taps[k] ?? 0);
+    }
+    output[n] = sum;
+  }
+  return output;
+}
+
+/**
+ * Convert float samples to signed integers
+ * [EARS: FMT-005] TPDF dither of ±1 LSB turns the rounding error into steady noise instead of distortion
+ *
+ * @param samples - Float samples (-1 to 1, clipped beyond)
+ * @param bitsPerSample - Integer size (16 or 24)
+ * @returns Integer samples
+ */
+export function quantize(samples: Float32Array, bitsPerSample: 16 | 24): Int32Array {
+  const scale = Math.pow(2, bitsPerSample - 1);
+  const max = scale - 1;
+  const output = new Int32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    // The difference of two uniform values has a triangular distribution
+    const dither = Math.random() - Math.random();
+    const value = Math.round((samples[i] ?? 0) * scale + dither);
+    output[i] = Math.max(-scale, Math.min(max, value));
+  }
+  return output;
+}
@@ -0,0 +1,113 @@
+import { describe, test, expect } from 'vitest';
+import { formatPitch, formatCents, calculateFrequency, nearestPitch, DEFAULT_TUNING } from './pitch';
+
+describe('TONE-008: Pitch names', () => {
+  // ✅ Happy path
+  test('formats pitches in scientific pitch notation', () => {
+    expect(formatPitch({ semitone: 0, octave: 4 })).toBe('C4');
+    expect(formatPitch({ semitone: 6, octave: 2 })).toBe('F#2');
+    expect(formatPitch({ semitone: 11, octave: 6 })).toBe('B6');
+  });
+
+  test('formats cents deviations with their sign', () => {
+    expect(formatCents(12.4)).toBe('+12¢');
+    expect(formatCents(-25)).toBe('−25¢');
+  });
+
+  // 🔥 Edge cases
+  test('marks a semitone outside the octave as unknown', () => {
+    expect(formatPitch({ semitone: 12, octave: 4 })).toBe('?4');
+  });
+
+  test('shows deviations that round to zero without a sign', () => {
+    expect(formatCents(-0.4)).toBe('0¢');
+  });
+});
+
+describe('TUNE-001, TUNE-002: Tuned frequencies', () => {
+  // ✅ Happy path
+  test('defaults to A4 = 440 Hz equal temperament', () => {
+    expect(calculateFrequency(9, 4)).toBeCloseTo(440, 5);
+    expect(calculateFrequency(0, 4)).toBeCloseTo(261.63, 2);
+    expect(calculateFrequency(11, 6)).toBeCloseTo(1975.53, 2);
+  });
+
+  test('scales every note with the reference pitch', () => {
+    const tuning = { ...DEFAULT_TUNING, referenceFrequency: 442 };
+
+    expect(calculateFrequency(9, 4, tuning)).toBeCloseTo(442, 5);
+    expect(calculateFrequency(9, 2, tuning)).toBeCloseTo(110.5, 5);
+    expect(calculateFrequency(0, 4, tuning)).toBeCloseTo((261.6256 * 442) / 440, 2);
+  });
+
+  test('tunes just intervals above the tonic of the key', () => {
+    const tuning = { referenceFrequency: 440, temperament: 'just' as const, key: 0 };
+    const c4 = calculateFrequency(0, 4, tuning);
+
+    expect(c4).toBeCloseTo(calculateFrequency(0, 4), 5); // Tonic stays equal-tempered
+    expect(calculateFrequency(4, 4, tuning) / c4).toBeCloseTo(5 / 4, 10); // Pure major third
+    expect(calculateFrequency(7, 4, tuning) / c4).toBeCloseTo(3 / 2, 10); // Pure fifth
+    expect(calculateFrequency(9, 4, tuning)).toBeCloseTo(436.04, 2); // A is a just sixth, not 440
+  });
+
+  test('tunes Pythagorean intervals as stacked pure fifths', () => {
+    const tuning = { referenceFrequency: 440, temperament: 'pythagorean' as const, key: 0 };
+    const c4 = calculateFrequency(0, 4, tuning);
+
+    expect(calculateFrequency(7, 4, tuning) / c4).toBeCloseTo(3 / 2, 10);
+    expect(calculateFrequency(4, 4, tuning) / c4).toBeCloseTo(81 / 64, 10); // Wide major third
+  });
+
+  // 🔥 Edge cases
+  test('measures intervals from the tonic at or below the note in other keys', () => {
+    const tuning = { referenceFrequency: 440, temperament: 'just' as const, key: 7 }; // G
+    const g3 = calculateFrequency(7, 3, tuning);
+
+    expect(g3).toBeCloseTo(calculateFrequency(7, 3), 5);
+    // D4 is the fifth above G3, B3 the major third
+    expect(calculateFrequency(2, 4, tuning) / g3).toBeCloseTo(3 / 2, 10);
+    expect(calculateFrequency(11, 3, tuning) / g3).toBeCloseTo(5 / 4, 10);
+  });
+
+  test('keeps octaves pure in every temperament', () => {
+    for (const temperament of ['equal', 'just', 'pythagorean'] as const) {
+      const tuning = { referenceFrequency: 442, temperament, key: 5 };
+      for (let semitone = 0; semitone < 12; semitone++) {
+        expect(calculateFrequency(semitone, 5, tuning) / calculateFrequency(semitone, 4, tuning)).toBeCloseTo(2, 10);
+      }
+    }
+  });
+});
+
+describe('TUNER-002: Nearest pitch', () => {
+  // ✅ Happy path
+  test('finds the nearest note and its deviation in cents', () => {
+    expect(nearestPitch(440)).toEqual({ pitch: { semitone: 9, octave: 4 }, cents: expect.closeTo(0, 5) });
+
+    const sharp = nearestPitch(440 * Math.pow(2, 20 / 1200));
+    expect(sharp.pitch).toEqual({ semitone: 9, octave: 4 });
+    expect(sharp.cents).toBeCloseTo(20, 5);
+
+    const flat = nearestPitch(65.41 * Math.pow(2, -30 / 1200)); // C2, 30 cents flat
+    expect(flat.pitch).toEqual({ semitone: 0, octave: 2 });
+    expect(flat.cents).toBeCloseTo(-30, 0);
+  });
+
+  test('measures against the reference pitch and temperament', () => {
+    expect(nearestPitch(442, { ...DEFAULT_TUNING, referenceFrequency: 442 }).cents).toBeCloseTo(0, 5);
+    expect(nearestPitch(440, { ...DEFAULT_TUNING, referenceFrequency: 442 }).cents).toBeCloseTo(-7.85, 1);
+
+    // A just major third above C4 is in tune in just intonation, 14 cents flat in equal temperament
+    const justE4 = calculateFrequency(0, 4) * (5 / 4);
+    expect(nearestPitch(justE4, { referenceFrequency: 440, temperament: 'just', key: 0 }).cents).toBeCloseTo(0, 5);
+    expect(nearestPitch(justE4).cents).toBeCloseTo(-13.69, 1);
+  });
+
+  // 🔥 Edge cases
+  test('rounds across the octave boundary', () => {
+    const reading = nearestPitch(calculateFrequency(11, 3) * Math.pow(2, 60 / 1200)); // B3 + 60 cents
+
+    expect(reading.pitch).toEqual({ semitone: 0, octave: 4 });
+    expect(reading.cents).toBeCloseTo(-40, 5);
+  });
+});
@@ -0,0 +1,112 @@
+// [EARS: TONE-008, CHORD-001, TUNE-001, TUNE-002, TUNER-002, INTON-002] Note names and tuned frequencies for pitches
+
+import type { Pitch, Temperament, Tuning } from '@/store/types';
+
+// Note labels for chromatic scale
+export const NOTE_LABELS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// [EARS: TUNE-001] Reference pitch range, from baroque A415 to A466
+export const MIN_REFERENCE_FREQUENCY = 415;
+export const MAX_REFERENCE_FREQUENCY = 466;
+
+export const TEMPERAMENTS: Temperament[] = ['equal', 'just', 'pythagorean'];
+
+// [EARS: TUNE-001] Concert pitch, equal temperament
+export const DEFAULT_TUNING: Tuning = { referenceFrequency: 440, temperament: 'equal', key: 0 };
+
+const A4_SEMITONE = 9;
+const REFERENCE_OCTAVE = 4;
+
+// [EARS: TUNE-002, INTON-002] 5-limit just intonation ratio of each chromatic interval
+export const JUST_RATIOS = [1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8];
+
+// [EARS: TUNE-002] Frequency ratios above the tonic for each chromatic interval
+const INTERVAL_RATIOS: Record<Exclude<Temperament, 'equal'>, number[]> = {
+  just: JUST_RATIOS,
+  // Stacked pure fifths, with the wolf fifth between the tritone and the minor second
+  pythagorean: [1, 256 / 243, 9 / 8, 32 / 27, 81 / 64, 4 / 3, 729 / 512, 3 / 2, 128 / 81, 27 / 16, 16 / 9, 243 / 128],
+};
+
+/**
+ * Equal-tempered frequency of a pitch
+ */
+function equalTemperedFrequency(semitone: number, octave: number, referenceFrequency: number): number {
+  // f = A4 * 2^(n/12) where n is semitones from A4
+  return referenceFrequency * Math.pow(2, (semitone - A4_SEMITONE + 12 * (octave - REFERENCE_OCTAVE)) / 12);
+}
+
+/**
+ * Calculate the frequency of a pitch
+ * [EARS: TONE-002, TONE-007] 12 chromatic tones per octave, A4 = 440 Hz by default
+ * [EARS: TUNE-001] Scaled to the reference pitch
+ * [EARS: TUNE-002] Just and Pythagorean notes are pure intervals above the key's tonic,
+ * which itself stays at its equal-tempered pitch
+ *
+ * @param semitone - Semitone index within the octave (0 = C, 11 = B)
+ * @param octave - Scientific pitch octave (4 = middle C octave)
+ * @param tuning - Reference pitch and temperament (default A4 440 Hz, equal temperament)
+ * @returns Frequency in Hz
+ */
+export function calculateFrequency(semitone: number, octave: number, tuning: Tuning = DEFAULT_TUNING): number {
+  const { referenceFrequency, temperament, key } = tuning;
+  if (temperament === 'equal') {
+    return equalTemperedFrequency(semitone, octave, referenceFrequency);
+  }
+
+  // Tonic at or below the note
+  const interval = (((semitone - key) % 12) + 12) % 12;
+  const tonicOctave = semitone >= key ? octave : octave - 1;
+  const tonic = equalTemperedFrequency(key, tonicOctave, referenceFrequency);
+  return tonic * (INTERVAL_RATIOS[temperament][interval] ?? 1);
+}
+
+/**
+ * Format a pitch in scientific pitch notation
+ * [EARS: TONE-008]
+ *
+ * @param pitch - Semitone (0-11) and octave
+ * @returns Note name, e.g. 'F#3'
+ */
+export function formatPitch({ semitone, octave }: Pitch): string {
+  return `${NOTE_LABELS[semitone] ?? '?'}${octave}`;
+}
+
+/**
+ * Format a cents deviation with its sign
+ * [EARS: TUNER-002, INTON-002]
+ *
+ * @param cents - Deviation in cents
+ * @returns Rounded deviation, e.g. '+12¢', '−5¢' or '0¢'
+ */
+export function formatCents(cents: number): string {
+  const rounded = Math.round(cents);
+  return `${rounded > 0 ? '+' : rounded < 0 ? '−' : ''}${Math.abs(rounded)}¢`;
+}
+
+export interface PitchReading {
+  pitch: Pitch; // Nearest note in the tuning
+  cents: number; // Deviation from that note, -50 to +50 in equal temperament
+}
+
+/**
+ * Find the note nearest to a frequency
+ * [EARS: TUNER-002] Nearest note and cents deviation in the project tuning
+ *
+ * @param frequency - Frequency in Hz
+ * @param tuning - Reference pitch and temperament (default A4 440 Hz, equal temperament)
+ * @returns Nearest note and deviation in cents (positive = sharp)
+ */
+export function nearestPitch(frequency: number, tuning: Tuning = DEFAULT_TUNING): PitchReading {
+  // Nearest equal-tempered note, counted in semitones above C0
+  const equalIndex =
+    Math.round(12 * Math.log2(frequency / tuning.referenceFrequency)) + A4_SEMITONE + 12 * REFERENCE_OCTAVE;
+
+  // Just and Pythagorean notes are within a quarter tone of their equal-tempered
+  // neighbours, so the nearest note is one of three
+  const readings: PitchReading[] = [equalIndex - 1, equalIndex, equalIndex + 1].map(index => {
+    const pitch = { semitone: ((index % 12) + 12) % 12, octave: Math.floor(index / 12) };
+    const cents = 1200 * Math.log2(frequency / calculateFrequency(pitch.semitone, pitch.octave, tuning));
+    return { pitch, cents };
+  });
+  return readings.reduce((best, reading) => (Math.abs(reading.cents) < Math.abs(best.cents) ? reading : best));
+}
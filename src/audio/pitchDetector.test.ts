@@ -0,0 +1,164 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PitchDetector, detectPitch, trackPitch } from './pitchDetector';
+
+const SAMPLE_RATE = 48000;
+
+/**
+ * Sung-like test tone: fundamental plus two weaker harmonics
+ */
+function voice(frequency: number, length = 2048, amplitude = 0.5): Float32Array {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = i / SAMPLE_RATE;
+    samples[i] =
+      amplitude *
+      (Math.sin(2 * Math.PI * frequency * t) +
+        0.5 * Math.sin(2 * Math.PI * 2 * frequency * t) +
+        0.25 * Math.sin(2 * Math.PI * 3 * frequency * t));
+  }
+  return samples;
+}
+
+describe('TUNER-001: Pitch detection', () => {
+  // ✅ Happy path
+  test('detects the fundamental across the choir range', () => {
+    for (const frequency of [82.41, 130.81, 220, 440, 659.26, 987.77]) {
+      const detected = detectPitch(voice(frequency), SAMPLE_RATE)!;
+      // Within 5 cents
+      expect(Math.abs(1200 * Math.log2(detected / frequency))).toBeLessThan(5);
+    }
+  });
+
+  // ⚠️ Negative cases
+  test('returns null for silence and noise', () => {
+    expect(detectPitch(new Float32Array(2048), SAMPLE_RATE)).toBeNull();
+
+    let seed = 1;
+    const noise = new Float32Array(2048).map(() => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647 - 0.5;
+    });
+    expect(detectPitch(noise, SAMPLE_RATE)).toBeNull();
+  });
+
+  // 🔥 Edge cases
+  test('ignores input quieter than the noise floor', () => {
+    expect(detectPitch(voice(440, 2048, 0.005), SAMPLE_RATE)).toBeNull();
+  });
+
+  test('does not mistake a strong second harmonic for the fundamental', () => {
+    const samples = new Float32Array(2048);
+    for (let i = 0; i < samples.length; i++) {
+      const t = i / SAMPLE_RATE;
+      samples[i] = 0.3 * Math.sin(2 * Math.PI * 196 * t) + 0.5 * Math.sin(2 * Math.PI * 392 * t);
+    }
+
+    expect(detectPitch(samples, SAMPLE_RATE)).toBeCloseTo(196, 0);
+  });
+});
+
+describe('TUNER-001: Pitch detector stream connection', () => {
+  let detector: PitchDetector;
+  let audioContext: AudioContext;
+  let mockStream: MediaStream;
+
+  beforeEach(async () => {
+    audioContext = new AudioContext();
+    Object.defineProperty(audioContext, 'sampleRate', { value: SAMPLE_RATE });
+    detector = new PitchDetector(audioContext);
+    mockStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  });
+
+  afterEach(() => {
+    detector.dispose();
+    audioContext.close();
+    vi.restoreAllMocks();
+  });
+
+  // ✅ Happy path
+  test('reads the pitch of the connected stream', () => {
+    const analyser = {
+      fftSize: 0,
+      getFloatTimeDomainData: vi.fn((buffer: Float32Array) => buffer.set(voice(220))),
+      connect: vi.fn(),
+      disconnect: vi.fn(),
+    };
+    vi.spyOn(audioContext, 'createAnalyser').mockReturnValue(analyser as unknown as AnalyserNode);
+
+    detector.connect(mockStream);
+
+    expect(detector.isConnected()).toBe(true);
+    expect(analyser.fftSize).toBe(2048);
+    expect(detector.getFrequency()).toBeCloseTo(220, 0);
+  });
+
+  // ⚠️ Negative cases
+  test('returns null when disconnected', () => {
+    expect(detector.getFrequency()).toBeNull();
+
+    detector.connect(mockStream);
+    detector.disconnect();
+
+    expect(detector.isConnected()).toBe(false);
+    expect(detector.getFrequency()).toBeNull();
+  });
+
+  // 🔥 Edge cases
+  test('reconnecting releases the previous stream source', () => {
+    const source = { connect: vi.fn(), disconnect: vi.fn() };
+    vi.spyOn(audioContext, 'createMediaStreamSource').mockReturnValue(source as unknown as MediaStreamAudioSourceNode);
+
+    detector.connect(mockStream);
+    detector.connect(mockStream);
+
+    expect(source.disconnect).toHaveBeenCalledTimes(1);
+    expect(detector.isConnected()).toBe(true);
+  });
+});
+
+describe('CONTOUR-001: Pitch contour of a recording', () => {
+  // ✅ Happy path
+  test('tracks a pitch change every 20ms', () => {
+    // One second of A3, then one second of C4
+    const samples = new Float32Array(2 * SAMPLE_RATE);
+    samples.set(voice(220, SAMPLE_RATE), 0);
+    samples.set(voice(261.63, SAMPLE_RATE), SAMPLE_RATE);
+
+    const contour = trackPitch(samples, SAMPLE_RATE);
+
+    expect(contour.frameDuration).toBe(0.02);
+    expect(contour.frequencies).toHaveLength(100);
+    expect(contour.frequencies[25]).toBeCloseTo(220, 0);
+    expect(contour.frequencies[75]).toBeCloseTo(261.63, 0);
+  });
+
+  // ⚠️ Negative cases
+  test('marks silence as unvoiced', () => {
+    const samples = new Float32Array(SAMPLE_RATE);
+    samples.set(voice(330, SAMPLE_RATE / 2), 0);
+
+    const contour = trackPitch(samples, SAMPLE_RATE);
+
+    expect(contour.frequencies[10]).toBeCloseTo(330, 0);
+    expect(contour.frequencies.slice(30)).toEqual(new Array(20).fill(null));
+  });
+
+  // 🔥 Edge cases
+  test('handles audio shorter than one analysis window', () => {
+    const contour = trackPitch(voice(440, 100), SAMPLE_RATE);
+
+    expect(contour.frequencies).toEqual([null]);
+  });
+
+  test('keeps accuracy at 44.1kHz', () => {
+    const rate = 44100;
+    const samples = new Float32Array(rate);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = 0.5 * Math.sin((2 * Math.PI * 196 * i) / rate);
+    }
+
+    const contour = trackPitch(samples, rate);
+
+    expect(Math.abs(1200 * Math.log2(contour.frequencies[20]! / 196))).toBeLessThan(5);
+  });
+});
@@ -0,0 +1,196 @@
+// [EARS: TUNER-001, TUNER-002, CONTOUR-001] Pitch detection on the microphone input and on recorded audio
+
+import type { PitchContour } from '@/store/types';
+
+const MIN_FREQUENCY = 60; // Hz - just below C2
+const MAX_FREQUENCY = 2000; // Hz - just above B6
+const YIN_THRESHOLD = 0.15; // Aperiodicity below which a period is accepted
+const MIN_RMS = 0.01; // Quieter input is treated as silence
+const FFT_SIZE = 2048; // Samples analyzed per reading (~43ms at 48kHz)
+
+// [EARS: CONTOUR-001] Offline contour analysis
+const CONTOUR_FRAME_DURATION = 0.02; // Seconds between contour frames
+const CONTOUR_WINDOW_DURATION = 0.04; // Seconds analyzed per frame, two periods of the lowest note
+const CONTOUR_SAMPLE_RATE = 12000; // Analysis rate; B6 harmonics above this are not needed
+
+/**
+ * Detect the fundamental frequency of a block of samples
+ * [EARS: TUNER-001] YIN: the first period whose normalized difference dips below the threshold,
+ * refined between samples with a parabola
+ *
+ * @param samples - Mono samples
+ * @param sampleRate - Sample rate in Hz
+ * @returns Frequency in Hz, or null for silence or unpitched input
+ */
+export function detectPitch(samples: Float32Array, sampleRate: number): number | null {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += (samples[i] ?? 0) * (samples[i] ?? 0);
+  }
+  if (Math.sqrt(sum / samples.length) < MIN_RMS) {
+    return null;
+  }
+
+  const maxLag = Math.min(Math.floor(sampleRate / MIN_FREQUENCY), Math.floor(samples.length / 2));
+  const minLag = Math.max(2, Math.floor(sampleRate / MAX_FREQUENCY));
+  const window = samples.length - maxLag;
+
+  // Cumulative mean normalized difference
+  const normalized = new Float32Array(maxLag + 1);
+  normalized[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let difference = 0;
+    for (let i = 0; i < window; i++) {
+      const delta = (samples[i] ?? 0) - (samples[i + lag] ?? 0);
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    normalized[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1;
+  }
+
+  let lag = minLag;
+  while (lag <= maxLag && (normalized[lag] ?? 1) >= YIN_THRESHOLD) {
+    lag++;
+  }
+  if (lag > maxLag) {
+    return null;
+  }
+  // Follow the dip down to its minimum
+  while (lag < maxLag && (normalized[lag + 1] ?? 1) < (normalized[lag] ?? 1)) {
+    lag++;
+  }
+
+  const at = normalized[lag] ?? 1;
+  const before = normalized[lag - 1] ?? at;
+  const after = normalized[lag + 1] ?? at;
+  const curvature = before - 2 * at + after;
+  const period = curvature > 0 ? lag + (0.5 * (before - after)) / curvature : lag;
+
+  return sampleRate / period;
+}
+
+/**
+ * Track the pitch of a whole recording
+ * [EARS: CONTOUR-001] One reading every 20ms, analyzed at a reduced sample rate
+ * so a full-length track takes well under a second
+ *
+ * @param samples - Mono samples
+ * @param sampleRate - Sample rate in Hz
+ * @returns Pitch contour starting at the first sample
+ */
+export function trackPitch(samples: Float32Array, sampleRate: number): PitchContour {
+  // Average blocks of samples: a crude low-pass that keeps the sung range
+  const factor = Math.max(1, Math.floor(sampleRate / CONTOUR_SAMPLE_RATE));
+  const rate = sampleRate / factor;
+  const reduced = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < reduced.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) {
+      sum += samples[i * factor + j] ?? 0;
+    }
+    reduced[i] = sum / factor;
+  }
+
+  const hop = Math.round(rate * CONTOUR_FRAME_DURATION);
+  const windowLength = 2 * Math.round((rate * CONTOUR_WINDOW_DURATION) / 2);
+  const frameCount = Math.ceil(samples.length / sampleRate / CONTOUR_FRAME_DURATION);
+  const frequencies: Array<number | null> = [];
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    // Frames are centred on their time
+    const start = frame * hop - windowLength / 2;
+    if (start < 0 || start + windowLength > reduced.length) {
+      frequencies.push(null);
+      continue;
+    }
+    frequencies.push(detectPitch(reduced.subarray(start, start + windowLength), rate));
+  }
+
+  return { frameDuration: CONTOUR_FRAME_DURATION, frequencies };
+}
+
+/**
+ * Pitch detector for the microphone input
+ * [EARS: TUNER-001]
+ */
+export class PitchDetector {
+  private audioContext: AudioContext;
+  private analyser: AnalyserNode | null = null;
+  private mediaStreamSource: MediaStreamAudioSourceNode | null = null;
+  private samples: Float32Array<ArrayBuffer> | null = null;
+  private connected: boolean = false;
+
+  /**
+   * Create a new PitchDetector
+   *
+   * @param audioContext - Web Audio API AudioContext
+   */
+  constructor(audioContext: AudioContext) {
+    this.audioContext = audioContext;
+  }
+
+  /**
+   * Connect the detector to a MediaStream
+   * [EARS: TUNER-001] Analyze the microphone without sending it to the speakers
+   *
+   * @param stream - MediaStream from microphone
+   */
+  connect(stream: MediaStream): void {
+    if (this.connected) {
+      this.disconnect();
+    }
+
+    this.analyser = this.audioContext.createAnalyser();
+    this.analyser.fftSize = FFT_SIZE;
+    this.samples = new Float32Array(this.analyser.fftSize);
+
+    this.mediaStreamSource = this.audioContext.createMediaStreamSource(stream);
+    this.mediaStreamSource.connect(this.analyser);
+
+    this.connected = true;
+  }
+
+  /**
+   * Disconnect the detector from its stream
+   */
+  disconnect(): void {
+    if (this.mediaStreamSource) {
+      this.mediaStreamSource.disconnect();
+      this.mediaStreamSource = null;
+    }
+
+    this.analyser = null;
+    this.samples = null;
+    this.connected = false;
+  }
+
+  /**
+   * Check if the detector is connected to a stream
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Get the current input pitch
+   * [EARS: TUNER-001]
+   *
+   * @returns Frequency in Hz, or null when nothing pitched is being sung
+   */
+  getFrequency(): number | null {
+    if (!this.connected || !this.analyser || !this.samples) {
+      return null;
+    }
+
+    this.analyser.getFloatTimeDomainData(this.samples);
+    return detectPitch(this.samples, this.audioContext.sampleRate);
+  }
+
+  /**
+   * Dispose of resources
+   */
+  dispose(): void {
+    this.disconnect();
+  }
+}
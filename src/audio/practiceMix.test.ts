@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'vitest';
+import { dbToGain, getPracticeGain } from './practiceMix';
+
+describe('PRAC-001, PRAC-002: Practice mix gains', () => {
+  // ✅ Happy path
+  test('leaves every track alone in the full mix', () => {
+    expect(getPracticeGain(null, 'S')).toBe(1);
+    expect(getPracticeGain(null, null)).toBe(1);
+  });
+
+  test('raises the featured part by 6 dB and lowers the others by 6 dB', () => {
+    const mix = { mode: 'featured', part: 'A' } as const;
+
+    expect(getPracticeGain(mix, 'A')).toBeCloseTo(1.995, 3);
+    expect(getPracticeGain(mix, 'T')).toBeCloseTo(0.501, 3);
+  });
+
+  test('silences only the chosen part in minus one', () => {
+    const mix = { mode: 'minus-one', part: 'B' } as const;
+
+    expect(getPracticeGain(mix, 'B')).toBe(0);
+    expect(getPracticeGain(mix, 'S')).toBe(1);
+  });
+
+  // 🔥 Edge cases
+  test('treats a track without a part as one of the others', () => {
+    expect(getPracticeGain({ mode: 'featured', part: 'S' }, null)).toBeCloseTo(0.501, 3);
+    expect(getPracticeGain({ mode: 'minus-one', part: 'S' }, null)).toBe(1);
+  });
+
+  test('converts decibels to gain', () => {
+    expect(dbToGain(0)).toBe(1);
+    expect(dbToGain(20)).toBeCloseTo(10);
+    expect(dbToGain(-20)).toBeCloseTo(0.1);
+  });
+});
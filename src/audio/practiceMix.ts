@@ -0,0 +1,50 @@
+// [EARS: PRAC-001, PRAC-002, PRAC-003] Practice mix modes layered on top of the saved track settings
+
+import type { VoicePartType } from '@/store/types';
+
+export type PracticeMode = 'featured' | 'minus-one';
+
+export const PRACTICE_MODES: Array<{ id: PracticeMode; label: string }> = [
+  { id: 'featured', label: 'My part loud' },
+  { id: 'minus-one', label: 'My part out' },
+];
+
+export interface PracticeMix {
+  mode: PracticeMode;
+  part: VoicePartType;
+}
+
+// Level changes for "My part loud"
+export const FEATURED_BOOST_DB = 6;
+export const OTHERS_CUT_DB = -6;
+
+/**
+ * Convert decibels to a linear gain factor
+ *
+ * @param db - Level change in dB
+ * @returns Gain factor (1 = unchanged)
+ */
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * Gain factor a practice mix applies to one track
+ * [EARS: PRAC-001] Featured: the chosen part +6 dB, every other track -6 dB
+ * [EARS: PRAC-002] Minus one: the chosen part is silent, every other track unchanged
+ *
+ * @param mix - Practice mix, or null for the full mix
+ * @param part - Voice part of the track, or null if it has none
+ * @returns Gain factor to multiply into the track's own gain
+ */
+export function getPracticeGain(mix: PracticeMix | null, part: string | null): number {
+  if (!mix) {
+    return 1;
+  }
+
+  const isChosenPart = part === mix.part;
+  if (mix.mode === 'featured') {
+    return dbToGain(isChosenPart ? FEATURED_BOOST_DB : OTHERS_CUT_DB);
+  }
+  return isChosenPart ? 0 : 1;
+}
@@ -0,0 +1,178 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PunchSplicer, spliceSamples } from './punchSplicer';
+
+const SAMPLE_RATE = 100;
+
+/**
+ * Build a constant-valued buffer
+ */
+function filled(length: number, value: number): Float32Array {
+  return new Float32Array(length).fill(value);
+}
+
+describe('PUNCH-004: Sample splicing', () => {
+  // ✅ Happy path
+  test('replaces the punch region with the take', () => {
+    const original = filled(500, 0.2);
+    const take = filled(500, -0.5);
+
+    const result = spliceSamples(original, take, SAMPLE_RATE, {
+      punchIn: 1,
+      punchOut: 3,
+      takeStart: 0,
+      crossfade: 0,
+    });
+
+    expect(result).toHaveLength(500);
+    expect(result[99]).toBeCloseTo(0.2);
+    expect(result[100]).toBeCloseTo(-0.5);
+    expect(result[299]).toBeCloseTo(-0.5);
+    expect(result[300]).toBeCloseTo(0.2);
+  });
+
+  test('aligns take samples using the take start position', () => {
+    const original = new Float32Array(500);
+    const take = new Float32Array(300);
+    take[150] = 1; // 1.5s into the take
+
+    const result = spliceSamples(original, take, SAMPLE_RATE, {
+      punchIn: 2,
+      punchOut: 4,
+      takeStart: 1,
+      crossfade: 0,
+    });
+
+    // Take starts 1s into the track, so its 1.5s lands at 2.5s
+    expect(result[250]).toBe(1);
+  });
+
+  test('crossfades at both punch points', () => {
+    const original = filled(500, 1);
+    const take = new Float32Array(500);
+
+    const result = spliceSamples(original, take, SAMPLE_RATE, {
+      punchIn: 1,
+      punchOut: 3,
+      takeStart: 0,
+      crossfade: 0.1,
+    });
+
+    // Fade in over 10 samples after punch-in
+    expect(result[100]).toBeCloseTo(1);
+    expect(result[105]).toBeCloseTo(0.5);
+    expect(result[110]).toBeCloseTo(0);
+    // Fade out over 10 samples before punch-out
+    expect(result[295]).toBeCloseTo(0.5);
+    expect(result[300]).toBeCloseTo(1);
+  });
+
+  // ⚠️ Negative cases
+  test('throws when punch-out is not after punch-in', () => {
+    expect(() =>
+      spliceSamples(new Float32Array(10), new Float32Array(10), SAMPLE_RATE, {
+        punchIn: 2,
+        punchOut: 2,
+        takeStart: 0,
+      })
+    ).toThrow('Punch-out must be after punch-in');
+  });
+
+  test('leaves the original untouched when the take misses the region', () => {
+    const original = filled(500, 0.2);
+    const take = filled(50, -0.5);
+
+    const result = spliceSamples(original, take, SAMPLE_RATE, {
+      punchIn: 3,
+      punchOut: 4,
+      takeStart: 0,
+    });
+
+    expect(Array.from(result)).toEqual(Array.from(original));
+  });
+
+  // 🔥 Edge cases
+  test('extends the track when punching past its end', () => {
+    const original = filled(200, 0.2);
+    const take = filled(500, -0.5);
+
+    const result = spliceSamples(original, take, SAMPLE_RATE, {
+      punchIn: 1,
+      punchOut: 4,
+      takeStart: 0,
+      crossfade: 0,
+    });
+
+    expect(result).toHaveLength(400);
+    expect(result[350]).toBeCloseTo(-0.5);
+  });
+
+  test('only replaces the part of the region the take covers', () => {
+    const original = filled(500, 0.2);
+    const take = filled(250, -0.5); // Stopped early at 2.5s
+
+    const result = spliceSamples(original, take, SAMPLE_RATE, {
+      punchIn: 1,
+      punchOut: 4,
+      takeStart: 0,
+      crossfade: 0,
+    });
+
+    expect(result[200]).toBeCloseTo(-0.5);
+    expect(result[300]).toBeCloseTo(0.2);
+  });
+
+  test('does not modify the original buffer', () => {
+    const original = filled(500, 0.2);
+
+    spliceSamples(original, filled(500, -0.5), SAMPLE_RATE, {
+      punchIn: 1,
+      punchOut: 2,
+      takeStart: 0,
+    });
+
+    expect(original[150]).toBeCloseTo(0.2);
+  });
+});
+
+describe('PUNCH-004: PunchSplicer', () => {
+  let audioContext: AudioContext;
+  let splicer: PunchSplicer;
+
+  beforeEach(() => {
+    audioContext = new AudioContext();
+    splicer = new PunchSplicer(audioContext);
+  });
+
+  afterEach(() => {
+    audioContext.close();
+    vi.restoreAllMocks();
+  });
+
+  // ✅ Happy path
+  test('decodes both blobs and returns a mono WAV', async () => {
+    const decodeSpy = vi.spyOn(audioContext, 'decodeAudioData');
+
+    const result = await splicer.splice(new Blob(['original']), new Blob(['take']), {
+      punchIn: 0.25,
+      punchOut: 0.5,
+      takeStart: 0,
+    });
+
+    // Mock decode returns 1 second at 44100 Hz
+    expect(decodeSpy).toHaveBeenCalledTimes(2);
+    expect(result.audioBlob.type).toBe('audio/wav');
+    expect(result.audioBlob.size).toBe(44 + 44100 * 2);
+    expect(result.duration).toBeCloseTo(1);
+  });
+
+  // ⚠️ Negative cases
+  test('rejects an empty punch region', async () => {
+    await expect(
+      splicer.splice(new Blob(['original']), new Blob(['take']), {
+        punchIn: 0.5,
+        punchOut: 0.25,
+        takeStart: 0,
+      })
+    ).rejects.toThrow('Punch-out must be after punch-in');
+  });
+});
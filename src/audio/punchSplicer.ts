@@ -0,0 +1,167 @@
+// [EARS: PUNCH-004] Splice a punch-in take into an existing track with crossfades
+
+const DEFAULT_CROSSFADE = 0.01; // Seconds at each punch point
+
+export interface PunchSpliceOptions {
+  punchIn: number; // Seconds from track start
+  punchOut: number; // Seconds from track start
+  takeStart: number; // Seconds from track start of the take's first sample (may be negative)
+  crossfade?: number; // Seconds
+}
+
+export interface PunchSpliceResult {
+  audioBlob: Blob;
+  duration: number;
+}
+
+/**
+ * Replace a region of the original samples with the take
+ * [EARS: PUNCH-004] Crossfade between original and take at both punch points
+ *
+ * @param original - Original track samples (mono)
+ * @param take - Punch take samples (mono)
+ * @param sampleRate - Sample rate shared by both buffers
+ * @param options - Punch points and take position, in seconds from track start
+ * @returns New samples, extended if the punch runs past the original end
+ * @throws Error if punch-out is not after punch-in
+ */
+export function spliceSamples(
+  original: Float32Array,
+  take: Float32Array,
+  sampleRate: number,
+  options: PunchSpliceOptions
+): Float32Array {
+  if (options.punchOut <= options.punchIn) {
+    throw new Error('Punch-out must be after punch-in');
+  }
+
+  const punchInSample = Math.max(0, Math.round(options.punchIn * sampleRate));
+  const punchOutSample = Math.max(0, Math.round(options.punchOut * sampleRate));
+  const takeOffset = Math.round(options.takeStart * sampleRate);
+
+  // The take can only replace audio where it was actually captured
+  const regionStart = Math.max(punchInSample, takeOffset);
+  const regionEnd = Math.min(punchOutSample, takeOffset + take.length);
+
+  const result = new Float32Array(Math.max(original.length, regionEnd));
+  result.set(original);
+
+  if (regionEnd <= regionStart) {
+    return result;
+  }
+
+  const crossfade = options.crossfade ?? DEFAULT_CROSSFADE;
+  const fadeSamples = Math.min(
+    Math.round(crossfade * sampleRate),
+    Math.floor((regionEnd - regionStart) / 2)
+  );
+
+  for (let i = regionStart; i < regionEnd; i++) {
+    // Linear crossfade: take gain ramps 0 -> 1 after punch-in, 1 -> 0 before punch-out
+    let takeGain = 1;
+    if (i < regionStart + fadeSamples) {
+      takeGain = (i - regionStart) / fadeSamples;
+    } else if (i >= regionEnd - fadeSamples) {
+      takeGain = (regionEnd - i) / fadeSamples;
+    }
+
+    const originalSample = original[i] ?? 0;
+    const takeSample = take[i - takeOffset] ?? 0;
+    result[i] = originalSample * (1 - takeGain) + takeSample * takeGain;
+  }
+
+  return result;
+}
+
+/**
+ * Encode mono samples as 16-bit PCM WAV (same format as Recorder takes)
+ */
+export function encodeMonoWav(samples: Float32Array, sampleRate: number): Blob {
+  const dataSize = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, string: string) => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i] ?? 0));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/**
+ * PunchSplicer decodes a track and a punch take, splices them and re-encodes to WAV
+ * [EARS: PUNCH-004]
+ */
+export class PunchSplicer {
+  private audioContext: AudioContext;
+
+  /**
+   * Create a new PunchSplicer
+   *
+   * @param audioContext - AudioContext used for decoding
+   */
+  constructor(audioContext: AudioContext) {
+    this.audioContext = audioContext;
+  }
+
+  /**
+   * Splice a punch take into a track's audio
+   * [EARS: PUNCH-004] Replace the punch region with crossfades
+   *
+   * @param originalBlob - Existing track audio
+   * @param takeBlob - Punch take audio
+   * @param options - Punch points and take position, in seconds from track start
+   * @returns New WAV audio and its duration
+   * @throws Error if punch-out is not after punch-in
+   */
+  async splice(
+    originalBlob: Blob,
+    takeBlob: Blob,
+    options: PunchSpliceOptions
+  ): Promise<PunchSpliceResult> {
+    const original = await this.decode(originalBlob);
+    const take = await this.decode(takeBlob);
+    const sampleRate = original.sampleRate;
+
+    const samples = spliceSamples(
+      original.getChannelData(0),
+      take.getChannelData(0),
+      sampleRate,
+      options
+    );
+
+    return {
+      audioBlob: encodeMonoWav(samples, sampleRate),
+      duration: samples.length / sampleRate,
+    };
+  }
+
+  /**
+   * Decode an audio blob
+   */
+  private async decode(blob: Blob): Promise<AudioBuffer> {
+    const arrayBuffer = await blob.arrayBuffer();
+    return await this.audioContext.decodeAudioData(arrayBuffer);
+  }
+}
@@ -465,6 +465,116 @@ describe('REC-007: WAV conversion on stop', () => {
   });
 });
 
+describe('LAT-004: Latency compensation on stop', () => {
+  let recorder: Recorder;
+  let stream: MediaStream;
+
+  beforeEach(async () => {
+    recorder = new Recorder();
+    stream = await recorder.requestMicrophoneAccess();
+  });
+
+  afterEach(() => {
+    recorder.dispose();
+  });
+
+  // ✅ Happy path
+  test('shortens duration by the trimmed latency', async () => {
+    await recorder.startRecording(stream);
+
+    const result = await recorder.stopRecording(0.5);
+
+    expect(result.duration).toBeCloseTo(1.0);
+  });
+
+  test('drops trimmed samples from the WAV data', async () => {
+    await recorder.startRecording(stream);
+
+    // Mock worklet delivers 3 samples at 48kHz; trim 2 of them
+    const result = await recorder.stopRecording(2 / 48000);
+
+    expect(result.audioBlob.size).toBe(44 + 2);
+  });
+
+  // 🔥 Edge cases
+  test('does not trim when no latency is given', async () => {
+    await recorder.startRecording(stream);
+
+    const result = await recorder.stopRecording();
+
+    expect(result.duration).toBeCloseTo(1.5);
+    expect(result.audioBlob.size).toBe(44 + 6);
+  });
+});
+
+describe('LOOP-003: Splitting loop recordings into takes', () => {
+  let recorder: Recorder;
+  let stream: MediaStream;
+
+  beforeEach(async () => {
+    recorder = new Recorder();
+    stream = await recorder.requestMicrophoneAccess();
+  });
+
+  afterEach(() => {
+    recorder.dispose();
+  });
+
+  // ✅ Happy path
+  test('returns one take per complete pass', async () => {
+    await recorder.startRecording(stream);
+
+    // Mock worklet delivers 3 samples at 48kHz; one sample per pass
+    const takes = await recorder.stopRecordingTakes(1 / 48000);
+
+    expect(takes).toHaveLength(3);
+    for (const take of takes) {
+      expect(take.audioBlob.size).toBe(44 + 2);
+      expect(take.duration).toBeCloseTo(1 / 48000);
+    }
+  });
+
+  test('trims latency before splitting', async () => {
+    await recorder.startRecording(stream);
+
+    const takes = await recorder.stopRecordingTakes(1 / 48000, 1 / 48000);
+
+    expect(takes).toHaveLength(2);
+  });
+
+  // ⚠️ Negative cases
+  test('throws for a non-positive take length', async () => {
+    await recorder.startRecording(stream);
+
+    await expect(recorder.stopRecordingTakes(0)).rejects.toThrow('Take length must be positive');
+  });
+
+  test('returns no takes when not recording', async () => {
+    const takes = await recorder.stopRecordingTakes(1);
+
+    expect(takes).toEqual([]);
+  });
+
+  // 🔥 Edge cases
+  test('drops a trailing partial pass', async () => {
+    await recorder.startRecording(stream);
+
+    const takes = await recorder.stopRecordingTakes(2 / 48000);
+
+    expect(takes).toHaveLength(1);
+    expect(takes[0]!.audioBlob.size).toBe(44 + 4);
+  });
+
+  test('keeps the partial take when stopped during the first pass', async () => {
+    await recorder.startRecording(stream);
+
+    const takes = await recorder.stopRecordingTakes(1);
+
+    expect(takes).toHaveLength(1);
+    expect(takes[0]!.audioBlob.size).toBe(44 + 6);
+  });
+});
+
 describe('ERR-003: Encoding error handling', () => {
   let recorder: Recorder;
 
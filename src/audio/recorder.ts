@@ -6,6 +6,20 @@ export interface RecordingResult {
   waveformData: number[];
 }
 
+/**
+ * Flatten recorded chunks into a single buffer
+ */
+export function flattenSamples(samples: Float32Array[]): Float32Array {
+  const totalLength = samples.reduce((sum, arr) => sum + arr.length, 0);
+  const allSamples = new Float32Array(totalLength);
+  let offset = 0;
+  for (const chunk of samples) {
+    allSamples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return allSamples;
+}
+
 /**
  * Audio recorder for capturing microphone input using AudioWorklet
  * [EARS: MIC-001, MIC-002, MIC-003, MIC-004, REC-001 through REC-007, ERR-001, ERR-003]
@@ -215,12 +229,14 @@ export class Recorder {
   /**
    * Stop recording and return audio data
    * [EARS: REC-007] Convert audio to WAV blob
+   * [EARS: LAT-004] Drop leading samples to compensate for round-trip latency
    * [EARS: ERR-003] Handle encoding errors
    *
+   * @param trimStartSeconds - Seconds to remove from the start of the take (default 0)
    * @returns Recording result with audio blob, duration, and waveform data
    * @throws Error if encoding fails
    */
-  async stopRecording(): Promise<RecordingResult> {
+  async stopRecording(trimStartSeconds: number = 0): Promise<RecordingResult> {
     if (!this.recording || !this.recorderNode) {
       // Not recording, return empty result
       return {
@@ -230,6 +246,66 @@ export class Recorder {
       };
     }
 
+    return this.finishRecording(trimStartSeconds, (samples, trimmedSeconds) => ({
+      // Convert Float32Array[] to WAV blob
+      audioBlob: this.convertToWav(samples, this.recordingSampleRate),
+      duration: Math.max(0, this.recordingDuration - trimmedSeconds),
+      // Generate simple waveform data (sample every ~100 samples for visualization)
+      waveformData: this.generateWaveformData(samples),
+    }));
+  }
+
+  /**
+   * Stop a loop recording and split it into one take per pass
+   * [EARS: LOOP-003] Each complete pass becomes a take; a trailing partial pass is dropped
+   * [EARS: LAT-004] Latency is trimmed before splitting so every take is aligned
+   *
+   * @param takeLength - Length of one loop pass in seconds
+   * @param trimStartSeconds - Seconds to remove from the start of the recording (default 0)
+   * @returns One result per pass (a single partial take if no pass completed)
+   * @throws Error if take length is not positive or encoding fails
+   */
+  async stopRecordingTakes(takeLength: number, trimStartSeconds: number = 0): Promise<RecordingResult[]> {
+    if (takeLength <= 0) {
+      throw new Error('Take length must be positive');
+    }
+
+    if (!this.recording || !this.recorderNode) {
+      return [];
+    }
+
+    return this.finishRecording(trimStartSeconds, (samples) => {
+      const allSamples = flattenSamples(samples);
+      const sampleRate = this.recordingSampleRate;
+      const takeSamples = Math.max(1, Math.round(takeLength * sampleRate));
+
+      let takeCount = Math.floor(allSamples.length / takeSamples);
+      if (takeCount === 0 && allSamples.length > 0) {
+        takeCount = 1; // Stopped during the first pass - keep what was sung
+      }
+
+      const takes: RecordingResult[] = [];
+      for (let i = 0; i < takeCount; i++) {
+        const take = allSamples.subarray(i * takeSamples, (i + 1) * takeSamples);
+        takes.push({
+          audioBlob: this.convertToWav([take], sampleRate),
+          duration: take.length / sampleRate,
+          waveformData: this.generateWaveformData([take]),
+        });
+      }
+      return takes;
+    });
+  }
+
+  /**
+   * Ask the worklet for the recorded data, trim it and build a result
+   * [EARS: ERR-003] Any failure while building the result rejects with 'Recording failed'
+   * @private
+   */
+  private finishRecording<T>(
+    trimStartSeconds: number,
+    build: (samples: Float32Array[], trimmedSeconds: number) => T
+  ): Promise<T> {
     return new Promise((resolve, reject) => {
       // Wait for data from processor
       const handleData = () => {
@@ -238,14 +314,12 @@ export class Recorder {
             throw new Error('No recorded data received');
           }
 
-          // Convert Float32Array[] to WAV blob
-          const wavBlob = this.convertToWav(
-            this.recordedData,
-            this.recordingSampleRate
-          );
+          // [EARS: LAT-004] Trim latency from the start of the take
+          const trimSamples = Math.max(0, Math.round(trimStartSeconds * this.recordingSampleRate));
+          const samples = this.trimLeadingSamples(this.recordedData, trimSamples);
+          const trimmedSeconds = trimSamples / (this.recordingSampleRate || 1);
 
-          // Generate simple waveform data (sample every ~100 samples for visualization)
-          const waveformData = this.generateWaveformData(this.recordedData);
+          const result = build(samples, trimmedSeconds);
 
           this.recording = false;
 
@@ -261,11 +335,7 @@ export class Recorder {
 
           this.recordedData = null;
 
-          resolve({
-            audioBlob: wavBlob,
-            duration: this.recordingDuration,
-            waveformData,
-          });
+          resolve(result);
         } catch (error) {
           this.recording = false;
           reject(new Error('Recording failed'));
@@ -286,19 +356,35 @@ export class Recorder {
     });
   }
 
+  /**
+   * Remove a number of samples from the start of the recorded chunks
+   * @private
+   */
+  private trimLeadingSamples(samples: Float32Array[], count: number): Float32Array[] {
+    if (count <= 0) {
+      return samples;
+    }
+
+    const trimmed: Float32Array[] = [];
+    let remaining = count;
+    for (const chunk of samples) {
+      if (remaining >= chunk.length) {
+        remaining -= chunk.length;
+        continue;
+      }
+      trimmed.push(remaining > 0 ? chunk.subarray(remaining) : chunk);
+      remaining = 0;
+    }
+    return trimmed;
+  }
+
   /**
    * Convert Float32Array samples to WAV blob
    * @private
    */
   private convertToWav(samples: Float32Array[], sampleRate: number): Blob {
     // Flatten all sample arrays into one
-    const totalLength = samples.reduce((sum, arr) => sum + arr.length, 0);
-    const allSamples = new Float32Array(totalLength);
-    let offset = 0;
-    for (const chunk of samples) {
-      allSamples.set(chunk, offset);
-      offset += chunk.length;
-    }
+    const allSamples = flattenSamples(samples);
 
     // Convert Float32 (-1 to 1) to Int16 (-32768 to 32767)
     const int16Data = new Int16Array(allSamples.length);
@@ -353,13 +439,7 @@ export class Recorder {
    */
   private generateWaveformData(samples: Float32Array[]): number[] {
     // Flatten samples
-    const totalLength = samples.reduce((sum, arr) => sum + arr.length, 0);
-    const allSamples = new Float32Array(totalLength);
-    let offset = 0;
-    for (const chunk of samples) {
-      allSamples.set(chunk, offset);
-      offset += chunk.length;
-    }
+    const allSamples = flattenSamples(samples);
 
     // Sample every ~100 samples for waveform visualization
     const waveformData: number[] = [];
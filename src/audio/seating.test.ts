@@ -0,0 +1,65 @@
+import { describe, test, expect } from 'vitest';
+import { getSeatingPans } from './seating';
+import type { Track, VoicePart, VoicePartType } from '@/store/types';
+
+function makeVoiceParts(counts: Record<VoicePartType, number>): VoicePart[] {
+  return (['S', 'A', 'T', 'B'] as const).map((type) => ({
+    type,
+    label: type,
+    expanded: true,
+    tracks: Array.from({ length: counts[type] }, (_, index): Track => ({
+      id: `${type}${index + 1}`,
+      voicePartType: type,
+      name: `${type}${index + 1}`,
+      audioBlob: new Blob(),
+      duration: 1,
+      volume: 80,
+      muted: false,
+      soloed: false,
+      waveformData: [],
+      createdAt: new Date(),
+    })),
+  }));
+}
+
+describe('PAN-004, PAN-005: Seating presets', () => {
+  // ✅ Happy path
+  test('seats the sections soprano to bass, left to right', () => {
+    const pans = getSeatingPans(makeVoiceParts({ S: 1, A: 1, T: 1, B: 1 }), 'sections');
+
+    expect([pans.get('S1'), pans.get('A1'), pans.get('T1'), pans.get('B1')]).toEqual([-0.6, -0.2, 0.2, 0.6]);
+  });
+
+  test('spreads the tracks of a section across it', () => {
+    const pans = getSeatingPans(makeVoiceParts({ S: 2, A: 0, T: 0, B: 1 }), 'sections');
+
+    expect(pans.get('S1')).toBe(-0.7);
+    expect(pans.get('S2')).toBe(-0.5);
+    expect(pans.get('B1')).toBe(0.6);
+  });
+
+  test('seats mixed quartets side by side', () => {
+    const pans = getSeatingPans(makeVoiceParts({ S: 2, A: 2, T: 2, B: 2 }), 'quartets');
+
+    expect([pans.get('S1'), pans.get('A1'), pans.get('T1'), pans.get('B1')]).toEqual([-0.7, -0.5, -0.3, -0.1]);
+    expect([pans.get('S2'), pans.get('A2'), pans.get('T2'), pans.get('B2')]).toEqual([0.1, 0.3, 0.5, 0.7]);
+  });
+
+  test('centres every track', () => {
+    const pans = getSeatingPans(makeVoiceParts({ S: 2, A: 1, T: 0, B: 1 }), 'centre');
+
+    expect([...pans.values()]).toEqual([0, 0, 0, 0]);
+  });
+
+  // 🔥 Edge cases
+  test('leaves a gap in a quartet with a missing voice', () => {
+    const pans = getSeatingPans(makeVoiceParts({ S: 2, A: 1, T: 1, B: 1 }), 'quartets');
+
+    expect(pans.get('S2')).toBe(0.1);
+    expect(pans.has('A2')).toBe(false);
+  });
+
+  test('returns nothing for a project without tracks', () => {
+    expect(getSeatingPans(makeVoiceParts({ S: 0, A: 0, T: 0, B: 0 }), 'quartets').size).toBe(0);
+  });
+});
@@ -0,0 +1,62 @@
+// [EARS: PAN-004, PAN-005] Voice-part seating presets for the stereo field
+
+import type { VoicePart, VoicePartType } from '@/store/types';
+
+export type SeatingPreset = 'sections' | 'quartets' | 'centre';
+
+export const SEATING_PRESETS: Array<{ id: SeatingPreset; label: string }> = [
+  { id: 'sections', label: 'S · A · T · B' },
+  { id: 'quartets', label: 'Mixed quartets' },
+  { id: 'centre', label: 'Centre' },
+];
+
+// Left to right within a section layout or a quartet
+const SEATING_ORDER: VoicePartType[] = ['S', 'A', 'T', 'B'];
+
+// Outermost seats stop short of hard left/right so edge voices still reach both speakers a little
+const STAGE_EDGE = 0.8;
+
+/**
+ * Pan of a seat on the stage
+ * The stage is split into equal blocks, each block into equal slots, and singers sit in the middle of their slot
+ *
+ * @param block - Block index, left to right
+ * @param blocks - Number of blocks
+ * @param slot - Slot index within the block, left to right
+ * @param slots - Number of slots in the block
+ * @returns Pan (-1 to 1), rounded to hundredths
+ */
+function seat(block: number, blocks: number, slot: number, slots: number): number {
+  const position = (block + (slot + 0.5) / slots) / blocks; // 0-1 across the stage
+  return Math.round((position * 2 - 1) * STAGE_EDGE * 100) / 100;
+}
+
+/**
+ * Get the pan of every track for a seating preset
+ * [EARS: PAN-004] Sections: soprano, alto, tenor, bass left to right
+ * [EARS: PAN-004] Quartets: the nth track of each part forms the nth quartet, quartets left to right
+ * [EARS: PAN-005] Tracks sharing a section are spread across it rather than stacked
+ *
+ * @param voiceParts - Project voice parts with their tracks
+ * @param preset - Seating preset
+ * @returns Pan by track ID
+ */
+export function getSeatingPans(voiceParts: VoicePart[], preset: SeatingPreset): Map<string, number> {
+  const pans = new Map<string, number>();
+  const quartets = Math.max(0, ...voiceParts.map((vp) => vp.tracks.length));
+
+  for (const voicePart of voiceParts) {
+    const section = SEATING_ORDER.indexOf(voicePart.type);
+    voicePart.tracks.forEach((track, index) => {
+      if (preset === 'sections') {
+        pans.set(track.id, seat(section, SEATING_ORDER.length, index, voicePart.tracks.length));
+      } else if (preset === 'quartets') {
+        pans.set(track.id, seat(index, quartets, section, SEATING_ORDER.length));
+      } else {
+        pans.set(track.id, 0);
+      }
+    });
+  }
+
+  return pans;
+}
@@ -0,0 +1,56 @@
+import { describe, test, expect } from 'vitest';
+import { TapTempo } from './tapTempo';
+
+describe('TAP-001: Tap tempo', () => {
+  // ✅ Happy path
+  test('derives BPM from the spacing of taps', () => {
+    const tapTempo = new TapTempo();
+
+    expect(tapTempo.tap(0)).toBeNull();
+    expect(tapTempo.tap(500)).toBe(120);
+    expect(tapTempo.tap(1000)).toBe(120);
+  });
+
+  test('averages uneven taps', () => {
+    const tapTempo = new TapTempo();
+    tapTempo.tap(0);
+    tapTempo.tap(640);
+    tapTempo.tap(1240);
+
+    // 620ms average
+    expect(tapTempo.tap(1860)).toBe(97);
+  });
+
+  test('only averages the most recent eight taps', () => {
+    const tapTempo = new TapTempo();
+    [0, 1000, 2000].forEach((time) => tapTempo.tap(time));
+    let bpm: number | null = null;
+    for (let time = 2500; time <= 6000; time += 500) {
+      bpm = tapTempo.tap(time);
+    }
+
+    expect(tapTempo.getTapCount()).toBe(8);
+    expect(bpm).toBe(120);
+  });
+
+  // ⚠️ Negative cases
+  test('starts over after a long pause', () => {
+    const tapTempo = new TapTempo();
+    tapTempo.tap(0);
+    tapTempo.tap(1000);
+
+    expect(tapTempo.tap(5000)).toBeNull();
+    expect(tapTempo.getTapCount()).toBe(1);
+  });
+
+  // 🔥 Edge cases
+  test('clamps to 40-240 BPM', () => {
+    const tapTempo = new TapTempo();
+    tapTempo.tap(0);
+
+    expect(tapTempo.tap(100)).toBe(240);
+    tapTempo.reset();
+    tapTempo.tap(0);
+    expect(tapTempo.tap(1900)).toBe(40);
+  });
+});
@@ -0,0 +1,56 @@
+// [EARS: TAP-001] Tap tempo
+
+const MIN_BPM = 40;
+const MAX_BPM = 240;
+const MAX_TAP_GAP = 2000; // Milliseconds - a longer pause starts a new tap sequence
+const MAX_TAPS = 8; // Only the most recent taps are averaged
+
+/**
+ * Derives a tempo from the spacing of user taps
+ * [EARS: TAP-001]
+ */
+export class TapTempo {
+  private taps: number[] = [];
+
+  /**
+   * Register a tap
+   * [EARS: TAP-001] Average the intervals between the most recent taps
+   *
+   * @param time - Tap time in milliseconds (defaults to now)
+   * @returns Rounded BPM clamped to 40-240, or null until there are two taps
+   */
+  tap(time: number = performance.now()): number | null {
+    const last = this.taps[this.taps.length - 1];
+    if (last !== undefined && (time - last > MAX_TAP_GAP || time <= last)) {
+      this.taps = [];
+    }
+
+    this.taps.push(time);
+    if (this.taps.length > MAX_TAPS) {
+      this.taps.shift();
+    }
+
+    if (this.taps.length < 2) {
+      return null;
+    }
+
+    const first = this.taps[0] ?? time;
+    const interval = (time - first) / (this.taps.length - 1);
+    const bpm = Math.round(60000 / interval);
+    return Math.max(MIN_BPM, Math.min(MAX_BPM, bpm));
+  }
+
+  /**
+   * Number of taps in the current sequence
+   */
+  getTapCount(): number {
+    return this.taps.length;
+  }
+
+  /**
+   * Forget previous taps
+   */
+  reset(): void {
+    this.taps = [];
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, test, expect, vi } from 'vitest';
+import { TempoDetector, computeOnsetEnvelope, estimateTempo } from './tempoDetector';
+
+const SAMPLE_RATE = 8000;
+const NOTE_LENGTH = 0.08; // Seconds
+
+/**
+ * Build a recording with decaying notes on a steady beat
+ */
+function buildBeats(bpm: number, firstBeat: number, duration: number): Float32Array {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  for (let beat = firstBeat; beat < duration; beat += 60 / bpm) {
+    const start = Math.round(beat * SAMPLE_RATE);
+    for (let i = 0; i < NOTE_LENGTH * SAMPLE_RATE && start + i < samples.length; i++) {
+      samples[start + i] = 0.6 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE) * Math.exp(-i / 200);
+    }
+  }
+  return samples;
+}
+
+describe('TAP-002: Onset envelope', () => {
+  // ✅ Happy path
+  test('peaks where notes start', () => {
+    const { envelope, frameRate } = computeOnsetEnvelope(buildBeats(60, 0.5, 3), SAMPLE_RATE);
+
+    expect(frameRate).toBe(100);
+    const strongest = envelope.indexOf(Math.max(...envelope));
+    expect([50, 150, 250]).toContain(strongest);
+  });
+
+  // 🔥 Edge cases
+  test('is flat for silence', () => {
+    const { envelope } = computeOnsetEnvelope(new Float32Array(SAMPLE_RATE), SAMPLE_RATE);
+
+    expect(Math.max(...envelope)).toBe(0);
+  });
+});
+
+describe('TAP-002, TAP-003: Tempo estimation', () => {
+  // ✅ Happy path
+  test('finds the tempo and first beat of a steady pulse', () => {
+    const estimate = estimateTempo(buildBeats(100, 0.3, 12), SAMPLE_RATE);
+
+    expect(estimate?.bpm).toBe(100);
+    expect(estimate?.firstBeat).toBeCloseTo(0.3, 1);
+    expect(estimate?.confidence).toBeGreaterThan(0.5);
+  });
+
+  test('finds tempos between envelope frames', () => {
+    // 0.6522s per beat is not a whole number of 10ms frames
+    const estimate = estimateTempo(buildBeats(92, 0.1, 20), SAMPLE_RATE);
+
+    expect(estimate?.bpm).toBe(92);
+  });
+
+  test('puts the first beat on the grid before a late entry', () => {
+    // Singing starts on beat 3: the grid still starts one beat in
+    const estimate = estimateTempo(buildBeats(120, 1.25, 12), SAMPLE_RATE);
+
+    expect(estimate?.bpm).toBe(120);
+    expect(estimate?.firstBeat).toBeCloseTo(0.25, 1);
+  });
+
+  // ⚠️ Negative cases
+  test('returns null for silence', () => {
+    expect(estimateTempo(new Float32Array(SAMPLE_RATE * 10), SAMPLE_RATE)).toBeNull();
+  });
+
+  test('returns null for a single sustained note', () => {
+    const samples = new Float32Array(SAMPLE_RATE * 10);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = 0.5 * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE);
+    }
+
+    expect(estimateTempo(samples, SAMPLE_RATE)).toBeNull();
+  });
+
+  // 🔥 Edge cases
+  test('prefers the moderate tempo over half time', () => {
+    const estimate = estimateTempo(buildBeats(150, 0, 12), SAMPLE_RATE);
+
+    expect(estimate?.bpm).toBe(150);
+  });
+
+  test('returns null when the audio is too short for a few beats', () => {
+    expect(estimateTempo(buildBeats(60, 0, 2), SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('TAP-002: Tempo detection from a track', () => {
+  // ✅ Happy path
+  test('decodes the audio and estimates its tempo', async () => {
+    const audioContext = new AudioContext();
+    const channelData = buildBeats(90, 0.2, 12);
+    vi.spyOn(audioContext, 'decodeAudioData').mockResolvedValueOnce({
+      sampleRate: SAMPLE_RATE,
+      getChannelData: () => channelData,
+    } as unknown as AudioBuffer);
+
+    const estimate = await new TempoDetector(audioContext).detect(new Blob(['audio']));
+
+    expect(estimate.bpm).toBe(90);
+    expect(estimate.firstBeat).toBeCloseTo(0.2, 1);
+  });
+
+  // ⚠️ Negative cases
+  test('throws when there is no steady beat', async () => {
+    const audioContext = new AudioContext();
+    vi.spyOn(audioContext, 'decodeAudioData').mockResolvedValueOnce({
+      sampleRate: SAMPLE_RATE,
+      getChannelData: () => new Float32Array(SAMPLE_RATE * 10),
+    } as unknown as AudioBuffer);
+
+    await expect(new TempoDetector(audioContext).detect(new Blob(['audio']))).rejects.toThrow(
+      'No steady beat detected'
+    );
+  });
+
+  test('throws for an empty blob', async () => {
+    await expect(new TempoDetector(new AudioContext()).detect(new Blob([]))).rejects.toThrow(
+      'Empty audio blob'
+    );
+  });
+});
@@ -0,0 +1,181 @@
+// [EARS: TAP-002, TAP-003] Tempo and first-beat estimation from recorded audio
+
+const FRAME_DURATION = 0.01; // Seconds per onset envelope frame
+const LOG_COMPRESSION = 100; // Makes quiet note onsets count next to loud ones
+const MIN_ONSET_STRENGTH = 0.01; // Below this the track is effectively silent
+const MIN_DETECT_BPM = 40;
+const MAX_DETECT_BPM = 240;
+const PREFERRED_BPM = 120; // Resolves half/double tempo ambiguity towards moderate tempos
+const OCTAVE_WIDTH = 1; // Spread of the tempo preference in octaves
+const MIN_BEATS = 4; // Beats of audio needed for an estimate
+const MIN_CONFIDENCE = 0.1; // Periodicity below this is not a steady beat
+
+export interface TempoEstimate {
+  bpm: number; // Rounded to a whole BPM
+  firstBeat: number; // Seconds from the start of the audio to the first beat of the grid
+  confidence: number; // 0-1 strength of the periodicity
+}
+
+export interface OnsetEnvelope {
+  envelope: Float32Array; // Onset strength per frame (rise in log energy)
+  frameRate: number; // Frames per second
+}
+
+/**
+ * Compute an onset strength envelope
+ * [EARS: TAP-002] Note attacks show up as rises in frame energy
+ *
+ * @param samples - Mono samples
+ * @param sampleRate - Sample rate in Hz
+ * @returns Envelope and its frame rate
+ */
+export function computeOnsetEnvelope(samples: Float32Array, sampleRate: number): OnsetEnvelope {
+  const hop = Math.max(1, Math.round(sampleRate * FRAME_DURATION));
+  const frameCount = Math.floor(samples.length / hop);
+  const envelope = new Float32Array(frameCount);
+
+  let previous = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let i = frame * hop; i < (frame + 1) * hop; i++) {
+      const value = samples[i] ?? 0;
+      sum += value * value;
+    }
+    const energy = Math.log1p(LOG_COMPRESSION * Math.sqrt(sum / hop));
+    envelope[frame] = Math.max(0, energy - previous);
+    previous = energy;
+  }
+
+  return { envelope, frameRate: sampleRate / hop };
+}
+
+/**
+ * Autocorrelation of the envelope at a lag, normalized by the overlap length
+ */
+function autocorrelation(envelope: Float32Array, lag: number): number {
+  const overlap = envelope.length - lag;
+  if (overlap <= 0) {
+    return 0;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < overlap; i++) {
+    sum += (envelope[i] ?? 0) * (envelope[i + lag] ?? 0);
+  }
+  return sum / overlap;
+}
+
+/**
+ * Estimate tempo and first beat from mono samples
+ * [EARS: TAP-002] Strongest envelope periodicity in 40-240 BPM, biased towards moderate tempos
+ * [EARS: TAP-003] First beat is the grid phase that lines up with the most onsets
+ *
+ * @param samples - Mono samples
+ * @param sampleRate - Sample rate in Hz
+ * @returns Estimate, or null when there is no steady beat to find
+ */
+export function estimateTempo(samples: Float32Array, sampleRate: number): TempoEstimate | null {
+  const { envelope, frameRate } = computeOnsetEnvelope(samples, sampleRate);
+
+  const peak = envelope.reduce((max, value) => Math.max(max, value), 0);
+  if (peak < MIN_ONSET_STRENGTH) {
+    return null;
+  }
+
+  const minLag = Math.floor((60 * frameRate) / MAX_DETECT_BPM);
+  const maxLag = Math.ceil((60 * frameRate) / MIN_DETECT_BPM);
+  const energy = autocorrelation(envelope, 0);
+
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = Math.max(1, minLag); lag <= maxLag; lag++) {
+    // Need a few beats of overlap for the lag to mean anything
+    if (lag * MIN_BEATS > envelope.length) break;
+
+    const bpm = (60 * frameRate) / lag;
+    const octaves = Math.log2(bpm / PREFERRED_BPM) / OCTAVE_WIDTH;
+    const score = autocorrelation(envelope, lag) * Math.exp(-0.5 * octaves * octaves);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  if (bestLag === 0) {
+    return null;
+  }
+
+  const confidence = energy > 0 ? Math.min(1, autocorrelation(envelope, bestLag) / energy) : 0;
+  if (confidence < MIN_CONFIDENCE) {
+    return null;
+  }
+
+  // Refine the period between frames with a parabola through the neighbouring lags
+  const before = autocorrelation(envelope, bestLag - 1);
+  const at = autocorrelation(envelope, bestLag);
+  const after = autocorrelation(envelope, bestLag + 1);
+  const curvature = before - 2 * at + after;
+  const period = curvature < 0 ? bestLag + (0.5 * (before - after)) / curvature : bestLag;
+
+  // Beat phase: sum the onsets that fall on the grid (±1 frame)
+  let bestPhase = 0;
+  let bestPhaseScore = -1;
+  for (let phase = 0; phase < period; phase++) {
+    let score = 0;
+    for (let beat = phase; beat < envelope.length; beat += period) {
+      const frame = Math.round(beat);
+      score += (envelope[frame - 1] ?? 0) + (envelope[frame] ?? 0) + (envelope[frame + 1] ?? 0);
+    }
+    if (score > bestPhaseScore) {
+      bestPhaseScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  return {
+    bpm: Math.round((60 * frameRate) / period),
+    firstBeat: bestPhase / frameRate,
+    confidence,
+  };
+}
+
+/**
+ * Estimates the tempo of a recorded track
+ * [EARS: TAP-002, TAP-003]
+ */
+export class TempoDetector {
+  private audioContext: AudioContext;
+
+  /**
+   * Create a new TempoDetector
+   *
+   * @param audioContext - AudioContext used to decode track audio
+   */
+  constructor(audioContext: AudioContext) {
+    this.audioContext = audioContext;
+  }
+
+  /**
+   * Estimate tempo and first beat of an audio blob
+   * [EARS: TAP-002, TAP-003]
+   *
+   * @param audioBlob - Track audio
+   * @returns Proposed BPM and first-beat offset
+   * @throws Error if the audio is empty or has no steady beat
+   */
+  async detect(audioBlob: Blob): Promise<TempoEstimate> {
+    const arrayBuffer = await audioBlob.arrayBuffer();
+    if (arrayBuffer.byteLength === 0) {
+      throw new Error('Empty audio blob');
+    }
+
+    const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
+    const estimate = estimateTempo(audioBuffer.getChannelData(0), audioBuffer.sampleRate);
+
+    if (!estimate) {
+      throw new Error('No steady beat detected');
+    }
+
+    return estimate;
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, test, expect } from 'vitest';
+import { TempoMap } from './tempoMap';
+import { TICKS_PER_BEAT } from './musicalTime';
+
+const FOUR_FOUR = { beatsPerBar: 4, beatUnit: 4 };
+const THREE_FOUR = { beatsPerBar: 3, beatUnit: 4 };
+const SIX_EIGHT = { beatsPerBar: 6, beatUnit: 8 };
+
+describe('BAR-001: Bar:beat:tick positions', () => {
+  const map = new TempoMap(120, FOUR_FOUR);
+
+  // ✅ Happy path
+  test('starts at bar 1 beat 1', () => {
+    expect(map.secondsToBarBeatTick(0)).toEqual({ bar: 1, beat: 1, tick: 0 });
+  });
+
+  test('counts beats and bars at the project tempo', () => {
+    // 120 BPM: 0.5s per beat, 2s per 4/4 bar
+    expect(map.secondsToBarBeatTick(1.5)).toEqual({ bar: 1, beat: 4, tick: 0 });
+    expect(map.secondsToBarBeatTick(32)).toEqual({ bar: 17, beat: 1, tick: 0 });
+  });
+
+  test('counts ticks within a beat', () => {
+    expect(map.secondsToBarBeatTick(0.25)).toEqual({ bar: 1, beat: 1, tick: TICKS_PER_BEAT / 2 });
+  });
+
+  test('uses the beats per bar of the time signature', () => {
+    // 6 clicks per bar at 120 BPM = 3s per bar
+    expect(new TempoMap(120, SIX_EIGHT).secondsToBarBeatTick(3)).toEqual({ bar: 2, beat: 1, tick: 0 });
+  });
+
+  // ⚠️ Negative cases
+  test('reads negative positions as the start', () => {
+    expect(map.secondsToBarBeatTick(-1)).toEqual({ bar: 1, beat: 1, tick: 0 });
+  });
+
+  // 🔥 Edge cases
+  test('lands exactly on beats despite float error', () => {
+    // 0.1 * 3 is slightly below 0.3
+    expect(new TempoMap(200, FOUR_FOUR).secondsToBarBeatTick(0.1 * 3)).toEqual({ bar: 1, beat: 2, tick: 0 });
+  });
+});
+
+describe('BAR-003, BAR-004: Bar positions', () => {
+  // ✅ Happy path
+  test('returns the downbeat of a bar', () => {
+    const map = new TempoMap(120, FOUR_FOUR);
+
+    expect(map.barToSeconds(1)).toBe(0);
+    expect(map.barToSeconds(17)).toBe(32);
+  });
+
+  test('round-trips with bar:beat:tick', () => {
+    const map = new TempoMap(90, SIX_EIGHT, [{ bar: 5, bpm: 70, ramp: true }]);
+
+    expect(map.secondsToBarBeatTick(map.barToSeconds(9))).toEqual({ bar: 9, beat: 1, tick: 0 });
+  });
+
+  // ⚠️ Negative cases
+  test('throws for bars before bar 1', () => {
+    expect(() => new TempoMap(120).barToSeconds(0)).toThrow('Bar must be at least 1');
+  });
+});
+
+describe('TEMPO-001: Tempo and meter changes', () => {
+  // ✅ Happy path
+  test('changes tempo at the downbeat of a bar', () => {
+    // Bars 1-2 at 120 BPM (4s), then 60 BPM (4s per bar)
+    const map = new TempoMap(120, FOUR_FOUR, [{ bar: 3, bpm: 60 }]);
+
+    expect(map.barToSeconds(3)).toBe(4);
+    expect(map.barToSeconds(4)).toBe(8);
+    expect(map.tempoAt(3.9)).toBe(120);
+    expect(map.tempoAt(4)).toBe(60);
+  });
+
+  test('changes meter at the downbeat of a bar', () => {
+    const map = new TempoMap(120, FOUR_FOUR, [{ bar: 2, bpm: 120, timeSignature: THREE_FOUR }]);
+
+    // Bar 2 starts at 2s and is 1.5s long
+    expect(map.secondsToBarBeatTick(3)).toEqual({ bar: 2, beat: 3, tick: 0 });
+    expect(map.barToSeconds(3)).toBe(3.5);
+    expect(map.timeSignatureAt(2.5)).toEqual(THREE_FOUR);
+  });
+
+  test('ramps tempo linearly in time into a ramped event', () => {
+    // One 4-beat bar ramping 120 -> 60 BPM lasts 120 * 4 / 180 = 2.667s
+    const map = new TempoMap(120, FOUR_FOUR, [{ bar: 2, bpm: 60, ramp: true }]);
+
+    expect(map.barToSeconds(2)).toBeCloseTo(8 / 3);
+    expect(map.tempoAt(4 / 3)).toBeCloseTo(90);
+    expect(map.tempoAt(3)).toBe(60);
+  });
+
+  test('converts beats and seconds consistently inside a ramp', () => {
+    const map = new TempoMap(60, FOUR_FOUR, [{ bar: 3, bpm: 120, ramp: true }]);
+
+    for (const beats of [0.5, 2, 5.25, 7.9, 10]) {
+      expect(map.secondsToBeats(map.beatsToSeconds(beats))).toBeCloseTo(beats);
+    }
+  });
+
+  test('lists bar lines with their beats for the ruler', () => {
+    const map = new TempoMap(120, FOUR_FOUR, [{ bar: 2, bpm: 60, timeSignature: { beatsPerBar: 2, beatUnit: 4 } }]);
+
+    expect(map.barsUntil(5)).toEqual([
+      { bar: 1, time: 0, beatTimes: [0.5, 1, 1.5] },
+      { bar: 2, time: 2, beatTimes: [3] },
+      { bar: 3, time: 4, beatTimes: [5] },
+    ]);
+  });
+
+  // 🔥 Edge cases
+  test('ignores events at bar 1 and keeps the first of duplicate bars', () => {
+    const map = new TempoMap(100, FOUR_FOUR, [
+      { bar: 1, bpm: 200 },
+      { bar: 2, bpm: 50 },
+      { bar: 2, bpm: 80 },
+    ]);
+
+    expect(map.getSegments().map(s => [s.bar, s.startBpm])).toEqual([
+      [1, 100],
+      [2, 50],
+    ]);
+  });
+
+  test('keeps the previous meter when an event only changes tempo', () => {
+    const map = new TempoMap(120, THREE_FOUR, [{ bar: 2, bpm: 90 }]);
+
+    expect(map.timeSignatureAt(10)).toEqual(THREE_FOUR);
+  });
+});
@@ -0,0 +1,234 @@
+// [EARS: TEMPO-001, TEMPO-003, TEMPO-004, TEMPO-005, BAR-001, BAR-003] Tempo and meter over the timeline
+
+import type { TempoEvent, TimeSignature } from '@/store/types';
+import { DEFAULT_TIME_SIGNATURE, TICKS_PER_BEAT, type BarBeatTick } from './musicalTime';
+
+const EPSILON = 1e-6; // Absorbs float error so exact beat positions land on tick 0
+
+/**
+ * A stretch of the timeline between two tempo events
+ * [EARS: TEMPO-001] Tempo is constant or ramps linearly (in time) to the next event
+ */
+export interface TempoSegment {
+  bar: number; // First bar (1-based)
+  beat: number; // Beats from timeline start to the segment start
+  time: number; // Seconds from timeline start to the segment start
+  startBpm: number;
+  endBpm: number; // Equal to startBpm unless the next event ramps
+  duration: number; // Seconds; Infinity for the last segment
+  timeSignature: TimeSignature;
+}
+
+export interface BarLine {
+  bar: number; // 1-based
+  time: number; // Seconds of the downbeat
+  beatTimes: number[]; // Seconds of the other beats in the bar
+}
+
+/**
+ * TempoMap converts between seconds, beats and bars for a project whose tempo
+ * and meter change over time
+ * [EARS: TEMPO-001] Bar 1 uses the project BPM and time signature; each event
+ * changes tempo and/or meter from its bar onwards
+ */
+export class TempoMap {
+  private segments: TempoSegment[] = [];
+
+  /**
+   * Create a new TempoMap
+   *
+   * @param bpm - Tempo at bar 1
+   * @param timeSignature - Meter at bar 1
+   * @param events - Tempo/meter changes (bar 2 or later)
+   */
+  constructor(bpm: number, timeSignature: TimeSignature = DEFAULT_TIME_SIGNATURE, events: TempoEvent[] = []) {
+    const sorted = events.filter(event => event.bar > 1).sort((a, b) => a.bar - b.bar);
+
+    let segment: TempoSegment = {
+      bar: 1,
+      beat: 0,
+      time: 0,
+      startBpm: bpm,
+      endBpm: bpm,
+      duration: Infinity,
+      timeSignature,
+    };
+
+    for (const event of sorted) {
+      if (event.bar === segment.bar) continue;
+
+      const beats = (event.bar - segment.bar) * segment.timeSignature.beatsPerBar;
+      segment.endBpm = event.ramp ? event.bpm : segment.startBpm;
+      segment.duration = (120 * beats) / (segment.startBpm + segment.endBpm);
+      this.segments.push(segment);
+
+      segment = {
+        bar: event.bar,
+        beat: segment.beat + beats,
+        time: segment.time + segment.duration,
+        startBpm: event.bpm,
+        endBpm: event.bpm,
+        duration: Infinity,
+        timeSignature: event.timeSignature ?? segment.timeSignature,
+      };
+    }
+    this.segments.push(segment);
+  }
+
+  /**
+   * Get the tempo segments in timeline order
+   */
+  getSegments(): TempoSegment[] {
+    return this.segments;
+  }
+
+  /**
+   * Beats elapsed from timeline start to a position
+   *
+   * @param seconds - Timeline position (negative positions read as 0)
+   */
+  secondsToBeats(seconds: number): number {
+    const position = Math.max(0, seconds);
+    const segment = this.segmentAtTime(position);
+    const dt = position - segment.time;
+
+    if (segment.startBpm === segment.endBpm) {
+      return segment.beat + (dt * segment.startBpm) / 60;
+    }
+    const slope = (segment.endBpm - segment.startBpm) / segment.duration;
+    return segment.beat + (segment.startBpm * dt + (slope * dt * dt) / 2) / 60;
+  }
+
+  /**
+   * Timeline position after a number of beats
+   *
+   * @param beats - Beats from timeline start (negative reads as 0)
+   */
+  beatsToSeconds(beats: number): number {
+    const position = Math.max(0, beats);
+    const segment = this.segmentAtBeat(position);
+    const db = position - segment.beat;
+
+    if (segment.startBpm === segment.endBpm) {
+      return segment.time + (db * 60) / segment.startBpm;
+    }
+    // Solve startBpm * dt + slope * dt^2 / 2 = 60 * db for dt
+    const slope = (segment.endBpm - segment.startBpm) / segment.duration;
+    const a = slope / 2;
+    const dt = (-segment.startBpm + Math.sqrt(segment.startBpm ** 2 + 4 * a * 60 * db)) / (2 * a);
+    return segment.time + dt;
+  }
+
+  /**
+   * Tempo at a position
+   * [EARS: TEMPO-004] Count-in tempo
+   *
+   * @param seconds - Timeline position
+   */
+  tempoAt(seconds: number): number {
+    const segment = this.segmentAtTime(Math.max(0, seconds));
+    if (segment.startBpm === segment.endBpm) {
+      return segment.startBpm;
+    }
+    const progress = (Math.max(0, seconds) - segment.time) / segment.duration;
+    return segment.startBpm + (segment.endBpm - segment.startBpm) * progress;
+  }
+
+  /**
+   * Meter at a position
+   * [EARS: TEMPO-004] Count-in meter
+   *
+   * @param seconds - Timeline position
+   */
+  timeSignatureAt(seconds: number): TimeSignature {
+    return this.segmentAtTime(Math.max(0, seconds)).timeSignature;
+  }
+
+  /**
+   * Bar and beat of a beat count
+   * [EARS: TEMPO-003] Accents follow meter changes
+   *
+   * @param beats - Beats from timeline start
+   */
+  beatsToBarBeatTick(beats: number): BarBeatTick {
+    const segment = this.segmentAtBeat(Math.max(0, beats));
+    const totalTicks = Math.floor((Math.max(0, beats) - segment.beat) * TICKS_PER_BEAT + EPSILON);
+    const beatInSegment = Math.floor(totalTicks / TICKS_PER_BEAT);
+    const { beatsPerBar } = segment.timeSignature;
+
+    return {
+      bar: segment.bar + Math.floor(beatInSegment / beatsPerBar),
+      beat: (beatInSegment % beatsPerBar) + 1,
+      tick: totalTicks % TICKS_PER_BEAT,
+    };
+  }
+
+  /**
+   * Convert a timeline position to bar:beat:tick
+   * [EARS: BAR-001, TEMPO-005] Bar 1 beat 1 is at 0:00
+   *
+   * @param seconds - Timeline position (negative positions read as 0)
+   */
+  secondsToBarBeatTick(seconds: number): BarBeatTick {
+    return this.beatsToBarBeatTick(this.secondsToBeats(seconds));
+  }
+
+  /**
+   * Timeline position of the downbeat of a bar
+   * [EARS: BAR-003, BAR-004, TEMPO-005] Seek to a bar
+   *
+   * @param bar - Bar number (1-based)
+   * @returns Seconds from timeline start
+   * @throws Error if bar is less than 1
+   */
+  barToSeconds(bar: number): number {
+    if (bar < 1) {
+      throw new Error('Bar must be at least 1');
+    }
+
+    const segment = this.lastSegmentWhere(candidate => candidate.bar <= bar);
+    return this.beatsToSeconds(segment.beat + (bar - segment.bar) * segment.timeSignature.beatsPerBar);
+  }
+
+  /**
+   * Bars that start before a position, with their beat positions
+   * [EARS: BAR-002, TEMPO-005] Ruler markings
+   *
+   * @param until - Timeline position in seconds
+   */
+  barsUntil(until: number): BarLine[] {
+    const bars: BarLine[] = [];
+    for (let bar = 1; ; bar++) {
+      const time = this.barToSeconds(bar);
+      if (time >= until - EPSILON) break;
+
+      const firstBeat = this.secondsToBeats(time);
+      const { beatsPerBar } = this.timeSignatureAt(time);
+      const beatTimes = Array.from({ length: beatsPerBar - 1 }, (_, i) => this.beatsToSeconds(firstBeat + i + 1));
+      bars.push({ bar, time, beatTimes });
+    }
+    return bars;
+  }
+
+  /**
+   * Segment containing a timeline position
+   */
+  private segmentAtTime(seconds: number): TempoSegment {
+    return this.lastSegmentWhere(candidate => candidate.time <= seconds + EPSILON);
+  }
+
+  /**
+   * Segment containing a beat count
+   */
+  private segmentAtBeat(beats: number): TempoSegment {
+    return this.lastSegmentWhere(candidate => candidate.beat <= beats + EPSILON);
+  }
+
+  /**
+   * Last segment that starts at or before a point (bar 1 if none does)
+   */
+  private lastSegmentWhere(startsBefore: (segment: TempoSegment) => boolean): TempoSegment {
+    // There is always a bar 1 segment, so reduce has a first value to start from
+    return this.segments.reduce((found, candidate) => (startsBefore(candidate) ? candidate : found));
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, test, expect, vi } from 'vitest';
+import { TimingAnalyzer, detectOnsets, analyzeTiming } from './timingAnalyzer';
+import { TempoMap } from './tempoMap';
+
+const SAMPLE_RATE = 8000;
+const NOTE_LENGTH = 0.3; // Seconds
+
+/**
+ * Build a recording with a sung note starting at each time
+ */
+function buildNotes(starts: number[], duration: number): Float32Array {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  for (const time of starts) {
+    const start = Math.round(time * SAMPLE_RATE);
+    for (let i = 0; i < NOTE_LENGTH * SAMPLE_RATE && start + i < samples.length; i++) {
+      samples[start + i] = 0.5 * Math.sin((2 * Math.PI * 330 * i) / SAMPLE_RATE) * Math.exp(-i / 1200);
+    }
+  }
+  return samples;
+}
+
+describe('TIMING-001: Note onsets', () => {
+  // ✅ Happy path
+  test('finds where each note starts', () => {
+    const onsets = detectOnsets(buildNotes([0.5, 1.0, 1.52, 2.0], 3), SAMPLE_RATE);
+
+    expect(onsets).toHaveLength(4);
+    [0.5, 1.0, 1.52, 2.0].forEach((time, i) => expect(onsets[i]).toBeCloseTo(time, 1));
+  });
+
+  test('decodes a track and finds its onsets', async () => {
+    const audioContext = new AudioContext();
+    const channelData = buildNotes([0.25, 0.75], 1.5);
+    vi.spyOn(audioContext, 'decodeAudioData').mockResolvedValueOnce({
+      sampleRate: SAMPLE_RATE,
+      getChannelData: () => channelData,
+    } as unknown as AudioBuffer);
+
+    const onsets = await new TimingAnalyzer(audioContext).detectOnsets(new Blob(['audio']));
+
+    expect(onsets).toHaveLength(2);
+    expect(onsets[1]).toBeCloseTo(0.75, 1);
+  });
+
+  // ⚠️ Negative cases
+  test('finds no onsets in silence', () => {
+    expect(detectOnsets(new Float32Array(SAMPLE_RATE), SAMPLE_RATE)).toEqual([]);
+  });
+
+  test('throws for an empty blob', async () => {
+    await expect(new TimingAnalyzer(new AudioContext()).detectOnsets(new Blob([]))).rejects.toThrow(
+      'Empty audio blob'
+    );
+  });
+
+  // 🔥 Edge cases
+  test('counts attacks closer than 100ms as one note', () => {
+    const onsets = detectOnsets(buildNotes([0.5, 0.55], 1.5), SAMPLE_RATE);
+
+    expect(onsets).toHaveLength(1);
+  });
+});
+
+describe('TIMING-002: Offsets from the tempo grid', () => {
+  const tempoMap = new TempoMap(120); // Beats every 0.5s
+
+  // ✅ Happy path
+  test('measures each onset from the nearest beat', () => {
+    const report = analyzeTiming([0.48, 1.0, 1.56], tempoMap);
+
+    expect(report.notes.map((note) => note.gridTime)).toEqual([0.5, 1.0, 1.5]);
+    expect(report.notes[0]!.offset).toBeCloseTo(-0.02, 5);
+    expect(report.notes[2]!.offset).toBeCloseTo(0.06, 5);
+    expect(report.meanAbsoluteOffset).toBeCloseTo(0.08 / 3, 5);
+    expect(report.early).toBe(0);
+    expect(report.late).toBe(1);
+  });
+
+  test('summarizes consistently early notes as rushing', () => {
+    const report = analyzeTiming([0.46, 0.96, 1.475, 1.98], tempoMap);
+
+    expect(report.tendency).toBe('rushing');
+    expect(report.meanOffset).toBeCloseTo(-0.03125, 5);
+    expect(report.early).toBe(2);
+  });
+
+  test('summarizes consistently late notes as dragging', () => {
+    expect(analyzeTiming([0.53, 1.04, 1.52], tempoMap).tendency).toBe('dragging');
+  });
+
+  test('measures against subdivisions', () => {
+    const report = analyzeTiming([0.26], tempoMap, 2);
+
+    expect(report.notes[0]!.gridTime).toBe(0.25);
+    expect(report.notes[0]!.offset).toBeCloseTo(0.01, 5);
+  });
+
+  test('follows tempo changes', () => {
+    // Bar 2 at 60 BPM: beats every second from 2s
+    const changing = new TempoMap(120, { beatsPerBar: 4, beatUnit: 4 }, [{ bar: 2, bpm: 60 }]);
+
+    expect(analyzeTiming([3.05], changing).notes[0]!.gridTime).toBeCloseTo(3, 5);
+  });
+
+  // ⚠️ Negative cases
+  test('reports steady timing with no notes', () => {
+    const report = analyzeTiming([], tempoMap);
+
+    expect(report.notes).toEqual([]);
+    expect(report.meanOffset).toBe(0);
+    expect(report.tendency).toBe('steady');
+  });
+
+  // 🔥 Edge cases
+  test('treats small scatter around the beat as steady', () => {
+    expect(analyzeTiming([0.49, 1.01, 1.5], tempoMap).tendency).toBe('steady');
+  });
+});
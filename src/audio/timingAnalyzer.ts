@@ -0,0 +1,133 @@
+// [EARS: TIMING-001, TIMING-002] Note onsets of recorded audio measured against the tempo grid
+
+import { computeOnsetEnvelope } from './tempoDetector';
+import type { TempoMap } from './tempoMap';
+
+const MIN_ONSET_STRENGTH = 0.01; // Below this nothing is sung
+const ONSET_THRESHOLD = 0.3; // Fraction of the strongest attack a note onset must reach
+const MIN_ONSET_GAP = 0.1; // Seconds - closer attacks belong to the same note
+export const ON_TIME_TOLERANCE = 0.03; // Seconds either side of the grid counted as on time
+const TENDENCY_THRESHOLD = 0.015; // Seconds of average offset before a singer is rushing or dragging
+
+export type TimingTendency = 'rushing' | 'dragging' | 'steady';
+
+export interface TimingNote {
+  time: number; // Onset, seconds from timeline start
+  gridTime: number; // Nearest beat or subdivision, seconds from timeline start
+  offset: number; // Seconds from the grid (negative = early, positive = late)
+}
+
+export interface TimingReport {
+  notes: TimingNote[];
+  meanOffset: number; // Seconds, signed
+  meanAbsoluteOffset: number; // Seconds
+  early: number; // Notes more than the tolerance before the grid
+  late: number; // Notes more than the tolerance after the grid
+  tendency: TimingTendency;
+}
+
+/**
+ * Find the note onsets of a recording
+ * [EARS: TIMING-001] Local peaks of the onset envelope, at least 100ms apart
+ *
+ * @param samples - Mono samples
+ * @param sampleRate - Sample rate in Hz
+ * @returns Onset times in seconds from the first sample
+ */
+export function detectOnsets(samples: Float32Array, sampleRate: number): number[] {
+  const { envelope, frameRate } = computeOnsetEnvelope(samples, sampleRate);
+
+  const peak = envelope.reduce((max, value) => Math.max(max, value), 0);
+  if (peak < MIN_ONSET_STRENGTH) {
+    return [];
+  }
+
+  const threshold = peak * ONSET_THRESHOLD;
+  const minGap = Math.round(MIN_ONSET_GAP * frameRate);
+  const onsets: number[] = [];
+  let lastFrame = -Infinity;
+
+  for (let frame = 0; frame < envelope.length; frame++) {
+    const value = envelope[frame] ?? 0;
+    if (value < threshold) continue;
+    if (value < (envelope[frame - 1] ?? 0) || value < (envelope[frame + 1] ?? 0)) continue;
+    if (frame - lastFrame < minGap) continue;
+
+    onsets.push(frame / frameRate);
+    lastFrame = frame;
+  }
+
+  return onsets;
+}
+
+/**
+ * Measure onsets against the nearest beat or subdivision
+ * [EARS: TIMING-002] The grid follows the tempo map
+ *
+ * @param onsets - Onset times in seconds from timeline start
+ * @param tempoMap - Project tempo map
+ * @param subdivision - Grid divisions per beat (1 = beats, 2 = eighths, ...)
+ * @returns Per-note offsets and a rushing/dragging summary
+ */
+export function analyzeTiming(onsets: number[], tempoMap: TempoMap, subdivision: number = 1): TimingReport {
+  const notes = onsets.map((time) => {
+    const gridBeat = Math.round(tempoMap.secondsToBeats(time) * subdivision) / subdivision;
+    const gridTime = tempoMap.beatsToSeconds(gridBeat);
+    return { time, gridTime, offset: time - gridTime };
+  });
+
+  const count = notes.length || 1;
+  const meanOffset = notes.reduce((sum, note) => sum + note.offset, 0) / count;
+  const meanAbsoluteOffset = notes.reduce((sum, note) => sum + Math.abs(note.offset), 0) / count;
+
+  let tendency: TimingTendency = 'steady';
+  if (meanOffset < -TENDENCY_THRESHOLD) {
+    tendency = 'rushing';
+  } else if (meanOffset > TENDENCY_THRESHOLD) {
+    tendency = 'dragging';
+  }
+
+  return {
+    notes,
+    meanOffset,
+    meanAbsoluteOffset,
+    early: notes.filter((note) => note.offset < -ON_TIME_TOLERANCE).length,
+    late: notes.filter((note) => note.offset > ON_TIME_TOLERANCE).length,
+    tendency,
+  };
+}
+
+/**
+ * Finds the note onsets of recorded tracks
+ * [EARS: TIMING-001]
+ */
+export class TimingAnalyzer {
+  private audioContext: AudioContext;
+
+  /**
+   * Create a new TimingAnalyzer
+   *
+   * @param audioContext - AudioContext used to decode track audio
+   */
+  constructor(audioContext: AudioContext) {
+    this.audioContext = audioContext;
+  }
+
+  /**
+   * Find the note onsets of an audio blob
+   * [EARS: TIMING-001]
+   *
+   * @param audioBlob - Track audio
+   * @returns Onset times in seconds from the start of the audio
+   * @throws Error if the audio is empty or cannot be decoded
+   */
+  async detectOnsets(audioBlob: Blob): Promise<number[]> {
+    const arrayBuffer = await audioBlob.arrayBuffer();
+    if (arrayBuffer.byteLength === 0) {
+      throw new Error('Empty audio blob');
+    }
+
+    const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
+    return detectOnsets(audioBuffer.getChannelData(0), audioBuffer.sampleRate);
+  }
+}
@@ -131,6 +131,139 @@ describe('TONE-003: Note labels', () => {
   });
 });
 
+describe('TONE-007, TONE-008: Octave range and note names', () => {
+  let toneGenerator: ToneGenerator;
+
+  beforeEach(() => {
+    toneGenerator = new ToneGenerator();
+  });
+
+  afterEach(() => {
+    toneGenerator.dispose();
+  });
+
+  // ✅ Happy path
+  test('provides frequencies from C2 to B6', () => {
+    expect(toneGenerator.getFrequency(0, 2)).toBeCloseTo(65.41, 1); // C2
+    expect(toneGenerator.getFrequency(4, 2)).toBeCloseTo(82.41, 1); // E2
+    expect(toneGenerator.getFrequency(9, 3)).toBeCloseTo(220.0, 1); // A3
+    expect(toneGenerator.getFrequency(9, 5)).toBeCloseTo(880.0, 1); // A5
+    expect(toneGenerator.getFrequency(0, 6)).toBeCloseTo(1046.5, 0); // C6
+    expect(toneGenerator.getFrequency(11, 6)).toBeCloseTo(1975.53, 0); // B6
+  });
+
+  test('names notes with their octave number', () => {
+    expect(toneGenerator.getNoteName(0, 2)).toBe('C2');
+    expect(toneGenerator.getNoteName(6, 3)).toBe('F#3');
+    expect(toneGenerator.getNoteName(9)).toBe('A4');
+  });
+
+  test('plays a note in the requested octave', () => {
+    toneGenerator.play(7, 2); // G2
+
+    expect(toneGenerator.getCurrentNote()).toBe(7);
+    expect(toneGenerator.getCurrentOctave()).toBe(2);
+
+    toneGenerator.stop();
+    expect(toneGenerator.getCurrentOctave()).toBeNull();
+  });
+
+  // ⚠️ Negative cases
+  test('throws error for octaves outside 2-6', () => {
+    expect(() => toneGenerator.getFrequency(0, 1)).toThrow('Octave must be between 2 and 6');
+    expect(() => toneGenerator.play(0, 7)).toThrow('Octave must be between 2 and 6');
+    expect(() => toneGenerator.getNoteName(0, 3.5)).toThrow('Octave must be between 2 and 6');
+  });
+
+  // 🔥 Edge cases
+  test('defaults to octave 4', () => {
+    toneGenerator.play(9);
+
+    expect(toneGenerator.getCurrentOctave()).toBe(4);
+    expect(toneGenerator.getFrequency(9)).toBeCloseTo(440.0, 1);
+  });
+});
+
+describe('CHORD-002: Starting chord playback', () => {
+  let toneGenerator: ToneGenerator;
+
+  beforeEach(() => {
+    toneGenerator = new ToneGenerator();
+  });
+
+  afterEach(() => {
+    toneGenerator.dispose();
+    vi.restoreAllMocks();
+  });
+
+  const chord = [
+    { semitone: 4, octave: 5 }, // E5
+    { semitone: 0, octave: 3 }, // C3
+    { semitone: 7, octave: 4 }, // G4
+    { semitone: 0, octave: 4 }, // C4
+  ];
+
+  // ✅ Happy path
+  test('arpeggiates the chord from the lowest note up', () => {
+    const start = vi.spyOn(Tone.Oscillator.prototype, 'start');
+
+    toneGenerator.playChord(chord);
+
+    const started = start.mock.contexts.map((oscillator: unknown) => (oscillator as Tone.Oscillator).frequency.value);
+    expect(started[0]).toBeCloseTo(130.81, 1); // C3
+    expect(started[1]).toBeCloseTo(261.63, 1); // C4
+    expect(started[2]).toBeCloseTo(392.0, 1); // G4
+    expect(started[3]).toBeCloseTo(659.26, 1); // E5
+    // Relative start times, 0.4s apart
+    expect(start.mock.calls.map(([time]: unknown[]) => parseFloat(String(time).slice(1)))).toEqual([
+      0,
+      expect.closeTo(0.4),
+      expect.closeTo(0.8),
+      expect.closeTo(1.2),
+    ]);
+  });
+
+  test('sustains the chord until stopped', () => {
+    const stop = vi.spyOn(Tone.Oscillator.prototype, 'stop');
+    toneGenerator.playChord(chord);
+
+    expect(toneGenerator.isPlaying()).toBe(true);
+    expect(toneGenerator.isPlayingChord()).toBe(true);
+    expect(stop).not.toHaveBeenCalled();
+
+    toneGenerator.stop();
+    expect(stop).toHaveBeenCalledTimes(4);
+    expect(toneGenerator.isPlaying()).toBe(false);
+    expect(toneGenerator.isPlayingChord()).toBe(false);
+  });
+
+  // ⚠️ Negative cases
+  test('throws error for an empty chord or out-of-range note', () => {
+    expect(() => toneGenerator.playChord([])).toThrow('Chord has no notes');
+    expect(() => toneGenerator.playChord([{ semitone: 0, octave: 9 }])).toThrow('Octave must be between 2 and 6');
+    expect(toneGenerator.isPlaying()).toBe(false);
+  });
+
+  // 🔥 Edge cases
+  test('playing a single tone replaces the chord', () => {
+    toneGenerator.playChord(chord);
+
+    toneGenerator.play(9);
+
+    expect(toneGenerator.isPlayingChord()).toBe(false);
+    expect(toneGenerator.getCurrentNote()).toBe(9);
+  });
+
+  test('playing a chord replaces a single tone', () => {
+    toneGenerator.play(9);
+
+    toneGenerator.playChord(chord);
+
+    expect(toneGenerator.getCurrentNote()).toBeNull();
+    expect(toneGenerator.isPlayingChord()).toBe(true);
+  });
+});
+
 describe('TONE-004, TONE-005: Play and stop tones', () => {
   let toneGenerator: ToneGenerator;
 
@@ -209,6 +342,66 @@ describe('TONE-004, TONE-005: Play and stop tones', () => {
   });
 });
 
+describe('TUNE-003: Tuning', () => {
+  let toneGenerator: ToneGenerator;
+
+  beforeEach(() => {
+    toneGenerator = new ToneGenerator();
+  });
+
+  afterEach(() => {
+    toneGenerator.dispose();
+    vi.restoreAllMocks();
+  });
+
+  // ✅ Happy path
+  test('generates pitches at the set reference frequency and temperament', () => {
+    toneGenerator.setTuning({ referenceFrequency: 442, temperament: 'just', key: 9 });
+
+    expect(toneGenerator.getTuning()).toEqual({ referenceFrequency: 442, temperament: 'just', key: 9 });
+    expect(toneGenerator.getFrequency(9)).toBeCloseTo(442, 5);
+    expect(toneGenerator.getFrequency(4, 5)).toBeCloseTo(663, 5); // Pure fifth above A4
+  });
+
+  test('retunes a sounding tone', () => {
+    const start = vi.spyOn(Tone.Oscillator.prototype, 'start');
+    toneGenerator.play(9);
+    const oscillator = start.mock.contexts[0] as Tone.Oscillator;
+
+    toneGenerator.setTuning({ referenceFrequency: 442, temperament: 'equal', key: 0 });
+
+    expect(oscillator.frequency.value).toBeCloseTo(442, 5);
+    expect(toneGenerator.getCurrentNote()).toBe(9);
+  });
+
+  test('retunes a sounding chord', () => {
+    const start = vi.spyOn(Tone.Oscillator.prototype, 'start');
+    toneGenerator.playChord([
+      { semitone: 4, octave: 4 },
+      { semitone: 0, octave: 4 },
+    ]);
+    const [c4, e4] = start.mock.contexts as Tone.Oscillator[];
+
+    toneGenerator.setTuning({ referenceFrequency: 440, temperament: 'just', key: 0 });
+
+    expect((e4!.frequency.value as number) / (c4!.frequency.value as number)).toBeCloseTo(5 / 4, 10);
+  });
+
+  // ⚠️ Negative cases
+  test('throws error for an out-of-range tuning', () => {
+    expect(() => toneGenerator.setTuning({ referenceFrequency: 400, temperament: 'equal', key: 0 })).toThrow(
+      'Reference frequency must be between 415 and 466 Hz'
+    );
+    expect(() => toneGenerator.setTuning({ referenceFrequency: 440, temperament: 'equal', key: 12 })).toThrow(
+      'Key must be between 0 and 11'
+    );
+    expect(() =>
+      toneGenerator.setTuning({ referenceFrequency: 440, temperament: 'meantone' as never, key: 0 })
+    ).toThrow('Unknown temperament');
+    expect(toneGenerator.getTuning().referenceFrequency).toBe(440);
+  });
+});
+
 describe('ToneGenerator cleanup', () => {
   // ✅ Happy path
   test('disposes resources properly', () => {
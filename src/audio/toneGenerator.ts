@@ -1,12 +1,25 @@
-// [EARS: TONE-001 through TONE-005] Tone generator for 12-tone chromatic scale
+// [EARS: TONE-001 through TONE-005, TONE-007, TONE-008, CHORD-002, TUNE-003] Tone generator for the chromatic scale over C2-B6
 
 import { Oscillator } from 'tone';
+import type { Pitch, Tuning } from '@/store/types';
+import {
+  NOTE_LABELS,
+  formatPitch,
+  calculateFrequency,
+  DEFAULT_TUNING,
+  MIN_REFERENCE_FREQUENCY,
+  MAX_REFERENCE_FREQUENCY,
+  TEMPERAMENTS,
+} from './pitch';
 
-// Base frequency for C4 in Hz
-const C4_FREQUENCY = 261.63;
+// [EARS: TONE-007] Octave range covering bass through soprano
+export const MIN_OCTAVE = 2;
+export const MAX_OCTAVE = 6;
+const DEFAULT_OCTAVE = 4;
 
-// Note labels for chromatic scale
-const NOTE_LABELS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+// [EARS: CHORD-002] Starting chord playback
+const ARPEGGIO_STEP = 0.4; // Seconds between chord notes entering
+const CHORD_VOICE_VOLUME = -12; // dB per voice so four sines do not clip
 
 /**
  * Validate semitone index is in valid range (0-11)
@@ -18,25 +31,45 @@ function validateSemitone(semitone: number): void {
 }
 
 /**
- * Calculate frequency for a given semitone using equal temperament
- * [EARS: TONE-002] 12-tone chromatic scale from C4 (261.63 Hz) to B4 (493.88 Hz)
- *
- * @param semitone - Semitone index (0 = C4, 11 = B4)
- * @returns Frequency in Hz
+ * Validate octave is in valid range (2-6)
+ * [EARS: TONE-007]
  */
-function calculateFrequency(semitone: number): number {
-  // Equal temperament: f = f0 * 2^(n/12) where n is semitones from base
-  return C4_FREQUENCY * Math.pow(2, semitone / 12);
+function validateOctave(octave: number): void {
+  if (!Number.isInteger(octave) || octave < MIN_OCTAVE || octave > MAX_OCTAVE) {
+    throw new Error(`Octave must be between ${MIN_OCTAVE} and ${MAX_OCTAVE}`);
+  }
+}
+
+/**
+ * Validate reference pitch, temperament and key
+ * [EARS: TUNE-001, TUNE-002]
+ */
+function validateTuning(tuning: Tuning): void {
+  if (
+    !(tuning.referenceFrequency >= MIN_REFERENCE_FREQUENCY && tuning.referenceFrequency <= MAX_REFERENCE_FREQUENCY)
+  ) {
+    throw new Error(`Reference frequency must be between ${MIN_REFERENCE_FREQUENCY} and ${MAX_REFERENCE_FREQUENCY} Hz`);
+  }
+  if (!TEMPERAMENTS.includes(tuning.temperament)) {
+    throw new Error('Unknown temperament');
+  }
+  if (!Number.isInteger(tuning.key) || tuning.key < 0 || tuning.key > 11) {
+    throw new Error('Key must be between 0 and 11');
+  }
 }
 
 /**
- * Tone generator for 12-tone chromatic scale pitch reference
- * [EARS: TONE-001, TONE-002, TONE-003, TONE-004, TONE-005]
+ * Tone generator for chromatic scale pitch reference
+ * [EARS: TONE-001, TONE-002, TONE-003, TONE-004, TONE-005, TONE-007, TONE-008]
  */
 export class ToneGenerator {
   private oscillator: Oscillator;
   private playing: boolean = false;
   private currentNote: number | null = null;
+  private currentOctave: number | null = null;
+  private chordOscillators: Oscillator[] = [];
+  private chordPitches: Pitch[] = []; // Lowest first, matching chordOscillators
+  private tuning: Tuning = DEFAULT_TUNING;
 
   /**
    * Create a new ToneGenerator
@@ -44,7 +77,7 @@ export class ToneGenerator {
    */
   constructor() {
     this.oscillator = new Oscillator({
-      frequency: C4_FREQUENCY,
+      frequency: calculateFrequency(0, DEFAULT_OCTAVE),
       type: 'sine',
     }).toDestination();
   }
@@ -63,17 +96,59 @@ export class ToneGenerator {
     return this.currentNote;
   }
 
+  /**
+   * Get octave of the currently playing note
+   * [EARS: TONE-007]
+   */
+  getCurrentOctave(): number | null {
+    return this.currentOctave;
+  }
+
+  /**
+   * Get the reference pitch and temperament
+   * [EARS: TUNE-003]
+   */
+  getTuning(): Tuning {
+    return this.tuning;
+  }
+
+  /**
+   * Set the reference pitch and temperament
+   * [EARS: TUNE-003] A sounding tone or chord is retuned in place
+   *
+   * @param tuning - Reference pitch (415-466 Hz), temperament and key
+   * @throws Error if the tuning is out of range
+   */
+  setTuning(tuning: Tuning): void {
+    validateTuning(tuning);
+    this.tuning = tuning;
+
+    if (this.currentNote !== null && this.currentOctave !== null) {
+      this.oscillator.frequency.value = calculateFrequency(this.currentNote, this.currentOctave, tuning);
+    }
+    this.chordOscillators.forEach((oscillator, i) => {
+      const pitch = this.chordPitches[i];
+      if (pitch) {
+        oscillator.frequency.value = calculateFrequency(pitch.semitone, pitch.octave, tuning);
+      }
+    });
+  }
+
   /**
    * Get frequency for a semitone index
    * [EARS: TONE-002] 12-tone chromatic scale frequency calculation
+   * [EARS: TONE-007] In any octave from 2 to 6
+   * [EARS: TUNE-003] In the current tuning
    *
    * @param semitone - Semitone index (0-11, can be float but will be floored)
+   * @param octave - Octave (2-6, default 4)
    * @returns Frequency in Hz
    */
-  getFrequency(semitone: number): number {
+  getFrequency(semitone: number, octave: number = DEFAULT_OCTAVE): number {
     const semitoneInt = Math.floor(semitone);
     validateSemitone(semitoneInt);
-    return calculateFrequency(semitoneInt);
+    validateOctave(octave);
+    return calculateFrequency(semitoneInt, octave, this.tuning);
   }
 
   /**
@@ -89,33 +164,90 @@ export class ToneGenerator {
     return NOTE_LABELS[semitoneInt];
   }
 
+  /**
+   * Get note name with octave number for a semitone index
+   * [EARS: TONE-008] Note names in scientific pitch notation
+   *
+   * @param semitone - Semitone index (0-11)
+   * @param octave - Octave (2-6, default 4)
+   * @returns Note name (e.g., 'C4', 'F#2')
+   */
+  getNoteName(semitone: number, octave: number = DEFAULT_OCTAVE): string {
+    const semitoneInt = Math.floor(semitone);
+    validateSemitone(semitoneInt);
+    validateOctave(octave);
+    return formatPitch({ semitone: semitoneInt, octave });
+  }
+
   /**
    * Play tone at specified semitone
    * [EARS: TONE-004] Play tone on button press
    *
    * @param semitone - Semitone index (0-11)
+   * @param octave - Octave (2-6, default 4)
    */
-  play(semitone: number): void {
+  play(semitone: number, octave: number = DEFAULT_OCTAVE): void {
     const semitoneInt = Math.floor(semitone);
     validateSemitone(semitoneInt);
+    validateOctave(octave);
 
-    // Stop current tone if playing
-    if (this.playing) {
-      this.oscillator.stop();
-      this.playing = false;
-    }
+    // Stop current tone or chord if playing
+    this.stop();
 
     // Set frequency and start oscillator
-    const frequency = calculateFrequency(semitoneInt);
+    const frequency = calculateFrequency(semitoneInt, octave, this.tuning);
     this.oscillator.frequency.value = frequency;
     this.oscillator.start();
 
     this.playing = true;
     this.currentNote = semitoneInt;
+    this.currentOctave = octave;
+  }
+
+  /**
+   * Play a chord, arpeggiated from the lowest note up, then sustained until stopped
+   * [EARS: CHORD-002]
+   *
+   * @param pitches - Chord notes in any order
+   * @throws Error if there are no notes or a note is out of range
+   */
+  playChord(pitches: Pitch[]): void {
+    if (pitches.length === 0) {
+      throw new Error('Chord has no notes');
+    }
+    pitches.forEach(({ semitone, octave }) => {
+      validateSemitone(semitone);
+      validateOctave(octave);
+    });
+
+    this.stop();
+
+    // Sort by pitch rather than frequency so retuning never reorders the voices
+    this.chordPitches = [...pitches].sort((a, b) => a.octave * 12 + a.semitone - (b.octave * 12 + b.semitone));
+
+    this.chordOscillators = this.chordPitches.map(({ semitone, octave }, i) => {
+      const oscillator = new Oscillator({
+        frequency: calculateFrequency(semitone, octave, this.tuning),
+        type: 'sine',
+        volume: CHORD_VOICE_VOLUME,
+      }).toDestination();
+      oscillator.start(`+${i * ARPEGGIO_STEP}`);
+      return oscillator;
+    });
+
+    this.playing = true;
   }
 
   /**
-   * Stop currently playing tone
+   * Check if a chord (rather than a single tone) is playing
+   * [EARS: CHORD-002]
+   */
+  isPlayingChord(): boolean {
+    return this.chordOscillators.length > 0;
+  }
+
+  /**
+   * Stop currently playing tone or chord
    * [EARS: TONE-005] Stop tone on release or second click
    */
   stop(): void {
@@ -123,9 +255,21 @@ export class ToneGenerator {
       return;
     }
 
+    if (this.chordOscillators.length > 0) {
+      this.chordOscillators.forEach((oscillator) => {
+        oscillator.stop();
+        oscillator.dispose();
+      });
+      this.chordOscillators = [];
+      this.chordPitches = [];
+      this.playing = false;
+      return;
+    }
+
     this.oscillator.stop();
     this.playing = false;
     this.currentNote = null;
+    this.currentOctave = null;
   }
 
   /**
@@ -0,0 +1,138 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { TrackAligner, findAlignment } from './trackAligner';
+import { Exporter } from './exporter';
+
+const SAMPLE_RATE = 8000;
+const NOTE_LENGTH = 0.15; // Seconds
+const RHYTHM = [0.3, 0.8, 1.1, 1.9, 2.2, 3.0, 3.4]; // Uneven, so only one lag lines up
+
+/**
+ * Build a recording with a note at each time
+ */
+function buildNotes(starts: number[], duration: number, frequency: number): Float32Array {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  for (const time of starts) {
+    const start = Math.round(time * SAMPLE_RATE);
+    for (let i = 0; i < NOTE_LENGTH * SAMPLE_RATE && start + i < samples.length; i++) {
+      samples[start + i] = 0.5 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * Math.exp(-i / 400);
+    }
+  }
+  return samples;
+}
+
+function asBuffer(...channels: Float32Array[]): AudioBuffer {
+  return {
+    sampleRate: SAMPLE_RATE,
+    numberOfChannels: channels.length,
+    length: channels[0]!.length,
+    getChannelData: (channel: number) => channels[channel]!,
+  } as unknown as AudioBuffer;
+}
+
+describe('ALIGN-001: Cross-correlation alignment', () => {
+  // ✅ Happy path
+  test('finds how far a part sung on other notes is shifted', () => {
+    const reference = buildNotes(RHYTHM, 4, 330);
+    const target = buildNotes(RHYTHM.map((time) => time + 0.2), 4, 220);
+
+    const match = findAlignment(reference, target, SAMPLE_RATE);
+
+    expect(match?.lag).toBeCloseTo(-0.2, 1);
+    expect(match?.confidence).toBeGreaterThan(0.5);
+  });
+
+  test('searches around the expected position', () => {
+    const reference = buildNotes(RHYTHM, 4, 330);
+    const target = buildNotes(RHYTHM, 4, 220);
+
+    expect(findAlignment(reference, target, SAMPLE_RATE, 0.3)?.lag).toBeCloseTo(0, 1);
+  });
+
+  // ⚠️ Negative cases
+  test('finds no match against silence', () => {
+    expect(findAlignment(new Float32Array(SAMPLE_RATE), buildNotes(RHYTHM, 4, 220), SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('ALIGN-001, ALIGN-002: Track aligner', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // ✅ Happy path
+  test('proposes a start offset that lines the track up with a reference track', async () => {
+    const audioContext = new AudioContext();
+    vi.spyOn(audioContext, 'decodeAudioData')
+      .mockResolvedValueOnce(asBuffer(buildNotes(RHYTHM, 4, 330)))
+      .mockResolvedValueOnce(asBuffer(buildNotes(RHYTHM.map((time) => time + 0.25), 4, 220)));
+
+    const alignment = await new TrackAligner(audioContext).alignToTrack(
+      { audioBlob: new Blob(['target']), startOffset: 1 },
+      { audioBlob: new Blob(['reference']), startOffset: 1 }
+    );
+
+    expect(alignment.startOffset).toBeCloseTo(0.75, 1);
+    expect(alignment.shift).toBeCloseTo(-0.25, 1);
+  });
+
+  test('lines the track up with the mix of the other tracks', async () => {
+    const audioContext = new AudioContext();
+    const mixTracks = vi
+      .spyOn(Exporter.prototype, 'mixTracks')
+      .mockResolvedValueOnce(asBuffer(buildNotes(RHYTHM.map((time) => time + 2), 6, 330)));
+    vi.spyOn(audioContext, 'decodeAudioData').mockResolvedValueOnce(asBuffer(buildNotes(RHYTHM, 4, 220)));
+    const others = [{ id: 'a', audioBlob: new Blob(['a']), volume: 100, muted: false, soloed: false, startOffset: 2 }];
+
+    const alignment = await new TrackAligner(audioContext).alignToMix({ audioBlob: new Blob(['target']) }, others);
+
+    expect(mixTracks).toHaveBeenCalledWith(others);
+    expect(alignment.startOffset).toBeCloseTo(2, 1);
+  });
+
+  test('hears parts panned to either side of the mix', async () => {
+    // Mix with the part panned hard right: nothing in the left channel
+    const audioContext = new AudioContext();
+    const right = buildNotes(RHYTHM.map((time) => time + 2), 6, 330);
+    vi.spyOn(Exporter.prototype, 'mixTracks').mockResolvedValueOnce(asBuffer(new Float32Array(right.length), right));
+    vi.spyOn(audioContext, 'decodeAudioData').mockResolvedValueOnce(asBuffer(buildNotes(RHYTHM, 4, 220)));
+    const others = [{ id: 'b', audioBlob: new Blob(['b']), volume: 100, muted: false, soloed: false, startOffset: 2, pan: 1 }];
+
+    const alignment = await new TrackAligner(audioContext).alignToMix({ audioBlob: new Blob(['target']) }, others);
+
+    expect(alignment.startOffset).toBeCloseTo(2, 1);
+  });
+
+  // ⚠️ Negative cases
+  test('throws when the tracks do not match', async () => {
+    const audioContext = new AudioContext();
+    vi.spyOn(audioContext, 'decodeAudioData')
+      .mockResolvedValueOnce(asBuffer(new Float32Array(SAMPLE_RATE)))
+      .mockResolvedValueOnce(asBuffer(buildNotes(RHYTHM, 4, 220)));
+
+    await expect(
+      new TrackAligner(audioContext).alignToTrack({ audioBlob: new Blob(['t']) }, { audioBlob: new Blob(['r']) })
+    ).rejects.toThrow('No match found with the reference');
+  });
+
+  test('throws for an empty blob', async () => {
+    await expect(
+      new TrackAligner(new AudioContext()).alignToTrack({ audioBlob: new Blob(['t']) }, { audioBlob: new Blob([]) })
+    ).rejects.toThrow('Empty audio blob');
+  });
+
+  // 🔥 Edge cases
+  test('never proposes a start before the timeline start', async () => {
+    const audioContext = new AudioContext();
+    vi.spyOn(audioContext, 'decodeAudioData')
+      .mockResolvedValueOnce(asBuffer(buildNotes(RHYTHM, 4, 330)))
+      .mockResolvedValueOnce(asBuffer(buildNotes(RHYTHM.map((time) => time + 0.5), 4, 220)));
+
+    const alignment = await new TrackAligner(audioContext).alignToTrack(
+      { audioBlob: new Blob(['target']), startOffset: 0.2 },
+      { audioBlob: new Blob(['reference']) }
+    );
+
+    expect(alignment.startOffset).toBe(0);
+    expect(alignment.shift).toBeCloseTo(-0.2, 5);
+  });
+});
@@ -0,0 +1,178 @@
+// [EARS: ALIGN-001, ALIGN-002] Align a track to a reference by cross-correlating their onset envelopes
+
+import { computeOnsetEnvelope } from './tempoDetector';
+import { Exporter, type ExportTrack } from './exporter';
+
+const MAX_ALIGN_SHIFT = 5; // Seconds searched either side of the current position
+const MIN_MATCH = 0.1; // Correlation below this is not a usable match
+
+export interface TrackAlignment {
+  startOffset: number; // Proposed start offset, seconds from timeline start (never before 0)
+  shift: number; // Seconds from the current start offset (negative = earlier)
+  confidence: number; // 0-1 normalized correlation at the best match
+}
+
+/**
+ * Normalized cross-correlation of two envelopes with the second shifted by a lag
+ */
+function correlate(reference: Float32Array, target: Float32Array, lag: number): number {
+  let sum = 0;
+  const start = Math.max(0, -lag);
+  const end = Math.min(target.length, reference.length - lag);
+  for (let i = start; i < end; i++) {
+    sum += (target[i] ?? 0) * (reference[i + lag] ?? 0);
+  }
+  return sum;
+}
+
+/**
+ * Average of all channels, so parts panned to either side count alike
+ */
+function toMono(buffer: AudioBuffer): Float32Array {
+  if (buffer.numberOfChannels === 1) {
+    return buffer.getChannelData(0);
+  }
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] = (mono[i] ?? 0) + (data[i] ?? 0) / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Find where a target recording best lines up with a reference
+ * [EARS: ALIGN-001] Onset envelopes line up voices singing different notes in the same rhythm
+ *
+ * @param reference - Mono reference samples
+ * @param target - Mono target samples
+ * @param sampleRate - Sample rate of both in Hz
+ * @param expectedLag - Current position of the target relative to the reference in seconds
+ * @returns Seconds from the reference start to the target start, and the match strength; null without a match
+ */
+export function findAlignment(
+  reference: Float32Array,
+  target: Float32Array,
+  sampleRate: number,
+  expectedLag: number = 0
+): { lag: number; confidence: number } | null {
+  const { envelope: referenceEnvelope, frameRate } = computeOnsetEnvelope(reference, sampleRate);
+  const { envelope: targetEnvelope } = computeOnsetEnvelope(target, sampleRate);
+
+  const energy = Math.sqrt(correlate(referenceEnvelope, referenceEnvelope, 0) * correlate(targetEnvelope, targetEnvelope, 0));
+  if (energy === 0) {
+    return null;
+  }
+
+  const centre = Math.round(expectedLag * frameRate);
+  const range = Math.round(MAX_ALIGN_SHIFT * frameRate);
+
+  let bestLag = centre;
+  let bestScore = -Infinity;
+  for (let lag = centre - range; lag <= centre + range; lag++) {
+    const score = correlate(referenceEnvelope, targetEnvelope, lag);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  const confidence = bestScore / energy;
+  if (confidence < MIN_MATCH) {
+    return null;
+  }
+
+  // Refine between frames with a parabola through the neighbouring lags
+  const before = correlate(referenceEnvelope, targetEnvelope, bestLag - 1);
+  const after = correlate(referenceEnvelope, targetEnvelope, bestLag + 1);
+  const curvature = before - 2 * bestScore + after;
+  const lag = curvature < 0 ? bestLag + (0.5 * (before - after)) / curvature : bestLag;
+
+  return { lag: lag / frameRate, confidence };
+}
+
+/**
+ * Aligns recorded tracks to a reference track or the mix
+ * [EARS: ALIGN-001, ALIGN-002]
+ */
+export class TrackAligner {
+  private audioContext: AudioContext;
+
+  /**
+   * Create a new TrackAligner
+   *
+   * @param audioContext - AudioContext used to decode and mix track audio
+   */
+  constructor(audioContext: AudioContext) {
+    this.audioContext = audioContext;
+  }
+
+  /**
+   * Propose a start offset that lines a track up with another track
+   * [EARS: ALIGN-001]
+   *
+   * @param target - Track to move
+   * @param reference - Track to line up with
+   * @returns Proposed start offset
+   * @throws Error if either track is empty or they do not match
+   */
+  async alignToTrack(
+    target: { audioBlob: Blob; startOffset?: number },
+    reference: { audioBlob: Blob; startOffset?: number }
+  ): Promise<TrackAlignment> {
+    const referenceBuffer = await this.decode(reference.audioBlob);
+    return this.align(target, referenceBuffer, reference.startOffset ?? 0);
+  }
+
+  /**
+   * Propose a start offset that lines a track up with a mix of other tracks
+   * [EARS: ALIGN-001] The mix starts at the timeline start
+   *
+   * @param target - Track to move
+   * @param tracks - Tracks to mix as the reference (without the target)
+   * @returns Proposed start offset
+   * @throws Error if there is nothing audible to mix, the track is empty or they do not match
+   */
+  async alignToMix(target: { audioBlob: Blob; startOffset?: number }, tracks: ExportTrack[]): Promise<TrackAlignment> {
+    const mix = await new Exporter(this.audioContext).mixTracks(tracks);
+    return this.align(target, mix, 0);
+  }
+
+  /**
+   * Cross-correlate a target with a decoded reference
+   */
+  private async align(
+    target: { audioBlob: Blob; startOffset?: number },
+    reference: AudioBuffer,
+    referenceStart: number
+  ): Promise<TrackAlignment> {
+    const targetBuffer = await this.decode(target.audioBlob);
+    const currentOffset = target.startOffset ?? 0;
+
+    const match = findAlignment(
+      toMono(reference),
+      toMono(targetBuffer),
+      reference.sampleRate,
+      currentOffset - referenceStart
+    );
+    if (!match) {
+      throw new Error('No match found with the reference');
+    }
+
+    const startOffset = Math.max(0, referenceStart + match.lag);
+    return { startOffset, shift: startOffset - currentOffset, confidence: match.confidence };
+  }
+
+  /**
+   * Decode track audio
+   */
+  private async decode(audioBlob: Blob): Promise<AudioBuffer> {
+    const arrayBuffer = await audioBlob.arrayBuffer();
+    if (arrayBuffer.byteLength === 0) {
+      throw new Error('Empty audio blob');
+    }
+    return this.audioContext.decodeAudioData(arrayBuffer);
+  }
+}
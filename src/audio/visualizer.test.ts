@@ -172,6 +172,45 @@ describe('VIS-001: Configurable sample count', () => {
   });
 });
 
+describe('CONTOUR-001: Pitch contour generation', () => {
+  let visualizer: Visualizer;
+  let audioContext: AudioContext;
+
+  beforeEach(() => {
+    audioContext = new AudioContext();
+    visualizer = new Visualizer(audioContext);
+  });
+
+  afterEach(() => {
+    visualizer.dispose();
+    audioContext.close();
+  });
+
+  // ✅ Happy path
+  test('generates a pitch contour from audio blob', async () => {
+    const mockBlob = new Blob(['mock audio data'], { type: 'audio/wav' });
+
+    const contour = await visualizer.generatePitchContour(mockBlob);
+
+    // Mock audio is one second of a sine with a 200π-sample period (~70 Hz)
+    expect(contour.frameDuration).toBe(0.02);
+    expect(contour.frequencies).toHaveLength(50);
+    expect(contour.frequencies[25]).toBeCloseTo(44100 / (200 * Math.PI), 0);
+  });
+
+  // ⚠️ Negative cases
+  test('throws error for empty or undecodable audio', async () => {
+    await expect(visualizer.generatePitchContour(new Blob([], { type: 'audio/wav' }))).rejects.toThrow(
+      'Failed to generate pitch contour'
+    );
+
+    vi.spyOn(audioContext, 'decodeAudioData').mockRejectedValueOnce(new Error('Failed to decode audio'));
+    await expect(
+      visualizer.generatePitchContour(new Blob(['not valid audio'], { type: 'audio/wav' }))
+    ).rejects.toThrow('Failed to generate pitch contour');
+  });
+});
+
 describe('Visualizer cleanup', () => {
   let audioContext: AudioContext;
 
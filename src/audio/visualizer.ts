@@ -1,4 +1,7 @@
-// [EARS: VIS-001, REC-008] Waveform visualization for sparklines
+// [EARS: VIS-001, REC-008, CONTOUR-001] Waveform visualization for sparklines and pitch contours
+
+import type { PitchContour } from '@/store/types';
+import { trackPitch } from './pitchDetector';
 
 const MIN_SAMPLES = 100;
 const MAX_SAMPLES = 200;
@@ -63,6 +66,30 @@ export class Visualizer {
     }
   }
 
+  /**
+   * Generate a pitch contour from audio blob
+   * [EARS: CONTOUR-001] Sung pitch every 20ms, for the overlay on the waveform
+   *
+   * @param audioBlob - Audio blob to analyze
+   * @returns Pitch contour of the first channel
+   * @throws Error if audio decoding fails
+   */
+  async generatePitchContour(audioBlob: Blob): Promise<PitchContour> {
+    try {
+      const arrayBuffer = await audioBlob.arrayBuffer();
+
+      if (arrayBuffer.byteLength === 0) {
+        throw new Error('Empty audio blob');
+      }
+
+      const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
+      return trackPitch(audioBuffer.getChannelData(0), audioBuffer.sampleRate);
+    } catch (error) {
+      console.error('Pitch contour generation error details:', error);
+      throw new Error(`Failed to generate pitch contour: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Extract and downsample waveform from AudioBuffer
    * [EARS: VIS-001] Downsample to 100-200 data points
@@ -0,0 +1,79 @@
+import { describe, test, expect } from 'vitest';
+import { createZip, crc32 } from './zip';
+
+// Text as a byte blob (the test Blob only keeps binary parts)
+function textBlob(text: string): Blob {
+  return new Blob([new Uint8Array(new TextEncoder().encode(text))]);
+}
+
+async function readBytes(blob: Blob): Promise<DataView> {
+  return new DataView(await blob.arrayBuffer());
+}
+
+describe('LEARN-003: ZIP archive', () => {
+  const modified = new Date(2024, 4, 17, 13, 45, 30);
+
+  // ✅ Happy path
+  test('stores each file behind a local header', async () => {
+    const view = await readBytes(await createZip([{ name: 'a.txt', data: textBlob('hello') }], modified));
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0); // Stored
+    expect(view.getUint32(14, true)).toBe(0x3610a686); // CRC-32 of "hello"
+    expect(view.getUint32(18, true)).toBe(5);
+    expect(new TextDecoder().decode(new Uint8Array(view.buffer, 30, 5))).toBe('a.txt');
+    expect(new TextDecoder().decode(new Uint8Array(view.buffer, 35, 5))).toBe('hello');
+  });
+
+  test('lists every file in the central directory', async () => {
+    const blob = await createZip(
+      [
+        { name: 'a.txt', data: textBlob('hello') },
+        { name: 'b.txt', data: textBlob('world!') },
+      ],
+      modified
+    );
+    const view = await readBytes(blob);
+    const end = view.byteLength - 22;
+
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    const centralStart = view.getUint32(end + 16, true);
+    expect(centralStart).toBe(30 + 5 + 5 + 30 + 5 + 6);
+    expect(view.getUint32(centralStart, true)).toBe(0x02014b50);
+
+    // The second record points at the second local header
+    const second = centralStart + 46 + 5;
+    expect(view.getUint32(second, true)).toBe(0x02014b50);
+    expect(view.getUint32(second + 42, true)).toBe(40);
+    expect(view.getUint32(40, true)).toBe(0x04034b50);
+  });
+
+  test('records the modification time', async () => {
+    const view = await readBytes(await createZip([{ name: 'a.txt', data: textBlob('x') }], modified));
+
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe((44 << 9) | (5 << 5) | 17);
+  });
+
+  // 🔥 Edge cases
+  test('writes an empty archive', async () => {
+    const view = await readBytes(await createZip([], modified));
+
+    expect(view.byteLength).toBe(22);
+    expect(view.getUint16(10, true)).toBe(0);
+  });
+
+  test('encodes names as UTF-8', async () => {
+    const view = await readBytes(await createZip([{ name: 'Ständchen.mp3', data: textBlob('x') }], modified));
+
+    expect(view.getUint16(6, true) & 0x0800).toBe(0x0800);
+    expect(view.getUint16(26, true)).toBe(14);
+  });
+
+  test('checksums match the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
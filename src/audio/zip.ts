@@ -0,0 +1,121 @@
+// [EARS: LEARN-003] ZIP archive of exported files
+
+export interface ZipEntry {
+  name: string; // Path inside the archive
+  data: Blob;
+}
+
+// Audio files barely compress, so entries are stored as-is
+const METHOD_STORE = 0;
+const VERSION = 20; // 2.0: the minimum any unzip tool supports
+const FLAG_UTF8_NAMES = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE 802.3) of the given bytes, as used by ZIP
+ *
+ * @param bytes - Data to checksum
+ * @returns Unsigned 32-bit checksum
+ */
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = (crcTable[(crc ^ (bytes[i] ?? 0)) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS time and date fields of a local time
+ *
+ * @param date - Modification time
+ * @returns DOS time and date
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Bundle files into one uncompressed ZIP archive
+ * [EARS: LEARN-003] Several exported files become a single download
+ *
+ * @param entries - Files to include, in order
+ * @param modified - Modification time recorded for every file (default now)
+ * @returns ZIP archive blob
+ */
+export async function createZip(entries: ZipEntry[], modified: Date = new Date()): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const centralDirectory: ArrayBuffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = new Uint8Array(await entry.data.arrayBuffer());
+    const crc = crc32(data);
+
+    // Local file header, followed by the name
+    const local = new DataView(new ArrayBuffer(30 + name.length));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, VERSION, true);
+    local.setUint16(6, FLAG_UTF8_NAMES, true);
+    local.setUint16(8, METHOD_STORE, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true); // Compressed size
+    local.setUint32(22, data.length, true); // Uncompressed size
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true); // Extra field length
+    new Uint8Array(local.buffer).set(name, 30);
+    parts.push(local.buffer, data.buffer);
+
+    // Central directory record pointing back at the local header
+    const central = new DataView(new ArrayBuffer(46 + name.length));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, VERSION, true); // Version made by
+    central.setUint16(6, VERSION, true); // Version needed to extract
+    central.setUint16(8, FLAG_UTF8_NAMES, true);
+    central.setUint16(10, METHOD_STORE, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    // Extra field, comment, disk number and attributes stay 0
+    central.setUint32(42, offset, true);
+    new Uint8Array(central.buffer).set(name, 46);
+    centralDirectory.push(central.buffer);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralDirectory.reduce((size, record) => size + record.byteLength, 0);
+
+  // End of central directory record
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true); // Entries on this disk
+  end.setUint16(10, entries.length, true); // Entries in total
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true); // Central directory starts after the last file
+
+  return new Blob([...parts, ...centralDirectory, end.buffer], { type: 'application/zip' });
+}
@@ -0,0 +1,121 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { AlignPanel } from './AlignPanel';
+import { useErrorStore } from '../store/useErrorStore';
+
+const references = [
+  { id: 't2', name: 'A1' },
+  { id: 't3', name: 'T1' },
+];
+const alignment = { startOffset: 1.25, shift: -0.31, confidence: 0.78 };
+
+describe('ALIGN-001, ALIGN-002, ALIGN-003, ALIGN-004: Align to reference', () => {
+  afterEach(() => {
+    useErrorStore.getState().clearError();
+  });
+
+  // ✅ Happy path
+  test('matches against the mix by default and previews the proposal', async () => {
+    const onFind = vi.fn().mockResolvedValue(alignment);
+    const onPreviewChange = vi.fn();
+    render(<AlignPanel references={references} onFind={onFind} onPreviewChange={onPreviewChange} onApply={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Find match' }));
+
+    expect(await screen.findByTestId('align-proposal')).toHaveTextContent(
+      'Move −0.31s to start at 1.25s (78% match)'
+    );
+    expect(onFind).toHaveBeenCalledWith(null);
+    expect(onPreviewChange).toHaveBeenLastCalledWith(alignment);
+  });
+
+  test('matches against a chosen track', async () => {
+    const onFind = vi.fn().mockResolvedValue(alignment);
+    render(<AlignPanel references={references} onFind={onFind} onPreviewChange={vi.fn()} onApply={vi.fn()} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Alignment reference' }), { target: { value: 't3' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Find match' }));
+
+    await screen.findByTestId('align-proposal');
+    expect(onFind).toHaveBeenCalledWith('t3');
+  });
+
+  test('applies the proposed start offset', async () => {
+    const onApply = vi.fn();
+    const onPreviewChange = vi.fn();
+    render(
+      <AlignPanel
+        references={references}
+        onFind={vi.fn().mockResolvedValue(alignment)}
+        onPreviewChange={onPreviewChange}
+        onApply={onApply}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Find match' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Apply alignment' }));
+
+    expect(onApply).toHaveBeenCalledWith(1.25);
+    expect(onPreviewChange).toHaveBeenLastCalledWith(null);
+    expect(screen.queryByTestId('align-proposal')).not.toBeInTheDocument();
+  });
+
+  // ⚠️ Negative cases
+  test('dismisses the proposal without applying it', async () => {
+    const onApply = vi.fn();
+    const onPreviewChange = vi.fn();
+    render(
+      <AlignPanel
+        references={references}
+        onFind={vi.fn().mockResolvedValue(alignment)}
+        onPreviewChange={onPreviewChange}
+        onApply={onApply}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Find match' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Dismiss alignment' }));
+
+    expect(onApply).not.toHaveBeenCalled();
+    expect(onPreviewChange).toHaveBeenLastCalledWith(null);
+  });
+
+  test('reports a failed match', async () => {
+    render(
+      <AlignPanel
+        references={references}
+        onFind={vi.fn().mockRejectedValue(new Error('No match found with the reference'))}
+        onPreviewChange={vi.fn()}
+        onApply={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Find match' }));
+
+    await waitFor(() => {
+      expect(useErrorStore.getState().error).toBe('Could not line this track up with the reference.');
+    });
+    expect(screen.queryByTestId('align-proposal')).not.toBeInTheDocument();
+  });
+
+  // 🔥 Edge cases
+  test('drops the proposal when the reference changes', async () => {
+    const onPreviewChange = vi.fn();
+    render(
+      <AlignPanel
+        references={references}
+        onFind={vi.fn().mockResolvedValue(alignment)}
+        onPreviewChange={onPreviewChange}
+        onApply={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Find match' }));
+    await screen.findByTestId('align-proposal');
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Alignment reference' }), { target: { value: 't2' } });
+
+    expect(screen.queryByTestId('align-proposal')).not.toBeInTheDocument();
+    expect(onPreviewChange).toHaveBeenLastCalledWith(null);
+  });
+});
@@ -0,0 +1,145 @@
+// [EARS: ALIGN-001, ALIGN-002, ALIGN-003, ALIGN-004] Align a track to a reference track or the mix, with a preview before applying
+
+import { useState } from 'react';
+import type { TrackAlignment } from '../audio/trackAligner';
+import { useErrorStore } from '../store/useErrorStore';
+
+const MIX_REFERENCE = 'mix';
+
+export interface AlignPanelProps {
+  references: Array<{ id: string; name: string }>; // Other tracks to line up with
+  onFind: (referenceId: string | null) => Promise<TrackAlignment>; // null = the mix of the other tracks
+  onPreviewChange: (alignment: TrackAlignment | null) => void;
+  onApply: (startOffset: number) => void;
+}
+
+const controlStyle = {
+  padding: '0.25rem',
+  backgroundColor: '#444',
+  color: '#fff',
+  border: '1px solid #666',
+  borderRadius: '3px',
+  fontSize: '0.75rem',
+};
+
+/**
+ * Format a signed shift in seconds
+ */
+function formatShift(seconds: number): string {
+  return `${seconds >= 0 ? '+' : '−'}${Math.abs(seconds).toFixed(2)}s`;
+}
+
+/**
+ * AlignPanel finds the start offset that lines a track up with a reference
+ * [EARS: ALIGN-001] Reference is another track or the mix
+ * [EARS: ALIGN-002] The proposal is previewed on the waveform until applied or dismissed
+ */
+export function AlignPanel({ references, onFind, onPreviewChange, onApply }: AlignPanelProps) {
+  const setError = useErrorStore((state) => state.setError);
+  const [referenceId, setReferenceId] = useState(MIX_REFERENCE);
+  const [finding, setFinding] = useState(false);
+  const [proposal, setProposal] = useState<TrackAlignment | null>(null);
+
+  /**
+   * Show or clear the proposal
+   * [EARS: ALIGN-002]
+   */
+  const propose = (alignment: TrackAlignment | null) => {
+    setProposal(alignment);
+    onPreviewChange(alignment);
+  };
+
+  /**
+   * Cross-correlate with the chosen reference
+   * [EARS: ALIGN-001]
+   * [EARS: ALIGN-004] A failed match leaves the start offset alone
+   */
+  const handleFind = async () => {
+    propose(null);
+    setFinding(true);
+    try {
+      propose(await onFind(referenceId === MIX_REFERENCE ? null : referenceId));
+    } catch (error) {
+      console.error('Alignment failed:', error);
+      setError('Could not line this track up with the reference.');
+    } finally {
+      setFinding(false);
+    }
+  };
+
+  /**
+   * Commit the proposed start offset
+   * [EARS: ALIGN-003]
+   */
+  const handleApply = () => {
+    if (!proposal) return;
+    onApply(proposal.startOffset);
+    propose(null);
+  };
+
+  return (
+    <div
+      className="align-panel"
+      data-testid="align-panel"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.4rem',
+        padding: '0.3rem 0.4rem 0.3rem 2rem',
+        marginBottom: '0.3rem',
+        fontSize: '0.75rem',
+        color: '#ccc',
+      }}
+    >
+      <select
+        value={referenceId}
+        onChange={(e) => {
+          setReferenceId(e.target.value);
+          propose(null);
+        }}
+        disabled={finding}
+        aria-label="Alignment reference"
+        style={controlStyle}
+      >
+        <option value={MIX_REFERENCE}>Current mix</option>
+        {references.map((reference) => (
+          <option key={reference.id} value={reference.id}>
+            {reference.name}
+          </option>
+        ))}
+      </select>
+
+      <button
+        onClick={handleFind}
+        disabled={finding}
+        style={{ ...controlStyle, cursor: 'pointer', backgroundColor: '#555', border: 'none' }}
+      >
+        {finding ? 'Matching…' : 'Find match'}
+      </button>
+
+      {/* [EARS: ALIGN-002] Proposed move, previewed on the waveform */}
+      {proposal && (
+        <>
+          <span data-testid="align-proposal" style={{ color: '#fff' }}>
+            Move {formatShift(proposal.shift)} to start at {proposal.startOffset.toFixed(2)}s (
+            {Math.round(proposal.confidence * 100)}% match)
+          </span>
+          <button
+            onClick={handleApply}
+            aria-label="Apply alignment"
+            style={{ ...controlStyle, cursor: 'pointer', backgroundColor: '#1976d2', border: 'none' }}
+          >
+            Apply
+          </button>
+          <button
+            onClick={() => propose(null)}
+            aria-label="Dismiss alignment"
+            style={{ ...controlStyle, cursor: 'pointer', backgroundColor: '#555', border: 'none' }}
+          >
+            ×
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
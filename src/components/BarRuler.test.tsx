@@ -0,0 +1,124 @@
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { BarRuler } from './BarRuler';
+import { TempoMap } from '@/audio/tempoMap';
+
+// 120 BPM in 4/4: 2s per bar, so 20s = 10 bars = 25px per bar on a 250px ruler
+const defaultProps = { duration: 20, tempoMap: new TempoMap(120), width: 250 };
+
+describe('BAR-002, TEMPO-005: Bar/beat ruler', () => {
+  // ✅ Happy path
+  test('draws one marker per bar on the waveform scale', () => {
+    render(<BarRuler {...defaultProps} />);
+
+    const markers = screen.getAllByTestId('bar-marker');
+    expect(markers).toHaveLength(10);
+    expect(markers[2]).toHaveStyle({ left: '50px' });
+  });
+
+  test('numbers the bars', () => {
+    render(<BarRuler {...defaultProps} />);
+
+    expect(screen.getByText('1')).toBeInTheDocument();
+    expect(screen.getByText('10')).toBeInTheDocument();
+  });
+
+  test('draws beat ticks between bars', () => {
+    render(<BarRuler {...defaultProps} tempoMap={new TempoMap(120, { beatsPerBar: 3, beatUnit: 4 })} />);
+
+    // 1.5s per bar = 14 bars, 2 ticks between each downbeat
+    expect(screen.getAllByTestId('beat-marker')).toHaveLength(14 * 2);
+  });
+
+  test('spaces bars by the tempo map', () => {
+    // Bars 1-2 at 120 BPM (2s each), then 60 BPM (4s each)
+    const tempoMap = new TempoMap(120, { beatsPerBar: 4, beatUnit: 4 }, [{ bar: 3, bpm: 60 }]);
+    render(<BarRuler {...defaultProps} tempoMap={tempoMap} />);
+
+    const markers = screen.getAllByTestId('bar-marker');
+    expect(markers).toHaveLength(6);
+    expect(markers[3]).toHaveStyle({ left: '100px' });
+  });
+
+  // 🔥 Edge cases
+  test('thins out bar numbers when bars are narrow', () => {
+    render(<BarRuler {...defaultProps} duration={200} />);
+
+    // 2.5px per bar: only every 16th bar is numbered
+    expect(screen.getByText('17')).toBeInTheDocument();
+    expect(screen.queryByText('2')).not.toBeInTheDocument();
+    expect(screen.queryAllByTestId('beat-marker')).toHaveLength(0);
+  });
+
+  test('draws no bars for an empty timeline', () => {
+    render(<BarRuler {...defaultProps} duration={0} />);
+
+    expect(screen.queryAllByTestId('bar-marker')).toHaveLength(0);
+    expect(screen.queryByTestId('ruler-playhead')).not.toBeInTheDocument();
+  });
+});
+
+describe('BAR-003: Click a bar to seek', () => {
+  // ✅ Happy path
+  test('seeks to the downbeat of the clicked bar', () => {
+    const onSeek = vi.fn();
+    render(<BarRuler {...defaultProps} onSeek={onSeek} />);
+
+    // 60px is inside bar 3 (50-75px)
+    fireEvent.click(screen.getByTestId('bar-ruler'), { clientX: 60 });
+
+    expect(onSeek).toHaveBeenCalledWith(4);
+  });
+
+  test('moves the playhead with the current time', () => {
+    render(<BarRuler {...defaultProps} currentTime={5} />);
+
+    expect(screen.getByTestId('ruler-playhead')).toHaveStyle({ left: '62.5px' });
+  });
+
+  // ⚠️ Negative cases
+  test('does nothing without a seek handler', () => {
+    render(<BarRuler {...defaultProps} />);
+
+    expect(() => fireEvent.click(screen.getByTestId('bar-ruler'), { clientX: 60 })).not.toThrow();
+  });
+});
+
+describe('BAR-004: Go to bar', () => {
+  // ✅ Happy path
+  test('seeks to the typed bar on Enter', () => {
+    const onSeek = vi.fn();
+    render(<BarRuler {...defaultProps} onSeek={onSeek} />);
+
+    const input = screen.getByRole('spinbutton', { name: 'Go to bar' });
+    fireEvent.change(input, { target: { value: '17' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onSeek).toHaveBeenCalledWith(32);
+    expect(input).toHaveValue(null);
+  });
+
+  // ⚠️ Negative cases
+  test('ignores bars before bar 1', () => {
+    const onSeek = vi.fn();
+    render(<BarRuler {...defaultProps} onSeek={onSeek} />);
+
+    const input = screen.getByRole('spinbutton', { name: 'Go to bar' });
+    fireEvent.change(input, { target: { value: '0' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onSeek).not.toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('can go to a bar past the end of the recorded tracks', () => {
+    const onSeek = vi.fn();
+    render(<BarRuler {...defaultProps} onSeek={onSeek} />);
+
+    const input = screen.getByRole('spinbutton', { name: 'Go to bar' });
+    fireEvent.change(input, { target: { value: '12' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onSeek).toHaveBeenCalledWith(22);
+  });
+});
@@ -0,0 +1,191 @@
+// [EARS: BAR-002, BAR-003, BAR-004, TEMPO-005] Bar/beat ruler over the track timeline with seek-to-bar
+
+import React, { useMemo, useState } from 'react';
+import type { TempoMap } from '@/audio/tempoMap';
+
+export interface BarRulerProps {
+  duration: number; // Timeline length in seconds (same scale as the waveforms)
+  tempoMap: TempoMap; // [EARS: TEMPO-005] Bars follow tempo and meter changes
+  currentTime?: number;
+  onSeek?: (time: number) => void;
+  width?: number;
+}
+
+const DEFAULT_WIDTH = 250;
+const RULER_HEIGHT = 18;
+const MIN_LABEL_SPACING = 24; // Pixels between bar numbers
+const MIN_BEAT_SPACING = 4; // Pixels between beat ticks
+const PLAYHEAD_COLOR = '#ff6b6b';
+
+/**
+ * BarRuler shows bar numbers and beat ticks on the timeline
+ * [EARS: BAR-003] Click a bar to seek to its downbeat
+ * [EARS: BAR-004] Type a bar number to seek straight to it
+ */
+export function BarRuler({
+  duration,
+  tempoMap,
+  currentTime = 0,
+  onSeek,
+  width = DEFAULT_WIDTH,
+}: BarRulerProps) {
+  const [barInput, setBarInput] = useState('');
+
+  const bars = useMemo(() => (duration > 0 ? tempoMap.barsUntil(duration) : []), [tempoMap, duration]);
+  const toPixels = (time: number) => (time / duration) * width;
+
+  // Label every bar when there is room, otherwise every 2nd, 4th, 8th...
+  // (spacing judged on the narrowest bar)
+  const narrowest = bars.reduce((min, line, i) => {
+    const end = bars[i + 1]?.time ?? tempoMap.barToSeconds(line.bar + 1);
+    return Math.min(min, toPixels(end - line.time));
+  }, Infinity);
+  let labelEvery = 1;
+  while (narrowest !== Infinity && narrowest > 0 && labelEvery * narrowest < MIN_LABEL_SPACING) {
+    labelEvery *= 2;
+  }
+
+  /**
+   * Seek to the downbeat of the bar under the pointer
+   * [EARS: BAR-003]
+   */
+  const handleRulerClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSeek || duration <= 0) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.max(0, Math.min(e.clientX - rect.left, width));
+    const { bar } = tempoMap.secondsToBarBeatTick((x / width) * duration);
+    onSeek(tempoMap.barToSeconds(bar));
+  };
+
+  /**
+   * Seek to the typed bar
+   * [EARS: BAR-004] Ignore entries that are not a bar number
+   */
+  const handleGoToBar = () => {
+    const value = parseInt(barInput, 10);
+    if (onSeek && !isNaN(value) && value >= 1) {
+      onSeek(tempoMap.barToSeconds(value));
+    }
+    setBarInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      handleGoToBar();
+    }
+  };
+
+  return (
+    <div
+      className="bar-ruler"
+      style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}
+    >
+      {/* [EARS: BAR-004] Go to bar */}
+      <input
+        type="number"
+        min="1"
+        value={barInput}
+        placeholder="Bar"
+        onChange={(e) => setBarInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setBarInput('')}
+        aria-label="Go to bar"
+        style={{
+          width: '50px',
+          padding: '0.2rem',
+          fontSize: '0.75rem',
+          backgroundColor: '#444',
+          color: '#fff',
+          border: '1px solid #666',
+          borderRadius: '3px',
+        }}
+      />
+
+      {/* [EARS: BAR-002] Ruler on the same scale as the waveforms */}
+      <div
+        data-testid="bar-ruler"
+        onClick={handleRulerClick}
+        style={{
+          position: 'relative',
+          width: `${width}px`,
+          height: `${RULER_HEIGHT}px`,
+          backgroundColor: '#1a1a1a',
+          borderBottom: '1px solid #555',
+          cursor: onSeek ? 'pointer' : 'default',
+          overflow: 'hidden',
+        }}
+      >
+        {bars.map((line, i) => {
+          const left = toPixels(line.time);
+          const beatLefts = line.beatTimes.map(toPixels);
+          const showBeats = beatLefts.every(
+            (beatLeft, beat) => beatLeft - (beatLefts[beat - 1] ?? left) >= MIN_BEAT_SPACING
+          );
+
+          return (
+            <React.Fragment key={line.bar}>
+              <div
+                data-testid="bar-marker"
+                style={{
+                  position: 'absolute',
+                  left: `${left}px`,
+                  bottom: 0,
+                  width: '1px',
+                  height: '100%',
+                  backgroundColor: '#888',
+                }}
+              />
+              {i % labelEvery === 0 && (
+                <span
+                  style={{
+                    position: 'absolute',
+                    left: `${left + 2}px`,
+                    top: 0,
+                    color: '#aaa',
+                    fontSize: '0.6rem',
+                    fontFamily: 'monospace',
+                    pointerEvents: 'none',
+                  }}
+                >
+                  {line.bar}
+                </span>
+              )}
+              {showBeats &&
+                beatLefts.map((beatLeft) => (
+                  <div
+                    key={beatLeft}
+                    data-testid="beat-marker"
+                    style={{
+                      position: 'absolute',
+                      left: `${beatLeft}px`,
+                      bottom: 0,
+                      width: '1px',
+                      height: '30%',
+                      backgroundColor: '#555',
+                    }}
+                  />
+                ))}
+            </React.Fragment>
+          );
+        })}
+
+        {/* Playhead */}
+        {duration > 0 && (
+          <div
+            data-testid="ruler-playhead"
+            style={{
+              position: 'absolute',
+              left: `${(Math.min(currentTime, duration) / duration) * width}px`,
+              top: 0,
+              width: '2px',
+              height: '100%',
+              backgroundColor: PLAYHEAD_COLOR,
+              pointerEvents: 'none',
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
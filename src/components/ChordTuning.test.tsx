@@ -0,0 +1,133 @@
+import { describe, test, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ChordTuning } from './ChordTuning';
+import type { Track } from '../store/types';
+
+function makeTrack(id: string, name: string, frequencies: Array<number | null>, overrides: Partial<Track> = {}): Track {
+  return {
+    id,
+    voicePartType: 'S',
+    name,
+    audioBlob: new Blob(),
+    duration: 1,
+    volume: 100,
+    muted: false,
+    soloed: false,
+    waveformData: [],
+    pitchContour: { frameDuration: 0.02, frequencies },
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+// A major chord on A3: pure fifth, equal-tempered third (14 cents wide)
+const tracks = [
+  makeTrack('b', 'B1', [220, 220]),
+  makeTrack('t', 'T1', [330, 330]),
+  makeTrack('s', 'S1', [220 * Math.pow(2, 16 / 12), null]),
+];
+
+describe('INTON-001, INTON-002, INTON-003: Chord tuning view', () => {
+  // ✅ Happy path
+  test('shows each voice at the playhead, highest first', () => {
+    render(<ChordTuning tracks={tracks} currentTime={0} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Chord tuning' }));
+
+    const voices = screen.getAllByTestId('chord-voice');
+    expect(voices.map((voice) => voice.textContent)).toEqual(['S1 C#5 0¢', 'T1 E4 +2¢', 'B1 A3 0¢']);
+  });
+
+  test('shows the intervals and flags those off pure', () => {
+    render(<ChordTuning tracks={tracks} currentTime={0} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Chord tuning' }));
+
+    const intervals = screen.getAllByTestId('chord-interval');
+    expect(intervals.map((interval) => interval.textContent)).toEqual([
+      'B1–T1 P5 702¢ (0¢ from pure)',
+      'B1–S1 M3 1600¢ (+14¢ from pure)',
+      'T1–S1 M6 898¢ (+14¢ from pure)',
+    ]);
+    expect(intervals.map((interval) => interval.getAttribute('data-flagged'))).toEqual(['false', 'true', 'true']);
+  });
+
+  test('flags against the chosen threshold', () => {
+    render(<ChordTuning tracks={tracks} currentTime={0} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Chord tuning' }));
+
+    fireEvent.change(screen.getByRole('spinbutton', { name: 'Intonation threshold' }), { target: { value: '20' } });
+
+    const intervals = screen.getAllByTestId('chord-interval');
+    expect(intervals.every((interval) => interval.getAttribute('data-flagged') === 'false')).toBe(true);
+  });
+
+  test('follows the playhead', () => {
+    render(<ChordTuning tracks={tracks} currentTime={0.02} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Chord tuning' }));
+
+    expect(screen.getAllByTestId('chord-voice')).toHaveLength(2);
+    expect(screen.getAllByTestId('chord-interval')).toHaveLength(1);
+  });
+
+  // ⚠️ Negative cases
+  test('is collapsed until opened', () => {
+    render(<ChordTuning tracks={tracks} currentTime={0} />);
+
+    expect(screen.getByRole('button', { name: 'Chord tuning' })).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByTestId('chord-voice')).not.toBeInTheDocument();
+  });
+
+  test('leaves out muted tracks', () => {
+    const withMute = [...tracks.slice(0, 2), { ...tracks[2]!, muted: true }];
+    render(<ChordTuning tracks={withMute} currentTime={0} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Chord tuning' }));
+
+    expect(screen.getAllByTestId('chord-voice')).toHaveLength(2);
+  });
+
+  test('leaves out tracks of muted voice parts', () => {
+    const bass = { ...tracks[0]!, voicePartType: 'B' as const };
+    const voiceParts = [
+      { type: 'S' as const, label: 'Soprano', expanded: true, tracks: [] },
+      { type: 'B' as const, label: 'Bass', expanded: true, tracks: [], muted: true },
+    ];
+    render(<ChordTuning tracks={[bass, ...tracks.slice(1)]} voiceParts={voiceParts} currentTime={0} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Chord tuning' }));
+
+    const voices = screen.getAllByTestId('chord-voice');
+    expect(voices.map((voice) => voice.textContent)).toEqual(['S1 C#5 0¢', 'T1 E4 +2¢']);
+  });
+
+  test('says so when no analyzed voice is singing', () => {
+    render(<ChordTuning tracks={tracks} currentTime={5} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Chord tuning' }));
+
+    expect(screen.getByText('No analyzed voices are singing at the playhead')).toBeInTheDocument();
+  });
+
+  // 🔥 Edge cases
+  test('clamps the threshold to 1-50 cents', () => {
+    render(<ChordTuning tracks={tracks} currentTime={0} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Chord tuning' }));
+    const input = screen.getByRole('spinbutton', { name: 'Intonation threshold' });
+
+    fireEvent.change(input, { target: { value: '90' } });
+    expect(input).toHaveValue(50);
+
+    fireEvent.change(input, { target: { value: '0' } });
+    expect(input).toHaveValue(1);
+  });
+
+  test('names notes in the project tuning', () => {
+    render(
+      <ChordTuning
+        tracks={[makeTrack('s', 'S1', [442])]}
+        currentTime={0}
+        tuning={{ referenceFrequency: 442, temperament: 'equal', key: 0 }}
+      />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Chord tuning' }));
+
+    expect(screen.getByTestId('chord-voice')).toHaveTextContent('S1 A4 0¢');
+    expect(screen.queryByTestId('chord-interval')).not.toBeInTheDocument();
+  });
+});
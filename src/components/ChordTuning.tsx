@@ -0,0 +1,131 @@
+// [EARS: INTON-001, INTON-002, INTON-003] Chord tuning view: each voice's pitch and the intervals between them at the playhead
+
+import { useMemo, useState } from 'react';
+import { nearestPitch, formatPitch, formatCents, DEFAULT_TUNING } from '../audio/pitch';
+import { getVoicePitches, compareIntervals, DEFAULT_INTONATION_THRESHOLD } from '../audio/intonation';
+import type { Track, Tuning, VoicePart } from '../store/types';
+
+const MIN_THRESHOLD = 1; // Cents
+const MAX_THRESHOLD = 50; // Cents
+
+export interface ChordTuningProps {
+  tracks: Track[]; // All project tracks
+  voiceParts?: VoicePart[]; // [EARS: BUS-005] Part mute and solo
+  currentTime: number; // Playhead position (seconds from timeline start)
+  tuning?: Tuning; // [EARS: TUNE-001, TUNE-002] Project reference pitch and temperament
+}
+
+const controlStyle = {
+  padding: '0.25rem',
+  backgroundColor: '#444',
+  color: '#fff',
+  border: '1px solid #666',
+  borderRadius: '3px',
+  fontSize: '0.75rem',
+};
+
+/**
+ * ChordTuning compares the tuning of the voices sounding at the playhead
+ * [EARS: INTON-001] Each audible track's sung pitch
+ * [EARS: INTON-002] Every interval between them in cents, flagged when off pure by more than the threshold
+ * [EARS: INTON-003] Collapsed until opened
+ */
+export function ChordTuning({ tracks, voiceParts, currentTime, tuning = DEFAULT_TUNING }: ChordTuningProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [threshold, setThreshold] = useState(DEFAULT_INTONATION_THRESHOLD);
+
+  const pitches = useMemo(() => getVoicePitches(tracks, currentTime, voiceParts), [tracks, currentTime, voiceParts]);
+  const intervals = useMemo(() => compareIntervals(pitches, threshold), [pitches, threshold]);
+
+  const trackName = (trackId: string) => tracks.find((t) => t.id === trackId)?.name ?? '?';
+
+  /**
+   * Handle threshold change
+   * [EARS: INTON-002] Clamped to 1-50 cents
+   */
+  const handleThresholdChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    if (isNaN(value)) return;
+    setThreshold(Math.max(MIN_THRESHOLD, Math.min(MAX_THRESHOLD, value)));
+  };
+
+  return (
+    <div
+      className="chord-tuning"
+      style={{
+        padding: '0.4rem',
+        backgroundColor: '#2c2c2c',
+        border: '1px solid #444',
+        borderRadius: '3px',
+        fontSize: '0.75rem',
+        color: '#ccc',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          aria-expanded={isOpen}
+          style={{ ...controlStyle, cursor: 'pointer', backgroundColor: isOpen ? '#2196f3' : '#555', border: 'none' }}
+        >
+          Chord tuning
+        </button>
+
+        {isOpen && (
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.3rem' }}>
+            Flag beyond
+            <input
+              type="number"
+              min={MIN_THRESHOLD}
+              max={MAX_THRESHOLD}
+              value={threshold}
+              onChange={handleThresholdChange}
+              aria-label="Intonation threshold"
+              style={{ ...controlStyle, width: '3.5em' }}
+            />
+            ¢ from pure
+          </label>
+        )}
+      </div>
+
+      {isOpen && (
+        <div style={{ display: 'flex', gap: '1.5rem', marginTop: '0.4rem' }}>
+          {pitches.length === 0 ? (
+            <span style={{ color: '#888' }}>No analyzed voices are singing at the playhead</span>
+          ) : (
+            <>
+              {/* [EARS: INTON-001] Voices, highest first like a score */}
+              <ul aria-label="Voices" style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+                {[...pitches].reverse().map((voice) => {
+                  const reading = nearestPitch(voice.frequency, tuning);
+                  return (
+                    <li key={voice.trackId} data-testid="chord-voice">
+                      <strong style={{ color: '#fff' }}>{trackName(voice.trackId)}</strong>{' '}
+                      {formatPitch(reading.pitch)} {formatCents(reading.cents)}
+                    </li>
+                  );
+                })}
+              </ul>
+
+              {/* [EARS: INTON-002] Intervals, flagged in red when off pure */}
+              {intervals.length > 0 && (
+                <ul aria-label="Intervals" style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+                  {intervals.map((interval) => (
+                    <li
+                      key={`${interval.lowerTrackId}-${interval.upperTrackId}`}
+                      data-testid="chord-interval"
+                      data-flagged={interval.flagged}
+                      style={{ color: interval.flagged ? '#ff6b6b' : '#4caf50' }}
+                    >
+                      {trackName(interval.lowerTrackId)}–{trackName(interval.upperTrackId)} {interval.name}{' '}
+                      {Math.round(interval.cents)}¢ ({formatCents(interval.deviation)} from pure)
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
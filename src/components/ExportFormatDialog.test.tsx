@@ -0,0 +1,108 @@
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ExportFormatDialog } from './ExportFormatDialog';
+import { DEFAULT_EXPORT_FORMAT, type ExportFormat } from '../audio/exportFormat';
+
+describe('FMT-001, FMT-002, FMT-003, FMT-004, FMT-006, OPUS-001: Export format dialog', () => {
+  const renderDialog = (format: ExportFormat = DEFAULT_EXPORT_FORMAT, originalSampleRate: number | null = 44100) => {
+    const onChange = vi.fn();
+    const onClose = vi.fn();
+    render(
+      <ExportFormatDialog format={format} originalSampleRate={originalSampleRate} onChange={onChange} onClose={onClose} />
+    );
+    return { onChange, onClose };
+  };
+
+  // ✅ Happy path
+  test('shows the current format', () => {
+    renderDialog({ bitDepth: 24, sampleRate: 48000, mp3: { mode: 'vbr', quality: 4 }, opusBitrate: 128, mono: true });
+
+    expect(screen.getByLabelText('WAV bit depth')).toHaveValue('24');
+    expect(screen.getByLabelText('Sample rate')).toHaveValue('48000');
+    expect(screen.getByLabelText('MP3 encoding')).toHaveValue('vbr-4');
+    expect(screen.getByLabelText('Opus bitrate')).toHaveValue('128');
+    expect(screen.getByLabelText('Mono')).toBeChecked();
+  });
+
+  test('offers 16, 24 and 32-bit float WAV', () => {
+    renderDialog();
+
+    const options = Array.from((screen.getByLabelText('WAV bit depth') as HTMLSelectElement).options);
+    expect(options.map((option) => option.text)).toEqual(['16-bit', '24-bit', '32-bit float']);
+  });
+
+  test('changes the bit depth', () => {
+    const { onChange } = renderDialog();
+
+    fireEvent.change(screen.getByLabelText('WAV bit depth'), { target: { value: '32' } });
+
+    expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_EXPORT_FORMAT, bitDepth: 32 });
+  });
+
+  test('changes the sample rate and back to the original', () => {
+    const { onChange } = renderDialog({ ...DEFAULT_EXPORT_FORMAT, sampleRate: 44100 });
+
+    fireEvent.change(screen.getByLabelText('Sample rate'), { target: { value: '48000' } });
+    fireEvent.change(screen.getByLabelText('Sample rate'), { target: { value: 'original' } });
+
+    expect(onChange).toHaveBeenNthCalledWith(1, { ...DEFAULT_EXPORT_FORMAT, sampleRate: 48000 });
+    expect(onChange).toHaveBeenNthCalledWith(2, { ...DEFAULT_EXPORT_FORMAT, sampleRate: null });
+  });
+
+  test('picks a constant bitrate or a variable-bitrate quality', () => {
+    const { onChange } = renderDialog();
+
+    fireEvent.change(screen.getByLabelText('MP3 encoding'), { target: { value: 'cbr-320' } });
+    fireEvent.change(screen.getByLabelText('MP3 encoding'), { target: { value: 'vbr-0' } });
+
+    expect(onChange).toHaveBeenNthCalledWith(1, { ...DEFAULT_EXPORT_FORMAT, mp3: { mode: 'cbr', bitrate: 320 } });
+    expect(onChange).toHaveBeenNthCalledWith(2, { ...DEFAULT_EXPORT_FORMAT, mp3: { mode: 'vbr', quality: 0 } });
+  });
+
+  test('picks an Opus bitrate', () => {
+    const { onChange } = renderDialog();
+
+    fireEvent.change(screen.getByLabelText('Opus bitrate'), { target: { value: '160' } });
+
+    expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_EXPORT_FORMAT, opusBitrate: 160 });
+  });
+
+  test('switches to mono', () => {
+    const { onChange } = renderDialog();
+
+    fireEvent.click(screen.getByLabelText('Mono'));
+
+    expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_EXPORT_FORMAT, mono: true });
+  });
+
+  test('closes with Done', () => {
+    const { onClose } = renderDialog();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Done' }));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('labels the original rate', () => {
+    renderDialog();
+
+    expect(screen.getByRole('option', { name: 'Original (44.1 kHz)' })).toBeInTheDocument();
+  });
+
+  test('labels the original rate without an audio context', () => {
+    renderDialog(DEFAULT_EXPORT_FORMAT, null);
+
+    expect(screen.getByRole('option', { name: 'Original' })).toBeInTheDocument();
+  });
+
+  test('closes when clicking outside the dialog only', () => {
+    const { onClose } = renderDialog();
+
+    fireEvent.click(screen.getByRole('heading', { name: 'Export Format' }));
+    expect(onClose).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('dialog', { name: 'Export format' }));
+    expect(onClose).toHaveBeenCalled();
+  });
+});
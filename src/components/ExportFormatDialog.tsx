@@ -0,0 +1,203 @@
+// [EARS: FMT-001, FMT-002, FMT-003, FMT-004, FMT-005, FMT-006, OPUS-001] Export format dialog: bit depth, sample rate, MP3 and Opus encoding, mono
+
+import {
+  EXPORT_SAMPLE_RATES,
+  MP3_BITRATES,
+  MP3_VBR_QUALITIES,
+  OPUS_BITRATES,
+  WAV_BIT_DEPTHS,
+  type ExportFormat,
+  type Mp3Settings,
+  type WavBitDepth,
+} from '../audio/exportFormat';
+
+export interface ExportFormatDialogProps {
+  format: ExportFormat;
+  originalSampleRate: number | null; // Rate of the audio context, if known
+  onChange: (format: ExportFormat) => void;
+  onClose: () => void;
+}
+
+const selectStyle = {
+  padding: '0.25rem',
+  backgroundColor: '#333',
+  color: '#fff',
+  border: '1px solid #666',
+  borderRadius: '4px',
+} as const;
+
+const rowStyle = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: '1rem',
+  marginBottom: '0.75rem',
+} as const;
+
+/**
+ * Select value of MP3 settings, e.g. "cbr-128" or "vbr-2"
+ */
+function toMp3Value(mp3: Mp3Settings): string {
+  return mp3.mode === 'cbr' ? `cbr-${mp3.bitrate}` : `vbr-${mp3.quality}`;
+}
+
+/**
+ * MP3 settings of a select value
+ */
+function fromMp3Value(value: string): Mp3Settings {
+  const [mode, amount] = value.split('-');
+  return mode === 'vbr' ? { mode: 'vbr', quality: Number(amount) } : { mode: 'cbr', bitrate: Number(amount) };
+}
+
+/**
+ * ExportFormatDialog edits the format of WAV, FLAC, MP3, Opus, learning track and stem exports
+ * [EARS: FMT-001, FMT-002, FMT-003, FMT-004, FMT-006, OPUS-001]
+ */
+export function ExportFormatDialog({ format, originalSampleRate, onChange, onClose }: ExportFormatDialogProps) {
+  return (
+    <div
+      role="dialog"
+      aria-label="Export format"
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: '#2c2c2c',
+          border: '2px solid #444',
+          borderRadius: '8px',
+          padding: '2rem',
+          maxWidth: '500px',
+          color: '#fff',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0 }}>Export Format</h2>
+
+        {/* [EARS: FMT-001] */}
+        <label style={rowStyle}>
+          WAV bit depth
+          <select
+            aria-label="WAV bit depth"
+            value={format.bitDepth}
+            onChange={(e) => onChange({ ...format, bitDepth: Number(e.target.value) as WavBitDepth })}
+            style={selectStyle}
+          >
+            {WAV_BIT_DEPTHS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* [EARS: FMT-002] */}
+        <label style={rowStyle}>
+          Sample rate
+          <select
+            aria-label="Sample rate"
+            value={format.sampleRate ?? 'original'}
+            onChange={(e) =>
+              onChange({ ...format, sampleRate: e.target.value === 'original' ? null : Number(e.target.value) })
+            }
+            style={selectStyle}
+          >
+            <option value="original">
+              {originalSampleRate ? `Original (${(originalSampleRate / 1000).toFixed(1)} kHz)` : 'Original'}
+            </option>
+            {EXPORT_SAMPLE_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {(rate / 1000).toFixed(1)} kHz
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* [EARS: FMT-003] */}
+        <label style={rowStyle}>
+          MP3 encoding
+          <select
+            aria-label="MP3 encoding"
+            value={toMp3Value(format.mp3)}
+            onChange={(e) => onChange({ ...format, mp3: fromMp3Value(e.target.value) })}
+            style={selectStyle}
+          >
+            <optgroup label="Constant bitrate">
+              {MP3_BITRATES.map((bitrate) => (
+                <option key={bitrate} value={`cbr-${bitrate}`}>
+                  {bitrate} kbps
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="Variable bitrate">
+              {MP3_VBR_QUALITIES.map(({ value, label }) => (
+                <option key={value} value={`vbr-${value}`}>
+                  {label}
+                </option>
+              ))}
+            </optgroup>
+          </select>
+        </label>
+
+        {/* [EARS: OPUS-001] */}
+        <label style={rowStyle}>
+          Opus bitrate
+          <select
+            aria-label="Opus bitrate"
+            value={format.opusBitrate}
+            onChange={(e) => onChange({ ...format, opusBitrate: Number(e.target.value) })}
+            style={selectStyle}
+          >
+            {OPUS_BITRATES.map((bitrate) => (
+              <option key={bitrate} value={bitrate}>
+                {bitrate} kbps
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* [EARS: FMT-004] */}
+        <label style={rowStyle}>
+          Mono
+          <input
+            type="checkbox"
+            aria-label="Mono"
+            checked={format.mono}
+            onChange={(e) => onChange({ ...format, mono: e.target.checked })}
+          />
+        </label>
+
+        {/* [EARS: FMT-005] */}
+        <p style={{ color: '#888', fontSize: '0.85rem' }}>
+          16 and 24-bit WAV and MP3 are dithered (TPDF) when reducing the bit depth. FLAC uses the WAV bit
+          depth, with 32-bit float stored as 24-bit.
+        </p>
+
+        <button
+          onClick={onClose}
+          style={{
+            padding: '0.5rem 1rem',
+            backgroundColor: '#666',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+          }}
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
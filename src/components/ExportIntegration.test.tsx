@@ -3,6 +3,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { TopBar } from './TopBar';
 import { useProjectStore } from '../store/useProjectStore';
 import { Exporter } from '../audio/exporter';
+import { useErrorStore } from '../store/useErrorStore';
 
 // Mock useProjectStore
 vi.mock('../store/useProjectStore');
@@ -106,6 +107,7 @@ describe('EXP-001, EXP-002, EXP-003: WAV Export Integration', () => {
         name: 'My Choir Project',
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        voiceParts: [],
       },
       updateProject: vi.fn(),
       createProject: vi.fn(),
@@ -208,6 +210,30 @@ describe('EXP-001, EXP-002, EXP-003: WAV Export Integration', () => {
     });
   });
 
+  test('WAV export includes the voice part bus of each track (BUS-005)', async () => {
+    vi.mocked(useProjectStore).mockReturnValue({
+      currentProject: {
+        id: 'proj-1',
+        name: 'My Choir Project',
+        voiceParts: [{ type: 'S', label: 'Soprano', expanded: true, tracks: [], volume: 60, muted: true }],
+      },
+      tracks: [{ ...mockTracks[0], voicePartType: 'S' }, { ...mockTracks[1], voicePartType: 'A' }],
+    } as unknown as ReturnType<typeof useProjectStore>);
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: /export/i }));
+
+    await waitFor(() => {
+      fireEvent.click(screen.getByText(/WAV/i));
+    });
+
+    await waitFor(() => {
+      const exportedTracks = mockExporter.downloadWAV.mock.calls[0][0];
+      expect(exportedTracks[0].bus).toEqual({ id: 'S', volume: 60, muted: true, soloed: false });
+      expect(exportedTracks[1].bus).toBeUndefined();
+    });
+  });
+
   test('WAV export creates Exporter with AudioContext (EXP-002)', async () => {
     render(<TopBar />);
 
@@ -220,7 +246,7 @@ describe('EXP-001, EXP-002, EXP-003: WAV Export Integration', () => {
     });
 
     await waitFor(() => {
-      expect(Exporter).toHaveBeenCalledWith(expect.any(Object));
+      expect(Exporter).toHaveBeenCalledWith(expect.any(Object), expect.objectContaining({ loudnessTarget: -16 }));
     });
   });
 
@@ -252,6 +278,7 @@ describe('EXP-001, EXP-002, EXP-003: WAV Export Integration', () => {
         name: 'Solo Project',
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        voiceParts: [],
       },
       updateProject: vi.fn(),
       createProject: vi.fn(),
@@ -295,6 +322,7 @@ describe('EXP-001, EXP-002, EXP-003: WAV Export Integration', () => {
         name: 'Muted Project',
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        voiceParts: [],
       },
       updateProject: vi.fn(),
       createProject: vi.fn(),
@@ -378,6 +406,7 @@ describe('EXP-004, EXP-005, EXP-006: MP3 Export Integration', () => {
         name: 'My Choir Project',
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        voiceParts: [],
       },
       updateProject: vi.fn(),
       createProject: vi.fn(),
@@ -468,7 +497,7 @@ describe('EXP-004, EXP-005, EXP-006: MP3 Export Integration', () => {
     });
 
     await waitFor(() => {
-      expect(Exporter).toHaveBeenCalledWith(expect.any(Object));
+      expect(Exporter).toHaveBeenCalledWith(expect.any(Object), expect.objectContaining({ loudnessTarget: -16 }));
     });
   });
 
@@ -499,6 +528,7 @@ describe('EXP-004, EXP-005, EXP-006: MP3 Export Integration', () => {
         name: 'My Project: Special/Edition #1',
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        voiceParts: [],
       },
       updateProject: vi.fn(),
       createProject: vi.fn(),
@@ -539,6 +569,7 @@ describe('EXP-007: Export dropdown UI', () => {
         name: 'Test Project',
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        voiceParts: [],
       },
       updateProject: vi.fn(),
       createProject: vi.fn(),
@@ -603,3 +634,389 @@ describe('EXP-007: Export dropdown UI', () => {
     });
   });
 });
+
+describe('LEARN-001, LEARN-002, LEARN-003: Learning tracks export integration', () => {
+  const mockExporter = {
+    downloadLearningTracks: vi.fn().mockResolvedValue(undefined),
+    dispose: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.mocked(Exporter).mockImplementation(function () {
+      return mockExporter as unknown as Exporter;
+    });
+
+    vi.mocked(useProjectStore).mockReturnValue({
+      currentProject: {
+        id: 'proj-1',
+        name: 'Ave Verum',
+        voiceParts: [{ type: 'T', label: 'Tenor', expanded: true, tracks: [] }],
+      },
+      tracks: [
+        {
+          id: 'track-1',
+          voicePartType: 'T',
+          name: 'Tenor 1',
+          audioBlob: new Blob(),
+          volume: 100,
+          muted: false,
+          soloed: false,
+        },
+      ],
+    } as unknown as ReturnType<typeof useProjectStore>);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('exports learning tracks with each track\'s voice part bus', async () => {
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export learning tracks (ZIP)' }));
+
+    await waitFor(() => {
+      expect(mockExporter.downloadLearningTracks).toHaveBeenCalledWith(
+        [expect.objectContaining({ id: 'track-1', bus: { id: 'T', volume: 100, muted: false, soloed: false } })],
+        'Ave Verum'
+      );
+    });
+    expect(mockExporter.dispose).toHaveBeenCalled();
+  });
+
+  // ⚠️ Negative cases
+  test('shows an error and closes the dropdown when nothing is audible', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useErrorStore.setState({ error: null });
+    mockExporter.downloadLearningTracks.mockRejectedValueOnce(new Error('No audible tracks to export'));
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export learning tracks (ZIP)' }));
+
+    await waitFor(() => {
+      expect(useErrorStore.getState().error).toBe('Could not export learning tracks: No audible tracks to export');
+    });
+    expect(mockExporter.dispose).toHaveBeenCalled();
+    expect(screen.queryByRole('button', { name: 'Export learning tracks (ZIP)' })).not.toBeInTheDocument();
+  });
+});
+
+describe('STEM-001, STEM-002, STEM-004: Stem export integration', () => {
+  const mockExporter = {
+    downloadStems: vi.fn().mockResolvedValue(undefined),
+    dispose: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.mocked(Exporter).mockImplementation(function () {
+      return mockExporter as unknown as Exporter;
+    });
+
+    vi.mocked(useProjectStore).mockReturnValue({
+      currentProject: {
+        id: 'proj-1',
+        name: 'Ave Verum',
+        voiceParts: [{ type: 'B', label: 'Bass', expanded: true, tracks: [] }],
+      },
+      tracks: [
+        {
+          id: 'track-1',
+          voicePartType: 'B',
+          name: 'Bass 1',
+          audioBlob: new Blob(),
+          volume: 100,
+          muted: false,
+          soloed: false,
+        },
+      ],
+    } as unknown as ReturnType<typeof useProjectStore>);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('exports one stem per track with the track names', async () => {
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export track stems (ZIP)' }));
+
+    await waitFor(() => {
+      expect(mockExporter.downloadStems).toHaveBeenCalledWith(
+        [expect.objectContaining({ id: 'track-1', name: 'Bass 1' })],
+        'Ave Verum',
+        'track'
+      );
+    });
+    expect(mockExporter.dispose).toHaveBeenCalled();
+  });
+
+  test('exports one stem per voice part', async () => {
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export part stems (ZIP)' }));
+
+    await waitFor(() => {
+      expect(mockExporter.downloadStems).toHaveBeenCalledWith(expect.any(Array), 'Ave Verum', 'part');
+    });
+  });
+
+  // ⚠️ Negative cases
+  test('shows an error and closes the dropdown when nothing is audible', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useErrorStore.setState({ error: null });
+    mockExporter.downloadStems.mockRejectedValueOnce(new Error('No audible tracks to export'));
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export track stems (ZIP)' }));
+
+    await waitFor(() => {
+      expect(useErrorStore.getState().error).toBe('Could not export stems: No audible tracks to export');
+    });
+    expect(mockExporter.dispose).toHaveBeenCalled();
+    expect(screen.queryByRole('button', { name: 'Export track stems (ZIP)' })).not.toBeInTheDocument();
+  });
+});
+
+describe('LOUD-003, LOUD-004: Loudness target integration', () => {
+  const report = { inputLufs: -27.4, outputLufs: -14, truePeakDbtp: -1.2, gainDb: 13.4 };
+  const mockExporter = {
+    downloadWAV: vi.fn().mockResolvedValue(report),
+    downloadMP3: vi.fn().mockResolvedValue(null),
+    dispose: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.mocked(Exporter).mockImplementation(function () {
+      return mockExporter as unknown as Exporter;
+    });
+
+    vi.mocked(useProjectStore).mockReturnValue({
+      currentProject: { id: 'proj-1', name: 'Ave Verum', voiceParts: [] },
+      tracks: [{ id: 'track-1', audioBlob: new Blob(), volume: 100, muted: false, soloed: false }],
+    } as unknown as ReturnType<typeof useProjectStore>);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('exports at the selected loudness target and shows the measured loudness', async () => {
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.change(screen.getByLabelText('Loudness target'), { target: { value: '-14' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Export as WAV' }));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('loudness-report')).toHaveTextContent('-14.0 LUFS · -1.2 dBTP');
+    });
+    expect(Exporter).toHaveBeenCalledWith(mockAudioContext, expect.objectContaining({ loudnessTarget: -14 }));
+    expect(screen.getByTestId('loudness-report')).toHaveAttribute(
+      'title',
+      'Measured -27.4 LUFS before export, gain 13.4 dB'
+    );
+  });
+
+  test('defaults to -16 LUFS', () => {
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+
+    expect(screen.getByLabelText('Loudness target')).toHaveValue('-16');
+  });
+
+  // 🔥 Edge cases
+  test('peak normalizes without a report', async () => {
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.change(screen.getByLabelText('Loudness target'), { target: { value: 'peak' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Export as MP3' }));
+
+    await waitFor(() => {
+      expect(Exporter).toHaveBeenCalledWith(mockAudioContext, expect.objectContaining({ loudnessTarget: null }));
+    });
+    expect(screen.queryByTestId('loudness-report')).not.toBeInTheDocument();
+  });
+});
+
+describe('FMT-001, FMT-002, FMT-003, FMT-004: Export format integration', () => {
+  const mockExporter = {
+    downloadWAV: vi.fn().mockResolvedValue(null),
+    downloadStems: vi.fn().mockResolvedValue(undefined),
+    dispose: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.mocked(Exporter).mockImplementation(function () {
+      return mockExporter as unknown as Exporter;
+    });
+
+    vi.mocked(useProjectStore).mockReturnValue({
+      currentProject: { id: 'proj-1', name: 'Ave Verum', voiceParts: [] },
+      tracks: [{ id: 'track-1', audioBlob: new Blob(), volume: 100, muted: false, soloed: false }],
+    } as unknown as ReturnType<typeof useProjectStore>);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('exports in the format chosen in the dialog', async () => {
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Format options…' }));
+    fireEvent.change(screen.getByLabelText('WAV bit depth'), { target: { value: '24' } });
+    fireEvent.change(screen.getByLabelText('Sample rate'), { target: { value: '48000' } });
+    fireEvent.change(screen.getByLabelText('MP3 encoding'), { target: { value: 'vbr-2' } });
+    fireEvent.click(screen.getByLabelText('Mono'));
+    fireEvent.click(screen.getByRole('button', { name: 'Done' }));
+
+    expect(screen.queryByRole('dialog', { name: 'Export format' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export as WAV' }));
+
+    await waitFor(() => {
+      expect(Exporter).toHaveBeenCalledWith(mockAudioContext, {
+        bitDepth: 24,
+        sampleRate: 48000,
+        mp3: { mode: 'vbr', quality: 2 },
+        opusBitrate: 96,
+        mono: true,
+        loudnessTarget: -16,
+      });
+    });
+  });
+
+  test('exports stems in the chosen format', async () => {
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Format options…' }));
+    fireEvent.change(screen.getByLabelText('WAV bit depth'), { target: { value: '32' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Done' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export track stems (ZIP)' }));
+
+    await waitFor(() => {
+      expect(Exporter).toHaveBeenCalledWith(mockAudioContext, expect.objectContaining({ bitDepth: 32 }));
+    });
+  });
+
+  // 🔥 Edge cases
+  test('defaults to 16-bit stereo at the original rate, 128 kbps MP3 and 96 kbps Opus', async () => {
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export as WAV' }));
+
+    await waitFor(() => {
+      expect(Exporter).toHaveBeenCalledWith(mockAudioContext, {
+        bitDepth: 16,
+        sampleRate: null,
+        mp3: { mode: 'cbr', bitrate: 128 },
+        opusBitrate: 96,
+        mono: false,
+        loudnessTarget: -16,
+      });
+    });
+  });
+});
+
+describe('FLAC-003, OPUS-003, OPUS-004: FLAC and Opus export integration', () => {
+  const mockExporter = {
+    downloadFLAC: vi.fn().mockResolvedValue(null),
+    downloadOpus: vi.fn().mockResolvedValue(null),
+    dispose: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.mocked(Exporter).mockImplementation(function () {
+      return mockExporter as unknown as Exporter;
+    });
+
+    vi.mocked(useProjectStore).mockReturnValue({
+      currentProject: { id: 'proj-1', name: 'Ave Verum', voiceParts: [] },
+      tracks: [{ id: 'track-1', audioBlob: new Blob(), volume: 100, muted: false, soloed: false }],
+    } as unknown as ReturnType<typeof useProjectStore>);
+    useErrorStore.setState({ error: null });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('downloads FLAC from the export dropdown', async () => {
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export as FLAC' }));
+
+    await waitFor(() => {
+      expect(mockExporter.downloadFLAC).toHaveBeenCalledWith(
+        [expect.objectContaining({ id: 'track-1' })],
+        'Ave Verum'
+      );
+    });
+    expect(mockExporter.dispose).toHaveBeenCalled();
+  });
+
+  test('downloads Opus at the bitrate chosen in the dialog', async () => {
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Format options…' }));
+    fireEvent.change(screen.getByLabelText('Opus bitrate'), { target: { value: '64' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Done' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export as Opus (Ogg)' }));
+
+    await waitFor(() => {
+      expect(mockExporter.downloadOpus).toHaveBeenCalledWith(expect.any(Array), 'Ave Verum');
+    });
+    expect(Exporter).toHaveBeenCalledWith(mockAudioContext, expect.objectContaining({ opusBitrate: 64 }));
+  });
+
+  // ⚠️ Negative cases
+  test('shows an error and closes the dropdown when nothing is audible', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockExporter.downloadFLAC.mockRejectedValueOnce(new Error('No audible tracks to export'));
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export as FLAC' }));
+
+    await waitFor(() => {
+      expect(useErrorStore.getState().error).toBe('Could not export FLAC: No audible tracks to export');
+    });
+    expect(mockExporter.dispose).toHaveBeenCalled();
+    expect(screen.queryByRole('button', { name: 'Export as FLAC' })).not.toBeInTheDocument();
+  });
+
+  test('shows an error when the browser cannot encode Opus', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockExporter.downloadOpus.mockRejectedValueOnce(new Error('This browser cannot encode Opus'));
+    render(<TopBar />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export ▼' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export as Opus (Ogg)' }));
+
+    await waitFor(() => {
+      expect(useErrorStore.getState().error).toBe('Could not export Opus: This browser cannot encode Opus');
+    });
+    expect(mockExporter.dispose).toHaveBeenCalled();
+  });
+});
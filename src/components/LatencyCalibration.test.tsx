@@ -0,0 +1,107 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { LatencyCalibration } from './LatencyCalibration';
+import { LatencyCalibrator } from '../audio/latencyCalibrator';
+import { useMicrophoneStore } from '../store/useMicrophoneStore';
+import { db, initializeDatabase } from '../db/index';
+
+vi.mock('../audio/latencyCalibrator');
+
+describe('LAT-001, LAT-002, LAT-003, LAT-006: Latency calibration wizard', () => {
+  let mockCalibrator: any;
+  let mockStream: any;
+  let requestStream: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    await initializeDatabase();
+    mockStream = { getTracks: vi.fn().mockReturnValue([{ stop: vi.fn() }]) };
+    requestStream = vi.fn().mockResolvedValue(mockStream);
+
+    mockCalibrator = {
+      measure: vi.fn().mockResolvedValue({ latency: 0.0421, measurements: [0.042, 0.0421, 0.043] }),
+      dispose: vi.fn(),
+    };
+    vi.mocked(LatencyCalibrator).mockImplementation(function() {
+      return mockCalibrator;
+    } as any);
+
+    useMicrophoneStore.setState({ latencyByDevice: {} });
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    await db.delete();
+  });
+
+  const renderWizard = (onClose = vi.fn()) =>
+    render(
+      <LatencyCalibration
+        deviceId="mic-1"
+        audioContext={{} as AudioContext}
+        requestStream={requestStream}
+        onClose={onClose}
+      />
+    );
+
+  // ✅ Happy path
+  test('shows setup instructions before measuring', () => {
+    renderWizard();
+
+    expect(screen.getByRole('dialog', { name: /latency calibration/i })).toBeInTheDocument();
+    expect(screen.getByText(/place the microphone near/i)).toBeInTheDocument();
+  });
+
+  test('measures latency on the requested stream when started', async () => {
+    renderWizard();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start' }));
+
+    await waitFor(() => {
+      expect(mockCalibrator.measure).toHaveBeenCalledWith(mockStream);
+    });
+    expect(await screen.findByText('42 ms')).toBeInTheDocument();
+  });
+
+  test('stops the calibration stream after measuring', async () => {
+    renderWizard();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start' }));
+
+    await screen.findByText('42 ms');
+    expect(mockStream.getTracks()[0].stop).toHaveBeenCalled();
+  });
+
+  test('saves latency for the device and closes', async () => {
+    const onClose = vi.fn();
+    renderWizard(onClose);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(onClose).toHaveBeenCalled();
+    });
+    expect(useMicrophoneStore.getState().latencyByDevice['mic-1']).toBe(0.0421);
+  });
+
+  // ⚠️ Negative cases
+  test('shows an error when clicks are not detected', async () => {
+    mockCalibrator.measure.mockRejectedValue(new Error('Calibration clicks not detected'));
+    renderWizard();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start' }));
+
+    expect(await screen.findByText(/could not hear the clicks/i)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Retry' })).toBeInTheDocument();
+  });
+
+  test('does not save when cancelled', () => {
+    const onClose = vi.fn();
+    renderWizard(onClose);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(onClose).toHaveBeenCalled();
+    expect(useMicrophoneStore.getState().latencyByDevice).toEqual({});
+  });
+});
@@ -0,0 +1,172 @@
+// [EARS: LAT-001, LAT-002, LAT-003, LAT-006]
+// Latency calibration wizard: loopback click through speakers into the mic
+
+import { useState, useRef, useEffect } from 'react';
+import { LatencyCalibrator, type CalibrationResult } from '../audio/latencyCalibrator';
+import { useMicrophoneStore } from '../store/useMicrophoneStore';
+
+export interface LatencyCalibrationProps {
+  deviceId: string;
+  audioContext: AudioContext;
+  requestStream: () => Promise<MediaStream>;
+  onClose: () => void;
+}
+
+type CalibrationStep = 'intro' | 'measuring' | 'result' | 'error';
+
+const buttonStyle = {
+  padding: '0.5rem 1rem',
+  color: '#fff',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontWeight: 'bold',
+} as const;
+
+/**
+ * Format seconds as whole milliseconds
+ */
+function formatMs(seconds: number): string {
+  return `${Math.round(seconds * 1000)} ms`;
+}
+
+/**
+ * LatencyCalibration modal walks the user through a loopback measurement
+ * [EARS: LAT-001, LAT-002, LAT-003, LAT-006]
+ */
+export function LatencyCalibration({
+  deviceId,
+  audioContext,
+  requestStream,
+  onClose,
+}: LatencyCalibrationProps) {
+  const [step, setStep] = useState<CalibrationStep>('intro');
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+  const setDeviceLatency = useMicrophoneStore((state) => state.setDeviceLatency);
+
+  const calibratorRef = useRef<LatencyCalibrator | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (calibratorRef.current) {
+        calibratorRef.current.dispose();
+      }
+    };
+  }, []);
+
+  /**
+   * Run the loopback measurement
+   * [EARS: LAT-001, LAT-002] Play clicks and measure their round trip
+   * [EARS: LAT-006] Report failure when clicks are not detected
+   */
+  const handleStart = async () => {
+    setStep('measuring');
+    let stream: MediaStream | null = null;
+
+    try {
+      stream = await requestStream();
+      calibratorRef.current = new LatencyCalibrator(audioContext);
+      const measured = await calibratorRef.current.measure(stream);
+      setResult(measured);
+      setStep('result');
+    } catch (error) {
+      console.error('Latency calibration failed:', error);
+      setStep('error');
+    } finally {
+      stream?.getTracks().forEach(track => track.stop());
+    }
+  };
+
+  /**
+   * Save the measured latency for this device
+   * [EARS: LAT-003] Persist latency per microphone device ID
+   */
+  const handleSave = async () => {
+    if (!result) return;
+    await setDeviceLatency(deviceId, result.latency);
+    onClose();
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Latency calibration"
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2000,
+      }}
+    >
+      <div
+        style={{
+          backgroundColor: '#2c2c2c',
+          border: '2px solid #444',
+          borderRadius: '8px',
+          padding: '2rem',
+          maxWidth: '500px',
+          color: '#fff',
+        }}
+      >
+        <h2 style={{ marginTop: 0 }}>Latency Calibration</h2>
+
+        {step === 'intro' && (
+          <p style={{ color: '#aaa', fontSize: '0.9rem' }}>
+            Turn your speakers up and place the microphone near them. Headphones must be
+            unplugged. A few clicks will play and be recorded back to measure the delay
+            between what you hear and what gets recorded.
+          </p>
+        )}
+
+        {step === 'measuring' && (
+          <p style={{ color: '#ffeb3b', fontSize: '0.9rem' }}>Listening for clicks...</p>
+        )}
+
+        {step === 'result' && result && (
+          <p style={{ fontSize: '0.9rem' }}>
+            Round-trip latency: <strong>{formatMs(result.latency)}</strong>
+            <span style={{ color: '#888' }}> ({result.measurements.length} clicks detected)</span>
+          </p>
+        )}
+
+        {step === 'error' && (
+          <p style={{ color: '#f44336', fontSize: '0.9rem' }}>
+            Could not hear the clicks. Turn the speakers up, move the microphone closer and try again.
+          </p>
+        )}
+
+        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+          {(step === 'intro' || step === 'error' || step === 'result') && (
+            <button
+              onClick={handleStart}
+              style={{ ...buttonStyle, backgroundColor: '#2196f3' }}
+            >
+              {step === 'intro' ? 'Start' : 'Retry'}
+            </button>
+          )}
+          {step === 'result' && (
+            <button
+              onClick={handleSave}
+              style={{ ...buttonStyle, backgroundColor: '#4caf50' }}
+            >
+              Save
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            disabled={step === 'measuring'}
+            style={{ ...buttonStyle, backgroundColor: '#666' }}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
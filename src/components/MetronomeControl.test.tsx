@@ -1,8 +1,9 @@
 import { describe, test, expect, beforeEach, vi, afterEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import { MetronomeControl } from './MetronomeControl';
 import { Metronome } from '../audio/metronome';
 import { MetronomeProvider } from '../contexts/MetronomeContext';
+import type { TempoDetector } from '../audio/tempoDetector';
 
 // Mock AudioContext
 const mockAudioContext = {
@@ -49,6 +50,8 @@ describe('MET-003: BPM input field', () => {
   beforeEach(() => {
     mockMetronome = {
       setBpm: vi.fn(),
+      setBeatsPerBar: vi.fn(),
+      setTempoMap: vi.fn(),
       getBpm: vi.fn().mockReturnValue(120),
       start: vi.fn(),
       stop: vi.fn(),
@@ -148,6 +151,8 @@ describe('MET-002: BPM increment/decrement buttons', () => {
   beforeEach(() => {
     mockMetronome = {
       setBpm: vi.fn(),
+      setBeatsPerBar: vi.fn(),
+      setTempoMap: vi.fn(),
       getBpm: vi.fn().mockReturnValue(120),
       start: vi.fn(),
       stop: vi.fn(),
@@ -264,6 +269,8 @@ describe('OVER-001: Overdub toggle', () => {
   beforeEach(() => {
     mockMetronome = {
       setBpm: vi.fn(),
+      setBeatsPerBar: vi.fn(),
+      setTempoMap: vi.fn(),
       getBpm: vi.fn().mockReturnValue(120),
       start: vi.fn(),
       stop: vi.fn(),
@@ -325,12 +332,322 @@ describe('OVER-001: Overdub toggle', () => {
   });
 });
 
+describe('CNT-001, CNT-002, CNT-004: Count-in settings', () => {
+  let mockMetronome: any;
+
+  beforeEach(() => {
+    mockMetronome = {
+      setBpm: vi.fn(),
+      setBeatsPerBar: vi.fn(),
+      setTempoMap: vi.fn(),
+      getBpm: vi.fn().mockReturnValue(120),
+      start: vi.fn(),
+      stop: vi.fn(),
+      isPlaying: vi.fn().mockReturnValue(false),
+      setVisualCallback: vi.fn(),
+      dispose: vi.fn(),
+    };
+    vi.mocked(Metronome).mockImplementation(function() {
+      return mockMetronome;
+    } as any);
+  });
+
+  afterEach(async () => {
+    const { useProjectStore } = await import('../store/useProjectStore');
+    useProjectStore.getState().reset();
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('shows 4/4 with a one-bar count-in by default', () => {
+    renderWithProvider(<MetronomeControl />);
+
+    expect(screen.getByRole('combobox', { name: 'Time signature' })).toHaveValue('4/4');
+    expect(screen.getByRole('combobox', { name: 'Count-in' })).toHaveValue('1');
+    expect(screen.getByRole('checkbox', { name: 'Skip count-in mid-song' })).not.toBeChecked();
+  });
+
+  test('saves time signature, count-in and skip option to the project', async () => {
+    const { useProjectStore } = await import('../store/useProjectStore');
+    await useProjectStore.getState().createProject('Test Project');
+
+    renderWithProvider(<MetronomeControl />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Time signature' }), { target: { value: '6/8' } });
+    await waitFor(() => {
+      expect(useProjectStore.getState().currentProject?.timeSignature).toEqual({ beatsPerBar: 6, beatUnit: 8 });
+    });
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Count-in' }), { target: { value: '2' } });
+    await waitFor(() => {
+      expect(useProjectStore.getState().currentProject?.countInBars).toBe(2);
+    });
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Skip count-in mid-song' }));
+    await waitFor(() => {
+      expect(screen.getByRole('checkbox', { name: 'Skip count-in mid-song' })).toBeChecked();
+    });
+  });
+
+  // 🔥 Edge cases
+  test('offers turning the count-in off', () => {
+    renderWithProvider(<MetronomeControl />);
+
+    expect(screen.getByRole('option', { name: 'No count-in' })).toBeInTheDocument();
+  });
+});
+
+describe('CLICK-001, CLICK-002, CLICK-003: Click track controls', () => {
+  let mockMetronome: any;
+
+  beforeEach(() => {
+    mockMetronome = {
+      setBpm: vi.fn(),
+      setBeatsPerBar: vi.fn(),
+      setTempoMap: vi.fn(),
+      setClickEnabled: vi.fn(),
+      setClickVolume: vi.fn(),
+      setSubdivision: vi.fn(),
+      getBpm: vi.fn().mockReturnValue(120),
+      start: vi.fn(),
+      stop: vi.fn(),
+      isPlaying: vi.fn().mockReturnValue(false),
+      setVisualCallback: vi.fn(),
+      dispose: vi.fn(),
+    };
+    vi.mocked(Metronome).mockImplementation(function() {
+      return mockMetronome;
+    } as any);
+  });
+
+  afterEach(async () => {
+    const { useProjectStore } = await import('../store/useProjectStore');
+    useProjectStore.getState().reset();
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('turns the click track on and off', () => {
+    renderWithProvider(<MetronomeControl />);
+
+    const toggle = screen.getByRole('checkbox', { name: 'Click track' });
+    expect(toggle).not.toBeChecked();
+
+    fireEvent.click(toggle);
+    expect(toggle).toBeChecked();
+    expect(mockMetronome.setClickEnabled).toHaveBeenLastCalledWith(true);
+
+    fireEvent.click(toggle);
+    expect(mockMetronome.setClickEnabled).toHaveBeenLastCalledWith(false);
+  });
+
+  test('sets click volume and subdivision', () => {
+    renderWithProvider(<MetronomeControl />);
+
+    fireEvent.change(screen.getByRole('slider', { name: 'Click volume' }), { target: { value: '35' } });
+    fireEvent.change(screen.getByRole('combobox', { name: 'Click subdivision' }), { target: { value: '3' } });
+
+    expect(mockMetronome.setClickVolume).toHaveBeenCalledWith(35);
+    expect(mockMetronome.setSubdivision).toHaveBeenCalledWith(3);
+  });
+
+  test('accents the downbeat of the project time signature', async () => {
+    const { useProjectStore } = await import('../store/useProjectStore');
+    await useProjectStore.getState().createProject('Test Project');
+    renderWithProvider(<MetronomeControl />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Time signature' }), { target: { value: '3/4' } });
+
+    await waitFor(() => {
+      expect(mockMetronome.setBeatsPerBar).toHaveBeenLastCalledWith(3);
+    });
+  });
+
+  // 🔥 Edge cases
+  test('defaults to quarter-note clicks at 80% volume', () => {
+    renderWithProvider(<MetronomeControl />);
+
+    expect(screen.getByRole('slider', { name: 'Click volume' })).toHaveValue('80');
+    expect(screen.getByRole('combobox', { name: 'Click subdivision' })).toHaveValue('1');
+  });
+});
+
+describe('TEMPO-002, TEMPO-003: Tempo map', () => {
+  let mockMetronome: any;
+
+  beforeEach(() => {
+    mockMetronome = {
+      setBpm: vi.fn(),
+      setBeatsPerBar: vi.fn(),
+      setTempoMap: vi.fn(),
+      getBpm: vi.fn().mockReturnValue(120),
+      start: vi.fn(),
+      stop: vi.fn(),
+      isPlaying: vi.fn().mockReturnValue(false),
+      setVisualCallback: vi.fn(),
+      dispose: vi.fn(),
+    };
+    vi.mocked(Metronome).mockImplementation(function() {
+      return mockMetronome;
+    } as any);
+  });
+
+  afterEach(async () => {
+    const { useProjectStore } = await import('../store/useProjectStore');
+    useProjectStore.getState().reset();
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('adds a tempo change and saves it to the project', async () => {
+    const { useProjectStore } = await import('../store/useProjectStore');
+    await useProjectStore.getState().createProject('Test Project');
+    renderWithProvider(<MetronomeControl />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Tempo changes' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Add tempo change' }));
+
+    await waitFor(() => {
+      expect(useProjectStore.getState().currentProject?.tempoMap).toEqual([{ bar: 5, bpm: 120 }]);
+    });
+    expect(screen.getByRole('button', { name: 'Tempo changes' })).toHaveTextContent('Tempo map (1)');
+  });
+
+  test('gives the metronome the project tempo map', async () => {
+    const { useProjectStore } = await import('../store/useProjectStore');
+    await useProjectStore.getState().createProject('Test Project');
+    renderWithProvider(<MetronomeControl />);
+
+    await act(async () => {
+      await useProjectStore.getState().setTempoMap([{ bar: 2, bpm: 60 }]);
+    });
+
+    const tempoMap = mockMetronome.setTempoMap.mock.lastCall[0];
+    expect(tempoMap.tempoAt(100)).toBe(60);
+  });
+
+  // 🔥 Edge cases
+  test('hides the editor until opened', () => {
+    renderWithProvider(<MetronomeControl />);
+
+    expect(screen.queryByRole('button', { name: 'Add tempo change' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Tempo changes' })).toHaveAttribute('aria-expanded', 'false');
+  });
+});
+
+describe('TAP-001, TAP-004, TAP-005: Tap tempo and tempo estimation', () => {
+  let mockMetronome: any;
+
+  beforeEach(() => {
+    mockMetronome = {
+      setBpm: vi.fn(),
+      setBeatsPerBar: vi.fn(),
+      setTempoMap: vi.fn(),
+      getBpm: vi.fn().mockReturnValue(120),
+      start: vi.fn(),
+      stop: vi.fn(),
+      isPlaying: vi.fn().mockReturnValue(false),
+      setVisualCallback: vi.fn(),
+      dispose: vi.fn(),
+    };
+    vi.mocked(Metronome).mockImplementation(function() {
+      return mockMetronome;
+    } as any);
+  });
+
+  afterEach(async () => {
+    const { useProjectStore } = await import('../store/useProjectStore');
+    useProjectStore.getState().reset();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('sets and saves BPM from taps', async () => {
+    const { useProjectStore } = await import('../store/useProjectStore');
+    await useProjectStore.getState().createProject('Test Project');
+    let now = 1000;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    renderWithProvider(<MetronomeControl />);
+
+    const tap = screen.getByRole('button', { name: 'Tap tempo' });
+    fireEvent.click(tap);
+    now = 1600;
+    fireEvent.click(tap);
+
+    expect(screen.getByLabelText('BPM')).toHaveValue(100);
+    expect(mockMetronome.setBpm).toHaveBeenLastCalledWith(100);
+    await waitFor(() => {
+      expect(useProjectStore.getState().currentProject?.bpm).toBe(100);
+    });
+  });
+
+  test('applies a tempo estimated from a track', async () => {
+    const { useProjectStore } = await import('../store/useProjectStore');
+    await useProjectStore.getState().createProject('Test Project');
+    await useProjectStore.getState().addTrack('S', { audioBlob: new Blob(['audio']), duration: 20, waveformData: [] });
+    const trackId = useProjectStore.getState().tracks[0]!.id;
+    const detector = { detect: vi.fn().mockResolvedValue({ bpm: 100, firstBeat: 0.4, confidence: 0.9 }) } as any;
+    renderWithProvider(<MetronomeControl tempoDetector={detector} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Estimate tempo from track' }), {
+      target: { value: trackId },
+    });
+    fireEvent.click(await screen.findByRole('button', { name: 'Apply estimated tempo' }));
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('BPM')).toHaveValue(100);
+    });
+    expect(useProjectStore.getState().currentProject?.bpm).toBe(100);
+    expect(useProjectStore.getState().tracks[0]?.startOffset ?? 0).toBe(0);
+  });
+
+  test('aligns the tracks to an estimated tempo when asked', async () => {
+    const { useProjectStore } = await import('../store/useProjectStore');
+    await useProjectStore.getState().createProject('Test Project');
+    await useProjectStore.getState().addTrack('S', { audioBlob: new Blob(['audio']), duration: 20, waveformData: [] });
+    const trackId = useProjectStore.getState().tracks[0]!.id;
+    const detector = { detect: vi.fn().mockResolvedValue({ bpm: 100, firstBeat: 0.4, confidence: 0.9 }) } as unknown as TempoDetector;
+    renderWithProvider(<MetronomeControl tempoDetector={detector} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Estimate tempo from track' }), {
+      target: { value: trackId },
+    });
+    fireEvent.click(await screen.findByRole('button', { name: 'Apply estimated tempo and align tracks' }));
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('BPM')).toHaveValue(100);
+    });
+    expect(useProjectStore.getState().tracks[0]?.startOffset).toBeCloseTo(2);
+  });
+
+  // ⚠️ Negative cases
+  test('keeps the BPM after a single tap', () => {
+    renderWithProvider(<MetronomeControl />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Tap tempo' }));
+
+    expect(screen.getByLabelText('BPM')).toHaveValue(120);
+  });
+
+  // 🔥 Edge cases
+  test('offers tempo estimation only when there are tracks to analyze', async () => {
+    const { useProjectStore } = await import('../store/useProjectStore');
+    await useProjectStore.getState().createProject('Test Project');
+    renderWithProvider(<MetronomeControl tempoDetector={{ detect: vi.fn() } as any} />);
+
+    expect(screen.queryByRole('combobox', { name: 'Estimate tempo from track' })).not.toBeInTheDocument();
+  });
+});
+
 describe('MetronomeControl: Component lifecycle', () => {
   let mockMetronome: any;
 
   beforeEach(() => {
     mockMetronome = {
       setBpm: vi.fn(),
+      setBeatsPerBar: vi.fn(),
+      setTempoMap: vi.fn(),
       getBpm: vi.fn().mockReturnValue(120),
       start: vi.fn(),
       stop: vi.fn(),
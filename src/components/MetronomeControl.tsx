@@ -1,22 +1,73 @@
-// [EARS: MET-002, MET-003, OVER-001] Metronome control with BPM
+// [EARS: MET-002, MET-003, OVER-001, CNT-001, CNT-002, CNT-004, CLICK-001, CLICK-002, CLICK-003, TEMPO-002, TEMPO-003, TAP-001, TAP-004, TAP-005]
+// Metronome control with BPM, tap tempo, time signature, tempo map, count-in and click track
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useProjectStore } from '../store/useProjectStore';
 import { useMetronome } from '../contexts/MetronomeContext';
+import { useTempoMap } from '../hooks/useTempoMap';
+import { TempoMapEditor, TIME_SIGNATURES } from './TempoMapEditor';
+import { TempoEstimator } from './TempoEstimator';
+import { TapTempo } from '../audio/tapTempo';
+import type { TempoDetector, TempoEstimate } from '../audio/tempoDetector';
+import type { TempoEvent } from '../store/types';
 
 const MIN_BPM = 40;
 const MAX_BPM = 240;
+const COUNT_IN_OPTIONS = [0, 1, 2, 3, 4];
+const SUBDIVISIONS = [
+  { value: 1, label: '♩ Quarters' },
+  { value: 2, label: '♪ Eighths' },
+  { value: 3, label: '3 Triplets' },
+  { value: 4, label: '♬ Sixteenths' },
+];
 
-export function MetronomeControl() {
+const selectStyle = {
+  padding: '0.25rem',
+  backgroundColor: '#444',
+  color: '#fff',
+  border: '1px solid #666',
+  borderRadius: '3px',
+  fontSize: '0.75rem',
+};
+
+export interface MetronomeControlProps {
+  tempoDetector?: TempoDetector; // [EARS: TAP-002] Enables tempo estimation from tracks
+}
+
+export function MetronomeControl({ tempoDetector }: MetronomeControlProps) {
   // [EARS: OVER-001] Use global project store for overdub state
   const currentProject = useProjectStore((state) => state.currentProject);
   const overdubEnabled = useProjectStore((state) => state.currentProject?.overdubEnabled ?? false);
   const setOverdubEnabled = useProjectStore((state) => state.setOverdubEnabled);
   const updateBpm = useProjectStore((state) => state.updateBpm);
+  const setTimeSignature = useProjectStore((state) => state.setTimeSignature);
+  const setCountInBars = useProjectStore((state) => state.setCountInBars);
+  const setSkipCountInFromPosition = useProjectStore((state) => state.setSkipCountInFromPosition);
+  const setTempoMap = useProjectStore((state) => state.setTempoMap);
+  const applyTempoEstimate = useProjectStore((state) => state.applyTempoEstimate);
+  const tracks = useProjectStore((state) => state.tracks);
+  const tempoMap = useTempoMap();
+
+  // [EARS: CNT-001, CNT-002, CNT-004] Count-in settings (defaults for projects saved before they existed)
+  const timeSignature = currentProject?.timeSignature ?? { beatsPerBar: 4, beatUnit: 4 };
+  const countInBars = currentProject?.countInBars ?? 1;
+  const skipCountInFromPosition = currentProject?.skipCountInFromPosition ?? false;
 
   // Local state for BPM (synced with project)
   const [bpm, setBpm] = useState(120);
 
+  // [EARS: TAP-001] Tap sequence survives re-renders
+  const tapTempoRef = useRef(new TapTempo());
+
+  // [EARS: CLICK-001, CLICK-002, CLICK-003] Click track settings (metronome defaults)
+  const [clickEnabled, setClickEnabled] = useState(false);
+  const [clickVolume, setClickVolume] = useState(80);
+  const [subdivision, setSubdivision] = useState(1);
+
+  // [EARS: TEMPO-002] Tempo changes editor visibility
+  const [showTempoMap, setShowTempoMap] = useState(false);
+  const tempoEvents = currentProject?.tempoMap ?? [];
+
   // Get shared metronome instance from context
   const { getMetronome } = useMetronome();
 
@@ -40,6 +91,28 @@ export function MetronomeControl() {
     }
   }, [bpm, getMetronome]);
 
+  /**
+   * Accent the downbeat of the project's time signature
+   * [EARS: CLICK-001] Sync beats per bar with metronome instance
+   */
+  useEffect(() => {
+    const metronome = getMetronome();
+    if (metronome) {
+      metronome.setBeatsPerBar(timeSignature.beatsPerBar);
+    }
+  }, [timeSignature.beatsPerBar, getMetronome]);
+
+  /**
+   * Let the click follow the project's tempo changes
+   * [EARS: TEMPO-003] Sync tempo map with metronome instance
+   */
+  useEffect(() => {
+    const metronome = getMetronome();
+    if (metronome) {
+      metronome.setTempoMap(tempoMap);
+    }
+  }, [tempoMap, getMetronome]);
+
   /**
    * Handle BPM input change
    * [EARS: MET-003] Allow user to edit BPM directly
@@ -114,6 +187,31 @@ export function MetronomeControl() {
     }
   };
 
+  /**
+   * Set BPM from the spacing of taps
+   * [EARS: TAP-001] Tap at least twice; auto-save the result
+   */
+  const handleTap = async () => {
+    const tappedBpm = tapTempoRef.current.tap();
+    if (tappedBpm === null) return;
+
+    setBpm(tappedBpm);
+    if (currentProject) {
+      await updateBpm(tappedBpm);
+    }
+  };
+
+  /**
+   * Adopt a tempo estimated from a track
+   * [EARS: TAP-004, TAP-005] Auto-save BPM, and aligned track offsets if asked
+   */
+  const handleApplyEstimate = async (trackId: string, estimate: TempoEstimate, alignTracks: boolean) => {
+    if (currentProject) {
+      await applyTempoEstimate(trackId, estimate, alignTracks);
+      setBpm(estimate.bpm);
+    }
+  };
+
   /**
    * Toggle overdub mode
    * [EARS: OVER-001] Enable/disable overdub
@@ -122,11 +220,83 @@ export function MetronomeControl() {
     await setOverdubEnabled(!overdubEnabled);
   };
 
+  /**
+   * Handle time signature change
+   * [EARS: CNT-002] Auto-save time signature to project
+   */
+  const handleTimeSignatureChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const [beatsPerBar, beatUnit] = e.target.value.split('/').map(Number);
+    if (currentProject && beatsPerBar && beatUnit) {
+      await setTimeSignature({ beatsPerBar, beatUnit });
+    }
+  };
+
+  /**
+   * Handle count-in length change
+   * [EARS: CNT-001] Auto-save count-in bars to project
+   */
+  const handleCountInChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (currentProject) {
+      await setCountInBars(parseInt(e.target.value, 10));
+    }
+  };
+
+  /**
+   * Toggle skipping count-in from mid-song
+   * [EARS: CNT-004] Auto-save skip option to project
+   */
+  const handleSkipCountInToggle = async () => {
+    if (currentProject) {
+      await setSkipCountInFromPosition(!skipCountInFromPosition);
+    }
+  };
+
+  /**
+   * Handle tempo map edits
+   * [EARS: TEMPO-002] Auto-save tempo changes to project
+   */
+  const handleTempoMapChange = async (events: TempoEvent[]) => {
+    if (currentProject) {
+      await setTempoMap(events);
+    }
+  };
+
+  /**
+   * Toggle the audible click track
+   * [EARS: CLICK-001] Click during playback and recording
+   */
+  const handleClickToggle = () => {
+    const enabled = !clickEnabled;
+    setClickEnabled(enabled);
+    getMetronome()?.setClickEnabled(enabled);
+  };
+
+  /**
+   * Handle click volume change
+   * [EARS: CLICK-002] Adjust click loudness
+   */
+  const handleClickVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const volume = parseInt(e.target.value, 10);
+    setClickVolume(volume);
+    getMetronome()?.setClickVolume(volume);
+  };
+
+  /**
+   * Handle click subdivision change
+   * [EARS: CLICK-003] Clicks per beat
+   */
+  const handleSubdivisionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = parseInt(e.target.value, 10);
+    setSubdivision(value);
+    getMetronome()?.setSubdivision(value);
+  };
+
   return (
       <div
         className="metronome-control"
         style={{
           display: 'flex',
+          flexWrap: 'wrap',
           alignItems: 'center',
           gap: '0.5rem',
           padding: '0.5rem',
@@ -200,6 +370,153 @@ export function MetronomeControl() {
         >
           +
         </button>
+
+        {/* Tap Tempo */}
+        {/* [EARS: TAP-001] Tap along to set BPM */}
+        <button
+          onClick={handleTap}
+          aria-label="Tap tempo"
+          style={{
+            padding: '0.3rem 0.5rem',
+            backgroundColor: '#555',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '3px',
+            cursor: 'pointer',
+            fontSize: '0.75rem',
+          }}
+        >
+          Tap
+        </button>
+      </div>
+
+      {/* Tempo Estimation */}
+      {/* [EARS: TAP-002, TAP-003, TAP-004, TAP-005] Propose BPM and first beat from a recorded track */}
+      {tempoDetector && tracks.length > 0 && (
+        <TempoEstimator tracks={tracks} detector={tempoDetector} onApply={handleApplyEstimate} />
+      )}
+
+      {/* Time Signature */}
+      {/* [EARS: CNT-002] Project time signature */}
+      <select
+        value={`${timeSignature.beatsPerBar}/${timeSignature.beatUnit}`}
+        onChange={handleTimeSignatureChange}
+        aria-label="Time signature"
+        style={selectStyle}
+      >
+        {TIME_SIGNATURES.map((signature) => (
+          <option key={signature} value={signature}>
+            {signature}
+          </option>
+        ))}
+      </select>
+
+      {/* Tempo Changes Toggle */}
+      {/* [EARS: TEMPO-002] Show the tempo map editor */}
+      <button
+        onClick={() => setShowTempoMap(!showTempoMap)}
+        aria-label="Tempo changes"
+        aria-expanded={showTempoMap}
+        style={{
+          ...selectStyle,
+          cursor: 'pointer',
+          backgroundColor: tempoEvents.length > 0 ? '#1976d2' : '#444',
+        }}
+      >
+        Tempo map{tempoEvents.length > 0 ? ` (${tempoEvents.length})` : ''}
+      </button>
+
+      {/* Count-in */}
+      {/* [EARS: CNT-001] Count-in length in bars */}
+      <select
+        value={countInBars}
+        onChange={handleCountInChange}
+        aria-label="Count-in"
+        style={selectStyle}
+      >
+        {COUNT_IN_OPTIONS.map((bars) => (
+          <option key={bars} value={bars}>
+            {bars === 0 ? 'No count-in' : `Count-in ${bars} bar${bars > 1 ? 's' : ''}`}
+          </option>
+        ))}
+      </select>
+
+      {/* Skip Count-in Toggle */}
+      {/* [EARS: CNT-004] Go straight in when recording from mid-song */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.3rem' }}>
+        <input
+          type="checkbox"
+          checked={skipCountInFromPosition}
+          onChange={handleSkipCountInToggle}
+          id="skip-count-in-toggle"
+          aria-label="Skip count-in mid-song"
+          style={{
+            width: '16px',
+            height: '16px',
+            cursor: 'pointer',
+          }}
+        />
+        <label
+          htmlFor="skip-count-in-toggle"
+          style={{
+            color: '#fff',
+            fontSize: '0.75rem',
+            cursor: 'pointer',
+          }}
+        >
+          Skip mid-song
+        </label>
+      </div>
+
+      {/* Click Track */}
+      {/* [EARS: CLICK-001, CLICK-002, CLICK-003] Audible click with volume and subdivision */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.3rem', marginLeft: '0.5rem' }}>
+        <input
+          type="checkbox"
+          checked={clickEnabled}
+          onChange={handleClickToggle}
+          id="click-track-toggle"
+          aria-label="Click track"
+          style={{
+            width: '16px',
+            height: '16px',
+            cursor: 'pointer',
+          }}
+        />
+        <label
+          htmlFor="click-track-toggle"
+          style={{
+            color: '#fff',
+            fontSize: '0.75rem',
+            cursor: 'pointer',
+          }}
+        >
+          Click
+        </label>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={clickVolume}
+          onChange={handleClickVolumeChange}
+          aria-label="Click volume"
+          style={{
+            width: '60px',
+            opacity: clickEnabled ? 1 : 0.4,
+          }}
+        />
+        <select
+          value={subdivision}
+          onChange={handleSubdivisionChange}
+          aria-label="Click subdivision"
+          style={selectStyle}
+        >
+          {SUBDIVISIONS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
       </div>
 
       {/* Overdub Toggle */}
@@ -228,6 +545,18 @@ export function MetronomeControl() {
           Overdub
         </label>
       </div>
+
+      {/* Tempo Map Editor */}
+      {/* [EARS: TEMPO-002] Tempo and meter changes after bar 1 */}
+      {showTempoMap && (
+        <div style={{ flexBasis: '100%' }}>
+          <TempoMapEditor
+            events={tempoEvents}
+            defaultBpm={bpm}
+            onChange={handleTempoMapChange}
+          />
+        </div>
+      )}
     </div>
   );
 }
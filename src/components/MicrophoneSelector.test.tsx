@@ -2,6 +2,9 @@ import { describe, test, expect, beforeEach, vi, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { MicrophoneSelector } from './MicrophoneSelector';
 import { Recorder } from '../audio/recorder';
+import { PitchDetector } from '../audio/pitchDetector';
+import { useErrorStore } from '../store/useErrorStore';
+import { useMicrophoneStore } from '../store/useMicrophoneStore';
 
 // Mock AudioContext
 const mockAudioContext = {
@@ -15,6 +18,7 @@ global.AudioContext = vi.fn(function() {
 
 // Mock Recorder class
 vi.mock('../audio/recorder');
+vi.mock('../audio/pitchDetector');
 
 describe('MIC-002: Device enumeration display', () => {
   let mockRecorder: any;
@@ -417,6 +421,153 @@ describe('MicrophoneSelector: Auto-select default device', () => {
   });
 });
 
+describe('TUNER-001, TUNER-002, TUNER-003: Live tuner', () => {
+  let mockRecorder: any;
+  let trackStop: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    trackStop = vi.fn();
+    const mockStream = {
+      getTracks: vi.fn().mockReturnValue([{ stop: trackStop }]),
+    };
+
+    mockRecorder = {
+      enumerateDevices: vi.fn().mockResolvedValue([{ deviceId: 'mic-1', label: 'Built-in Microphone' }]),
+      getSelectedDeviceId: vi.fn().mockReturnValue(null),
+      setSelectedDevice: vi.fn(),
+      requestMicrophoneAccess: vi.fn().mockResolvedValue(mockStream),
+      dispose: vi.fn(),
+    };
+    vi.mocked(Recorder).mockImplementation(function() {
+      return mockRecorder;
+    } as any);
+    vi.mocked(PitchDetector).mockImplementation(function() {
+      return { connect: vi.fn(), getFrequency: vi.fn().mockReturnValue(440), dispose: vi.fn() } as any;
+    });
+    useErrorStore.getState().setError(null);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('shows the sung note while the tuner is on', async () => {
+    render(<MicrophoneSelector />);
+    const tunerButton = await screen.findByRole('button', { name: 'Tuner' });
+    await waitFor(() => expect(tunerButton).not.toBeDisabled());
+
+    fireEvent.click(tunerButton);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('tuner-note')).toHaveTextContent('A4');
+    });
+    expect(mockRecorder.setSelectedDevice).toHaveBeenLastCalledWith('mic-1');
+    expect(tunerButton).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  test('releases the microphone when the tuner is turned off', async () => {
+    render(<MicrophoneSelector />);
+    const tunerButton = await screen.findByRole('button', { name: 'Tuner' });
+    await waitFor(() => expect(tunerButton).not.toBeDisabled());
+
+    fireEvent.click(tunerButton);
+    await waitFor(() => expect(tunerButton).toHaveAttribute('aria-pressed', 'true'));
+    fireEvent.click(tunerButton);
+
+    await waitFor(() => expect(trackStop).toHaveBeenCalled());
+    expect(screen.queryByTestId('tuner-note')).not.toBeInTheDocument();
+  });
+
+  // ⚠️ Negative cases
+  test('shows an error when microphone access is denied', async () => {
+    mockRecorder.requestMicrophoneAccess.mockRejectedValue(new Error('Microphone permission denied'));
+    render(<MicrophoneSelector />);
+    const tunerButton = await screen.findByRole('button', { name: 'Tuner' });
+    await waitFor(() => expect(tunerButton).not.toBeDisabled());
+
+    fireEvent.click(tunerButton);
+
+    await waitFor(() => {
+      expect(useErrorStore.getState().error).toMatch(/permission denied/i);
+    });
+    expect(tunerButton).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  // 🔥 Edge cases
+  test('stops the tuner when another microphone is selected', async () => {
+    mockRecorder.enumerateDevices.mockResolvedValue([
+      { deviceId: 'mic-1', label: 'Built-in Microphone' },
+      { deviceId: 'mic-2', label: 'USB Microphone' },
+    ]);
+    render(<MicrophoneSelector />);
+    const tunerButton = await screen.findByRole('button', { name: 'Tuner' });
+    await waitFor(() => expect(tunerButton).not.toBeDisabled());
+    fireEvent.click(tunerButton);
+    await waitFor(() => expect(tunerButton).toHaveAttribute('aria-pressed', 'true'));
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Microphone' }), { target: { value: 'mic-1' } });
+
+    await waitFor(() => expect(trackStop).toHaveBeenCalled());
+    expect(tunerButton).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  test('stops the tuner when the devices are refreshed', async () => {
+    render(<MicrophoneSelector />);
+    const tunerButton = await screen.findByRole('button', { name: 'Tuner' });
+    await waitFor(() => expect(tunerButton).not.toBeDisabled());
+    fireEvent.click(tunerButton);
+    await waitFor(() => expect(tunerButton).toHaveAttribute('aria-pressed', 'true'));
+
+    fireEvent.click(screen.getByRole('button', { name: /refresh/i }));
+
+    await waitFor(() => expect(tunerButton).toHaveAttribute('aria-pressed', 'false'));
+    expect(screen.queryByTestId('tuner-note')).not.toBeInTheDocument();
+  });
+});
+
+describe('LAT-001, LAT-005: Calibration of the default microphone', () => {
+  const { loadCalibrations } = useMicrophoneStore.getState();
+
+  beforeEach(() => {
+    const mockRecorder = {
+      enumerateDevices: vi.fn().mockResolvedValue([]),
+      getSelectedDeviceId: vi.fn().mockReturnValue(null),
+      setSelectedDevice: vi.fn(),
+      requestMicrophoneAccess: vi.fn(),
+      dispose: vi.fn(),
+    };
+    vi.mocked(Recorder).mockImplementation(function() {
+      return mockRecorder as unknown as Recorder;
+    });
+    useMicrophoneStore.setState({
+      selectedDeviceId: null,
+      latencyByDevice: { default: 0.042 },
+      loadCalibrations: vi.fn().mockResolvedValue(undefined),
+    });
+  });
+
+  afterEach(() => {
+    useMicrophoneStore.setState({ selectedDeviceId: null, latencyByDevice: {}, loadCalibrations });
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('shows the default microphone latency when no device is selected', async () => {
+    render(<MicrophoneSelector />);
+
+    expect(await screen.findByTestId('microphone-latency')).toHaveTextContent('Latency: 42 ms');
+  });
+
+  // 🔥 Edge cases
+  test('can calibrate without a selected device', async () => {
+    render(<MicrophoneSelector />);
+    const calibrateButton = await screen.findByRole('button', { name: 'Calibrate latency' });
+
+    await waitFor(() => expect(calibrateButton).not.toBeDisabled());
+  });
+});
+
 describe('MicrophoneSelector: Component lifecycle', () => {
   let mockRecorder: any;
 
@@ -1,8 +1,14 @@
-// [EARS: MIC-002, MIC-003] Microphone device selector with enumeration and selection
+// [EARS: MIC-002, MIC-003, LAT-005, TUNER-001, TUNER-003] Microphone device selector with enumeration, selection,
+// latency calibration and a live pitch tuner
 
 import { useState, useEffect, useRef } from 'react';
 import { Recorder } from '../audio/recorder';
-import { useMicrophoneStore } from '../store/useMicrophoneStore';
+import { useMicrophoneStore, getCalibrationKey, selectDeviceLatency } from '../store/useMicrophoneStore';
+import { useProjectStore } from '../store/useProjectStore';
+import { useErrorStore } from '../store/useErrorStore';
+import { usePitchDetector } from '../hooks/usePitchDetector';
+import { LatencyCalibration } from './LatencyCalibration';
+import { PitchTuner } from './PitchTuner';
 
 interface MicrophoneDevice {
   deviceId: string;
@@ -17,6 +23,16 @@ export function MicrophoneSelector() {
   // Global microphone selection state (shared with RecordButton)
   const selectedDeviceId = useMicrophoneStore((state) => state.selectedDeviceId);
   const setSelectedDeviceId = useMicrophoneStore((state) => state.setSelectedDeviceId);
+  const selectedLatency = useMicrophoneStore(selectDeviceLatency);
+  const loadCalibrations = useMicrophoneStore((state) => state.loadCalibrations);
+
+  const [showCalibration, setShowCalibration] = useState(false);
+
+  // [EARS: TUNER-001, TUNER-003] Live tuner on the selected microphone
+  const [tuner, setTuner] = useState<{ stream: MediaStream; audioContext: AudioContext } | null>(null);
+  const tunerFrequency = usePitchDetector(tuner?.stream ?? null, tuner?.audioContext ?? null);
+  const tuning = useProjectStore((state) => state.currentProject?.tuning);
+  const setGlobalError = useErrorStore((state) => state.setError);
 
   const recorderRef = useRef<Recorder | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -32,6 +48,11 @@ export function MicrophoneSelector() {
     // Initial device enumeration
     enumerateDevices();
 
+    // [EARS: LAT-005] Restore stored latency calibrations
+    loadCalibrations().catch((err) => {
+      console.error('Failed to load latency calibrations:', err);
+    });
+
     // Cleanup on unmount
     return () => {
       if (recorderRef.current) {
@@ -43,6 +64,16 @@ export function MicrophoneSelector() {
     };
   }, []);
 
+  /**
+   * Release the tuner's microphone stream when the tuner stops or the selector unmounts
+   * [EARS: TUNER-003]
+   */
+  useEffect(() => {
+    return () => {
+      tuner?.stream.getTracks().forEach((track) => track.stop());
+    };
+  }, [tuner]);
+
   /**
    * Enumerate microphone devices
    * [EARS: MIC-002] List all available microphones
@@ -114,6 +145,9 @@ export function MicrophoneSelector() {
 
     if (!recorderRef.current) return;
 
+    // [EARS: TUNER-003] The tuner listens to one device; switching stops it
+    setTuner(null);
+
     if (deviceId === '') {
       // Clear selection (update both local recorder and global store)
       recorderRef.current.setSelectedDevice(null);
@@ -133,6 +167,8 @@ export function MicrophoneSelector() {
   const handleRefresh = async () => {
     if (!recorderRef.current) return;
 
+    // [EARS: TUNER-003] Requesting a stream stops the recorder's previous one, the tuner's included
+    setTuner(null);
     setIsLoading(true);
     setError(null);
 
@@ -158,6 +194,47 @@ export function MicrophoneSelector() {
     }
   };
 
+  /**
+   * Open a stream on the selected device for calibration
+   * [EARS: LAT-001] Calibrate the currently selected microphone
+   */
+  const requestCalibrationStream = async (): Promise<MediaStream> => {
+    if (!recorderRef.current) {
+      throw new Error('Recorder not available');
+    }
+    // [EARS: TUNER-003] Calibration takes over the microphone from the tuner
+    setTuner(null);
+    recorderRef.current.setSelectedDevice(selectedDeviceId);
+    return await recorderRef.current.requestMicrophoneAccess();
+  };
+
+  /**
+   * Start or stop the tuner
+   * [EARS: TUNER-001] Listen to the selected microphone
+   * [EARS: TUNER-003] Stopping releases the microphone
+   */
+  const handleTunerClick = async () => {
+    if (tuner) {
+      setTuner(null);
+      return;
+    }
+    if (!recorderRef.current || !audioContextRef.current) return;
+
+    const audioContext = audioContextRef.current;
+    try {
+      recorderRef.current.setSelectedDevice(selectedDeviceId);
+      const stream = await recorderRef.current.requestMicrophoneAccess();
+      if (audioContext.state === 'suspended') {
+        await audioContext.resume();
+      }
+      setTuner({ stream, audioContext });
+    } catch (err) {
+      // [EARS: ERR-001] Display error on permission denied
+      console.error('Failed to start tuner:', err);
+      setGlobalError('Microphone permission denied. Please allow access to use the tuner.');
+    }
+  };
+
   return (
     <div
       className="microphone-selector"
@@ -234,6 +311,70 @@ export function MicrophoneSelector() {
       >
         Refresh
       </button>
+
+      {/* Latency Display */}
+      {/* [EARS: LAT-005] Show stored latency for the selected microphone */}
+      <span
+        data-testid="microphone-latency"
+        style={{ color: '#888', fontSize: '0.75rem', whiteSpace: 'nowrap' }}
+      >
+        {selectedLatency !== undefined
+          ? `Latency: ${Math.round(selectedLatency * 1000)} ms`
+          : 'Not calibrated'}
+      </span>
+
+      {/* Calibrate Button */}
+      {/* [EARS: LAT-001] Open latency calibration wizard */}
+      <button
+        onClick={() => setShowCalibration(true)}
+        disabled={isLoading}
+        aria-label="Calibrate latency"
+        style={{
+          padding: '0.5rem 1rem',
+          backgroundColor: isLoading ? '#666' : '#555',
+          color: '#fff',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: isLoading ? 'not-allowed' : 'pointer',
+          fontWeight: 'bold',
+          fontSize: '0.9rem',
+        }}
+      >
+        Calibrate
+      </button>
+
+      {/* Tuner Button */}
+      {/* [EARS: TUNER-001, TUNER-003] Toggle the live tuner */}
+      <button
+        onClick={handleTunerClick}
+        disabled={!selectedDeviceId || isLoading}
+        aria-label="Tuner"
+        aria-pressed={tuner !== null}
+        style={{
+          padding: '0.5rem 1rem',
+          backgroundColor: !selectedDeviceId || isLoading ? '#666' : tuner ? '#4caf50' : '#555',
+          color: tuner ? '#000' : '#fff',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: !selectedDeviceId || isLoading ? 'not-allowed' : 'pointer',
+          fontWeight: 'bold',
+          fontSize: '0.9rem',
+        }}
+      >
+        Tuner
+      </button>
+
+      {/* [EARS: TUNER-002] Note, cents and needle */}
+      {tuner && <PitchTuner frequency={tunerFrequency} tuning={tuning} />}
+
+      {showCalibration && audioContextRef.current && (
+        <LatencyCalibration
+          deviceId={getCalibrationKey(selectedDeviceId)}
+          audioContext={audioContextRef.current}
+          requestStream={requestCalibrationStream}
+          onClose={() => setShowCalibration(false)}
+        />
+      )}
     </div>
   );
 }
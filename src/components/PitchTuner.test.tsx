@@ -0,0 +1,40 @@
+import { describe, test, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { PitchTuner } from './PitchTuner';
+
+describe('TUNER-002: Tuner display', () => {
+  // ✅ Happy path
+  test('shows the nearest note and cents deviation', () => {
+    render(<PitchTuner frequency={440 * Math.pow(2, 12 / 1200)} />);
+
+    expect(screen.getByTestId('tuner-note')).toHaveTextContent('A4');
+    expect(screen.getByTestId('tuner-cents')).toHaveTextContent('+12¢');
+    expect(screen.getByRole('meter', { name: 'Pitch deviation' })).toHaveAttribute('aria-valuenow', '12');
+    expect(screen.getByTestId('tuner-needle')).toHaveStyle({ left: '62%' });
+  });
+
+  test('reads against the project tuning', () => {
+    render(<PitchTuner frequency={442} tuning={{ referenceFrequency: 442, temperament: 'equal', key: 0 }} />);
+
+    expect(screen.getByTestId('tuner-note')).toHaveTextContent('A4');
+    expect(screen.getByTestId('tuner-cents')).toHaveTextContent('0¢');
+  });
+
+  // ⚠️ Negative cases
+  test('shows no note or needle without a pitch', () => {
+    render(<PitchTuner frequency={null} />);
+
+    expect(screen.getByTestId('tuner-note')).toHaveTextContent('—');
+    expect(screen.getByTestId('tuner-cents')).toHaveTextContent('');
+    expect(screen.queryByTestId('tuner-needle')).not.toBeInTheDocument();
+  });
+
+  // 🔥 Edge cases
+  test('shows flat deviations with a minus sign', () => {
+    render(<PitchTuner frequency={261.63 * Math.pow(2, -25 / 1200)} />);
+
+    expect(screen.getByTestId('tuner-note')).toHaveTextContent('C4');
+    expect(screen.getByTestId('tuner-cents')).toHaveTextContent('−25¢');
+    expect(screen.getByTestId('tuner-needle')).toHaveStyle({ left: '25%' });
+  });
+});
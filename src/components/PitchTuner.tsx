@@ -0,0 +1,74 @@
+// [EARS: TUNER-002] Tuner display: note name, cents deviation and needle
+
+import { nearestPitch, formatPitch, formatCents, DEFAULT_TUNING } from '../audio/pitch';
+import type { Tuning } from '../store/types';
+
+const NEEDLE_RANGE = 50; // Cents shown either side of the note
+const IN_TUNE_CENTS = 10; // Needle turns green within this many cents
+
+export interface PitchTunerProps {
+  frequency: number | null; // Detected input pitch in Hz (null = nothing sung)
+  tuning?: Tuning; // [EARS: TUNE-001, TUNE-002] Project reference pitch and temperament
+}
+
+/**
+ * PitchTuner shows how far the sung pitch is from the nearest note
+ * [EARS: TUNER-002]
+ */
+export function PitchTuner({ frequency, tuning = DEFAULT_TUNING }: PitchTunerProps) {
+  const reading = frequency !== null ? nearestPitch(frequency, tuning) : null;
+  const cents = reading ? Math.max(-NEEDLE_RANGE, Math.min(NEEDLE_RANGE, Math.round(reading.cents))) : 0;
+  const inTune = reading !== null && Math.abs(reading.cents) <= IN_TUNE_CENTS;
+
+  return (
+    <div
+      className="pitch-tuner"
+      style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontSize: '0.75rem', color: '#ccc' }}
+    >
+      <span
+        data-testid="tuner-note"
+        style={{ minWidth: '2.5em', color: '#fff', fontWeight: 'bold', fontSize: '0.9rem', textAlign: 'right' }}
+      >
+        {reading ? formatPitch(reading.pitch) : '—'}
+      </span>
+
+      {/* Needle: centre is in tune, left is flat, right is sharp */}
+      <div
+        role="meter"
+        aria-label="Pitch deviation"
+        aria-valuemin={-NEEDLE_RANGE}
+        aria-valuemax={NEEDLE_RANGE}
+        aria-valuenow={cents}
+        style={{
+          position: 'relative',
+          width: '100px',
+          height: '14px',
+          backgroundColor: '#2c2c2c',
+          border: '1px solid #444',
+          borderRadius: '3px',
+        }}
+      >
+        <div style={{ position: 'absolute', left: '50%', top: 0, width: '1px', height: '100%', backgroundColor: '#666' }} />
+        {reading && (
+          <div
+            data-testid="tuner-needle"
+            style={{
+              position: 'absolute',
+              left: `${50 + (cents / NEEDLE_RANGE) * 50}%`,
+              top: 0,
+              width: '2px',
+              height: '100%',
+              marginLeft: '-1px',
+              backgroundColor: inTune ? '#4caf50' : '#ff9800',
+              transition: 'left 0.05s ease-out',
+            }}
+          />
+        )}
+      </div>
+
+      <span data-testid="tuner-cents" style={{ minWidth: '3em', color: inTune ? '#4caf50' : '#ccc' }}>
+        {reading ? formatCents(reading.cents) : ''}
+      </span>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { render, screen, fireEvent, act } from '@testing-library/react';
 import { PlaybackControls } from './PlaybackControls';
 import { Mixer } from '../audio/mixer';
 import { MetronomeProvider } from '../contexts/MetronomeContext';
+import { TempoMap } from '../audio/tempoMap';
 
 // Mock AudioContext
 const mockAudioContext = {
@@ -28,6 +29,7 @@ const mockMixer = {
   seek: vi.fn(),
   isPlaying: vi.fn(() => mockIsPlaying),
   loadTracks: vi.fn(),
+  setPracticeMix: vi.fn(),
 };
 
 vi.mock('../contexts/MixerContext', () => ({
@@ -328,6 +330,47 @@ describe('PLAY-005: Display elapsed time and total duration', () => {
   });
 });
 
+describe('BAR-001, TEMPO-005: Bar:beat:tick readout', () => {
+  beforeEach(() => {
+    vi.mocked(Mixer).mockImplementation(function() {
+      return mockMixer as any;
+    } as any);
+  });
+
+  // ✅ Happy path
+  test('shows bar 1 beat 1 at the start', () => {
+    renderWithProvider(<PlaybackControls totalDuration={60} />);
+
+    expect(screen.getByTestId('bar-beat-tick')).toHaveTextContent('1:1:000');
+  });
+
+  test('shows the musical position of the playhead', () => {
+    // 90 BPM in 3/4: 2s per bar, so 33.5s is bar 17 beat 3, a quarter beat in
+    renderWithProvider(
+      <PlaybackControls
+        totalDuration={60}
+        currentTime={33.5}
+        tempoMap={new TempoMap(90, { beatsPerBar: 3, beatUnit: 4 })}
+      />
+    );
+
+    expect(screen.getByTestId('bar-beat-tick')).toHaveTextContent('17:3:120');
+  });
+
+  test('follows tempo changes', () => {
+    // Bar 1 at 120 BPM (2s), then 60 BPM: 3s is bar 2 beat 2
+    renderWithProvider(
+      <PlaybackControls
+        totalDuration={60}
+        currentTime={3}
+        tempoMap={new TempoMap(120, { beatsPerBar: 4, beatUnit: 4 }, [{ bar: 2, bpm: 60 }])}
+      />
+    );
+
+    expect(screen.getByTestId('bar-beat-tick')).toHaveTextContent('2:2:000');
+  });
+});
+
 describe('PLAY-006, PLAY-007, PLAY-008: Mixer integration', () => {
   beforeEach(() => {
     vi.mocked(Mixer).mockImplementation(function() {
@@ -367,6 +410,44 @@ describe('PLAY-006, PLAY-007, PLAY-008: Mixer integration', () => {
   });
 });
 
+describe('PRAC-001, PRAC-002, PRAC-003: Practice mode', () => {
+  // ✅ Happy path
+  test('starts on the full mix', () => {
+    renderWithProvider(<PlaybackControls />);
+
+    expect(screen.getByRole('combobox', { name: 'Practice mode' })).toHaveValue('');
+    expect(screen.getByRole('combobox', { name: 'Practice part' })).toBeDisabled();
+    expect(mockMixer.setPracticeMix).toHaveBeenLastCalledWith(null);
+  });
+
+  test('features the chosen part', () => {
+    renderWithProvider(<PlaybackControls />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Practice mode' }), { target: { value: 'featured' } });
+    fireEvent.change(screen.getByRole('combobox', { name: 'Practice part' }), { target: { value: 'T' } });
+
+    expect(mockMixer.setPracticeMix).toHaveBeenLastCalledWith({ mode: 'featured', part: 'T' });
+  });
+
+  test('leaves the chosen part out', () => {
+    renderWithProvider(<PlaybackControls />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Practice mode' }), { target: { value: 'minus-one' } });
+
+    expect(mockMixer.setPracticeMix).toHaveBeenLastCalledWith({ mode: 'minus-one', part: 'S' });
+  });
+
+  // 🔥 Edge cases
+  test('returns the shared mixer to the full mix on unmount', () => {
+    const { unmount } = renderWithProvider(<PlaybackControls />);
+    fireEvent.change(screen.getByRole('combobox', { name: 'Practice mode' }), { target: { value: 'featured' } });
+
+    unmount();
+
+    expect(mockMixer.setPracticeMix).toHaveBeenLastCalledWith(null);
+  });
+});
+
 describe('PlaybackControls: Component lifecycle', () => {
   beforeEach(() => {
     vi.mocked(Mixer).mockImplementation(function() {
@@ -1,10 +1,14 @@
-// [EARS: PLAY-001, PLAY-002, PLAY-003, PLAY-004, PLAY-005, PLAY-006, PLAY-007, PLAY-008]
+// [EARS: PLAY-001, PLAY-002, PLAY-003, PLAY-004, PLAY-005, PLAY-006, PLAY-007, PLAY-008, POS-003, PUNCH-005, BAR-001, TEMPO-005, PAN-002, BUS-004, PRAC-001, PRAC-002, PRAC-003]
 // PlaybackControls component integrates Mixer with transport UI
 
 import React, { useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
-import { Mixer } from '../audio/mixer';
+import { Mixer, type BusSettings } from '../audio/mixer';
 import { useMetronome } from '../contexts/MetronomeContext';
 import { useMixer } from '../contexts/MixerContext';
+import { formatBarBeatTick } from '../audio/musicalTime';
+import { TempoMap } from '../audio/tempoMap';
+import { PRACTICE_MODES, type PracticeMode } from '../audio/practiceMix';
+import type { VoicePartType } from '../store/types';
 
 export interface PlaybackTrack {
   id: string;
@@ -12,6 +16,9 @@ export interface PlaybackTrack {
   volume: number;
   muted: boolean;
   soloed: boolean;
+  startOffset?: number; // [EARS: POS-003] Seconds from timeline start
+  pan?: number; // [EARS: PAN-002] -1 (left) to 1 (right)
+  bus?: BusSettings; // [EARS: BUS-004] Voice part bus (none = straight to the master)
 }
 
 export interface PlaybackControlsProps {
@@ -31,6 +38,11 @@ export interface PlaybackControlsProps {
    * [EARS: SEEK-001, SEEK-002, SEEK-003]
    */
   onSeek?: (time: number) => void;
+  /**
+   * Project tempo and meter for the bar:beat:tick readout
+   * [EARS: BAR-001, TEMPO-005]
+   */
+  tempoMap?: TempoMap;
 }
 
 /**
@@ -42,6 +54,24 @@ export interface PlaybackControlsHandle {
 
 type PlayState = 'stopped' | 'playing' | 'paused';
 
+const VOICE_PARTS: { type: VoicePartType; label: string }[] = [
+  { type: 'S', label: 'Soprano' },
+  { type: 'A', label: 'Alto' },
+  { type: 'T', label: 'Tenor' },
+  { type: 'B', label: 'Bass' },
+];
+
+const selectStyle = {
+  padding: '0.2rem',
+  backgroundColor: '#444',
+  color: '#fff',
+  border: '1px solid #555',
+  borderRadius: '3px',
+  fontSize: '0.75rem',
+};
+
+const DEFAULT_TEMPO_MAP = new TempoMap(120);
+
 /**
  * Format seconds into M:SS format
  */
@@ -62,9 +92,13 @@ export const PlaybackControls = forwardRef<PlaybackControlsHandle, PlaybackContr
     currentTime: externalCurrentTime,
     onCurrentTimeChange,
     onSeek,
+    tempoMap = DEFAULT_TEMPO_MAP,
   }, ref) {
   const [playState, setPlayState] = useState<PlayState>('stopped');
   const [internalCurrentTime, setInternalCurrentTime] = useState(0);
+  // [EARS: PRAC-001, PRAC-002] Practice mode is not saved with the project
+  const [practiceMode, setPracticeMode] = useState<PracticeMode | null>(null);
+  const [practicePart, setPracticePart] = useState<VoicePartType>('S');
 
   // Use external currentTime if provided, otherwise use internal state
   const currentTime = externalCurrentTime !== undefined ? externalCurrentTime : internalCurrentTime;
@@ -78,7 +112,7 @@ export const PlaybackControls = forwardRef<PlaybackControlsHandle, PlaybackContr
   const audioContext = getAudioContext();
 
   const intervalRef = useRef<number | null>(null);
-  const loadedTrackIdsRef = useRef<Set<string>>(new Set());
+  const loadedTrackBlobsRef = useRef<Map<string, Blob>>(new Map()); // Track ID -> loaded audio
   const lastInternalTimeRef = useRef<number>(0);
 
   /**
@@ -90,13 +124,14 @@ export const PlaybackControls = forwardRef<PlaybackControlsHandle, PlaybackContr
         clearInterval(intervalRef.current);
       }
       // Note: Don't dispose mixer or close audioContext - they're shared
-      loadedTrackIdsRef.current.clear();
+      loadedTrackBlobsRef.current.clear();
     };
   }, []);
 
   /**
    * Load tracks into mixer when tracks change
    * [EARS: PLAY-006, PLAY-007, PLAY-008] Mute, solo, and multi-track playback
+   * [EARS: PUNCH-005] Reload a track when its audio is replaced
    */
   useEffect(() => {
     const loadTracks = async () => {
@@ -111,25 +146,35 @@ export const PlaybackControls = forwardRef<PlaybackControlsHandle, PlaybackContr
       const currentTrackIds = new Set(tracks.map(t => t.id));
 
       // Unload tracks that are no longer in the list
-      const tracksToUnload = Array.from(loadedTrackIdsRef.current).filter(id => !currentTrackIds.has(id));
+      const tracksToUnload = Array.from(loadedTrackBlobsRef.current.keys()).filter(id => !currentTrackIds.has(id));
       for (const trackId of tracksToUnload) {
         mixer.unloadTrack(trackId);
-        loadedTrackIdsRef.current.delete(trackId);
+        loadedTrackBlobsRef.current.delete(trackId);
       }
 
       // Load new tracks and update state for all tracks
       for (const track of tracks) {
         try {
-          // Only load if not already loaded (to avoid re-decoding audio)
-          if (!loadedTrackIdsRef.current.has(track.id)) {
+          // Only load if new or its audio changed (to avoid re-decoding audio)
+          if (loadedTrackBlobsRef.current.get(track.id) !== track.audioBlob) {
             await mixer.loadTrack(track.id, track.audioBlob);
-            loadedTrackIdsRef.current.add(track.id);
+            loadedTrackBlobsRef.current.set(track.id, track.audioBlob);
           }
 
-          // Always update volume, mute, and solo state (cheap operations)
+          // Always update volume, mute, solo, position and pan (cheap operations)
           mixer.setVolume(track.id, track.volume);
           mixer.setMuted(track.id, track.muted);
           mixer.setSoloed(track.id, track.soloed);
+          mixer.setStartOffset(track.id, track.startOffset ?? 0);
+          mixer.setPan(track.id, track.pan ?? 0);
+
+          // [EARS: BUS-004] Route through the voice part bus and apply its fader, mute and solo
+          if (track.bus) {
+            mixer.setBusVolume(track.bus.id, track.bus.volume);
+            mixer.setBusMuted(track.bus.id, track.bus.muted);
+            mixer.setBusSoloed(track.bus.id, track.bus.soloed);
+          }
+          mixer.setTrackBus(track.id, track.bus?.id ?? null);
         } catch (error) {
           console.error(`Failed to load track ${track.id}:`, error);
         }
@@ -141,6 +186,19 @@ export const PlaybackControls = forwardRef<PlaybackControlsHandle, PlaybackContr
     loadTracks();
   }, [tracks]);
 
+  /**
+   * Apply the practice mix on top of the saved track settings
+   * [EARS: PRAC-003] Back to the full mix when the controls go away (the mixer is shared)
+   */
+  useEffect(() => {
+    if (!mixer) return;
+
+    mixer.setPracticeMix(practiceMode ? { mode: practiceMode, part: practicePart } : null);
+    return () => {
+      mixer.setPracticeMix(null);
+    };
+  }, [mixer, practiceMode, practicePart]);
+
   /**
    * Handle external seek events
    * [EARS: SEEK-001, SEEK-002, SEEK-003] Seek mixer when currentTime changes externally
@@ -377,6 +435,19 @@ export const PlaybackControls = forwardRef<PlaybackControlsHandle, PlaybackContr
           {formatTime(currentTime)} / {formatTime(totalDuration)}
         </div>
 
+        {/* [EARS: BAR-001] Musical position of the playhead */}
+        <div
+          data-testid="bar-beat-tick"
+          title="Bar:Beat:Tick"
+          style={{
+            fontSize: '0.8rem',
+            color: '#aaa',
+            fontFamily: 'monospace',
+          }}
+        >
+          {formatBarBeatTick(tempoMap.secondsToBarBeatTick(currentTime))}
+        </div>
+
         {/* Loading Indicator */}
         {isLoading && (
           <div
@@ -390,6 +461,37 @@ export const PlaybackControls = forwardRef<PlaybackControlsHandle, PlaybackContr
           </div>
         )}
       </div>
+
+      {/* [EARS: PRAC-001, PRAC-002] Practice mix: my part loud / my part out */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.3rem', fontSize: '0.75rem', color: '#ccc' }}>
+        <span>Practice</span>
+        <select
+          value={practiceMode ?? ''}
+          onChange={(e) => setPracticeMode((e.target.value || null) as PracticeMode | null)}
+          aria-label="Practice mode"
+          style={selectStyle}
+        >
+          <option value="">Full mix</option>
+          {PRACTICE_MODES.map((mode) => (
+            <option key={mode.id} value={mode.id}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={practicePart}
+          onChange={(e) => setPracticePart(e.target.value as VoicePartType)}
+          aria-label="Practice part"
+          disabled={!practiceMode}
+          style={{ ...selectStyle, opacity: practiceMode ? 1 : 0.5 }}
+        >
+          {VOICE_PARTS.map(({ type, label }) => (
+            <option key={type} value={type}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
     </div>
   );
 });
@@ -6,7 +6,10 @@ import { Metronome } from '../audio/metronome';
 import { VUMeter } from '../audio/vuMeter';
 import { Visualizer } from '../audio/visualizer';
 import { Mixer } from '../audio/mixer';
+import { TempoMap } from '../audio/tempoMap';
+import { PitchDetector } from '../audio/pitchDetector';
 import { MetronomeProvider } from '../contexts/MetronomeContext';
+import { useMicrophoneStore } from '../store/useMicrophoneStore';
 
 // Mock AudioContext
 const mockAudioContext = {
@@ -32,6 +35,9 @@ const mockMixer = {
   isPlaying: vi.fn(() => mockIsPlaying),
   loadTracks: vi.fn(),
   loadTrack: vi.fn().mockResolvedValue(undefined),
+  setMuted: vi.fn(),
+  isMuted: vi.fn().mockReturnValue(false),
+  setLoop: vi.fn(),
 };
 
 vi.mock('../contexts/MixerContext', () => ({
@@ -49,6 +55,7 @@ vi.mock('../audio/metronome');
 vi.mock('../audio/vuMeter');
 vi.mock('../audio/visualizer');
 vi.mock('../audio/mixer');
+vi.mock('../audio/pitchDetector');
 
 // Helper function to render with MetronomeProvider
 const renderWithProvider = (component: React.ReactElement) => {
@@ -64,7 +71,7 @@ beforeEach(() => {
   vi.clearAllMocks();
 });
 
-describe('REC-001: Request microphone permission on Add Track', () => {
+describe('REC-001, TONE-009: Request microphone permission on Add Track', () => {
   let mockRecorder: any;
   let mockMetronome: any;
   let mockVUMeter: any;
@@ -87,6 +94,9 @@ describe('REC-001: Request microphone permission on Add Track', () => {
     mockMetronome = {
       setBpm: vi.fn(),
       getBpm: vi.fn().mockReturnValue(120),
+      setBeatsPerBar: vi.fn(),
+      setClickEnabled: vi.fn(),
+      isClickEnabled: vi.fn().mockReturnValue(false),
       start: vi.fn(),
       stop: vi.fn(),
       isPlaying: vi.fn().mockReturnValue(false),
@@ -134,6 +144,20 @@ describe('REC-001: Request microphone permission on Add Track', () => {
     });
   });
 
+  test('reports that recording was started for its voice part', async () => {
+    const handleRecordStart = vi.fn();
+    renderWithProvider(
+      <RecordButton voicePartId="B" onRecordingComplete={vi.fn()} onRecordStart={handleRecordStart} />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /record|add track/i }));
+
+    expect(handleRecordStart).toHaveBeenCalledTimes(1);
+    await waitFor(() => {
+      expect(mockRecorder.requestMicrophoneAccess).toHaveBeenCalled();
+    });
+  });
+
   test('displays error when permission denied', async () => {
     mockRecorder.requestMicrophoneAccess.mockRejectedValue(new Error('Permission denied'));
 
@@ -166,7 +190,7 @@ describe('REC-001: Request microphone permission on Add Track', () => {
   });
 });
 
-describe('REC-002: Display countdown (5-4-3-2-1) synced to metronome', () => {
+describe('REC-002: Display countdown (4-3-2-1) synced to metronome', () => {
   let mockRecorder: any;
   let mockMetronome: any;
 
@@ -188,6 +212,9 @@ describe('REC-002: Display countdown (5-4-3-2-1) synced to metronome', () => {
     mockMetronome = {
       setBpm: vi.fn(),
       getBpm: vi.fn().mockReturnValue(120),
+      setBeatsPerBar: vi.fn(),
+      setClickEnabled: vi.fn(),
+      isClickEnabled: vi.fn().mockReturnValue(false),
       start: vi.fn(),
       stop: vi.fn(),
       isPlaying: vi.fn().mockReturnValue(false),
@@ -221,11 +248,11 @@ describe('REC-002: Display countdown (5-4-3-2-1) synced to metronome', () => {
 
     expect(mockRecorder.requestMicrophoneAccess).toHaveBeenCalled();
 
-    // Should show countdown value 5
-    expect(screen.getByText('5')).toBeInTheDocument();
+    // Default count-in is one bar of 4/4
+    expect(screen.getByText('4')).toBeInTheDocument();
   });
 
-  test('countdown shows 5, 4, 3, 2, 1 in sequence synced to BPM', async () => {
+  test('countdown shows 4, 3, 2, 1 in sequence synced to BPM', async () => {
     renderWithProvider(<RecordButton voicePartId="soprano" bpm={120} onRecordingComplete={vi.fn()} />);
 
     const button = screen.getByRole('button', { name: /record|add track/i });
@@ -235,15 +262,9 @@ describe('REC-002: Display countdown (5-4-3-2-1) synced to metronome', () => {
       await Promise.resolve();
     });
 
-    expect(screen.getByText('5')).toBeInTheDocument();
-
-    // Advance 1 beat (500ms at 120 BPM)
-    await act(async () => {
-      vi.advanceTimersByTime(500);
-    });
     expect(screen.getByText('4')).toBeInTheDocument();
 
-    // Advance 1 beat
+    // Advance 1 beat (500ms at 120 BPM)
     await act(async () => {
       vi.advanceTimersByTime(500);
     });
@@ -274,13 +295,180 @@ describe('REC-002: Display countdown (5-4-3-2-1) synced to metronome', () => {
 
     expect(mockRecorder.requestMicrophoneAccess).toHaveBeenCalled();
 
-    // Wait for countdown (5 beats at 120 BPM = 5 * 500ms = 2500ms)
+    // Wait for countdown (4 beats at 120 BPM = 4 * 500ms = 2000ms)
+    await act(async () => {
+      vi.advanceTimersByTime(2000);
+      await Promise.resolve();
+    });
+
+    expect(mockRecorder.startRecording).toHaveBeenCalled();
+  });
+});
+
+describe('CNT-001, CNT-003, CNT-004: Configurable count-in', () => {
+  let mockRecorder: any;
+  let mockMetronome: any;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    mockRecorder = {
+      setSelectedDevice: vi.fn(),
+      requestMicrophoneAccess: vi.fn().mockResolvedValue({} as MediaStream),
+      startRecording: vi.fn().mockResolvedValue(undefined),
+      stopRecording: vi.fn(),
+      dispose: vi.fn(),
+    };
+
+    mockMetronome = {
+      setBpm: vi.fn(),
+      getBpm: vi.fn().mockReturnValue(120),
+      setBeatsPerBar: vi.fn(),
+      setClickEnabled: vi.fn(),
+      isClickEnabled: vi.fn().mockReturnValue(false),
+      start: vi.fn(),
+      stop: vi.fn(),
+      dispose: vi.fn(),
+    };
+
+    vi.mocked(Recorder).mockImplementation(function() {
+      return mockRecorder;
+    } as any);
+    vi.mocked(Metronome).mockImplementation(function() {
+      return mockMetronome;
+    } as any);
+  });
+
+  afterEach(() => {
+    mockMixer.getCurrentTime.mockReturnValue(0);
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  const clickRecord = async () => {
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Record track' }));
+      await Promise.resolve();
+    });
+  };
+
+  // ✅ Happy path
+  test('counts in the given number of bars of the time signature', async () => {
+    renderWithProvider(
+      <RecordButton voicePartId="alto" bpm={120} countInBars={2} beatsPerBar={3} onRecordingComplete={vi.fn()} />
+    );
+
+    await clickRecord();
+    expect(screen.getByText('6')).toBeInTheDocument();
+
+    // 6 beats at 120 BPM
     await act(async () => {
       vi.advanceTimersByTime(2500);
+    });
+    expect(mockRecorder.startRecording).not.toHaveBeenCalled();
+
+    await act(async () => {
+      vi.advanceTimersByTime(500);
+      await Promise.resolve();
+    });
+    expect(mockRecorder.startRecording).toHaveBeenCalled();
+  });
+
+  test('clicks audibly during the count-in only', async () => {
+    renderWithProvider(
+      <RecordButton voicePartId="alto" bpm={120} beatsPerBar={3} onRecordingComplete={vi.fn()} />
+    );
+
+    await clickRecord();
+    expect(mockMetronome.setBeatsPerBar).toHaveBeenCalledWith(3);
+    expect(mockMetronome.setClickEnabled).toHaveBeenLastCalledWith(true);
+    expect(mockMetronome.start).toHaveBeenCalled();
+
+    await act(async () => {
+      vi.advanceTimersByTime(1500);
+      await Promise.resolve();
+    });
+    expect(mockMetronome.setClickEnabled).toHaveBeenLastCalledWith(false);
+  });
+
+  test('leaves the click track on after the count-in', async () => {
+    mockMetronome.isClickEnabled.mockReturnValue(true);
+    renderWithProvider(
+      <RecordButton voicePartId="alto" bpm={120} onRecordingComplete={vi.fn()} />
+    );
+
+    await clickRecord();
+    await act(async () => {
+      vi.advanceTimersByTime(2000);
       await Promise.resolve();
     });
 
+    expect(mockMetronome.setClickEnabled).toHaveBeenLastCalledWith(true);
+    expect(mockRecorder.startRecording).toHaveBeenCalled();
+  });
+
+  test('skips the count-in when recording from mid-song if enabled', async () => {
+    mockMixer.getCurrentTime.mockReturnValue(12);
+    renderWithProvider(
+      <RecordButton voicePartId="alto" skipCountInFromPosition onRecordingComplete={vi.fn()} />
+    );
+
+    await clickRecord();
+
+    expect(mockRecorder.startRecording).toHaveBeenCalled();
+    expect(mockMetronome.setClickEnabled).not.toHaveBeenCalled();
+  });
+
+  test('counts in at the tempo and meter of the recording start', async () => {
+    // Bar 1 at 120 BPM in 4/4 (2s), then 60 BPM in 3/4: 12s is inside the slow 3/4 section
+    mockMixer.getCurrentTime.mockReturnValue(12);
+    const tempoMap = new TempoMap(120, { beatsPerBar: 4, beatUnit: 4 }, [
+      { bar: 2, bpm: 60, timeSignature: { beatsPerBar: 3, beatUnit: 4 } },
+    ]);
+    renderWithProvider(
+      <RecordButton voicePartId="alto" bpm={120} tempoMap={tempoMap} onRecordingComplete={vi.fn()} />
+    );
+
+    await clickRecord();
+    expect(screen.getByText('3')).toBeInTheDocument();
+    expect(mockMetronome.setBeatsPerBar).toHaveBeenCalledWith(3);
+    expect(mockMetronome.start).toHaveBeenCalledWith(60);
+
+    // 3 beats at 60 BPM
+    await act(async () => {
+      vi.advanceTimersByTime(2500);
+    });
+    expect(mockRecorder.startRecording).not.toHaveBeenCalled();
+
+    await act(async () => {
+      vi.advanceTimersByTime(500);
+      await Promise.resolve();
+    });
+    expect(mockRecorder.startRecording).toHaveBeenCalled();
+  });
+
+  // ⚠️ Negative cases
+  test('still counts in from the start of the song when skip is enabled', async () => {
+    renderWithProvider(
+      <RecordButton voicePartId="alto" skipCountInFromPosition onRecordingComplete={vi.fn()} />
+    );
+
+    await clickRecord();
+
+    expect(screen.getByText('4')).toBeInTheDocument();
+    expect(mockRecorder.startRecording).not.toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('records immediately with a zero-bar count-in', async () => {
+    renderWithProvider(
+      <RecordButton voicePartId="alto" countInBars={0} onRecordingComplete={vi.fn()} />
+    );
+
+    await clickRecord();
+
     expect(mockRecorder.startRecording).toHaveBeenCalled();
+    expect(mockMetronome.start).toHaveBeenCalled();
   });
 });
 
@@ -306,6 +494,9 @@ describe('REC-003: Start MediaRecorder and metronome', () => {
     mockMetronome = {
       setBpm: vi.fn(),
       getBpm: vi.fn().mockReturnValue(120),
+      setBeatsPerBar: vi.fn(),
+      setClickEnabled: vi.fn(),
+      isClickEnabled: vi.fn().mockReturnValue(false),
       start: vi.fn(),
       stop: vi.fn(),
       isPlaying: vi.fn().mockReturnValue(false),
@@ -423,6 +614,9 @@ describe('REC-004: Display VU meter during recording', () => {
     mockMetronome = {
       setBpm: vi.fn(),
       getBpm: vi.fn().mockReturnValue(120),
+      setBeatsPerBar: vi.fn(),
+      setClickEnabled: vi.fn(),
+      isClickEnabled: vi.fn().mockReturnValue(false),
       start: vi.fn(),
       stop: vi.fn(),
     };
@@ -546,6 +740,9 @@ describe('REC-007: Convert to WAV blob on stop', () => {
     mockMetronome = {
       setBpm: vi.fn(),
       getBpm: vi.fn().mockReturnValue(120),
+      setBeatsPerBar: vi.fn(),
+      setClickEnabled: vi.fn(),
+      isClickEnabled: vi.fn().mockReturnValue(false),
       start: vi.fn(),
       stop: vi.fn(),
       dispose: vi.fn(),
@@ -688,6 +885,9 @@ describe('RecordButton: Component states', () => {
     mockMetronome = {
       setBpm: vi.fn(),
       getBpm: vi.fn().mockReturnValue(120),
+      setBeatsPerBar: vi.fn(),
+      setClickEnabled: vi.fn(),
+      isClickEnabled: vi.fn().mockReturnValue(false),
       start: vi.fn(),
       stop: vi.fn(),
     };
@@ -723,7 +923,7 @@ describe('RecordButton: Component states', () => {
       await Promise.resolve();
     });
 
-    expect(screen.getByText('5')).toBeInTheDocument();
+    expect(screen.getByText('4')).toBeInTheDocument();
     expect(button).toBeDisabled();
 
     vi.useRealTimers();
@@ -821,6 +1021,9 @@ describe('REC-005, OVER-002: Overdub muting logic', () => {
     mockMetronome = {
       setBpm: vi.fn(),
       getBpm: vi.fn().mockReturnValue(120),
+      setBeatsPerBar: vi.fn(),
+      setClickEnabled: vi.fn(),
+      isClickEnabled: vi.fn().mockReturnValue(false),
       start: vi.fn(),
       stop: vi.fn(),
       dispose: vi.fn(),
@@ -971,3 +1174,637 @@ describe('REC-005, OVER-002: Overdub muting logic', () => {
     vi.useRealTimers();
   });
 });
+
+describe('LAT-004: Shift takes by calibrated latency', () => {
+  let mockRecorder: any;
+  let mockMetronome: any;
+  let now: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+
+    mockRecorder = {
+      setSelectedDevice: vi.fn(),
+      requestMicrophoneAccess: vi.fn().mockResolvedValue({} as MediaStream),
+      startRecording: vi.fn().mockResolvedValue(undefined),
+      stopRecording: vi.fn().mockResolvedValue({
+        audioBlob: new Blob(['audio data'], { type: 'audio/wav' }),
+        duration: 4.95,
+        waveformData: [],
+      }),
+      dispose: vi.fn(),
+    };
+
+    mockMetronome = {
+      setBpm: vi.fn(),
+      getBpm: vi.fn().mockReturnValue(120),
+      setBeatsPerBar: vi.fn(),
+      setClickEnabled: vi.fn(),
+      isClickEnabled: vi.fn().mockReturnValue(false),
+      start: vi.fn(),
+      stop: vi.fn(),
+      dispose: vi.fn(),
+    };
+
+    vi.mocked(Recorder).mockImplementation(function() {
+      return mockRecorder;
+    } as any);
+    vi.mocked(Metronome).mockImplementation(function() {
+      return mockMetronome;
+    } as any);
+  });
+
+  afterEach(() => {
+    useMicrophoneStore.setState({ selectedDeviceId: null, latencyByDevice: {} });
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  const mockTracks = [
+    {
+      id: 'track-1',
+      audioBlob: new Blob(['audio'], { type: 'audio/webm' }),
+      volume: 100,
+      muted: false,
+      soloed: false
+    },
+  ];
+
+  const recordAndStop = async (onRecordingComplete = vi.fn(), overdubEnabled = true) => {
+    renderWithProvider(
+      <RecordButton
+        voicePartId="soprano"
+        overdubEnabled={overdubEnabled}
+        tracks={mockTracks}
+        onRecordingComplete={onRecordingComplete}
+      />
+    );
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /record track/i }));
+      await Promise.resolve();
+    });
+
+    await act(async () => {
+      vi.advanceTimersByTime(3000);
+      await Promise.resolve();
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /stop recording/i }));
+      await Promise.resolve();
+    });
+
+    return onRecordingComplete;
+  };
+
+  // ✅ Happy path
+  test('trims the calibrated latency from the take', async () => {
+    useMicrophoneStore.setState({ selectedDeviceId: 'mic-1', latencyByDevice: { 'mic-1': 0.05 } });
+
+    await recordAndStop();
+
+    expect(mockRecorder.stopRecording).toHaveBeenCalledWith(0.05);
+  });
+
+  test('reports the applied compensation with the recording', async () => {
+    useMicrophoneStore.setState({ selectedDeviceId: 'mic-1', latencyByDevice: { 'mic-1': 0.05 } });
+
+    const onRecordingComplete = await recordAndStop();
+
+    expect(onRecordingComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ latencyCompensation: 0.05 })
+    );
+  });
+
+  test('trims only what playback had not already covered when capture began', async () => {
+    useMicrophoneStore.setState({ selectedDeviceId: 'mic-1', latencyByDevice: { 'mic-1': 0.05 } });
+    mockRecorder.startRecording.mockImplementation(async () => {
+      now += 30;
+    });
+
+    await recordAndStop();
+
+    expect(mockRecorder.stopRecording).toHaveBeenCalledWith(expect.closeTo(0.02, 5));
+  });
+
+  // 🔥 Edge cases
+  test('starts the take later when playback ran longer than the latency', async () => {
+    useMicrophoneStore.setState({ selectedDeviceId: 'mic-1', latencyByDevice: { 'mic-1': 0.05 } });
+    mockRecorder.startRecording.mockImplementation(async () => {
+      now += 80;
+    });
+
+    const onRecordingComplete = await recordAndStop();
+
+    expect(mockRecorder.stopRecording).toHaveBeenCalledWith(0);
+    expect(onRecordingComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ latencyCompensation: 0, startOffset: expect.closeTo(0.03, 5) })
+    );
+  });
+
+  test('does not trim without playback', async () => {
+    useMicrophoneStore.setState({ selectedDeviceId: 'mic-1', latencyByDevice: { 'mic-1': 0.05 } });
+
+    const onRecordingComplete = await recordAndStop(vi.fn(), false);
+
+    expect(mockRecorder.stopRecording).toHaveBeenCalledWith();
+    expect(onRecordingComplete.mock.calls[0]?.[0]).not.toHaveProperty('latencyCompensation');
+  });
+
+  test('uses the default microphone calibration when no device is selected', async () => {
+    useMicrophoneStore.setState({ selectedDeviceId: null, latencyByDevice: { default: 0.05 } });
+
+    await recordAndStop();
+
+    expect(mockRecorder.stopRecording).toHaveBeenCalledWith(0.05);
+  });
+
+  test('does not trim when the selected device is not calibrated', async () => {
+    useMicrophoneStore.setState({ selectedDeviceId: 'mic-2', latencyByDevice: { 'mic-1': 0.05 } });
+
+    const onRecordingComplete = await recordAndStop();
+
+    expect(mockRecorder.stopRecording).toHaveBeenCalledWith();
+    expect(onRecordingComplete.mock.calls[0]?.[0]).not.toHaveProperty('latencyCompensation');
+  });
+});
+
+describe('POS-005: Place takes at the playhead', () => {
+  let mockRecorder: any;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    mockRecorder = {
+      setSelectedDevice: vi.fn(),
+      requestMicrophoneAccess: vi.fn().mockResolvedValue({} as MediaStream),
+      startRecording: vi.fn().mockResolvedValue(undefined),
+      stopRecording: vi.fn().mockResolvedValue({
+        audioBlob: new Blob(['audio data'], { type: 'audio/wav' }),
+        duration: 4.95,
+        waveformData: [],
+      }),
+      dispose: vi.fn(),
+    };
+
+    vi.mocked(Recorder).mockImplementation(function() {
+      return mockRecorder;
+    } as any);
+    vi.mocked(Metronome).mockImplementation(function() {
+      return {
+        setBpm: vi.fn(),
+        getBpm: vi.fn().mockReturnValue(120),
+        setBeatsPerBar: vi.fn(),
+        setClickEnabled: vi.fn(),
+        isClickEnabled: vi.fn().mockReturnValue(false),
+        start: vi.fn(),
+        stop: vi.fn(),
+        dispose: vi.fn(),
+      };
+    } as any);
+  });
+
+  afterEach(() => {
+    mockMixer.getCurrentTime.mockReturnValue(0);
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  const recordAndStop = async (onRecordingComplete = vi.fn()) => {
+    renderWithProvider(<RecordButton voicePartId="bass" onRecordingComplete={onRecordingComplete} />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /record track/i }));
+      await Promise.resolve();
+    });
+
+    await act(async () => {
+      vi.advanceTimersByTime(3000);
+      await Promise.resolve();
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /stop recording/i }));
+      await Promise.resolve();
+    });
+
+    return onRecordingComplete;
+  };
+
+  // ✅ Happy path
+  test('reports the playhead position as the start offset', async () => {
+    mockMixer.getCurrentTime.mockReturnValue(32);
+
+    const onRecordingComplete = await recordAndStop();
+
+    expect(onRecordingComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ startOffset: 32 })
+    );
+  });
+
+  // 🔥 Edge cases
+  test('omits start offset when recording from the beginning', async () => {
+    const onRecordingComplete = await recordAndStop();
+
+    expect(onRecordingComplete.mock.calls[0]?.[0]).not.toHaveProperty('startOffset');
+  });
+});
+
+describe('PUNCH-002, PUNCH-003, PUNCH-006: Punch-in recording', () => {
+  let mockRecorder: any;
+  const punchRegion = { trackId: 'track-1', punchIn: 5, punchOut: 7 };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    mockRecorder = {
+      setSelectedDevice: vi.fn(),
+      requestMicrophoneAccess: vi.fn().mockResolvedValue({} as MediaStream),
+      startRecording: vi.fn().mockResolvedValue(undefined),
+      stopRecording: vi.fn().mockResolvedValue({
+        audioBlob: new Blob(['punch take'], { type: 'audio/wav' }),
+        duration: 4.05,
+        waveformData: [],
+      }),
+      dispose: vi.fn(),
+    };
+
+    vi.mocked(Recorder).mockImplementation(function() {
+      return mockRecorder;
+    } as any);
+    vi.mocked(Metronome).mockImplementation(function() {
+      return {
+        setBpm: vi.fn(),
+        getBpm: vi.fn().mockReturnValue(120),
+        setBeatsPerBar: vi.fn(),
+        setClickEnabled: vi.fn(),
+        isClickEnabled: vi.fn().mockReturnValue(false),
+        start: vi.fn(),
+        stop: vi.fn(),
+        dispose: vi.fn(),
+      };
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  const startPunch = async (region = punchRegion) => {
+    const onPunchComplete = vi.fn();
+    const onRecordingComplete = vi.fn();
+    renderWithProvider(
+      <RecordButton
+        voicePartId="alto"
+        punchRegion={region}
+        onPunchComplete={onPunchComplete}
+        onRecordingComplete={onRecordingComplete}
+      />
+    );
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /punch record track/i }));
+      await Promise.resolve();
+    });
+
+    return { onPunchComplete, onRecordingComplete };
+  };
+
+  // ✅ Happy path
+  test('shows punch button and range when a region is selected', () => {
+    renderWithProvider(
+      <RecordButton voicePartId="alto" punchRegion={punchRegion} onRecordingComplete={vi.fn()} />
+    );
+
+    expect(screen.getByRole('button', { name: /punch record track/i })).toHaveTextContent('Punch');
+    expect(screen.getByText('Punch 5.0s-7.0s')).toBeInTheDocument();
+  });
+
+  test('plays pre-roll from before the punch-in point without a countdown', async () => {
+    await startPunch();
+
+    expect(mockMixer.seek).toHaveBeenCalledWith(3);
+    expect(mockMixer.play).toHaveBeenCalled();
+    expect(mockRecorder.startRecording).toHaveBeenCalled();
+    expect(screen.getByText('Pre-roll...')).toBeInTheDocument();
+  });
+
+  test('mutes the punched track at punch-in', async () => {
+    await startPunch();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(2000);
+    });
+
+    expect(mockMixer.setMuted).toHaveBeenCalledWith('track-1', true);
+    expect(screen.getByText('Punching in...')).toBeInTheDocument();
+  });
+
+  test('stops automatically at punch-out and reports the take', async () => {
+    const { onPunchComplete, onRecordingComplete } = await startPunch();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(4200);
+    });
+
+    expect(mockRecorder.stopRecording).toHaveBeenCalled();
+    expect(onPunchComplete).toHaveBeenCalledWith({
+      trackId: 'track-1',
+      blob: expect.any(Blob),
+      takeStart: 3,
+      punchIn: 5,
+      punchOut: 7,
+    });
+    expect(onRecordingComplete).not.toHaveBeenCalled();
+    // Mute state restored after the punch
+    expect(mockMixer.setMuted).toHaveBeenLastCalledWith('track-1', false);
+  });
+
+  // ⚠️ Negative cases
+  test('manual stop before punch-out still reports the take once', async () => {
+    const { onPunchComplete } = await startPunch();
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /stop recording/i }));
+      await vi.advanceTimersByTimeAsync(200);
+    });
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(5000);
+    });
+
+    expect(onPunchComplete).toHaveBeenCalledTimes(1);
+    expect(mockMixer.setMuted).not.toHaveBeenCalledWith('track-1', true);
+  });
+
+  // 🔥 Edge cases
+  test('pre-roll starts at zero when punching near the start', async () => {
+    await startPunch({ trackId: 'track-1', punchIn: 0.5, punchOut: 1.5 });
+
+    expect(mockMixer.seek).toHaveBeenCalledWith(0);
+  });
+});
+
+describe('LOOP-001, LOOP-003: Loop recording', () => {
+  let mockRecorder: any;
+  const loopRange = { start: 4, end: 8 };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    mockRecorder = {
+      setSelectedDevice: vi.fn(),
+      requestMicrophoneAccess: vi.fn().mockResolvedValue({} as MediaStream),
+      startRecording: vi.fn().mockResolvedValue(undefined),
+      stopRecording: vi.fn(),
+      stopRecordingTakes: vi.fn().mockResolvedValue([
+        { audioBlob: new Blob(['take 1'], { type: 'audio/wav' }), duration: 4, waveformData: [] },
+        { audioBlob: new Blob(['take 2'], { type: 'audio/wav' }), duration: 4, waveformData: [] },
+      ]),
+      dispose: vi.fn(),
+    };
+
+    vi.mocked(Recorder).mockImplementation(function() {
+      return mockRecorder;
+    } as any);
+    vi.mocked(Metronome).mockImplementation(function() {
+      return {
+        setBpm: vi.fn(),
+        getBpm: vi.fn().mockReturnValue(120),
+        setBeatsPerBar: vi.fn(),
+        setClickEnabled: vi.fn(),
+        isClickEnabled: vi.fn().mockReturnValue(false),
+        start: vi.fn(),
+        stop: vi.fn(),
+        dispose: vi.fn(),
+      };
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  const startLoop = async () => {
+    const onLoopRecordingComplete = vi.fn();
+    const onRecordingComplete = vi.fn();
+    renderWithProvider(
+      <RecordButton
+        voicePartId="alto"
+        loopRange={loopRange}
+        onLoopRecordingComplete={onLoopRecordingComplete}
+        onRecordingComplete={onRecordingComplete}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Loop record' }));
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Loop record track' }));
+      await vi.advanceTimersByTimeAsync(0);
+    });
+
+    return { onLoopRecordingComplete, onRecordingComplete };
+  };
+
+  // ✅ Happy path
+  test('toggles loop mode and shows the loop range', () => {
+    renderWithProvider(
+      <RecordButton
+        voicePartId="alto"
+        loopRange={loopRange}
+        onLoopRecordingComplete={vi.fn()}
+        onRecordingComplete={vi.fn()}
+      />
+    );
+
+    const toggle = screen.getByRole('button', { name: 'Loop record' });
+    expect(toggle).toHaveAttribute('aria-pressed', 'false');
+
+    fireEvent.click(toggle);
+
+    expect(toggle).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: 'Loop record track' })).toHaveTextContent('Loop');
+    expect(screen.getByText('Loop 4.0s-8.0s')).toBeInTheDocument();
+  });
+
+  test('loops the mixer from the loop start without a countdown', async () => {
+    await startLoop();
+
+    expect(mockMixer.setLoop).toHaveBeenCalledWith(loopRange);
+    expect(mockMixer.seek).toHaveBeenCalledWith(4);
+    expect(mockMixer.play).toHaveBeenCalled();
+    expect(mockRecorder.startRecording).toHaveBeenCalled();
+    expect(screen.getByText('Take 1...')).toBeInTheDocument();
+  });
+
+  test('counts passes while recording', async () => {
+    await startLoop();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(4100);
+    });
+
+    expect(screen.getByText('Take 2...')).toBeInTheDocument();
+  });
+
+  test('reports one take per pass on stop', async () => {
+    const { onLoopRecordingComplete, onRecordingComplete } = await startLoop();
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /stop recording/i }));
+      await vi.advanceTimersByTimeAsync(0);
+    });
+
+    expect(mockMixer.setLoop).toHaveBeenLastCalledWith(null);
+    expect(mockRecorder.stopRecordingTakes).toHaveBeenCalledWith(4, expect.any(Number));
+    expect(onLoopRecordingComplete).toHaveBeenCalledWith({
+      takes: [
+        { blob: expect.any(Blob), duration: 4 },
+        { blob: expect.any(Blob), duration: 4 },
+      ],
+      startOffset: 4,
+    });
+    expect(onRecordingComplete).not.toHaveBeenCalled();
+  });
+
+  // ⚠️ Negative cases
+  test('hides the loop toggle without a loop handler', () => {
+    renderWithProvider(
+      <RecordButton voicePartId="alto" loopRange={loopRange} onRecordingComplete={vi.fn()} />
+    );
+
+    expect(screen.queryByRole('button', { name: 'Loop record' })).not.toBeInTheDocument();
+  });
+
+  test('does not report when no take was captured', async () => {
+    mockRecorder.stopRecordingTakes.mockResolvedValue([]);
+    const { onLoopRecordingComplete } = await startLoop();
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /stop recording/i }));
+      await vi.advanceTimersByTimeAsync(0);
+    });
+
+    expect(onLoopRecordingComplete).not.toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('hides the loop toggle for an empty loop range', () => {
+    renderWithProvider(
+      <RecordButton
+        voicePartId="alto"
+        loopRange={{ start: 2, end: 2 }}
+        onLoopRecordingComplete={vi.fn()}
+        onRecordingComplete={vi.fn()}
+      />
+    );
+
+    expect(screen.queryByRole('button', { name: 'Loop record' })).not.toBeInTheDocument();
+  });
+});
+
+describe('TUNER-004: Tuner during countdown', () => {
+  let mockRecorder: any;
+  let mockMetronome: any;
+  let mockDetector: any;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    mockRecorder = {
+      requestMicrophoneAccess: vi.fn().mockResolvedValue({} as MediaStream),
+      startRecording: vi.fn().mockResolvedValue(undefined),
+      getRecordingState: vi.fn().mockReturnValue('inactive'),
+      dispose: vi.fn(),
+    };
+
+    mockMetronome = {
+      getBpm: vi.fn().mockReturnValue(120),
+      setBeatsPerBar: vi.fn(),
+      setClickEnabled: vi.fn(),
+      isClickEnabled: vi.fn().mockReturnValue(false),
+      start: vi.fn(),
+      stop: vi.fn(),
+      setVisualCallback: vi.fn(),
+      dispose: vi.fn(),
+    };
+
+    mockDetector = {
+      connect: vi.fn(),
+      getFrequency: vi.fn().mockReturnValue(442),
+      dispose: vi.fn(),
+    };
+
+    vi.mocked(Recorder).mockImplementation(function() {
+      return mockRecorder;
+    } as any);
+    vi.mocked(Metronome).mockImplementation(function() {
+      return mockMetronome;
+    } as any);
+    vi.mocked(PitchDetector).mockImplementation(function() {
+      return mockDetector;
+    } as any);
+    vi.mocked(VUMeter).mockImplementation(function() {
+      return { connect: vi.fn(), disconnect: vi.fn(), getVolume: vi.fn().mockReturnValue(0) };
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('shows the sung pitch in the project tuning during the count-in', async () => {
+    renderWithProvider(
+      <RecordButton
+        voicePartId="soprano"
+        tuning={{ referenceFrequency: 442, temperament: 'equal', key: 0 }}
+        onRecordingComplete={vi.fn()}
+      />
+    );
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Record track' }));
+      await Promise.resolve();
+    });
+    await act(async () => {
+      vi.advanceTimersByTime(50);
+    });
+
+    expect(mockDetector.connect).toHaveBeenCalled();
+    expect(screen.getByTestId('tuner-note')).toHaveTextContent('A4');
+    expect(screen.getByTestId('tuner-cents')).toHaveTextContent('0¢');
+  });
+
+  // ⚠️ Negative cases
+  test('shows no tuner before recording', () => {
+    renderWithProvider(<RecordButton voicePartId="soprano" onRecordingComplete={vi.fn()} />);
+
+    expect(screen.queryByTestId('tuner-note')).not.toBeInTheDocument();
+    expect(PitchDetector).not.toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('stops listening for pitch once recording starts', async () => {
+    renderWithProvider(<RecordButton voicePartId="soprano" bpm={120} onRecordingComplete={vi.fn()} />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Record track' }));
+      await Promise.resolve();
+    });
+    await act(async () => {
+      vi.advanceTimersByTime(2000);
+      await Promise.resolve();
+    });
+
+    expect(mockDetector.dispose).toHaveBeenCalled();
+    expect(screen.queryByTestId('tuner-note')).not.toBeInTheDocument();
+  });
+});
@@ -1,14 +1,19 @@
-// [EARS: REC-001, REC-002, REC-003, REC-004, REC-007]
+// [EARS: REC-001, REC-002, REC-003, REC-004, REC-007, POS-005, PUNCH-002, PUNCH-003, PUNCH-006, LOOP-001, LOOP-003, CNT-001, CNT-003, CNT-004, TEMPO-004, TONE-009, TUNER-004]
 // RecordButton component integrates the full recording workflow
 
 import React, { useState, useEffect, useRef } from 'react';
 import { Recorder } from '../audio/recorder';
 import { VUMeter as VUMeterClass } from '../audio/vuMeter';
 import { VUMeter } from './VUMeter';
+import { PitchTuner } from './PitchTuner';
+import { usePitchDetector } from '../hooks/usePitchDetector';
 import { useErrorStore } from '../store/useErrorStore';
-import { useMicrophoneStore } from '../store/useMicrophoneStore';
+import { useMicrophoneStore, selectDeviceLatency } from '../store/useMicrophoneStore';
 import { useMetronome } from '../contexts/MetronomeContext';
 import { useMixer } from '../contexts/MixerContext';
+import type { PunchRegion, Tuning } from '../store/types';
+import type { LoopRegion } from '../audio/mixer';
+import type { TempoMap } from '../audio/tempoMap';
 
 export interface RecordButtonTrack {
   id: string;
@@ -16,19 +21,46 @@ export interface RecordButtonTrack {
   volume: number;
   muted: boolean;
   soloed: boolean;
+  startOffset?: number;
+}
+
+export interface PunchRecordingResult {
+  trackId: string;
+  blob: Blob;
+  takeStart: number; // Seconds from timeline start of the take's first sample
+  punchIn: number; // Seconds from timeline start
+  punchOut: number; // Seconds from timeline start
+}
+
+export interface LoopRecordingResult {
+  takes: Array<{ blob: Blob; duration: number }>; // One per completed pass, in order
+  startOffset: number; // Seconds from timeline start of the loop start
+  latencyCompensation?: number;
 }
 
 export interface RecordButtonProps {
   voicePartId: string;
   bpm?: number;
+  countInBars?: number; // [EARS: CNT-001] Bars of count-in before recording (0 = none)
+  beatsPerBar?: number; // [EARS: CNT-002] From the project time signature
+  tempoMap?: TempoMap; // [EARS: TEMPO-004] Count-in tempo and meter at the recording start
+  skipCountInFromPosition?: boolean; // [EARS: CNT-004] No count-in when recording from mid-song
   overdubEnabled?: boolean;
   tracks?: RecordButtonTrack[];
-  onRecordingComplete: (result: { blob: Blob; duration: number }) => void;
+  onRecordingComplete: (result: { blob: Blob; duration: number; latencyCompensation?: number; startOffset?: number }) => void;
+  onRecordStart?: () => void; // [EARS: TONE-009] Record pressed for this voice part
+  tuning?: Tuning; // [EARS: TUNER-004] Reference pitch and temperament for the countdown tuner
+  punchRegion?: PunchRegion | null; // [EARS: PUNCH-002] Record only this range of a track
+  onPunchComplete?: (result: PunchRecordingResult) => void;
+  loopRange?: LoopRegion | null; // [EARS: LOOP-001] Range looped while loop recording
+  onLoopRecordingComplete?: (result: LoopRecordingResult) => void;
 }
 
 type RecordingState = 'idle' | 'requesting-permission' | 'countdown' | 'recording' | 'error';
+type PunchPhase = 'pre-roll' | 'punch';
 
-const COUNTDOWN_BEATS = 5; // Number of beats to count down
+const PUNCH_PRE_ROLL = 2; // Seconds of playback before punch-in
+const PUNCH_TAIL_MS = 50; // Keep capturing briefly past punch-out for the crossfade
 
 /**
  * RecordButton component handles the complete recording workflow
@@ -37,13 +69,27 @@ const COUNTDOWN_BEATS = 5; // Number of beats to count down
 export function RecordButton({
   voicePartId,
   bpm = 120,
+  countInBars = 1,
+  beatsPerBar = 4,
+  tempoMap,
+  skipCountInFromPosition = false,
   overdubEnabled = false,
   tracks = [],
   onRecordingComplete,
+  onRecordStart,
+  tuning,
+  punchRegion = null,
+  onPunchComplete,
+  loopRange = null,
+  onLoopRecordingComplete,
 }: RecordButtonProps) {
   const [recordingState, setRecordingState] = useState<RecordingState>('idle');
-  const [countdownValue, setCountdownValue] = useState(COUNTDOWN_BEATS);
+  const [punchPhase, setPunchPhase] = useState<PunchPhase | null>(null);
+  const [loopMode, setLoopMode] = useState(false);
+  const [loopPass, setLoopPass] = useState(1);
+  const [countdownValue, setCountdownValue] = useState(0);
   const [vuLevel, setVuLevel] = useState(0);
+  const [micStream, setMicStream] = useState<MediaStream | null>(null);
 
   // Global error handling [EARS: ERR-001, ERR-003]
   const setError = useErrorStore((state) => state.setError);
@@ -52,6 +98,9 @@ export function RecordButton({
   // [EARS: MIC-003] Use selected device for recording
   const selectedDeviceId = useMicrophoneStore((state) => state.selectedDeviceId);
 
+  // [EARS: LAT-004] Calibrated round-trip latency for the selected (or default) device, if any
+  const deviceLatency = useMicrophoneStore(selectDeviceLatency);
+
   // Get shared metronome instance from context
   const { getMetronome } = useMetronome();
 
@@ -60,11 +109,24 @@ export function RecordButton({
   const mixer = getMixer();
   const audioContext = getAudioContext();
 
+  // [EARS: TUNER-004] Singers can check their starting pitch during the count-in
+  const countdownFrequency = usePitchDetector(recordingState === 'countdown' ? micStream : null, audioContext);
+
   const recorderRef = useRef<Recorder | null>(null);
   const vuMeterRef = useRef<VUMeterClass | null>(null);
   const vuIntervalRef = useRef<number | null>(null);
   const countdownIntervalRef = useRef<number | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const latencyCompensationRef = useRef<number | undefined>(undefined);
+  const recordStartOffsetRef = useRef(0);
+  const activePunchRef = useRef<{ region: PunchRegion; wasMuted: boolean } | null>(null);
+  const punchTimeoutsRef = useRef<number[]>([]);
+  const activeLoopRef = useRef<{ range: LoopRegion; trimStart: number } | null>(null);
+  const loopIntervalRef = useRef<number | null>(null);
+
+  // [EARS: LOOP-001] Loop recording needs a range and somewhere to send the takes
+  const canLoop = loopRange !== null && loopRange.end > loopRange.start && !!onLoopRecordingComplete;
+  const isLoopRecord = loopMode && canLoop;
 
   /**
    * Initialize audio components
@@ -82,6 +144,10 @@ export function RecordButton({
       if (countdownIntervalRef.current) {
         clearInterval(countdownIntervalRef.current);
       }
+      punchTimeoutsRef.current.forEach(clearTimeout);
+      if (loopIntervalRef.current) {
+        clearInterval(loopIntervalRef.current);
+      }
       if (vuMeterRef.current) {
         vuMeterRef.current.disconnect();
       }
@@ -98,6 +164,7 @@ export function RecordButton({
    * [EARS: MIC-003] Use selected device for recording
    */
   const handleRecordClick = async () => {
+    onRecordStart?.();
     setRecordingState('requesting-permission');
     setError(null); // Clear any previous errors
 
@@ -111,13 +178,38 @@ export function RecordButton({
       // Request microphone permission with selected device
       const stream = await recorderRef.current!.requestMicrophoneAccess();
       streamRef.current = stream;
+      setMicStream(stream);
+
+      // [EARS: LOOP-001] Loop recording starts at the loop start without a countdown
+      if (isLoopRecord && loopRange) {
+        startLoop(loopRange);
+        return;
+      }
+
+      // [EARS: PUNCH-002] Punch-in uses pre-roll instead of a countdown
+      if (punchRegion) {
+        startPunch(punchRegion);
+        return;
+      }
+
+      // [EARS: CNT-001, CNT-004] Count in whole bars, unless going straight in from mid-song
+      const position = mixer ? mixer.getCurrentTime() : 0;
+      // [EARS: TEMPO-004] Count in at the tempo and meter where recording starts
+      const countInBeatsPerBar = tempoMap ? tempoMap.timeSignatureAt(position).beatsPerBar : beatsPerBar;
+      const countInBeats = skipCountInFromPosition && position > 0 ? 0 : countInBars * countInBeatsPerBar;
+      if (countInBeats <= 0) {
+        // Metronome still runs during recording, as it would after a count-in
+        getMetronome()?.start();
+        startRecording();
+        return;
+      }
 
       // Start countdown
       setRecordingState('countdown');
-      setCountdownValue(COUNTDOWN_BEATS);
+      setCountdownValue(countInBeats);
 
       // [EARS: REC-002] Display countdown
-      startCountdown();
+      startCountdown(countInBeats, countInBeatsPerBar, tempoMap?.tempoAt(position));
     } catch (error) {
       // [EARS: ERR-001] Display error on permission denied
       setRecordingState('error');
@@ -127,22 +219,31 @@ export function RecordButton({
 
   /**
    * Start countdown before recording
-   * [EARS: REC-002] Display countdown (5-4-3-2-1) synced to metronome beats
+   * [EARS: REC-002] Display countdown synced to metronome beats
+   * [EARS: CNT-003] Audible click during the count-in, accenting each bar
+   *
+   * @param beats - Number of beats to count in
+   * @param countInBeatsPerBar - Beats per bar for the accents
+   * @param countInBpm - Count-in tempo (default: metronome BPM)
    */
-  const startCountdown = () => {
-    let count = COUNTDOWN_BEATS;
+  const startCountdown = (beats: number, countInBeatsPerBar: number, countInBpm?: number) => {
+    let count = beats;
     setCountdownValue(count);
 
     // Start metronome during countdown so user can feel the tempo
     const metronome = getMetronome();
+    // [EARS: CLICK-001] Leave a click track the user switched on running after the count-in
+    const clickWasEnabled = metronome?.isClickEnabled() ?? false;
     if (metronome) {
-      metronome.start();
+      metronome.setBeatsPerBar(countInBeatsPerBar);
+      metronome.setClickEnabled(true);
+      metronome.start(countInBpm);
     }
 
     // Note: Tracks are already loaded in the shared mixer by PlaybackControls
 
     // Get current BPM from metronome instance for accurate countdown timing
-    const currentBpm = metronome ? metronome.getBpm() : bpm;
+    const currentBpm = countInBpm ?? (metronome ? metronome.getBpm() : bpm);
     const beatIntervalMs = 60000 / currentBpm;
 
     countdownIntervalRef.current = window.setInterval(() => {
@@ -153,6 +254,8 @@ export function RecordButton({
         if (countdownIntervalRef.current) {
           clearInterval(countdownIntervalRef.current);
         }
+        // [EARS: CNT-003] Click only during the count-in, unless the click track is on
+        metronome?.setClickEnabled(clickWasEnabled);
         startRecording();
       }
     }, beatIntervalMs);
@@ -169,26 +272,135 @@ export function RecordButton({
 
     setRecordingState('recording');
 
+    // [EARS: POS-005] The take starts on the timeline where the playhead is
+    recordStartOffsetRef.current = mixer ? mixer.getCurrentTime() : 0;
+
     // [EARS: REC-005, OVER-002] Start overdub playback FIRST
     // Start playback before recording to compensate for audio output latency
+    let playbackStartedAt: number | null = null;
     if (overdubEnabled && mixer && tracks.length > 0 && audioContext) {
       console.log('[RecordButton] Starting playback');
       mixer.play();
+      playbackStartedAt = performance.now();
 
-      // Wait for audio latency to compensate for output delay
-      // This ensures what you hear is in sync with what's being recorded
+      // Without a calibration, wait for the reported output latency so
+      // what you hear is roughly in sync with what's being recorded
       const baseLatency = audioContext.baseLatency || 0;
       const outputLatency = (audioContext as any).outputLatency || 0;
       const totalLatency = baseLatency + outputLatency;
 
-      if (totalLatency > 0) {
+      if (deviceLatency === undefined && totalLatency > 0) {
         console.log(`[RecordButton] Compensating for ${(totalLatency * 1000).toFixed(1)}ms audio latency`);
         await new Promise(resolve => setTimeout(resolve, totalLatency * 1000));
       }
     }
 
     // [EARS: REC-003] Start MediaRecorder after latency compensation
+    await startCapture(playbackStartedAt);
+
+    // Note: Metronome already started during countdown (see startCountdown())
+  };
+
+  /**
+   * Start punch-in recording over a region
+   * [EARS: PUNCH-002] Play pre-roll from the mixer before the punch-in point
+   * [EARS: PUNCH-003] Stop automatically at the punch-out point
+   * [EARS: PUNCH-006] Mute the track being replaced during the punch
+   */
+  const startPunch = async (region: PunchRegion) => {
+    if (!streamRef.current || !recorderRef.current) return;
+
+    setRecordingState('recording');
+    setPunchPhase('pre-roll');
+
+    const preRollStart = Math.max(0, region.punchIn - PUNCH_PRE_ROLL);
+    activePunchRef.current = {
+      region,
+      wasMuted: mixer ? mixer.isMuted(region.trackId) : false,
+    };
+    recordStartOffsetRef.current = preRollStart;
+
+    let playbackStartedAt: number | null = null;
+    if (mixer) {
+      mixer.seek(preRollStart);
+      mixer.play();
+      playbackStartedAt = performance.now();
+    }
+
+    // Capture from the start of pre-roll; the splice cuts at the punch points
+    await startCapture(playbackStartedAt);
+
+    // Schedule punch points relative to when playback actually started
+    const elapsedMs = playbackStartedAt !== null ? performance.now() - playbackStartedAt : 0;
+    punchTimeoutsRef.current = [
+      window.setTimeout(() => {
+        setPunchPhase('punch');
+        mixer?.setMuted(region.trackId, true);
+      }, Math.max(0, (region.punchIn - preRollStart) * 1000 - elapsedMs)),
+      window.setTimeout(() => {
+        handleStopClick();
+      }, Math.max(0, (region.punchOut - preRollStart) * 1000 - elapsedMs) + PUNCH_TAIL_MS),
+    ];
+  };
+
+  /**
+   * Start loop recording over a range
+   * [EARS: LOOP-001] Loop the mixer over the range while capturing continuously
+   * [EARS: LOOP-003] Capture starts before playback; the lead is trimmed so each take starts on the loop start
+   */
+  const startLoop = async (range: LoopRegion) => {
+    if (!streamRef.current || !recorderRef.current) return;
+
+    setRecordingState('recording');
+    setLoopPass(1);
+    recordStartOffsetRef.current = range.start;
+
+    const captureStartedAt = await startCapture(null);
+    if (captureStartedAt === null) return;
+
+    const playbackStartedAt = performance.now();
+    if (mixer) {
+      mixer.setLoop(range);
+      mixer.seek(range.start);
+      mixer.play();
+    }
+
+    activeLoopRef.current = {
+      range,
+      trimStart: (playbackStartedAt - captureStartedAt) / 1000 + (deviceLatency ?? 0),
+    };
+
+    // Show which pass is being recorded
+    const passMs = (range.end - range.start) * 1000;
+    loopIntervalRef.current = window.setInterval(() => {
+      setLoopPass(Math.floor((performance.now() - playbackStartedAt) / passMs) + 1);
+    }, 100);
+  };
+
+  /**
+   * Start capturing the microphone
+   * [EARS: REC-003, REC-004, LAT-004] Start recorder, latency compensation and VU meter
+   *
+   * @param playbackStartedAt - performance.now() when mixer playback started, if it did
+   * @returns performance.now() when capture began, or null if it could not start
+   */
+  const startCapture = async (playbackStartedAt: number | null): Promise<number | null> => {
+    if (!streamRef.current || !recorderRef.current) return null;
+
     await recorderRef.current.startRecording(streamRef.current);
+    const captureStartedAt = performance.now();
+
+    // [EARS: LAT-004] With a calibration, trim the measured round trip from the
+    // take, minus the time playback was already running when capture began. If
+    // playback ran longer than the round trip, the take starts later instead.
+    // Without playback there is nothing to line up with.
+    if (deviceLatency !== undefined && playbackStartedAt !== null) {
+      const remainder = deviceLatency - (captureStartedAt - playbackStartedAt) / 1000;
+      latencyCompensationRef.current = Math.max(0, remainder);
+      recordStartOffsetRef.current += Math.max(0, -remainder);
+    } else {
+      latencyCompensationRef.current = undefined;
+    }
 
     // [EARS: REC-004] Connect VU meter to stream (in parallel with recording)
     if (vuMeterRef.current && audioContext) {
@@ -208,7 +420,7 @@ export function RecordButton({
       }, 50);
     }
 
-    // Note: Metronome already started during countdown (see startCountdown())
+    return captureStartedAt;
   };
 
   /**
@@ -219,6 +431,19 @@ export function RecordButton({
   const handleStopClick = async () => {
     if (!recorderRef.current) return;
 
+    // [EARS: PUNCH-003] Cancel pending punch timers (manual stop or auto punch-out)
+    punchTimeoutsRef.current.forEach(clearTimeout);
+    punchTimeoutsRef.current = [];
+    const activePunch = activePunchRef.current;
+    activePunchRef.current = null;
+    setPunchPhase(null);
+    const activeLoop = activeLoopRef.current;
+    activeLoopRef.current = null;
+    if (loopIntervalRef.current) {
+      clearInterval(loopIntervalRef.current);
+      loopIntervalRef.current = null;
+    }
+
     // Stop VU meter updates
     if (vuIntervalRef.current) {
       clearInterval(vuIntervalRef.current);
@@ -232,7 +457,15 @@ export function RecordButton({
 
     // [EARS: REC-005, OVER-002] Stop mixer if overdub was enabled
     if (mixer) {
+      // [EARS: LOOP-001] Stop looping before the transport is reset
+      if (activeLoop) {
+        mixer.setLoop(null);
+      }
       mixer.stop();
+      // [EARS: PUNCH-006] Restore the punched track's mute state
+      if (activePunch) {
+        mixer.setMuted(activePunch.region.trackId, activePunch.wasMuted);
+      }
       mixer.seek(0); // Reset playback position to start
       // Note: Don't unload tracks - PlaybackControls manages the mixer's track state
     }
@@ -244,16 +477,53 @@ export function RecordButton({
     }
 
     try {
+      // [EARS: LOOP-003] Split the loop recording into one take per pass
+      if (activeLoop) {
+        const { range, trimStart } = activeLoop;
+        const takes = await recorderRef.current.stopRecordingTakes(range.end - range.start, trimStart);
+
+        setRecordingState('idle');
+        setVuLevel(0);
+
+        if (takes.length > 0) {
+          onLoopRecordingComplete?.({
+            takes: takes.map(take => ({ blob: take.audioBlob, duration: take.duration })),
+            startOffset: range.start,
+            ...(deviceLatency !== undefined && { latencyCompensation: deviceLatency }),
+          });
+        }
+        return;
+      }
+
       // [EARS: REC-007] Stop recording and get WAV blob
-      const result = await recorderRef.current.stopRecording();
+      // [EARS: LAT-004] Shift the take earlier by the calibrated latency
+      const latencyCompensation = latencyCompensationRef.current;
+      const result = latencyCompensation !== undefined
+        ? await recorderRef.current.stopRecording(latencyCompensation)
+        : await recorderRef.current.stopRecording();
 
       setRecordingState('idle');
       setVuLevel(0);
 
+      // [EARS: PUNCH-004] Hand the take to the parent for splicing
+      if (activePunch) {
+        onPunchComplete?.({
+          trackId: activePunch.region.trackId,
+          blob: result.audioBlob,
+          takeStart: recordStartOffsetRef.current,
+          punchIn: activePunch.region.punchIn,
+          punchOut: activePunch.region.punchOut,
+        });
+        return;
+      }
+
       // Notify parent component (map audioBlob to blob for callback)
+      const startOffset = recordStartOffsetRef.current;
       onRecordingComplete({
         blob: result.audioBlob,
         duration: result.duration,
+        ...(latencyCompensation !== undefined && { latencyCompensation }),
+        ...(startOffset > 0 && { startOffset }),
       });
     } catch (error) {
       // [EARS: ERR-003] Display error on encoding failure
@@ -280,7 +550,7 @@ export function RecordButton({
       {recordingState === 'idle' || recordingState === 'error' ? (
         <button
           onClick={handleRecordClick}
-          aria-label="Record track"
+          aria-label={isLoopRecord ? 'Loop record track' : punchRegion ? 'Punch record track' : 'Record track'}
           disabled={isLoading}
           style={{
             padding: '0.3rem 0.5rem',
@@ -295,7 +565,7 @@ export function RecordButton({
             opacity: isLoading ? 0.6 : 1,
           }}
         >
-          Rec
+          {isLoopRecord ? 'Loop' : punchRegion ? 'Punch' : 'Rec'}
         </button>
       ) : recordingState === 'requesting-permission' || recordingState === 'countdown' ? (
         <button
@@ -348,12 +618,48 @@ export function RecordButton({
           : recordingState === 'countdown'
           ? 'Get ready...'
           : recordingState === 'recording'
-          ? 'Recording...'
+          ? punchPhase === 'pre-roll'
+            ? 'Pre-roll...'
+            : punchPhase === 'punch'
+            ? 'Punching in...'
+            : isLoopRecord
+            ? `Take ${loopPass}...`
+            : 'Recording...'
           : recordingState === 'requesting-permission'
           ? 'Requesting mic...'
+          : isLoopRecord && loopRange
+          ? `Loop ${loopRange.start.toFixed(1)}s-${loopRange.end.toFixed(1)}s`
+          : punchRegion
+          ? `Punch ${punchRegion.punchIn.toFixed(1)}s-${punchRegion.punchOut.toFixed(1)}s`
           : 'New track'}
       </span>
 
+      {/* Loop Record Toggle */}
+      {/* [EARS: LOOP-001] Switch the record button to loop recording */}
+      {canLoop && (recordingState === 'idle' || recordingState === 'error') && (
+        <button
+          onClick={() => setLoopMode(!loopMode)}
+          aria-label="Loop record"
+          aria-pressed={loopMode}
+          style={{
+            padding: '0.3rem 0.5rem',
+            backgroundColor: loopMode ? '#2196f3' : '#555',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '3px',
+            cursor: 'pointer',
+            fontSize: '0.7rem',
+            fontWeight: 'bold',
+          }}
+        >
+          Loop
+        </button>
+      )}
+
+      {/* Tuner During Countdown */}
+      {/* [EARS: TUNER-004] Check the starting pitch before recording begins */}
+      {recordingState === 'countdown' && <PitchTuner frequency={countdownFrequency} tuning={tuning} />}
+
       {/* VU Meter During Recording */}
       {/* [EARS: REC-004] VU meter display during recording */}
       {recordingState === 'recording' && (
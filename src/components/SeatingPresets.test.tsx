@@ -0,0 +1,39 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { SeatingPresets } from './SeatingPresets';
+import { useErrorStore } from '../store/useErrorStore';
+
+describe('PAN-004: Seating presets', () => {
+  afterEach(() => {
+    useErrorStore.getState().clearError();
+  });
+
+  // ✅ Happy path
+  test('offers every preset', () => {
+    render(<SeatingPresets onApply={vi.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Seat S · A · T · B' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Seat Mixed quartets' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Seat Centre' })).toBeInTheDocument();
+  });
+
+  test('applies the chosen preset', () => {
+    const onApply = vi.fn().mockResolvedValue(undefined);
+    render(<SeatingPresets onApply={onApply} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Seat Mixed quartets' }));
+
+    expect(onApply).toHaveBeenCalledWith('quartets');
+  });
+
+  // ⚠️ Negative cases
+  test('reports a preset that could not be applied', async () => {
+    render(<SeatingPresets onApply={vi.fn().mockRejectedValue(new Error('No project loaded'))} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Seat Centre' }));
+
+    await waitFor(() => {
+      expect(useErrorStore.getState().error).toBe('Could not apply the seating preset.');
+    });
+  });
+});
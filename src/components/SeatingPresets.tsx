@@ -0,0 +1,70 @@
+// [EARS: PAN-004] One-click seating presets that pan every track
+
+import { SEATING_PRESETS, type SeatingPreset } from '../audio/seating';
+import { useErrorStore } from '../store/useErrorStore';
+
+export interface SeatingPresetsProps {
+  onApply: (preset: SeatingPreset) => Promise<void>;
+}
+
+const controlStyle = {
+  padding: '0.25rem 0.5rem',
+  backgroundColor: '#555',
+  color: '#fff',
+  border: 'none',
+  borderRadius: '3px',
+  fontSize: '0.75rem',
+  cursor: 'pointer',
+};
+
+/**
+ * SeatingPresets seats the choir across the stereo field
+ * [EARS: PAN-004] Sections left to right, mixed quartets, or everyone centred
+ */
+export function SeatingPresets({ onApply }: SeatingPresetsProps) {
+  const setError = useErrorStore((state) => state.setError);
+
+  /**
+   * Apply a preset to every track
+   * [EARS: PAN-004]
+   */
+  const handleApply = async (preset: SeatingPreset) => {
+    try {
+      await onApply(preset);
+    } catch (error) {
+      console.error('Seating preset failed:', error);
+      setError('Could not apply the seating preset.');
+    }
+  };
+
+  return (
+    <div
+      className="seating-presets"
+      role="group"
+      aria-label="Seating"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.4rem',
+        padding: '0.4rem',
+        backgroundColor: '#2c2c2c',
+        border: '1px solid #444',
+        borderRadius: '3px',
+        fontSize: '0.75rem',
+        color: '#ccc',
+      }}
+    >
+      <span>Seating</span>
+      {SEATING_PRESETS.map((preset) => (
+        <button
+          key={preset.id}
+          onClick={() => handleApply(preset.id)}
+          aria-label={`Seat ${preset.label}`}
+          style={controlStyle}
+        >
+          {preset.label}
+        </button>
+      ))}
+    </div>
+  );
+}
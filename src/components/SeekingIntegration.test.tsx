@@ -28,6 +28,7 @@ const mockMixer = {
   seek: vi.fn(),
   isPlaying: vi.fn(() => mockIsPlaying),
   loadTracks: vi.fn(),
+  setPracticeMix: vi.fn(),
 };
 
 vi.mock('../contexts/MixerContext', () => ({
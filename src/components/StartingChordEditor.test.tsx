@@ -0,0 +1,56 @@
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { StartingChordEditor } from './StartingChordEditor';
+
+describe('CHORD-001: Starting chord editor', () => {
+  // ✅ Happy path
+  test('shows the pitch of each voice part', () => {
+    render(
+      <StartingChordEditor
+        chord={{ S: { semitone: 4, octave: 5 }, B: { semitone: 0, octave: 3 } }}
+        onChange={vi.fn()}
+      />
+    );
+
+    expect(screen.getByRole('combobox', { name: 'Starting note for Soprano' })).toHaveValue('E5');
+    expect(screen.getByRole('combobox', { name: 'Starting note for Alto' })).toHaveValue('');
+    expect(screen.getByRole('combobox', { name: 'Starting note for Bass' })).toHaveValue('C3');
+  });
+
+  test('reports the full chord when a part changes', () => {
+    const onChange = vi.fn();
+    render(<StartingChordEditor chord={{ S: { semitone: 4, octave: 5 } }} onChange={onChange} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Starting note for Tenor' }), {
+      target: { value: 'G#3' },
+    });
+
+    expect(onChange).toHaveBeenCalledWith({
+      S: { semitone: 4, octave: 5 },
+      T: { semitone: 8, octave: 3 },
+    });
+  });
+
+  // 🔥 Edge cases
+  test('leaves a part out of the chord', () => {
+    const onChange = vi.fn();
+    render(<StartingChordEditor chord={{ S: { semitone: 4, octave: 5 } }} onChange={onChange} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Starting note for Soprano' }), {
+      target: { value: '' },
+    });
+
+    expect(onChange).toHaveBeenCalledWith({});
+  });
+
+  test('offers every pitch from C2 to B6', () => {
+    render(<StartingChordEditor chord={{}} onChange={vi.fn()} />);
+
+    const options = Array.from(
+      screen.getByRole('combobox', { name: 'Starting note for Bass' }).querySelectorAll('option')
+    ).map((option) => option.value);
+    expect(options).toHaveLength(61);
+    expect(options[1]).toBe('C2');
+    expect(options[60]).toBe('B6');
+  });
+});
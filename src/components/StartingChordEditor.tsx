@@ -0,0 +1,82 @@
+// [EARS: CHORD-001] Editor for the per-project starting chord
+
+import { MIN_OCTAVE, MAX_OCTAVE } from '../audio/toneGenerator';
+import { formatPitch } from '../audio/pitch';
+import type { Pitch, StartingChord, VoicePartType } from '../store/types';
+
+const VOICE_PARTS: { type: VoicePartType; label: string }[] = [
+  { type: 'S', label: 'Soprano' },
+  { type: 'A', label: 'Alto' },
+  { type: 'T', label: 'Tenor' },
+  { type: 'B', label: 'Bass' },
+];
+
+// Every tone generator pitch, lowest first
+const PITCHES: Pitch[] = [];
+for (let octave = MIN_OCTAVE; octave <= MAX_OCTAVE; octave++) {
+  for (let semitone = 0; semitone < 12; semitone++) {
+    PITCHES.push({ semitone, octave });
+  }
+}
+
+export interface StartingChordEditorProps {
+  chord: StartingChord;
+  onChange: (chord: StartingChord) => void;
+}
+
+/**
+ * StartingChordEditor picks one pitch per voice part
+ * [EARS: CHORD-001] Each edit is reported as the full chord; "—" leaves a part out
+ */
+export function StartingChordEditor({ chord, onChange }: StartingChordEditorProps) {
+  const handleChange = (voicePart: VoicePartType, value: string) => {
+    const updated = { ...chord };
+    const pitch = PITCHES.find((p) => formatPitch(p) === value);
+    if (pitch) {
+      updated[voicePart] = pitch;
+    } else {
+      delete updated[voicePart];
+    }
+    onChange(updated);
+  };
+
+  return (
+    <div
+      className="starting-chord-editor"
+      style={{ display: 'flex', alignItems: 'center', gap: '0.3rem', fontSize: '0.75rem', color: '#ccc' }}
+    >
+      {VOICE_PARTS.map(({ type, label }) => {
+        const pitch = chord[type];
+
+        return (
+          <label key={type} style={{ display: 'flex', alignItems: 'center', gap: '0.2rem' }}>
+            {type}
+            <select
+              value={pitch ? formatPitch(pitch) : ''}
+              onChange={(e) => handleChange(type, e.target.value)}
+              aria-label={`Starting note for ${label}`}
+              style={{
+                padding: '0.2rem',
+                backgroundColor: '#444',
+                color: '#fff',
+                border: '1px solid #666',
+                borderRadius: '3px',
+                fontSize: '0.7rem',
+              }}
+            >
+              <option value="">—</option>
+              {PITCHES.map((p) => {
+                const name = formatPitch(p);
+                return (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                );
+              })}
+            </select>
+          </label>
+        );
+      })}
+    </div>
+  );
+}
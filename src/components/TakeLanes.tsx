@@ -0,0 +1,109 @@
+// [EARS: LOOP-004, LOOP-005] Take lanes for a loop-recorded track with comping controls
+
+import type { CompSegment, Track } from '@/store/types';
+import { assignCompRange } from '@/audio/compRenderer';
+import { Waveform } from './Waveform';
+
+export interface TakeLanesProps {
+  track: Track;
+  onCompChange?: (comp: CompSegment[]) => void;
+}
+
+const LANE_WIDTH = 250;
+const COMP_COLOR = '#4caf50';
+
+/**
+ * TakeLanes lists every take of a track with the comp segments it supplies
+ * [EARS: LOOP-005] "Use" picks a take for the whole track; shift+drag picks it for a segment
+ */
+export function TakeLanes({ track, onCompChange }: TakeLanesProps) {
+  const takes = track.takes ?? [];
+  const comp = track.comp ?? [];
+  const duration = takes.reduce((max, take) => Math.max(max, take.duration), 0);
+
+  /**
+   * Assign a range of the comp to a take
+   * [EARS: LOOP-005] Comp ranges are in seconds from track start
+   */
+  const assign = (takeId: string, start: number, end: number) => {
+    if (!onCompChange || end <= start) return;
+    onCompChange(assignCompRange(comp, takeId, start, end));
+  };
+
+  return (
+    <div
+      className="take-lanes"
+      data-testid="take-lanes"
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '0.2rem',
+        padding: '0.3rem 0.4rem 0.3rem 2rem',
+        marginBottom: '0.3rem',
+      }}
+    >
+      {takes.map((take, index) => {
+        const segments = comp.filter(segment => segment.takeId === take.id);
+        const label = `Take ${index + 1}`;
+
+        return (
+          <div
+            key={take.id}
+            data-testid="take-lane"
+            style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}
+          >
+            <span style={{ color: '#888', fontSize: '0.7rem', minWidth: '48px' }}>{label}</span>
+
+            <button
+              onClick={() => assign(take.id, 0, duration)}
+              aria-label={`Use take ${index + 1}`}
+              disabled={!onCompChange}
+              style={{
+                padding: '0.2rem 0.4rem',
+                backgroundColor: segments.length > 0 ? COMP_COLOR : '#555',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '3px',
+                cursor: 'pointer',
+                fontSize: '0.65rem',
+              }}
+            >
+              Use
+            </button>
+
+            <div style={{ position: 'relative' }}>
+              <Waveform
+                data={take.waveformData}
+                width={LANE_WIDTH}
+                height={24}
+                duration={duration}
+                trackDuration={take.duration}
+                onSelectionChange={(range) => {
+                  if (range) assign(take.id, range.start, range.end);
+                }}
+              />
+
+              {/* [EARS: LOOP-005] Parts of the comp taken from this lane */}
+              {duration > 0 &&
+                segments.map(segment => (
+                  <div
+                    key={`${segment.start}-${segment.end}`}
+                    data-testid="comp-segment"
+                    style={{
+                      position: 'absolute',
+                      bottom: 0,
+                      left: `${(segment.start / duration) * LANE_WIDTH}px`,
+                      width: `${((segment.end - segment.start) / duration) * LANE_WIDTH}px`,
+                      height: '3px',
+                      backgroundColor: COMP_COLOR,
+                      pointerEvents: 'none',
+                    }}
+                  />
+                ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
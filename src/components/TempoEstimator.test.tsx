@@ -0,0 +1,119 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { TempoEstimator } from './TempoEstimator';
+import type { TempoDetector } from '../audio/tempoDetector';
+import type { Track } from '../store/types';
+import { useErrorStore } from '../store/useErrorStore';
+
+const makeTrack = (id: string, name: string): Track => ({
+  id,
+  voicePartType: 'S',
+  name,
+  audioBlob: new Blob([id]),
+  duration: 20,
+  volume: 80,
+  muted: false,
+  soloed: false,
+  waveformData: [],
+  createdAt: new Date(),
+});
+
+const tracks = [makeTrack('t1', 'S1'), makeTrack('t2', 'A1')];
+
+const makeDetector = (detect: TempoDetector['detect']) => ({ detect: vi.fn(detect) }) as unknown as TempoDetector;
+
+describe('TAP-002, TAP-003, TAP-004, TAP-005: Estimate tempo from a track', () => {
+  afterEach(() => {
+    useErrorStore.getState().clearError();
+  });
+
+  // ✅ Happy path
+  test('analyzes the chosen track and proposes a BPM and first beat', async () => {
+    const detector = makeDetector(async () => ({ bpm: 96, firstBeat: 0.42, confidence: 0.8 }));
+    render(<TempoEstimator tracks={tracks} detector={detector} onApply={vi.fn()} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Estimate tempo from track' }), {
+      target: { value: 't2' },
+    });
+
+    expect(await screen.findByTestId('tempo-proposal')).toHaveTextContent('≈ 96 BPM, first beat 0.42s');
+    expect(detector.detect).toHaveBeenCalledWith(tracks[1]!.audioBlob);
+  });
+
+  test('applies the proposal', async () => {
+    const estimate = { bpm: 96, firstBeat: 0.42, confidence: 0.8 };
+    const onApply = vi.fn();
+    render(<TempoEstimator tracks={tracks} detector={makeDetector(async () => estimate)} onApply={onApply} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Estimate tempo from track' }), {
+      target: { value: 't1' },
+    });
+    fireEvent.click(await screen.findByRole('button', { name: 'Apply estimated tempo' }));
+
+    expect(onApply).toHaveBeenCalledWith('t1', estimate, false);
+    await waitFor(() => {
+      expect(screen.queryByTestId('tempo-proposal')).not.toBeInTheDocument();
+    });
+  });
+
+  test('applies the proposal and aligns the tracks when asked', async () => {
+    const estimate = { bpm: 96, firstBeat: 0.42, confidence: 0.8 };
+    const onApply = vi.fn();
+    render(<TempoEstimator tracks={tracks} detector={makeDetector(async () => estimate)} onApply={onApply} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Estimate tempo from track' }), {
+      target: { value: 't1' },
+    });
+    fireEvent.click(await screen.findByRole('button', { name: 'Apply estimated tempo and align tracks' }));
+
+    expect(onApply).toHaveBeenCalledWith('t1', estimate, true);
+  });
+
+  test('dismisses the proposal without applying it', async () => {
+    const onApply = vi.fn();
+    const detector = makeDetector(async () => ({ bpm: 96, firstBeat: 0.42, confidence: 0.8 }));
+    render(<TempoEstimator tracks={tracks} detector={detector} onApply={onApply} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Estimate tempo from track' }), {
+      target: { value: 't1' },
+    });
+    fireEvent.click(await screen.findByRole('button', { name: 'Dismiss estimated tempo' }));
+
+    expect(screen.queryByTestId('tempo-proposal')).not.toBeInTheDocument();
+    expect(onApply).not.toHaveBeenCalled();
+  });
+
+  // ⚠️ Negative cases
+  test('reports a track without a steady beat', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const detector = makeDetector(async () => {
+      throw new Error('No steady beat detected');
+    });
+    render(<TempoEstimator tracks={tracks} detector={detector} onApply={vi.fn()} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Estimate tempo from track' }), {
+      target: { value: 't1' },
+    });
+
+    await waitFor(() => {
+      expect(useErrorStore.getState().error).toBe('Could not find a steady beat in S1.');
+    });
+    expect(screen.queryByTestId('tempo-proposal')).not.toBeInTheDocument();
+  });
+
+  // 🔥 Edge cases
+  test('disables the picker while analyzing', async () => {
+    let finish: (value: { bpm: number; firstBeat: number; confidence: number }) => void = () => {};
+    const detector = makeDetector(() => new Promise((resolve) => { finish = resolve; }));
+    render(<TempoEstimator tracks={tracks} detector={detector} onApply={vi.fn()} />);
+
+    const picker = screen.getByRole('combobox', { name: 'Estimate tempo from track' });
+    fireEvent.change(picker, { target: { value: 't1' } });
+
+    expect(picker).toBeDisabled();
+    expect(screen.getByText('Analyzing…')).toBeInTheDocument();
+
+    finish({ bpm: 100, firstBeat: 0, confidence: 1 });
+    await waitFor(() => expect(picker).not.toBeDisabled());
+  });
+});
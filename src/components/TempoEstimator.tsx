@@ -0,0 +1,118 @@
+// [EARS: TAP-002, TAP-003, TAP-004, TAP-005] Estimate the tempo of a recorded track
+
+import { useState } from 'react';
+import type { TempoDetector, TempoEstimate } from '../audio/tempoDetector';
+import type { Track } from '../store/types';
+import { useErrorStore } from '../store/useErrorStore';
+
+export interface TempoEstimatorProps {
+  tracks: Track[];
+  detector: TempoDetector;
+  onApply: (trackId: string, estimate: TempoEstimate, alignTracks: boolean) => void | Promise<void>;
+}
+
+const controlStyle = {
+  padding: '0.25rem',
+  backgroundColor: '#444',
+  color: '#fff',
+  border: '1px solid #666',
+  borderRadius: '3px',
+  fontSize: '0.75rem',
+};
+
+/**
+ * TempoEstimator analyzes a track and proposes a BPM and first beat
+ * [EARS: TAP-002] Pick a track to analyze
+ * [EARS: TAP-003] Show the proposal before anything changes
+ * [EARS: TAP-004] Apply or dismiss the proposal
+ * [EARS: TAP-005] Or apply it and align the tracks to the beat
+ */
+export function TempoEstimator({ tracks, detector, onApply }: TempoEstimatorProps) {
+  const setError = useErrorStore((state) => state.setError);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [proposal, setProposal] = useState<{ trackId: string; estimate: TempoEstimate } | null>(null);
+
+  /**
+   * Analyze the chosen track
+   * [EARS: TAP-002]
+   */
+  const handleTrackChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const track = tracks.find((t) => t.id === e.target.value);
+    if (!track) return;
+
+    setProposal(null);
+    setAnalyzing(true);
+    try {
+      const estimate = await detector.detect(track.audioBlob);
+      setProposal({ trackId: track.id, estimate });
+    } catch (error) {
+      console.error('Tempo detection failed:', error);
+      setError(`Could not find a steady beat in ${track.name}.`);
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  /**
+   * Adopt the proposed tempo
+   * [EARS: TAP-004, TAP-005]
+   *
+   * @param alignTracks - Also move the tracks so the first beat lands on a downbeat
+   */
+  const handleApply = async (alignTracks: boolean) => {
+    if (!proposal) return;
+    await onApply(proposal.trackId, proposal.estimate, alignTracks);
+    setProposal(null);
+  };
+
+  return (
+    <div className="tempo-estimator" style={{ display: 'flex', alignItems: 'center', gap: '0.3rem' }}>
+      <select
+        value=""
+        onChange={handleTrackChange}
+        disabled={analyzing || tracks.length === 0}
+        aria-label="Estimate tempo from track"
+        style={controlStyle}
+      >
+        <option value="">{analyzing ? 'Analyzing…' : 'Detect tempo…'}</option>
+        {tracks.map((track) => (
+          <option key={track.id} value={track.id}>
+            {track.name}
+          </option>
+        ))}
+      </select>
+
+      {/* [EARS: TAP-003] Proposed BPM and first beat */}
+      {proposal && (
+        <>
+          <span data-testid="tempo-proposal" style={{ color: '#fff', fontSize: '0.75rem' }}>
+            ≈ {proposal.estimate.bpm} BPM, first beat {proposal.estimate.firstBeat.toFixed(2)}s
+          </span>
+          <button
+            onClick={() => handleApply(false)}
+            aria-label="Apply estimated tempo"
+            style={{ ...controlStyle, cursor: 'pointer', backgroundColor: '#1976d2', border: 'none' }}
+          >
+            Apply
+          </button>
+          {/* [EARS: TAP-005] Moving the tracks is a separate choice */}
+          <button
+            onClick={() => handleApply(true)}
+            aria-label="Apply estimated tempo and align tracks"
+            title="Also move every track so the first beat lands on the next downbeat"
+            style={{ ...controlStyle, cursor: 'pointer', backgroundColor: '#1976d2', border: 'none' }}
+          >
+            Apply and align
+          </button>
+          <button
+            onClick={() => setProposal(null)}
+            aria-label="Dismiss estimated tempo"
+            style={{ ...controlStyle, cursor: 'pointer', backgroundColor: '#555', border: 'none' }}
+          >
+            ×
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
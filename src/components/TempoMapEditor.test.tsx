@@ -0,0 +1,99 @@
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TempoMapEditor } from './TempoMapEditor';
+import type { TempoEvent } from '@/store/types';
+
+const events: TempoEvent[] = [
+  { bar: 17, bpm: 96 },
+  { bar: 33, bpm: 72, ramp: true },
+];
+
+describe('TEMPO-002: Tempo map editor', () => {
+  // ✅ Happy path
+  test('lists each tempo change', () => {
+    render(<TempoMapEditor events={events} defaultBpm={120} onChange={vi.fn()} />);
+
+    expect(screen.getAllByTestId('tempo-change')).toHaveLength(2);
+    expect(screen.getByRole('spinbutton', { name: 'Bar of tempo change 1' })).toHaveValue(17);
+    expect(screen.getByRole('checkbox', { name: 'Ramp into tempo change 2' })).toBeChecked();
+  });
+
+  test('adds a change four bars after the last one at its tempo', () => {
+    const onChange = vi.fn();
+    render(<TempoMapEditor events={events} defaultBpm={120} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add tempo change' }));
+
+    expect(onChange).toHaveBeenCalledWith([...events, { bar: 37, bpm: 72 }]);
+  });
+
+  test('edits bar, tempo, meter and ramp', () => {
+    const onChange = vi.fn();
+    render(<TempoMapEditor events={events} defaultBpm={120} onChange={onChange} />);
+
+    const bar = screen.getByRole('spinbutton', { name: 'Bar of tempo change 1' });
+    fireEvent.change(bar, { target: { value: '21' } });
+    fireEvent.blur(bar);
+    expect(onChange).toHaveBeenLastCalledWith([{ bar: 21, bpm: 96 }, events[1]]);
+
+    const bpm = screen.getByRole('spinbutton', { name: 'BPM of tempo change 1' });
+    fireEvent.change(bpm, { target: { value: '100' } });
+    fireEvent.blur(bpm);
+    expect(onChange).toHaveBeenLastCalledWith([{ bar: 17, bpm: 100 }, events[1]]);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Time signature of tempo change 1' }), {
+      target: { value: '3/4' },
+    });
+    expect(onChange).toHaveBeenLastCalledWith([
+      { bar: 17, bpm: 96, timeSignature: { beatsPerBar: 3, beatUnit: 4 } },
+      events[1],
+    ]);
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Ramp into tempo change 1' }));
+    expect(onChange).toHaveBeenLastCalledWith([{ bar: 17, bpm: 96, ramp: true }, events[1]]);
+  });
+
+  test('removes a change', () => {
+    const onChange = vi.fn();
+    render(<TempoMapEditor events={events} defaultBpm={120} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove tempo change 1' }));
+
+    expect(onChange).toHaveBeenCalledWith([events[1]]);
+  });
+
+  // ⚠️ Negative cases
+  test('ignores moving a change onto bar 1 or onto another change', () => {
+    const onChange = vi.fn();
+    render(<TempoMapEditor events={events} defaultBpm={120} onChange={onChange} />);
+
+    const bar = screen.getByRole('spinbutton', { name: 'Bar of tempo change 1' });
+    fireEvent.change(bar, { target: { value: '1' } });
+    fireEvent.blur(bar);
+    fireEvent.change(bar, { target: { value: '33' } });
+    fireEvent.blur(bar);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('clamps tempo to 40-240 BPM', () => {
+    const onChange = vi.fn();
+    render(<TempoMapEditor events={events} defaultBpm={120} onChange={onChange} />);
+
+    const bpm = screen.getByRole('spinbutton', { name: 'BPM of tempo change 1' });
+    fireEvent.change(bpm, { target: { value: '400' } });
+    fireEvent.blur(bpm);
+
+    expect(onChange).toHaveBeenCalledWith([{ bar: 17, bpm: 240 }, events[1]]);
+  });
+
+  test('adds the first change at bar 5 at the project tempo', () => {
+    const onChange = vi.fn();
+    render(<TempoMapEditor events={[]} defaultBpm={108} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add tempo change' }));
+
+    expect(onChange).toHaveBeenCalledWith([{ bar: 5, bpm: 108 }]);
+  });
+});
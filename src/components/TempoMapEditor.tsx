@@ -0,0 +1,179 @@
+// [EARS: TEMPO-002] Editor for tempo and meter changes
+
+import type { TempoEvent, TimeSignature } from '@/store/types';
+
+export const TIME_SIGNATURES = ['2/4', '3/4', '4/4', '5/4', '6/8', '7/8', '9/8', '12/8'];
+
+const MIN_BPM = 40;
+const MAX_BPM = 240;
+const NEW_CHANGE_BAR_STEP = 4; // Bars after the last change where a new one is added
+
+export interface TempoMapEditorProps {
+  events: TempoEvent[];
+  defaultBpm: number; // Tempo for the first change added
+  onChange: (events: TempoEvent[]) => void;
+}
+
+const inputStyle = {
+  width: '48px',
+  padding: '0.2rem',
+  backgroundColor: '#444',
+  color: '#fff',
+  border: '1px solid #666',
+  borderRadius: '3px',
+  fontSize: '0.75rem',
+};
+
+/**
+ * Parse a "beats/unit" option
+ */
+function parseTimeSignature(value: string): TimeSignature | undefined {
+  const [beatsPerBar, beatUnit] = value.split('/').map(Number);
+  return beatsPerBar && beatUnit ? { beatsPerBar, beatUnit } : undefined;
+}
+
+/**
+ * TempoMapEditor lists the tempo/meter changes after bar 1
+ * [EARS: TEMPO-002] Add, edit and remove changes; each edit is reported as the full list
+ */
+export function TempoMapEditor({ events, defaultBpm, onChange }: TempoMapEditorProps) {
+  /**
+   * Replace one change, keeping one change per bar
+   */
+  const update = (index: number, changes: Partial<TempoEvent>) => {
+    const event = events[index];
+    if (!event) return;
+    const updated = { ...event, ...changes };
+    if (events.some((event, i) => i !== index && event.bar === updated.bar)) return;
+    onChange(events.map((event, i) => (i === index ? updated : event)));
+  };
+
+  /**
+   * Commit a bar number typed into a field
+   * [EARS: TEMPO-001] Changes start at bar 2 or later
+   */
+  const handleBarBlur = (index: number, value: string) => {
+    const bar = parseInt(value, 10);
+    if (!isNaN(bar) && bar >= 2 && bar !== events[index]?.bar) {
+      update(index, { bar });
+    }
+  };
+
+  /**
+   * Commit a tempo typed into a field
+   * [EARS: TEMPO-001] Clamp to 40-240 BPM
+   */
+  const handleBpmBlur = (index: number, value: string) => {
+    const bpm = parseInt(value, 10);
+    if (isNaN(bpm)) return;
+    const clamped = Math.max(MIN_BPM, Math.min(MAX_BPM, bpm));
+    if (clamped !== events[index]?.bpm) {
+      update(index, { bpm: clamped });
+    }
+  };
+
+  const handleAdd = () => {
+    const last = events[events.length - 1];
+    onChange([
+      ...events,
+      { bar: (last?.bar ?? 1) + NEW_CHANGE_BAR_STEP, bpm: last?.bpm ?? defaultBpm },
+    ]);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(events.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div
+      className="tempo-map-editor"
+      style={{ display: 'flex', flexDirection: 'column', gap: '0.3rem' }}
+    >
+      {events.map((event, index) => {
+        const n = index + 1;
+
+        return (
+          <div
+            // Re-mount the uncommitted fields whenever the saved change differs
+            key={`${event.bar}-${event.bpm}`}
+            data-testid="tempo-change"
+            style={{ display: 'flex', alignItems: 'center', gap: '0.3rem', fontSize: '0.75rem', color: '#ccc' }}
+          >
+            <span>Bar</span>
+            <input
+              type="number"
+              min="2"
+              defaultValue={event.bar}
+              onBlur={(e) => handleBarBlur(index, e.target.value)}
+              aria-label={`Bar of tempo change ${n}`}
+              style={inputStyle}
+            />
+            <input
+              type="number"
+              min={MIN_BPM}
+              max={MAX_BPM}
+              defaultValue={event.bpm}
+              onBlur={(e) => handleBpmBlur(index, e.target.value)}
+              aria-label={`BPM of tempo change ${n}`}
+              style={inputStyle}
+            />
+            <span>BPM</span>
+            <select
+              value={event.timeSignature ? `${event.timeSignature.beatsPerBar}/${event.timeSignature.beatUnit}` : ''}
+              onChange={(e) => update(index, { timeSignature: parseTimeSignature(e.target.value) })}
+              aria-label={`Time signature of tempo change ${n}`}
+              style={{ ...inputStyle, width: 'auto' }}
+            >
+              <option value="">Same meter</option>
+              {TIME_SIGNATURES.map((signature) => (
+                <option key={signature} value={signature}>
+                  {signature}
+                </option>
+              ))}
+            </select>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.2rem', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={event.ramp ?? false}
+                onChange={() => update(index, { ramp: !event.ramp })}
+                aria-label={`Ramp into tempo change ${n}`}
+              />
+              Ramp
+            </label>
+            <button
+              onClick={() => handleRemove(index)}
+              aria-label={`Remove tempo change ${n}`}
+              style={{
+                padding: '0.1rem 0.4rem',
+                backgroundColor: '#555',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '3px',
+                cursor: 'pointer',
+              }}
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={handleAdd}
+        aria-label="Add tempo change"
+        style={{
+          alignSelf: 'flex-start',
+          padding: '0.2rem 0.5rem',
+          backgroundColor: '#555',
+          color: '#fff',
+          border: 'none',
+          borderRadius: '3px',
+          cursor: 'pointer',
+          fontSize: '0.75rem',
+        }}
+      >
+        + Tempo change
+      </button>
+    </div>
+  );
+}
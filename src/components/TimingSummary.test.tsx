@@ -0,0 +1,68 @@
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TimingSummary } from './TimingSummary';
+import type { TimingReport } from '../audio/timingAnalyzer';
+
+const report: TimingReport = {
+  notes: [
+    { time: 0.46, gridTime: 0.5, offset: -0.04 },
+    { time: 0.98, gridTime: 1, offset: -0.02 },
+  ],
+  meanOffset: -0.03,
+  meanAbsoluteOffset: 0.03,
+  early: 1,
+  late: 0,
+  tendency: 'rushing',
+};
+
+describe('TIMING-002, TIMING-004: Timing summary', () => {
+  // ✅ Happy path
+  test('shows the verdict and statistics', () => {
+    render(<TimingSummary report={report} subdivision={1} onSubdivisionChange={vi.fn()} />);
+
+    expect(screen.getByTestId('timing-tendency')).toHaveTextContent('Rushing');
+    expect(screen.getByTestId('timing-stats')).toHaveTextContent(
+      '2 notes · average −30ms · spread ±30ms · 1 early · 0 late'
+    );
+  });
+
+  test('changes the grid', () => {
+    const onSubdivisionChange = vi.fn();
+    render(<TimingSummary report={report} subdivision={1} onSubdivisionChange={onSubdivisionChange} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Timing grid' }), { target: { value: '2' } });
+
+    expect(onSubdivisionChange).toHaveBeenCalledWith(2);
+  });
+
+  // ⚠️ Negative cases
+  test('says so while the notes are being found', () => {
+    render(<TimingSummary report={null} subdivision={1} onSubdivisionChange={vi.fn()} />);
+
+    expect(screen.getByText('Finding notes…')).toBeInTheDocument();
+  });
+
+  test('says so when no notes were found', () => {
+    render(
+      <TimingSummary report={{ ...report, notes: [], tendency: 'steady' }} subdivision={1} onSubdivisionChange={vi.fn()} />
+    );
+
+    expect(screen.getByText('No notes found')).toBeInTheDocument();
+    expect(screen.queryByTestId('timing-tendency')).not.toBeInTheDocument();
+  });
+
+  // 🔥 Edge cases
+  test('shows a late average with a plus sign', () => {
+    render(
+      <TimingSummary
+        report={{ ...report, meanOffset: 0.0204, tendency: 'dragging' }}
+        subdivision={4}
+        onSubdivisionChange={vi.fn()}
+      />
+    );
+
+    expect(screen.getByTestId('timing-tendency')).toHaveTextContent('Dragging');
+    expect(screen.getByTestId('timing-stats')).toHaveTextContent('average +20ms');
+    expect(screen.getByRole('combobox', { name: 'Timing grid' })).toHaveValue('4');
+  });
+});
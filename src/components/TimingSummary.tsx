@@ -0,0 +1,96 @@
+// [EARS: TIMING-002, TIMING-004] Timing report summary for a track: grid choice and rushing/dragging verdict
+
+import type { TimingReport, TimingTendency } from '../audio/timingAnalyzer';
+
+export interface TimingSummaryProps {
+  report: TimingReport | null; // null while the onsets are being found
+  subdivision: number; // Grid divisions per beat
+  onSubdivisionChange: (subdivision: number) => void;
+}
+
+// [EARS: TIMING-002] Grids the onsets can be measured against (the click track's subdivisions)
+export const TIMING_GRIDS = [
+  { subdivision: 1, label: 'Beats' },
+  { subdivision: 2, label: 'Eighths' },
+  { subdivision: 3, label: 'Triplets' },
+  { subdivision: 4, label: 'Sixteenths' },
+];
+
+const TENDENCY_LABELS: Record<TimingTendency, string> = {
+  rushing: 'Rushing',
+  dragging: 'Dragging',
+  steady: 'Steady',
+};
+
+const TENDENCY_COLORS: Record<TimingTendency, string> = {
+  rushing: '#2196f3',
+  dragging: '#ff9800',
+  steady: '#4caf50',
+};
+
+/**
+ * Format a signed offset in milliseconds
+ */
+function formatOffset(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  return `${ms > 0 ? '+' : ms < 0 ? '−' : ''}${Math.abs(ms)}ms`;
+}
+
+/**
+ * TimingSummary shows how a track sits against the tempo grid
+ * [EARS: TIMING-004] Note count, average offset, early/late counts and a rushing/dragging verdict
+ */
+export function TimingSummary({ report, subdivision, onSubdivisionChange }: TimingSummaryProps) {
+  return (
+    <div
+      className="timing-summary"
+      data-testid="timing-summary"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.6rem',
+        padding: '0.3rem 0.4rem 0.3rem 2rem',
+        marginBottom: '0.3rem',
+        fontSize: '0.75rem',
+        color: '#ccc',
+      }}
+    >
+      {/* [EARS: TIMING-002] Grid to measure against */}
+      <select
+        value={subdivision}
+        onChange={(e) => onSubdivisionChange(parseInt(e.target.value, 10))}
+        aria-label="Timing grid"
+        style={{
+          padding: '0.25rem',
+          backgroundColor: '#444',
+          color: '#fff',
+          border: '1px solid #666',
+          borderRadius: '3px',
+          fontSize: '0.75rem',
+        }}
+      >
+        {TIMING_GRIDS.map((grid) => (
+          <option key={grid.subdivision} value={grid.subdivision}>
+            {grid.label}
+          </option>
+        ))}
+      </select>
+
+      {!report ? (
+        <span style={{ color: '#888' }}>Finding notes…</span>
+      ) : report.notes.length === 0 ? (
+        <span style={{ color: '#888' }}>No notes found</span>
+      ) : (
+        <>
+          <strong data-testid="timing-tendency" style={{ color: TENDENCY_COLORS[report.tendency] }}>
+            {TENDENCY_LABELS[report.tendency]}
+          </strong>
+          <span data-testid="timing-stats">
+            {report.notes.length} notes · average {formatOffset(report.meanOffset)} · spread ±
+            {Math.round(report.meanAbsoluteOffset * 1000)}ms · {report.early} early · {report.late} late
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { describe, test, expect, beforeEach, vi, afterEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
-import { ToneGenerator as ToneGeneratorComponent } from './ToneGenerator';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import { createRef } from 'react';
+import { ToneGenerator as ToneGeneratorComponent, type ToneGeneratorHandle } from './ToneGenerator';
 import { ToneGenerator } from '../audio/toneGenerator';
+import { useProjectStore } from '../store/useProjectStore';
+import { db, initializeDatabase } from '../db/index';
 
 // Mock ToneGenerator class
 vi.mock('../audio/toneGenerator');
@@ -14,6 +17,7 @@ describe('TONE-003, TONE-006: Tone generator UI', () => {
       play: vi.fn(),
       stop: vi.fn(),
       dispose: vi.fn(),
+      setTuning: vi.fn(),
     };
     vi.mocked(ToneGenerator).mockImplementation(function() {
       return mockToneGenerator;
@@ -25,10 +29,10 @@ describe('TONE-003, TONE-006: Tone generator UI', () => {
   });
 
   // ✅ Happy path
-  test('renders all 12 tone buttons', () => {
+  test('renders all 12 tone buttons named with their octave', () => {
     render(<ToneGeneratorComponent />);
 
-    const tones = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+    const tones = ['C4', 'C#4', 'D4', 'D#4', 'E4', 'F4', 'F#4', 'G4', 'G#4', 'A4', 'A#4', 'B4'];
     tones.forEach(tone => {
       expect(screen.getByRole('button', { name: tone })).toBeInTheDocument();
     });
@@ -37,10 +41,11 @@ describe('TONE-003, TONE-006: Tone generator UI', () => {
   test('renders buttons in chromatic order', () => {
     render(<ToneGeneratorComponent />);
 
-    const buttons = screen.getAllByRole('button');
+    // Tone buttons follow the chord controls
+    const buttons = screen.getAllByRole('button').filter(btn => btn.getAttribute('aria-label') === btn.textContent);
     const toneLabels = buttons.map(btn => btn.textContent);
 
-    expect(toneLabels).toEqual(['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']);
+    expect(toneLabels).toEqual(['C4', 'C#4', 'D4', 'D#4', 'E4', 'F4', 'F#4', 'G4', 'G#4', 'A4', 'A#4', 'B4']);
   });
 });
 
@@ -52,6 +57,7 @@ describe('TONE-004: Play tone on button press', () => {
       play: vi.fn(),
       stop: vi.fn(),
       dispose: vi.fn(),
+      setTuning: vi.fn(),
     };
     vi.mocked(ToneGenerator).mockImplementation(function() {
       return mockToneGenerator;
@@ -66,40 +72,40 @@ describe('TONE-004: Play tone on button press', () => {
   test('plays tone when button clicked', () => {
     render(<ToneGeneratorComponent />);
 
-    const cButton = screen.getByRole('button', { name: 'C' });
+    const cButton = screen.getByRole('button', { name: 'C4' });
     fireEvent.click(cButton);
 
-    expect(mockToneGenerator.play).toHaveBeenCalledWith(0); // C = semitone 0
+    expect(mockToneGenerator.play).toHaveBeenCalledWith(0, 4); // C = semitone 0
   });
 
   test('plays correct tone for each button', () => {
     render(<ToneGeneratorComponent />);
 
     const toneMap: Record<string, number> = {
-      'C': 0, 'C#': 1, 'D': 2, 'D#': 3, 'E': 4, 'F': 5,
-      'F#': 6, 'G': 7, 'G#': 8, 'A': 9, 'A#': 10, 'B': 11,
+      'C4': 0, 'C#4': 1, 'D4': 2, 'D#4': 3, 'E4': 4, 'F4': 5,
+      'F#4': 6, 'G4': 7, 'G#4': 8, 'A4': 9, 'A#4': 10, 'B4': 11,
     };
 
     Object.entries(toneMap).forEach(([label, semitone]) => {
       mockToneGenerator.play.mockClear();
       const button = screen.getByRole('button', { name: label });
       fireEvent.click(button);
-      expect(mockToneGenerator.play).toHaveBeenCalledWith(semitone);
+      expect(mockToneGenerator.play).toHaveBeenCalledWith(semitone, 4);
     });
   }, 10000); // Increase timeout for testing all 12 buttons
 
   test('plays different tones for different buttons', () => {
     render(<ToneGeneratorComponent />);
 
-    const cButton = screen.getByRole('button', { name: 'C' });
+    const cButton = screen.getByRole('button', { name: 'C4' });
     fireEvent.click(cButton);
-    expect(mockToneGenerator.play).toHaveBeenCalledWith(0); // C = semitone 0
+    expect(mockToneGenerator.play).toHaveBeenCalledWith(0, 4); // C = semitone 0
 
     mockToneGenerator.play.mockClear();
 
-    const gButton = screen.getByRole('button', { name: 'G' });
+    const gButton = screen.getByRole('button', { name: 'G4' });
     fireEvent.click(gButton);
-    expect(mockToneGenerator.play).toHaveBeenCalledWith(7); // G = semitone 7
+    expect(mockToneGenerator.play).toHaveBeenCalledWith(7, 4); // G = semitone 7
   });
 });
 
@@ -111,6 +117,7 @@ describe('TONE-005: Stop tone on release or second click', () => {
       play: vi.fn(),
       stop: vi.fn(),
       dispose: vi.fn(),
+      setTuning: vi.fn(),
     };
     vi.mocked(ToneGenerator).mockImplementation(function() {
       return mockToneGenerator;
@@ -125,11 +132,11 @@ describe('TONE-005: Stop tone on release or second click', () => {
   test('stops tone when same button clicked twice', () => {
     render(<ToneGeneratorComponent />);
 
-    const cButton = screen.getByRole('button', { name: 'C' });
+    const cButton = screen.getByRole('button', { name: 'C4' });
 
     // First click - play
     fireEvent.click(cButton);
-    expect(mockToneGenerator.play).toHaveBeenCalledWith(0); // C = semitone 0
+    expect(mockToneGenerator.play).toHaveBeenCalledWith(0, 4); // C = semitone 0
 
     // Second click - stop
     fireEvent.click(cButton);
@@ -139,23 +146,23 @@ describe('TONE-005: Stop tone on release or second click', () => {
   test('stops previous tone when different button clicked', () => {
     render(<ToneGeneratorComponent />);
 
-    const cButton = screen.getByRole('button', { name: 'C' });
-    const gButton = screen.getByRole('button', { name: 'G' });
+    const cButton = screen.getByRole('button', { name: 'C4' });
+    const gButton = screen.getByRole('button', { name: 'G4' });
 
     // Play C
     fireEvent.click(cButton);
-    expect(mockToneGenerator.play).toHaveBeenCalledWith(0); // C = semitone 0
+    expect(mockToneGenerator.play).toHaveBeenCalledWith(0, 4); // C = semitone 0
 
     // Play G - should stop C first
     fireEvent.click(gButton);
     expect(mockToneGenerator.stop).toHaveBeenCalled();
-    expect(mockToneGenerator.play).toHaveBeenCalledWith(7); // G = semitone 7
+    expect(mockToneGenerator.play).toHaveBeenCalledWith(7, 4); // G = semitone 7
   });
 
   test('button shows active state when tone is playing', () => {
     render(<ToneGeneratorComponent />);
 
-    const cButton = screen.getByRole('button', { name: 'C' });
+    const cButton = screen.getByRole('button', { name: 'C4' });
 
     // Initially not active
     expect(cButton).not.toHaveClass('active');
@@ -172,8 +179,8 @@ describe('TONE-005: Stop tone on release or second click', () => {
   test('only one button can be active at a time', () => {
     render(<ToneGeneratorComponent />);
 
-    const cButton = screen.getByRole('button', { name: 'C' });
-    const gButton = screen.getByRole('button', { name: 'G' });
+    const cButton = screen.getByRole('button', { name: 'C4' });
+    const gButton = screen.getByRole('button', { name: 'G4' });
 
     // Play C
     fireEvent.click(cButton);
@@ -187,6 +194,243 @@ describe('TONE-005: Stop tone on release or second click', () => {
   });
 });
 
+describe('TONE-007, TONE-009: Octave selection', () => {
+  let mockToneGenerator: any;
+
+  beforeEach(() => {
+    mockToneGenerator = {
+      play: vi.fn(),
+      stop: vi.fn(),
+      dispose: vi.fn(),
+      setTuning: vi.fn(),
+    };
+    vi.mocked(ToneGenerator).mockImplementation(function() {
+      return mockToneGenerator;
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('plays tones in the selected octave', () => {
+    render(<ToneGeneratorComponent />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Octave' }), { target: { value: '2' } });
+    fireEvent.click(screen.getByRole('button', { name: 'E2' }));
+
+    expect(mockToneGenerator.play).toHaveBeenCalledWith(4, 2);
+  });
+
+  test('offers octaves 2 through 6', () => {
+    render(<ToneGeneratorComponent />);
+
+    const options = screen.getAllByRole('option').map(option => option.getAttribute('value'));
+    expect(options).toEqual(['2', '3', '4', '5', '6']);
+  });
+
+  test('defaults to the octave of the voice part being recorded', () => {
+    const { rerender } = render(<ToneGeneratorComponent voicePart="B" />);
+    expect(screen.getByRole('combobox', { name: 'Octave' })).toHaveValue('2');
+
+    rerender(<ToneGeneratorComponent voicePart="T" />);
+    expect(screen.getByRole('combobox', { name: 'Octave' })).toHaveValue('3');
+
+    rerender(<ToneGeneratorComponent voicePart="A" />);
+    expect(screen.getByRole('combobox', { name: 'Octave' })).toHaveValue('4');
+
+    rerender(<ToneGeneratorComponent voicePart="S" />);
+    expect(screen.getByRole('combobox', { name: 'Octave' })).toHaveValue('5');
+    expect(screen.getByRole('button', { name: 'C5' })).toBeInTheDocument();
+  });
+
+  // 🔥 Edge cases
+  test('keeps a hand-picked octave until the voice part changes', () => {
+    const { rerender } = render(<ToneGeneratorComponent voicePart="B" />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Octave' }), { target: { value: '3' } });
+    rerender(<ToneGeneratorComponent voicePart="B" />);
+    expect(screen.getByRole('combobox', { name: 'Octave' })).toHaveValue('3');
+
+    rerender(<ToneGeneratorComponent voicePart="S" />);
+    expect(screen.getByRole('combobox', { name: 'Octave' })).toHaveValue('5');
+  });
+
+  test('stops the playing tone when the octave changes', () => {
+    render(<ToneGeneratorComponent />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'A4' }));
+    fireEvent.change(screen.getByRole('combobox', { name: 'Octave' }), { target: { value: '3' } });
+
+    expect(mockToneGenerator.stop).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'A3' })).not.toHaveClass('active');
+  });
+});
+
+describe('CHORD-001, CHORD-002, CHORD-003: Starting chord', () => {
+  let mockToneGenerator: any;
+  const chord = {
+    S: { semitone: 4, octave: 5 },
+    A: { semitone: 0, octave: 5 },
+    T: { semitone: 7, octave: 3 },
+    B: { semitone: 0, octave: 3 },
+  };
+
+  beforeEach(async () => {
+    mockToneGenerator = {
+      play: vi.fn(),
+      playChord: vi.fn(),
+      stop: vi.fn(),
+      dispose: vi.fn(),
+      setTuning: vi.fn(),
+    };
+    vi.mocked(ToneGenerator).mockImplementation(function() {
+      return mockToneGenerator;
+    } as any);
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+    await useProjectStore.getState().createNewProject('Test Project');
+  });
+
+  afterEach(async () => {
+    useProjectStore.getState().reset();
+    await db.delete();
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('plays the starting chord and stops it on a second click', async () => {
+    await useProjectStore.getState().setStartingChord(chord);
+    render(<ToneGeneratorComponent />);
+
+    const chordButton = screen.getByRole('button', { name: 'Starting chord' });
+    fireEvent.click(chordButton);
+    expect(mockToneGenerator.playChord).toHaveBeenCalledWith(Object.values(chord));
+    expect(chordButton).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.click(chordButton);
+    expect(mockToneGenerator.stop).toHaveBeenCalled();
+    expect(chordButton).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  test('edits and saves the starting chord', async () => {
+    render(<ToneGeneratorComponent />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit starting chord' }));
+    fireEvent.change(screen.getByRole('combobox', { name: 'Starting note for Bass' }), {
+      target: { value: 'F2' },
+    });
+
+    await waitFor(() => {
+      expect(useProjectStore.getState().currentProject?.startingChord).toEqual({ B: { semitone: 5, octave: 2 } });
+    });
+  });
+
+  test('gives a voice part its note through the ref', async () => {
+    await useProjectStore.getState().setStartingChord(chord);
+    const ref = createRef<ToneGeneratorHandle>();
+    render(<ToneGeneratorComponent ref={ref} />);
+
+    act(() => ref.current?.toggleVoiceNote('T'));
+    expect(mockToneGenerator.play).toHaveBeenCalledWith(7, 3);
+
+    act(() => ref.current?.toggleVoiceNote('T'));
+    expect(mockToneGenerator.stop).toHaveBeenCalled();
+  });
+
+  // ⚠️ Negative cases
+  test('disables the chord button until a chord is set', () => {
+    render(<ToneGeneratorComponent />);
+
+    expect(screen.getByRole('button', { name: 'Starting chord' })).toBeDisabled();
+  });
+
+  test('ignores voice parts without a starting note', async () => {
+    await useProjectStore.getState().setStartingChord({ S: { semitone: 4, octave: 5 } });
+    const ref = createRef<ToneGeneratorHandle>();
+    render(<ToneGeneratorComponent ref={ref} />);
+
+    act(() => ref.current?.toggleVoiceNote('B'));
+
+    expect(mockToneGenerator.play).not.toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('a tone button replaces the sounding chord', async () => {
+    await useProjectStore.getState().setStartingChord(chord);
+    render(<ToneGeneratorComponent />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Starting chord' }));
+    fireEvent.click(screen.getByRole('button', { name: 'A4' }));
+
+    expect(mockToneGenerator.stop).toHaveBeenCalled();
+    expect(mockToneGenerator.play).toHaveBeenCalledWith(9, 4);
+    expect(screen.getByRole('button', { name: 'Starting chord' })).toHaveAttribute('aria-pressed', 'false');
+  });
+});
+
+describe('TUNE-001, TUNE-002, TUNE-003: Tuning', () => {
+  let mockToneGenerator: any;
+
+  beforeEach(async () => {
+    mockToneGenerator = {
+      play: vi.fn(),
+      playChord: vi.fn(),
+      stop: vi.fn(),
+      dispose: vi.fn(),
+      setTuning: vi.fn(),
+    };
+    vi.mocked(ToneGenerator).mockImplementation(function() {
+      return mockToneGenerator;
+    } as any);
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+    await useProjectStore.getState().createNewProject('Test Project');
+  });
+
+  afterEach(async () => {
+    useProjectStore.getState().reset();
+    await db.delete();
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('tunes the generator to the project tuning', async () => {
+    const tuning = { referenceFrequency: 442, temperament: 'just' as const, key: 7 };
+    await useProjectStore.getState().setTuning(tuning);
+
+    render(<ToneGeneratorComponent />);
+
+    expect(mockToneGenerator.setTuning).toHaveBeenLastCalledWith(tuning);
+    expect(screen.getByRole('button', { name: 'Tuning' })).toHaveTextContent('A=442 Just G');
+  });
+
+  test('edits and saves the tuning, retuning the generator', async () => {
+    render(<ToneGeneratorComponent />);
+    expect(mockToneGenerator.setTuning).toHaveBeenLastCalledWith({ referenceFrequency: 440, temperament: 'equal', key: 0 });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Tuning' }));
+    const input = screen.getByRole('spinbutton', { name: 'Reference pitch' });
+    fireEvent.change(input, { target: { value: '442' } });
+    fireEvent.blur(input);
+
+    await waitFor(() => {
+      expect(useProjectStore.getState().currentProject?.tuning?.referenceFrequency).toBe(442);
+    });
+    expect(mockToneGenerator.setTuning).toHaveBeenLastCalledWith({ referenceFrequency: 442, temperament: 'equal', key: 0 });
+    expect(screen.getByRole('button', { name: 'Tuning' })).toHaveTextContent('A=442');
+  });
+
+  // ⚠️ Negative cases
+  test('hides the tuning button without a project', () => {
+    useProjectStore.getState().reset();
+    render(<ToneGeneratorComponent />);
+
+    expect(screen.queryByRole('button', { name: 'Tuning' })).not.toBeInTheDocument();
+  });
+});
+
 describe('ToneGenerator: Component lifecycle', () => {
   let mockToneGenerator: any;
 
@@ -195,6 +439,7 @@ describe('ToneGenerator: Component lifecycle', () => {
       playTone: vi.fn(),
       stopTone: vi.fn(),
       dispose: vi.fn(),
+      setTuning: vi.fn(),
     };
     vi.mocked(ToneGenerator).mockImplementation(function() {
       return mockToneGenerator;
@@ -245,7 +490,7 @@ describe('ToneGenerator: Component lifecycle', () => {
     const { unmount } = render(<ToneGeneratorComponent />);
 
     // Play a tone
-    const cButton = screen.getByRole('button', { name: 'C' });
+    const cButton = screen.getByRole('button', { name: 'C4' });
     fireEvent.click(cButton);
 
     // Unmount - should stop tone
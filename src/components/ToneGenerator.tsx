@@ -1,137 +1,337 @@
-// [EARS: TONE-003, TONE-004, TONE-005, TONE-006] Tone generator UI with 12 chromatic tones
+// [EARS: TONE-003, TONE-004, TONE-005, TONE-006, TONE-007, TONE-008, TONE-009, CHORD-001, CHORD-002, CHORD-003,
+// TUNE-001, TUNE-002, TUNE-003] Tone generator UI with 12 chromatic tones per octave, the starting chord and tuning
 
-import { useState, useEffect, useRef } from 'react';
-import { ToneGenerator as ToneGeneratorClass } from '../audio/toneGenerator';
-
-type ToneNote = 'C4' | 'C#4' | 'D4' | 'D#4' | 'E4' | 'F4' | 'F#4' | 'G4' | 'G#4' | 'A4' | 'A#4' | 'B4';
+import { useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
+import { ToneGenerator as ToneGeneratorClass, MIN_OCTAVE, MAX_OCTAVE } from '../audio/toneGenerator';
+import { useProjectStore } from '../store/useProjectStore';
+import { DEFAULT_TUNING, NOTE_LABELS } from '../audio/pitch';
+import { StartingChordEditor } from './StartingChordEditor';
+import { TuningEditor, TEMPERAMENT_LABELS } from './TuningEditor';
+import type { Pitch, StartingChord, Tuning, VoicePartType } from '../store/types';
 
 interface ToneButton {
   label: string;
-  note: ToneNote;
+  semitone: number;
   isBlackKey: boolean;
 }
 
 const TONES: ToneButton[] = [
-  { label: 'C', note: 'C4', isBlackKey: false },
-  { label: 'C#', note: 'C#4', isBlackKey: true },
-  { label: 'D', note: 'D4', isBlackKey: false },
-  { label: 'D#', note: 'D#4', isBlackKey: true },
-  { label: 'E', note: 'E4', isBlackKey: false },
-  { label: 'F', note: 'F4', isBlackKey: false },
-  { label: 'F#', note: 'F#4', isBlackKey: true },
-  { label: 'G', note: 'G4', isBlackKey: false },
-  { label: 'G#', note: 'G#4', isBlackKey: true },
-  { label: 'A', note: 'A4', isBlackKey: false },
-  { label: 'A#', note: 'A#4', isBlackKey: true },
-  { label: 'B', note: 'B4', isBlackKey: false },
+  { label: 'C', semitone: 0, isBlackKey: false },
+  { label: 'C#', semitone: 1, isBlackKey: true },
+  { label: 'D', semitone: 2, isBlackKey: false },
+  { label: 'D#', semitone: 3, isBlackKey: true },
+  { label: 'E', semitone: 4, isBlackKey: false },
+  { label: 'F', semitone: 5, isBlackKey: false },
+  { label: 'F#', semitone: 6, isBlackKey: true },
+  { label: 'G', semitone: 7, isBlackKey: false },
+  { label: 'G#', semitone: 8, isBlackKey: true },
+  { label: 'A', semitone: 9, isBlackKey: false },
+  { label: 'A#', semitone: 10, isBlackKey: true },
+  { label: 'B', semitone: 11, isBlackKey: false },
 ];
 
-/**
- * Convert note name to semitone index (0-11)
- */
-function noteToSemitone(note: ToneNote): number {
-  const noteMap: Record<ToneNote, number> = {
-    'C4': 0, 'C#4': 1, 'D4': 2, 'D#4': 3, 'E4': 4, 'F4': 5,
-    'F#4': 6, 'G4': 7, 'G#4': 8, 'A4': 9, 'A#4': 10, 'B4': 11,
-  };
-  return noteMap[note];
+const OCTAVES = Array.from({ length: MAX_OCTAVE - MIN_OCTAVE + 1 }, (_, i) => MIN_OCTAVE + i);
+
+// [EARS: TONE-009] Octave around the middle of each voice part's range
+export const DEFAULT_OCTAVES: Record<VoicePartType, number> = { S: 5, A: 4, T: 3, B: 2 };
+const DEFAULT_OCTAVE = 4; // Before any voice part has been recorded
+
+export interface ToneGeneratorProps {
+  voicePart?: VoicePartType | null; // [EARS: TONE-009] Voice part being recorded
+}
+
+export interface ToneGeneratorHandle {
+  toggleVoiceNote: (voicePart: VoicePartType) => void; // [EARS: CHORD-003] Give a voice part its note
 }
 
-export function ToneGenerator() {
-  const [activeTone, setActiveTone] = useState<ToneNote | null>(null);
+const buttonStyle = {
+  padding: '0.3rem 0.5rem',
+  backgroundColor: '#555',
+  color: '#fff',
+  border: '1px solid #777',
+  borderRadius: '3px',
+  cursor: 'pointer',
+  fontWeight: 'bold',
+  fontSize: '0.7rem',
+};
+
+export const ToneGenerator = forwardRef<ToneGeneratorHandle, ToneGeneratorProps>(
+  function ToneGenerator({ voicePart = null }, ref) {
+    const [activeTone, setActiveTone] = useState<Pitch | null>(null);
+
+    // [EARS: TONE-007, TONE-009] An octave picked by hand applies until the voice part changes
+    const [chosenOctave, setChosenOctave] = useState<{ voicePart: VoicePartType | null; octave: number } | null>(null);
+    const octave = chosenOctave && chosenOctave.voicePart === voicePart
+      ? chosenOctave.octave
+      : voicePart ? DEFAULT_OCTAVES[voicePart] : DEFAULT_OCTAVE;
+
+    // [EARS: CHORD-001, CHORD-002] Project starting chord
+    const startingChord = useProjectStore((state) => state.currentProject?.startingChord);
+    const setStartingChord = useProjectStore((state) => state.setStartingChord);
+    const hasProject = useProjectStore((state) => state.currentProject !== null);
+    const chordPitches = Object.values(startingChord ?? {});
+    const [chordPlaying, setChordPlaying] = useState(false);
+    const [showChordEditor, setShowChordEditor] = useState(false);
+
+    // [EARS: TUNE-001, TUNE-002] Project reference pitch and temperament
+    const tuning = useProjectStore((state) => state.currentProject?.tuning) ?? DEFAULT_TUNING;
+    const setTuning = useProjectStore((state) => state.setTuning);
+    const [showTuningEditor, setShowTuningEditor] = useState(false);
+
+    const toneGeneratorRef = useRef<ToneGeneratorClass | null>(null);
+    const audioContextRef = useRef<AudioContext | null>(null);
 
-  const toneGeneratorRef = useRef<ToneGeneratorClass | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
+    /**
+     * Initialize tone generator on mount
+     * [EARS: TONE-003] Set up tone generator
+     */
+    useEffect(() => {
+      audioContextRef.current = new AudioContext();
+      toneGeneratorRef.current = new ToneGeneratorClass(audioContextRef.current);
 
-  /**
-   * Initialize tone generator on mount
-   * [EARS: TONE-003] Set up tone generator
-   */
-  useEffect(() => {
-    audioContextRef.current = new AudioContext();
-    toneGeneratorRef.current = new ToneGeneratorClass(audioContextRef.current);
+      // Cleanup on unmount
+      return () => {
+        if (toneGeneratorRef.current) {
+          toneGeneratorRef.current.stop();
+          toneGeneratorRef.current.dispose();
+        }
+        if (audioContextRef.current) {
+          audioContextRef.current.close();
+        }
+      };
+    }, []);
 
-    // Cleanup on unmount
-    return () => {
-      if (toneGeneratorRef.current) {
+    /**
+     * Keep the generator in the project tuning
+     * [EARS: TUNE-003] Every generated pitch, including a sounding one, follows the tuning
+     */
+    useEffect(() => {
+      toneGeneratorRef.current?.setTuning(tuning);
+    }, [tuning]);
+
+    /**
+     * Play a pitch, or stop it if it is already sounding
+     * [EARS: TONE-004] Play tone on button press
+     * [EARS: TONE-005] Stop tone on second click or when a different tone or the chord is played
+     */
+    const togglePitch = (pitch: Pitch) => {
+      if (!toneGeneratorRef.current) return;
+
+      if (activeTone?.semitone === pitch.semitone && activeTone.octave === pitch.octave) {
+        // Same tone again - stop it
         toneGeneratorRef.current.stop();
-        toneGeneratorRef.current.dispose();
+        setActiveTone(null);
+      } else {
+        // Different tone - stop previous and play new
+        if (activeTone || chordPlaying) {
+          toneGeneratorRef.current.stop();
+        }
+        toneGeneratorRef.current.play(pitch.semitone, pitch.octave);
+        setActiveTone(pitch);
+        setChordPlaying(false);
       }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
+    };
+
+    /**
+     * Handle tone button click
+     * [EARS: TONE-004, TONE-005]
+     */
+    const handleToneClick = (semitone: number) => {
+      togglePitch({ semitone, octave });
+    };
+
+    /**
+     * Play or stop the starting chord
+     * [EARS: CHORD-002] Arpeggiated, then sustained until clicked again
+     */
+    const handleChordClick = () => {
+      if (!toneGeneratorRef.current || chordPitches.length === 0) return;
+
+      if (chordPlaying) {
+        toneGeneratorRef.current.stop();
+        setChordPlaying(false);
+      } else {
+        toneGeneratorRef.current.playChord(chordPitches);
+        setChordPlaying(true);
+        setActiveTone(null);
       }
     };
-  }, []);
-
-  /**
-   * Handle tone button click
-   * [EARS: TONE-004] Play tone on button press
-   * [EARS: TONE-005] Stop tone on second click or when different button pressed
-   */
-  const handleToneClick = (note: ToneNote) => {
-    if (!toneGeneratorRef.current) return;
-
-    if (activeTone === note) {
-      // Same button clicked - stop tone
-      toneGeneratorRef.current.stop();
-      setActiveTone(null);
-    } else {
-      // Different button clicked - stop previous and play new
+
+    /**
+     * Handle starting chord edits
+     * [EARS: CHORD-001] Auto-save the chord to the project
+     */
+    const handleChordChange = async (chord: StartingChord) => {
+      await setStartingChord(chord);
+    };
+
+    /**
+     * Handle tuning edits
+     * [EARS: TUNE-001, TUNE-002] Auto-save the tuning to the project
+     */
+    const handleTuningChange = async (updated: Tuning) => {
+      await setTuning(updated);
+    };
+
+    /**
+     * Expose "give me my note" for the voice part headers
+     * [EARS: CHORD-003] Toggle the voice part's starting pitch
+     */
+    useImperativeHandle(ref, () => ({
+      toggleVoiceNote: (part: VoicePartType) => {
+        const pitch = startingChord?.[part];
+        if (pitch) {
+          togglePitch(pitch);
+        }
+      },
+    }));
+
+    /**
+     * Handle octave change
+     * [EARS: TONE-007] Stop the current tone so no button is left sounding out of view
+     */
+    const handleOctaveChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
       if (activeTone) {
-        toneGeneratorRef.current.stop();
+        toneGeneratorRef.current?.stop();
+        setActiveTone(null);
       }
-      toneGeneratorRef.current.play(noteToSemitone(note));
-      setActiveTone(note);
-    }
-  };
-
-  return (
-    <div
-      className="tone-generator"
-      style={{
-        display: 'flex',
-        gap: '0.3rem',
-        flexWrap: 'wrap',
-      }}
-    >
-      {/* Tone Buttons */}
-      {/* [EARS: TONE-003, TONE-006] 12 tone buttons in chromatic order */}
-      {TONES.map((tone) => (
-        <button
-          key={tone.note}
-          onClick={() => handleToneClick(tone.note)}
-          className={activeTone === tone.note ? 'active' : ''}
-          aria-label={tone.label}
+      setChosenOctave({ voicePart, octave: parseInt(e.target.value, 10) });
+    };
+
+    return (
+      <div
+        className="tone-generator"
+        style={{
+          display: 'flex',
+          gap: '0.3rem',
+          flexWrap: 'wrap',
+        }}
+      >
+        {/* Octave */}
+        {/* [EARS: TONE-007] Octaves 2-6 (C2-B6) */}
+        <select
+          value={octave}
+          onChange={handleOctaveChange}
+          aria-label="Octave"
           style={{
-            padding: '0.3rem 0.5rem',
-            backgroundColor: activeTone === tone.note
-              ? (tone.isBlackKey ? '#ffeb3b' : '#4caf50')
-              : (tone.isBlackKey ? '#333' : '#555'),
-            color: activeTone === tone.note
-              ? '#000'
-              : '#fff',
-            border: tone.isBlackKey ? '1px solid #666' : '1px solid #777',
+            padding: '0.25rem',
+            backgroundColor: '#444',
+            color: '#fff',
+            border: '1px solid #666',
             borderRadius: '3px',
-            cursor: 'pointer',
-            fontWeight: 'bold',
             fontSize: '0.7rem',
-            minWidth: '32px',
-            transition: 'all 0.15s ease',
           }}
-          onMouseEnter={(e) => {
-            if (activeTone !== tone.note) {
-              e.currentTarget.style.backgroundColor = tone.isBlackKey ? '#444' : '#666';
-            }
-          }}
-          onMouseLeave={(e) => {
-            if (activeTone !== tone.note) {
-              e.currentTarget.style.backgroundColor = tone.isBlackKey ? '#333' : '#555';
-            }
+        >
+          {OCTAVES.map((value) => (
+            <option key={value} value={value}>
+              Octave {value}
+            </option>
+          ))}
+        </select>
+
+        {/* Starting Chord */}
+        {/* [EARS: CHORD-002] Play the opening chord */}
+        <button
+          onClick={handleChordClick}
+          disabled={chordPitches.length === 0}
+          aria-label="Starting chord"
+          aria-pressed={chordPlaying}
+          style={{
+            ...buttonStyle,
+            backgroundColor: chordPlaying ? '#4caf50' : '#555',
+            color: chordPlaying ? '#000' : '#fff',
+            cursor: chordPitches.length === 0 ? 'not-allowed' : 'pointer',
+            opacity: chordPitches.length === 0 ? 0.5 : 1,
           }}
         >
-          {tone.label}
+          Chord
         </button>
-      ))}
-    </div>
-  );
-}
+        {/* [EARS: CHORD-001] Show the starting chord editor */}
+        {hasProject && (
+          <button
+            onClick={() => setShowChordEditor(!showChordEditor)}
+            aria-label="Edit starting chord"
+            aria-expanded={showChordEditor}
+            style={buttonStyle}
+          >
+            ✎
+          </button>
+        )}
+
+        {/* [EARS: TUNE-001, TUNE-002] Current tuning; opens the tuning editor */}
+        {hasProject && (
+          <button
+            onClick={() => setShowTuningEditor(!showTuningEditor)}
+            aria-label="Tuning"
+            aria-expanded={showTuningEditor}
+            style={buttonStyle}
+          >
+            A={tuning.referenceFrequency}
+            {tuning.temperament !== 'equal' &&
+              ` ${TEMPERAMENT_LABELS[tuning.temperament]} ${NOTE_LABELS[tuning.key]}`}
+          </button>
+        )}
+
+        {/* Tone Buttons */}
+        {/* [EARS: TONE-003, TONE-006, TONE-008] 12 tone buttons in chromatic order, named with their octave */}
+        {TONES.map((tone) => {
+          const name = `${tone.label}${octave}`;
+          const isActive = activeTone?.semitone === tone.semitone && activeTone.octave === octave;
+
+          return (
+            <button
+              key={tone.semitone}
+              onClick={() => handleToneClick(tone.semitone)}
+              className={isActive ? 'active' : ''}
+              aria-label={name}
+              style={{
+                padding: '0.3rem 0.5rem',
+                backgroundColor: isActive
+                  ? (tone.isBlackKey ? '#ffeb3b' : '#4caf50')
+                  : (tone.isBlackKey ? '#333' : '#555'),
+                color: isActive
+                  ? '#000'
+                  : '#fff',
+                border: tone.isBlackKey ? '1px solid #666' : '1px solid #777',
+                borderRadius: '3px',
+                cursor: 'pointer',
+                fontWeight: 'bold',
+                fontSize: '0.7rem',
+                minWidth: '32px',
+                transition: 'all 0.15s ease',
+              }}
+              onMouseEnter={(e) => {
+                if (!isActive) {
+                  e.currentTarget.style.backgroundColor = tone.isBlackKey ? '#444' : '#666';
+                }
+              }}
+              onMouseLeave={(e) => {
+                if (!isActive) {
+                  e.currentTarget.style.backgroundColor = tone.isBlackKey ? '#333' : '#555';
+                }
+              }}
+            >
+              {name}
+            </button>
+          );
+        })}
+
+        {/* Starting Chord Editor */}
+        {/* [EARS: CHORD-001] One pitch per voice part */}
+        {hasProject && showChordEditor && (
+          <div style={{ flexBasis: '100%' }}>
+            <StartingChordEditor chord={startingChord ?? {}} onChange={handleChordChange} />
+          </div>
+        )}
+
+        {/* Tuning Editor */}
+        {/* [EARS: TUNE-001, TUNE-002] Reference pitch and temperament */}
+        {hasProject && showTuningEditor && (
+          <div style={{ flexBasis: '100%' }}>
+            <TuningEditor tuning={tuning} onChange={handleTuningChange} />
+          </div>
+        )}
+      </div>
+    );
+  }
+);
@@ -1,9 +1,25 @@
-// [EARS: PROJ-001, PROJ-006, PROJ-008, PROJ-009, EXP-007] Top bar with project controls and export
+// [EARS: PROJ-001, PROJ-006, PROJ-008, PROJ-009, EXP-007, BUS-005, LEARN-001, LEARN-002, LEARN-003, STEM-001, STEM-002, STEM-004, LOUD-003, LOUD-004, FMT-001, FMT-002, FMT-003, FMT-004, FMT-006, FLAC-003, OPUS-003, OPUS-004] Top bar with project controls and export
 
 import { useState } from 'react';
 import { useProjectStore } from '../store/useProjectStore';
-import { Exporter, type ExportTrack } from '../audio/exporter';
+import { useErrorStore } from '../store/useErrorStore';
+import { Exporter, type ExportTrack, type StemGrouping } from '../audio/exporter';
+import { LOUDNESS_TARGETS, type LoudnessReport } from '../audio/loudness';
+import { DEFAULT_EXPORT_FORMAT, type ExportFormat } from '../audio/exportFormat';
+import type { BusSettings } from '../audio/mixer';
+import type { VoicePartType } from '../store/types';
 import { useMixer } from '../contexts/MixerContext';
+import { ExportFormatDialog } from './ExportFormatDialog';
+
+/**
+ * Loudness for display
+ *
+ * @param lufs - Integrated loudness (-Infinity for silence)
+ * @returns Loudness with one decimal, e.g. "-16.0 LUFS"
+ */
+function formatLufs(lufs: number): string {
+  return Number.isFinite(lufs) ? `${lufs.toFixed(1)} LUFS` : 'silent';
+}
 
 export function TopBar() {
   const {
@@ -18,13 +34,53 @@ export function TopBar() {
 
   // Get shared audio context from MixerContext
   const { getAudioContext } = useMixer();
+  const setError = useErrorStore((state) => state.setError);
 
   const [isEditingName, setIsEditingName] = useState(false);
   const [editedName, setEditedName] = useState('');
   const [showLoadModal, setShowLoadModal] = useState(false);
   const [showExportDropdown, setShowExportDropdown] = useState(false);
+  // [EARS: LOUD-003] Loudness target for mix exports (null = peak normalize)
+  const [loudnessTarget, setLoudnessTarget] = useState<number | null>(-16);
+  // [EARS: LOUD-004] Measured loudness of the last export
+  const [loudnessReport, setLoudnessReport] = useState<LoudnessReport | null>(null);
+  // [EARS: FMT-001, FMT-002, FMT-003, FMT-004] Format of every export
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(DEFAULT_EXPORT_FORMAT);
+  const [showFormatDialog, setShowFormatDialog] = useState(false);
   const [projects, setProjects] = useState<Array<{ id: string; name: string; createdAt: number; updatedAt: number }>>([]);
 
+  /**
+   * Bus settings of a voice part for export
+   * [EARS: BUS-005] Part fader, mute and solo
+   */
+  const getBus = (voicePartType: VoicePartType): BusSettings | undefined => {
+    const voicePart = currentProject?.voiceParts.find(vp => vp.type === voicePartType);
+    if (!voicePart) return undefined;
+    return {
+      id: voicePart.type,
+      volume: voicePart.volume ?? 100,
+      muted: voicePart.muted ?? false,
+      soloed: voicePart.soloed ?? false,
+    };
+  };
+
+  /**
+   * Tracks with their mix settings for export
+   * [EARS: EXP-001, EXP-004]
+   */
+  const getExportTracks = (): ExportTrack[] =>
+    tracks.map(track => ({
+      id: track.id,
+      name: track.name, // [EARS: STEM-001]
+      audioBlob: track.audioBlob,
+      volume: track.volume,
+      muted: track.muted,
+      soloed: track.soloed,
+      startOffset: track.startOffset ?? 0, // [EARS: POS-004]
+      pan: track.pan ?? 0, // [EARS: PAN-003]
+      bus: getBus(track.voicePartType), // [EARS: BUS-005]
+    }));
+
   /**
    * Handle New Project button click
    * [EARS: PROJ-001] Create new project with name prompt
@@ -102,7 +158,7 @@ export function TopBar() {
 
   /**
    * Export project to WAV
-   * [EARS: EXP-003, EXP-007] Download WAV file
+   * [EARS: EXP-003, EXP-007, LOUD-003, LOUD-004] Download WAV file
    */
   const handleExportWAV = async () => {
     if (!currentProject || tracks.length === 0) return;
@@ -110,25 +166,49 @@ export function TopBar() {
     const audioContext = getAudioContext();
     if (!audioContext) return;
 
-    const exporter = new Exporter(audioContext);
+    const exporter = new Exporter(audioContext, { ...exportFormat, loudnessTarget });
 
-    const exportTracks: ExportTrack[] = tracks.map(track => ({
-      id: track.id,
-      audioBlob: track.audioBlob,
-      volume: track.volume,
-      muted: track.muted,
-      soloed: track.soloed,
-    }));
+    try {
+      const report = await exporter.downloadWAV(getExportTracks(), currentProject.name);
+      setLoudnessReport(report ?? null);
+    } catch (error) {
+      console.error('WAV export failed:', error);
+      setError(`Could not export WAV: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      exporter.dispose();
+      // Note: Don't close audioContext - it's shared
+      setShowExportDropdown(false);
+    }
+  };
+
+  /**
+   * Export project to FLAC
+   * [EARS: FLAC-003, EXP-007, LOUD-003, LOUD-004] Download FLAC file
+   */
+  const handleExportFLAC = async () => {
+    if (!currentProject || tracks.length === 0) return;
 
-    await exporter.downloadWAV(exportTracks, currentProject.name);
-    exporter.dispose();
-    // Note: Don't close audioContext - it's shared
-    setShowExportDropdown(false);
+    const audioContext = getAudioContext();
+    if (!audioContext) return;
+
+    const exporter = new Exporter(audioContext, { ...exportFormat, loudnessTarget });
+
+    try {
+      const report = await exporter.downloadFLAC(getExportTracks(), currentProject.name);
+      setLoudnessReport(report ?? null);
+    } catch (error) {
+      console.error('FLAC export failed:', error);
+      setError(`Could not export FLAC: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      exporter.dispose();
+      // Note: Don't close audioContext - it's shared
+      setShowExportDropdown(false);
+    }
   };
 
   /**
    * Export project to MP3
-   * [EARS: EXP-006, EXP-007] Download MP3 file
+   * [EARS: EXP-006, EXP-007, LOUD-003, LOUD-004] Download MP3 file
    */
   const handleExportMP3 = async () => {
     if (!currentProject || tracks.length === 0) return;
@@ -136,20 +216,94 @@ export function TopBar() {
     const audioContext = getAudioContext();
     if (!audioContext) return;
 
-    const exporter = new Exporter(audioContext);
+    const exporter = new Exporter(audioContext, { ...exportFormat, loudnessTarget });
 
-    const exportTracks: ExportTrack[] = tracks.map(track => ({
-      id: track.id,
-      audioBlob: track.audioBlob,
-      volume: track.volume,
-      muted: track.muted,
-      soloed: track.soloed,
-    }));
+    try {
+      const report = await exporter.downloadMP3(getExportTracks(), currentProject.name);
+      setLoudnessReport(report ?? null);
+    } catch (error) {
+      console.error('MP3 export failed:', error);
+      setError(`Could not export MP3: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      exporter.dispose();
+      // Note: Don't close audioContext - it's shared
+      setShowExportDropdown(false);
+    }
+  };
+
+  /**
+   * Export project to Ogg/Opus
+   * [EARS: OPUS-003, EXP-007, LOUD-003, LOUD-004] Download Opus file
+   * [EARS: OPUS-004] Report browsers that cannot encode Opus
+   */
+  const handleExportOpus = async () => {
+    if (!currentProject || tracks.length === 0) return;
 
-    await exporter.downloadMP3(exportTracks, currentProject.name);
-    exporter.dispose();
-    // Note: Don't close audioContext - it's shared
-    setShowExportDropdown(false);
+    const audioContext = getAudioContext();
+    if (!audioContext) return;
+
+    const exporter = new Exporter(audioContext, { ...exportFormat, loudnessTarget });
+
+    try {
+      const report = await exporter.downloadOpus(getExportTracks(), currentProject.name);
+      setLoudnessReport(report ?? null);
+    } catch (error) {
+      console.error('Opus export failed:', error);
+      setError(`Could not export Opus: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      exporter.dispose();
+      // Note: Don't close audioContext - it's shared
+      setShowExportDropdown(false);
+    }
+  };
+
+  /**
+   * Export one learning track per voice part plus the full mix
+   * [EARS: LEARN-001, LEARN-002, LEARN-003, LOUD-003] Download a ZIP of MP3 files
+   */
+  const handleExportLearningTracks = async () => {
+    if (!currentProject || tracks.length === 0) return;
+
+    const audioContext = getAudioContext();
+    if (!audioContext) return;
+
+    const exporter = new Exporter(audioContext, { ...exportFormat, loudnessTarget });
+
+    try {
+      const report = await exporter.downloadLearningTracks(getExportTracks(), currentProject.name);
+      setLoudnessReport(report ?? null);
+    } catch (error) {
+      console.error('Learning track export failed:', error);
+      setError(`Could not export learning tracks: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      exporter.dispose();
+      // Note: Don't close audioContext - it's shared
+      setShowExportDropdown(false);
+    }
+  };
+
+  /**
+   * Export stems for mixing in a DAW
+   * [EARS: STEM-001, STEM-002, STEM-004] Download a ZIP of WAV stems and a manifest
+   */
+  const handleExportStems = async (grouping: StemGrouping) => {
+    if (!currentProject || tracks.length === 0) return;
+
+    const audioContext = getAudioContext();
+    if (!audioContext) return;
+
+    const exporter = new Exporter(audioContext, exportFormat);
+
+    try {
+      await exporter.downloadStems(getExportTracks(), currentProject.name, grouping);
+    } catch (error) {
+      console.error('Stem export failed:', error);
+      setError(`Could not export stems: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      exporter.dispose();
+      // Note: Don't close audioContext - it's shared
+      setShowExportDropdown(false);
+    }
   };
 
   return (
@@ -248,6 +402,17 @@ export function TopBar() {
           Export ▼
         </button>
 
+        {/* [EARS: LOUD-004] Loudness of the last export */}
+        {loudnessReport && (
+          <span
+            data-testid="loudness-report"
+            title={`Measured ${formatLufs(loudnessReport.inputLufs)} before export, gain ${loudnessReport.gainDb.toFixed(1)} dB`}
+            style={{ marginLeft: '0.5rem', color: '#ccc', fontSize: '0.85rem', whiteSpace: 'nowrap' }}
+          >
+            {formatLufs(loudnessReport.outputLufs)} · {loudnessReport.truePeakDbtp.toFixed(1)} dBTP
+          </span>
+        )}
+
         {showExportDropdown && (
           <div
             style={{
@@ -262,6 +427,39 @@ export function TopBar() {
               zIndex: 1000,
             }}
           >
+            {/* [EARS: LOUD-003] */}
+            <label
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.5rem',
+                padding: '0.75rem 1.5rem',
+                color: '#fff',
+                whiteSpace: 'nowrap',
+                borderBottom: '1px solid #666',
+              }}
+            >
+              Loudness
+              <select
+                aria-label="Loudness target"
+                value={loudnessTarget === null ? 'peak' : String(loudnessTarget)}
+                onChange={(e) => setLoudnessTarget(e.target.value === 'peak' ? null : Number(e.target.value))}
+                style={{
+                  padding: '0.25rem',
+                  backgroundColor: '#333',
+                  color: '#fff',
+                  border: '1px solid #666',
+                  borderRadius: '4px',
+                }}
+              >
+                <option value="peak">Peak normalize</option>
+                {LOUDNESS_TARGETS.map((target) => (
+                  <option key={target} value={String(target)}>
+                    {target} LUFS
+                  </option>
+                ))}
+              </select>
+            </label>
             <button
               onClick={handleExportWAV}
               style={{
@@ -279,6 +477,24 @@ export function TopBar() {
             >
               Export as WAV
             </button>
+            {/* [EARS: FLAC-003] */}
+            <button
+              onClick={handleExportFLAC}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: '0.75rem 1.5rem',
+                backgroundColor: 'transparent',
+                color: '#fff',
+                border: 'none',
+                cursor: 'pointer',
+                textAlign: 'left',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#555'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              Export as FLAC
+            </button>
             <button
               onClick={handleExportMP3}
               style={{
@@ -296,6 +512,104 @@ export function TopBar() {
             >
               Export as MP3
             </button>
+            {/* [EARS: OPUS-003] */}
+            <button
+              onClick={handleExportOpus}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: '0.75rem 1.5rem',
+                backgroundColor: 'transparent',
+                color: '#fff',
+                border: 'none',
+                cursor: 'pointer',
+                textAlign: 'left',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#555'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              Export as Opus (Ogg)
+            </button>
+            {/* [EARS: LEARN-003] */}
+            <button
+              onClick={handleExportLearningTracks}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: '0.75rem 1.5rem',
+                backgroundColor: 'transparent',
+                color: '#fff',
+                border: 'none',
+                cursor: 'pointer',
+                textAlign: 'left',
+                whiteSpace: 'nowrap',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#555'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              Export learning tracks (ZIP)
+            </button>
+            {/* [EARS: STEM-001] */}
+            <button
+              onClick={() => handleExportStems('track')}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: '0.75rem 1.5rem',
+                backgroundColor: 'transparent',
+                color: '#fff',
+                border: 'none',
+                cursor: 'pointer',
+                textAlign: 'left',
+                whiteSpace: 'nowrap',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#555'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              Export track stems (ZIP)
+            </button>
+            {/* [EARS: STEM-002] */}
+            <button
+              onClick={() => handleExportStems('part')}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: '0.75rem 1.5rem',
+                backgroundColor: 'transparent',
+                color: '#fff',
+                border: 'none',
+                cursor: 'pointer',
+                textAlign: 'left',
+                whiteSpace: 'nowrap',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#555'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              Export part stems (ZIP)
+            </button>
+            {/* [EARS: FMT-001, FMT-002, FMT-003, FMT-004] */}
+            <button
+              onClick={() => {
+                setShowExportDropdown(false);
+                setShowFormatDialog(true);
+              }}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: '0.75rem 1.5rem',
+                backgroundColor: 'transparent',
+                color: '#fff',
+                border: 'none',
+                borderTop: '1px solid #666',
+                cursor: 'pointer',
+                textAlign: 'left',
+                whiteSpace: 'nowrap',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#555'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+            >
+              Format options…
+            </button>
           </div>
         )}
       </div>
@@ -317,6 +631,16 @@ export function TopBar() {
         Delete Project
       </button>
 
+      {/* Export Format Dialog */}
+      {showFormatDialog && (
+        <ExportFormatDialog
+          format={exportFormat}
+          originalSampleRate={getAudioContext()?.sampleRate ?? null}
+          onChange={setExportFormat}
+          onClose={() => setShowFormatDialog(false)}
+        />
+      )}
+
       {/* Load Project Modal */}
       {showLoadModal && (
         <div
@@ -2,6 +2,7 @@ import { describe, test, expect, vi } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { TrackRow } from './TrackRow';
 import type { Track } from '@/store/types';
+import { TempoMap } from '@/audio/tempoMap';
 
 const mockTrack: Track = {
   id: 'track-1',
@@ -228,6 +229,347 @@ describe('TRACK-008, TRACK-009: Volume slider', () => {
   });
 });
 
+describe('PAN-002: Pan slider', () => {
+  // ✅ Happy path
+  test('shows the current pan', () => {
+    render(<TrackRow track={{ ...mockTrack, pan: -0.4 }} />);
+
+    expect(screen.getByRole('slider', { name: 'Pan slider' })).toHaveValue('-40');
+    expect(screen.getByTestId('pan-value')).toHaveTextContent('L40');
+  });
+
+  test('calls onPanChange with the pan from -1 to 1', () => {
+    const handlePanChange = vi.fn();
+    render(<TrackRow track={mockTrack} onPanChange={handlePanChange} />);
+
+    fireEvent.change(screen.getByRole('slider', { name: 'Pan slider' }), { target: { value: '25' } });
+
+    expect(handlePanChange).toHaveBeenCalledWith('track-1', 0.25);
+  });
+
+  test('centres on double-click', () => {
+    const handlePanChange = vi.fn();
+    render(<TrackRow track={{ ...mockTrack, pan: 0.7 }} onPanChange={handlePanChange} />);
+
+    fireEvent.doubleClick(screen.getByRole('slider', { name: 'Pan slider' }));
+
+    expect(handlePanChange).toHaveBeenCalledWith('track-1', 0);
+  });
+
+  // 🔥 Edge cases
+  test('a track without a pan is centred', () => {
+    render(<TrackRow track={mockTrack} />);
+
+    expect(screen.getByRole('slider', { name: 'Pan slider' })).toHaveValue('0');
+    expect(screen.getByTestId('pan-value')).toHaveTextContent('C');
+  });
+
+  test('shows right pans with R', () => {
+    render(<TrackRow track={{ ...mockTrack, pan: 1 }} />);
+
+    expect(screen.getByTestId('pan-value')).toHaveTextContent('R100');
+  });
+});
+
+describe('POS-001, POS-002: Start offset', () => {
+  // ✅ Happy path
+  test('shows start offset when track is moved', () => {
+    render(<TrackRow track={{ ...mockTrack, startOffset: 1.5 }} />);
+
+    expect(screen.getByTestId('track-start-offset')).toHaveTextContent('+1.50s');
+  });
+
+  test('dragging the waveform reports offset with track ID', () => {
+    const onStartOffsetChange = vi.fn();
+    render(
+      <TrackRow track={mockTrack} maxDuration={10} onStartOffsetChange={onStartOffsetChange} />
+    );
+
+    const canvas = screen.getByRole('img', { name: /waveform/i });
+    fireEvent.mouseDown(canvas, { clientX: 50 });
+    fireEvent.mouseMove(document, { clientX: 75 });
+    fireEvent.mouseUp(document, { clientX: 75 });
+
+    // 25px of 250px over 10s = 1s
+    expect(onStartOffsetChange).toHaveBeenCalledTimes(1);
+    expect(onStartOffsetChange.mock.calls[0]?.[0]).toBe('track-1');
+    expect(onStartOffsetChange.mock.calls[0]?.[1]).toBeCloseTo(1);
+  });
+
+  // 🔥 Edge cases
+  test('hides start offset for tracks at time zero', () => {
+    render(<TrackRow track={mockTrack} />);
+
+    expect(screen.queryByTestId('track-start-offset')).not.toBeInTheDocument();
+  });
+});
+
+describe('PUNCH-001: Punch region selection', () => {
+  // ✅ Happy path
+  test('shift+drag on the waveform reports selection with track ID', () => {
+    const onSelectionChange = vi.fn();
+    render(
+      <TrackRow track={mockTrack} maxDuration={10} onSelectionChange={onSelectionChange} />
+    );
+
+    const canvas = screen.getByRole('img', { name: /waveform/i });
+    fireEvent.mouseDown(canvas, { clientX: 50, shiftKey: true });
+    fireEvent.mouseUp(document, { clientX: 100 });
+
+    // 250px over 10s: 50px = 2s, 100px = 4s
+    expect(onSelectionChange.mock.calls[0]?.[0]).toBe('track-1');
+    expect(onSelectionChange.mock.calls[0]?.[1].start).toBeCloseTo(2);
+    expect(onSelectionChange.mock.calls[0]?.[1].end).toBeCloseTo(4);
+  });
+
+  test('highlights the selection passed in', () => {
+    render(<TrackRow track={mockTrack} maxDuration={10} selection={{ start: 1, end: 2 }} />);
+
+    expect(screen.getByTestId('waveform-selection')).toBeInTheDocument();
+  });
+});
+
+describe('LOOP-004, LOOP-005: Take lanes', () => {
+  const loopTrack: Track = {
+    ...mockTrack,
+    takes: [
+      { id: 'take-1', audioBlob: new Blob(), duration: 10, waveformData: [], createdAt: new Date() },
+      { id: 'take-2', audioBlob: new Blob(), duration: 10, waveformData: [], createdAt: new Date() },
+    ],
+    comp: [{ start: 0, end: 10, takeId: 'take-2' }],
+  };
+
+  // ✅ Happy path
+  test('toggles the take lanes', () => {
+    render(<TrackRow track={loopTrack} />);
+
+    expect(screen.queryByTestId('take-lanes')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Show takes' }));
+
+    expect(screen.getAllByTestId('take-lane')).toHaveLength(2);
+    expect(screen.getByRole('button', { name: 'Show takes' })).toHaveTextContent('Takes (2)');
+  });
+
+  test('reports comp changes with track ID', () => {
+    const onCompChange = vi.fn();
+    render(<TrackRow track={loopTrack} onCompChange={onCompChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show takes' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Use take 1' }));
+
+    expect(onCompChange).toHaveBeenCalledWith('track-1', [{ start: 0, end: 10, takeId: 'take-1' }]);
+  });
+
+  // 🔥 Edge cases
+  test('hides the takes toggle for tracks without takes', () => {
+    render(<TrackRow track={mockTrack} />);
+
+    expect(screen.queryByRole('button', { name: 'Show takes' })).not.toBeInTheDocument();
+  });
+});
+
+describe('CONTOUR-002, CONTOUR-003: Pitch contour toggle', () => {
+  const pitchContour = { frameDuration: 0.02, frequencies: [440, 440, null, 441] };
+
+  // ✅ Happy path
+  test('shows the contour over a taller waveform', () => {
+    render(<TrackRow track={{ ...mockTrack, pitchContour }} maxDuration={1} />);
+
+    expect(screen.queryByRole('img', { name: 'Pitch contour' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show pitch contour' }));
+
+    expect(screen.getByRole('button', { name: 'Show pitch contour' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('img', { name: 'Pitch contour' })).toBeInTheDocument();
+    expect((screen.getByRole('img', { name: /waveform/i }) as HTMLCanvasElement).height).toBe(60);
+  });
+
+  test('requests analysis for a track without a contour', () => {
+    const onAnalyzePitch = vi.fn();
+    render(<TrackRow track={mockTrack} onAnalyzePitch={onAnalyzePitch} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show pitch contour' }));
+
+    expect(onAnalyzePitch).toHaveBeenCalledWith('track-1');
+  });
+
+  test('hides the contour when toggled off', () => {
+    render(<TrackRow track={{ ...mockTrack, pitchContour }} maxDuration={1} />);
+    const button = screen.getByRole('button', { name: 'Show pitch contour' });
+
+    fireEvent.click(button);
+    fireEvent.click(button);
+
+    expect(button).toHaveAttribute('aria-pressed', 'false');
+    expect(screen.queryByRole('img', { name: 'Pitch contour' })).not.toBeInTheDocument();
+  });
+
+  // ⚠️ Negative cases
+  test('does not re-analyze a track that has a contour', () => {
+    const onAnalyzePitch = vi.fn();
+    render(<TrackRow track={{ ...mockTrack, pitchContour }} onAnalyzePitch={onAnalyzePitch} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show pitch contour' }));
+
+    expect(onAnalyzePitch).not.toHaveBeenCalled();
+  });
+});
+
+describe('TIMING-002, TIMING-003, TIMING-004: Timing report toggle', () => {
+  const tempoMap = new TempoMap(120); // Beats every 0.5s
+
+  // ✅ Happy path
+  test('shows markers and the summary against the tempo grid', () => {
+    render(<TrackRow track={{ ...mockTrack, onsets: [0.46, 0.96, 1.47] }} tempoMap={tempoMap} maxDuration={2} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show timing report' }));
+
+    expect(screen.getByRole('button', { name: 'Show timing report' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getAllByTestId('timing-marker')).toHaveLength(3);
+    expect(screen.getByTestId('timing-tendency')).toHaveTextContent('Rushing');
+  });
+
+  test('measures onsets from the track start offset', () => {
+    render(
+      <TrackRow track={{ ...mockTrack, startOffset: 0.5, onsets: [0.03] }} tempoMap={tempoMap} maxDuration={2} />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show timing report' }));
+
+    expect(screen.getByTestId('timing-stats')).toHaveTextContent('average +30ms');
+  });
+
+  test('requests onsets for a track without them', () => {
+    const onAnalyzeTiming = vi.fn();
+    render(<TrackRow track={mockTrack} tempoMap={tempoMap} onAnalyzeTiming={onAnalyzeTiming} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show timing report' }));
+
+    expect(onAnalyzeTiming).toHaveBeenCalledWith('track-1');
+    expect(screen.getByText('Finding notes…')).toBeInTheDocument();
+  });
+
+  test('re-measures against a finer grid', () => {
+    render(<TrackRow track={{ ...mockTrack, onsets: [0.26] }} tempoMap={tempoMap} maxDuration={2} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Show timing report' }));
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Timing grid' }), { target: { value: '2' } });
+
+    expect(screen.getByTestId('timing-stats')).toHaveTextContent('average +10ms');
+  });
+
+  // ⚠️ Negative cases
+  test('has no timing report without a tempo map', () => {
+    render(<TrackRow track={mockTrack} />);
+
+    expect(screen.queryByRole('button', { name: 'Show timing report' })).not.toBeInTheDocument();
+  });
+
+  test('does not re-analyze a track that has onsets', () => {
+    const onAnalyzeTiming = vi.fn();
+    render(<TrackRow track={{ ...mockTrack, onsets: [] }} tempoMap={tempoMap} onAnalyzeTiming={onAnalyzeTiming} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show timing report' }));
+
+    expect(onAnalyzeTiming).not.toHaveBeenCalled();
+    expect(screen.getByText('No notes found')).toBeInTheDocument();
+  });
+});
+
+describe('ALIGN-001, ALIGN-002, ALIGN-003: Align to reference', () => {
+  const alignReferences = [
+    { id: 'track-1', name: 'Track 1' },
+    { id: 'track-2', name: 'A1' },
+  ];
+  const alignment = { startOffset: 1.5, shift: 0.5, confidence: 0.9 };
+
+  // ✅ Happy path
+  test('offers the other tracks as references', () => {
+    render(<TrackRow track={mockTrack} alignReferences={alignReferences} onFindAlignment={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Align to reference' }));
+
+    const options = screen.getAllByRole('option').map((option) => option.textContent);
+    expect(options).toEqual(['Current mix', 'A1']);
+  });
+
+  test('previews the proposal on the waveform and applies it as the start offset', async () => {
+    const onFindAlignment = vi.fn().mockResolvedValue(alignment);
+    const onStartOffsetChange = vi.fn();
+    render(
+      <TrackRow
+        track={{ ...mockTrack, startOffset: 1 }}
+        alignReferences={alignReferences}
+        onFindAlignment={onFindAlignment}
+        onStartOffsetChange={onStartOffsetChange}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Align to reference' }));
+    fireEvent.change(screen.getByRole('combobox', { name: 'Alignment reference' }), { target: { value: 'track-2' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Find match' }));
+    await screen.findByTestId('align-proposal');
+
+    expect(onFindAlignment).toHaveBeenCalledWith('track-1', 'track-2');
+    expect(onStartOffsetChange).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Apply alignment' }));
+
+    expect(onStartOffsetChange).toHaveBeenCalledWith('track-1', 1.5);
+    expect(screen.queryByTestId('align-panel')).not.toBeInTheDocument();
+  });
+
+  test('measures timing at the previewed position', async () => {
+    render(
+      <TrackRow
+        track={{ ...mockTrack, onsets: [0] }}
+        tempoMap={new TempoMap(120)}
+        alignReferences={alignReferences}
+        onFindAlignment={vi.fn().mockResolvedValue({ startOffset: 0.52, shift: 0.52, confidence: 0.9 })}
+      />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Show timing report' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Align to reference' }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Find match' }));
+    await screen.findByTestId('align-proposal');
+
+    expect(screen.getByTestId('timing-stats')).toHaveTextContent('average +20ms');
+  });
+
+  // ⚠️ Negative cases
+  test('has no align button without an aligner', () => {
+    render(<TrackRow track={mockTrack} />);
+
+    expect(screen.queryByRole('button', { name: 'Align to reference' })).not.toBeInTheDocument();
+  });
+
+  // 🔥 Edge cases
+  test('closing the panel drops the preview', async () => {
+    const onStartOffsetChange = vi.fn();
+    render(
+      <TrackRow
+        track={{ ...mockTrack, onsets: [0] }}
+        tempoMap={new TempoMap(120)}
+        alignReferences={alignReferences}
+        onFindAlignment={vi.fn().mockResolvedValue({ startOffset: 0.52, shift: 0.52, confidence: 0.9 })}
+        onStartOffsetChange={onStartOffsetChange}
+      />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Show timing report' }));
+    const toggle = screen.getByRole('button', { name: 'Align to reference' });
+
+    fireEvent.click(toggle);
+    fireEvent.click(screen.getByRole('button', { name: 'Find match' }));
+    await screen.findByTestId('align-proposal');
+    fireEvent.click(toggle);
+
+    expect(screen.queryByTestId('align-panel')).not.toBeInTheDocument();
+    expect(screen.getByTestId('timing-stats')).toHaveTextContent('average 0ms');
+    expect(onStartOffsetChange).not.toHaveBeenCalled();
+  });
+});
+
 describe('TrackRow: Optional callbacks', () => {
   test('works without onDelete callback', () => {
     const { container } = render(<TrackRow track={mockTrack} />);
@@ -1,9 +1,15 @@
-// [EARS: TRACK-001, TRACK-002, TRACK-005, TRACK-006, TRACK-008, TRACK-009, TRACK-010, TRACK-011, VIS-002]
-// Track row component with delete, solo, mute, volume, and name editing controls
+// [EARS: TRACK-001, TRACK-002, TRACK-005, TRACK-006, TRACK-008, TRACK-009, TRACK-010, TRACK-011, VIS-002, POS-002, PUNCH-001, LOOP-004, CONTOUR-003, TIMING-003, ALIGN-002, PAN-002]
+// Track row component with delete, solo, mute, volume, pan, name editing, take lane, pitch contour, timing and alignment controls
 
-import React from 'react';
-import type { Track } from '@/store/types';
-import { Waveform } from './Waveform';
+import React, { useMemo, useState } from 'react';
+import type { CompSegment, Track } from '@/store/types';
+import { analyzeTiming } from '@/audio/timingAnalyzer';
+import type { TempoMap } from '@/audio/tempoMap';
+import type { TrackAlignment } from '@/audio/trackAligner';
+import { Waveform, type WaveformSelection } from './Waveform';
+import { TakeLanes } from './TakeLanes';
+import { TimingSummary } from './TimingSummary';
+import { AlignPanel } from './AlignPanel';
 
 export interface TrackRowProps {
   track: Track;
@@ -12,11 +18,31 @@ export interface TrackRowProps {
   onSoloToggle?: (trackId: string) => void;
   onMuteToggle?: (trackId: string) => void;
   onVolumeChange?: (trackId: string, newVolume: number) => void;
+  onPanChange?: (trackId: string, pan: number) => void; // [EARS: PAN-002] -1 (left) to 1 (right)
   onSeek?: (trackId: string, time: number) => void;
+  onStartOffsetChange?: (trackId: string, startOffset: number) => void;
+  selection?: WaveformSelection | null; // [EARS: PUNCH-001] Punch region on this track
+  onSelectionChange?: (trackId: string, selection: WaveformSelection | null) => void;
+  onCompChange?: (trackId: string, comp: CompSegment[]) => void; // [EARS: LOOP-005]
+  onAnalyzePitch?: (trackId: string) => void; // [EARS: CONTOUR-003] Contour needed for a track without one
+  referenceFrequency?: number; // [EARS: CONTOUR-002] A4 for the contour note grid
+  tempoMap?: TempoMap; // [EARS: TIMING-002] Grid for the timing report (no report without it)
+  onAnalyzeTiming?: (trackId: string) => void; // [EARS: TIMING-003] Onsets needed for a track without them
+  alignReferences?: Array<{ id: string; name: string }>; // [EARS: ALIGN-001] Tracks to line up with
+  onFindAlignment?: (trackId: string, referenceId: string | null) => Promise<TrackAlignment>; // [EARS: ALIGN-001] null = mix
   currentTime?: number;
   maxDuration?: number;
 }
 
+/**
+ * Format a pan position as C, L<percent> or R<percent>
+ */
+function formatPan(pan: number): string {
+  const percent = Math.round(Math.abs(pan) * 100);
+  if (percent === 0) return 'C';
+  return `${pan < 0 ? 'L' : 'R'}${percent}`;
+}
+
 /**
  * TrackRow component displays controls for a single track
  * [EARS: TRACK-011] Complete track controls layout
@@ -28,10 +54,43 @@ export function TrackRow({
   onSoloToggle,
   onMuteToggle,
   onVolumeChange,
+  onPanChange,
   onSeek,
+  onStartOffsetChange,
+  selection = null,
+  onSelectionChange,
+  onCompChange,
+  onAnalyzePitch,
+  referenceFrequency,
+  tempoMap,
+  onAnalyzeTiming,
+  alignReferences = [],
+  onFindAlignment,
   currentTime = 0,
   maxDuration,
 }: TrackRowProps) {
+  const startOffset = track.startOffset ?? 0;
+  const takeCount = track.takes?.length ?? 0;
+  const [showTakes, setShowTakes] = useState(false);
+  const [showPitch, setShowPitch] = useState(false);
+  const [showTiming, setShowTiming] = useState(false);
+  const [timingSubdivision, setTimingSubdivision] = useState(1);
+  const [showAlign, setShowAlign] = useState(false);
+  const [alignPreview, setAlignPreview] = useState<TrackAlignment | null>(null);
+
+  // [EARS: ALIGN-002] A proposed alignment is shown in place of the saved start offset
+  const shownOffset = alignPreview?.startOffset ?? startOffset;
+
+  // [EARS: TIMING-002] Onsets are stored from the start of the audio; the grid is on the timeline
+  const timingReport = useMemo(() => {
+    if (!track.onsets || !tempoMap) return null;
+    return analyzeTiming(
+      track.onsets.map((onset) => onset + shownOffset),
+      tempoMap,
+      timingSubdivision
+    );
+  }, [track.onsets, tempoMap, shownOffset, timingSubdivision]);
+
   /**
    * Handle delete button click
    * [EARS: TRACK-001, TRACK-002] Delete track functionality
@@ -83,137 +142,356 @@ export function TrackRow({
     }
   };
 
+  /**
+   * Handle pan slider change
+   * [EARS: PAN-002] Slider runs -100 (left) to 100 (right) in steps of 1%
+   */
+  const handlePanChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (onPanChange) {
+      onPanChange(track.id, parseInt(e.target.value, 10) / 100);
+    }
+  };
+
+  /**
+   * Handle pitch contour button click
+   * [EARS: CONTOUR-003] Tracks recorded before contours existed are analyzed on first show
+   */
+  const handlePitchClick = () => {
+    if (!showPitch && !track.pitchContour && onAnalyzePitch) {
+      onAnalyzePitch(track.id);
+    }
+    setShowPitch(!showPitch);
+  };
+
+  /**
+   * Handle timing button click
+   * [EARS: TIMING-003] Onsets are found on first show
+   */
+  const handleTimingClick = () => {
+    if (!showTiming && !track.onsets && onAnalyzeTiming) {
+      onAnalyzeTiming(track.id);
+    }
+    setShowTiming(!showTiming);
+  };
+
+  /**
+   * Handle align button click
+   * [EARS: ALIGN-002] Closing the panel drops any previewed alignment
+   */
+  const handleAlignClick = () => {
+    setShowAlign(!showAlign);
+    setAlignPreview(null);
+  };
+
+  /**
+   * Commit an alignment
+   * [EARS: ALIGN-003] Saved like a drag-to-nudge
+   */
+  const handleAlignApply = (offset: number) => {
+    onStartOffsetChange?.(track.id, offset);
+    setShowAlign(false);
+  };
+
   return (
-    <div
-      className="track-row"
-      style={{
-        display: 'flex',
-        alignItems: 'center',
-        gap: '0.4rem',
-        padding: '0.4rem',
-        backgroundColor: '#2c2c2c',
-        border: '1px solid #444',
-        borderRadius: '3px',
-        marginBottom: '0.3rem',
-      }}
-    >
-      {/* Delete Button */}
-      {/* [EARS: TRACK-001, TRACK-002] Delete track control */}
-      <button
-        onClick={handleDeleteClick}
-        aria-label="Delete track"
-        style={{
-          padding: '0.3rem 0.5rem',
-          backgroundColor: '#d32f2f',
-          color: '#fff',
-          border: 'none',
-          borderRadius: '3px',
-          cursor: 'pointer',
-          fontSize: '0.7rem',
-          fontWeight: 'bold',
-        }}
-      >
-        Del
-      </button>
-
-      {/* Track Name Input */}
-      {/* [EARS: TRACK-010] Editable track name */}
-      <input
-        type="text"
-        value={track.name}
-        onChange={handleNameChange}
+    <>
+      <div
+        className="track-row"
         style={{
-          flex: '1',
-          padding: '0.3rem 0.4rem',
-          backgroundColor: '#444',
-          color: '#fff',
-          border: '1px solid #666',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.4rem',
+          padding: '0.4rem',
+          backgroundColor: '#2c2c2c',
+          border: '1px solid #444',
           borderRadius: '3px',
-          fontSize: '0.8rem',
-        }}
-      />
-
-      {/* Solo Button */}
-      {/* [EARS: TRACK-005] Solo toggle with active state */}
-      <button
-        onClick={handleSoloClick}
-        aria-label="Solo track"
-        className={track.soloed ? 'active' : ''}
-        style={{
-          padding: '0.3rem 0.5rem',
-          backgroundColor: track.soloed ? '#4caf50' : '#555',
-          color: '#fff',
-          border: 'none',
-          borderRadius: '3px',
-          cursor: 'pointer',
-          fontSize: '0.7rem',
-          fontWeight: 'bold',
-          minWidth: '38px',
+          marginBottom: '0.3rem',
         }}
       >
-        S
-      </button>
-
-      {/* Mute Button */}
-      {/* [EARS: TRACK-006] Mute toggle with active state */}
-      <button
-        onClick={handleMuteClick}
-        aria-label="Mute track"
-        className={track.muted ? 'active' : ''}
-        style={{
-          padding: '0.3rem 0.5rem',
-          backgroundColor: track.muted ? '#ff9800' : '#555',
-          color: '#fff',
-          border: 'none',
-          borderRadius: '3px',
-          cursor: 'pointer',
-          fontSize: '0.7rem',
-          fontWeight: 'bold',
-          minWidth: '38px',
-        }}
-      >
-        M
-      </button>
+        {/* Delete Button */}
+        {/* [EARS: TRACK-001, TRACK-002] Delete track control */}
+        <button
+          onClick={handleDeleteClick}
+          aria-label="Delete track"
+          style={{
+            padding: '0.3rem 0.5rem',
+            backgroundColor: '#d32f2f',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '3px',
+            cursor: 'pointer',
+            fontSize: '0.7rem',
+            fontWeight: 'bold',
+          }}
+        >
+          Del
+        </button>
 
-      {/* Volume Slider */}
-      {/* [EARS: TRACK-008, TRACK-009] Volume control (0-100), grayed when muted */}
-      <div style={{ display: 'flex', alignItems: 'center', gap: '0.3rem' }}>
+        {/* Track Name Input */}
+        {/* [EARS: TRACK-010] Editable track name */}
         <input
-          type="range"
-          min="0"
-          max="100"
-          value={track.volume}
-          onChange={handleVolumeChange}
-          aria-label="Volume slider"
+          type="text"
+          value={track.name}
+          onChange={handleNameChange}
           style={{
-            width: '70px',
-            opacity: track.muted ? 0.4 : 1,
+            flex: '1',
+            padding: '0.3rem 0.4rem',
+            backgroundColor: '#444',
+            color: '#fff',
+            border: '1px solid #666',
+            borderRadius: '3px',
+            fontSize: '0.8rem',
           }}
         />
-        <span
+
+        {/* Solo Button */}
+        {/* [EARS: TRACK-005] Solo toggle with active state */}
+        <button
+          onClick={handleSoloClick}
+          aria-label="Solo track"
+          className={track.soloed ? 'active' : ''}
+          style={{
+            padding: '0.3rem 0.5rem',
+            backgroundColor: track.soloed ? '#4caf50' : '#555',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '3px',
+            cursor: 'pointer',
+            fontSize: '0.7rem',
+            fontWeight: 'bold',
+            minWidth: '38px',
+          }}
+        >
+          S
+        </button>
+
+        {/* Mute Button */}
+        {/* [EARS: TRACK-006] Mute toggle with active state */}
+        <button
+          onClick={handleMuteClick}
+          aria-label="Mute track"
+          className={track.muted ? 'active' : ''}
           style={{
-            color: '#888',
+            padding: '0.3rem 0.5rem',
+            backgroundColor: track.muted ? '#ff9800' : '#555',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '3px',
+            cursor: 'pointer',
             fontSize: '0.7rem',
-            minWidth: '28px',
+            fontWeight: 'bold',
+            minWidth: '38px',
           }}
         >
-          {track.volume}%
-        </span>
+          M
+        </button>
+
+        {/* Volume Slider */}
+        {/* [EARS: TRACK-008, TRACK-009] Volume control (0-100), grayed when muted */}
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.3rem' }}>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={track.volume}
+            onChange={handleVolumeChange}
+            aria-label="Volume slider"
+            style={{
+              width: '70px',
+              opacity: track.muted ? 0.4 : 1,
+            }}
+          />
+          <span
+            style={{
+              color: '#888',
+              fontSize: '0.7rem',
+              minWidth: '28px',
+            }}
+          >
+            {track.volume}%
+          </span>
+        </div>
+
+        {/* Pan Slider */}
+        {/* [EARS: PAN-002] Stereo position, double-click to centre */}
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.3rem' }}>
+          <input
+            type="range"
+            min="-100"
+            max="100"
+            value={Math.round((track.pan ?? 0) * 100)}
+            onChange={handlePanChange}
+            onDoubleClick={() => onPanChange?.(track.id, 0)}
+            aria-label="Pan slider"
+            title="Pan (double-click to centre)"
+            style={{ width: '50px' }}
+          />
+          <span
+            data-testid="pan-value"
+            style={{
+              color: '#888',
+              fontSize: '0.7rem',
+              minWidth: '28px',
+            }}
+          >
+            {formatPan(track.pan ?? 0)}
+          </span>
+        </div>
+
+        {/* Waveform Visualization */}
+        {/* [EARS: VIS-002] Display waveform sparkline */}
+        {/* [EARS: CONTOUR-003] Taller while the pitch contour is shown */}
+        <div style={{ flex: 2, minWidth: '150px' }}>
+          <Waveform
+            data={track.waveformData}
+            width={250}
+            height={showPitch ? 60 : 30}
+            currentTime={currentTime}
+            duration={maxDuration || startOffset + track.duration}
+            trackDuration={track.duration}
+            onSeek={onSeek ? (time) => onSeek(track.id, time) : undefined}
+            startOffset={shownOffset}
+            onStartOffsetChange={
+              onStartOffsetChange ? (offset) => onStartOffsetChange(track.id, offset) : undefined
+            }
+            selection={selection}
+            onSelectionChange={
+              onSelectionChange ? (range) => onSelectionChange(track.id, range) : undefined
+            }
+            pitchContour={showPitch ? track.pitchContour : undefined}
+            referenceFrequency={referenceFrequency}
+            timingMarkers={showTiming ? timingReport?.notes : undefined}
+          />
+        </div>
+
+        {/* Pitch Contour Toggle */}
+        {/* [EARS: CONTOUR-003] Show the sung pitch over the waveform */}
+        <button
+          onClick={handlePitchClick}
+          aria-label="Show pitch contour"
+          aria-pressed={showPitch}
+          style={{
+            padding: '0.3rem 0.5rem',
+            backgroundColor: showPitch ? '#2196f3' : '#555',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '3px',
+            cursor: 'pointer',
+            fontSize: '0.7rem',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          Pitch
+        </button>
+
+        {/* Align Toggle */}
+        {/* [EARS: ALIGN-001] Line the track up with another track or the mix */}
+        {onFindAlignment && (
+          <button
+            onClick={handleAlignClick}
+            aria-label="Align to reference"
+            aria-expanded={showAlign}
+            style={{
+              padding: '0.3rem 0.5rem',
+              backgroundColor: showAlign ? '#2196f3' : '#555',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '3px',
+              cursor: 'pointer',
+              fontSize: '0.7rem',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            Align
+          </button>
+        )}
+
+        {/* Timing Report Toggle */}
+        {/* [EARS: TIMING-003] Show note onsets against the tempo grid */}
+        {tempoMap && (
+          <button
+            onClick={handleTimingClick}
+            aria-label="Show timing report"
+            aria-pressed={showTiming}
+            style={{
+              padding: '0.3rem 0.5rem',
+              backgroundColor: showTiming ? '#2196f3' : '#555',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '3px',
+              cursor: 'pointer',
+              fontSize: '0.7rem',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            Timing
+          </button>
+        )}
+
+        {/* Start Offset */}
+        {/* [EARS: POS-001] Show where the track starts on the timeline */}
+        {startOffset > 0 && (
+          <span
+            data-testid="track-start-offset"
+            title="Start offset"
+            style={{
+              color: '#888',
+              fontSize: '0.7rem',
+              minWidth: '40px',
+            }}
+          >
+            +{startOffset.toFixed(2)}s
+          </span>
+        )}
+
+        {/* Take Lanes Toggle */}
+        {/* [EARS: LOOP-004] Loop-recorded tracks keep their takes */}
+        {takeCount > 0 && (
+          <button
+            onClick={() => setShowTakes(!showTakes)}
+            aria-label="Show takes"
+            aria-expanded={showTakes}
+            style={{
+              padding: '0.3rem 0.5rem',
+              backgroundColor: showTakes ? '#2196f3' : '#555',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '3px',
+              cursor: 'pointer',
+              fontSize: '0.7rem',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            Takes ({takeCount})
+          </button>
+        )}
       </div>
 
-      {/* Waveform Visualization */}
-      {/* [EARS: VIS-002] Display waveform sparkline */}
-      <div style={{ flex: 2, minWidth: '150px' }}>
-        <Waveform
-          data={track.waveformData}
-          width={250}
-          height={30}
-          currentTime={currentTime}
-          duration={maxDuration || track.duration}
-          trackDuration={track.duration}
-          onSeek={onSeek ? (time) => onSeek(track.id, time) : undefined}
+      {/* [EARS: ALIGN-001, ALIGN-002] Reference choice and previewed proposal */}
+      {showAlign && onFindAlignment && (
+        <AlignPanel
+          references={alignReferences.filter((reference) => reference.id !== track.id)}
+          onFind={(referenceId) => onFindAlignment(track.id, referenceId)}
+          onPreviewChange={setAlignPreview}
+          onApply={handleAlignApply}
         />
-      </div>
-    </div>
+      )}
+
+      {/* [EARS: TIMING-004] Rushing/dragging summary */}
+      {showTiming && tempoMap && (
+        <TimingSummary
+          report={timingReport}
+          subdivision={timingSubdivision}
+          onSubdivisionChange={setTimingSubdivision}
+        />
+      )}
+
+      {/* [EARS: LOOP-005] Comping lanes */}
+      {showTakes && takeCount > 0 && (
+        <TakeLanes
+          track={track}
+          onCompChange={onCompChange ? (comp) => onCompChange(track.id, comp) : undefined}
+        />
+      )}
+    </>
   );
 }
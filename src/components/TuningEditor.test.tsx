@@ -0,0 +1,70 @@
+import { describe, test, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TuningEditor } from './TuningEditor';
+import type { Tuning } from '@/store/types';
+
+const tuning: Tuning = { referenceFrequency: 440, temperament: 'equal', key: 0 };
+
+describe('TUNE-001, TUNE-002: Tuning editor', () => {
+  // ✅ Happy path
+  test('shows the reference pitch and temperament', () => {
+    render(<TuningEditor tuning={{ referenceFrequency: 442, temperament: 'just', key: 7 }} onChange={vi.fn()} />);
+
+    expect(screen.getByRole('spinbutton', { name: 'Reference pitch' })).toHaveValue(442);
+    expect(screen.getByRole('combobox', { name: 'Temperament' })).toHaveValue('just');
+    expect(screen.getByRole('combobox', { name: 'Tuning key' })).toHaveValue('7');
+  });
+
+  test('commits a typed reference pitch on blur', () => {
+    const onChange = vi.fn();
+    render(<TuningEditor tuning={tuning} onChange={onChange} />);
+
+    const input = screen.getByRole('spinbutton', { name: 'Reference pitch' });
+    fireEvent.change(input, { target: { value: '442' } });
+    fireEvent.blur(input);
+
+    expect(onChange).toHaveBeenCalledWith({ ...tuning, referenceFrequency: 442 });
+  });
+
+  test('changes temperament and key', () => {
+    const onChange = vi.fn();
+    render(<TuningEditor tuning={{ ...tuning, temperament: 'just' }} onChange={onChange} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Temperament' }), { target: { value: 'pythagorean' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...tuning, temperament: 'pythagorean' });
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Tuning key' }), { target: { value: '9' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...tuning, temperament: 'just', key: 9 });
+  });
+
+  // ⚠️ Negative cases
+  test('ignores a blank or unchanged reference pitch', () => {
+    const onChange = vi.fn();
+    render(<TuningEditor tuning={tuning} onChange={onChange} />);
+
+    const input = screen.getByRole('spinbutton', { name: 'Reference pitch' });
+    fireEvent.blur(input);
+    fireEvent.change(input, { target: { value: '' } });
+    fireEvent.blur(input);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('clamps the reference pitch to 415-466 Hz', () => {
+    const onChange = vi.fn();
+    render(<TuningEditor tuning={tuning} onChange={onChange} />);
+
+    const input = screen.getByRole('spinbutton', { name: 'Reference pitch' });
+    fireEvent.change(input, { target: { value: '500' } });
+    fireEvent.blur(input);
+
+    expect(onChange).toHaveBeenCalledWith({ ...tuning, referenceFrequency: 466 });
+  });
+
+  test('disables the key in equal temperament', () => {
+    render(<TuningEditor tuning={tuning} onChange={vi.fn()} />);
+
+    expect(screen.getByRole('combobox', { name: 'Tuning key' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,92 @@
+// [EARS: TUNE-001, TUNE-002] Editor for the project reference pitch and temperament
+
+import { NOTE_LABELS, MIN_REFERENCE_FREQUENCY, MAX_REFERENCE_FREQUENCY } from '../audio/pitch';
+import type { Temperament, Tuning } from '../store/types';
+
+export const TEMPERAMENT_LABELS: Record<Temperament, string> = {
+  equal: 'Equal',
+  just: 'Just',
+  pythagorean: 'Pythagorean',
+};
+
+export interface TuningEditorProps {
+  tuning: Tuning;
+  onChange: (tuning: Tuning) => void;
+}
+
+const inputStyle = {
+  padding: '0.2rem',
+  backgroundColor: '#444',
+  color: '#fff',
+  border: '1px solid #666',
+  borderRadius: '3px',
+  fontSize: '0.7rem',
+};
+
+/**
+ * TuningEditor sets A4 and the temperament used for every generated pitch
+ * [EARS: TUNE-001] Reference pitch in Hz
+ * [EARS: TUNE-002] Temperament, with a key for just and Pythagorean intonation
+ */
+export function TuningEditor({ tuning, onChange }: TuningEditorProps) {
+  /**
+   * Commit a reference pitch typed into the field
+   * [EARS: TUNE-001] Clamp to 415-466 Hz, to a tenth of a hertz
+   */
+  const handleReferenceBlur = (value: string) => {
+    const frequency = parseFloat(value);
+    if (isNaN(frequency)) return;
+    const clamped = Math.max(MIN_REFERENCE_FREQUENCY, Math.min(MAX_REFERENCE_FREQUENCY, Math.round(frequency * 10) / 10));
+    if (clamped !== tuning.referenceFrequency) {
+      onChange({ ...tuning, referenceFrequency: clamped });
+    }
+  };
+
+  return (
+    <div
+      className="tuning-editor"
+      style={{ display: 'flex', alignItems: 'center', gap: '0.3rem', fontSize: '0.75rem', color: '#ccc' }}
+    >
+      <span>A4 =</span>
+      <input
+        // Re-mount the uncommitted field whenever the saved pitch differs
+        key={tuning.referenceFrequency}
+        type="number"
+        min={MIN_REFERENCE_FREQUENCY}
+        max={MAX_REFERENCE_FREQUENCY}
+        step="0.1"
+        defaultValue={tuning.referenceFrequency}
+        onBlur={(e) => handleReferenceBlur(e.target.value)}
+        aria-label="Reference pitch"
+        style={{ ...inputStyle, width: '56px' }}
+      />
+      <span>Hz</span>
+      <select
+        value={tuning.temperament}
+        onChange={(e) => onChange({ ...tuning, temperament: e.target.value as Temperament })}
+        aria-label="Temperament"
+        style={inputStyle}
+      >
+        {(Object.keys(TEMPERAMENT_LABELS) as Temperament[]).map((temperament) => (
+          <option key={temperament} value={temperament}>
+            {TEMPERAMENT_LABELS[temperament]}
+          </option>
+        ))}
+      </select>
+      <span>in</span>
+      <select
+        value={tuning.key}
+        onChange={(e) => onChange({ ...tuning, key: parseInt(e.target.value, 10) })}
+        disabled={tuning.temperament === 'equal'}
+        aria-label="Tuning key"
+        style={inputStyle}
+      >
+        {NOTE_LABELS.map((label, semitone) => (
+          <option key={label} value={semitone}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
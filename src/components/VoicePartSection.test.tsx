@@ -1,5 +1,6 @@
 import { describe, test, expect, beforeEach, vi } from 'vitest';
 import { render, screen, fireEvent, within } from '@testing-library/react';
+import type { ComponentProps } from 'react';
 import { VoicePartSection } from './VoicePartSection';
 
 describe('VOICE-001: Voice part sections', () => {
@@ -178,6 +179,86 @@ describe('VOICE-004: Color coding', () => {
 });
 
 
+describe('CHORD-003: Give me my note', () => {
+  // ✅ Happy path
+  test('plays the part\'s starting note from the header', () => {
+    const onGiveNote = vi.fn();
+    render(
+      <VoicePartSection
+        voicePartId="T"
+        name="Tenor"
+        color="green"
+        trackCount={0}
+        startingNote="G3"
+        onGiveNote={onGiveNote}
+      />
+    );
+
+    const button = screen.getByRole('button', { name: 'Give Tenor their note' });
+    expect(button).toHaveTextContent('G3');
+
+    fireEvent.click(button);
+    expect(onGiveNote).toHaveBeenCalledTimes(1);
+  });
+
+  // 🔥 Edge cases
+  test('hides the button when the part has no starting note', () => {
+    render(<VoicePartSection voicePartId="T" name="Tenor" color="green" trackCount={0} onGiveNote={vi.fn()} />);
+
+    expect(screen.queryByRole('button', { name: 'Give Tenor their note' })).not.toBeInTheDocument();
+  });
+});
+
+describe('BUS-001, BUS-002, BUS-003: Part bus controls', () => {
+  const renderBus = (props: Partial<ComponentProps<typeof VoicePartSection>> = {}) => {
+    const handlers = { onBusVolumeChange: vi.fn(), onBusMuteToggle: vi.fn(), onBusSoloToggle: vi.fn() };
+    render(<VoicePartSection voicePartId="A" name="Alto" color="blue" trackCount={2} {...handlers} {...props} />);
+    return handlers;
+  };
+
+  // ✅ Happy path
+  test('shows the part fader', () => {
+    renderBus({ busVolume: 65 });
+
+    expect(screen.getByRole('slider', { name: 'Alto volume' })).toHaveValue('65');
+    expect(screen.getByText('65%')).toBeInTheDocument();
+  });
+
+  test('moves the part fader', () => {
+    const { onBusVolumeChange } = renderBus();
+
+    fireEvent.change(screen.getByRole('slider', { name: 'Alto volume' }), { target: { value: '40' } });
+
+    expect(onBusVolumeChange).toHaveBeenCalledWith(40);
+  });
+
+  test('toggles part mute and solo', () => {
+    const { onBusMuteToggle, onBusSoloToggle } = renderBus();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Mute Alto' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Solo Alto' }));
+
+    expect(onBusMuteToggle).toHaveBeenCalledTimes(1);
+    expect(onBusSoloToggle).toHaveBeenCalledTimes(1);
+  });
+
+  test('shows the part mute and solo state', () => {
+    renderBus({ busMuted: true, busSoloed: false });
+
+    expect(screen.getByRole('button', { name: 'Mute Alto' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: 'Solo Alto' })).toHaveAttribute('aria-pressed', 'false');
+    expect(screen.getByRole('slider', { name: 'Alto volume' })).toHaveStyle({ opacity: '0.4' });
+  });
+
+  // 🔥 Edge cases
+  test('hides the bus controls without handlers', () => {
+    render(<VoicePartSection voicePartId="A" name="Alto" color="blue" trackCount={0} />);
+
+    expect(screen.queryByRole('slider', { name: 'Alto volume' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Mute Alto' })).not.toBeInTheDocument();
+  });
+});
+
 describe('VoicePartSection: Layout', () => {
   test('renders header with name, track count, and controls', () => {
     render(<VoicePartSection voicePartId="soprano" name="Soprano" color="red" trackCount={3} />);
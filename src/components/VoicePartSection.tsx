@@ -1,4 +1,4 @@
-// [EARS: VOICE-001, VOICE-002, VOICE-003, VOICE-004, REC-001] Voice part section with tracks
+// [EARS: VOICE-001, VOICE-002, VOICE-003, VOICE-004, REC-001, CHORD-003, BUS-001, BUS-002, BUS-003] Voice part section with tracks and part bus
 
 import { useState, ReactNode } from 'react';
 
@@ -11,6 +11,14 @@ interface VoicePartSectionProps {
   trackCount: number;
   children?: ReactNode;
   onAddTrack?: (voicePartId: string) => void;
+  startingNote?: string; // [EARS: CHORD-003] Name of this part's starting chord pitch (e.g. 'F#3')
+  onGiveNote?: () => void; // [EARS: CHORD-003] Play/stop this part's starting pitch
+  busVolume?: number; // [EARS: BUS-001] Part fader 0-100
+  busMuted?: boolean; // [EARS: BUS-002]
+  busSoloed?: boolean; // [EARS: BUS-003]
+  onBusVolumeChange?: (volume: number) => void; // [EARS: BUS-001] Bus controls are shown when given
+  onBusMuteToggle?: () => void; // [EARS: BUS-002]
+  onBusSoloToggle?: () => void; // [EARS: BUS-003]
 }
 
 /**
@@ -26,6 +34,16 @@ function getColorValue(color: VoicePartColor): string {
   return colorMap[color];
 }
 
+const busButtonStyle = {
+  padding: '0.2rem 0.4rem',
+  color: '#fff',
+  border: 'none',
+  borderRadius: '3px',
+  cursor: 'pointer',
+  fontSize: '0.7rem',
+  fontWeight: 'bold',
+};
+
 /**
  * Voice part section component
  * [EARS: VOICE-001] Displays one of 4 voice parts (S, A, T, B)
@@ -37,6 +55,14 @@ export function VoicePartSection({
   trackCount,
   children,
   onAddTrack,
+  startingNote,
+  onGiveNote,
+  busVolume = 100,
+  busMuted = false,
+  busSoloed = false,
+  onBusVolumeChange,
+  onBusMuteToggle,
+  onBusSoloToggle,
 }: VoicePartSectionProps) {
   const [isExpanded, setIsExpanded] = useState(true);
 
@@ -131,6 +157,60 @@ export function VoicePartSection({
           </span>
         </div>
 
+        {/* Part bus: solo, mute and fader for every track in the part */}
+        {/* [EARS: BUS-001, BUS-002, BUS-003] */}
+        {onBusVolumeChange && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.3rem', marginLeft: 'auto' }}>
+            <button
+              onClick={onBusSoloToggle}
+              aria-label={`Solo ${name}`}
+              aria-pressed={busSoloed}
+              style={{ ...busButtonStyle, backgroundColor: busSoloed ? '#4caf50' : '#555' }}
+            >
+              S
+            </button>
+            <button
+              onClick={onBusMuteToggle}
+              aria-label={`Mute ${name}`}
+              aria-pressed={busMuted}
+              style={{ ...busButtonStyle, backgroundColor: busMuted ? '#ff9800' : '#555' }}
+            >
+              M
+            </button>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={busVolume}
+              onChange={(e) => onBusVolumeChange(parseInt(e.target.value, 10))}
+              aria-label={`${name} volume`}
+              style={{ width: '70px', opacity: busMuted ? 0.4 : 1 }}
+            />
+            <span style={{ color: '#888', fontSize: '0.7rem', minWidth: '28px' }}>{busVolume}%</span>
+          </div>
+        )}
+
+        {/* Give Me My Note */}
+        {/* [EARS: CHORD-003] Starting pitch for this voice part */}
+        {startingNote && onGiveNote && (
+          <button
+            onClick={onGiveNote}
+            aria-label={`Give ${name} their note`}
+            title={`Play ${startingNote}`}
+            style={{
+              padding: '0.2rem 0.5rem',
+              backgroundColor: '#555',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '3px',
+              cursor: 'pointer',
+              fontSize: '0.7rem',
+            }}
+          >
+            ♪ {startingNote}
+          </button>
+        )}
+
       </div>
 
       {/* Tracks Content */}
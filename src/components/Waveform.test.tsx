@@ -689,3 +689,377 @@ describe('Waveform: Optional props and styling', () => {
     expect(waveformContainer).toBeInTheDocument();
   });
 });
+
+describe('POS-002: Drag-to-nudge start offset', () => {
+  // ✅ Happy path
+  test('dragging the waveform reports new start offset', () => {
+    const onStartOffsetChange = vi.fn();
+    render(
+      <Waveform
+        data={mockWaveformData}
+        duration={10}
+        width={300}
+        onStartOffsetChange={onStartOffsetChange}
+      />
+    );
+
+    const canvas = screen.getByRole('img', { name: /waveform/i });
+    fireEvent.mouseDown(canvas, { clientX: 100 });
+    fireEvent.mouseMove(document, { clientX: 160 });
+    fireEvent.mouseUp(document, { clientX: 160 });
+
+    // 60px of 300px over 10s = 2s
+    expect(onStartOffsetChange).toHaveBeenCalledTimes(1);
+    expect(onStartOffsetChange.mock.calls[0]?.[0]).toBeCloseTo(2);
+  });
+
+  test('nudge is relative to the current start offset', () => {
+    const onStartOffsetChange = vi.fn();
+    render(
+      <Waveform
+        data={mockWaveformData}
+        duration={10}
+        width={300}
+        startOffset={3}
+        onStartOffsetChange={onStartOffsetChange}
+      />
+    );
+
+    const canvas = screen.getByRole('img', { name: /waveform/i });
+    fireEvent.mouseDown(canvas, { clientX: 100 });
+    fireEvent.mouseMove(document, { clientX: 70 });
+    fireEvent.mouseUp(document, { clientX: 70 });
+
+    expect(onStartOffsetChange.mock.calls[0]?.[0]).toBeCloseTo(2);
+  });
+
+  test('click after a nudge does not seek', () => {
+    const onSeek = vi.fn();
+    render(
+      <Waveform
+        data={mockWaveformData}
+        duration={10}
+        width={300}
+        onSeek={onSeek}
+        onStartOffsetChange={vi.fn()}
+      />
+    );
+
+    const canvas = screen.getByRole('img', { name: /waveform/i });
+    fireEvent.mouseDown(canvas, { clientX: 100 });
+    fireEvent.mouseMove(document, { clientX: 160 });
+    fireEvent.mouseUp(document, { clientX: 160 });
+    fireEvent.click(canvas, { clientX: 160 });
+
+    expect(onSeek).not.toHaveBeenCalled();
+  });
+
+  // ⚠️ Negative cases
+  test('small movement is still a click-to-seek', () => {
+    const onSeek = vi.fn();
+    const onStartOffsetChange = vi.fn();
+    render(
+      <Waveform
+        data={mockWaveformData}
+        duration={10}
+        width={300}
+        onSeek={onSeek}
+        onStartOffsetChange={onStartOffsetChange}
+      />
+    );
+
+    const canvas = screen.getByRole('img', { name: /waveform/i });
+    fireEvent.mouseDown(canvas, { clientX: 100 });
+    fireEvent.mouseMove(document, { clientX: 101 });
+    fireEvent.mouseUp(document, { clientX: 101 });
+    fireEvent.click(canvas, { clientX: 101 });
+
+    expect(onStartOffsetChange).not.toHaveBeenCalled();
+    expect(onSeek).toHaveBeenCalled();
+  });
+
+  test('does not nudge without onStartOffsetChange', () => {
+    const onSeek = vi.fn();
+    render(
+      <Waveform data={mockWaveformData} duration={10} width={300} onSeek={onSeek} />
+    );
+
+    const canvas = screen.getByRole('img', { name: /waveform/i });
+    fireEvent.mouseDown(canvas, { clientX: 100 });
+    fireEvent.mouseMove(document, { clientX: 160 });
+    fireEvent.mouseUp(document, { clientX: 160 });
+    fireEvent.click(canvas, { clientX: 160 });
+
+    expect(onSeek).toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('clamps offset at timeline start when dragged left', () => {
+    const onStartOffsetChange = vi.fn();
+    render(
+      <Waveform
+        data={mockWaveformData}
+        duration={10}
+        width={300}
+        startOffset={1}
+        onStartOffsetChange={onStartOffsetChange}
+      />
+    );
+
+    const canvas = screen.getByRole('img', { name: /waveform/i });
+    fireEvent.mouseDown(canvas, { clientX: 200 });
+    fireEvent.mouseMove(document, { clientX: 0 });
+    fireEvent.mouseUp(document, { clientX: 0 });
+
+    expect(onStartOffsetChange).toHaveBeenCalledWith(0);
+  });
+});
+
+describe('PUNCH-001: Region selection', () => {
+  // ✅ Happy path
+  test('shift+drag reports the selected time range', () => {
+    const onSelectionChange = vi.fn();
+    render(
+      <Waveform
+        data={mockWaveformData}
+        duration={10}
+        width={300}
+        onSelectionChange={onSelectionChange}
+      />
+    );
+
+    const canvas = screen.getByRole('img', { name: /waveform/i });
+    fireEvent.mouseDown(canvas, { clientX: 90, shiftKey: true });
+    fireEvent.mouseMove(document, { clientX: 150 });
+    fireEvent.mouseUp(document, { clientX: 150 });
+
+    expect(onSelectionChange).toHaveBeenCalledTimes(1);
+    const selection = onSelectionChange.mock.calls[0]?.[0];
+    expect(selection.start).toBeCloseTo(3);
+    expect(selection.end).toBeCloseTo(5);
+  });
+
+  test('dragging right-to-left still orders start before end', () => {
+    const onSelectionChange = vi.fn();
+    render(
+      <Waveform
+        data={mockWaveformData}
+        duration={10}
+        width={300}
+        onSelectionChange={onSelectionChange}
+      />
+    );
+
+    const canvas = screen.getByRole('img', { name: /waveform/i });
+    fireEvent.mouseDown(canvas, { clientX: 150, shiftKey: true });
+    fireEvent.mouseUp(document, { clientX: 90 });
+
+    const selection = onSelectionChange.mock.calls[0]?.[0];
+    expect(selection.start).toBeCloseTo(3);
+    expect(selection.end).toBeCloseTo(5);
+  });
+
+  test('highlights the selected region', () => {
+    render(
+      <Waveform
+        data={mockWaveformData}
+        duration={10}
+        width={300}
+        selection={{ start: 2, end: 4 }}
+      />
+    );
+
+    const region = screen.getByTestId('waveform-selection');
+    expect(region.style.left).toBe('60px');
+    expect(region.style.width).toBe('60px');
+  });
+
+  // ⚠️ Negative cases
+  test('shift+click without dragging clears the selection', () => {
+    const onSelectionChange = vi.fn();
+    render(
+      <Waveform
+        data={mockWaveformData}
+        duration={10}
+        width={300}
+        selection={{ start: 2, end: 4 }}
+        onSelectionChange={onSelectionChange}
+      />
+    );
+
+    const canvas = screen.getByRole('img', { name: /waveform/i });
+    fireEvent.mouseDown(canvas, { clientX: 90, shiftKey: true });
+    fireEvent.mouseUp(document, { clientX: 90 });
+
+    expect(onSelectionChange).toHaveBeenCalledWith(null);
+  });
+
+  test('selecting does not seek or nudge', () => {
+    const onSeek = vi.fn();
+    const onStartOffsetChange = vi.fn();
+    render(
+      <Waveform
+        data={mockWaveformData}
+        duration={10}
+        width={300}
+        onSeek={onSeek}
+        onStartOffsetChange={onStartOffsetChange}
+        onSelectionChange={vi.fn()}
+      />
+    );
+
+    const canvas = screen.getByRole('img', { name: /waveform/i });
+    fireEvent.mouseDown(canvas, { clientX: 90, shiftKey: true });
+    fireEvent.mouseMove(document, { clientX: 150 });
+    fireEvent.mouseUp(document, { clientX: 150 });
+    fireEvent.click(canvas, { clientX: 150, shiftKey: true });
+
+    expect(onSeek).not.toHaveBeenCalled();
+    expect(onStartOffsetChange).not.toHaveBeenCalled();
+  });
+
+  // 🔥 Edge cases
+  test('shows no region when nothing is selected', () => {
+    render(<Waveform data={mockWaveformData} duration={10} width={300} />);
+
+    expect(screen.queryByTestId('waveform-selection')).not.toBeInTheDocument();
+  });
+});
+
+describe('CONTOUR-002: Pitch contour overlay', () => {
+  const cents = (frequency: number, offset: number) => frequency * Math.pow(2, offset / 1200);
+  const pitchContour = {
+    frameDuration: 0.02,
+    frequencies: [440, cents(440, 20), cents(440, -40), null, cents(523.25, 0)],
+  };
+
+  // ✅ Happy path
+  test('draws a point per frame colored by cents off the nearest note', () => {
+    render(<Waveform data={mockWaveformData} duration={1} width={100} height={60} pitchContour={pitchContour} />);
+
+    const points = screen.getAllByTestId('contour-point');
+    expect(points.map(point => point.getAttribute('data-cents'))).toEqual(['0', '20', '-40', '0']);
+    expect(points.map(point => point.getAttribute('fill'))).toEqual(['#4caf50', '#ffeb3b', '#ff6b6b', '#4caf50']);
+    expect(points.map(point => point.getAttribute('x'))).toEqual(['0', '2', '4', '8']);
+  });
+
+  test('places note lines on the nearest equal-tempered notes', () => {
+    render(<Waveform data={mockWaveformData} duration={1} width={100} height={60} pitchContour={pitchContour} />);
+
+    // A4 to C5 with a semitone either side: Ab4 at the bottom, C#5 at the top
+    const notes = screen.getAllByTestId('contour-note');
+    expect(notes[0]).toHaveAttribute('y', '48');
+    expect(notes[3]).toHaveAttribute('y', '12');
+  });
+
+  test('follows the track start offset', () => {
+    render(
+      <Waveform data={mockWaveformData} duration={1} width={100} startOffset={0.5} pitchContour={pitchContour} />
+    );
+
+    expect(screen.getAllByTestId('contour-point')[0]).toHaveAttribute('x', '50');
+  });
+
+  test('measures against the reference pitch', () => {
+    render(
+      <Waveform
+        data={mockWaveformData}
+        duration={1}
+        width={100}
+        referenceFrequency={442}
+        pitchContour={{ frameDuration: 0.02, frequencies: [442] }}
+      />
+    );
+
+    expect(screen.getByTestId('contour-point')).toHaveAttribute('data-cents', '0');
+  });
+
+  // ⚠️ Negative cases
+  test('shows no contour when none is given', () => {
+    render(<Waveform data={mockWaveformData} duration={1} />);
+
+    expect(screen.queryByRole('img', { name: 'Pitch contour' })).not.toBeInTheDocument();
+  });
+
+  test('shows no contour when nothing was sung', () => {
+    render(<Waveform data={mockWaveformData} duration={1} pitchContour={{ frameDuration: 0.02, frequencies: [null, null] }} />);
+
+    expect(screen.queryByRole('img', { name: 'Pitch contour' })).not.toBeInTheDocument();
+  });
+
+  // 🔥 Edge cases
+  test('averages frames that share a column', () => {
+    render(
+      <Waveform
+        data={mockWaveformData}
+        duration={1}
+        width={50}
+        pitchContour={{ frameDuration: 0.02, frequencies: [cents(440, 10), cents(440, -10)] }}
+      />
+    );
+
+    const points = screen.getAllByTestId('contour-point');
+    expect(points).toHaveLength(1);
+    expect(points[0]).toHaveAttribute('data-cents', '0');
+  });
+
+  test('does not intercept clicks on the waveform', () => {
+    const onSeek = vi.fn();
+    render(<Waveform data={mockWaveformData} duration={1} width={100} onSeek={onSeek} pitchContour={pitchContour} />);
+
+    expect(screen.getByRole('img', { name: 'Pitch contour' })).toHaveStyle({ pointerEvents: 'none' });
+  });
+});
+
+describe('TIMING-003: Timing markers', () => {
+  const timingMarkers = [
+    { time: 0.5, gridTime: 0.5, offset: 0 },
+    { time: 0.96, gridTime: 1, offset: -0.04 },
+    { time: 1.55, gridTime: 1.5, offset: 0.05 },
+  ];
+
+  // ✅ Happy path
+  test('draws a marker at each onset colored by its offset', () => {
+    render(<Waveform data={mockWaveformData} duration={2} width={200} timingMarkers={timingMarkers} />);
+
+    const markers = screen.getAllByTestId('timing-marker');
+    expect(markers).toHaveLength(3);
+    expect(markers[1]).toHaveStyle({ left: '96px', backgroundColor: '#2196f3' });
+    expect(markers[2]).toHaveStyle({ left: '155px', backgroundColor: '#ff9800' });
+    expect(markers[0]).toHaveStyle({ backgroundColor: '#4caf50' });
+  });
+
+  test('labels each marker with its offset in milliseconds', () => {
+    render(<Waveform data={mockWaveformData} duration={2} width={200} timingMarkers={timingMarkers} />);
+
+    const markers = screen.getAllByTestId('timing-marker');
+    expect(markers[1]).toHaveAttribute('title', '−40ms');
+    expect(markers[2]).toHaveAttribute('title', '+50ms');
+  });
+
+  // ⚠️ Negative cases
+  test('draws no markers without a timing report', () => {
+    render(<Waveform data={mockWaveformData} duration={2} />);
+
+    expect(screen.queryByTestId('timing-marker')).not.toBeInTheDocument();
+  });
+
+  // 🔥 Edge cases
+  test('moves the markers with the waveform while nudging', () => {
+    render(
+      <Waveform
+        data={mockWaveformData}
+        duration={2}
+        width={200}
+        timingMarkers={[timingMarkers[0]!]}
+        onStartOffsetChange={vi.fn()}
+      />
+    );
+    const canvas = screen.getByRole('img', { name: /waveform/i });
+
+    fireEvent.mouseDown(canvas, { clientX: 100 });
+    fireEvent.mouseMove(document, { clientX: 120 });
+
+    expect(screen.getByTestId('timing-marker')).toHaveStyle({ left: '70px' });
+  });
+});
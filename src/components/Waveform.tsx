@@ -1,7 +1,15 @@
-// [EARS: VIS-002, VIS-004, SEEK-001, SEEK-002, SEEK-003, SEEK-004]
-// Waveform sparkline visualization with playhead and seek functionality
+// [EARS: VIS-002, VIS-004, SEEK-001, SEEK-002, SEEK-003, SEEK-004, POS-002, PUNCH-001, CONTOUR-002, TIMING-003]
+// Waveform sparkline visualization with playhead, seek, drag-to-nudge, region selection, pitch contour and timing markers
 
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { DEFAULT_TUNING } from '../audio/pitch';
+import { ON_TIME_TOLERANCE, type TimingNote } from '../audio/timingAnalyzer';
+import type { PitchContour } from '../store/types';
+
+export interface WaveformSelection {
+  start: number; // Seconds from timeline start
+  end: number; // Seconds from timeline start
+}
 
 export interface WaveformProps {
   data?: number[];
@@ -9,6 +17,13 @@ export interface WaveformProps {
   duration?: number;
   trackDuration?: number; // Actual duration of this track (for scaling)
   onSeek?: (time: number) => void;
+  startOffset?: number; // [EARS: POS-001] Where this track starts on the timeline (seconds)
+  onStartOffsetChange?: (startOffset: number) => void; // [EARS: POS-002] Drag-to-nudge
+  selection?: WaveformSelection | null; // [EARS: PUNCH-001] Highlighted time range
+  onSelectionChange?: (selection: WaveformSelection | null) => void; // [EARS: PUNCH-001] Shift+drag
+  pitchContour?: PitchContour; // [EARS: CONTOUR-002] Sung pitch drawn over the waveform
+  referenceFrequency?: number; // [EARS: CONTOUR-002] A4 for the equal-tempered note grid (default 440 Hz)
+  timingMarkers?: TimingNote[]; // [EARS: TIMING-003] Note onsets colored by their offset from the grid
   isPlaying?: boolean;
   width?: number;
   height?: number;
@@ -19,10 +34,81 @@ const DEFAULT_HEIGHT = 60;
 const WAVEFORM_COLOR = '#4caf50';
 const PLAYHEAD_COLOR = '#ff6b6b';
 const PLAYHEAD_WIDTH = 2;
+const NUDGE_THRESHOLD = 3; // Pixels of movement before a click becomes a nudge
+const SELECTION_COLOR = 'rgba(255, 235, 59, 0.25)';
+
+// [EARS: CONTOUR-002] Pitch contour overlay
+const CONTOUR_COLUMN_WIDTH = 2; // Pixels per averaged contour point
+const CONTOUR_POINT_HEIGHT = 2;
+const NOTE_LINE_COLOR = 'rgba(255, 255, 255, 0.35)';
+const IN_TUNE_CENTS = 10; // Green within this many cents of the note
+const CLOSE_CENTS = 25; // Yellow within this many cents, red beyond
+const IN_TUNE_COLOR = '#4caf50';
+const CLOSE_COLOR = '#ffeb3b';
+const OFF_COLOR = '#ff6b6b';
+
+// [EARS: TIMING-003] Timing markers
+const EARLY_COLOR = '#2196f3';
+const LATE_COLOR = '#ff9800';
+
+interface ContourPoint {
+  x: number; // Column left edge in pixels
+  semitones: number; // Sung pitch in semitones from A4
+  note: number; // Nearest equal-tempered note in semitones from A4
+  cents: number; // Deviation from that note
+}
+
+/**
+ * Average a pitch contour into pixel columns
+ * [EARS: CONTOUR-002] Frames in a column are averaged on a log scale; unvoiced frames are skipped
+ */
+function getContourPoints(
+  pitchContour: PitchContour,
+  referenceFrequency: number,
+  pixelsPerSecond: number,
+  offsetX: number
+): ContourPoint[] {
+  const columns = new Map<number, { sum: number; count: number }>();
+
+  pitchContour.frequencies.forEach((frequency, frame) => {
+    if (frequency === null || frequency <= 0) return;
+    const x = offsetX + frame * pitchContour.frameDuration * pixelsPerSecond;
+    const column = Math.floor(x / CONTOUR_COLUMN_WIDTH);
+    const entry = columns.get(column) ?? { sum: 0, count: 0 };
+    entry.sum += 12 * Math.log2(frequency / referenceFrequency);
+    entry.count++;
+    columns.set(column, entry);
+  });
+
+  return [...columns].map(([column, { sum, count }]) => {
+    const semitones = sum / count;
+    const note = Math.round(semitones);
+    return { x: column * CONTOUR_COLUMN_WIDTH, semitones, note, cents: (semitones - note) * 100 };
+  });
+}
+
+/**
+ * Color a contour point by how far it is from its note
+ */
+function getCentsColor(cents: number): string {
+  const distance = Math.abs(cents);
+  if (distance <= IN_TUNE_CENTS) return IN_TUNE_COLOR;
+  if (distance <= CLOSE_CENTS) return CLOSE_COLOR;
+  return OFF_COLOR;
+}
+
+/**
+ * Color a timing marker: on time, early or late
+ */
+function getOffsetColor(offset: number): string {
+  if (offset < -ON_TIME_TOLERANCE) return EARLY_COLOR;
+  if (offset > ON_TIME_TOLERANCE) return LATE_COLOR;
+  return IN_TUNE_COLOR;
+}
 
 /**
  * Waveform component displays audio waveform with playhead and seek controls
- * [EARS: VIS-002, VIS-004, SEEK-001, SEEK-002, SEEK-003, SEEK-004]
+ * [EARS: VIS-002, VIS-004, SEEK-001, SEEK-002, SEEK-003, SEEK-004, POS-002, PUNCH-001, CONTOUR-002, TIMING-003]
  */
 export function Waveform({
   data: waveformData = [],
@@ -30,6 +116,13 @@ export function Waveform({
   duration = 0,
   trackDuration,
   onSeek,
+  startOffset = 0,
+  onStartOffsetChange,
+  selection = null,
+  onSelectionChange,
+  pitchContour,
+  referenceFrequency = DEFAULT_TUNING.referenceFrequency,
+  timingMarkers,
   isPlaying = false,
   width = DEFAULT_WIDTH,
   height = DEFAULT_HEIGHT,
@@ -37,6 +130,14 @@ export function Waveform({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [nudgeOffset, setNudgeOffset] = useState<number | null>(null);
+  const nudgeRef = useRef<{ startX: number; startOffset: number; moved: boolean } | null>(null);
+  const suppressClickRef = useRef(false);
+  const [draftSelection, setDraftSelection] = useState<WaveformSelection | null>(null);
+  const selectAnchorRef = useRef<number | null>(null);
+
+  // Offset shown while nudging, otherwise the committed offset
+  const displayOffset = nudgeOffset ?? startOffset;
 
   /**
    * Draw waveform sparkline on canvas
@@ -67,6 +168,8 @@ export function Waveform({
     // If trackDuration is provided and less than duration, scale the waveform
     const actualDuration = trackDuration || duration;
     const waveformWidth = duration > 0 ? (actualDuration / duration) * width : width;
+    // [EARS: POS-001] Shift the waveform to the track's start offset
+    const offsetX = duration > 0 ? (displayOffset / duration) * width : 0;
 
     // Draw waveform
     ctx.strokeStyle = WAVEFORM_COLOR;
@@ -78,7 +181,7 @@ export function Waveform({
 
     // Draw each data point, scaled to waveformWidth
     waveformData.forEach((amplitude, index) => {
-      const x = (index / (waveformData.length - 1 || 1)) * waveformWidth;
+      const x = offsetX + (index / (waveformData.length - 1 || 1)) * waveformWidth;
       const y = centerY - amplitude * amplitudeScale;
 
       if (index === 0) {
@@ -91,7 +194,7 @@ export function Waveform({
     // Draw mirror for symmetrical waveform
     for (let i = waveformData.length - 1; i >= 0; i--) {
       const amplitude = waveformData[i];
-      const x = (i / (waveformData.length - 1 || 1)) * waveformWidth;
+      const x = offsetX + (i / (waveformData.length - 1 || 1)) * waveformWidth;
       const y = centerY + amplitude * amplitudeScale;
       ctx.lineTo(x, y);
     }
@@ -100,7 +203,7 @@ export function Waveform({
     ctx.fillStyle = WAVEFORM_COLOR + '40'; // 25% opacity
     ctx.fill();
     ctx.stroke();
-  }, [waveformData, width, height, duration, trackDuration]);
+  }, [waveformData, width, height, duration, trackDuration, displayOffset]);
 
   /**
    * Calculate time position from pixel position
@@ -123,11 +226,116 @@ export function Waveform({
    * [EARS: SEEK-001] Click-to-seek
    */
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    // A nudge drag ends with a click - don't treat it as a seek
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
     if (!onSeek) return;
     const time = getTimeFromPosition(e.clientX, e.currentTarget);
     onSeek(time);
   };
 
+  /**
+   * Handle waveform drag start
+   * [EARS: POS-002] Drag-to-nudge track start offset
+   */
+  const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (duration <= 0) return;
+
+    // [EARS: PUNCH-001] Shift+drag selects a region instead of nudging
+    if (e.shiftKey && onSelectionChange) {
+      const time = getTimeFromPosition(e.clientX, e.currentTarget);
+      selectAnchorRef.current = time;
+      setDraftSelection({ start: time, end: time });
+      return;
+    }
+
+    if (!onStartOffsetChange) return;
+    nudgeRef.current = { startX: e.clientX, startOffset, moved: false };
+  };
+
+  /**
+   * Handle mouse move and release during region selection
+   * [EARS: PUNCH-001] Select a time range for punch-in
+   */
+  useEffect(() => {
+    if (!onSelectionChange) return;
+
+    const rangeTo = (clientX: number): WaveformSelection | null => {
+      const anchor = selectAnchorRef.current;
+      if (anchor === null) return null;
+      const time = getTimeFromPosition(clientX);
+      return { start: Math.min(anchor, time), end: Math.max(anchor, time) };
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const range = rangeTo(e.clientX);
+      if (range) {
+        setDraftSelection(range);
+      }
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      const range = rangeTo(e.clientX);
+      if (!range) return;
+      selectAnchorRef.current = null;
+      suppressClickRef.current = true;
+      setDraftSelection(null);
+
+      // A shift+click without dragging clears the selection
+      onSelectionChange(range.end > range.start ? range : null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [onSelectionChange, duration, width]);
+
+  /**
+   * Handle mouse move and release during nudge
+   * [EARS: POS-002] Preview while dragging, commit on release
+   */
+  useEffect(() => {
+    if (!onStartOffsetChange) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const nudge = nudgeRef.current;
+      if (!nudge || duration <= 0) return;
+
+      const deltaX = e.clientX - nudge.startX;
+      if (!nudge.moved && Math.abs(deltaX) < NUDGE_THRESHOLD) return;
+
+      nudge.moved = true;
+      setNudgeOffset(Math.max(0, nudge.startOffset + (deltaX / width) * duration));
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      const nudge = nudgeRef.current;
+      if (!nudge) return;
+      nudgeRef.current = null;
+
+      if (nudge.moved) {
+        suppressClickRef.current = true;
+        const deltaX = e.clientX - nudge.startX;
+        onStartOffsetChange(Math.max(0, nudge.startOffset + (deltaX / width) * duration));
+      }
+      setNudgeOffset(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [onStartOffsetChange, duration, width]);
+
   /**
    * Handle playhead drag start
    * [EARS: SEEK-002] Drag-to-seek
@@ -170,6 +378,32 @@ export function Waveform({
    */
   const playheadPosition = duration > 0 ? (currentTime / duration) * width : 0;
 
+  // [EARS: PUNCH-001] Selected region (draft while dragging)
+  const shownSelection = draftSelection ?? selection;
+  const selectionLeft = shownSelection && duration > 0 ? (shownSelection.start / duration) * width : 0;
+  const selectionWidth = shownSelection && duration > 0
+    ? ((shownSelection.end - shownSelection.start) / duration) * width
+    : 0;
+
+  /**
+   * Contour points and the note range they span
+   * [EARS: CONTOUR-002] Follows the waveform's position and scale
+   */
+  const contour = useMemo(() => {
+    if (!pitchContour || duration <= 0) return null;
+
+    const points = getContourPoints(pitchContour, referenceFrequency, width / duration, (displayOffset / duration) * width);
+    if (points.length === 0) return null;
+
+    const notes = points.map(point => point.note);
+    // One semitone of headroom above and below the sung range
+    const lowest = Math.min(...notes) - 1;
+    const highest = Math.max(...notes) + 1;
+    const toY = (semitones: number) => height - ((semitones - lowest) / (highest - lowest)) * height;
+
+    return { points, toY };
+  }, [pitchContour, referenceFrequency, duration, width, height, displayOffset]);
+
   return (
     <div
       ref={containerRef}
@@ -192,15 +426,88 @@ export function Waveform({
         width={width}
         height={height}
         onClick={handleCanvasClick}
+        onMouseDown={handleCanvasMouseDown}
         role="img"
         aria-label="Waveform visualization"
         style={{
           display: 'block',
           width: '100%',
           height: '100%',
+          cursor: onStartOffsetChange ? 'grab' : undefined,
         }}
       />
 
+      {/* Pitch Contour */}
+      {/* [EARS: CONTOUR-002] Sung pitch against the nearest equal-tempered notes */}
+      {contour && (
+        <svg
+          role="img"
+          aria-label="Pitch contour"
+          width={width}
+          height={height}
+          style={{ position: 'absolute', top: 0, left: 0, pointerEvents: 'none' }}
+        >
+          {contour.points.map(point => (
+            <g key={point.x}>
+              <rect
+                data-testid="contour-note"
+                x={point.x}
+                y={contour.toY(point.note)}
+                width={CONTOUR_COLUMN_WIDTH}
+                height={1}
+                fill={NOTE_LINE_COLOR}
+              />
+              <rect
+                data-testid="contour-point"
+                data-cents={Math.round(point.cents)}
+                x={point.x}
+                y={contour.toY(point.semitones) - CONTOUR_POINT_HEIGHT / 2}
+                width={CONTOUR_COLUMN_WIDTH}
+                height={CONTOUR_POINT_HEIGHT}
+                fill={getCentsColor(point.cents)}
+              />
+            </g>
+          ))}
+        </svg>
+      )}
+
+      {/* Timing Markers */}
+      {/* [EARS: TIMING-003] A line at each onset: green on time, blue early, orange late */}
+      {duration > 0 &&
+        timingMarkers?.map((note) => (
+          <div
+            key={note.time}
+            data-testid="timing-marker"
+            title={`${note.offset >= 0 ? '+' : '−'}${Math.round(Math.abs(note.offset) * 1000)}ms`}
+            style={{
+              position: 'absolute',
+              top: 0,
+              left: `${((note.time - startOffset + displayOffset) / duration) * width}px`,
+              width: '1px',
+              height: '100%',
+              backgroundColor: getOffsetColor(note.offset),
+              pointerEvents: 'none',
+            }}
+          />
+        ))}
+
+      {/* Selected Region */}
+      {/* [EARS: PUNCH-001] Highlight punch-in range */}
+      {shownSelection && (
+        <div
+          data-testid="waveform-selection"
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: `${selectionLeft}px`,
+            width: `${selectionWidth}px`,
+            height: '100%',
+            backgroundColor: SELECTION_COLOR,
+            pointerEvents: 'none',
+          }}
+        />
+      )}
+
       {/* Playhead Indicator */}
       {/* [EARS: VIS-004, SEEK-004] Playhead vertical line */}
       <div
@@ -1,6 +1,6 @@
 // Shared metronome context for global metronome access
 
-import { createContext, useContext, useRef, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useRef, ReactNode } from 'react';
 import { Metronome } from '../audio/metronome';
 
 interface MetronomeContextType {
@@ -12,12 +12,13 @@ const MetronomeContext = createContext<MetronomeContextType | null>(null);
 export function MetronomeProvider({ children }: { children: ReactNode }) {
   const metronomeRef = useRef<Metronome | null>(null);
 
-  const getMetronome = () => {
+  // Stable identity so effects can depend on it
+  const getMetronome = useCallback(() => {
     if (!metronomeRef.current) {
       metronomeRef.current = new Metronome(120);
     }
     return metronomeRef.current;
-  };
+  }, []);
 
   return (
     <MetronomeContext.Provider value={{ getMetronome }}>
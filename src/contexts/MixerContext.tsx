@@ -2,7 +2,9 @@
 // This ensures only one mixer instance exists, reducing memory usage
 
 import React, { createContext, useContext, useRef, ReactNode, useEffect, useState } from 'react';
+import * as Tone from 'tone';
 import { Mixer } from '../audio/mixer';
+import { useMetronome } from './MetronomeContext';
 
 interface MixerContextValue {
   getMixer: () => Mixer | null;
@@ -17,13 +19,22 @@ export function MixerProvider({ children }: { children: ReactNode }) {
   const mixerRef = useRef<Mixer | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const { getMetronome } = useMetronome();
 
   useEffect(() => {
     // Create shared audio context and mixer
     audioContextRef.current = new AudioContext();
     mixerRef.current = new Mixer(audioContextRef.current);
 
+    // [EARS: CLICK-004] Run the Tone transport on the mixer's clock and
+    // phase-lock the metronome whenever playback (re)starts
+    Tone.setContext(audioContextRef.current);
+    const unsubscribe = mixerRef.current.onPlaybackStart(({ position, time }) => {
+      getMetronome()?.syncTo(position, time);
+    });
+
     return () => {
+      unsubscribe();
       // Clean up on unmount
       if (mixerRef.current) {
         mixerRef.current.dispose();
@@ -32,7 +43,7 @@ export function MixerProvider({ children }: { children: ReactNode }) {
         audioContextRef.current.close();
       }
     };
-  }, []);
+  }, [getMetronome]);
 
   const getMixer = () => mixerRef.current;
   const getAudioContext = () => audioContextRef.current;
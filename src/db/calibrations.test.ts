@@ -0,0 +1,60 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { db, initializeDatabase } from './index';
+import { saveCalibration, getCalibration, getAllCalibrations, deleteCalibration } from './calibrations';
+
+describe('LAT-003: Store latency per microphone', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('saves and retrieves latency by device ID', async () => {
+    await saveCalibration('mic-1', 0.042);
+
+    const calibration = await getCalibration('mic-1');
+    expect(calibration?.latency).toBe(0.042);
+    expect(calibration?.measuredAt).toBeInstanceOf(Date);
+  });
+
+  test('replaces a previous calibration for the same device', async () => {
+    await saveCalibration('mic-1', 0.042);
+    await saveCalibration('mic-1', 0.035);
+
+    const all = await getAllCalibrations();
+    expect(all).toHaveLength(1);
+    expect(all[0]?.latency).toBe(0.035);
+  });
+
+  test('keeps calibrations for different devices separate', async () => {
+    await saveCalibration('mic-1', 0.042);
+    await saveCalibration('mic-2', 0.120);
+
+    expect((await getCalibration('mic-1'))?.latency).toBe(0.042);
+    expect((await getCalibration('mic-2'))?.latency).toBe(0.120);
+  });
+
+  test('deletes a calibration', async () => {
+    await saveCalibration('mic-1', 0.042);
+    await deleteCalibration('mic-1');
+
+    expect(await getCalibration('mic-1')).toBeUndefined();
+  });
+
+  // ⚠️ Negative cases
+  test('rejects an empty device ID', async () => {
+    await expect(saveCalibration('', 0.042)).rejects.toThrow('Device ID is required');
+  });
+
+  test('rejects a negative latency', async () => {
+    await expect(saveCalibration('mic-1', -0.01)).rejects.toThrow('Latency must be a non-negative number');
+  });
+
+  // 🔥 Edge cases
+  test('returns undefined for an uncalibrated device', async () => {
+    expect(await getCalibration('unknown')).toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+// [EARS: LAT-003, ERR-002] Latency calibration storage per microphone device
+
+import { db } from './index';
+import type { LatencyCalibration } from '@/store/types';
+import { useErrorStore } from '@/store/useErrorStore';
+
+/**
+ * Save the measured round-trip latency for a microphone
+ * [EARS: LAT-003] Store latency keyed by device ID (replaces any previous value)
+ *
+ * @param deviceId - Microphone device ID
+ * @param latency - Round-trip latency in seconds
+ * @throws Error if device ID is empty or latency is negative
+ */
+export async function saveCalibration(deviceId: string, latency: number): Promise<void> {
+  if (!deviceId) {
+    throw new Error('Device ID is required');
+  }
+
+  if (!Number.isFinite(latency) || latency < 0) {
+    throw new Error('Latency must be a non-negative number');
+  }
+
+  try {
+    await db.calibrations.put({
+      deviceId,
+      latency,
+      measuredAt: new Date(),
+    });
+  } catch (error) {
+    // [EARS: ERR-002] Handle storage quota exceeded
+    if (error instanceof Error && error.name === 'QuotaExceededError') {
+      useErrorStore.getState().setError('Storage quota exceeded. Please delete some projects or tracks.');
+      throw new Error('Storage quota exceeded');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the stored calibration for a microphone
+ *
+ * @param deviceId - Microphone device ID
+ * @returns Calibration or undefined if the device was never calibrated
+ */
+export async function getCalibration(deviceId: string): Promise<LatencyCalibration | undefined> {
+  return await db.calibrations.get(deviceId);
+}
+
+/**
+ * Get all stored calibrations
+ *
+ * @returns Array of calibrations
+ */
+export async function getAllCalibrations(): Promise<LatencyCalibration[]> {
+  return await db.calibrations.toArray();
+}
+
+/**
+ * Delete the stored calibration for a microphone
+ *
+ * @param deviceId - Microphone device ID
+ */
+export async function deleteCalibration(deviceId: string): Promise<void> {
+  await db.calibrations.delete(deviceId);
+}
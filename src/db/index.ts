@@ -1,12 +1,13 @@
 // [EARS: PROJ-005, PROJ-006, PROJ-007, PROJ-008] IndexedDB storage with Dexie.js
 
 import Dexie, { type EntityTable } from 'dexie';
-import type { Project, Track } from '@/store/types';
+import type { LatencyCalibration, Project, Track } from '@/store/types';
 
 // Define the database schema
 class RecorderDatabase extends Dexie {
   projects!: EntityTable<Project, 'id'>;
   tracks!: EntityTable<Track, 'id'>;
+  calibrations!: EntityTable<LatencyCalibration, 'deviceId'>;
 
   constructor() {
     super('RecorderDB');
@@ -18,6 +19,12 @@ class RecorderDatabase extends Dexie {
       // [EARS: REC-009] Tracks table with indexed id and voicePartType for querying
       tracks: 'id, voicePartType, name, createdAt',
     });
+
+    // Schema version 2: per-device latency calibration
+    this.version(2).stores({
+      // [EARS: LAT-003] Calibrations keyed by microphone device ID
+      calibrations: 'deviceId, measuredAt',
+    });
   }
 }
 
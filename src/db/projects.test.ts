@@ -282,6 +282,235 @@ describe('PROJ-005: Auto-save project data on changes', () => {
   });
 });
 
+describe('CNT-001, CNT-002, CNT-004: Count-in settings', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('creates project with a one-bar count-in in 4/4', async () => {
+    const projectId = await createProject('Test Project');
+    const project = await getProject(projectId);
+
+    expect(project?.timeSignature).toEqual({ beatsPerBar: 4, beatUnit: 4 });
+    expect(project?.countInBars).toBe(1);
+    expect(project?.skipCountInFromPosition).toBe(false);
+  });
+
+  test('updates time signature and count-in settings', async () => {
+    const projectId = await createProject('Test Project');
+    await updateProject(projectId, {
+      timeSignature: { beatsPerBar: 6, beatUnit: 8 },
+      countInBars: 2,
+      skipCountInFromPosition: true,
+    });
+
+    const project = await getProject(projectId);
+    expect(project?.timeSignature).toEqual({ beatsPerBar: 6, beatUnit: 8 });
+    expect(project?.countInBars).toBe(2);
+    expect(project?.skipCountInFromPosition).toBe(true);
+  });
+
+  // ⚠️ Negative cases
+  test('rejects invalid time signatures', async () => {
+    const projectId = await createProject('Test Project');
+
+    await expect(
+      updateProject(projectId, { timeSignature: { beatsPerBar: 0, beatUnit: 4 } })
+    ).rejects.toThrow('Invalid time signature');
+    await expect(
+      updateProject(projectId, { timeSignature: { beatsPerBar: 4, beatUnit: 3 } })
+    ).rejects.toThrow('Invalid time signature');
+  });
+
+  // 🔥 Edge cases
+  test('clamps count-in to whole bars between 0 and 4', async () => {
+    const projectId = await createProject('Test Project');
+
+    await updateProject(projectId, { countInBars: 9 });
+    expect((await getProject(projectId))?.countInBars).toBe(4);
+
+    await updateProject(projectId, { countInBars: -1 });
+    expect((await getProject(projectId))?.countInBars).toBe(0);
+
+    await updateProject(projectId, { countInBars: 1.6 });
+    expect((await getProject(projectId))?.countInBars).toBe(2);
+  });
+});
+
+describe('TEMPO-001: Tempo map', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('saves tempo and meter changes sorted by bar', async () => {
+    const projectId = await createProject('Test Project');
+
+    await updateProject(projectId, {
+      tempoMap: [
+        { bar: 33, bpm: 72, ramp: true },
+        { bar: 17, bpm: 96, timeSignature: { beatsPerBar: 3, beatUnit: 4 } },
+      ],
+    });
+
+    const project = await getProject(projectId);
+    expect(project?.tempoMap).toEqual([
+      { bar: 17, bpm: 96, timeSignature: { beatsPerBar: 3, beatUnit: 4 } },
+      { bar: 33, bpm: 72, ramp: true },
+    ]);
+  });
+
+  // ⚠️ Negative cases
+  test('rejects events outside bar 2+ or 40-240 BPM', async () => {
+    const projectId = await createProject('Test Project');
+
+    await expect(updateProject(projectId, { tempoMap: [{ bar: 1, bpm: 100 }] })).rejects.toThrow(
+      'Invalid tempo map'
+    );
+    await expect(updateProject(projectId, { tempoMap: [{ bar: 4, bpm: 300 }] })).rejects.toThrow(
+      'Invalid tempo map'
+    );
+    await expect(
+      updateProject(projectId, { tempoMap: [{ bar: 4, bpm: 100, timeSignature: { beatsPerBar: 4, beatUnit: 5 } }] })
+    ).rejects.toThrow('Invalid tempo map');
+  });
+
+  // 🔥 Edge cases
+  test('rejects two events on the same bar', async () => {
+    const projectId = await createProject('Test Project');
+
+    await expect(
+      updateProject(projectId, {
+        tempoMap: [
+          { bar: 5, bpm: 100 },
+          { bar: 5, bpm: 80 },
+        ],
+      })
+    ).rejects.toThrow('Invalid tempo map');
+  });
+
+  test('has no tempo changes by default', async () => {
+    const projectId = await createProject('Test Project');
+
+    expect((await getProject(projectId))?.tempoMap).toBeUndefined();
+  });
+});
+
+describe('CHORD-001: Starting chord', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('saves one pitch per voice part', async () => {
+    const projectId = await createProject('Test Project');
+    const startingChord = {
+      S: { semitone: 4, octave: 5 },
+      A: { semitone: 0, octave: 5 },
+      T: { semitone: 7, octave: 3 },
+      B: { semitone: 0, octave: 3 },
+    };
+
+    await updateProject(projectId, { startingChord });
+
+    expect((await getProject(projectId))?.startingChord).toEqual(startingChord);
+  });
+
+  // ⚠️ Negative cases
+  test('rejects pitches outside C2-B6 and unknown voice parts', async () => {
+    const projectId = await createProject('Test Project');
+
+    await expect(updateProject(projectId, { startingChord: { B: { semitone: 0, octave: 1 } } })).rejects.toThrow(
+      'Invalid starting chord'
+    );
+    await expect(updateProject(projectId, { startingChord: { S: { semitone: 12, octave: 4 } } })).rejects.toThrow(
+      'Invalid starting chord'
+    );
+    await expect(
+      updateProject(projectId, { startingChord: { X: { semitone: 0, octave: 4 } } as never })
+    ).rejects.toThrow('Invalid starting chord');
+  });
+
+  // 🔥 Edge cases
+  test('allows voice parts without a pitch', async () => {
+    const projectId = await createProject('Test Project');
+
+    await updateProject(projectId, { startingChord: { B: { semitone: 5, octave: 2 } } });
+
+    expect((await getProject(projectId))?.startingChord).toEqual({ B: { semitone: 5, octave: 2 } });
+  });
+
+  test('has no starting chord by default', async () => {
+    const projectId = await createProject('Test Project');
+
+    expect((await getProject(projectId))?.startingChord).toBeUndefined();
+  });
+});
+
+describe('TUNE-001, TUNE-002: Tuning', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('saves reference pitch and temperament', async () => {
+    const projectId = await createProject('Test Project');
+    const tuning = { referenceFrequency: 442, temperament: 'just' as const, key: 7 };
+
+    await updateProject(projectId, { tuning });
+
+    expect((await getProject(projectId))?.tuning).toEqual(tuning);
+  });
+
+  // ⚠️ Negative cases
+  test('rejects reference pitches outside 415-466 Hz, unknown temperaments and keys', async () => {
+    const projectId = await createProject('Test Project');
+
+    await expect(
+      updateProject(projectId, { tuning: { referenceFrequency: 480, temperament: 'equal', key: 0 } })
+    ).rejects.toThrow('Invalid tuning');
+    await expect(
+      updateProject(projectId, { tuning: { referenceFrequency: 440, temperament: 'meantone' as never, key: 0 } })
+    ).rejects.toThrow('Invalid tuning');
+    await expect(
+      updateProject(projectId, { tuning: { referenceFrequency: 440, temperament: 'just', key: 1.5 } })
+    ).rejects.toThrow('Invalid tuning');
+  });
+
+  // 🔥 Edge cases
+  test('accepts the ends of the reference range', async () => {
+    const projectId = await createProject('Test Project');
+
+    await updateProject(projectId, { tuning: { referenceFrequency: 415, temperament: 'equal', key: 0 } });
+    await updateProject(projectId, { tuning: { referenceFrequency: 466, temperament: 'equal', key: 0 } });
+
+    expect((await getProject(projectId))?.tuning?.referenceFrequency).toBe(466);
+  });
+
+  test('has no tuning by default', async () => {
+    const projectId = await createProject('Test Project');
+
+    expect((await getProject(projectId))?.tuning).toBeUndefined();
+  });
+});
+
 describe('PROJ-008: Delete project from IndexedDB', () => {
   beforeEach(async () => {
     await initializeDatabase();
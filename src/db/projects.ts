@@ -1,7 +1,7 @@
-// [EARS: PROJ-001, PROJ-002, PROJ-005, PROJ-006, PROJ-008, ERR-002] Project CRUD operations
+// [EARS: PROJ-001, PROJ-002, PROJ-005, PROJ-006, PROJ-008, ERR-002, CNT-001, CNT-002, TEMPO-001, CHORD-001, TUNE-001, TUNE-002] Project CRUD operations
 
 import { db } from './index';
-import type { Project, VoicePart } from '@/store/types';
+import type { Project, StartingChord, TempoEvent, TimeSignature, Tuning, VoicePart } from '@/store/types';
 import { useErrorStore } from '@/store/useErrorStore';
 
 /**
@@ -11,6 +11,86 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
 }
 
+const MAX_COUNT_IN_BARS = 4;
+const MAX_BEATS_PER_BAR = 12;
+const BEAT_UNITS = [2, 4, 8, 16];
+const MIN_BPM = 40;
+const MAX_BPM = 240;
+const VOICE_PART_TYPES = ['S', 'A', 'T', 'B'];
+const MIN_OCTAVE = 2;
+const MAX_OCTAVE = 6;
+const MIN_REFERENCE_FREQUENCY = 415;
+const MAX_REFERENCE_FREQUENCY = 466;
+const TEMPERAMENTS = ['equal', 'just', 'pythagorean'];
+
+/**
+ * Clamp count-in length to whole bars (0-4)
+ */
+function clampCountInBars(bars: number): number {
+  return Math.max(0, Math.min(MAX_COUNT_IN_BARS, Math.round(bars)));
+}
+
+/**
+ * Validate time signature
+ */
+function isValidTimeSignature(timeSignature: TimeSignature): boolean {
+  return (
+    Number.isInteger(timeSignature.beatsPerBar) &&
+    timeSignature.beatsPerBar >= 1 &&
+    timeSignature.beatsPerBar <= MAX_BEATS_PER_BAR &&
+    BEAT_UNITS.includes(timeSignature.beatUnit)
+  );
+}
+
+/**
+ * Validate tempo map events
+ * [EARS: TEMPO-001] Whole bars from bar 2, one event per bar, 40-240 BPM
+ */
+function isValidTempoMap(events: TempoEvent[]): boolean {
+  return events.every(
+    (event, i) =>
+      Number.isInteger(event.bar) &&
+      event.bar >= 2 &&
+      event.bpm >= MIN_BPM &&
+      event.bpm <= MAX_BPM &&
+      (event.timeSignature === undefined || isValidTimeSignature(event.timeSignature)) &&
+      event.bar > (events[i - 1]?.bar ?? 1)
+  );
+}
+
+/**
+ * Validate starting chord
+ * [EARS: CHORD-001] One tone generator pitch (C2-B6) per S/A/T/B voice part
+ */
+function isValidStartingChord(chord: StartingChord): boolean {
+  return Object.entries(chord).every(
+    ([voicePart, pitch]) =>
+      VOICE_PART_TYPES.includes(voicePart) &&
+      pitch !== undefined &&
+      Number.isInteger(pitch.semitone) &&
+      pitch.semitone >= 0 &&
+      pitch.semitone <= 11 &&
+      Number.isInteger(pitch.octave) &&
+      pitch.octave >= MIN_OCTAVE &&
+      pitch.octave <= MAX_OCTAVE
+  );
+}
+
+/**
+ * Validate tuning
+ * [EARS: TUNE-001, TUNE-002] A4 at 415-466 Hz, known temperament, key 0-11
+ */
+function isValidTuning(tuning: Tuning): boolean {
+  return (
+    tuning.referenceFrequency >= MIN_REFERENCE_FREQUENCY &&
+    tuning.referenceFrequency <= MAX_REFERENCE_FREQUENCY &&
+    TEMPERAMENTS.includes(tuning.temperament) &&
+    Number.isInteger(tuning.key) &&
+    tuning.key >= 0 &&
+    tuning.key <= 11
+  );
+}
+
 /**
  * Initialize default voice parts for a new project
  * [EARS: PROJ-002] Initialize 4 empty voice parts (S, A, T, B)
@@ -31,6 +111,7 @@ function initializeVoiceParts(): VoicePart[] {
  * [EARS: PROJ-003] Set default BPM to 120
  * [EARS: PROJ-004] Set overdub to disabled by default
  * [EARS: PROJ-005] Auto-save to IndexedDB
+ * [EARS: CNT-001, CNT-002] Default to a one-bar count-in in 4/4
  *
  * @param name - Project name (required, will be trimmed)
  * @returns Project ID
@@ -49,6 +130,9 @@ export async function createProject(name: string): Promise<string> {
     name: trimmedName,
     bpm: 120, // [EARS: PROJ-003]
     overdubEnabled: false, // [EARS: PROJ-004]
+    timeSignature: { beatsPerBar: 4, beatUnit: 4 }, // [EARS: CNT-002]
+    countInBars: 1, // [EARS: CNT-001]
+    skipCountInFromPosition: false, // [EARS: CNT-004]
     createdAt: now,
     updatedAt: now,
     voiceParts: initializeVoiceParts(), // [EARS: PROJ-002]
@@ -93,10 +177,13 @@ export async function getAllProjects(): Promise<Project[]> {
 /**
  * Update a project
  * [EARS: PROJ-005] Auto-save on every change
+ * [EARS: CNT-001] Clamp count-in to 0-4 bars
+ * [EARS: CNT-002] Validate time signature
+ * [EARS: TEMPO-001] Sort and validate tempo map
  *
  * @param id - Project ID
  * @param updates - Partial project data to update
- * @throws Error if project not found or if trying to set empty name
+ * @throws Error if project not found, if trying to set empty name, or if time signature or tempo map is invalid
  */
 export async function updateProject(
   id: string,
@@ -117,6 +204,29 @@ export async function updateProject(
     updates.name = trimmedName;
   }
 
+  if (updates.countInBars !== undefined) {
+    updates.countInBars = clampCountInBars(updates.countInBars);
+  }
+
+  if (updates.timeSignature !== undefined && !isValidTimeSignature(updates.timeSignature)) {
+    throw new Error('Invalid time signature');
+  }
+
+  if (updates.tempoMap !== undefined) {
+    updates.tempoMap = [...updates.tempoMap].sort((a, b) => a.bar - b.bar);
+    if (!isValidTempoMap(updates.tempoMap)) {
+      throw new Error('Invalid tempo map');
+    }
+  }
+
+  if (updates.startingChord !== undefined && !isValidStartingChord(updates.startingChord)) {
+    throw new Error('Invalid starting chord');
+  }
+
+  if (updates.tuning !== undefined && !isValidTuning(updates.tuning)) {
+    throw new Error('Invalid tuning');
+  }
+
   const updatedProject: Project = {
     ...project,
     ...updates,
@@ -355,6 +355,173 @@ describe('TRACK-006, TRACK-008, TRACK-009: Update track properties', () => {
   });
 });
 
+describe('POS-001, POS-002: Track start offset', () => {
+  let projectId: string;
+
+  beforeEach(async () => {
+    await initializeDatabase();
+    projectId = await createProject('Test Project');
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('new tracks start at time zero by default', async () => {
+    const trackId = await addTrackToProject(projectId, 'B', {
+      audioBlob: new Blob(),
+      duration: 10,
+      waveformData: [],
+    });
+
+    expect((await getTrack(trackId))?.startOffset).toBe(0);
+  });
+
+  test('stores start offset given when adding a track', async () => {
+    const trackId = await addTrackToProject(projectId, 'B', {
+      audioBlob: new Blob(),
+      duration: 10,
+      waveformData: [],
+      startOffset: 32,
+    });
+
+    expect((await getTrack(trackId))?.startOffset).toBe(32);
+  });
+
+  test('updates start offset in track and project', async () => {
+    const trackId = await addTrackToProject(projectId, 'B', {
+      audioBlob: new Blob(),
+      duration: 10,
+      waveformData: [],
+    });
+
+    await updateTrack(trackId, { startOffset: 4.5 });
+
+    expect((await getTrack(trackId))?.startOffset).toBe(4.5);
+    const project = await db.projects.get(projectId);
+    const bass = project?.voiceParts.find(vp => vp.type === 'B');
+    expect(bass?.tracks[0]?.startOffset).toBe(4.5);
+  });
+
+  // 🔥 Edge cases
+  test('clamps negative start offset to 0', async () => {
+    const trackId = await addTrackToProject(projectId, 'B', {
+      audioBlob: new Blob(),
+      duration: 10,
+      waveformData: [],
+      startOffset: -1,
+    });
+    expect((await getTrack(trackId))?.startOffset).toBe(0);
+
+    await updateTrack(trackId, { startOffset: -3 });
+    expect((await getTrack(trackId))?.startOffset).toBe(0);
+  });
+});
+
+describe('PAN-001: Track pan', () => {
+  let projectId: string;
+  let trackId: string;
+
+  beforeEach(async () => {
+    await initializeDatabase();
+    projectId = await createProject('Test Project');
+    trackId = await addTrackToProject(projectId, 'A', {
+      audioBlob: new Blob(),
+      duration: 10,
+      waveformData: [],
+    });
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('updates pan in track and project', async () => {
+    await updateTrack(trackId, { pan: -0.4 });
+
+    expect((await getTrack(trackId))?.pan).toBe(-0.4);
+    const project = await db.projects.get(projectId);
+    const alto = project?.voiceParts.find(vp => vp.type === 'A');
+    expect(alto?.tracks[0]?.pan).toBe(-0.4);
+  });
+
+  // 🔥 Edge cases
+  test('new tracks have no pan (centre)', async () => {
+    expect((await getTrack(trackId))?.pan).toBeUndefined();
+  });
+
+  test('clamps pan to -1..1', async () => {
+    await updateTrack(trackId, { pan: 2 });
+    expect((await getTrack(trackId))?.pan).toBe(1);
+
+    await updateTrack(trackId, { pan: -1.5 });
+    expect((await getTrack(trackId))?.pan).toBe(-1);
+  });
+});
+
+describe('LOOP-004: Loop-recorded takes', () => {
+  let projectId: string;
+
+  beforeEach(async () => {
+    await initializeDatabase();
+    projectId = await createProject('Test Project');
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('stores takes under a single track', async () => {
+    const trackId = await addTrackToProject(projectId, 'A', {
+      audioBlob: new Blob(['take2']),
+      duration: 4,
+      waveformData: [],
+      takes: [
+        { audioBlob: new Blob(['take1']), duration: 4, waveformData: [0.1] },
+        { audioBlob: new Blob(['take2']), duration: 4, waveformData: [0.2] },
+      ],
+    });
+
+    const track = await getTrack(trackId);
+    expect(track?.takes).toHaveLength(2);
+    expect(track?.takes?.[0]?.waveformData).toEqual([0.1]);
+    expect(track?.takes?.[0]?.id).not.toBe(track?.takes?.[1]?.id);
+    expect(await getProjectTracks(projectId)).toHaveLength(1);
+  });
+
+  test('defaults the comp to the last take', async () => {
+    const trackId = await addTrackToProject(projectId, 'A', {
+      audioBlob: new Blob(['take2']),
+      duration: 4,
+      waveformData: [],
+      takes: [
+        { audioBlob: new Blob(['take1']), duration: 4, waveformData: [] },
+        { audioBlob: new Blob(['take2']), duration: 4, waveformData: [] },
+      ],
+    });
+
+    const track = await getTrack(trackId);
+    expect(track?.comp).toEqual([{ start: 0, end: 4, takeId: track?.takes?.[1]?.id }]);
+  });
+
+  // 🔥 Edge cases
+  test('tracks recorded without takes have no take lanes', async () => {
+    const trackId = await addTrackToProject(projectId, 'A', {
+      audioBlob: new Blob(),
+      duration: 4,
+      waveformData: [],
+      takes: [],
+    });
+
+    const track = await getTrack(trackId);
+    expect(track?.takes).toBeUndefined();
+    expect(track?.comp).toBeUndefined();
+  });
+});
+
 describe('TRACK-001, TRACK-002: Delete track', () => {
   let projectId: string;
   let trackId: string;
@@ -1,8 +1,8 @@
-// [EARS: REC-009, REC-010, TRACK-001, TRACK-006, TRACK-008, ERR-002] Track CRUD operations
+// [EARS: REC-009, REC-010, TRACK-001, TRACK-006, TRACK-008, ERR-002, POS-001, POS-002, PUNCH-005, LOOP-004, PAN-001] Track CRUD operations
 
 import { db } from './index';
 import { getProject, updateProject } from './projects';
-import type { Track, VoicePartType } from '@/store/types';
+import type { PitchContour, Take, Track, VoicePartType } from '@/store/types';
 import { useErrorStore } from '@/store/useErrorStore';
 
 /**
@@ -39,15 +39,31 @@ function clampVolume(volume: number): number {
   return Math.max(0, Math.min(100, volume));
 }
 
+/**
+ * Clamp pan to valid range (-1 to 1)
+ */
+function clampPan(pan: number): number {
+  return Math.max(-1, Math.min(1, pan));
+}
+
+/**
+ * Clamp start offset to the timeline (>= 0)
+ */
+function clampStartOffset(startOffset: number): number {
+  return Math.max(0, startOffset);
+}
+
 /**
  * Add a new track to a project's voice part
  * [EARS: REC-009] Auto-save track to IndexedDB
  * [EARS: REC-010] Auto-generate track name
  * [EARS: REC-011] Limit to 8 tracks per voice part
+ * [EARS: LOOP-004] Store loop-recorded takes; the comp defaults to the last take
+ * [EARS: CONTOUR-001] Store the pitch contour of the track audio
  *
  * @param projectId - Project ID
  * @param voicePartType - Voice part type (S, A, T, B)
- * @param trackData - Track data (audioBlob, duration, waveformData)
+ * @param trackData - Track data (audioBlob, duration, waveformData, optional latencyCompensation, startOffset, takes and pitchContour)
  * @returns Track ID
  * @throws Error if project not found, invalid voice part, or track limit reached
  */
@@ -58,6 +74,10 @@ export async function addTrackToProject(
     audioBlob: Blob;
     duration: number;
     waveformData: number[];
+    latencyCompensation?: number;
+    startOffset?: number;
+    takes?: Array<Pick<Take, 'audioBlob' | 'duration' | 'waveformData'>>;
+    pitchContour?: PitchContour;
   }
 ): Promise<string> {
   const project = await getProject(projectId);
@@ -90,9 +110,34 @@ export async function addTrackToProject(
     muted: false,
     soloed: false,
     waveformData: trackData.waveformData,
+    startOffset: clampStartOffset(trackData.startOffset ?? 0), // [EARS: POS-001]
     createdAt: new Date(),
   };
 
+  // [EARS: LAT-004] Record how much latency was compensated for this take
+  if (trackData.latencyCompensation !== undefined) {
+    track.latencyCompensation = trackData.latencyCompensation;
+  }
+
+  // [EARS: CONTOUR-001] Sung pitch of the track audio
+  if (trackData.pitchContour) {
+    track.pitchContour = trackData.pitchContour;
+  }
+
+  // [EARS: LOOP-004] Keep every pass as a take lane under this track
+  const takes: Take[] = (trackData.takes ?? []).map(take => ({
+    id: generateId(),
+    audioBlob: take.audioBlob,
+    duration: take.duration,
+    waveformData: take.waveformData,
+    createdAt: new Date(),
+  }));
+  const lastTake = takes[takes.length - 1];
+  if (lastTake) {
+    track.takes = takes;
+    track.comp = [{ start: 0, end: lastTake.duration, takeId: lastTake.id }];
+  }
+
   try {
     // Store track in IndexedDB tracks table
     await db.tracks.add(track);
@@ -160,6 +205,8 @@ export async function getProjectTracks(projectId: string): Promise<Track[]> {
  * [EARS: TRACK-008] Update GainNode gain
  * [EARS: TRACK-009] Preserve volume when muted
  * [EARS: TRACK-010] Edit track name
+ * [EARS: PUNCH-005] Replace audio after a punch-in
+ * [EARS: PAN-001] Set the stereo position
  *
  * @param id - Track ID
  * @param updates - Partial track data to update
@@ -167,7 +214,7 @@ export async function getProjectTracks(projectId: string): Promise<Track[]> {
  */
 export async function updateTrack(
   id: string,
-  updates: Partial<Omit<Track, 'id' | 'voicePartType' | 'audioBlob' | 'createdAt'>>
+  updates: Partial<Omit<Track, 'id' | 'voicePartType' | 'createdAt'>>
 ): Promise<void> {
   const track = await db.tracks.get(id);
   if (!track) {
@@ -179,6 +226,16 @@ export async function updateTrack(
     updates.volume = clampVolume(updates.volume);
   }
 
+  // [EARS: PAN-001] Pan runs from hard left to hard right
+  if (updates.pan !== undefined) {
+    updates.pan = clampPan(updates.pan);
+  }
+
+  // [EARS: POS-002] Tracks cannot start before the timeline
+  if (updates.startOffset !== undefined) {
+    updates.startOffset = clampStartOffset(updates.startOffset);
+  }
+
   const updatedTrack: Track = {
     ...track,
     ...updates,
@@ -0,0 +1,66 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { usePitchDetector } from './usePitchDetector';
+import { PitchDetector } from '../audio/pitchDetector';
+
+vi.mock('../audio/pitchDetector');
+
+describe('TUNER-001: usePitchDetector', () => {
+  let mockDetector: { connect: ReturnType<typeof vi.fn>; getFrequency: ReturnType<typeof vi.fn>; dispose: ReturnType<typeof vi.fn> };
+  const audioContext = {} as AudioContext;
+  const stream = {} as MediaStream;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockDetector = {
+      connect: vi.fn(),
+      getFrequency: vi.fn().mockReturnValue(440),
+      dispose: vi.fn(),
+    };
+    vi.mocked(PitchDetector).mockImplementation(function() {
+      return mockDetector as unknown as PitchDetector;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  // ✅ Happy path
+  test('polls the detector while a stream is given', () => {
+    const { result } = renderHook(() => usePitchDetector(stream, audioContext));
+
+    expect(mockDetector.connect).toHaveBeenCalledWith(stream);
+    act(() => {
+      vi.advanceTimersByTime(50);
+    });
+    expect(result.current).toBe(440);
+  });
+
+  test('disconnects when the stream is removed', () => {
+    const { result, rerender } = renderHook(({ s }) => usePitchDetector(s, audioContext), {
+      initialProps: { s: stream as MediaStream | null },
+    });
+    act(() => {
+      vi.advanceTimersByTime(50);
+    });
+
+    rerender({ s: null });
+
+    expect(mockDetector.dispose).toHaveBeenCalled();
+    expect(result.current).toBeNull();
+  });
+
+  // ⚠️ Negative cases
+  test('does nothing without a stream', () => {
+    const { result } = renderHook(() => usePitchDetector(null, audioContext));
+
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+
+    expect(PitchDetector).not.toHaveBeenCalled();
+    expect(result.current).toBeNull();
+  });
+});
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+import { PitchDetector } from '../audio/pitchDetector';
+
+const POLL_INTERVAL = 50; // Milliseconds - 20 readings per second, like the VU meter
+
+/**
+ * Custom hook that tracks the pitch of a microphone stream
+ * [EARS: TUNER-001] Detection runs only while a stream is given
+ *
+ * @param stream - Microphone stream, or null when the tuner is off
+ * @param audioContext - AudioContext to analyze the stream in
+ * @returns Current frequency in Hz, or null for silence, unpitched input or no stream
+ */
+export function usePitchDetector(stream: MediaStream | null, audioContext: AudioContext | null): number | null {
+  const [frequency, setFrequency] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!stream || !audioContext) return;
+
+    const detector = new PitchDetector(audioContext);
+    detector.connect(stream);
+
+    const interval = window.setInterval(() => {
+      setFrequency(detector.getFrequency());
+    }, POLL_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      detector.dispose();
+      setFrequency(null);
+    };
+  }, [stream, audioContext]);
+
+  return stream && audioContext ? frequency : null;
+}
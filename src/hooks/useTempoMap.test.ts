@@ -0,0 +1,60 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useTempoMap } from './useTempoMap';
+import { useProjectStore } from '../store/useProjectStore';
+import { db, initializeDatabase } from '../db';
+
+describe('TEMPO-001: useTempoMap', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('builds the map from the project tempo, meter and tempo changes', async () => {
+    await useProjectStore.getState().createNewProject('Test Project');
+    await useProjectStore.getState().setTempoMap([{ bar: 2, bpm: 60 }]);
+
+    const { result } = renderHook(() => useTempoMap());
+
+    // Bar 1 at 120 BPM (2s), bar 2 at 60 BPM (4s)
+    expect(result.current.barToSeconds(3)).toBe(6);
+  });
+
+  test('rebuilds when the tempo changes are edited', async () => {
+    await useProjectStore.getState().createNewProject('Test Project');
+    const { result } = renderHook(() => useTempoMap());
+    const before = result.current;
+
+    await act(async () => {
+      await useProjectStore.getState().setTempoMap([{ bar: 2, bpm: 60 }]);
+    });
+
+    expect(result.current).not.toBe(before);
+    expect(result.current.tempoAt(10)).toBe(60);
+  });
+
+  // 🔥 Edge cases
+  test('uses 120 BPM in 4/4 without a project', () => {
+    const { result } = renderHook(() => useTempoMap());
+
+    expect(result.current.tempoAt(0)).toBe(120);
+    expect(result.current.timeSignatureAt(0)).toEqual({ beatsPerBar: 4, beatUnit: 4 });
+  });
+
+  test('keeps the same map across unrelated project changes', async () => {
+    await useProjectStore.getState().createNewProject('Test Project');
+    const { result } = renderHook(() => useTempoMap());
+    const before = result.current;
+
+    await act(async () => {
+      await useProjectStore.getState().setOverdubEnabled(true);
+    });
+
+    expect(result.current).toBe(before);
+  });
+});
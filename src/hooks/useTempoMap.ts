@@ -0,0 +1,26 @@
+import { useMemo } from 'react';
+import { useProjectStore } from '../store/useProjectStore';
+import { TempoMap } from '../audio/tempoMap';
+import type { TempoEvent } from '../store/types';
+
+const DEFAULT_BPM = 120;
+
+/**
+ * Custom hook that builds the current project's tempo map
+ * [EARS: TEMPO-001] Bar 1 uses the project BPM and time signature, followed by the tempo changes
+ *
+ * The map is rebuilt only when the tempo, meter or tempo changes are edited,
+ * so it can be used as an effect dependency
+ */
+export function useTempoMap(): TempoMap {
+  const bpm = useProjectStore((state) => state.currentProject?.bpm ?? DEFAULT_BPM);
+  const beatsPerBar = useProjectStore((state) => state.currentProject?.timeSignature?.beatsPerBar ?? 4);
+  const beatUnit = useProjectStore((state) => state.currentProject?.timeSignature?.beatUnit ?? 4);
+  // Every save reloads the project from IndexedDB, so compare the events by value
+  const eventsKey = useProjectStore((state) => JSON.stringify(state.currentProject?.tempoMap ?? []));
+
+  return useMemo(
+    () => new TempoMap(bpm, { beatsPerBar, beatUnit }, JSON.parse(eventsKey) as TempoEvent[]),
+    [bpm, beatsPerBar, beatUnit, eventsKey]
+  );
+}
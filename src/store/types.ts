@@ -12,16 +12,48 @@ export interface Track {
   volume: number; // 0-100 (maps to gain 0-1)
   muted: boolean; // [EARS: TRACK-006, TRACK-007] Boolean flag (does NOT affect GainNode)
   soloed: boolean; // [EARS: TRACK-005]
+  pan?: number; // [EARS: PAN-001] -1 (left) to 1 (right) (missing = centre)
   waveformData: number[]; // [EARS: VIS-001] Sparkline visualization data (100-200 points)
+  latencyCompensation?: number; // [EARS: LAT-004] Seconds trimmed from the start of the take
+  startOffset?: number; // [EARS: POS-001] Seconds from timeline start (missing = 0)
+  takes?: Take[]; // [EARS: LOOP-004] Loop-recorded take lanes (audioBlob holds the rendered comp)
+  comp?: CompSegment[]; // [EARS: LOOP-005] Which take plays in each segment
+  pitchContour?: PitchContour; // [EARS: CONTOUR-001] Sung pitch of audioBlob over time (missing = not analyzed)
+  onsets?: number[]; // [EARS: TIMING-001] Note onsets in seconds from the start of audioBlob (missing = not analyzed)
   createdAt: Date;
 }
 
+export interface PitchContour {
+  // [EARS: CONTOUR-001] Offline pitch track of a recording
+  frameDuration: number; // Seconds per frame
+  frequencies: Array<number | null>; // Hz per frame from the start of the audio (null = unvoiced or silent)
+}
+
+export interface Take {
+  // [EARS: LOOP-004] One pass of a loop recording
+  id: string;
+  audioBlob: Blob; // WAV audio data
+  duration: number; // Seconds
+  waveformData: number[];
+  createdAt: Date;
+}
+
+export interface CompSegment {
+  // [EARS: LOOP-005] Sorted, non-overlapping ranges covering the comp
+  start: number; // Seconds from track start
+  end: number; // Seconds from track start
+  takeId: string;
+}
+
 export interface VoicePart {
   // [EARS: VOICE-001, VOICE-002, VOICE-003]
   type: VoicePartType;
   label: string; // "Soprano", "Alto", "Tenor", "Bass"
   expanded: boolean; // UI collapse/expand state
   tracks: Track[]; // [EARS: REC-011] Max 8 tracks per part
+  volume?: number; // [EARS: BUS-001] Part fader 0-100 (missing = 100)
+  muted?: boolean; // [EARS: BUS-002] Part mute (missing = false)
+  soloed?: boolean; // [EARS: BUS-003] Part solo (missing = false)
 }
 
 export interface Project {
@@ -30,11 +62,50 @@ export interface Project {
   name: string; // User-defined project name (required at creation)
   bpm: number; // [EARS: PROJ-003] Metronome tempo (default 120)
   overdubEnabled: boolean; // [EARS: PROJ-004, OVER-001] Global overdub toggle (default false)
+  timeSignature?: TimeSignature; // [EARS: CNT-002] Missing = 4/4
+  countInBars?: number; // [EARS: CNT-001] Bars counted in before recording, 0-4 (missing = 1)
+  skipCountInFromPosition?: boolean; // [EARS: CNT-004] No count-in when recording from mid-song
+  tempoMap?: TempoEvent[]; // [EARS: TEMPO-001] Tempo/meter changes after bar 1, sorted by bar (missing = none)
+  startingChord?: StartingChord; // [EARS: CHORD-001] Opening pitch per voice part (missing = none set)
+  tuning?: Tuning; // [EARS: TUNE-001] Reference pitch and temperament (missing = A4 440 Hz, equal temperament)
   createdAt: Date;
   updatedAt: Date; // [EARS: PROJ-005] Auto-updated on every change
   voiceParts: VoicePart[]; // Always 4 parts: S, A, T, B
 }
 
+export interface Pitch {
+  // [EARS: TONE-007, CHORD-001] A tone generator note
+  semitone: number; // 0-11 (0 = C)
+  octave: number; // 2-6 (4 = middle C octave)
+}
+
+// [EARS: CHORD-001] One pitch per voice part; parts without a pitch are left out
+export type StartingChord = Partial<Record<VoicePartType, Pitch>>;
+
+// [EARS: TUNE-002] Equal temperament, or just/Pythagorean intonation relative to a key
+export type Temperament = 'equal' | 'just' | 'pythagorean';
+
+export interface Tuning {
+  // [EARS: TUNE-001, TUNE-002] Used for every pitch the app generates
+  referenceFrequency: number; // A4 in Hz, 415-466
+  temperament: Temperament;
+  key: number; // Tonic semitone 0-11 (0 = C) for just and Pythagorean intonation
+}
+
+export interface TimeSignature {
+  // [EARS: CNT-002] Each beat is one metronome click at the project BPM
+  beatsPerBar: number; // 1-12
+  beatUnit: number; // 2, 4, 8 or 16
+}
+
+export interface TempoEvent {
+  // [EARS: TEMPO-001] Tempo and/or meter change from the downbeat of a bar
+  bar: number; // 2 or later
+  bpm: number; // 40-240
+  timeSignature?: TimeSignature; // Missing = keep the previous meter
+  ramp?: boolean; // Ramp linearly from the previous tempo, arriving at this bar
+}
+
 export interface AudioEngineState {
   // [EARS: PLAY-001, PLAY-002, REC-001]
   isPlaying: boolean;
@@ -45,6 +116,20 @@ export interface AudioEngineState {
   availableMicrophones: MediaDeviceInfo[]; // [EARS: MIC-001] List of available mics
 }
 
+export interface PunchRegion {
+  // [EARS: PUNCH-001] Selected punch-in range on one track (not persisted)
+  trackId: string;
+  punchIn: number; // Seconds from timeline start
+  punchOut: number; // Seconds from timeline start
+}
+
+export interface LatencyCalibration {
+  // [EARS: LAT-003] Round-trip latency measured per microphone
+  deviceId: string; // MediaDeviceInfo.deviceId
+  latency: number; // Seconds (output + input)
+  measuredAt: Date;
+}
+
 export interface UndoState {
   // [EARS: TRACK-001, TRACK-003, TRACK-004] Single-level undo for deleted tracks
   lastDeletedTrack: Track | null;
@@ -1,18 +1,72 @@
 // Store for managing microphone device selection across components
 // [EARS: MIC-002, MIC-003] Global microphone device selection state
+// [EARS: LAT-003, LAT-004, LAT-005] Per-device round-trip latency
 
 import { create } from 'zustand';
+import * as calibrationsDb from '@/db/calibrations';
+
+// Calibration key for the browser's default microphone, used while no device is selected
+export const DEFAULT_DEVICE_KEY = 'default';
 
 interface MicrophoneState {
   selectedDeviceId: string | null;
+  latencyByDevice: Record<string, number>; // Seconds, keyed by device ID (or DEFAULT_DEVICE_KEY)
   setSelectedDeviceId: (deviceId: string | null) => void;
+  loadCalibrations: () => Promise<void>;
+  setDeviceLatency: (deviceId: string, latency: number) => Promise<void>;
 }
 
 /**
  * Global store for microphone device selection
  * Allows MicrophoneSelector and RecordButton to share the selected device
+ * and its calibrated latency
  */
-export const useMicrophoneStore = create<MicrophoneState>((set) => ({
+export const useMicrophoneStore = create<MicrophoneState>((set, get) => ({
   selectedDeviceId: null,
+  latencyByDevice: {},
   setSelectedDeviceId: (deviceId) => set({ selectedDeviceId: deviceId }),
+
+  /**
+   * Load stored calibrations from IndexedDB
+   * [EARS: LAT-005] Restore latency for previously calibrated devices
+   */
+  loadCalibrations: async () => {
+    const calibrations = await calibrationsDb.getAllCalibrations();
+    const latencyByDevice: Record<string, number> = {};
+    for (const calibration of calibrations) {
+      latencyByDevice[calibration.deviceId] = calibration.latency;
+    }
+    set({ latencyByDevice });
+  },
+
+  /**
+   * Save a calibration result for a device
+   * [EARS: LAT-003] Persist latency per device ID
+   */
+  setDeviceLatency: async (deviceId, latency) => {
+    await calibrationsDb.saveCalibration(deviceId, latency);
+    set({ latencyByDevice: { ...get().latencyByDevice, [deviceId]: latency } });
+  },
 }));
+
+/**
+ * Calibration key of the microphone that recording opens
+ * [EARS: LAT-003] With no device selected, the browser's default microphone
+ *
+ * @param deviceId - Selected device ID, if any
+ * @returns Key into latencyByDevice
+ */
+export function getCalibrationKey(deviceId: string | null): string {
+  return deviceId ?? DEFAULT_DEVICE_KEY;
+}
+
+/**
+ * Calibrated latency of the microphone that recording opens
+ * [EARS: LAT-004, LAT-005]
+ *
+ * @param state - Microphone store state
+ * @returns Latency in seconds, or undefined if not calibrated
+ */
+export function selectDeviceLatency(state: MicrophoneState): number | undefined {
+  return state.latencyByDevice[getCalibrationKey(state.selectedDeviceId)];
+}
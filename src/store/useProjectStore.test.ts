@@ -244,6 +244,180 @@ describe('PROJ-006, PROJ-007: Load saved project', () => {
   });
 });
 
+describe('CNT-001, CNT-002, CNT-004: Count-in settings', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('auto-saves time signature', async () => {
+    await useProjectStore.getState().createNewProject('Test Project');
+    const projectId = useProjectStore.getState().currentProject!.id;
+
+    await useProjectStore.getState().setTimeSignature({ beatsPerBar: 3, beatUnit: 4 });
+
+    expect(useProjectStore.getState().currentProject?.timeSignature).toEqual({ beatsPerBar: 3, beatUnit: 4 });
+    const savedProject = await projectsDb.getProject(projectId);
+    expect(savedProject?.timeSignature).toEqual({ beatsPerBar: 3, beatUnit: 4 });
+  });
+
+  test('auto-saves count-in bars and skip option', async () => {
+    await useProjectStore.getState().createNewProject('Test Project');
+    const projectId = useProjectStore.getState().currentProject!.id;
+
+    await useProjectStore.getState().setCountInBars(2);
+    await useProjectStore.getState().setSkipCountInFromPosition(true);
+
+    const savedProject = await projectsDb.getProject(projectId);
+    expect(savedProject?.countInBars).toBe(2);
+    expect(savedProject?.skipCountInFromPosition).toBe(true);
+  });
+
+  // ⚠️ Sad path
+  test('throws error when changing count-in with no project', async () => {
+    await expect(useProjectStore.getState().setCountInBars(2)).rejects.toThrow('No project loaded');
+    await expect(
+      useProjectStore.getState().setTimeSignature({ beatsPerBar: 3, beatUnit: 4 })
+    ).rejects.toThrow('No project loaded');
+  });
+
+  // 🔥 Edge cases
+  test('keeps the previous time signature when the new one is invalid', async () => {
+    await useProjectStore.getState().createNewProject('Test Project');
+
+    await expect(
+      useProjectStore.getState().setTimeSignature({ beatsPerBar: 13, beatUnit: 4 })
+    ).rejects.toThrow('Invalid time signature');
+
+    expect(useProjectStore.getState().currentProject?.timeSignature).toEqual({ beatsPerBar: 4, beatUnit: 4 });
+  });
+});
+
+describe('TEMPO-001: Set tempo map', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('auto-saves tempo changes', async () => {
+    await useProjectStore.getState().createNewProject('Test Project');
+    const projectId = useProjectStore.getState().currentProject!.id;
+
+    await useProjectStore.getState().setTempoMap([{ bar: 9, bpm: 80, ramp: true }]);
+
+    expect(useProjectStore.getState().currentProject?.tempoMap).toEqual([{ bar: 9, bpm: 80, ramp: true }]);
+    const savedProject = await projectsDb.getProject(projectId);
+    expect(savedProject?.tempoMap).toEqual([{ bar: 9, bpm: 80, ramp: true }]);
+  });
+
+  // ⚠️ Sad path
+  test('throws error when no project is loaded', async () => {
+    await expect(useProjectStore.getState().setTempoMap([])).rejects.toThrow('No project loaded');
+  });
+
+  // 🔥 Edge cases
+  test('keeps the previous tempo map when the new one is invalid', async () => {
+    await useProjectStore.getState().createNewProject('Test Project');
+    await useProjectStore.getState().setTempoMap([{ bar: 5, bpm: 100 }]);
+
+    await expect(useProjectStore.getState().setTempoMap([{ bar: 5, bpm: 10 }])).rejects.toThrow('Invalid tempo map');
+
+    expect(useProjectStore.getState().currentProject?.tempoMap).toEqual([{ bar: 5, bpm: 100 }]);
+  });
+});
+
+describe('CHORD-001: Set starting chord', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('auto-saves the starting chord', async () => {
+    await useProjectStore.getState().createNewProject('Test Project');
+    const projectId = useProjectStore.getState().currentProject!.id;
+    const chord = { S: { semitone: 7, octave: 4 }, B: { semitone: 0, octave: 3 } };
+
+    await useProjectStore.getState().setStartingChord(chord);
+
+    expect(useProjectStore.getState().currentProject?.startingChord).toEqual(chord);
+    expect((await projectsDb.getProject(projectId))?.startingChord).toEqual(chord);
+  });
+
+  // ⚠️ Sad path
+  test('throws error when no project is loaded', async () => {
+    await expect(useProjectStore.getState().setStartingChord({})).rejects.toThrow('No project loaded');
+  });
+
+  // 🔥 Edge cases
+  test('keeps the previous chord when the new one is invalid', async () => {
+    await useProjectStore.getState().createNewProject('Test Project');
+    await useProjectStore.getState().setStartingChord({ A: { semitone: 4, octave: 4 } });
+
+    await expect(
+      useProjectStore.getState().setStartingChord({ A: { semitone: 4, octave: 8 } })
+    ).rejects.toThrow('Invalid starting chord');
+
+    expect(useProjectStore.getState().currentProject?.startingChord).toEqual({ A: { semitone: 4, octave: 4 } });
+  });
+});
+
+describe('TUNE-001, TUNE-002: Set tuning', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('auto-saves the tuning', async () => {
+    await useProjectStore.getState().createNewProject('Test Project');
+    const projectId = useProjectStore.getState().currentProject!.id;
+    const tuning = { referenceFrequency: 442, temperament: 'pythagorean' as const, key: 2 };
+
+    await useProjectStore.getState().setTuning(tuning);
+
+    expect(useProjectStore.getState().currentProject?.tuning).toEqual(tuning);
+    expect((await projectsDb.getProject(projectId))?.tuning).toEqual(tuning);
+  });
+
+  // ⚠️ Sad path
+  test('throws error when no project is loaded', async () => {
+    await expect(
+      useProjectStore.getState().setTuning({ referenceFrequency: 440, temperament: 'equal', key: 0 })
+    ).rejects.toThrow('No project loaded');
+  });
+
+  // 🔥 Edge cases
+  test('keeps the previous tuning when the new one is invalid', async () => {
+    await useProjectStore.getState().createNewProject('Test Project');
+    await useProjectStore.getState().setTuning({ referenceFrequency: 442, temperament: 'equal', key: 0 });
+
+    await expect(
+      useProjectStore.getState().setTuning({ referenceFrequency: 300, temperament: 'equal', key: 0 })
+    ).rejects.toThrow('Invalid tuning');
+
+    expect(useProjectStore.getState().currentProject?.tuning?.referenceFrequency).toBe(442);
+  });
+});
+
 describe('PROJ-008: Delete project', () => {
   beforeEach(async () => {
     await initializeDatabase();
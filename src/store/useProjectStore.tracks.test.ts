@@ -1,6 +1,7 @@
-import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
 import { useProjectStore } from './useProjectStore';
 import { db, initializeDatabase } from '@/db/index';
+import * as projectsDb from '@/db/projects';
 import type { VoicePartType } from './types';
 
 describe('REC-010, REC-011: Add track to project', () => {
@@ -446,6 +447,329 @@ describe('TRACK-008, TRACK-009: Volume control', () => {
   });
 });
 
+describe('POS-001, POS-002: Track start offset', () => {
+  let trackId: string;
+
+  beforeEach(async () => {
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+    await useProjectStore.getState().createNewProject('Test Project');
+
+    const audioBlob = new Blob();
+    await useProjectStore.getState().addTrack('B', { audioBlob, duration: 10, waveformData: [] });
+
+    trackId = useProjectStore.getState().tracks[0]!.id;
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('updates track start offset', async () => {
+    await useProjectStore.getState().setTrackStartOffset(trackId, 2.25);
+
+    const store = useProjectStore.getState();
+    const track = store.currentProject?.voiceParts.find(vp => vp.type === 'B')?.tracks[0];
+
+    expect(track?.startOffset).toBe(2.25);
+    expect(store.tracks.find(t => t.id === trackId)?.startOffset).toBe(2.25);
+  });
+
+  test('persists start offset to IndexedDB', async () => {
+    await useProjectStore.getState().setTrackStartOffset(trackId, 8);
+
+    const dbTrack = await db.tracks.get(trackId);
+    expect(dbTrack?.startOffset).toBe(8);
+  });
+
+  // ⚠️ Sad path
+  test('throws error when setting start offset with no project', async () => {
+    useProjectStore.getState().reset();
+    await expect(useProjectStore.getState().setTrackStartOffset(trackId, 1)).rejects.toThrow('No project loaded');
+  });
+});
+
+describe('PAN-001, PAN-004: Track pan and seating presets', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+    await useProjectStore.getState().createNewProject('Test Project');
+
+    const audioBlob = new Blob();
+    await useProjectStore.getState().addTrack('S', { audioBlob, duration: 10, waveformData: [] });
+    await useProjectStore.getState().addTrack('B', { audioBlob, duration: 10, waveformData: [] });
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  const pans = () => useProjectStore.getState().tracks.map(t => t.pan);
+
+  // ✅ Happy path
+  test('updates and persists track pan', async () => {
+    const trackId = useProjectStore.getState().tracks[0]!.id;
+
+    await useProjectStore.getState().setTrackPan(trackId, 0.5);
+
+    expect(pans()).toEqual([0.5, undefined]);
+    expect((await db.tracks.get(trackId))?.pan).toBe(0.5);
+  });
+
+  test('pans every track by a seating preset', async () => {
+    await useProjectStore.getState().applySeatingPreset('sections');
+
+    expect(pans()).toEqual([-0.6, 0.6]);
+  });
+
+  test('centres every track', async () => {
+    await useProjectStore.getState().applySeatingPreset('sections');
+    await useProjectStore.getState().applySeatingPreset('centre');
+
+    expect(pans()).toEqual([0, 0]);
+  });
+
+  // ⚠️ Sad path
+  test('throws error when panning with no project', async () => {
+    useProjectStore.getState().reset();
+    await expect(useProjectStore.getState().setTrackPan('track', 0)).rejects.toThrow('No project loaded');
+    await expect(useProjectStore.getState().applySeatingPreset('centre')).rejects.toThrow('No project loaded');
+  });
+
+  test('pans no track if one fails to save', async () => {
+    const put = db.tracks.put.bind(db.tracks);
+    vi.spyOn(db.tracks, 'put')
+      .mockImplementationOnce(put)
+      .mockRejectedValueOnce(new Error('Disk error'));
+
+    await expect(useProjectStore.getState().applySeatingPreset('sections')).rejects.toThrow('Disk error');
+
+    vi.restoreAllMocks();
+    expect((await db.tracks.toArray()).map(t => t.pan)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('TAP-004, TAP-005: Apply tempo estimate', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+    await useProjectStore.getState().createNewProject('Test Project');
+
+    const audioBlob = new Blob(['audio']);
+    await useProjectStore.getState().addTrack('S', { audioBlob, duration: 20, waveformData: [] });
+    await useProjectStore.getState().addTrack('A', { audioBlob, duration: 20, waveformData: [], startOffset: 1 });
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  const trackOffsets = () =>
+    useProjectStore.getState().tracks.map(t => t.startOffset ?? 0);
+
+  // ✅ Happy path
+  test('sets the BPM and moves the first beat onto the next downbeat', async () => {
+    const trackId = useProjectStore.getState().tracks[0]!.id;
+
+    // 100 BPM in 4/4: bars are 2.4s long, so a first beat at 0.4s moves to bar 2
+    await useProjectStore.getState().applyTempoEstimate(trackId, { bpm: 100, firstBeat: 0.4 }, true);
+
+    expect(useProjectStore.getState().currentProject?.bpm).toBe(100);
+    const [soprano, alto] = trackOffsets();
+    expect(soprano).toBeCloseTo(2);
+    // Other tracks keep their place relative to the analyzed one
+    expect(alto).toBeCloseTo(3);
+  });
+
+  test('sets only the BPM unless asked to align the tracks', async () => {
+    const trackId = useProjectStore.getState().tracks[0]!.id;
+
+    await useProjectStore.getState().applyTempoEstimate(trackId, { bpm: 100, firstBeat: 0.4 }, false);
+
+    expect(useProjectStore.getState().currentProject?.bpm).toBe(100);
+    expect(trackOffsets()).toEqual([0, 1]);
+  });
+
+  test('persists the new tempo and offsets', async () => {
+    const trackId = useProjectStore.getState().tracks[0]!.id;
+    const projectId = useProjectStore.getState().currentProject!.id;
+
+    await useProjectStore.getState().applyTempoEstimate(trackId, { bpm: 100, firstBeat: 0.4 }, true);
+
+    const savedProject = await projectsDb.getProject(projectId);
+    expect(savedProject?.bpm).toBe(100);
+    expect((await db.tracks.get(trackId))?.startOffset).toBeCloseTo(2);
+  });
+
+  // ⚠️ Sad path
+  test('throws error when no project is loaded', async () => {
+    const trackId = useProjectStore.getState().tracks[0]!.id;
+    useProjectStore.getState().reset();
+
+    await expect(
+      useProjectStore.getState().applyTempoEstimate(trackId, { bpm: 100, firstBeat: 0 }, true)
+    ).rejects.toThrow('No project loaded');
+  });
+
+  test('throws error for an unknown track', async () => {
+    await expect(
+      useProjectStore.getState().applyTempoEstimate('missing', { bpm: 100, firstBeat: 0 }, true)
+    ).rejects.toThrow('Track not found');
+  });
+
+  test('saves nothing if a track fails to move', async () => {
+    const trackId = useProjectStore.getState().tracks[0]!.id;
+    const projectId = useProjectStore.getState().currentProject!.id;
+    const put = db.tracks.put.bind(db.tracks);
+    vi.spyOn(db.tracks, 'put')
+      .mockImplementationOnce(put)
+      .mockRejectedValueOnce(new Error('Disk error'));
+
+    await expect(
+      useProjectStore.getState().applyTempoEstimate(trackId, { bpm: 100, firstBeat: 0.4 }, true)
+    ).rejects.toThrow('Disk error');
+
+    vi.restoreAllMocks();
+    expect((await projectsDb.getProject(projectId))?.bpm).toBe(120);
+    expect((await db.tracks.toArray()).map(t => t.startOffset ?? 0).sort()).toEqual([0, 1]);
+  });
+
+  // 🔥 Edge cases
+  test('leaves tracks in place when the first beat is already a downbeat', async () => {
+    // Alto starts at 1s; at 120 BPM in 4/4 a first beat 1s in falls on bar 2
+    const trackId = useProjectStore.getState().tracks[1]!.id;
+
+    await useProjectStore.getState().applyTempoEstimate(trackId, { bpm: 120, firstBeat: 1 }, true);
+
+    expect(trackOffsets()).toEqual([0, 1]);
+  });
+});
+
+describe('PUNCH-005: Replace track audio', () => {
+  let trackId: string;
+
+  beforeEach(async () => {
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+    await useProjectStore.getState().createNewProject('Test Project');
+
+    const audioBlob = new Blob(['take']);
+    await useProjectStore.getState().addTrack('T', { audioBlob, duration: 10, waveformData: [0.1] });
+
+    trackId = useProjectStore.getState().tracks[0]!.id;
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('replaces audio, duration and waveform', async () => {
+    const audioBlob = new Blob(['spliced take']);
+
+    await useProjectStore.getState().replaceTrackAudio(trackId, {
+      audioBlob,
+      duration: 12,
+      waveformData: [0.4, 0.5],
+    });
+
+    const track = useProjectStore.getState().tracks.find(t => t.id === trackId);
+    expect(track?.duration).toBe(12);
+    expect(track?.waveformData).toEqual([0.4, 0.5]);
+
+    const dbTrack = await db.tracks.get(trackId);
+    expect(dbTrack?.duration).toBe(12);
+  });
+
+  test('keeps track settings when audio is replaced', async () => {
+    await useProjectStore.getState().setTrackVolume(trackId, 40);
+
+    await useProjectStore.getState().replaceTrackAudio(trackId, {
+      audioBlob: new Blob(['spliced take']),
+      duration: 10,
+      waveformData: [],
+    });
+
+    const track = useProjectStore.getState().tracks.find(t => t.id === trackId);
+    expect(track?.volume).toBe(40);
+    expect(track?.name).toBe('T1');
+  });
+
+  // ⚠️ Sad path
+  test('throws error when replacing audio with no project', async () => {
+    useProjectStore.getState().reset();
+    await expect(
+      useProjectStore.getState().replaceTrackAudio(trackId, {
+        audioBlob: new Blob(),
+        duration: 1,
+        waveformData: [],
+      })
+    ).rejects.toThrow('No project loaded');
+  });
+});
+
+describe('LOOP-005, LOOP-006: Set track comp', () => {
+  let trackId: string;
+
+  beforeEach(async () => {
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+    await useProjectStore.getState().createNewProject('Test Project');
+
+    await useProjectStore.getState().addTrack('A', {
+      audioBlob: new Blob(['take2']),
+      duration: 4,
+      waveformData: [],
+      takes: [
+        { audioBlob: new Blob(['take1']), duration: 4, waveformData: [] },
+        { audioBlob: new Blob(['take2']), duration: 4, waveformData: [] },
+      ],
+    });
+
+    trackId = useProjectStore.getState().tracks[0]!.id;
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('stores the comp and rendered audio', async () => {
+    const takes = useProjectStore.getState().tracks[0]!.takes!;
+    const comp = [
+      { start: 0, end: 2, takeId: takes[0]!.id },
+      { start: 2, end: 4, takeId: takes[1]!.id },
+    ];
+
+    await useProjectStore.getState().setTrackComp(trackId, comp, {
+      audioBlob: new Blob(['comp']),
+      duration: 4,
+      waveformData: [0.3],
+    });
+
+    const track = useProjectStore.getState().tracks.find(t => t.id === trackId);
+    expect(track?.comp).toEqual(comp);
+    expect(track?.waveformData).toEqual([0.3]);
+    expect(track?.takes).toHaveLength(2);
+
+    const dbTrack = await db.tracks.get(trackId);
+    expect(dbTrack?.comp).toEqual(comp);
+  });
+
+  // ⚠️ Sad path
+  test('throws error when setting comp with no project', async () => {
+    useProjectStore.getState().reset();
+    await expect(
+      useProjectStore.getState().setTrackComp(trackId, [], {
+        audioBlob: new Blob(),
+        duration: 1,
+        waveformData: [],
+      })
+    ).rejects.toThrow('No project loaded');
+  });
+});
+
 describe('TRACK-010: Edit track name', () => {
   let trackId: string;
 
@@ -487,3 +811,179 @@ describe('TRACK-010: Edit track name', () => {
     await expect(useProjectStore.getState().setTrackName(trackId, 'New Name')).rejects.toThrow('No project loaded');
   });
 });
+
+describe('CONTOUR-001: Track pitch contour', () => {
+  let trackId: string;
+  const pitchContour = { frameDuration: 0.02, frequencies: [null, 440, 441.5, null] };
+
+  beforeEach(async () => {
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+    await useProjectStore.getState().createNewProject('Test Project');
+
+    await useProjectStore.getState().addTrack('A', { audioBlob: new Blob(['take']), duration: 10, waveformData: [] });
+
+    trackId = useProjectStore.getState().tracks[0]!.id;
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('stores the contour of a track', async () => {
+    await useProjectStore.getState().setTrackPitchContour(trackId, pitchContour);
+
+    const track = useProjectStore.getState().tracks.find(t => t.id === trackId);
+    expect(track?.pitchContour).toEqual(pitchContour);
+
+    const dbTrack = await db.tracks.get(trackId);
+    expect(dbTrack?.pitchContour).toEqual(pitchContour);
+  });
+
+  test('stores a contour given with a new track', async () => {
+    await useProjectStore.getState().addTrack('A', {
+      audioBlob: new Blob(['second take']),
+      duration: 10,
+      waveformData: [],
+      pitchContour,
+    });
+
+    const track = useProjectStore.getState().tracks.find(t => t.name === 'A2');
+    expect(track?.pitchContour).toEqual(pitchContour);
+  });
+
+  test('clears the contour when the audio is replaced without one', async () => {
+    await useProjectStore.getState().setTrackPitchContour(trackId, pitchContour);
+
+    await useProjectStore.getState().replaceTrackAudio(trackId, {
+      audioBlob: new Blob(['spliced take']),
+      duration: 10,
+      waveformData: [],
+    });
+
+    const track = useProjectStore.getState().tracks.find(t => t.id === trackId);
+    expect(track?.pitchContour).toBeUndefined();
+  });
+
+  test('stores the contour of a new comp', async () => {
+    const compContour = { frameDuration: 0.02, frequencies: [220] };
+
+    await useProjectStore.getState().setTrackComp(trackId, [], {
+      audioBlob: new Blob(['comp']),
+      duration: 10,
+      waveformData: [],
+      pitchContour: compContour,
+    });
+
+    const track = useProjectStore.getState().tracks.find(t => t.id === trackId);
+    expect(track?.pitchContour).toEqual(compContour);
+  });
+
+  // ⚠️ Sad path
+  test('throws error when setting a contour with no project', async () => {
+    useProjectStore.getState().reset();
+    await expect(useProjectStore.getState().setTrackPitchContour(trackId, pitchContour)).rejects.toThrow(
+      'No project loaded'
+    );
+  });
+});
+
+describe('TIMING-001: Track onsets', () => {
+  let trackId: string;
+
+  beforeEach(async () => {
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+    await useProjectStore.getState().createNewProject('Test Project');
+
+    await useProjectStore.getState().addTrack('T', { audioBlob: new Blob(['take']), duration: 10, waveformData: [] });
+
+    trackId = useProjectStore.getState().tracks[0]!.id;
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  // ✅ Happy path
+  test('stores the onsets of a track', async () => {
+    await useProjectStore.getState().setTrackOnsets(trackId, [0.5, 1.02, 1.49]);
+
+    const track = useProjectStore.getState().tracks.find(t => t.id === trackId);
+    expect(track?.onsets).toEqual([0.5, 1.02, 1.49]);
+
+    const dbTrack = await db.tracks.get(trackId);
+    expect(dbTrack?.onsets).toEqual([0.5, 1.02, 1.49]);
+  });
+
+  test('clears the onsets when the audio is replaced', async () => {
+    await useProjectStore.getState().setTrackOnsets(trackId, [0.5]);
+
+    await useProjectStore.getState().replaceTrackAudio(trackId, {
+      audioBlob: new Blob(['spliced take']),
+      duration: 10,
+      waveformData: [],
+    });
+
+    const track = useProjectStore.getState().tracks.find(t => t.id === trackId);
+    expect(track?.onsets).toBeUndefined();
+  });
+
+  // ⚠️ Sad path
+  test('throws error when setting onsets with no project', async () => {
+    useProjectStore.getState().reset();
+    await expect(useProjectStore.getState().setTrackOnsets(trackId, [])).rejects.toThrow('No project loaded');
+  });
+});
+
+describe('BUS-001, BUS-002, BUS-003: Voice part bus', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+    useProjectStore.getState().reset();
+    await useProjectStore.getState().createNewProject('Test Project');
+    await useProjectStore.getState().addTrack('T', { audioBlob: new Blob(), duration: 10, waveformData: [] });
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  const tenor = () => useProjectStore.getState().currentProject?.voiceParts.find(vp => vp.type === 'T');
+
+  // ✅ Happy path
+  test('sets and persists the part fader', async () => {
+    await useProjectStore.getState().setVoicePartVolume('T', 60);
+
+    expect(tenor()?.volume).toBe(60);
+    const saved = await db.projects.get(useProjectStore.getState().currentProject!.id);
+    expect(saved?.voiceParts.find(vp => vp.type === 'T')?.volume).toBe(60);
+  });
+
+  test('sets part mute and solo without touching the tracks', async () => {
+    await useProjectStore.getState().setVoicePartMute('T', true);
+    await useProjectStore.getState().setVoicePartSolo('T', true);
+
+    expect(tenor()?.muted).toBe(true);
+    expect(tenor()?.soloed).toBe(true);
+    expect(tenor()?.tracks).toHaveLength(1);
+    expect(useProjectStore.getState().tracks[0]).toMatchObject({ muted: false, soloed: false });
+  });
+
+  // ⚠️ Sad path
+  test('throws error when changing a bus with no project', async () => {
+    useProjectStore.getState().reset();
+    await expect(useProjectStore.getState().setVoicePartVolume('T', 50)).rejects.toThrow('No project loaded');
+    await expect(useProjectStore.getState().setVoicePartMute('T', true)).rejects.toThrow('No project loaded');
+    await expect(useProjectStore.getState().setVoicePartSolo('T', true)).rejects.toThrow('No project loaded');
+  });
+
+  // 🔥 Edge cases
+  test('clamps the part fader to 0-100', async () => {
+    await useProjectStore.getState().setVoicePartVolume('T', 140);
+    expect(tenor()?.volume).toBe(100);
+
+    await useProjectStore.getState().setVoicePartVolume('T', -5);
+    expect(tenor()?.volume).toBe(0);
+  });
+});
@@ -1,10 +1,23 @@
 // [EARS: PROJ-001 through PROJ-009, REC-010, TRACK-001 through TRACK-010] Zustand store for project and track management with auto-save
 
 import { create } from 'zustand';
-import type { Project, VoicePartType, Track, UndoState } from './types';
+import type {
+  Project,
+  VoicePartType,
+  Track,
+  UndoState,
+  CompSegment,
+  TimeSignature,
+  TempoEvent,
+  StartingChord,
+  Tuning,
+  PitchContour,
+} from './types';
 import * as projectsDb from '@/db/projects';
 import * as tracksDb from '@/db/tracks';
 import { db } from '@/db/index';
+import { TempoMap } from '@/audio/tempoMap';
+import { getSeatingPans, type SeatingPreset } from '@/audio/seating';
 
 interface ProjectStore {
   // State
@@ -23,12 +36,29 @@ interface ProjectStore {
   updateProjectName: (name: string) => Promise<void>;
   updateBpm: (bpm: number) => Promise<void>;
   setOverdubEnabled: (enabled: boolean) => Promise<void>;
+  setTimeSignature: (timeSignature: TimeSignature) => Promise<void>;
+  setCountInBars: (bars: number) => Promise<void>;
+  setSkipCountInFromPosition: (skip: boolean) => Promise<void>;
+  setTempoMap: (events: TempoEvent[]) => Promise<void>;
+  setStartingChord: (chord: StartingChord) => Promise<void>;
+  setTuning: (tuning: Tuning) => Promise<void>;
   toggleVoicePartExpanded: (voicePartType: VoicePartType) => Promise<void>;
+  setVoicePartVolume: (voicePartType: VoicePartType, volume: number) => Promise<void>;
+  setVoicePartMute: (voicePartType: VoicePartType, muted: boolean) => Promise<void>;
+  setVoicePartSolo: (voicePartType: VoicePartType, soloed: boolean) => Promise<void>;
 
   // Actions - Track management
   addTrack: (
     voicePartType: VoicePartType,
-    trackData: { audioBlob: Blob; duration: number; waveformData: number[] }
+    trackData: {
+      audioBlob: Blob;
+      duration: number;
+      waveformData: number[];
+      latencyCompensation?: number;
+      startOffset?: number;
+      takes?: Array<{ audioBlob: Blob; duration: number; waveformData: number[] }>;
+      pitchContour?: PitchContour;
+    }
   ) => Promise<void>;
   deleteTrack: (trackId: string) => Promise<void>;
   undoDeleteTrack: () => Promise<void>;
@@ -36,6 +66,21 @@ interface ProjectStore {
   setTrackMute: (trackId: string, muted: boolean) => Promise<void>;
   setTrackVolume: (trackId: string, volume: number) => Promise<void>;
   setTrackName: (trackId: string, name: string) => Promise<void>;
+  setTrackStartOffset: (trackId: string, startOffset: number) => Promise<void>;
+  setTrackPan: (trackId: string, pan: number) => Promise<void>;
+  applySeatingPreset: (preset: SeatingPreset) => Promise<void>;
+  applyTempoEstimate: (trackId: string, estimate: { bpm: number; firstBeat: number }, alignTracks: boolean) => Promise<void>;
+  replaceTrackAudio: (
+    trackId: string,
+    audio: { audioBlob: Blob; duration: number; waveformData: number[]; pitchContour?: PitchContour }
+  ) => Promise<void>;
+  setTrackComp: (
+    trackId: string,
+    comp: CompSegment[],
+    audio: { audioBlob: Blob; duration: number; waveformData: number[]; pitchContour?: PitchContour }
+  ) => Promise<void>;
+  setTrackPitchContour: (trackId: string, pitchContour: PitchContour) => Promise<void>;
+  setTrackOnsets: (trackId: string, onsets: number[]) => Promise<void>;
 
   // Convenience wrappers for UI components
   createProject: (name: string) => Promise<void>;
@@ -46,6 +91,8 @@ interface ProjectStore {
   reset: () => void;
 }
 
+const ALIGN_EPSILON = 0.001; // Seconds; a beat this close to a downbeat is already aligned
+
 /**
  * Helper: Extract all tracks from a project
  */
@@ -226,6 +273,138 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
     });
   },
 
+  /**
+   * Set time signature
+   * [EARS: PROJ-005, CNT-002] Auto-save time signature
+   */
+  setTimeSignature: async (timeSignature: TimeSignature) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    await projectsDb.updateProject(currentProject.id, { timeSignature });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Set count-in length
+   * [EARS: PROJ-005, CNT-001] Auto-save count-in bars (clamped to 0-4)
+   */
+  setCountInBars: async (bars: number) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    await projectsDb.updateProject(currentProject.id, { countInBars: bars });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Set whether to skip count-in when recording from mid-song
+   * [EARS: PROJ-005, CNT-004] Auto-save count-in skip option
+   */
+  setSkipCountInFromPosition: async (skip: boolean) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    await projectsDb.updateProject(currentProject.id, { skipCountInFromPosition: skip });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Set tempo/meter changes
+   * [EARS: PROJ-005, TEMPO-001] Auto-save tempo map (sorted by bar)
+   */
+  setTempoMap: async (events: TempoEvent[]) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    await projectsDb.updateProject(currentProject.id, { tempoMap: events });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Set the starting chord
+   * [EARS: CHORD-001] Auto-save one pitch per voice part
+   */
+  setStartingChord: async (chord: StartingChord) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    await projectsDb.updateProject(currentProject.id, { startingChord: chord });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Set the reference pitch and temperament
+   * [EARS: TUNE-001, TUNE-002] Auto-save the project tuning
+   */
+  setTuning: async (tuning: Tuning) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    await projectsDb.updateProject(currentProject.id, { tuning });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
   /**
    * Toggle voice part expanded/collapsed state
    * [EARS: PROJ-005, VOICE-002] Auto-save voice part state
@@ -255,11 +434,99 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
     });
   },
 
+  /**
+   * Set a voice part's bus fader
+   * [EARS: BUS-001] Part fader (0-100) scales every track in the part
+   */
+  setVoicePartVolume: async (voicePartType: VoicePartType, volume: number) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    const updatedVoiceParts = currentProject.voiceParts.map(vp => {
+      if (vp.type === voicePartType) {
+        return { ...vp, volume: Math.max(0, Math.min(100, volume)) };
+      }
+      return vp;
+    });
+
+    await projectsDb.updateProject(currentProject.id, { voiceParts: updatedVoiceParts });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Set a voice part's bus mute
+   * [EARS: BUS-002] Silences the part without touching its tracks' mute flags
+   */
+  setVoicePartMute: async (voicePartType: VoicePartType, muted: boolean) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    const updatedVoiceParts = currentProject.voiceParts.map(vp => {
+      if (vp.type === voicePartType) {
+        return { ...vp, muted };
+      }
+      return vp;
+    });
+
+    await projectsDb.updateProject(currentProject.id, { voiceParts: updatedVoiceParts });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Set a voice part's bus solo
+   * [EARS: BUS-003] Only soloed parts are heard while any part is soloed
+   */
+  setVoicePartSolo: async (voicePartType: VoicePartType, soloed: boolean) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    const updatedVoiceParts = currentProject.voiceParts.map(vp => {
+      if (vp.type === voicePartType) {
+        return { ...vp, soloed };
+      }
+      return vp;
+    });
+
+    await projectsDb.updateProject(currentProject.id, { voiceParts: updatedVoiceParts });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
   /**
    * Add a track to a voice part
    * [EARS: REC-009] Auto-save track to IndexedDB
    * [EARS: REC-010] Auto-generate track name
    * [EARS: REC-011] Enforce 8-track limit
+   * [EARS: LAT-004] Keep the latency compensation applied to the take
    */
   addTrack: async (voicePartType: VoicePartType, trackData) => {
     const { currentProject } = get();
@@ -459,6 +726,210 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
     });
   },
 
+  /**
+   * Set track start offset
+   * [EARS: POS-001, POS-002] Move track along the timeline (seconds, >= 0)
+   */
+  setTrackStartOffset: async (trackId: string, startOffset: number) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    await tracksDb.updateTrack(trackId, { startOffset });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Set track pan
+   * [EARS: PAN-001, PAN-002] Stereo position (-1 left to 1 right)
+   */
+  setTrackPan: async (trackId: string, pan: number) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    await tracksDb.updateTrack(trackId, { pan });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Pan every track by a seating preset
+   * [EARS: PAN-004, PAN-005] One click seats the whole choir
+   */
+  applySeatingPreset: async (preset: SeatingPreset) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    await db.transaction('rw', db.projects, db.tracks, async () => {
+      for (const [trackId, pan] of getSeatingPans(currentProject.voiceParts, preset)) {
+        await tracksDb.updateTrack(trackId, { pan });
+      }
+    });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Adopt a tempo estimated from a track
+   * [EARS: TAP-004] Set the BPM
+   * [EARS: TAP-005] If asked, also shift every track by the same amount so the
+   * estimated first beat lands on the next downbeat, all or nothing
+   */
+  applyTempoEstimate: async (trackId, { bpm, firstBeat }, alignTracks) => {
+    const { currentProject, tracks } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) {
+      throw new Error('Track not found');
+    }
+
+    const tempoMap = new TempoMap(bpm, currentProject.timeSignature, currentProject.tempoMap);
+    const beatTime = (track.startOffset ?? 0) + firstBeat;
+    const { bar } = tempoMap.secondsToBarBeatTick(beatTime);
+    const barStart = tempoMap.barToSeconds(bar);
+    const downbeat = beatTime - barStart < ALIGN_EPSILON ? barStart : tempoMap.barToSeconds(bar + 1);
+    const shift = downbeat - beatTime;
+
+    await db.transaction('rw', db.projects, db.tracks, async () => {
+      await projectsDb.updateProject(currentProject.id, { bpm });
+
+      if (alignTracks && shift > ALIGN_EPSILON) {
+        for (const t of tracks) {
+          await tracksDb.updateTrack(t.id, { startOffset: (t.startOffset ?? 0) + shift });
+        }
+      }
+    });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Replace a track's audio
+   * [EARS: PUNCH-004, PUNCH-005] Store spliced punch-in audio and regenerated waveform
+   * [EARS: CONTOUR-001, TIMING-001] A contour or onsets of the old audio no longer apply
+   */
+  replaceTrackAudio: async (trackId, audio) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    await tracksDb.updateTrack(trackId, { pitchContour: undefined, onsets: undefined, ...audio });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Set a track's comp
+   * [EARS: LOOP-005, LOOP-006] Store the chosen segments together with the rendered comp audio
+   * [EARS: CONTOUR-001, TIMING-001] A contour or onsets of the old audio no longer apply
+   */
+  setTrackComp: async (trackId, comp, audio) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    await tracksDb.updateTrack(trackId, { pitchContour: undefined, onsets: undefined, ...audio, comp });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Store a track's pitch contour
+   * [EARS: CONTOUR-001] Contour analyzed after the track was recorded
+   */
+  setTrackPitchContour: async (trackId: string, pitchContour: PitchContour) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    await tracksDb.updateTrack(trackId, { pitchContour });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
+  /**
+   * Store a track's note onsets
+   * [EARS: TIMING-001] Onsets found when the timing report is first shown
+   */
+  setTrackOnsets: async (trackId: string, onsets: number[]) => {
+    const { currentProject } = get();
+
+    if (!currentProject) {
+      throw new Error('No project loaded');
+    }
+
+    await tracksDb.updateTrack(trackId, { onsets });
+
+    const updatedProject = await projectsDb.getProject(currentProject.id);
+
+    set({
+      currentProject: updatedProject!,
+      tracks: getTracksFromProject(updatedProject!),
+      hasUnsavedChanges: false,
+    });
+  },
+
   /**
    * Convenience wrapper: Create project (matches TopBar API)
    */
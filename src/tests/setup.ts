@@ -20,6 +20,8 @@ vi.mock('tone', () => {
   let intervalHandle: NodeJS.Timeout | null = null;
 
   const mockTransport = {
+    PPQ: 192,
+    ticks: 0,
     bpm: {
       get value() {
         return transportBpm;
@@ -27,6 +29,9 @@ vi.mock('tone', () => {
       set value(val: number) {
         transportBpm = val;
       },
+      setValueAtTime: vi.fn(),
+      linearRampToValueAtTime: vi.fn(),
+      cancelScheduledValues: vi.fn(),
     },
     get state() {
       return transportState;
@@ -95,12 +100,29 @@ vi.mock('tone', () => {
     }
   }
 
+  // Mock Synth class (metronome click)
+  class MockSynth {
+    volume = { value: 0 };
+
+    triggerAttackRelease(_note: string, _duration: string, _time?: number, _velocity?: number) {
+      return this;
+    }
+
+    toDestination() {
+      return this;
+    }
+
+    dispose() {}
+  }
+
   return {
     getTransport: vi.fn(() => mockTransport),
+    setContext: vi.fn(),
     Draw: {
       schedule: vi.fn((callback: () => void) => callback()),
     },
     Oscillator: MockOscillator,
+    Synth: MockSynth,
     default: {},
   };
 });
@@ -120,11 +142,17 @@ beforeAll(() => {
         connect: vi.fn(),
         disconnect: vi.fn(),
       }),
+      createStereoPanner: vi.fn().mockImplementation(() => ({
+        pan: { value: 0 },
+        connect: vi.fn(),
+        disconnect: vi.fn(),
+      })),
       createAnalyser: vi.fn().mockReturnValue({
         fftSize: 2048,
         frequencyBinCount: 1024,
         getByteFrequencyData: vi.fn(),
         getByteTimeDomainData: vi.fn(),
+        getFloatTimeDomainData: vi.fn(),
         connect: vi.fn(),
         disconnect: vi.fn(),
       }),
@@ -156,13 +184,13 @@ beforeAll(() => {
         disconnect: vi.fn(),
       }),
       createBuffer: vi.fn().mockImplementation((numberOfChannels: number, length: number, sampleRate: number) => {
-        const channelData = new Float32Array(length);
+        const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
         return {
           duration: length / sampleRate,
           length,
           numberOfChannels,
           sampleRate,
-          getChannelData: (channel: number) => channelData,
+          getChannelData: (channel: number) => channels[channel],
         };
       }),
       decodeAudioData: vi.fn().mockImplementation(async () => {
@@ -348,6 +376,12 @@ beforeAll(() => {
           } else if (part instanceof Uint8Array) {
             view.set(part, offset);
             offset += part.byteLength;
+          } else if (typeof part === 'string') {
+            // One byte per character (enough for the ASCII text tests read back)
+            for (let i = 0; i < part.length; i++) {
+              view[offset + i] = part.charCodeAt(i) & 0xff;
+            }
+            offset += part.length;
           }
         }
 
@@ -366,7 +400,7 @@ beforeAll(() => {
     }
 
     async text(): Promise<string> {
-      return '';
+      return new TextDecoder().decode(await this.arrayBuffer());
     }
 
     async bytes(): Promise<Uint8Array> {